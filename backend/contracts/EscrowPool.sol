@@ -32,12 +32,56 @@ contract EscrowPool is ReentrancyGuard, Ownable, Pausable {
         DISPUTED
     }
 
+    struct Syndicate {
+        string invoiceId;
+        string nftTokenId;
+        uint256 nftSerialNumber;
+        address supplier;
+        uint256 targetAmount;
+        uint256 raisedAmount;
+        uint256 fillDeadline;
+        uint256 dueDate;
+        SyndicateStatus status;
+        string fileHash;
+    }
+
+    enum SyndicateStatus {
+        OPEN,
+        FILLED,
+        RELEASED,
+        REFUNDED
+    }
+
+    struct Dispute {
+        address raisedBy;
+        string reason;
+        uint256 raisedAt;
+        uint256 resolvedAt;
+        uint256 investorAmount;
+        uint256 supplierAmount;
+    }
+
     mapping(bytes32 => Escrow) public escrows;
     mapping(string => bytes32) public invoiceToEscrowId;
+
+    // Current holder of the invoice NFT, who receives the investor side of
+    // every payout. Starts as the depositing investor.
+    mapping(bytes32 => address) public holders;
+
+    // Escrows whose settlement has been paid to the holder; each pays once
+    mapping(bytes32 => bool) public settled;
+
+    mapping(bytes32 => Syndicate) public syndicates;
+    mapping(string => bytes32) public invoiceToSyndicateId;
+    mapping(bytes32 => mapping(address => uint256)) public tranches;
+    mapping(bytes32 => address[]) private syndicateInvestors;
+
+    mapping(bytes32 => Dispute) public disputes;
     
     uint256 public platformFeeRate = 250; // 2.5% in basis points
     uint256 public constant MAX_FEE_RATE = 1000; // 10% maximum
     address public feeRecipient;
+    address public arbiter; // resolves disputes alongside the owner
     
     event EscrowCreated(
         bytes32 indexed escrowId,
@@ -68,8 +112,87 @@ contract EscrowPool is ReentrancyGuard, Ownable, Pausable {
         uint256 amount
     );
     
+    event SyndicateOpened(
+        bytes32 indexed syndicateId,
+        string indexed invoiceId,
+        address indexed supplier,
+        uint256 targetAmount,
+        uint256 fillDeadline
+    );
+
+    event TrancheCommitted(
+        bytes32 indexed syndicateId,
+        string indexed invoiceId,
+        address indexed investor,
+        uint256 amount,
+        uint256 raisedAmount
+    );
+
+    event SyndicateFilled(
+        bytes32 indexed syndicateId,
+        string indexed invoiceId,
+        uint256 amount
+    );
+
+    event SyndicateReleased(
+        bytes32 indexed syndicateId,
+        string indexed invoiceId,
+        address indexed supplier,
+        uint256 amount,
+        uint256 fee
+    );
+
+    event TrancheRefunded(
+        bytes32 indexed syndicateId,
+        string indexed invoiceId,
+        address indexed investor,
+        uint256 amount
+    );
+
+    event SyndicateRefunded(
+        bytes32 indexed syndicateId,
+        string indexed invoiceId,
+        uint256 amount
+    );
+    
+    event DisputeRaised(
+        bytes32 indexed escrowId,
+        string indexed invoiceId,
+        address indexed raisedBy,
+        string reason
+    );
+
+    event DisputeResolved(
+        bytes32 indexed escrowId,
+        string indexed invoiceId,
+        address indexed resolver,
+        uint256 investorAmount,
+        uint256 supplierAmount,
+        uint256 fee
+    );
+
+    event HolderUpdated(
+        bytes32 indexed escrowId,
+        string indexed invoiceId,
+        address indexed previousHolder,
+        address newHolder
+    );
+
+    event SettlementPaid(
+        bytes32 indexed escrowId,
+        string indexed invoiceId,
+        address indexed holder,
+        uint256 amount
+    );
+
     event FeeRateUpdated(uint256 oldRate, uint256 newRate);
     event FeeRecipientUpdated(address oldRecipient, address newRecipient);
+    event ArbiterUpdated(address oldArbiter, address newArbiter);
+
+    modifier onlyArbiter() {
+        require(msg.sender == arbiter || msg.sender == owner(), "Only arbiter or owner can resolve");
+        _;
+    }
 
     constructor(address _feeRecipient, address initialOwner) Ownable(initialOwner) {
         require(_feeRecipient != address(0), "Invalid fee recipient");
@@ -98,6 +221,7 @@ contract EscrowPool is ReentrancyGuard, Ownable, Pausable {
         require(dueDate > block.timestamp, "Due date must be in the future");
         require(bytes(invoiceId).length > 0, "Invoice ID cannot be empty");
         require(invoiceToEscrowId[invoiceId] == bytes32(0), "Invoice already has escrow");
+        require(invoiceToSyndicateId[invoiceId] == bytes32(0), "Invoice is syndicated");
 
         bytes32 escrowId = keccak256(
             abi.encodePacked(invoiceId, msg.sender, block.timestamp)
@@ -117,6 +241,7 @@ contract EscrowPool is ReentrancyGuard, Ownable, Pausable {
         });
 
         invoiceToEscrowId[invoiceId] = escrowId;
+        holders[escrowId] = msg.sender;
 
         emit EscrowCreated(escrowId, invoiceId, msg.sender, supplier, msg.value);
         emit EscrowFunded(escrowId, invoiceId, msg.value);
@@ -133,7 +258,7 @@ contract EscrowPool is ReentrancyGuard, Ownable, Pausable {
         Escrow storage escrow = escrows[escrowId];
         require(escrow.status == EscrowStatus.FUNDED, "Escrow not in funded status");
         require(
-            msg.sender == escrow.investor || msg.sender == owner(),
+            msg.sender == holders[escrowId] || msg.sender == owner(),
             "Only investor or owner can release"
         );
 
@@ -156,7 +281,7 @@ contract EscrowPool is ReentrancyGuard, Ownable, Pausable {
     }
 
     /**
-     * @dev Refund funds to investor (called when invoice defaults or is cancelled)
+     * @dev Refund funds to the current holder (called when invoice defaults or is cancelled)
      * @param invoiceId Invoice identifier
      */
     function refund(string memory invoiceId) external nonReentrant whenNotPaused {
@@ -164,9 +289,10 @@ contract EscrowPool is ReentrancyGuard, Ownable, Pausable {
         require(escrowId != bytes32(0), "Escrow not found");
         
         Escrow storage escrow = escrows[escrowId];
+        address holder = holders[escrowId];
         require(escrow.status == EscrowStatus.FUNDED, "Escrow not in funded status");
         require(
-            msg.sender == escrow.investor || 
+            msg.sender == holder || 
             msg.sender == owner() || 
             block.timestamp > escrow.dueDate + 30 days,
             "Not authorized to refund or too early"
@@ -174,11 +300,294 @@ contract EscrowPool is ReentrancyGuard, Ownable, Pausable {
 
         escrow.status = EscrowStatus.REFUNDED;
 
-        // Refund full amount to investor
-        (bool success, ) = escrow.investor.call{value: escrow.amount}("");
+        // Refund full amount to the holder
+        (bool success, ) = holder.call{value: escrow.amount}("");
         require(success, "Refund transfer failed");
 
-        emit EscrowRefunded(escrowId, invoiceId, escrow.investor, escrow.amount);
+        emit EscrowRefunded(escrowId, invoiceId, holder, escrow.amount);
+    }
+
+    /**
+     * @dev Record a new holder after the invoice NFT changed hands (only owner).
+     * The platform follows NFT transfers on the Mirror Node and mirrors them here.
+     * @param invoiceId Invoice identifier
+     * @param newHolder Address of the account now holding the invoice NFT
+     */
+    function updateHolder(string memory invoiceId, address newHolder) external onlyOwner whenNotPaused {
+        bytes32 escrowId = invoiceToEscrowId[invoiceId];
+        require(escrowId != bytes32(0), "Escrow not found");
+        require(newHolder != address(0), "Invalid holder address");
+        require(escrows[escrowId].status != EscrowStatus.REFUNDED, "Escrow already refunded");
+
+        address previousHolder = holders[escrowId];
+        holders[escrowId] = newHolder;
+
+        emit HolderUpdated(escrowId, invoiceId, previousHolder, newHolder);
+    }
+
+    /**
+     * @dev Pay the invoice's settlement through to the current holder (called
+     * when the buyer's payment is received). Each escrow is settled once, and
+     * never after a dispute split has already paid the investor their share.
+     * @param invoiceId Invoice identifier
+     */
+    function settle(string memory invoiceId) external payable nonReentrant whenNotPaused {
+        bytes32 escrowId = invoiceToEscrowId[invoiceId];
+        require(escrowId != bytes32(0), "Escrow not found");
+        require(escrows[escrowId].status == EscrowStatus.RELEASED, "Escrow not released");
+        require(disputes[escrowId].resolvedAt == 0, "Escrow resolved through dispute");
+        require(!settled[escrowId], "Escrow already settled");
+        require(msg.value > 0, "Settlement amount must be greater than 0");
+
+        settled[escrowId] = true;
+        address holder = holders[escrowId];
+        (bool success, ) = holder.call{value: msg.value}("");
+        require(success, "Settlement transfer failed");
+
+        emit SettlementPaid(escrowId, invoiceId, holder, msg.value);
+    }
+
+    /**
+     * @dev Freeze a funded escrow until the arbiter resolves the dispute.
+     * Release and refund are blocked while the escrow is disputed. The owner
+     * may relay a dispute on behalf of a party whose wallet the platform verified.
+     * @param invoiceId Invoice identifier
+     * @param reason Why the escrow is disputed
+     */
+    function raiseDispute(string memory invoiceId, string memory reason) external whenNotPaused {
+        bytes32 escrowId = invoiceToEscrowId[invoiceId];
+        require(escrowId != bytes32(0), "Escrow not found");
+
+        Escrow storage escrow = escrows[escrowId];
+        require(escrow.status == EscrowStatus.FUNDED, "Escrow not in funded status");
+        require(
+            msg.sender == holders[escrowId] || msg.sender == escrow.supplier || msg.sender == owner(),
+            "Only investor or supplier can raise a dispute"
+        );
+        require(bytes(reason).length > 0, "Reason cannot be empty");
+
+        escrow.status = EscrowStatus.DISPUTED;
+        disputes[escrowId] = Dispute({
+            raisedBy: msg.sender,
+            reason: reason,
+            raisedAt: block.timestamp,
+            resolvedAt: 0,
+            investorAmount: 0,
+            supplierAmount: 0
+        });
+
+        emit DisputeRaised(escrowId, invoiceId, msg.sender, reason);
+    }
+
+    /**
+     * @dev Settle a disputed escrow by splitting it between the holder and supplier.
+     * The platform fee applies to the supplier's share only.
+     * @param invoiceId Invoice identifier
+     * @param investorShareBps Investor's share of the escrow in basis points
+     */
+    function resolveDispute(string memory invoiceId, uint256 investorShareBps) external onlyArbiter nonReentrant whenNotPaused {
+        bytes32 escrowId = invoiceToEscrowId[invoiceId];
+        require(escrowId != bytes32(0), "Escrow not found");
+        require(investorShareBps <= 10000, "Investor share exceeds 100%");
+
+        Escrow storage escrow = escrows[escrowId];
+        require(escrow.status == EscrowStatus.DISPUTED, "Escrow not disputed");
+
+        uint256 investorAmount = (escrow.amount * investorShareBps) / 10000;
+        uint256 supplierShare = escrow.amount - investorAmount;
+        uint256 fee = (supplierShare * platformFeeRate) / 10000;
+        uint256 supplierAmount = supplierShare - fee;
+
+        escrow.status = supplierShare == 0 ? EscrowStatus.REFUNDED : EscrowStatus.RELEASED;
+
+        Dispute storage dispute = disputes[escrowId];
+        dispute.resolvedAt = block.timestamp;
+        dispute.investorAmount = investorAmount;
+        dispute.supplierAmount = supplierAmount;
+
+        if (investorAmount > 0) {
+            (bool investorSuccess, ) = holders[escrowId].call{value: investorAmount}("");
+            require(investorSuccess, "Investor transfer failed");
+        }
+
+        if (fee > 0) {
+            (bool feeSuccess, ) = feeRecipient.call{value: fee}("");
+            require(feeSuccess, "Fee transfer failed");
+        }
+
+        if (supplierAmount > 0) {
+            (bool supplierSuccess, ) = escrow.supplier.call{value: supplierAmount}("");
+            require(supplierSuccess, "Supplier transfer failed");
+        }
+
+        emit DisputeResolved(escrowId, invoiceId, msg.sender, investorAmount, supplierAmount, fee);
+    }
+
+    /**
+     * @dev Open a syndicated escrow that several investors fill with tranches
+     * @param invoiceId Unique identifier for the invoice
+     * @param nftTokenId Hedera NFT token ID
+     * @param nftSerialNumber NFT serial number
+     * @param supplier Address of the supplier
+     * @param targetAmount Amount the syndicate must raise before release
+     * @param fillDeadline Timestamp after which an unfilled syndicate can be refunded
+     * @param dueDate Due date timestamp
+     * @param fileHash Hash of the invoice file
+     */
+    function openSyndicate(
+        string memory invoiceId,
+        string memory nftTokenId,
+        uint256 nftSerialNumber,
+        address supplier,
+        uint256 targetAmount,
+        uint256 fillDeadline,
+        uint256 dueDate,
+        string memory fileHash
+    ) external onlyOwner whenNotPaused {
+        require(targetAmount > 0, "Target amount must be greater than 0");
+        require(supplier != address(0), "Invalid supplier address");
+        require(fillDeadline > block.timestamp, "Fill deadline must be in the future");
+        require(dueDate > fillDeadline, "Due date must be after fill deadline");
+        require(bytes(invoiceId).length > 0, "Invoice ID cannot be empty");
+        require(invoiceToEscrowId[invoiceId] == bytes32(0), "Invoice already has escrow");
+        require(invoiceToSyndicateId[invoiceId] == bytes32(0), "Invoice already has syndicate");
+
+        bytes32 syndicateId = keccak256(
+            abi.encodePacked(invoiceId, supplier, block.timestamp)
+        );
+
+        syndicates[syndicateId] = Syndicate({
+            invoiceId: invoiceId,
+            nftTokenId: nftTokenId,
+            nftSerialNumber: nftSerialNumber,
+            supplier: supplier,
+            targetAmount: targetAmount,
+            raisedAmount: 0,
+            fillDeadline: fillDeadline,
+            dueDate: dueDate,
+            status: SyndicateStatus.OPEN,
+            fileHash: fileHash
+        });
+
+        invoiceToSyndicateId[invoiceId] = syndicateId;
+
+        emit SyndicateOpened(syndicateId, invoiceId, supplier, targetAmount, fillDeadline);
+    }
+
+    /**
+     * @dev Commit a tranche to an open syndicate
+     * @param invoiceId Invoice identifier
+     */
+    function commitTranche(string memory invoiceId) external payable nonReentrant whenNotPaused {
+        bytes32 syndicateId = invoiceToSyndicateId[invoiceId];
+        require(syndicateId != bytes32(0), "Syndicate not found");
+
+        Syndicate storage syndicate = syndicates[syndicateId];
+        require(syndicate.status == SyndicateStatus.OPEN, "Syndicate not open");
+        require(block.timestamp <= syndicate.fillDeadline, "Fill deadline has passed");
+        require(msg.value > 0, "Tranche amount must be greater than 0");
+        require(
+            syndicate.raisedAmount + msg.value <= syndicate.targetAmount,
+            "Tranche exceeds remaining capacity"
+        );
+
+        if (tranches[syndicateId][msg.sender] == 0) {
+            syndicateInvestors[syndicateId].push(msg.sender);
+        }
+        tranches[syndicateId][msg.sender] += msg.value;
+        syndicate.raisedAmount += msg.value;
+
+        emit TrancheCommitted(syndicateId, invoiceId, msg.sender, msg.value, syndicate.raisedAmount);
+
+        if (syndicate.raisedAmount == syndicate.targetAmount) {
+            syndicate.status = SyndicateStatus.FILLED;
+            emit SyndicateFilled(syndicateId, invoiceId, syndicate.raisedAmount);
+        }
+    }
+
+    /**
+     * @dev Release a filled syndicate to the supplier (called when invoice is paid)
+     * @param invoiceId Invoice identifier
+     */
+    function releaseSyndicate(string memory invoiceId) external onlyOwner nonReentrant whenNotPaused {
+        bytes32 syndicateId = invoiceToSyndicateId[invoiceId];
+        require(syndicateId != bytes32(0), "Syndicate not found");
+
+        Syndicate storage syndicate = syndicates[syndicateId];
+        require(syndicate.status == SyndicateStatus.FILLED, "Syndicate not filled");
+
+        uint256 fee = (syndicate.raisedAmount * platformFeeRate) / 10000;
+        uint256 supplierAmount = syndicate.raisedAmount - fee;
+
+        syndicate.status = SyndicateStatus.RELEASED;
+
+        if (fee > 0) {
+            (bool feeSuccess, ) = feeRecipient.call{value: fee}("");
+            require(feeSuccess, "Fee transfer failed");
+        }
+
+        (bool supplierSuccess, ) = syndicate.supplier.call{value: supplierAmount}("");
+        require(supplierSuccess, "Supplier transfer failed");
+
+        emit SyndicateReleased(syndicateId, invoiceId, syndicate.supplier, supplierAmount, fee);
+    }
+
+    /**
+     * @dev Refund every tranche of a syndicate to its investor. Anyone may refund
+     * an open syndicate once its fill deadline has passed.
+     * @param invoiceId Invoice identifier
+     */
+    function refundSyndicate(string memory invoiceId) external nonReentrant whenNotPaused {
+        bytes32 syndicateId = invoiceToSyndicateId[invoiceId];
+        require(syndicateId != bytes32(0), "Syndicate not found");
+
+        Syndicate storage syndicate = syndicates[syndicateId];
+        require(
+            syndicate.status == SyndicateStatus.OPEN || syndicate.status == SyndicateStatus.FILLED,
+            "Syndicate already settled"
+        );
+        require(
+            msg.sender == owner() ||
+            (syndicate.status == SyndicateStatus.OPEN && block.timestamp > syndicate.fillDeadline) ||
+            block.timestamp > syndicate.dueDate + 30 days,
+            "Not authorized to refund or too early"
+        );
+
+        syndicate.status = SyndicateStatus.REFUNDED;
+
+        address[] storage investors = syndicateInvestors[syndicateId];
+        for (uint256 i = 0; i < investors.length; i++) {
+            uint256 amount = tranches[syndicateId][investors[i]];
+            if (amount == 0) {
+                continue;
+            }
+            tranches[syndicateId][investors[i]] = 0;
+
+            (bool success, ) = investors[i].call{value: amount}("");
+            require(success, "Refund transfer failed");
+
+            emit TrancheRefunded(syndicateId, invoiceId, investors[i], amount);
+        }
+
+        emit SyndicateRefunded(syndicateId, invoiceId, syndicate.raisedAmount);
+    }
+
+    /**
+     * @dev Get syndicate details by invoice ID
+     * @param invoiceId Invoice identifier
+     */
+    function getSyndicate(string memory invoiceId) external view returns (Syndicate memory) {
+        bytes32 syndicateId = invoiceToSyndicateId[invoiceId];
+        require(syndicateId != bytes32(0), "Syndicate not found");
+        return syndicates[syndicateId];
+    }
+
+    /**
+     * @dev Get the investors that committed tranches to a syndicate
+     * @param invoiceId Invoice identifier
+     */
+    function getSyndicateInvestors(string memory invoiceId) external view returns (address[] memory) {
+        return syndicateInvestors[invoiceToSyndicateId[invoiceId]];
     }
 
     /**
@@ -191,6 +600,26 @@ contract EscrowPool is ReentrancyGuard, Ownable, Pausable {
         return escrows[escrowId];
     }
 
+    /**
+     * @dev Get the current holder of an escrow by invoice ID
+     * @param invoiceId Invoice identifier
+     */
+    function getHolder(string memory invoiceId) external view returns (address) {
+        bytes32 escrowId = invoiceToEscrowId[invoiceId];
+        require(escrowId != bytes32(0), "Escrow not found");
+        return holders[escrowId];
+    }
+
+    /**
+     * @dev Get the dispute of an escrow by invoice ID
+     * @param invoiceId Invoice identifier
+     */
+    function getDispute(string memory invoiceId) external view returns (Dispute memory) {
+        bytes32 escrowId = invoiceToEscrowId[invoiceId];
+        require(escrowId != bytes32(0), "Escrow not found");
+        return disputes[escrowId];
+    }
+
     /**
      * @dev Get escrow ID by invoice ID
      * @param invoiceId Invoice identifier
@@ -221,6 +650,17 @@ contract EscrowPool is ReentrancyGuard, Ownable, Pausable {
         emit FeeRecipientUpdated(oldRecipient, newFeeRecipient);
     }
 
+    /**
+     * @dev Update dispute arbiter address (only owner). The zero address leaves
+     * disputes to the owner alone.
+     * @param newArbiter New arbiter address
+     */
+    function updateArbiter(address newArbiter) external onlyOwner {
+        address oldArbiter = arbiter;
+        arbiter = newArbiter;
+        emit ArbiterUpdated(oldArbiter, newArbiter);
+    }
+
     /**
      * @dev Pause contract (only owner)
      */
@@ -7,17 +7,36 @@ import { PrismaClient } from '@prisma/client';
 import { envSchema } from './types/env';
 import { invoiceRoutes } from './routes/invoices';
 import { fundingRoutes } from './routes/fundings';
+import { syndicateRoutes } from './routes/syndicates';
+import { marketplaceRoutes } from './routes/marketplace';
+import { riskRoutes } from './routes/risk';
+import { buyerRoutes } from './routes/buyers';
+import { duplicateRoutes } from './routes/duplicates';
+import { investorRoutes } from './routes/investors';
 import { userRoutes } from './routes/users';
 import { authRoutes } from './routes/auth';
 import { walletAuthRoutes } from './routes/wallet-auth';
 import { hederaRoutes } from './routes/hedera';
 import { contractRoutes } from './routes/contracts';
 import { milestonesRoutes } from './routes/milestones';
+import { workflowRoutes } from './routes/workflows';
 import { mirrorRoutes } from './routes/mirror.routes';
 import { settlementsSimpleRoutes } from './routes/settlements-simple';
+import { adminRoutes } from './routes/admin';
 import documentRoutes from './routes/documents';
 import { HederaService } from './services/hedera';
 import { websocketService } from './services/websocketService';
+import { syndicationService } from './services/syndicationService';
+import { marketplaceService } from './services/marketplaceService';
+import { riskScoringService } from './services/riskScoringService';
+import { overdueSchedulerService } from './services/overdueSchedulerService';
+import { fileRenewalService } from './services/fileRenewalService';
+import { platformFeeService } from './services/platformFeeService';
+import { escrowIndexerService } from './services/escrowIndexerService';
+import { outboxService } from './services/outboxService';
+import { mirrorNodePollingService } from './services/mirrorNodePollingService';
+import { nftOwnershipService } from './services/nftOwnershipService';
+import { LeaderElector } from './services/leaderElection';
 import { registerSecurityMiddleware } from './middleware/security';
 import { registerErrorHandlers } from './middleware/errorHandler';
 import { correlationIdMiddleware } from './middleware/correlationId';
@@ -115,14 +134,22 @@ export async function build(opts = {}): Promise<FastifyInstance> {
       tags: [
         { name: 'invoices', description: 'Invoice management' },
         { name: 'fundings', description: 'Funding operations' },
+        { name: 'syndicates', description: 'Syndicated funding by multiple investors' },
+        { name: 'marketplace', description: 'Invoice listings and investor bids' },
+        { name: 'risk', description: 'Supplier, buyer and invoice credit risk scores' },
+        { name: 'buyers', description: 'Buyers and their acknowledgement of invoices' },
+        { name: 'duplicates', description: 'Duplicate invoice review and the public hash registry' },
+        { name: 'investors', description: 'Investor portfolio and ledger' },
         { name: 'users', description: 'User management' },
         { name: 'auth', description: 'Authentication' },
         { name: 'wallet-auth', description: 'Wallet-based authentication' },
         { name: 'hedera', description: 'Hedera blockchain operations' },
         { name: 'contracts', description: 'Smart contract escrow operations' },
         { name: 'milestones', description: 'Milestone tracking and management' },
+        { name: 'workflows', description: 'Milestone workflow templates' },
         { name: 'settlements', description: 'Settlement data and audit trails' },
         { name: 'documents', description: 'Document storage and management via HFS' },
+        { name: 'admin', description: 'Platform administration and finance reports' },
       ],
     },
   });
@@ -153,11 +180,19 @@ export async function build(opts = {}): Promise<FastifyInstance> {
   await fastify.register(userRoutes, { prefix: '/api/users' });
   await fastify.register(invoiceRoutes, { prefix: '/api/invoices' });
   await fastify.register(fundingRoutes, { prefix: '/api/fundings' });
+  await fastify.register(syndicateRoutes, { prefix: '/api/syndicates' });
+  await fastify.register(marketplaceRoutes, { prefix: '/api/marketplace' });
+  await fastify.register(riskRoutes, { prefix: '/api/risk' });
+  await fastify.register(buyerRoutes, { prefix: '/api/buyers' });
+  await fastify.register(duplicateRoutes, { prefix: '/api/duplicates' });
+  await fastify.register(investorRoutes, { prefix: '/api/investors' });
   await fastify.register(hederaRoutes, { prefix: '/api/hedera' });
   await fastify.register(contractRoutes, { prefix: '/api/contracts' });
   await fastify.register(milestonesRoutes, { prefix: '/api/milestones' });
+  await fastify.register(workflowRoutes, { prefix: '/api/workflows' });
   await fastify.register(mirrorRoutes, { prefix: '/api/mirror' });
   await fastify.register(documentRoutes, { prefix: '/api/documents' });
+  await fastify.register(adminRoutes, { prefix: '/api/admin' });
   
   // Debug: Log before registering settlements routes
   console.log('About to register settlements routes...');
@@ -172,6 +207,50 @@ export async function build(opts = {}): Promise<FastifyInstance> {
     throw error;
   }
   
+  // Refund syndicates that miss their fill deadline
+  syndicationService.start();
+  // Close marketplace listings that expire without an accepted bid
+  marketplaceService.start();
+  // Refresh invoice risk grades as payment histories change
+  riskScoringService.start();
+  // Escalate invoices that pass their due date unpaid
+  overdueSchedulerService.start();
+  // Index platform fees charged by EscrowPool
+  platformFeeService.start();
+  escrowIndexerService.start();
+  // Retry queued Hedera and contract writes that failed or were interrupted
+  outboxService.start();
+  // Stream HCS messages from configured and deal topics to WebSocket clients
+  // and follow invoice NFT holders; with several replicas only the elected one polls
+  const mirrorPollerElection = new LeaderElector('mirror-node-poller', {
+    onElected: () => {
+      mirrorNodePollingService.start();
+      nftOwnershipService.start();
+    },
+    onRevoked: () => {
+      mirrorNodePollingService.stop();
+      nftOwnershipService.stop();
+    },
+  });
+  mirrorPollerElection.start();
+  // Renew document files before they expire on HFS; one replica spends the HBAR budget
+  const fileRenewalElection = new LeaderElector('file-renewal', {
+    onElected: () => fileRenewalService.start(),
+    onRevoked: () => fileRenewalService.stop(),
+  });
+  fileRenewalElection.start();
+  fastify.addHook('onClose', async () => {
+    syndicationService.stop();
+    marketplaceService.stop();
+    riskScoringService.stop();
+    overdueSchedulerService.stop();
+    platformFeeService.stop();
+    escrowIndexerService.stop();
+    outboxService.stop();
+    await mirrorPollerElection.stop();
+    await fileRenewalElection.stop();
+  });
+
   // Debug: Print all registered routes
   fastify.ready(() => {
     fastify.log.info('All registered routes:');
@@ -1,6 +1,13 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { PrismaClient } from '@prisma/client';
 import { hederaFileService } from '../services/hederaFileService';
+import { invoiceExtractionService, EnteredInvoiceValues } from '../services/invoiceExtractionService';
+import { documentEncryptionService, DocumentReader } from '../services/documentEncryptionService';
+import { fileRenewalService, DocumentStorageStatus } from '../services/fileRenewalService';
+import { uploadSessionService, StartUploadInput } from '../services/uploadSessionService';
+import { documentStoreService, DocumentStorageBackend } from '../services/documentStoreService';
+import { outboxService } from '../services/outboxService';
+import { AppError, ValidationError, AuthenticationError, AuthorizationError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
 import crypto from 'crypto';
 
@@ -10,7 +17,7 @@ export interface DocumentUploadRequest {
   Body: {
     invoiceId: string;
     supplierId: string;
-    documentType: 'invoice' | 'contract' | 'receipt';
+    documentType: 'invoice' | 'contract' | 'receipt' | 'photo' | 'customs_form' | 'delivery_receipt';
     filename: string;
   };
 }
@@ -26,12 +33,83 @@ export interface DocumentListRequest {
     invoiceId?: string;
     supplierId?: string;
     documentType?: string;
+    storageStatus?: DocumentStorageStatus;
   };
 }
 
+export interface StartUploadRequest {
+  Body: StartUploadInput;
+}
+
+export interface UploadSessionRequest {
+  Params: {
+    uploadId: string;
+  };
+}
+
+export interface UploadPartRequest {
+  Params: {
+    uploadId: string;
+    partNumber: number;
+  };
+  Body: Buffer;
+}
+
+// Form fields the extraction endpoint compares with the document
+const ENTERED_FIELDS = ['invoiceNumber', 'amount', 'currency', 'issueDate', 'dueDate', 'buyerName'] as const;
+
+/**
+ * The signed-in wallet user asking for a document, if any
+ */
+async function readerOf(request: FastifyRequest): Promise<DocumentReader | null> {
+  if (!request.walletUser) {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { accountId: request.walletUser.accountId },
+    select: { id: true }
+  });
+  return { userId: user?.id ?? null, roles: request.walletUser.roles };
+}
+
+/**
+ * HCS anchor of an off-chain document; HFS documents are on the ledger already
+ */
+function anchorOf(document: { storageBackend: string; anchorTopicId: string | null; anchorSequenceNumber: string | null; anchoredAt: Date | null }) {
+  if (document.storageBackend === DocumentStorageBackend.HFS) {
+    return null;
+  }
+  return {
+    topicId: document.anchorTopicId,
+    sequenceNumber: document.anchorSequenceNumber,
+    anchoredAt: document.anchoredAt
+  };
+}
+
+/**
+ * Reply for a failed resumable upload step, keeping the status of known errors
+ */
+function sendUploadError(reply: FastifyReply, error: unknown, action: string) {
+  if (error instanceof AppError) {
+    return reply.status(error.statusCode).send({
+      success: false,
+      error: error.message,
+      details: error.details
+    });
+  }
+
+  logger.error(`Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  return reply.status(500).send({
+    success: false,
+    error: error instanceof Error ? error.message : 'Internal server error'
+  });
+}
+
 export const documentController = {
   /**
-   * Upload a document to HFS and store metadata in database
+   * Upload a document, encrypted for the invoice's parties, to HFS or an
+   * off-chain store by size, and store metadata in database
    */
   async uploadDocument(
     request: FastifyRequest<DocumentUploadRequest>,
@@ -54,52 +132,63 @@ export const documentController = {
 
       logger.info(`Uploading document: ${filename}, type: ${documentType}, size: ${fileBuffer.length}`);
 
-      // Upload to HFS
-      const uploadResult = await hederaFileService.uploadFile(
-        fileBuffer,
+      // HFS files are public, so only the ciphertext is uploaded
+      const sealed = documentEncryptionService.enabled ? documentEncryptionService.encrypt(fileBuffer) : null;
+
+      const stored = await documentStoreService.put(sealed?.ciphertext ?? fileBuffer, {
         filename,
-        `YieldHarvest ${documentType} - Invoice: ${invoiceId}`
-      );
+        memo: `YieldHarvest ${documentType} - Invoice: ${invoiceId}`
+      });
 
-      if (!uploadResult.success) {
-        return reply.status(500).send({
-          success: false,
-          error: uploadResult.error || 'Failed to upload to HFS'
+      // Store document metadata, its wrapped data keys and any HCS anchor in database
+      const document = await prisma.$transaction(async (tx) => {
+        const document = await tx.document.create({
+          data: {
+            id: crypto.randomUUID(),
+            invoiceId,
+            supplierId,
+            documentType,
+            filename,
+            storageBackend: stored.backend,
+            storageUri: stored.uri,
+            fileId: stored.fileId,
+            hash: fileHash,
+            size: fileBuffer.length,
+            mimeType: data.mimetype,
+            encrypted: !!sealed,
+            ciphertextHash: sealed ? stored.sha256 : null,
+            expiresAt: stored.expiresAt ?? null,
+            retainUntil: fileRenewalService.retentionEnd(new Date()),
+            transactionId: stored.transactionId,
+            hashScanUrl: stored.hashScanUrl,
+            mirrorNodeUrl: stored.mirrorNodeUrl,
+            createdAt: new Date(),
+            updatedAt: new Date()
+          }
         });
-      }
 
-      // Store document metadata in database
-      const document = await prisma.document.create({
-        data: {
-          id: crypto.randomUUID(),
-          invoiceId,
-          supplierId,
-          documentType,
-          filename,
-          fileId: uploadResult.fileId,
-          hash: uploadResult.hash,
-          size: uploadResult.size,
-          mimeType: data.mimetype,
-          transactionId: uploadResult.transactionId,
-          hashScanUrl: uploadResult.hashScanUrl,
-          mirrorNodeUrl: uploadResult.mirrorNodeUrl,
-          createdAt: new Date(),
-          updatedAt: new Date()
+        if (sealed) {
+          await documentEncryptionService.storeKeys(documentStoreService.keyIdOf(document), invoiceId, sealed.dataKey, tx);
         }
+        await documentStoreService.anchor(document, tx);
+        return document;
       });
+      await outboxService.dispatchAggregate(document.id);
 
-      logger.info(`Document uploaded successfully: ${document.id}, fileId: ${uploadResult.fileId}`);
+      logger.info(`Document uploaded successfully: ${document.id}, ${stored.uri}`);
 
       return reply.send({
         success: true,
         document: {
           id: document.id,
-          fileId: uploadResult.fileId,
-          hash: uploadResult.hash,
-          size: uploadResult.size,
-          transactionId: uploadResult.transactionId,
-          hashScanUrl: uploadResult.hashScanUrl,
-          mirrorNodeUrl: uploadResult.mirrorNodeUrl
+          fileId: stored.fileId,
+          storageBackend: stored.backend,
+          storageUri: stored.uri,
+          hash: stored.sha256,
+          size: fileBuffer.length,
+          transactionId: stored.transactionId,
+          hashScanUrl: stored.hashScanUrl,
+          mirrorNodeUrl: stored.mirrorNodeUrl
         }
       });
 
@@ -113,7 +202,7 @@ export const documentController = {
   },
 
   /**
-   * Download a document from HFS
+   * Download a document from its storage backend, decrypting it for callers holding a key
    */
   async downloadDocument(
     request: FastifyRequest<DocumentDownloadRequest>,
@@ -134,36 +223,37 @@ export const documentController = {
         });
       }
 
-      logger.info(`Downloading document: ${documentId}, fileId: ${document.fileId}`);
-
-      // Download from HFS
-      const downloadResult = await hederaFileService.downloadFile(document.fileId);
-
-      if (!downloadResult.success) {
-        return reply.status(500).send({
+      if (fileRenewalService.storageOf(document).status === DocumentStorageStatus.EXPIRED) {
+        return reply.status(410).send({
           success: false,
-          error: downloadResult.error || 'Failed to download from HFS'
+          error: 'Document file has expired on HFS'
         });
       }
 
-      // Verify file integrity
-      const downloadedHash = crypto.createHash('sha256').update(downloadResult.content).digest('hex');
-      if (downloadedHash !== document.hash) {
-        logger.error(`File integrity check failed for document: ${documentId}`);
-        return reply.status(500).send({
-          success: false,
-          error: 'File integrity check failed'
-        });
-      }
+      logger.info(`Downloading document: ${documentId}, ${documentStoreService.uriOf(document)}`);
+
+      // Read from the backend, verifying file integrity against what was stored
+      const stored = await documentStoreService.read(document);
+
+      const content = document.encrypted
+        ? await documentEncryptionService.openForReader(documentStoreService.keyIdOf(document), stored, await readerOf(request))
+        : stored;
 
       // Set appropriate headers
       reply.header('Content-Type', document.mimeType || 'application/octet-stream');
       reply.header('Content-Disposition', `attachment; filename="${document.filename}"`);
-      reply.header('Content-Length', downloadResult.content.length);
+      reply.header('Content-Length', content.length);
 
-      return reply.send(downloadResult.content);
+      return reply.send(content);
 
     } catch (error) {
+      if (error instanceof AuthenticationError || error instanceof AuthorizationError) {
+        return reply.status(error.statusCode).send({
+          success: false,
+          error: error.message
+        });
+      }
+
       logger.error(`Failed to download document: ${error instanceof Error ? error.message : 'Unknown error'}`);
       return reply.status(500).send({
         success: false,
@@ -194,7 +284,7 @@ export const documentController = {
       }
 
       // Get file info from HFS
-      const fileInfo = await hederaFileService.getFileInfo(document.fileId);
+      const fileInfo = document.fileId ? await hederaFileService.getFileInfo(document.fileId) : null;
 
       return reply.send({
         success: true,
@@ -204,6 +294,8 @@ export const documentController = {
           supplierId: document.supplierId,
           documentType: document.documentType,
           filename: document.filename,
+          storageBackend: document.storageBackend,
+          storageUri: documentStoreService.uriOf(document),
           fileId: document.fileId,
           hash: document.hash,
           size: document.size,
@@ -213,6 +305,8 @@ export const documentController = {
           mirrorNodeUrl: document.mirrorNodeUrl,
           createdAt: document.createdAt,
           updatedAt: document.updatedAt,
+          storage: fileRenewalService.storageOf(document),
+          anchor: anchorOf(document),
           hfsInfo: fileInfo
         }
       });
@@ -234,12 +328,13 @@ export const documentController = {
     reply: FastifyReply
   ) {
     try {
-      const { invoiceId, supplierId, documentType } = request.query;
+      const { invoiceId, supplierId, documentType, storageStatus } = request.query;
 
       const where: any = {};
       if (invoiceId) where.invoiceId = invoiceId;
       if (supplierId) where.supplierId = supplierId;
       if (documentType) where.documentType = documentType;
+      if (storageStatus) Object.assign(where, fileRenewalService.whereStorageStatus(storageStatus));
 
       const documents = await prisma.document.findMany({
         where,
@@ -254,6 +349,8 @@ export const documentController = {
           supplierId: doc.supplierId,
           documentType: doc.documentType,
           filename: doc.filename,
+          storageBackend: doc.storageBackend,
+          storageUri: documentStoreService.uriOf(doc),
           fileId: doc.fileId,
           hash: doc.hash,
           size: doc.size,
@@ -262,7 +359,9 @@ export const documentController = {
           hashScanUrl: doc.hashScanUrl,
           mirrorNodeUrl: doc.mirrorNodeUrl,
           createdAt: doc.createdAt,
-          updatedAt: doc.updatedAt
+          updatedAt: doc.updatedAt,
+          storage: fileRenewalService.storageOf(doc),
+          anchor: anchorOf(doc)
         }))
       });
 
@@ -276,7 +375,7 @@ export const documentController = {
   },
 
   /**
-   * Delete a document from HFS and database
+   * Delete a document from its storage backend and database
    */
   async deleteDocument(
     request: FastifyRequest<DocumentDownloadRequest>,
@@ -297,14 +396,14 @@ export const documentController = {
         });
       }
 
-      logger.info(`Deleting document: ${documentId}, fileId: ${document.fileId}`);
+      logger.info(`Deleting document: ${documentId}, ${documentStoreService.uriOf(document)}`);
 
-      // Delete from HFS
-      const deleteResult = await hederaFileService.deleteFile(document.fileId);
+      // Delete from the backend
+      const deleteResult = await documentStoreService.remove(document);
 
       if (!deleteResult.success) {
-        logger.error(`Failed to delete file from HFS: ${deleteResult.error}`);
-        // Continue with database deletion even if HFS deletion fails
+        logger.error(`Failed to delete document content: ${deleteResult.error}`);
+        // Continue with database deletion even if the backend deletion fails
       }
 
       // Delete from database
@@ -315,7 +414,7 @@ export const documentController = {
       return reply.send({
         success: true,
         message: 'Document deleted successfully',
-        hfsDeleteResult: deleteResult
+        storageDeleteResult: deleteResult
       });
 
     } catch (error) {
@@ -325,5 +424,145 @@ export const documentController = {
         error: error instanceof Error ? error.message : 'Internal server error'
       });
     }
+  },
+
+  /**
+   * Extract invoice fields from a PDF to prefill the invoice form,
+   * flagging entered values the document disagrees with
+   */
+  async extractInvoiceData(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      let fileBuffer: Buffer | undefined;
+      const entered: EnteredInvoiceValues = {};
+
+      for await (const part of request.parts()) {
+        if (part.type === 'file') {
+          fileBuffer = await part.toBuffer();
+          continue;
+        }
+
+        const field = ENTERED_FIELDS.find(name => name === part.fieldname);
+        const value = String(part.value).trim();
+        if (!field || value.length === 0) continue;
+
+        if (field === 'amount') {
+          const amount = parseFloat(value);
+          if (!Number.isNaN(amount)) entered.amount = amount;
+        } else {
+          entered[field] = value;
+        }
+      }
+
+      if (!fileBuffer) {
+        return reply.status(400).send({
+          success: false,
+          error: 'No file provided'
+        });
+      }
+
+      const extraction = await invoiceExtractionService.extract(fileBuffer);
+      const mismatches = invoiceExtractionService.compareWithEntered(extraction, entered);
+
+      logger.info(`Extracted invoice data from PDF: ${Object.keys(extraction.fields).length} fields, ${mismatches.length} mismatches`);
+
+      return reply.send({
+        success: true,
+        extraction,
+        mismatches
+      });
+
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return reply.status(400).send({
+          success: false,
+          error: error.message
+        });
+      }
+
+      logger.error(`Failed to extract invoice data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  },
+
+  /**
+   * Start a resumable upload
+   */
+  async startUpload(
+    request: FastifyRequest<StartUploadRequest>,
+    reply: FastifyReply
+  ) {
+    try {
+      const upload = await uploadSessionService.start(request.body);
+      return reply.status(201).send({ success: true, upload });
+    } catch (error) {
+      return sendUploadError(reply, error, 'start upload');
+    }
+  },
+
+  /**
+   * Receive one part of a resumable upload
+   */
+  async uploadPart(
+    request: FastifyRequest<UploadPartRequest>,
+    reply: FastifyReply
+  ) {
+    try {
+      const { uploadId, partNumber } = request.params;
+      const upload = await uploadSessionService.uploadPart(uploadId, partNumber, request.body);
+      return reply.send({ success: true, upload });
+    } catch (error) {
+      return sendUploadError(reply, error, 'store upload part');
+    }
+  },
+
+  /**
+   * Progress of a resumable upload and the parts still missing
+   */
+  async getUpload(
+    request: FastifyRequest<UploadSessionRequest>,
+    reply: FastifyReply
+  ) {
+    try {
+      const upload = await uploadSessionService.getUpload(request.params.uploadId);
+      return reply.send({ success: true, upload });
+    } catch (error) {
+      return sendUploadError(reply, error, 'get upload');
+    }
+  },
+
+  /**
+   * Finish a resumable upload by writing it to HFS; repeat to resume after a failure
+   */
+  async completeUpload(
+    request: FastifyRequest<UploadSessionRequest>,
+    reply: FastifyReply
+  ) {
+    try {
+      const upload = await uploadSessionService.complete(request.params.uploadId);
+      return reply.send({ success: true, upload });
+    } catch (error) {
+      return sendUploadError(reply, error, 'complete upload');
+    }
+  },
+
+  /**
+   * Abort a resumable upload
+   */
+  async abortUpload(
+    request: FastifyRequest<UploadSessionRequest>,
+    reply: FastifyReply
+  ) {
+    try {
+      const upload = await uploadSessionService.abort(request.params.uploadId);
+      return reply.send({ success: true, upload });
+    } catch (error) {
+      return sendUploadError(reply, error, 'abort upload');
+    }
   }
 };
\ No newline at end of file
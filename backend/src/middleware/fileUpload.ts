@@ -60,26 +60,33 @@ export interface ValidatedFile extends MultipartFile {
   detectedMimeType: string;
 }
 
+/**
+ * Checks file content against the magic number signature of its MIME type
+ */
+export function matchesFileSignature(buffer: Buffer, mimeType: string): boolean {
+  const signature = FILE_SIGNATURES[mimeType as keyof typeof FILE_SIGNATURES];
+  
+  if (!signature || signature.length === 0) {
+    return true; // Skip validation for files without reliable signatures
+  }
+  
+  // Check if buffer starts with expected signature
+  for (let i = 0; i < signature.length; i++) {
+    if (buffer[i] !== signature[i]) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
 /**
  * Validates file MIME type against magic number signature
  */
 async function validateFileSignature(file: MultipartFile): Promise<boolean> {
   try {
     const buffer = await file.toBuffer();
-    const signature = FILE_SIGNATURES[file.mimetype as keyof typeof FILE_SIGNATURES];
-    
-    if (!signature || signature.length === 0) {
-      return true; // Skip validation for files without reliable signatures
-    }
-    
-    // Check if buffer starts with expected signature
-    for (let i = 0; i < signature.length; i++) {
-      if (buffer[i] !== signature[i]) {
-        return false;
-      }
-    }
-    
-    return true;
+    return matchesFileSignature(buffer, file.mimetype);
   } catch (error) {
     return false;
   }
@@ -88,7 +95,7 @@ async function validateFileSignature(file: MultipartFile): Promise<boolean> {
 /**
  * Sanitizes filename to prevent path traversal and other attacks
  */
-function sanitizeFilename(filename: string): string {
+export function sanitizeFilename(filename: string): string {
   // Remove path separators and dangerous characters
   let sanitized = filename.replace(/[\/\\:*?"<>|]/g, '_');
   
@@ -113,7 +120,7 @@ function sanitizeFilename(filename: string): string {
 /**
  * Gets appropriate file size limit based on MIME type
  */
-function getFileSizeLimit(mimeType: string): number {
+export function getFileSizeLimit(mimeType: string): number {
   if (mimeType.startsWith('image/')) {
     return FILE_SIZE_LIMITS.image;
   }
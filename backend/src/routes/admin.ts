@@ -0,0 +1,300 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { platformFeeService, toCsv } from '../services/platformFeeService';
+import { escrowIndexerService } from '../services/escrowIndexerService';
+import { outboxService, OutboxAction, OutboxStatus } from '../services/outboxService';
+import { mirrorNodePollingService } from '../services/mirrorNodePollingService';
+import { nftOwnershipService } from '../services/nftOwnershipService';
+import { walletJwtGuard, walletAdminGuard } from '../middleware/auth.middleware';
+
+// Validation schemas
+const FeeReportQuerySchema = z.object({
+  groupBy: z.enum(['period', 'supplier', 'epoch']).default('period'),
+  period: z.enum(['day', 'week', 'month']).default('month'),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  format: z.enum(['json', 'csv']).default('json')
+});
+
+const FeeEntriesQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(5000).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+  format: z.enum(['json', 'csv']).default('json')
+});
+
+const OutboxQuerySchema = z.object({
+  status: z.nativeEnum(OutboxStatus).optional(),
+  action: z.nativeEnum(OutboxAction).optional(),
+  invoiceId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const OutboxParamsSchema = z.object({
+  id: z.string().min(1)
+});
+
+const REPORT_COLUMNS = {
+  period: ['key', 'count', 'grossAmount', 'fees'],
+  supplier: ['key', 'label', 'count', 'grossAmount', 'fees'],
+  epoch: ['key', 'feeRateBps', 'feeRecipient', 'startsAt', 'endsAt', 'count', 'grossAmount', 'fees']
+};
+
+const ENTRY_COLUMNS = [
+  'occurredAt', 'eventType', 'sourceEvent', 'transactionHash', 'blockNumber', 'logIndex', 'escrowId', 'invoiceId',
+  'supplierId', 'supplierAddress', 'grossAmount', 'fee', 'feeRateBps', 'previousFeeRateBps', 'feeRecipient', 'previousFeeRecipient'
+];
+
+const dateRangeQuery = {
+  from: { type: 'string', format: 'date-time' },
+  to: { type: 'string', format: 'date-time' },
+  format: { type: 'string', enum: ['json', 'csv'], default: 'json' }
+};
+
+/**
+ * Admin routes
+ * Platform fee accounting, indexers of EscrowPool events, Mirror Node polling and the Hedera outbox
+ */
+export async function adminRoutes(fastify: FastifyInstance) {
+  /**
+   * GET /api/admin/fees/report
+   * Fees by period, supplier or fee-rate epoch
+   */
+  fastify.get('/fees/report', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Platform fee report grouped by period, supplier or fee-rate epoch, as JSON or CSV',
+      tags: ['admin'],
+      querystring: {
+        type: 'object',
+        properties: {
+          groupBy: { type: 'string', enum: ['period', 'supplier', 'epoch'], default: 'period' },
+          period: { type: 'string', enum: ['day', 'week', 'month'], default: 'month' },
+          ...dateRangeQuery
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { format, ...filter } = FeeReportQuerySchema.parse(request.query);
+
+    const report = await platformFeeService.getReport(filter);
+
+    if (format === 'csv') {
+      return reply
+        .header('Content-Type', 'text/csv; charset=utf-8')
+        .header('Content-Disposition', `attachment; filename="platform-fees-by-${filter.groupBy}.csv"`)
+        .send(toCsv(report.rows, REPORT_COLUMNS[filter.groupBy]));
+    }
+
+    return reply.send({ success: true, data: report });
+  });
+
+  /**
+   * GET /api/admin/fees
+   * Indexed fee charges and fee configuration changes
+   */
+  fastify.get('/fees', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'List indexed platform fee events, oldest first, as JSON or CSV for reconciliation against the fee recipient account',
+      tags: ['admin'],
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'number', minimum: 1, maximum: 5000, default: 100 },
+          offset: { type: 'number', minimum: 0, default: 0 },
+          ...dateRangeQuery
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { format, ...filter } = FeeEntriesQuerySchema.parse(request.query);
+
+    const { entries, total } = await platformFeeService.getEntries(filter);
+
+    if (format === 'csv') {
+      return reply
+        .header('Content-Type', 'text/csv; charset=utf-8')
+        .header('Content-Disposition', 'attachment; filename="platform-fees.csv"')
+        .send(toCsv(entries, ENTRY_COLUMNS));
+    }
+
+    return reply.send({
+      success: true,
+      data: entries,
+      pagination: { total, limit: filter.limit, offset: filter.offset }
+    });
+  });
+
+  /**
+   * POST /api/admin/fees/sync
+   * Index new fee events now instead of waiting for the next scheduled sync
+   */
+  fastify.post('/fees/sync', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Build fee rows for the EscrowPool fee events indexed since the last sync',
+      tags: ['admin']
+    }
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    const summary = await platformFeeService.runOnce();
+
+    return reply.send({ success: true, data: summary });
+  });
+
+  /**
+   * GET /api/admin/indexer/escrow
+   * Escrow event indexer checkpoint
+   */
+  fastify.get('/indexer/escrow', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Escrow event indexer checkpoint and counts of indexed and unreconciled events',
+      tags: ['admin']
+    }
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    const status = await escrowIndexerService.getStatus();
+
+    return reply.send({ success: true, data: status });
+  });
+
+  /**
+   * POST /api/admin/indexer/escrow/sync
+   * Index new escrow events now instead of waiting for the next scheduled sync
+   */
+  fastify.post('/indexer/escrow/sync', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Index EscrowPool lifecycle events from the Mirror Node and reconcile them into fundings',
+      tags: ['admin']
+    }
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    const summary = await escrowIndexerService.runOnce();
+
+    return reply.send({ success: true, data: summary });
+  });
+
+  /**
+   * GET /api/admin/mirror/cursors
+   * HCS topics the Mirror Node poller follows and how far it has read each
+   */
+  fastify.get('/mirror/cursors', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Mirror Node polling state with the persisted cursor of every configured and deal topic',
+      tags: ['admin']
+    }
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    const cursors = await mirrorNodePollingService.getCursors();
+
+    return reply.send({ success: true, data: { ...mirrorNodePollingService.getStats(), cursors } });
+  });
+
+  /**
+   * POST /api/admin/mirror/poll
+   * Poll the Mirror Node now instead of waiting for the next interval
+   */
+  fastify.post('/mirror/poll', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Run a Mirror Node polling cycle over all subscribed topics',
+      tags: ['admin']
+    }
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    await mirrorNodePollingService.forcePoll();
+
+    return reply.send({ success: true, data: mirrorNodePollingService.getStats() });
+  });
+
+  /**
+   * POST /api/admin/nft-ownership/sync
+   * Sync invoice NFT holders now instead of waiting for the next interval
+   */
+  fastify.post('/nft-ownership/sync', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Record new invoice NFT transfers from the Mirror Node and move funding positions to their holders',
+      tags: ['admin']
+    }
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    const results = await nftOwnershipService.runOnce();
+
+    return reply.send({ success: true, data: results });
+  });
+
+  /**
+   * GET /api/admin/outbox
+   * Queued, completed and dead-lettered Hedera writes
+   */
+  fastify.get('/outbox', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'List outbox messages, newest first, with counts per status',
+      tags: ['admin'],
+      querystring: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: Object.values(OutboxStatus) },
+          action: { type: 'string', enum: Object.values(OutboxAction) },
+          invoiceId: { type: 'string' },
+          limit: { type: 'number', minimum: 1, maximum: 500, default: 50 },
+          offset: { type: 'number', minimum: 0, default: 0 }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const filter = OutboxQuerySchema.parse(request.query);
+
+    const { messages, total, counts } = await outboxService.getMessages(filter);
+
+    return reply.send({
+      success: true,
+      data: messages,
+      counts,
+      pagination: { total, limit: filter.limit, offset: filter.offset }
+    });
+  });
+
+  /**
+   * POST /api/admin/outbox/:id/retry
+   * Requeue a dead-lettered message
+   */
+  fastify.post('/outbox/:id/retry', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Requeue a dead-lettered outbox message with a fresh set of attempts',
+      tags: ['admin'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', description: 'Outbox message ID' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = OutboxParamsSchema.parse(request.params);
+
+    const message = await outboxService.retry(id);
+
+    return reply.send({ success: true, data: message });
+  });
+
+  /**
+   * POST /api/admin/outbox/run
+   * Execute due messages now instead of waiting for the worker
+   */
+  fastify.post('/outbox/run', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Execute due outbox messages now',
+      tags: ['admin']
+    }
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    const summary = await outboxService.runOnce();
+
+    return reply.send({ success: true, data: summary });
+  });
+}
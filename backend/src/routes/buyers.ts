@@ -0,0 +1,159 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { buyerService } from '../services/buyerService';
+import { walletJwtGuard, walletRoleGuard } from '../middleware/auth.middleware';
+
+// Validation schemas
+const CreateBuyerSchema = z.object({
+  name: z.string().min(1, 'Buyer name is required'),
+  accountId: z.string().min(1, 'Hedera account ID is required'),
+  email: z.string().email().optional(),
+  registrationNumber: z.string().optional()
+});
+
+const AcknowledgeSchema = z.object({
+  signature: z.string().min(1, 'Signature is required'),
+  nonce: z.string().min(1, 'Nonce is required')
+});
+
+const BuyerParamsSchema = z.object({
+  id: z.string().min(1)
+});
+
+const InvoiceParamsSchema = z.object({
+  invoiceId: z.string().min(1)
+});
+
+/**
+ * Buyer routes
+ * Buyer registration and the buyer portal where debtors acknowledge their invoices
+ */
+export async function buyerRoutes(fastify: FastifyInstance) {
+  /**
+   * POST /api/buyers
+   * Register a buyer
+   */
+  fastify.post('/', {
+    preHandler: [walletJwtGuard, walletRoleGuard('SUPPLIER', 'ADMIN')],
+    schema: {
+      description: 'Register a buyer with the Hedera account it signs invoice acknowledgements with',
+      tags: ['buyers'],
+      body: {
+        type: 'object',
+        required: ['name', 'accountId'],
+        properties: {
+          name: { type: 'string' },
+          accountId: { type: 'string', description: 'Hedera account ID of the buyer' },
+          email: { type: 'string', format: 'email' },
+          registrationNumber: { type: 'string', description: 'Company registration number' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const input = CreateBuyerSchema.parse(request.body);
+    const buyer = await buyerService.createBuyer(input);
+
+    return reply.status(201).send({ success: true, data: buyer });
+  });
+
+  /**
+   * GET /api/buyers/me/invoices
+   * Buyer portal: invoices owed by the caller
+   */
+  fastify.get('/me/invoices', {
+    preHandler: [walletJwtGuard],
+    schema: {
+      description: 'List the invoices owed by the buyer registered with the caller\'s account, with their acknowledgements',
+      tags: ['buyers']
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const result = await buyerService.getInvoicesForAccount(request.walletUser!.accountId);
+
+    return reply.send({ success: true, data: result });
+  });
+
+  /**
+   * GET /api/buyers/me/invoices/:invoiceId/acknowledgement
+   * Get the message to sign to acknowledge an invoice
+   */
+  fastify.get('/me/invoices/:invoiceId/acknowledgement', {
+    preHandler: [walletJwtGuard],
+    schema: {
+      description: 'Get the invoice terms message and nonce the buyer signs with its wallet; valid for 5 minutes',
+      tags: ['buyers'],
+      params: {
+        type: 'object',
+        required: ['invoiceId'],
+        properties: {
+          invoiceId: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { invoiceId } = InvoiceParamsSchema.parse(request.params);
+    const challenge = await buyerService.prepareAcknowledgement(invoiceId, request.walletUser!.accountId);
+
+    return reply.send({ success: true, data: challenge });
+  });
+
+  /**
+   * POST /api/buyers/me/invoices/:invoiceId/acknowledge
+   * Acknowledge an invoice with a wallet signature
+   */
+  fastify.post('/me/invoices/:invoiceId/acknowledge', {
+    preHandler: [walletJwtGuard],
+    schema: {
+      description: 'Confirm an invoice is genuine with the buyer\'s signature; recorded on HCS and shown to investors as verified',
+      tags: ['buyers'],
+      params: {
+        type: 'object',
+        required: ['invoiceId'],
+        properties: {
+          invoiceId: { type: 'string' }
+        }
+      },
+      body: {
+        type: 'object',
+        required: ['signature', 'nonce'],
+        properties: {
+          signature: { type: 'string', description: 'Base64 signature of the acknowledgement message' },
+          nonce: { type: 'string', description: 'Nonce the message was built with' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { invoiceId } = InvoiceParamsSchema.parse(request.params);
+    const input = AcknowledgeSchema.parse(request.body);
+    const acknowledgement = await buyerService.acknowledgeInvoice({
+      invoiceId,
+      accountId: request.walletUser!.accountId,
+      ...input
+    });
+
+    return reply.status(201).send({ success: true, data: acknowledgement });
+  });
+
+  /**
+   * GET /api/buyers/:id
+   * Get a buyer
+   */
+  fastify.get('/:id', {
+    preHandler: [walletJwtGuard],
+    schema: {
+      description: 'Get a buyer with its invoice and acknowledgement counts',
+      tags: ['buyers'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = BuyerParamsSchema.parse(request.params);
+    const buyer = await buyerService.getBuyer(id);
+
+    return reply.send({ success: true, data: buyer });
+  });
+}
@@ -1,6 +1,9 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { contractService } from '../services/contract';
+import { disputeService } from '../services/disputeService';
+import { escrowIndexerService } from '../services/escrowIndexerService';
+import { walletJwtGuard, walletRoleGuard, walletAdminGuard, walletAnyRoleGuard } from '../middleware/auth.middleware';
 import { logger } from '../utils/logger';
 
 // Request schemas
@@ -15,6 +18,19 @@ const escrowIdSchema = z.object({
   escrowId: z.string().regex(/^\d+$/, 'Invalid escrow ID'),
 });
 
+const disputeParamsSchema = z.object({
+  escrowId: z.string().min(1),
+});
+
+const raiseDisputeSchema = z.object({
+  reason: z.string().trim().min(1, 'Reason is required').max(1000),
+});
+
+const resolveDisputeSchema = z.object({
+  investorShareBps: z.number().int().min(0).max(10000),
+  resolution: z.string().max(2000).optional(),
+});
+
 const invoiceIdSchema = z.object({
   invoiceId: z.string().min(1),
 });
@@ -247,6 +263,132 @@ export async function contractRoutes(fastify: FastifyInstance) {
 
   // Note: Refund functionality removed as it's not supported by the current escrow contract
 
+  /**
+   * POST /api/contracts/escrow/:escrowId/dispute
+   * Investor or supplier freezes the escrow pending arbitration
+   */
+  fastify.post('/escrow/:escrowId/dispute', {
+    preHandler: [walletJwtGuard, walletRoleGuard('INVESTOR', 'SUPPLIER')],
+    schema: {
+      tags: ['contracts'],
+      summary: 'Raise escrow dispute',
+      description: 'Freeze a funded escrow until an arbiter resolves the dispute. Only the escrow\'s investor or supplier may raise it.',
+      params: {
+        type: 'object',
+        required: ['escrowId'],
+        properties: {
+          escrowId: { type: 'string', description: 'Escrow ID' },
+        },
+      },
+      body: {
+        type: 'object',
+        required: ['reason'],
+        properties: {
+          reason: { type: 'string', description: 'Why the escrow is disputed' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { escrowId } = disputeParamsSchema.parse(request.params);
+    const { reason } = raiseDisputeSchema.parse(request.body);
+
+    const dispute = await disputeService.raiseDispute({
+      escrowId,
+      accountId: request.walletUser!.accountId,
+      reason,
+    });
+
+    return reply.status(201).send({ success: true, data: dispute });
+  });
+
+  /**
+   * POST /api/contracts/escrow/:escrowId/dispute/resolve
+   * Arbiter splits the disputed escrow between investor and supplier
+   */
+  fastify.post('/escrow/:escrowId/dispute/resolve', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      tags: ['contracts'],
+      summary: 'Resolve escrow dispute',
+      description: 'Resolve an open dispute with a split. The investor\'s share is refunded; the remainder is released to the supplier less the platform fee.',
+      params: {
+        type: 'object',
+        required: ['escrowId'],
+        properties: {
+          escrowId: { type: 'string', description: 'Escrow ID' },
+        },
+      },
+      body: {
+        type: 'object',
+        required: ['investorShareBps'],
+        properties: {
+          investorShareBps: { type: 'integer', minimum: 0, maximum: 10000, description: 'Investor share in basis points (10000 = full refund)' },
+          resolution: { type: 'string', description: 'Arbiter\'s notes' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { escrowId } = disputeParamsSchema.parse(request.params);
+    const input = resolveDisputeSchema.parse(request.body);
+
+    const dispute = await disputeService.resolveDispute({
+      escrowId,
+      accountId: request.walletUser!.accountId,
+      ...input,
+    });
+
+    return reply.send({ success: true, data: dispute });
+  });
+
+  /**
+   * GET /api/contracts/escrow/:escrowId/dispute
+   * Dispute history of an escrow
+   */
+  fastify.get('/escrow/:escrowId/dispute', {
+    preHandler: [walletJwtGuard, walletAnyRoleGuard],
+    schema: {
+      tags: ['contracts'],
+      summary: 'Get escrow disputes',
+      description: 'List the disputes raised on an escrow, newest first',
+      params: {
+        type: 'object',
+        required: ['escrowId'],
+        properties: {
+          escrowId: { type: 'string', description: 'Escrow ID' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { escrowId } = disputeParamsSchema.parse(request.params);
+
+    const disputes = await disputeService.getDisputes(escrowId);
+
+    return reply.send({ success: true, data: disputes });
+  });
+
+  // Get indexed escrow events
+  fastify.get('/escrow/:escrowId/events', {
+    preHandler: [walletJwtGuard, walletAnyRoleGuard],
+    schema: {
+      tags: ['contracts'],
+      summary: 'Get escrow events',
+      description: 'List the EscrowPool lifecycle events indexed for an escrow, oldest first',
+      params: {
+        type: 'object',
+        required: ['escrowId'],
+        properties: {
+          escrowId: { type: 'string', description: 'Escrow ID' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { escrowId } = disputeParamsSchema.parse(request.params);
+
+    const events = await escrowIndexerService.getEscrowEvents(escrowId);
+
+    return reply.send({ success: true, data: events });
+  });
+
   // Get escrow details
   fastify.get('/escrow/:escrowId', {
     schema: {
@@ -1,5 +1,6 @@
 import { FastifyInstance } from 'fastify';
 import { documentController } from '../controllers/documentController';
+import { optionalWalletJwtGuard } from '../middleware/auth.middleware';
 
 // Schema definitions for document operations
 const documentUploadSchema = {
@@ -12,7 +13,7 @@ const documentUploadSchema = {
       supplierId: { type: 'string' },
       documentType: { 
         type: 'string',
-        enum: ['invoice', 'contract', 'receipt']
+        enum: ['invoice', 'contract', 'receipt', 'photo', 'customs_form', 'delivery_receipt']
       },
       filename: { type: 'string' }
     }
@@ -26,7 +27,9 @@ const documentUploadSchema = {
           type: 'object',
           properties: {
             id: { type: 'string' },
-            fileId: { type: 'string' },
+            fileId: { type: 'string', nullable: true },
+            storageBackend: { type: 'string' },
+            storageUri: { type: 'string' },
             hash: { type: 'string' },
             size: { type: 'number' },
             transactionId: { type: 'string' },
@@ -61,6 +64,25 @@ const documentParamsSchema = {
   }
 };
 
+const uploadParamsSchema = {
+  type: 'object',
+  required: ['uploadId'],
+  properties: {
+    uploadId: { type: 'string' }
+  }
+};
+
+// HCS message anchoring an off-chain document's hash and storage URI
+const anchorSchema = {
+  type: 'object',
+  nullable: true,
+  properties: {
+    topicId: { type: 'string', nullable: true },
+    sequenceNumber: { type: 'string', nullable: true },
+    anchoredAt: { type: 'string', nullable: true }
+  }
+};
+
 const documentInfoResponseSchema = {
   200: {
     type: 'object',
@@ -74,7 +96,9 @@ const documentInfoResponseSchema = {
           supplierId: { type: 'string' },
           documentType: { type: 'string' },
           filename: { type: 'string' },
-          fileId: { type: 'string' },
+          storageBackend: { type: 'string' },
+          storageUri: { type: 'string' },
+          fileId: { type: 'string', nullable: true },
           hash: { type: 'string' },
           size: { type: 'number' },
           mimeType: { type: 'string' },
@@ -83,7 +107,17 @@ const documentInfoResponseSchema = {
           mirrorNodeUrl: { type: 'string' },
           createdAt: { type: 'string' },
           updatedAt: { type: 'string' },
-          hfsInfo: { type: 'object' }
+          storage: {
+            type: 'object',
+            properties: {
+              status: { type: 'string' },
+              expiresAt: { type: 'string', nullable: true },
+              retainUntil: { type: 'string', nullable: true },
+              lastRenewedAt: { type: 'string', nullable: true }
+            }
+          },
+          anchor: anchorSchema,
+          hfsInfo: { type: 'object', nullable: true }
         }
       }
     }
@@ -104,7 +138,11 @@ const documentListQuerySchema = {
     supplierId: { type: 'string' },
     documentType: { 
       type: 'string',
-      enum: ['invoice', 'contract', 'receipt']
+      enum: ['invoice', 'contract', 'receipt', 'photo', 'customs_form', 'delivery_receipt']
+    },
+    storageStatus: {
+      type: 'string',
+      enum: ['ACTIVE', 'EXPIRING_SOON', 'EXPIRED', 'RETIRED']
     }
   }
 };
@@ -124,7 +162,9 @@ const documentListResponseSchema = {
             supplierId: { type: 'string' },
             documentType: { type: 'string' },
             filename: { type: 'string' },
-            fileId: { type: 'string' },
+            storageBackend: { type: 'string' },
+            storageUri: { type: 'string' },
+            fileId: { type: 'string', nullable: true },
             hash: { type: 'string' },
             size: { type: 'number' },
             mimeType: { type: 'string' },
@@ -132,7 +172,17 @@ const documentListResponseSchema = {
             hashScanUrl: { type: 'string' },
             mirrorNodeUrl: { type: 'string' },
             createdAt: { type: 'string' },
-            updatedAt: { type: 'string' }
+            updatedAt: { type: 'string' },
+            storage: {
+              type: 'object',
+              properties: {
+                status: { type: 'string' },
+                expiresAt: { type: 'string', nullable: true },
+                retainUntil: { type: 'string', nullable: true },
+                lastRenewedAt: { type: 'string', nullable: true }
+              }
+            },
+            anchor: anchorSchema
           }
         }
       }
@@ -141,14 +191,25 @@ const documentListResponseSchema = {
 };
 
 export default async function documentRoutes(fastify: FastifyInstance) {
-  // Upload document to HFS
+  // Upload document to HFS, or off-chain when it is large
   fastify.post('/upload', {
     schema: documentUploadSchema,
     handler: documentController.uploadDocument
   });
 
-  // Download document from HFS
+  // Extract invoice fields from a PDF to prefill the invoice form
+  fastify.post('/extract', {
+    schema: {
+      consumes: ['multipart/form-data'],
+      description: 'Read invoice number, amount, currency, dates, buyer and line items from a text-based PDF, each with a confidence score; optional form fields sent with the file are compared with the document and returned as mismatches',
+      tags: ['documents']
+    },
+    handler: documentController.extractInvoiceData
+  });
+
+  // Download document from its storage backend, decrypted for the invoice's parties
   fastify.get('/:documentId/download', {
+    preHandler: [optionalWalletJwtGuard],
     schema: {
       params: documentParamsSchema,
       response: {
@@ -156,18 +217,114 @@ export default async function documentRoutes(fastify: FastifyInstance) {
           type: 'string',
           format: 'binary'
         },
+        401: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
+        },
+        403: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
+        },
         404: {
           type: 'object',
           properties: {
             success: { type: 'boolean' },
             error: { type: 'string' }
           }
+        },
+        410: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
         }
       }
     },
     handler: documentController.downloadDocument
   });
 
+  // Parts of resumable uploads are sent as raw bytes
+  fastify.addContentTypeParser('application/octet-stream', { parseAs: 'buffer' }, (_request, body, done) => {
+    done(null, body);
+  });
+
+  // Start a resumable upload
+  fastify.post('/uploads', {
+    schema: {
+      description: 'Open a resumable upload session; the response gives the part size and number of parts to send',
+      tags: ['documents'],
+      body: {
+        type: 'object',
+        required: ['invoiceId', 'supplierId', 'documentType', 'filename', 'mimeType', 'size'],
+        properties: {
+          invoiceId: { type: 'string' },
+          supplierId: { type: 'string' },
+          documentType: {
+            type: 'string',
+            enum: ['invoice', 'contract', 'receipt', 'photo', 'customs_form', 'delivery_receipt']
+          },
+          filename: { type: 'string', minLength: 1 },
+          mimeType: { type: 'string' },
+          size: { type: 'integer', minimum: 1 },
+          sha256: { type: 'string', pattern: '^[0-9a-fA-F]{64}$' }
+        }
+      }
+    },
+    handler: documentController.startUpload
+  });
+
+  // Progress of a resumable upload
+  fastify.get('/uploads/:uploadId', {
+    schema: {
+      params: uploadParamsSchema,
+      tags: ['documents']
+    },
+    handler: documentController.getUpload
+  });
+
+  // Send one part of a resumable upload
+  fastify.put('/uploads/:uploadId/parts/:partNumber', {
+    schema: {
+      description: 'Store one part as application/octet-stream; sending a part again replaces it',
+      tags: ['documents'],
+      params: {
+        type: 'object',
+        required: ['uploadId', 'partNumber'],
+        properties: {
+          uploadId: { type: 'string' },
+          partNumber: { type: 'integer', minimum: 1 }
+        }
+      }
+    },
+    handler: documentController.uploadPart
+  });
+
+  // Write a resumable upload to HFS, or off-chain when it is large
+  fastify.post('/uploads/:uploadId/complete', {
+    schema: {
+      description: 'Assemble the parts and append them to HFS, or store them off-chain when large; after a failure, calling this again resumes from the last chunk HFS accepted',
+      params: uploadParamsSchema,
+      tags: ['documents']
+    },
+    handler: documentController.completeUpload
+  });
+
+  // Abort a resumable upload
+  fastify.delete('/uploads/:uploadId', {
+    schema: {
+      params: uploadParamsSchema,
+      tags: ['documents']
+    },
+    handler: documentController.abortUpload
+  });
+
   // Get document information
   fastify.get('/:documentId', {
     schema: {
@@ -196,7 +353,7 @@ export default async function documentRoutes(fastify: FastifyInstance) {
           properties: {
             success: { type: 'boolean' },
             message: { type: 'string' },
-            hfsDeleteResult: { type: 'object' }
+            storageDeleteResult: { type: 'object' }
           }
         },
         404: {
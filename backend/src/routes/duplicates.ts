@@ -0,0 +1,119 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { duplicateDetectionService, DuplicateFlagStatus } from '../services/duplicateDetectionService';
+import { walletJwtGuard, walletRoleGuard } from '../middleware/auth.middleware';
+
+// Validation schemas
+const FlagsQuerySchema = z.object({
+  status: z.nativeEnum(DuplicateFlagStatus).optional(),
+  invoiceId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const ReviewFlagSchema = z.object({
+  decision: z.enum([DuplicateFlagStatus.CONFIRMED, DuplicateFlagStatus.DISMISSED]),
+  note: z.string().optional()
+});
+
+const FlagParamsSchema = z.object({
+  id: z.string().min(1)
+});
+
+const HashParamsSchema = z.object({
+  hash: z.string().regex(/^[0-9a-f]{64}([0-9a-f]{32})?$/i, 'Hash must be a hex SHA-256 or SHA-384 digest').transform(hash => hash.toLowerCase())
+});
+
+const walletReviewerGuard = walletRoleGuard('AGENT', 'ADMIN');
+
+/**
+ * Duplicate detection routes
+ * Agent review of possible duplicate invoices and the public hash registry
+ */
+export async function duplicateRoutes(fastify: FastifyInstance) {
+  /**
+   * GET /api/duplicates/registry/:hash
+   * Check a document hash or fingerprint against the registry
+   */
+  fastify.get('/registry/:hash', {
+    schema: {
+      description: 'Check whether a document hash or receivable fingerprint is already registered; public so other platforms can check before financing',
+      tags: ['duplicates'],
+      params: {
+        type: 'object',
+        required: ['hash'],
+        properties: {
+          hash: { type: 'string', description: 'Hex SHA-256 fingerprint or document hash' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { hash } = HashParamsSchema.parse(request.params);
+    const entry = await duplicateDetectionService.lookupHash(hash);
+
+    return reply.send({ success: true, data: entry });
+  });
+
+  /**
+   * GET /api/duplicates/flags
+   * Possible duplicates for review
+   */
+  fastify.get('/flags', {
+    preHandler: [walletJwtGuard, walletReviewerGuard],
+    schema: {
+      description: 'List duplicate flags, newest first, with the flagged and matched invoices',
+      tags: ['duplicates'],
+      querystring: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: Object.values(DuplicateFlagStatus) },
+          invoiceId: { type: 'string' },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 20 },
+          offset: { type: 'number', minimum: 0, default: 0 }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const filter = FlagsQuerySchema.parse(request.query);
+    const { flags, total } = await duplicateDetectionService.getFlags(filter);
+
+    return reply.send({
+      success: true,
+      data: flags,
+      pagination: { total, limit: filter.limit, offset: filter.offset }
+    });
+  });
+
+  /**
+   * POST /api/duplicates/flags/:id/review
+   * Confirm or dismiss a possible duplicate
+   */
+  fastify.post('/flags/:id/review', {
+    preHandler: [walletJwtGuard, walletReviewerGuard],
+    schema: {
+      description: 'Confirm a flag, keeping the flagged invoice from funding, or dismiss it, releasing both invoices',
+      tags: ['duplicates'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      },
+      body: {
+        type: 'object',
+        required: ['decision'],
+        properties: {
+          decision: { type: 'string', enum: [DuplicateFlagStatus.CONFIRMED, DuplicateFlagStatus.DISMISSED] },
+          note: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = FlagParamsSchema.parse(request.params);
+    const { decision, note } = ReviewFlagSchema.parse(request.body);
+    const flag = await duplicateDetectionService.reviewFlag(id, request.walletUser!.accountId, decision, note);
+
+    return reply.send({ success: true, data: flag });
+  });
+}
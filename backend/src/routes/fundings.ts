@@ -1,10 +1,22 @@
 import { FastifyInstance, FastifyPluginOptions, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
 import { walletJwtGuard, walletSupplierGuard, walletInvestorGuard, walletAdminGuard } from '../middleware/auth.middleware';
 import { validate, fundingSchemas, paramSchemas } from '../middleware/validation';
 import { fundingService, CreateFundingSchema, WalletFundingSchema } from '../services/fundingService';
+import { pricingService, DAY_COUNT_CONVENTIONS } from '../services/pricingService';
 import { auditLogger } from '../utils/logger';
 import { NotFoundError } from '../middleware/errorHandler';
 
+const FundingQuoteQuerySchema = z.object({
+  invoiceId: z.string().min(1),
+  amount: z.coerce.number().positive('Amount must be positive'),
+  dayCount: z.enum(DAY_COUNT_CONVENTIONS).optional(),
+});
+
+const FundingReturnsQuerySchema = z.object({
+  dayCount: z.enum(DAY_COUNT_CONVENTIONS).optional(),
+});
+
 export async function fundingRoutes(
   fastify: FastifyInstance,
   options: FastifyPluginOptions
@@ -28,6 +40,55 @@ export async function fundingRoutes(
     }
   });
 
+  // Quote the return on funding an invoice before committing
+  fastify.get('/quote', {
+    preHandler: [walletJwtGuard, walletInvestorGuard],
+    schema: {
+      description: 'Quote discount, APR/APY and expected return for funding an invoice, at the accepted bid\'s rate when the invoice is reserved for the caller',
+      tags: ['fundings'],
+      querystring: {
+        type: 'object',
+        required: ['invoiceId', 'amount'],
+        properties: {
+          invoiceId: { type: 'string' },
+          amount: { type: 'number', description: 'Amount to advance' },
+          dayCount: { type: 'string', enum: [...DAY_COUNT_CONVENTIONS] },
+        }
+      }
+    }
+  }, async (request) => {
+    const { invoiceId, amount, dayCount } = FundingQuoteQuerySchema.parse(request.query);
+    const quote = await pricingService.quote({ invoiceId, investorAccountId: request.walletUser!.accountId, amount, dayCount });
+    return { data: quote };
+  });
+
+  // Get expected and realized returns of a funding
+  fastify.get('/:id/returns', {
+    preHandler: [walletJwtGuard],
+    schema: {
+      description: 'Get expected and realized returns of a funding',
+      tags: ['fundings'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          dayCount: { type: 'string', enum: [...DAY_COUNT_CONVENTIONS] },
+        }
+      }
+    }
+  }, async (request) => {
+    const { id } = request.params as { id: string };
+    const { dayCount } = FundingReturnsQuerySchema.parse(request.query);
+    const returns = await pricingService.getFundingReturns(id, dayCount);
+    return { data: returns };
+  });
+
   // Get funding by ID with escrow details
   fastify.get('/:id', {
     preHandler: [walletJwtGuard]
@@ -69,11 +130,13 @@ export async function fundingRoutes(
       const validatedData = CreateFundingSchema.parse(request.body);
       const result = await fundingService.createFunding(validatedData);
       
-      return reply.code(201).send({
+      // 202 while the escrow deposit is queued in the outbox
+      return reply.code(result.funding?.status === 'PENDING' ? 202 : 201).send({
         data: result.funding,
         escrowId: result.escrowId,
         transactionHash: result.transactionHash,
         hcsMessageId: result.hcsMessageId,
+        outbox: result.outbox,
         proofLinks: {
           transaction: `https://hashscan.io/testnet/transaction/${result.transactionHash}`,
           contract: `https://hashscan.io/testnet/contract/${process.env['ESCROW_CONTRACT_ADDRESS']}`,
@@ -159,7 +222,7 @@ export async function fundingRoutes(
     schema: {
       body: {
         type: 'object',
-        required: ['invoiceId', 'investorId', 'amount', 'supplierAccountId', 'walletAccountId', 'signedTransactionBytes'],
+        required: ['invoiceId', 'investorId', 'amount', 'supplierAccountId', 'walletAccountId', 'signedTransactionBytes', 'transactionId'],
         properties: {
           invoiceId: { type: 'string' },
           investorId: { type: 'string' },
@@ -168,6 +231,7 @@ export async function fundingRoutes(
           nftSerialNumber: { type: 'number' },
           walletAccountId: { type: 'string' },
           signedTransactionBytes: { type: 'string' },
+          transactionId: { type: 'string', description: 'Transaction ID returned by /fundings/wallet/prepare' },
         }
       }
     }
@@ -188,9 +252,9 @@ export async function fundingRoutes(
         },
         message: 'Funding created successfully via wallet',
         links: {
-          transaction: result.proofLinks.transaction,
-          contract: result.proofLinks.contract,
-          mirrorNode: result.proofLinks.mirrorNode,
+          transaction: result.proofLinks?.transaction,
+          contract: result.proofLinks?.contract,
+          mirrorNode: result.proofLinks?.mirrorNode,
         }
       });
     } catch (error) {
@@ -0,0 +1,190 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { ledgerService } from '../services/ledgerService';
+import { portfolioService } from '../services/portfolioService';
+import { fxService } from '../services/fxService';
+import { walletJwtGuard, walletAdminGuard, walletInvestorGuard } from '../middleware/auth.middleware';
+
+// Validation schemas
+const PortfolioQuerySchema = z.object({
+  currency: z.string().optional()
+});
+
+const LedgerQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const UserIdParamsSchema = z.object({
+  userId: z.string().min(1)
+});
+
+const DepositSchema = z.object({
+  amount: z.number().positive('Deposit amount must be greater than 0'),
+  reference: z.string().min(1, 'Reference is required'),
+  description: z.string().max(500).optional()
+});
+
+const FeeSchema = z.object({
+  amount: z.number().positive('Fee amount must be greater than 0'),
+  reference: z.string().min(1, 'Reference is required'),
+  fundingId: z.string().optional(),
+  description: z.string().max(500).optional()
+});
+
+/**
+ * Investor portfolio and ledger routes
+ * Balances are derived from a double-entry ledger of investor cash movements
+ */
+export async function investorRoutes(fastify: FastifyInstance) {
+  /**
+   * GET /api/investors/me/portfolio
+   * Open positions, P&L, supplier concentration and maturity ladder, in a chosen reporting currency
+   */
+  fastify.get('/me/portfolio', {
+    preHandler: [walletJwtGuard, walletInvestorGuard],
+    schema: {
+      description: 'Get the authenticated investor\'s portfolio: open positions, realized/unrealized P&L, concentration by supplier and maturity ladder',
+      tags: ['investors'],
+      querystring: {
+        type: 'object',
+        properties: {
+          currency: { type: 'string', description: 'Reporting currency; defaults to REPORTING_CURRENCY' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const query = PortfolioQuerySchema.parse(request.query);
+    const reportingCurrency = fxService.resolveReportingCurrency(query.currency);
+    const investorId = await portfolioService.resolveInvestorId(request.walletUser!.accountId);
+    const portfolio = await portfolioService.getPortfolio(investorId, new Date(), reportingCurrency);
+
+    return reply.send({ success: true, data: portfolio });
+  });
+
+  /**
+   * GET /api/investors/me/ledger
+   * Ledger entries and derived balances
+   */
+  fastify.get('/me/ledger', {
+    preHandler: [walletJwtGuard, walletInvestorGuard],
+    schema: {
+      description: 'Get the authenticated investor\'s ledger entries, newest first, with derived balances',
+      tags: ['investors'],
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'number', minimum: 1, maximum: 200, default: 50 },
+          offset: { type: 'number', minimum: 0, default: 0 }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const query = LedgerQuerySchema.parse(request.query);
+    const investorId = await portfolioService.resolveInvestorId(request.walletUser!.accountId);
+
+    const [balances, { entries, total }] = await Promise.all([
+      ledgerService.getBalances(investorId),
+      ledgerService.getEntries(investorId, query),
+    ]);
+
+    return reply.send({
+      success: true,
+      data: { balances, entries },
+      pagination: { total, limit: query.limit, offset: query.offset }
+    });
+  });
+
+  /**
+   * POST /api/investors/:userId/deposits
+   * Record a deposit from the investor's wallet
+   */
+  fastify.post('/:userId/deposits', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Record a deposit onto the platform for an investor',
+      tags: ['investors'],
+      params: {
+        type: 'object',
+        required: ['userId'],
+        properties: { userId: { type: 'string' } }
+      },
+      body: {
+        type: 'object',
+        required: ['amount', 'reference'],
+        properties: {
+          amount: { type: 'number' },
+          reference: { type: 'string', description: 'Transaction hash or other unique reference; reposting it is a no-op' },
+          description: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { userId } = UserIdParamsSchema.parse(request.params);
+    const input = DepositSchema.parse(request.body);
+
+    const posted = await ledgerService.recordDeposit(userId, input.amount, input.reference, input.description);
+    const balances = await ledgerService.getBalances(userId);
+
+    return reply.status(posted ? 201 : 200).send({ success: true, data: { posted, balances } });
+  });
+
+  /**
+   * POST /api/investors/:userId/fees
+   * Charge a fee against the investor's available balance
+   */
+  fastify.post('/:userId/fees', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Charge a fee to an investor',
+      tags: ['investors'],
+      params: {
+        type: 'object',
+        required: ['userId'],
+        properties: { userId: { type: 'string' } }
+      },
+      body: {
+        type: 'object',
+        required: ['amount', 'reference'],
+        properties: {
+          amount: { type: 'number' },
+          reference: { type: 'string', description: 'Unique reference for the charge; reposting it is a no-op' },
+          fundingId: { type: 'string' },
+          description: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { userId } = UserIdParamsSchema.parse(request.params);
+    const { amount, reference, ...options } = FeeSchema.parse(request.body);
+
+    const posted = await ledgerService.recordFee(userId, amount, reference, options);
+    const balances = await ledgerService.getBalances(userId);
+
+    return reply.status(posted ? 201 : 200).send({ success: true, data: { posted, balances } });
+  });
+
+  /**
+   * POST /api/investors/:userId/ledger/reconcile
+   * Replay the investor's fundings into the ledger
+   */
+  fastify.post('/:userId/ledger/reconcile', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Post any funding movements missing from an investor\'s ledger',
+      tags: ['investors'],
+      params: {
+        type: 'object',
+        required: ['userId'],
+        properties: { userId: { type: 'string' } }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { userId } = UserIdParamsSchema.parse(request.params);
+
+    const posted = await ledgerService.reconcileInvestor(userId);
+    const balances = await ledgerService.getBalances(userId);
+
+    return reply.send({ success: true, data: { posted, balances } });
+  });
+}
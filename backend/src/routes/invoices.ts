@@ -4,7 +4,14 @@ import { invoiceService, CreateInvoiceSchema, UpdateInvoiceSchema, InvoiceStatus
 import { InvoiceHederaService } from '../services/invoiceHederaService';
 import { HederaService } from '../services/hedera';
 import { invoiceController } from '../controllers/invoiceController';
+import { pricingService } from '../services/pricingService';
+import { outboxService } from '../services/outboxService';
+import { nftOwnershipService } from '../services/nftOwnershipService';
+import { riskScoringService, gradesForTolerance, RiskLevel } from '../services/riskScoringService';
+import { duplicateDetectionService } from '../services/duplicateDetectionService';
+import { fxService } from '../services/fxService';
 import { walletJwtGuard, walletSupplierGuard, walletInvestorGuard, walletAdminGuard } from '../middleware/auth.middleware';
+import { ConflictError } from '../middleware/errorHandler';
 import { PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
@@ -22,9 +29,8 @@ const createInvoiceSchema = z.object({
     const num = parseFloat(val);
     return !isNaN(num) && num > 0;
   }, { message: "Amount must be a positive number" }),
-  currency: z.string().min(3).max(3).refine((val) => {
-    const validCurrencies = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD'];
-    return validCurrencies.includes(val.toUpperCase());
+  currency: z.string().min(3).max(4).refine((val) => {
+    return fxService.isSupported(val);
   }, { message: "Invalid currency format" }),
   dueDate: z.string().datetime().refine((date) => {
     const dueDate = new Date(date);
@@ -44,11 +50,18 @@ const createInvoiceWithFileSchema = z.object({
   supplierId: z.string().min(1),
   buyerId: z.string().min(1),
   amount: z.string().min(1),
-  currency: z.string().min(3).max(3),
+  currency: z.string().min(3).max(4).refine(val => fxService.isSupported(val), { message: "Invalid currency format" }),
   dueDate: z.string().datetime(),
   description: z.string().optional(),
 });
 
+const listInvoicesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  riskTolerance: z.nativeEnum(RiskLevel).optional(),
+  matchMyRiskTolerance: z.coerce.boolean().default(false),
+});
+
 const updateInvoiceSchema = z.object({
   status: z.enum(['ISSUED', 'FUNDED', 'PAID', 'OVERDUE', 'CANCELLED']).optional(),
   agentId: z.string().optional(),
@@ -65,12 +78,32 @@ export async function invoiceRoutes(fastify: FastifyInstance, options: FastifyPl
 
   const invoiceHederaService = new InvoiceHederaService(hederaService, invoiceService);
 
-  // Get all invoices
+  // Get all invoices, optionally only those within a risk tolerance
   fastify.get('/', {
-    preHandler: [walletJwtGuard]
+    preHandler: [walletJwtGuard],
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'number', minimum: 1, default: 1 },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 10 },
+          riskTolerance: { type: 'string', enum: Object.values(RiskLevel) },
+          matchMyRiskTolerance: { type: 'boolean', default: false, description: 'Filter by the risk tolerance of the caller\'s investor profile' }
+        }
+      }
+    }
   }, async (request, reply) => {
     try {
-      const invoices = await invoiceService.getAllInvoices();
+      const query = listInvoicesQuerySchema.parse(request.query);
+      const tolerance = query.matchMyRiskTolerance
+        ? await riskScoringService.getInvestorTolerance(request.walletUser!.accountId)
+        : query.riskTolerance;
+
+      const invoices = await invoiceService.getAllInvoices(
+        query.page,
+        query.limit,
+        tolerance && gradesForTolerance(tolerance)
+      );
       return reply.send({ data: invoices });
     } catch (error) {
       fastify.log.error({ error }, 'Failed to fetch invoices');
@@ -99,7 +132,9 @@ export async function invoiceRoutes(fastify: FastifyInstance, options: FastifyPl
         return reply.code(404).send({ error: 'Invoice not found' });
       }
       
-      return reply.send({ data: invoice });
+      const outbox = await outboxService.getInvoiceStatus(id);
+      
+      return reply.send({ data: { ...invoice, outbox } });
     } catch (error) {
       fastify.log.error({ error }, 'Failed to fetch invoice');
       return reply.code(500).send({ error: 'Failed to fetch invoice' });
@@ -117,7 +152,7 @@ export async function invoiceRoutes(fastify: FastifyInstance, options: FastifyPl
           supplierId: { type: 'string', minLength: 1 },
           buyerId: { type: 'string', minLength: 1 },
           amount: { type: 'string', minLength: 1 },
-          currency: { type: 'string', minLength: 3, maxLength: 3 },
+          currency: { type: 'string', minLength: 3, maxLength: 4, description: 'ISO 4217 code or HBAR' },
           dueDate: { type: 'string', format: 'date-time' },
           description: { type: 'string' }
         },
@@ -127,16 +162,27 @@ export async function invoiceRoutes(fastify: FastifyInstance, options: FastifyPl
   }, async (request, reply) => {
     try {
       const validatedData = request.body as any;
-      
-      const invoice = await invoiceService.createInvoice({
+      const invoiceData = {
         ...validatedData,
         dueDate: new Date(validatedData.dueDate),
         amount: parseFloat(validatedData.amount),
         status: InvoiceStatus.ISSUED
+      };
+      
+      const screening = await duplicateDetectionService.screenNewInvoice(invoiceData);
+      const invoice = await invoiceService.createInvoice(invoiceData);
+      await duplicateDetectionService.registerInvoice(invoice.id, screening);
+
+      // Grade the invoice right away; the scheduled rescoring catches up on failures
+      await riskScoringService.scoreInvoice(invoice.id).catch(error => {
+        fastify.log.warn({ error, invoiceId: invoice.id }, 'Failed to score invoice risk');
       });
 
       return reply.code(201).send({ data: invoice });
     } catch (error) {
+      if (error instanceof ConflictError) {
+        return reply.code(409).send({ error: error.message });
+      }
       fastify.log.error({ error }, 'Failed to create invoice');
       return reply.code(500).send({ error: 'Failed to create invoice' });
     }
@@ -166,12 +212,32 @@ export async function invoiceRoutes(fastify: FastifyInstance, options: FastifyPl
     try {
       const { id } = request.params as { id: string };
       const updateData = request.body as any;
+
+      const current = await invoiceService.getInvoiceById(id);
+      if (!current) {
+        return reply.code(404).send({ error: 'Invoice not found' });
+      }
+      if (current.supplier.accountId !== request.walletUser!.accountId) {
+        return reply.code(403).send({ error: 'Only the supplier of this invoice can update it' });
+      }
       
       const invoice = await invoiceService.updateInvoice(id, updateData);
       
       if (!invoice) {
         return reply.code(404).send({ error: 'Invoice not found' });
       }
+
+      // Payment settles the fundings and realizes investor returns, once.
+      // Holders are synced first so a position sold on is paid to its buyer.
+      if (updateData.status === InvoiceStatus.PAID && current.status !== InvoiceStatus.PAID) {
+        if (invoice.nftTokenId) {
+          await nftOwnershipService.syncInvoice(id).catch(error => {
+            fastify.log.warn({ error, invoiceId: id }, 'Failed to sync NFT holder before settlement');
+          });
+        }
+        await pricingService.recordSettlement(id, new Date());
+        await nftOwnershipService.payoutSettlement(id);
+      }
       
       return reply.send({ data: invoice });
     } catch (error) {
@@ -221,7 +287,7 @@ export async function invoiceRoutes(fastify: FastifyInstance, options: FastifyPl
           supplierId: { type: 'string', minLength: 1 },
           buyerId: { type: 'string', minLength: 1 },
           amount: { type: 'string', minLength: 1 },
-          currency: { type: 'string', minLength: 3, maxLength: 3 },
+          currency: { type: 'string', minLength: 3, maxLength: 4, description: 'ISO 4217 code or HBAR' },
           dueDate: { type: 'string', format: 'date-time' },
           description: { type: 'string' },
           accountId: { type: 'string', minLength: 1 }
@@ -234,12 +300,15 @@ export async function invoiceRoutes(fastify: FastifyInstance, options: FastifyPl
       const { accountId, ...invoiceData } = request.body as any;
       
       // Create invoice record first
-      const invoice = await invoiceService.createInvoice({
+      const newInvoice = {
         ...invoiceData,
         dueDate: new Date(invoiceData.dueDate),
         amount: parseFloat(invoiceData.amount),
         status: InvoiceStatus.ISSUED
-      });
+      };
+      const screening = await duplicateDetectionService.screenNewInvoice(newInvoice);
+      const invoice = await invoiceService.createInvoice(newInvoice);
+      await duplicateDetectionService.registerInvoice(invoice.id, screening);
 
       const result = await invoiceHederaService.prepareMintTransaction({
         invoiceId: invoice.id,
@@ -260,6 +329,9 @@ export async function invoiceRoutes(fastify: FastifyInstance, options: FastifyPl
         }
       });
     } catch (error) {
+      if (error instanceof ConflictError) {
+        return reply.code(409).send({ error: error.message });
+      }
       fastify.log.error({ error }, 'Error preparing mint transaction');
       reply.code(500).send({ error: 'Failed to prepare mint transaction' });
     }
@@ -342,6 +414,9 @@ export async function invoiceRoutes(fastify: FastifyInstance, options: FastifyPl
         }
       });
     } catch (error) {
+      if (error instanceof ConflictError) {
+        return reply.code(409).send({ error: error.message });
+      }
       fastify.log.error({ error }, 'Error preparing fund transaction');
       reply.code(500).send({ error: 'Failed to prepare fund transaction' });
     }
@@ -490,4 +565,97 @@ export async function invoiceRoutes(fastify: FastifyInstance, options: FastifyPl
     await invoiceController.transferNFT(req, reply as any);
   });
 
+  // GET /api/invoices/nft/:tokenId/:serialNumber/ownership - Ownership history of an invoice NFT
+  fastify.get('/nft/:tokenId/:serialNumber/ownership', {
+    preHandler: [walletJwtGuard],
+    schema: {
+      description: 'Transfers of an invoice NFT with sale prices and its current holder',
+      tags: ['invoices', 'nft'],
+      params: {
+        type: 'object',
+        properties: {
+          tokenId: { type: 'string', pattern: '^\\d+\\.\\d+\\.\\d+$' },
+          serialNumber: { type: 'string', pattern: '^\\d+$' }
+        },
+        required: ['tokenId', 'serialNumber']
+      }
+    }
+  }, async (request, reply) => {
+    const { tokenId, serialNumber } = request.params as { tokenId: string; serialNumber: string };
+    const history = await nftOwnershipService.getOwnershipHistory(tokenId, serialNumber);
+
+    return reply.send({ success: true, data: history });
+  });
+
+  // POST /api/invoices/:id/ownership/sync - Read new NFT transfers from the Mirror Node now
+  fastify.post('/:id/ownership/sync', {
+    preHandler: [walletJwtGuard],
+    schema: {
+      description: 'Record new transfers of the invoice NFT and move its funding position to the current holder',
+      tags: ['invoices', 'nft'],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', minLength: 1 }
+        },
+        required: ['id']
+      }
+    }
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const result = await nftOwnershipService.syncInvoice(id);
+
+    return reply.send({ success: true, data: result });
+  });
+
+  // POST /api/invoices/:id/sale - Prepare a sale of the invoice NFT to another investor
+  fastify.post('/:id/sale', {
+    preHandler: [walletJwtGuard, walletInvestorGuard],
+    schema: {
+      description: 'Prepare an atomic NFT-for-HBAR transfer selling the funding position; seller and buyer both sign it',
+      tags: ['invoices', 'nft'],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', minLength: 1 }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        required: ['buyerAccountId', 'price'],
+        properties: {
+          buyerAccountId: { type: 'string', pattern: '^\\d+\\.\\d+\\.\\d+$' },
+          price: { type: 'number', exclusiveMinimum: 0 }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { buyerAccountId, price } = request.body as { buyerAccountId: string; price: number };
+    const sellerAccountId = request.walletUser!.accountId;
+
+    const { invoice } = await nftOwnershipService.authorizeSale(id, sellerAccountId, buyerAccountId);
+    const transaction = await hederaService.prepareNFTSaleTransaction(
+      invoice.nftTokenId!,
+      invoice.nftSerialNumber!,
+      sellerAccountId,
+      buyerAccountId,
+      price
+    );
+
+    return reply.send({
+      success: true,
+      data: {
+        ...transaction,
+        invoiceId: id,
+        tokenId: invoice.nftTokenId,
+        serialNumber: invoice.nftSerialNumber,
+        sellerAccountId,
+        buyerAccountId,
+        price
+      }
+    });
+  });
+
 }
\ No newline at end of file
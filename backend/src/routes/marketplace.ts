@@ -0,0 +1,267 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { marketplaceService, ListingStatus } from '../services/marketplaceService';
+import { riskScoringService, RiskLevel } from '../services/riskScoringService';
+import { walletJwtGuard, walletInvestorGuard, walletSupplierGuard } from '../middleware/auth.middleware';
+
+// Validation schemas
+const CreateListingSchema = z.object({
+  invoiceId: z.string().min(1, 'Invoice ID is required'),
+  askingDiscountRate: z.number().min(0).lt(1),
+  expiresAt: z.string().datetime().transform(val => new Date(val))
+});
+
+const ListingsQuerySchema = z.object({
+  status: z.nativeEnum(ListingStatus).optional(),
+  invoiceId: z.string().optional(),
+  riskTolerance: z.nativeEnum(RiskLevel).optional(),
+  matchMyRiskTolerance: z.coerce.boolean().default(false),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const PlaceBidSchema = z.object({
+  amount: z.number().positive('Bid amount must be greater than 0'),
+  discountRate: z.number().min(0).lt(1)
+});
+
+const ListingIdParamsSchema = z.object({
+  id: z.string().min(1)
+});
+
+const BidIdParamsSchema = z.object({
+  bidId: z.string().min(1)
+});
+
+const AcceptBidParamsSchema = z.object({
+  id: z.string().min(1),
+  bidId: z.string().min(1)
+});
+
+/**
+ * Invoice marketplace routes
+ * Suppliers list ISSUED invoices, investors bid and the supplier accepts one bid
+ */
+export async function marketplaceRoutes(fastify: FastifyInstance) {
+  /**
+   * POST /api/marketplace/listings
+   * List an invoice for bids
+   */
+  fastify.post('/listings', {
+    preHandler: [walletJwtGuard, walletSupplierGuard],
+    schema: {
+      description: 'List an ISSUED invoice with an asking discount rate until it expires; recorded on the deal topic',
+      tags: ['marketplace'],
+      body: {
+        type: 'object',
+        required: ['invoiceId', 'askingDiscountRate', 'expiresAt'],
+        properties: {
+          invoiceId: { type: 'string' },
+          askingDiscountRate: { type: 'number', description: 'Annual discount rate asked (0.05 = 5%)' },
+          expiresAt: { type: 'string', format: 'date-time', description: 'Bids are no longer taken after this' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const input = CreateListingSchema.parse(request.body);
+    const listing = await marketplaceService.createListing({
+      ...input,
+      supplierAccountId: request.walletUser!.accountId
+    });
+
+    return reply.status(201).send({ success: true, data: listing });
+  });
+
+  /**
+   * GET /api/marketplace/listings
+   * Browse listings
+   */
+  fastify.get('/listings', {
+    preHandler: [walletJwtGuard],
+    schema: {
+      description: 'List marketplace listings, newest first, with the invoice risk grade, bid counts and the best pending bid',
+      tags: ['marketplace'],
+      querystring: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: Object.values(ListingStatus) },
+          invoiceId: { type: 'string' },
+          riskTolerance: { type: 'string', enum: Object.values(RiskLevel) },
+          matchMyRiskTolerance: { type: 'boolean', default: false, description: 'Filter by the risk tolerance of the caller\'s investor profile' },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 20 },
+          offset: { type: 'number', minimum: 0, default: 0 }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { matchMyRiskTolerance, ...filter } = ListingsQuerySchema.parse(request.query);
+    if (matchMyRiskTolerance) {
+      filter.riskTolerance = await riskScoringService.getInvestorTolerance(request.walletUser!.accountId);
+    }
+    const { listings, total } = await marketplaceService.getListings(filter);
+
+    return reply.send({
+      success: true,
+      data: listings,
+      pagination: { total, limit: filter.limit, offset: filter.offset }
+    });
+  });
+
+  /**
+   * GET /api/marketplace/listings/:id
+   * Get a listing with the bids the caller may see
+   */
+  fastify.get('/listings/:id', {
+    preHandler: [walletJwtGuard],
+    schema: {
+      description: 'Get a listing; its supplier sees every bid, investors only their own',
+      tags: ['marketplace'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = ListingIdParamsSchema.parse(request.params);
+    const listing = await marketplaceService.getListing(id, request.walletUser!);
+
+    return reply.send({ success: true, data: listing });
+  });
+
+  /**
+   * POST /api/marketplace/listings/:id/cancel
+   * Withdraw a listing
+   */
+  fastify.post('/listings/:id/cancel', {
+    preHandler: [walletJwtGuard, walletSupplierGuard],
+    schema: {
+      description: 'Cancel an open or accepted listing; pending bids are rejected',
+      tags: ['marketplace'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = ListingIdParamsSchema.parse(request.params);
+    const listing = await marketplaceService.cancelListing(id, request.walletUser!.accountId);
+
+    return reply.send({ success: true, data: listing });
+  });
+
+  /**
+   * POST /api/marketplace/listings/:id/bids
+   * Bid on a listing
+   */
+  fastify.post('/listings/:id/bids', {
+    preHandler: [walletJwtGuard, walletInvestorGuard],
+    schema: {
+      description: 'Place or revise the caller\'s bid on an open listing',
+      tags: ['marketplace'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      },
+      body: {
+        type: 'object',
+        required: ['amount', 'discountRate'],
+        properties: {
+          amount: { type: 'number', description: 'HBAR to advance' },
+          discountRate: { type: 'number', description: 'Annual discount rate bid (0.05 = 5%)' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = ListingIdParamsSchema.parse(request.params);
+    const input = PlaceBidSchema.parse(request.body);
+    const bid = await marketplaceService.placeBid({
+      listingId: id,
+      investorAccountId: request.walletUser!.accountId,
+      ...input
+    });
+
+    return reply.status(201).send({ success: true, data: bid });
+  });
+
+  /**
+   * POST /api/marketplace/listings/:id/bids/:bidId/accept
+   * Accept a bid and prepare the investor's escrow deposit
+   */
+  fastify.post('/listings/:id/bids/:bidId/accept', {
+    preHandler: [walletJwtGuard, walletSupplierGuard],
+    schema: {
+      description: 'Accept a bid; other bids are rejected and the winning investor\'s funding transaction is prepared for signing',
+      tags: ['marketplace'],
+      params: {
+        type: 'object',
+        required: ['id', 'bidId'],
+        properties: {
+          id: { type: 'string' },
+          bidId: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id, bidId } = AcceptBidParamsSchema.parse(request.params);
+    const result = await marketplaceService.acceptBid(id, bidId, request.walletUser!.accountId);
+
+    return reply.send({ success: true, data: result });
+  });
+
+  /**
+   * POST /api/marketplace/bids/:bidId/withdraw
+   * Withdraw a pending bid
+   */
+  fastify.post('/bids/:bidId/withdraw', {
+    preHandler: [walletJwtGuard, walletInvestorGuard],
+    schema: {
+      description: 'Withdraw the caller\'s pending bid',
+      tags: ['marketplace'],
+      params: {
+        type: 'object',
+        required: ['bidId'],
+        properties: {
+          bidId: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { bidId } = BidIdParamsSchema.parse(request.params);
+    const bid = await marketplaceService.withdrawBid(bidId, request.walletUser!.accountId);
+
+    return reply.send({ success: true, data: bid });
+  });
+
+  /**
+   * POST /api/marketplace/bids/:bidId/prepare-funding
+   * Prepare the escrow deposit of an accepted bid again
+   */
+  fastify.post('/bids/:bidId/prepare-funding', {
+    preHandler: [walletJwtGuard, walletInvestorGuard],
+    schema: {
+      description: 'Prepare the funding transaction of the caller\'s accepted bid for wallet signing',
+      tags: ['marketplace'],
+      params: {
+        type: 'object',
+        required: ['bidId'],
+        properties: {
+          bidId: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { bidId } = BidIdParamsSchema.parse(request.params);
+    const transaction = await marketplaceService.prepareFunding(bidId, request.walletUser!.accountId);
+
+    return reply.send({ success: true, data: transaction });
+  });
+}
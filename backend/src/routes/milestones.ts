@@ -1,21 +1,28 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
-import { milestonesService, MilestoneType, MilestoneData } from '../services/milestonesService';
+import { milestonesService } from '../services/milestonesService';
 import { mirrorNodeMilestonesService } from '../services/mirrorNodeMilestones';
+import { walletJwtGuard, walletAgentGuard } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
 import { MilestoneUpdate } from '../services/websocketService';
 
 // Validation schemas
-const CreateMilestoneSchema = z.object({
+const PrepareMilestoneSchema = z.object({
   tokenId: z.string().min(1, 'Token ID is required'),
   serial: z.string().min(1, 'Serial number is required'),
-  milestone: z.nativeEnum(MilestoneType),
+  milestone: z.string().min(1, 'Milestone is required'),
   fileHash: z.string().optional(),
-  agentId: z.string().optional(),
   location: z.string().optional(),
   notes: z.string().optional(),
   documentUrl: z.string().url().optional(),
-  metadata: z.record(z.any()).optional()
+  metadata: z.record(z.any()).optional(),
+  evidenceDocumentIds: z.array(z.string().min(1)).max(20).optional()
+});
+
+const CreateMilestoneSchema = PrepareMilestoneSchema.extend({
+  nonce: z.string().min(1, 'Nonce is required'),
+  signature: z.string().min(1, 'Signature is required')
 });
 
 const GetMilestonesQuerySchema = z.object({
@@ -42,10 +49,18 @@ const GetNextMilestonesQuerySchema = z.object({
   serial: z.string().min(1)
 });
 
+type PrepareMilestoneRequest = FastifyRequest<{
+  Body: z.infer<typeof PrepareMilestoneSchema>;
+}>;
+
 type CreateMilestoneRequest = FastifyRequest<{
   Body: z.infer<typeof CreateMilestoneSchema>;
 }>;
 
+type VerifyMilestoneRequest = FastifyRequest<{
+  Params: { milestoneId: string };
+}>;
+
 type GetMilestonesRequest = FastifyRequest<{
   Querystring: z.infer<typeof GetMilestonesQuerySchema>;
 }>;
@@ -62,6 +77,115 @@ type GetNextMilestonesRequest = FastifyRequest<{
   Querystring: z.infer<typeof GetNextMilestonesQuerySchema>;
 }>;
 
+const evidenceSchema = {
+  type: 'object',
+  properties: {
+    documentId: { type: 'string' },
+    documentType: { type: 'string' },
+    sha256: { type: 'string' },
+    storageUri: { type: 'string' }
+  }
+};
+
+const milestoneBodySchema = {
+  type: 'object',
+  required: ['tokenId', 'serial', 'milestone'],
+  properties: {
+    tokenId: { type: 'string', description: 'NFT Token ID' },
+    serial: { type: 'string', description: 'NFT Serial Number' },
+    milestone: {
+      type: 'string',
+      description: 'Milestone state defined by the workflow assigned to the deal'
+    },
+    fileHash: { type: 'string', description: 'Document file hash' },
+    location: { type: 'string', description: 'Location where milestone occurred' },
+    notes: { type: 'string', description: 'Additional notes' },
+    documentUrl: { type: 'string', format: 'uri', description: 'Document URL' },
+    metadata: { type: 'object', description: 'Additional metadata' },
+    evidenceDocumentIds: {
+      type: 'array',
+      items: { type: 'string' },
+      maxItems: 20,
+      description: 'Evidence documents (photos, customs forms, delivery receipts) uploaded for the deal\'s invoice'
+    }
+  }
+};
+
+const milestoneRecordSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    tokenId: { type: 'string' },
+    serial: { type: 'string' },
+    milestone: { type: 'string' },
+    topicId: { type: 'string' },
+    sequenceNumber: { type: 'string' },
+    transactionId: { type: 'string' },
+    consensusTimestamp: { type: 'string' },
+    fileHash: { type: 'string' },
+    agentId: { type: 'string' },
+    evidence: { type: 'array', items: evidenceSchema },
+    attestation: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string' },
+        publicKey: { type: 'string' },
+        nonce: { type: 'string' },
+        messageHash: { type: 'string' },
+        signature: { type: 'string' }
+      }
+    },
+    createdAt: { type: 'string', format: 'date-time' }
+  }
+};
+
+const milestoneErrorSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+    code: { type: 'string' },
+    missingEvidence: { type: 'array', items: { type: 'string' } }
+  }
+};
+
+/**
+ * Reply with the status of an AppError, a milestone validation error or a Zod error
+ */
+function sendMilestoneError(reply: FastifyReply, error: any) {
+  if (error instanceof AppError) {
+    return reply.status(error.statusCode).send({
+      success: false,
+      error: error.message,
+      code: error.code
+    });
+  }
+
+  // Handle validation errors
+  if (error.code) {
+    return reply.status(400).send({
+      success: false,
+      error: error.message,
+      code: error.code,
+      missingEvidence: error.missingEvidence
+    });
+  }
+
+  // Handle Zod validation errors
+  if (error.name === 'ZodError') {
+    return reply.status(400).send({
+      success: false,
+      error: 'Validation failed',
+      details: error.errors
+    });
+  }
+
+  return reply.status(500).send({
+    success: false,
+    error: 'Internal server error'
+  });
+}
+
 /**
  * Milestone routes for the Agent Portal
  * Handles milestone creation, retrieval, and timeline management
@@ -79,63 +203,83 @@ export async function milestonesRoutes(fastify: FastifyInstance) {
   });
 
   /**
-   * POST /api/milestones
-   * Create a new milestone event
+   * POST /api/milestones/prepare
+   * Validate a milestone and return the message the agent's wallet must sign
    */
-  fastify.post<{ Body: z.infer<typeof CreateMilestoneSchema> }>(
-    '/',
+  fastify.post<{ Body: z.infer<typeof PrepareMilestoneSchema> }>(
+    '/prepare',
     {
+      preHandler: [walletJwtGuard, walletAgentGuard],
       schema: {
-        description: 'Create a new milestone event',
+        description: 'Prepare a milestone event for the agent to sign',
         tags: ['milestones'],
-        body: {
-          type: 'object',
-          required: ['tokenId', 'serial', 'milestone'],
-          properties: {
-            tokenId: { type: 'string', description: 'NFT Token ID' },
-            serial: { type: 'string', description: 'NFT Serial Number' },
-            milestone: { 
-              type: 'string', 
-              enum: Object.values(MilestoneType),
-              description: 'Milestone type' 
-            },
-            fileHash: { type: 'string', description: 'Document file hash' },
-            agentId: { type: 'string', description: 'Agent ID who recorded the milestone' },
-            location: { type: 'string', description: 'Location where milestone occurred' },
-            notes: { type: 'string', description: 'Additional notes' },
-            documentUrl: { type: 'string', format: 'uri', description: 'Document URL' },
-            metadata: { type: 'object', description: 'Additional metadata' }
-          }
-        },
+        security: [{ bearerAuth: [] }],
+        body: milestoneBodySchema,
         response: {
-          201: {
+          200: {
             type: 'object',
             properties: {
               success: { type: 'boolean' },
               data: {
                 type: 'object',
                 properties: {
-                  id: { type: 'string' },
-                  tokenId: { type: 'string' },
-                  serial: { type: 'string' },
-                  milestone: { type: 'string' },
-                  topicId: { type: 'string' },
-                  sequenceNumber: { type: 'string' },
-                  transactionId: { type: 'string' },
-                  consensusTimestamp: { type: 'string' },
-                  createdAt: { type: 'string', format: 'date-time' }
+                  nonce: { type: 'string' },
+                  message: { type: 'string', description: 'Message to sign with the agent account key' },
+                  evidence: { type: 'array', items: evidenceSchema }
                 }
               }
             }
-          },
-          400: {
+          }
+        }
+      }
+    },
+    async (request: PrepareMilestoneRequest, reply: FastifyReply) => {
+      try {
+        const validatedData = PrepareMilestoneSchema.parse(request.body);
+
+        const prepared = await milestonesService.prepareMilestone(validatedData, request.walletUser!.accountId);
+
+        return reply.send({
+          success: true,
+          data: prepared
+        });
+      } catch (error: any) {
+        logger.error({ error, body: request.body }, 'Failed to prepare milestone');
+        return sendMilestoneError(reply, error);
+      }
+    }
+  );
+
+  /**
+   * POST /api/milestones
+   * Create a new milestone event signed by the authenticated agent
+   */
+  fastify.post<{ Body: z.infer<typeof CreateMilestoneSchema> }>(
+    '/',
+    {
+      preHandler: [walletJwtGuard, walletAgentGuard],
+      schema: {
+        description: 'Create a new milestone event signed by the authenticated agent',
+        tags: ['milestones'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          ...milestoneBodySchema,
+          required: [...milestoneBodySchema.required, 'nonce', 'signature'],
+          properties: {
+            ...milestoneBodySchema.properties,
+            nonce: { type: 'string', description: 'Nonce returned by /prepare' },
+            signature: { type: 'string', description: 'Agent signature over the prepared message (hex or base64)' }
+          }
+        },
+        response: {
+          201: {
             type: 'object',
             properties: {
               success: { type: 'boolean' },
-              error: { type: 'string' },
-              code: { type: 'string' }
+              data: milestoneRecordSchema
             }
-          }
+          },
+          400: milestoneErrorSchema
         }
       }
     },
@@ -144,8 +288,8 @@ export async function milestonesRoutes(fastify: FastifyInstance) {
         // Validate request body
         const validatedData = CreateMilestoneSchema.parse(request.body);
 
-        // Create milestone
-        const milestone = await milestonesService.publishMilestone(validatedData);
+        // The agent is the authenticated wallet, never a body field
+        const milestone = await milestonesService.publishMilestone(validatedData, request.walletUser!.accountId);
 
         logger.info('Milestone created successfully', {
           tokenId: milestone.tokenId,
@@ -171,29 +315,70 @@ export async function milestonesRoutes(fastify: FastifyInstance) {
         });
       } catch (error: any) {
         logger.error('Failed to create milestone', { error, body: request.body });
+        return sendMilestoneError(reply, error);
+      }
+    }
+  );
 
-        // Handle validation errors
-        if (error.code) {
-          return reply.status(400).send({
-            success: false,
-            error: error.message,
-            code: error.code
-          });
-        }
-
-        // Handle Zod validation errors
-        if (error.name === 'ZodError') {
-          return reply.status(400).send({
-            success: false,
-            error: 'Validation failed',
-            details: error.errors
-          });
+  /**
+   * GET /api/milestones/:milestoneId/verification
+   * Check a milestone's agent signature and the integrity of its evidence documents
+   */
+  fastify.get<{ Params: { milestoneId: string } }>(
+    '/:milestoneId/verification',
+    {
+      schema: {
+        description: 'Verify the agent signature and evidence hashes of a milestone',
+        tags: ['milestones'],
+        params: {
+          type: 'object',
+          required: ['milestoneId'],
+          properties: {
+            milestoneId: { type: 'string' }
+          }
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  milestoneId: { type: 'string' },
+                  signed: { type: 'boolean' },
+                  signatureValid: { type: 'boolean' },
+                  verified: { type: 'boolean' },
+                  evidence: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        ...evidenceSchema.properties,
+                        hashMatches: { type: 'boolean' },
+                        contentIntact: { type: 'boolean' },
+                        error: { type: 'string' }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
         }
+      }
+    },
+    async (request: VerifyMilestoneRequest, reply: FastifyReply) => {
+      try {
+        const verification = await milestonesService.verifyMilestone(request.params.milestoneId);
 
-        return reply.status(500).send({
-          success: false,
-          error: 'Internal server error'
+        return reply.send({
+          success: true,
+          data: verification
         });
+      } catch (error: any) {
+        logger.error({ error, params: request.params }, 'Failed to verify milestone');
+        return sendMilestoneError(reply, error);
       }
     }
   );
@@ -225,20 +410,7 @@ export async function milestonesRoutes(fastify: FastifyInstance) {
               success: { type: 'boolean' },
               data: {
                 type: 'array',
-                items: {
-                  type: 'object',
-                  properties: {
-                    id: { type: 'string' },
-                    tokenId: { type: 'string' },
-                    serial: { type: 'string' },
-                    milestone: { type: 'string' },
-                    topicId: { type: 'string' },
-                    sequenceNumber: { type: 'string' },
-                    transactionId: { type: 'string' },
-                    consensusTimestamp: { type: 'string' },
-                    createdAt: { type: 'string', format: 'date-time' }
-                  }
-                }
+                items: milestoneRecordSchema
               }
             }
           }
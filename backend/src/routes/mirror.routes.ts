@@ -2,6 +2,7 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { MirrorNodeService } from '../services/mirror.service';
 import { logger } from '../utils/logger';
+import { CacheService } from '../services/cacheService';
 
 // Zod schemas for validation
 const TransactionParamsSchema = z.object({
@@ -576,6 +577,35 @@ export async function mirrorRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Cache statistics, with hit ratios per store
+  fastify.get('/cache/stats', {
+    schema: {
+      description: 'Get Mirror Node cache statistics',
+      tags: ['Mirror Node'],
+      response: {
+        200: {
+          type: 'object',
+          description: 'Hits, misses, coalesced loads and hit ratio for each cache',
+          additionalProperties: true,
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const stats = await CacheService.getCacheStats();
+      return reply.send(stats);
+    } catch (error) {
+      logger.error({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to get cache stats');
+
+      return reply.status(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to retrieve cache statistics',
+      });
+    }
+  });
+
   // Health check
   fastify.get('/health', {
     schema: {
@@ -442,7 +442,7 @@ export default async function mirrorRoutes(fastify: FastifyInstance) {
   // Cache management endpoints
   fastify.get('/cache/stats', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const stats = CacheService.getCacheStats();
+      const stats = await CacheService.getCacheStats();
       return reply.send({
         success: true,
         data: stats,
@@ -458,7 +458,7 @@ export default async function mirrorRoutes(fastify: FastifyInstance) {
 
   fastify.delete('/cache', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      CacheService.clearAllCaches();
+      await CacheService.clearAllCaches();
       return reply.send({
         success: true,
         message: 'All caches cleared',
@@ -0,0 +1,125 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { riskScoringService } from '../services/riskScoringService';
+import { walletJwtGuard, walletAdminGuard } from '../middleware/auth.middleware';
+
+// Validation schemas
+const SupplierParamsSchema = z.object({
+  supplierId: z.string().min(1)
+});
+
+const BuyerParamsSchema = z.object({
+  buyerId: z.string().min(1)
+});
+
+const InvoiceParamsSchema = z.object({
+  invoiceId: z.string().min(1)
+});
+
+/**
+ * Credit risk routes
+ * Scores of suppliers, buyers and invoices with the factors behind them
+ */
+export async function riskRoutes(fastify: FastifyInstance) {
+  /**
+   * GET /api/risk/model
+   * The scoring model in use
+   */
+  fastify.get('/model', {
+    preHandler: [walletJwtGuard],
+    schema: {
+      description: 'Get the version, weights and grade thresholds of the active risk model',
+      tags: ['risk']
+    }
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    return reply.send({ success: true, data: riskScoringService.model });
+  });
+
+  /**
+   * GET /api/risk/suppliers/:supplierId
+   * Score a supplier
+   */
+  fastify.get('/suppliers/:supplierId', {
+    preHandler: [walletJwtGuard],
+    schema: {
+      description: 'Score a supplier from its invoice history, with the contributing factors',
+      tags: ['risk'],
+      params: {
+        type: 'object',
+        required: ['supplierId'],
+        properties: {
+          supplierId: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { supplierId } = SupplierParamsSchema.parse(request.params);
+    const score = await riskScoringService.scoreSupplier(supplierId);
+
+    return reply.send({ success: true, data: score });
+  });
+
+  /**
+   * GET /api/risk/buyers/:buyerId
+   * Score a buyer
+   */
+  fastify.get('/buyers/:buyerId', {
+    preHandler: [walletJwtGuard],
+    schema: {
+      description: 'Score a buyer from the invoices issued to it, with the contributing factors',
+      tags: ['risk'],
+      params: {
+        type: 'object',
+        required: ['buyerId'],
+        properties: {
+          buyerId: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { buyerId } = BuyerParamsSchema.parse(request.params);
+    const score = await riskScoringService.scoreBuyer(buyerId);
+
+    return reply.send({ success: true, data: score });
+  });
+
+  /**
+   * GET /api/risk/invoices/:invoiceId
+   * Score an invoice
+   */
+  fastify.get('/invoices/:invoiceId', {
+    preHandler: [walletJwtGuard],
+    schema: {
+      description: 'Score an invoice from its supplier and buyer and store the grade shown on listings',
+      tags: ['risk'],
+      params: {
+        type: 'object',
+        required: ['invoiceId'],
+        properties: {
+          invoiceId: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { invoiceId } = InvoiceParamsSchema.parse(request.params);
+    const risk = await riskScoringService.scoreInvoice(invoiceId);
+
+    return reply.send({ success: true, data: risk });
+  });
+
+  /**
+   * POST /api/risk/rescore
+   * Rescore open invoices now instead of waiting for the next interval
+   */
+  fastify.post('/rescore', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Rescore the least recently scored open invoices with the active risk model',
+      tags: ['risk']
+    }
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    const scored = await riskScoringService.runOnce();
+
+    return reply.send({ success: true, data: { scored } });
+  });
+}
@@ -2,14 +2,16 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
 import { mirrorNodeService } from '../services/mirrorNodeService';
+import { fxService } from '../services/fxService';
 import { logger } from '../utils/logger';
 
 const prisma = new PrismaClient();
 
 export async function settlementsRoutes(fastify: FastifyInstance) {
 
-  // GET /snapshot - Settlement dashboard snapshot
-  fastify.get('/snapshot', async (request: FastifyRequest, reply: FastifyReply) => {
+  // GET /snapshot - Settlement dashboard snapshot, with amounts in the reporting currency
+  fastify.get('/snapshot', async (request: FastifyRequest<{ Querystring: { currency?: string } }>, reply: FastifyReply) => {
+    const reportingCurrency = fxService.resolveReportingCurrency(request.query.currency);
     try {
       // Get real settlement data from database
       const [
@@ -40,17 +42,17 @@ export async function settlementsRoutes(fastify: FastifyInstance) {
         })
       ]);
 
-      // Calculate aggregated amounts
-      const totalValueResult = await prisma.funding.aggregate({
+      // Calculate aggregated amounts; fundings are in their invoice's currency
+      const valueByCurrency = await prisma.funding.groupBy({
+        by: ['currency', 'status'],
         _sum: { amount: true }
       });
-      const totalValue = totalValueResult._sum.amount || 0;
+      const rates = await fxService.getRates(valueByCurrency.map(row => row.currency), reportingCurrency);
+      const reportedValue = (rows: typeof valueByCurrency) =>
+        rows.reduce((sum, row) => sum + (row._sum.amount || 0) * rates.get(row.currency.toUpperCase())!, 0);
 
-      const completedValueResult = await prisma.funding.aggregate({
-        where: { status: 'RELEASED' },
-        _sum: { amount: true }
-      });
-      const completedValue = completedValueResult._sum.amount || 0;
+      const totalValue = reportedValue(valueByCurrency);
+      const completedValue = reportedValue(valueByCurrency.filter(row => row.status === 'RELEASED'));
 
       // Calculate success rate
       const settlementSuccessRate = totalFundings > 0 ? 
@@ -87,6 +89,7 @@ export async function settlementsRoutes(fastify: FastifyInstance) {
         type: funding.status === 'RELEASED' ? 'PAYMENT_RELEASED' : 
               funding.status === 'ACTIVE' ? 'FUNDING_RECEIVED' : 'FUNDING_REFUNDED',
         amount: funding.amount,
+        currency: funding.currency,
         status: funding.status === 'RELEASED' ? 'COMPLETED' : 
                 funding.status === 'ACTIVE' ? 'PENDING' : 'FAILED',
         timestamp: funding.createdAt.toISOString(),
@@ -94,6 +97,7 @@ export async function settlementsRoutes(fastify: FastifyInstance) {
       }));
 
       const snapshot = {
+        reportingCurrency,
         totalSettlements: totalFundings,
         totalValue: Math.round(totalValue * 100) / 100,
         pendingSettlements: activeFundings,
@@ -0,0 +1,205 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { syndicationService } from '../services/syndicationService';
+import { walletJwtGuard, walletAdminGuard, walletInvestorGuard, walletRoleGuard } from '../middleware/auth.middleware';
+
+// Validation schemas
+const OpenSyndicateSchema = z.object({
+  invoiceId: z.string().min(1, 'Invoice ID is required'),
+  fillDeadline: z.string().datetime().transform(val => new Date(val)),
+  targetAmount: z.number().positive().optional(),
+  minTrancheAmount: z.number().positive().optional(),
+  nftSerialNumber: z.number().int().positive().optional()
+});
+
+const CommitTrancheSchema = z.object({
+  amount: z.number().positive('Tranche amount must be greater than 0')
+});
+
+const RefundSyndicateSchema = z.object({
+  reason: z.string().min(1).max(500).optional()
+});
+
+const SyndicateIdParamsSchema = z.object({
+  id: z.string().min(1)
+});
+
+const InvoiceIdParamsSchema = z.object({
+  invoiceId: z.string().min(1)
+});
+
+/**
+ * Funding syndicate routes
+ * Several investors fill one invoice with tranches held in a shared escrow
+ */
+export async function syndicateRoutes(fastify: FastifyInstance) {
+  /**
+   * POST /api/syndicates
+   * Open a syndicate for an invoice
+   */
+  fastify.post('/', {
+    preHandler: [walletJwtGuard, walletRoleGuard('SUPPLIER', 'ADMIN')],
+    schema: {
+      description: 'Open a funding syndicate with a target amount and fill deadline; tranches are paid out to the invoice supplier\'s account',
+      tags: ['syndicates'],
+      body: {
+        type: 'object',
+        required: ['invoiceId', 'fillDeadline'],
+        properties: {
+          invoiceId: { type: 'string' },
+          fillDeadline: { type: 'string', format: 'date-time', description: 'Unfilled syndicates are refunded after this' },
+          targetAmount: { type: 'number', description: 'Amount to raise in HBAR (defaults to the invoice amount)' },
+          minTrancheAmount: { type: 'number', description: 'Smallest tranche accepted in HBAR' },
+          nftSerialNumber: { type: 'number' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const input = OpenSyndicateSchema.parse(request.body);
+    const syndicate = await syndicationService.openSyndicate({
+      ...input,
+      requester: request.walletUser!
+    });
+
+    return reply.status(201).send({ success: true, data: syndicate });
+  });
+
+  /**
+   * GET /api/syndicates/invoice/:invoiceId
+   * Get the syndicate of an invoice with its tranches
+   */
+  fastify.get('/invoice/:invoiceId', {
+    preHandler: [walletJwtGuard],
+    schema: {
+      description: 'Get the funding syndicate of an invoice',
+      tags: ['syndicates'],
+      params: {
+        type: 'object',
+        required: ['invoiceId'],
+        properties: {
+          invoiceId: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { invoiceId } = InvoiceIdParamsSchema.parse(request.params);
+    const syndicate = await syndicationService.getSyndicateByInvoice(invoiceId);
+
+    return reply.send({ success: true, data: syndicate });
+  });
+
+  /**
+   * GET /api/syndicates/:id
+   * Get a syndicate with its tranches and remaining capacity
+   */
+  fastify.get('/:id', {
+    preHandler: [walletJwtGuard],
+    schema: {
+      description: 'Get a funding syndicate',
+      tags: ['syndicates'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = SyndicateIdParamsSchema.parse(request.params);
+    const syndicate = await syndicationService.getSyndicate(id);
+
+    return reply.send({ success: true, data: syndicate });
+  });
+
+  /**
+   * POST /api/syndicates/:id/tranches
+   * Commit a tranche to an open syndicate
+   */
+  fastify.post('/:id/tranches', {
+    preHandler: [walletJwtGuard, walletInvestorGuard],
+    schema: {
+      description: 'Commit a tranche (rejected if it would over-subscribe the target)',
+      tags: ['syndicates'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      },
+      body: {
+        type: 'object',
+        required: ['amount'],
+        properties: {
+          amount: { type: 'number', description: 'Tranche amount in HBAR' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = SyndicateIdParamsSchema.parse(request.params);
+    const input = CommitTrancheSchema.parse(request.body);
+    const result = await syndicationService.commitTranche({
+      syndicateId: id,
+      investorAccountId: request.walletUser!.accountId,
+      amount: input.amount
+    });
+
+    return reply.status(201).send({ success: true, data: result });
+  });
+
+  /**
+   * POST /api/syndicates/:id/release
+   * Release a filled syndicate to the supplier
+   */
+  fastify.post('/:id/release', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Release a filled syndicate; payout and fee are split pro-rata across tranches',
+      tags: ['syndicates'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = SyndicateIdParamsSchema.parse(request.params);
+    const result = await syndicationService.releaseSyndicate(id);
+
+    return reply.send({ success: true, data: result });
+  });
+
+  /**
+   * POST /api/syndicates/:id/refund
+   * Refund every tranche of a syndicate
+   */
+  fastify.post('/:id/refund', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Refund every tranche of an open or filled syndicate and cancel its invoice',
+      tags: ['syndicates'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      },
+      body: {
+        type: 'object',
+        properties: {
+          reason: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = SyndicateIdParamsSchema.parse(request.params);
+    const { reason } = RefundSyndicateSchema.parse(request.body ?? {});
+    const result = await syndicationService.refundSyndicate(id, reason);
+
+    return reply.send({ success: true, data: result });
+  });
+}
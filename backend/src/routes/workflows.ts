@@ -0,0 +1,204 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { workflowTemplatesService, EVIDENCE_FIELDS } from '../services/workflowTemplatesService';
+import { walletJwtGuard, walletAdminGuard } from '../middleware/auth.middleware';
+
+// Validation schemas
+const CreateWorkflowTemplateSchema = z.object({
+  name: z.string().min(1, 'Template name is required').max(100),
+  description: z.string().optional(),
+  initialState: z.string().min(1, 'Initial state is required'),
+  states: z.array(z.string().min(1)).min(1, 'At least one state is required'),
+  transitions: z.record(z.array(z.string().min(1))),
+  requiredEvidence: z.record(z.array(z.enum(EVIDENCE_FIELDS))).optional()
+});
+
+const AssignWorkflowSchema = z.object({
+  templateId: z.string().min(1, 'Template ID is required'),
+  invoiceId: z.string().min(1).optional(),
+  supplierId: z.string().min(1).optional()
+});
+
+const ListTemplatesQuerySchema = z.object({
+  name: z.string().optional(),
+  includeInactive: z.string().transform(val => val === 'true').optional()
+});
+
+const ResolveWorkflowQuerySchema = z.object({
+  tokenId: z.string().min(1),
+  serial: z.string().min(1)
+});
+
+const TemplateIdParamsSchema = z.object({
+  id: z.string().min(1)
+});
+
+/**
+ * Workflow template routes
+ * Admin API for creating and versioning milestone workflows and assigning
+ * them to invoices or suppliers
+ */
+export async function workflowRoutes(fastify: FastifyInstance) {
+  /**
+   * GET /api/workflows
+   * List workflow templates (latest versions first)
+   */
+  fastify.get('/', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'List workflow templates',
+      tags: ['workflows'],
+      querystring: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Filter by template name' },
+          includeInactive: { type: 'string', enum: ['true', 'false'], description: 'Include deactivated versions' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const query = ListTemplatesQuerySchema.parse(request.query);
+    const templates = await workflowTemplatesService.listTemplates(query);
+
+    return reply.send({ success: true, data: templates });
+  });
+
+  /**
+   * GET /api/workflows/resolve
+   * Get the workflow that governs a deal
+   */
+  fastify.get('/resolve', {
+    preHandler: [walletJwtGuard],
+    schema: {
+      description: 'Resolve the workflow assigned to an invoice NFT',
+      tags: ['workflows'],
+      querystring: {
+        type: 'object',
+        required: ['tokenId', 'serial'],
+        properties: {
+          tokenId: { type: 'string', description: 'NFT Token ID' },
+          serial: { type: 'string', description: 'NFT Serial Number' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { tokenId, serial } = ResolveWorkflowQuerySchema.parse(request.query);
+    const workflow = await workflowTemplatesService.resolveWorkflowForToken(tokenId, serial);
+
+    return reply.send({ success: true, data: workflow });
+  });
+
+  /**
+   * GET /api/workflows/:id
+   * Get a workflow template version
+   */
+  fastify.get('/:id', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Get a workflow template',
+      tags: ['workflows'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = TemplateIdParamsSchema.parse(request.params);
+    const template = await workflowTemplatesService.getTemplate(id);
+
+    return reply.send({ success: true, data: template });
+  });
+
+  /**
+   * POST /api/workflows
+   * Create a workflow template, or a new version of an existing one
+   */
+  fastify.post('/', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Create a workflow template (reusing a name creates the next version)',
+      tags: ['workflows'],
+      body: {
+        type: 'object',
+        required: ['name', 'initialState', 'states', 'transitions'],
+        properties: {
+          name: { type: 'string', description: 'Template name' },
+          description: { type: 'string' },
+          initialState: { type: 'string', description: 'First milestone of the workflow' },
+          states: { type: 'array', items: { type: 'string' } },
+          transitions: {
+            type: 'object',
+            description: 'Map of state to the states allowed after it',
+            additionalProperties: { type: 'array', items: { type: 'string' } }
+          },
+          requiredEvidence: {
+            type: 'object',
+            description: 'Map of state to required evidence fields',
+            additionalProperties: { type: 'array', items: { type: 'string', enum: [...EVIDENCE_FIELDS] } }
+          }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const input = CreateWorkflowTemplateSchema.parse(request.body);
+    const template = await workflowTemplatesService.createTemplate({
+      ...input,
+      createdBy: request.walletUser?.accountId
+    });
+
+    return reply.status(201).send({ success: true, data: template });
+  });
+
+  /**
+   * POST /api/workflows/:id/deactivate
+   * Deactivate a template version
+   */
+  fastify.post('/:id/deactivate', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Deactivate a workflow template version',
+      tags: ['workflows'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = TemplateIdParamsSchema.parse(request.params);
+    const template = await workflowTemplatesService.deactivateTemplate(id);
+
+    return reply.send({ success: true, data: template });
+  });
+
+  /**
+   * POST /api/workflows/assignments
+   * Assign a template version to an invoice or supplier
+   */
+  fastify.post('/assignments', {
+    preHandler: [walletJwtGuard, walletAdminGuard],
+    schema: {
+      description: 'Assign a workflow template to an invoice or supplier',
+      tags: ['workflows'],
+      body: {
+        type: 'object',
+        required: ['templateId'],
+        properties: {
+          templateId: { type: 'string' },
+          invoiceId: { type: 'string' },
+          supplierId: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const input = AssignWorkflowSchema.parse(request.body);
+    const assignment = await workflowTemplatesService.assignTemplate(input);
+
+    return reply.status(201).send({ success: true, data: assignment });
+  });
+}
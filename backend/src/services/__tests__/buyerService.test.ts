@@ -0,0 +1,215 @@
+import { createHash } from 'crypto';
+import { BuyerService } from '../buyerService';
+import { invoiceService, InvoiceEventType } from '../invoices';
+import { outboxService, OutboxAction } from '../outboxService';
+import { getAccountPublicKey, verifyPublicKeySignature, createAcknowledgementMessage } from '../../utils/signatureVerification';
+import { AuthorizationError, ConflictError, ValidationError } from '../../middleware/errorHandler';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma: any = {
+    buyer: {
+      findUnique: jest.fn(),
+      create: jest.fn()
+    },
+    invoice: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn()
+    },
+    invoiceAcknowledgement: {
+      create: jest.fn()
+    }
+  };
+  prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+jest.mock('../../utils/signatureVerification', () => ({
+  ...jest.requireActual('../../utils/signatureVerification'),
+  getAccountPublicKey: jest.fn(),
+  verifyPublicKeySignature: jest.fn()
+}));
+
+jest.mock('../invoices', () => ({
+  ...jest.requireActual('../invoices'),
+  invoiceService: {
+    addInvoiceEvent: jest.fn()
+  }
+}));
+
+jest.mock('../documentStoreService', () => ({
+  documentStoreService: {}
+}));
+
+jest.mock('../outboxService', () => ({
+  ...jest.requireActual('../outboxService'),
+  outboxService: {
+    enqueue: jest.fn(),
+    dispatchAggregate: jest.fn()
+  }
+}));
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+const mockGetPublicKey = getAccountPublicKey as jest.MockedFunction<typeof getAccountPublicKey>;
+const mockVerifySignature = verifyPublicKeySignature as jest.MockedFunction<typeof verifyPublicKeySignature>;
+const mockInvoices = invoiceService as jest.Mocked<typeof invoiceService>;
+const mockOutbox = outboxService as jest.Mocked<typeof outboxService>;
+
+const NOW = new Date('2024-01-01T00:00:00Z');
+const NONCE = (NOW.getTime() - 60 * 1000).toString();
+const BUYER_KEY = '302a300506032b6570032100' + 'ab'.repeat(32);
+
+const buyerRow = (overrides: Record<string, any> = {}) => ({
+  id: 'buyer-1',
+  name: 'Acme Retail',
+  accountId: '0.0.3003',
+  ...overrides
+});
+
+const invoiceRow = (overrides: Record<string, any> = {}) => ({
+  id: 'inv-1',
+  invoiceNumber: 'INV-001',
+  supplierId: 'supplier-1',
+  buyerId: 'buyer-1',
+  amount: 1000,
+  currency: 'HBAR',
+  status: 'ISSUED',
+  dueDate: new Date('2024-03-01T00:00:00Z'),
+  fileHash: 'abc123',
+  topicId: '0.0.5000',
+  acknowledgement: null,
+  ...overrides
+});
+
+describe('BuyerService', () => {
+  let service: BuyerService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env['HEDERA_INVOICE_TOPIC_ID'];
+    service = new BuyerService();
+
+    mockPrisma.buyer.findUnique.mockResolvedValue(buyerRow());
+    mockPrisma.invoice.findUnique.mockResolvedValue(invoiceRow());
+    mockPrisma.invoiceAcknowledgement.create.mockImplementation(async ({ data }: any) => ({ id: 'ack-1', ...data }));
+    mockInvoices.addInvoiceEvent.mockResolvedValue({ id: 'event-1' } as any);
+    mockGetPublicKey.mockResolvedValue(BUYER_KEY);
+    mockVerifySignature.mockReturnValue(true);
+  });
+
+  describe('createBuyer', () => {
+    it('should register a buyer with its Hedera account', async () => {
+      mockPrisma.buyer.findUnique.mockResolvedValue(null);
+      mockPrisma.buyer.create.mockImplementation(async ({ data }: any) => ({ id: 'buyer-1', ...data }));
+
+      const buyer = await service.createBuyer({ name: 'Acme Retail', accountId: '0.0.3003' });
+
+      expect(buyer).toMatchObject({ id: 'buyer-1', accountId: '0.0.3003' });
+    });
+
+    it('should reject accounts that are not Hedera account IDs', async () => {
+      await expect(service.createBuyer({ name: 'Acme Retail', accountId: 'acme' })).rejects.toThrow(ValidationError);
+      expect(mockPrisma.buyer.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject accounts already registered to a buyer', async () => {
+      await expect(service.createBuyer({ name: 'Acme Again', accountId: '0.0.3003' })).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('prepareAcknowledgement', () => {
+    it('should return the invoice terms message for the buyer to sign', async () => {
+      const challenge = await service.prepareAcknowledgement('inv-1', '0.0.3003', NOW);
+
+      expect(challenge.nonce).toBe(NOW.getTime().toString());
+      expect(challenge.message).toContain('Invoice: INV-001');
+      expect(challenge.message).toContain('Amount: 1000 HBAR');
+      expect(challenge.message).toContain('Document: abc123');
+      expect(challenge.message).toContain('Account: 0.0.3003');
+    });
+
+    it('should only let the invoice\'s buyer acknowledge it', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoiceRow({ buyerId: 'buyer-2' }));
+
+      await expect(service.prepareAcknowledgement('inv-1', '0.0.3003', NOW)).rejects.toThrow(AuthorizationError);
+    });
+  });
+
+  describe('acknowledgeInvoice', () => {
+    const input = { invoiceId: 'inv-1', accountId: '0.0.3003', signature: 'c2lnbmF0dXJl', nonce: NONCE };
+
+    it('should verify the signature, flag the invoice and record the acknowledgement on HCS', async () => {
+      const acknowledgement = await service.acknowledgeInvoice(input, NOW);
+
+      const message = createAcknowledgementMessage(NONCE, '0.0.3003', invoiceRow());
+      const messageHash = createHash('sha256').update(message).digest('hex');
+      expect(mockGetPublicKey).toHaveBeenCalledWith('0.0.3003');
+      expect(mockVerifySignature).toHaveBeenCalledWith(BUYER_KEY, message, 'c2lnbmF0dXJl');
+      expect(acknowledgement).toMatchObject({ invoiceId: 'inv-1', buyerId: 'buyer-1', messageHash, topicId: '0.0.5000' });
+      expect(mockPrisma.invoice.update).toHaveBeenCalledWith({ where: { id: 'inv-1' }, data: { buyerAcknowledgedAt: NOW } });
+      expect(mockInvoices.addInvoiceEvent).toHaveBeenCalledWith(
+        'inv-1', InvoiceEventType.BUYER_ACKNOWLEDGED, expect.any(String), expect.objectContaining({ messageHash }),
+        undefined, NOW, undefined, mockPrisma
+      );
+      expect(mockOutbox.enqueue).toHaveBeenCalledWith(mockPrisma, expect.objectContaining({
+        action: OutboxAction.HCS_MESSAGE,
+        aggregateId: 'inv-1',
+        idempotencyKey: 'hcs:buyer-acknowledged:inv-1',
+        payload: expect.objectContaining({
+          topicId: '0.0.5000',
+          message: expect.objectContaining({ eventType: 'BUYER_ACKNOWLEDGED', signature: 'c2lnbmF0dXJl', buyerPublicKey: BUYER_KEY, messageHash }),
+          invoiceEventId: 'event-1'
+        })
+      }));
+      expect(mockOutbox.dispatchAggregate).toHaveBeenCalledWith('inv-1');
+    });
+
+    it('should fall back to the invoice topic when the invoice has none of its own', async () => {
+      process.env['HEDERA_INVOICE_TOPIC_ID'] = '0.0.4567890';
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoiceRow({ topicId: null }));
+
+      const acknowledgement = await service.acknowledgeInvoice(input, NOW);
+
+      expect(acknowledgement.topicId).toBe('0.0.4567890');
+    });
+
+    it('should reject invalid signatures', async () => {
+      mockVerifySignature.mockReturnValue(false);
+
+      await expect(service.acknowledgeInvoice(input, NOW)).rejects.toThrow('Signature verification failed');
+      expect(mockPrisma.invoiceAcknowledgement.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject buyers whose account key cannot be resolved', async () => {
+      mockGetPublicKey.mockResolvedValue(null);
+
+      await expect(service.acknowledgeInvoice(input, NOW)).rejects.toThrow('No public key found for buyer account');
+      expect(mockVerifySignature).not.toHaveBeenCalled();
+      expect(mockPrisma.invoiceAcknowledgement.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired nonces', async () => {
+      const stale = (NOW.getTime() - 6 * 60 * 1000).toString();
+
+      await expect(service.acknowledgeInvoice({ ...input, nonce: stale }, NOW)).rejects.toThrow('Acknowledgement nonce has expired');
+      expect(mockVerifySignature).not.toHaveBeenCalled();
+    });
+
+    it('should reject invoices already acknowledged', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoiceRow({ acknowledgement: { id: 'ack-0' } }));
+
+      await expect(service.acknowledgeInvoice(input, NOW)).rejects.toThrow('Invoice is already acknowledged');
+    });
+  });
+});
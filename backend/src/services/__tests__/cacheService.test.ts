@@ -0,0 +1,177 @@
+import { Cache, LruCacheStore, RedisCacheStore, RedisCacheClient } from '../cacheService';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+/**
+ * In-process stand-in for the Redis commands the cache store uses
+ */
+class FakeRedisCacheClient implements RedisCacheClient {
+  strings: Map<string, string> = new Map();
+  sets: Map<string, Set<string>> = new Map();
+
+  async get(key: string) {
+    return this.strings.get(key) ?? null;
+  }
+
+  async set(key: string, value: string) {
+    this.strings.set(key, value);
+    return 'OK';
+  }
+
+  async del(...keys: string[]) {
+    return keys.filter(key => this.strings.delete(key) || this.sets.delete(key)).length;
+  }
+
+  async sadd(key: string, ...members: string[]) {
+    if (!this.sets.has(key)) this.sets.set(key, new Set());
+    members.forEach(member => this.sets.get(key)!.add(member));
+    return members.length;
+  }
+
+  async smembers(key: string) {
+    return [...(this.sets.get(key) || [])];
+  }
+
+  async pexpire() {
+    return 1;
+  }
+
+  async scan(_cursor: string, _match: 'MATCH', pattern: string): Promise<[string, string[]]> {
+    const prefix = pattern.replace(/\*$/, '');
+    const keys = [...this.strings.keys(), ...this.sets.keys()].filter(key => key.startsWith(prefix));
+    return ['0', keys];
+  }
+}
+
+describe('Cache', () => {
+  let store: LruCacheStore;
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    store = new LruCacheStore(3);
+  });
+
+  afterEach(() => {
+    store.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should make one call for concurrent misses on the same key', async () => {
+    const cache = new Cache('nft', store, { defaultTtl: 1000 });
+    let resolve!: (value: string) => void;
+    const factory = jest.fn(() => new Promise<string>(r => { resolve = r; }));
+
+    const results = Promise.all([
+      cache.getOrSet('nft_info:0.0.1:1', factory),
+      cache.getOrSet('nft_info:0.0.1:1', factory),
+      cache.getOrSet('nft_info:0.0.1:1', factory)
+    ]);
+    await new Promise(setImmediate);
+    resolve('nft');
+
+    expect(await results).toEqual(['nft', 'nft', 'nft']);
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(await cache.getOrSet('nft_info:0.0.1:1', factory)).toBe('nft');
+    expect(await cache.getStats()).toEqual(expect.objectContaining({ misses: 3, coalesced: 2, loads: 1, hits: 1, hitRatio: 0.25 }));
+  });
+
+  it('should not cache a failed load', async () => {
+    const cache = new Cache('nft', store, { defaultTtl: 1000 });
+
+    await expect(cache.getOrSet('key', () => Promise.reject(new Error('timeout')))).rejects.toThrow('timeout');
+    expect(await cache.getOrSet('key', async () => 'value')).toBe('value');
+    expect((await cache.getStats()).loadErrors).toBe(1);
+  });
+
+  it('should serve stale entries while one background load refreshes them', async () => {
+    const cache = new Cache('hcs', store, { defaultTtl: 1000, staleTtl: 5000 });
+    await cache.set('key', 'old');
+    now = 2000;
+    let resolve!: (value: string) => void;
+    const factory = jest.fn(() => new Promise<string>(r => { resolve = r; }));
+
+    expect(await cache.getOrSet('key', factory)).toBe('old');
+    expect(await cache.getOrSet('key', factory)).toBe('old');
+    expect(await cache.get('key')).toBeUndefined(); // stale entries are not fresh hits
+    resolve('new');
+    await new Promise(setImmediate);
+
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(await cache.getOrSet('key', factory)).toBe('new');
+    expect((await cache.getStats()).staleHits).toBe(2);
+  });
+
+  it('should reload once an entry is past its stale window', async () => {
+    const cache = new Cache('hcs', store, { defaultTtl: 1000, staleTtl: 5000 });
+    await cache.set('key', 'old');
+    now = 6001;
+
+    expect(await cache.getOrSet('key', async () => 'new')).toBe('new');
+  });
+
+  it('should invalidate every entry set with a tag', async () => {
+    const cache = new Cache('hcs', store, { defaultTtl: 1000 });
+    await cache.set('messages', 1, undefined, ['topic:0.0.5']);
+    await cache.getOrSet('timeline', async () => 2, { tags: ['topic:0.0.5', 'invoice:0.0.7:1'] });
+    await cache.set('other', 3, undefined, ['topic:0.0.6']);
+
+    expect(await cache.invalidateTag('topic:0.0.5')).toBe(2);
+    expect(await cache.keys()).toEqual(['other']);
+    expect(await cache.invalidateTag('invoice:0.0.7:1')).toBe(0);
+  });
+});
+
+describe('LruCacheStore', () => {
+  it('should evict the least recently used entry', async () => {
+    const store = new LruCacheStore(2);
+    const cache = new Cache('mirrorNode', store);
+
+    await cache.set('a', 1, undefined, ['tag']);
+    await cache.set('b', 2);
+    await cache.get('a');
+    await cache.set('c', 3);
+
+    expect(await store.keys()).toEqual(['a', 'c']);
+    expect(await cache.getStats()).toEqual(expect.objectContaining({ size: 2, maxSize: 2, evictions: 1 }));
+    store.destroy();
+  });
+});
+
+describe('RedisCacheStore', () => {
+  it('should share entries and tags between replicas', async () => {
+    const client = new FakeRedisCacheClient();
+    const first = new Cache('nft', new RedisCacheStore(client, 'cache:nft'));
+    const second = new Cache('nft', new RedisCacheStore(client, 'cache:nft'));
+    const factory = jest.fn(async () => ({ serial_number: 1 }));
+
+    await first.getOrSet('nft_info:0.0.7:1', factory, { tags: ['invoice:0.0.7:1'] });
+    expect(await second.getOrSet('nft_info:0.0.7:1', factory)).toEqual({ serial_number: 1 });
+    expect(factory).toHaveBeenCalledTimes(1);
+
+    expect(await second.invalidateTag('invoice:0.0.7:1')).toBe(1);
+    expect(await first.has('nft_info:0.0.7:1')).toBe(false);
+  });
+
+  it('should clear only its own prefix', async () => {
+    const client = new FakeRedisCacheClient();
+    const nft = new Cache('nft', new RedisCacheStore(client, 'cache:nft'));
+    const hcs = new Cache('hcs', new RedisCacheStore(client, 'cache:hcs'));
+    await nft.set('a', 1, undefined, ['tag']);
+    await hcs.set('b', 2);
+
+    await nft.clear();
+
+    expect(await nft.keys()).toEqual([]);
+    expect(await hcs.keys()).toEqual(['b']);
+  });
+});
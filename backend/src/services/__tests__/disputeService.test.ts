@@ -0,0 +1,252 @@
+import { DisputeService, DisputeStatus, DisputeParty } from '../disputeService';
+import { contractService } from '../contract';
+import { HederaService } from '../hedera';
+import { invoiceService, InvoiceEventType } from '../invoices';
+import { ledgerService } from '../ledgerService';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma = {
+    funding: {
+      findFirst: jest.fn(),
+      update: jest.fn()
+    },
+    escrowDispute: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn()
+    }
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+jest.mock('../contract', () => ({
+  contractService: {
+    raiseDispute: jest.fn(),
+    resolveDispute: jest.fn()
+  }
+}));
+
+jest.mock('../hedera', () => ({
+  HederaService: jest.fn().mockImplementation(() => ({
+    submitTopicMessage: jest.fn().mockResolvedValue({ transactionId: 'tx-hcs', sequenceNumber: '12' })
+  }))
+}));
+
+jest.mock('../invoices', () => ({
+  ...jest.requireActual('../invoices'),
+  invoiceService: {
+    addInvoiceEvent: jest.fn()
+  }
+}));
+
+jest.mock('../ledgerService', () => ({
+  ledgerService: {
+    recordRefund: jest.fn(),
+    recordDisputeLoss: jest.fn()
+  }
+}));
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+const mockHedera = (HederaService as unknown as jest.Mock).mock.results[0].value;
+const mockContract = contractService as jest.Mocked<typeof contractService>;
+const mockInvoices = invoiceService as jest.Mocked<typeof invoiceService>;
+const mockLedger = ledgerService as jest.Mocked<typeof ledgerService>;
+
+const fundingRow = (overrides: Record<string, any> = {}) => ({
+  id: 'fund-1',
+  invoiceId: 'inv-1',
+  investorId: 'investor-1',
+  amount: 1000,
+  status: 'ACTIVE',
+  escrowId: '0xescrow',
+  investor: { id: 'investor-1', accountId: '0.0.1001' },
+  invoice: {
+    id: 'inv-1',
+    invoiceNumber: 'INV-001',
+    topicId: '0.0.5000',
+    supplier: { id: 'supplier-1', accountId: '0.0.2002' }
+  },
+  ...overrides
+});
+
+const openDispute = (overrides: Record<string, any> = {}) => ({
+  id: 'dispute-1',
+  fundingId: 'fund-1',
+  status: DisputeStatus.OPEN,
+  ...overrides
+});
+
+describe('DisputeService', () => {
+  let service: DisputeService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env['AUDIT_TOPIC_ID'];
+    service = new DisputeService();
+
+    mockPrisma.funding.findFirst.mockResolvedValue(fundingRow());
+    mockPrisma.escrowDispute.create.mockImplementation(async ({ data }: any) => ({ id: 'dispute-1', ...data }));
+    mockPrisma.escrowDispute.update.mockImplementation(async ({ data }: any) => ({ id: 'dispute-1', ...data }));
+    mockContract.raiseDispute.mockResolvedValue({ escrowId: '0xescrow', transactionHash: '0xraise', status: 'confirmed' });
+    mockContract.resolveDispute.mockResolvedValue({
+      escrowId: '0xescrow',
+      transactionHash: '0xresolve',
+      status: 'confirmed',
+      investorAmount: '600.0',
+      supplierAmount: '390.0',
+      fee: '10.0'
+    });
+  });
+
+  describe('raiseDispute', () => {
+    it('should freeze the escrow and record the supplier as the raising party', async () => {
+      mockPrisma.escrowDispute.findFirst.mockResolvedValue(null);
+
+      const dispute = await service.raiseDispute({ escrowId: '0xescrow', accountId: '0.0.2002', reason: 'Short delivery' });
+
+      expect(mockContract.raiseDispute).toHaveBeenCalledWith('inv-1', 'Short delivery');
+      expect(mockPrisma.escrowDispute.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ fundingId: 'fund-1', raisedByRole: DisputeParty.SUPPLIER, raiseTransactionHash: '0xraise' })
+      });
+      expect(mockPrisma.funding.update).toHaveBeenCalledWith({ where: { id: 'fund-1' }, data: { status: 'DISPUTED' } });
+      expect(mockInvoices.addInvoiceEvent).toHaveBeenCalledWith(
+        'inv-1', InvoiceEventType.DISPUTE_RAISED, expect.any(String), expect.any(Object), '12', expect.any(Date), '0xraise'
+      );
+      expect(dispute.raiseHcsSequence).toBe('12');
+    });
+
+    it('should publish to the audit topic in the shape the settlement audit page reads', async () => {
+      process.env['AUDIT_TOPIC_ID'] = '0.0.9000';
+      mockPrisma.escrowDispute.findFirst.mockResolvedValue(null);
+
+      await service.raiseDispute({ escrowId: '0xescrow', accountId: '0.0.1001', reason: 'Wrong amount' });
+
+      expect(mockHedera.submitTopicMessage).toHaveBeenCalledTimes(2);
+      expect(mockHedera.submitTopicMessage).toHaveBeenCalledWith('0.0.9000', expect.objectContaining({
+        action: 'Dispute Raised',
+        actor: '0.0.1001',
+        transactionId: '0xraise',
+        status: 'success',
+        raisedByRole: DisputeParty.INVESTOR
+      }));
+    });
+
+    it('should reject parties other than the investor and supplier', async () => {
+      await expect(service.raiseDispute({ escrowId: '0xescrow', accountId: '0.0.3003', reason: 'Nope' }))
+        .rejects.toThrow('Only the investor or supplier of this escrow can raise a dispute');
+      expect(mockContract.raiseDispute).not.toHaveBeenCalled();
+    });
+
+    it('should let the buyer of a sold position dispute in place of the original investor', async () => {
+      mockPrisma.escrowDispute.findFirst.mockResolvedValue(null);
+      mockPrisma.funding.findFirst.mockResolvedValue(fundingRow({ holder: { id: 'buyer-1', accountId: '0.0.3003' } }));
+
+      await service.raiseDispute({ escrowId: '0xescrow', accountId: '0.0.3003', reason: 'Goods never shipped' });
+
+      expect(mockPrisma.escrowDispute.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ raisedByRole: DisputeParty.INVESTOR })
+      });
+      await expect(service.raiseDispute({ escrowId: '0xescrow', accountId: '0.0.1001', reason: 'Sold already' }))
+        .rejects.toThrow('Only the investor or supplier of this escrow can raise a dispute');
+    });
+
+    it('should reject escrows that are no longer active', async () => {
+      mockPrisma.funding.findFirst.mockResolvedValue(fundingRow({ status: 'RELEASED' }));
+
+      await expect(service.raiseDispute({ escrowId: '0xescrow', accountId: '0.0.1001', reason: 'Late' }))
+        .rejects.toThrow('Escrow cannot be disputed in status RELEASED');
+    });
+
+    it('should reject unknown escrows', async () => {
+      mockPrisma.funding.findFirst.mockResolvedValue(null);
+
+      await expect(service.raiseDispute({ escrowId: '0xmissing', accountId: '0.0.1001', reason: 'Late' }))
+        .rejects.toThrow('Escrow not found');
+    });
+  });
+
+  describe('resolveDispute', () => {
+    it('should refund the investor share and write off the rest as the investor loss', async () => {
+      mockPrisma.escrowDispute.findFirst.mockResolvedValue(openDispute());
+
+      const dispute = await service.resolveDispute({ escrowId: '0xescrow', accountId: '0.0.4004', investorShareBps: 6000 });
+
+      expect(mockContract.resolveDispute).toHaveBeenCalledWith('inv-1', 6000);
+      expect(mockPrisma.escrowDispute.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: DisputeStatus.RESOLVED, investorAmount: 600, supplierAmount: 390, fee: 10 })
+      }));
+      expect(mockPrisma.funding.update).toHaveBeenCalledWith({
+        where: { id: 'fund-1' },
+        data: expect.objectContaining({ status: 'RELEASED', releaseTransactionHash: '0xresolve' })
+      });
+      expect(mockLedger.recordRefund).toHaveBeenCalledWith(expect.objectContaining({ id: 'fund-1' }), '0xresolve', expect.any(Date), 600);
+      expect(mockLedger.recordDisputeLoss).toHaveBeenCalledWith(expect.objectContaining({ id: 'fund-1' }), '0xresolve', expect.any(Date));
+      expect(dispute.resolveHcsSequence).toBe('12');
+    });
+
+    it('should mark the funding refunded when the investor gets everything', async () => {
+      mockPrisma.escrowDispute.findFirst.mockResolvedValue(openDispute());
+      mockContract.resolveDispute.mockResolvedValue({
+        escrowId: '0xescrow', transactionHash: '0xresolve', status: 'confirmed', investorAmount: '1000.0', supplierAmount: '0.0', fee: '0.0'
+      });
+
+      await service.resolveDispute({ escrowId: '0xescrow', accountId: '0.0.4004', investorShareBps: 10000 });
+
+      expect(mockPrisma.funding.update).toHaveBeenCalledWith({
+        where: { id: 'fund-1' },
+        data: expect.objectContaining({ status: 'REFUNDED', refundTransactionHash: '0xresolve' })
+      });
+      expect(mockLedger.recordDisputeLoss).not.toHaveBeenCalled();
+    });
+
+    it('should refund half and write off half of a 50/50 split', async () => {
+      mockPrisma.escrowDispute.findFirst.mockResolvedValue(openDispute());
+      mockContract.resolveDispute.mockResolvedValue({
+        escrowId: '0xescrow', transactionHash: '0xresolve', status: 'confirmed', investorAmount: '500.0', supplierAmount: '490.0', fee: '10.0'
+      });
+
+      await service.resolveDispute({ escrowId: '0xescrow', accountId: '0.0.4004', investorShareBps: 5000 });
+
+      expect(mockLedger.recordRefund).toHaveBeenCalledWith(expect.objectContaining({ id: 'fund-1' }), '0xresolve', expect.any(Date), 500);
+      expect(mockLedger.recordDisputeLoss).toHaveBeenCalledWith(expect.objectContaining({ id: 'fund-1' }), '0xresolve', expect.any(Date));
+      expect(mockLedger.recordRefund.mock.invocationCallOrder[0])
+        .toBeLessThan(mockLedger.recordDisputeLoss.mock.invocationCallOrder[0]);
+    });
+
+    it('should still resolve when the ledger posting fails', async () => {
+      mockPrisma.escrowDispute.findFirst.mockResolvedValue(openDispute());
+      mockLedger.recordRefund.mockRejectedValueOnce(new Error('ledger down'));
+
+      await expect(service.resolveDispute({ escrowId: '0xescrow', accountId: '0.0.4004', investorShareBps: 6000 }))
+        .resolves.toBeDefined();
+      expect(mockInvoices.addInvoiceEvent).toHaveBeenCalledWith(
+        'inv-1', InvoiceEventType.DISPUTE_RESOLVED, expect.any(String), expect.any(Object), '12', expect.any(Date), '0xresolve'
+      );
+    });
+
+    it('should reject shares outside 0-10000 basis points', async () => {
+      await expect(service.resolveDispute({ escrowId: '0xescrow', accountId: '0.0.4004', investorShareBps: 10001 }))
+        .rejects.toThrow('Investor share must be an integer between 0 and 10000 basis points');
+      expect(mockContract.resolveDispute).not.toHaveBeenCalled();
+    });
+
+    it('should reject escrows without an open dispute', async () => {
+      mockPrisma.escrowDispute.findFirst.mockResolvedValue(null);
+
+      await expect(service.resolveDispute({ escrowId: '0xescrow', accountId: '0.0.4004', investorShareBps: 5000 }))
+        .rejects.toThrow('Escrow has no open dispute');
+    });
+  });
+});
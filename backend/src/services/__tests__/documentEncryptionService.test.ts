@@ -0,0 +1,167 @@
+import { DocumentEncryptionService, DocumentKeyRole, ADMIN_RECIPIENT } from '../documentEncryptionService';
+import { AuthenticationError, AuthorizationError, ValidationError } from '../../middleware/errorHandler';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma = {
+    invoice: {
+      findUnique: jest.fn()
+    },
+    documentKey: {
+      upsert: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn()
+    }
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+
+const MASTER_KEY = '11'.repeat(32);
+const PDF = Buffer.from('%PDF-1.4 invoice INV-0042 for 1,234.50 USD');
+
+describe('DocumentEncryptionService', () => {
+  let service: DocumentEncryptionService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new DocumentEncryptionService({ enabled: true, masterKey: MASTER_KEY });
+  });
+
+  describe('encrypt', () => {
+    it('should round-trip a document under its data key', () => {
+      const sealed = service.encrypt(PDF);
+
+      expect(sealed.ciphertext.includes(PDF)).toBe(false);
+      expect(service.isEncrypted(sealed.ciphertext)).toBe(true);
+      expect(sealed.ciphertextHash).toMatch(/^[0-9a-f]{96}$/);
+      expect(service.decrypt(sealed.ciphertext, sealed.dataKey)).toEqual(PDF);
+    });
+
+    it('should detect an altered file', () => {
+      const sealed = service.encrypt(PDF);
+      sealed.ciphertext[sealed.ciphertext.length - 1] ^= 1;
+
+      expect(() => service.decrypt(sealed.ciphertext, sealed.dataKey)).toThrow('Document failed decryption');
+    });
+
+    it('should refuse plaintext files', () => {
+      expect(() => service.decrypt(PDF, Buffer.alloc(32))).toThrow(ValidationError);
+    });
+  });
+
+  describe('wrapKey', () => {
+    it('should only unwrap for the recipient and file it was wrapped for', () => {
+      const { dataKey } = service.encrypt(PDF);
+      const wrapped = service.wrapKey(dataKey, '0.0.5001', 'investor-1');
+
+      expect(service.unwrapKey(wrapped, '0.0.5001', 'investor-1')).toEqual(dataKey);
+      expect(() => service.unwrapKey(wrapped, '0.0.5001', 'investor-2')).toThrow();
+      expect(() => service.unwrapKey(wrapped, '0.0.5002', 'investor-1')).toThrow();
+    });
+
+    it('should not unwrap under another master key', () => {
+      const { dataKey } = service.encrypt(PDF);
+      const wrapped = service.wrapKey(dataKey, '0.0.5001', 'investor-1');
+      const other = new DocumentEncryptionService({ enabled: true, masterKey: '22'.repeat(32) });
+
+      expect(() => other.unwrapKey(wrapped, '0.0.5001', 'investor-1')).toThrow();
+    });
+  });
+
+  describe('storeKeys', () => {
+    it('should wrap the data key for the supplier, agent, investors and admins', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue({
+        supplierId: 'supplier-1',
+        agentId: 'agent-1',
+        fundings: [
+          { investorId: 'investor-1', holderId: null },
+          { investorId: 'investor-2', holderId: 'investor-3' }
+        ]
+      });
+      const { dataKey } = service.encrypt(PDF);
+
+      const stored = await service.storeKeys('0.0.5001', 'inv-1', dataKey);
+
+      expect(stored).toBe(6);
+      const keys = mockPrisma.documentKey.upsert.mock.calls.map(([args]: any) => args.create);
+      expect(keys.map((key: any) => [key.recipientId, key.role])).toEqual([
+        ['supplier-1', DocumentKeyRole.SUPPLIER],
+        ['agent-1', DocumentKeyRole.AGENT],
+        ['investor-1', DocumentKeyRole.INVESTOR],
+        ['investor-2', DocumentKeyRole.INVESTOR],
+        ['investor-3', DocumentKeyRole.INVESTOR],
+        [ADMIN_RECIPIENT, DocumentKeyRole.ADMIN]
+      ]);
+      expect(service.unwrapKey(keys[2].wrappedKey, '0.0.5001', 'investor-1')).toEqual(dataKey);
+    });
+  });
+
+  describe('grantInvoiceAccess', () => {
+    it('should wrap every file key of the invoice for a new investor', async () => {
+      const { dataKey } = service.encrypt(PDF);
+      mockPrisma.documentKey.findMany.mockResolvedValue([
+        { fileId: '0.0.5001', recipientId: ADMIN_RECIPIENT, wrappedKey: service.wrapKey(dataKey, '0.0.5001', ADMIN_RECIPIENT) }
+      ]);
+
+      const granted = await service.grantInvoiceAccess('inv-1', 'investor-9', DocumentKeyRole.INVESTOR);
+
+      expect(granted).toBe(1);
+      const [{ where, create }] = mockPrisma.documentKey.upsert.mock.calls[0];
+      expect(where).toEqual({ fileId_recipientId: { fileId: '0.0.5001', recipientId: 'investor-9' } });
+      expect(service.unwrapKey(create.wrappedKey, '0.0.5001', 'investor-9')).toEqual(dataKey);
+    });
+  });
+
+  describe('openForReader', () => {
+    it('should decrypt for a reader holding a key', async () => {
+      const sealed = service.encrypt(PDF);
+      mockPrisma.documentKey.findFirst.mockResolvedValue({
+        recipientId: 'investor-1',
+        wrappedKey: service.wrapKey(sealed.dataKey, '0.0.5001', 'investor-1')
+      });
+
+      const content = await service.openForReader('0.0.5001', sealed.ciphertext, { userId: 'investor-1', roles: ['INVESTOR'] });
+
+      expect(content).toEqual(PDF);
+      expect(mockPrisma.documentKey.findFirst).toHaveBeenCalledWith({
+        where: { fileId: '0.0.5001', recipientId: { in: ['investor-1'] } }
+      });
+    });
+
+    it('should read through the admin grant for administrators', async () => {
+      const sealed = service.encrypt(PDF);
+      mockPrisma.documentKey.findFirst.mockResolvedValue({
+        recipientId: ADMIN_RECIPIENT,
+        wrappedKey: service.wrapKey(sealed.dataKey, '0.0.5001', ADMIN_RECIPIENT)
+      });
+
+      const content = await service.openForReader('0.0.5001', sealed.ciphertext, { userId: null, roles: ['ADMIN'] });
+
+      expect(content).toEqual(PDF);
+    });
+
+    it('should require a signed-in reader', async () => {
+      await expect(service.openForReader('0.0.5001', Buffer.alloc(0), null)).rejects.toThrow(AuthenticationError);
+    });
+
+    it('should refuse readers without a key', async () => {
+      mockPrisma.documentKey.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.openForReader('0.0.5001', Buffer.alloc(0), { userId: 'investor-2', roles: ['INVESTOR'] })
+      ).rejects.toThrow(AuthorizationError);
+    });
+  });
+});
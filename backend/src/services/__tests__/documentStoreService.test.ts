@@ -0,0 +1,307 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import {
+  DocumentStoreService,
+  DocumentStorageBackend,
+  LocalDocumentStore,
+  S3DocumentStore
+} from '../documentStoreService';
+import { hederaFileService } from '../hederaFileService';
+import { outboxService } from '../outboxService';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma = {
+    document: {
+      count: jest.fn()
+    }
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+jest.mock('../hederaFileService', () => ({
+  hederaFileService: {
+    uploadFile: jest.fn(),
+    downloadFile: jest.fn(),
+    deleteFile: jest.fn()
+  }
+}));
+
+jest.mock('../outboxService', () => ({
+  OutboxAction: { HCS_MESSAGE: 'HCS_MESSAGE' },
+  outboxService: {
+    enqueue: jest.fn()
+  }
+}));
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+const mockFiles = hederaFileService as jest.Mocked<typeof hederaFileService>;
+const mockOutbox = outboxService as jest.Mocked<typeof outboxService>;
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+const sha256 = (content: Buffer) => createHash('sha256').update(content).digest('hex');
+
+const PHOTO = Buffer.alloc(4096, 'p');
+const PHOTO_HASH = sha256(PHOTO);
+
+/**
+ * Stand-in for an S3-compatible server such as MinIO: keeps objects in memory
+ * and refuses requests that are unsigned or whose payload hash is wrong
+ */
+function startS3StandIn() {
+  const objects = new Map<string, Buffer>();
+  const requests: { method: string; url: string; authorization: string }[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks);
+      const authorization = String(req.headers['authorization'] ?? '');
+      requests.push({ method: req.method!, url: req.url!, authorization });
+
+      const signed = /^AWS4-HMAC-SHA256 Credential=minio\/20240601\/us-east-1\/s3\/aws4_request, SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/;
+      if (!signed.test(authorization) || req.headers['x-amz-content-sha256'] !== sha256(body)) {
+        res.statusCode = 403;
+        return res.end();
+      }
+
+      if (req.method === 'PUT') {
+        objects.set(req.url!, body);
+        res.statusCode = 200;
+        return res.end();
+      }
+      const object = objects.get(req.url!);
+      if (!object) {
+        res.statusCode = 404;
+        return res.end();
+      }
+      if (req.method === 'DELETE') {
+        objects.delete(req.url!);
+        res.statusCode = 204;
+        return res.end();
+      }
+      res.end(object);
+    });
+  });
+
+  return new Promise<{ server: http.Server; endpoint: string; objects: Map<string, Buffer>; requests: typeof requests }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, endpoint: `http://127.0.0.1:${port}`, objects, requests });
+    });
+  });
+}
+
+describe('DocumentStoreService', () => {
+  let localDir: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    localDir = await fs.mkdtemp(path.join(os.tmpdir(), 'documents-'));
+    mockPrisma.document.count.mockResolvedValue(0);
+  });
+
+  afterEach(async () => {
+    await fs.rm(localDir, { recursive: true, force: true });
+  });
+
+  describe('LocalDocumentStore', () => {
+    it('should address documents by the hash of their content', async () => {
+      const store = new LocalDocumentStore(localDir);
+
+      const stored = await store.put(PHOTO);
+      const again = await store.put(PHOTO);
+
+      expect(stored).toEqual({ backend: DocumentStorageBackend.LOCAL, uri: `local://${PHOTO_HASH}`, sha256: PHOTO_HASH, fileId: null });
+      expect(again.uri).toBe(stored.uri);
+      expect(await store.get(stored.uri)).toEqual(PHOTO);
+
+      await store.remove(stored.uri);
+      await expect(store.get(stored.uri)).rejects.toThrow();
+    });
+
+    it('should refuse addresses outside the store', async () => {
+      const store = new LocalDocumentStore(localDir);
+
+      await expect(store.get('local://../../etc/passwd')).rejects.toThrow('Invalid document address');
+    });
+  });
+
+  describe('S3DocumentStore', () => {
+    let standIn: Awaited<ReturnType<typeof startS3StandIn>>;
+    let store: S3DocumentStore;
+
+    beforeEach(async () => {
+      standIn = await startS3StandIn();
+      store = new S3DocumentStore({
+        endpoint: standIn.endpoint,
+        region: 'us-east-1',
+        bucket: 'yieldharvest',
+        accessKeyId: 'minio',
+        secretAccessKey: 'minio-secret',
+        prefix: 'documents/'
+      }, { now: () => NOW });
+    });
+
+    afterEach(done => {
+      standIn.server.close(done);
+    });
+
+    it('should put, get and delete signed objects under their content hash', async () => {
+      const stored = await store.put(PHOTO);
+
+      expect(stored.uri).toBe(`s3://yieldharvest/documents/${PHOTO_HASH}`);
+      expect(standIn.objects.get(`/yieldharvest/documents/${PHOTO_HASH}`)).toEqual(PHOTO);
+      expect(await store.get(stored.uri)).toEqual(PHOTO);
+
+      await store.remove(stored.uri);
+      expect(standIn.objects.size).toBe(0);
+      expect(standIn.requests.map(request => request.method)).toEqual(['PUT', 'GET', 'DELETE']);
+    });
+
+    it('should report failed requests', async () => {
+      await expect(store.get(`s3://yieldharvest/documents/${PHOTO_HASH}`)).rejects.toThrow('HTTP 404');
+      await expect(store.get(`s3://elsewhere/documents/${PHOTO_HASH}`)).rejects.toThrow('not in bucket yieldharvest');
+    });
+  });
+
+  describe('put', () => {
+    it('should keep small documents on HFS and move large ones off-chain', async () => {
+      mockFiles.uploadFile.mockResolvedValue({ success: true, fileId: '0.0.9100', transactionId: 'tx-hfs', hash: 'hfs-hash', size: 10 });
+      const service = new DocumentStoreService({ offChainBackend: DocumentStorageBackend.LOCAL, offChainThreshold: 1024, localDir });
+
+      const small = await service.put(Buffer.alloc(10), { filename: 'invoice.pdf', memo: 'memo' });
+      const large = await service.put(PHOTO, { filename: 'photo.png', memo: 'memo' });
+
+      expect(small).toEqual(expect.objectContaining({ backend: DocumentStorageBackend.HFS, uri: 'hfs://0.0.9100', fileId: '0.0.9100' }));
+      expect(large).toEqual(expect.objectContaining({ backend: DocumentStorageBackend.LOCAL, uri: `local://${PHOTO_HASH}`, fileId: null }));
+      expect(mockFiles.uploadFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep every document on HFS without an off-chain backend', () => {
+      const service = new DocumentStoreService({ offChainBackend: undefined, offChainThreshold: 1024 });
+
+      expect(service.backendFor(50 * 1024 * 1024)).toBe(DocumentStorageBackend.HFS);
+    });
+  });
+
+  describe('read', () => {
+    const service = () => new DocumentStoreService({ offChainBackend: DocumentStorageBackend.LOCAL, localDir });
+
+    it('should verify off-chain documents against their recorded hash', async () => {
+      const stored = await new LocalDocumentStore(localDir).put(PHOTO);
+      const document = { id: 'doc-1', invoiceId: 'inv-1', storageBackend: 'LOCAL', storageUri: stored.uri, fileId: null, hash: PHOTO_HASH, ciphertextHash: null };
+
+      expect(await service().read(document)).toEqual(PHOTO);
+
+      // Altered in place behind the store's back
+      await fs.writeFile(path.join(localDir, PHOTO_HASH.slice(0, 2), PHOTO_HASH), Buffer.alloc(4096, 'x'));
+      await expect(service().read(document)).rejects.toThrow('File integrity check failed');
+    });
+
+    it('should verify HFS documents the same way, including rows without a storage URI', async () => {
+      mockFiles.downloadFile.mockResolvedValue({ success: true, content: Buffer.from('tampered'), hash: '', size: 8 });
+      const document = { id: 'doc-2', invoiceId: 'inv-1', storageBackend: 'HFS', storageUri: null, fileId: '0.0.9200', hash: 'plain', ciphertextHash: 'sealed' };
+
+      await expect(service().read(document)).rejects.toMatchObject({ code: 'INTEGRITY_CHECK_FAILED', details: { uri: 'hfs://0.0.9200', expected: 'sealed' } });
+      expect(mockFiles.downloadFile).toHaveBeenCalledWith('0.0.9200');
+    });
+  });
+
+  describe('remove', () => {
+    it('should keep content another document still points at', async () => {
+      const stored = await new LocalDocumentStore(localDir).put(PHOTO);
+      mockPrisma.document.count.mockResolvedValue(1);
+      const service = new DocumentStoreService({ localDir });
+
+      const result = await service.remove({ id: 'doc-1', invoiceId: 'inv-1', storageBackend: 'LOCAL', storageUri: stored.uri, fileId: null, hash: PHOTO_HASH, ciphertextHash: null });
+
+      expect(result).toEqual({ success: true });
+      expect(await new LocalDocumentStore(localDir).get(stored.uri)).toEqual(PHOTO);
+    });
+  });
+
+  describe('stage', () => {
+    it('should stage content on local disk without an off-chain backend and drop it once read', async () => {
+      const service = new DocumentStoreService({ offChainBackend: undefined, localDir });
+
+      const staged = await service.stage(PHOTO, { filename: 'photo.jpg', memo: 'Invoice INV-1' });
+
+      expect(staged).toEqual({ backend: DocumentStorageBackend.LOCAL, uri: `local://${PHOTO_HASH}`, sha256: PHOTO_HASH });
+      expect(mockFiles.uploadFile).not.toHaveBeenCalled();
+      expect(await service.readStaged(staged)).toEqual(PHOTO);
+
+      await service.unstage(staged);
+      await expect(new LocalDocumentStore(localDir).get(staged.uri)).rejects.toThrow();
+    });
+
+    it('should not drop staged content a document holds', async () => {
+      const service = new DocumentStoreService({ localDir });
+      const staged = await service.stage(PHOTO, { filename: 'photo.jpg', memo: 'Invoice INV-1' });
+      mockPrisma.document.count.mockResolvedValue(1);
+
+      await service.unstage(staged);
+
+      expect(mockPrisma.document.count).toHaveBeenCalledWith({ where: { storageUri: staged.uri } });
+      expect(await service.readStaged(staged)).toEqual(PHOTO);
+    });
+  });
+
+  describe('anchor', () => {
+    it('should queue the hash and URI of off-chain documents for HCS', async () => {
+      const service = new DocumentStoreService({ anchorTopicId: '0.0.4242' }, { now: () => NOW });
+      const db = {} as any;
+
+      const anchored = await service.anchor(
+        { id: 'doc-1', invoiceId: 'inv-1', storageBackend: 'S3', storageUri: `s3://yieldharvest/documents/${PHOTO_HASH}`, fileId: null, hash: 'plain', ciphertextHash: PHOTO_HASH },
+        db
+      );
+
+      expect(anchored).toBe(true);
+      expect(mockOutbox.enqueue).toHaveBeenCalledWith(db, {
+        action: 'HCS_MESSAGE',
+        aggregateType: 'Document',
+        aggregateId: 'doc-1',
+        invoiceId: 'inv-1',
+        idempotencyKey: 'hcs:document-anchor:doc-1',
+        payload: {
+          topicId: '0.0.4242',
+          documentId: 'doc-1',
+          message: {
+            eventType: 'DOCUMENT_ANCHORED',
+            documentId: 'doc-1',
+            invoiceId: 'inv-1',
+            sha256: PHOTO_HASH,
+            storageUri: `s3://yieldharvest/documents/${PHOTO_HASH}`,
+            backend: 'S3',
+            anchoredAt: NOW.toISOString()
+          }
+        }
+      });
+    });
+
+    it('should not anchor documents already on HFS', async () => {
+      const service = new DocumentStoreService({ anchorTopicId: '0.0.4242' });
+
+      const anchored = await service.anchor({ id: 'doc-2', invoiceId: 'inv-1', storageBackend: 'HFS', storageUri: 'hfs://0.0.9200', fileId: '0.0.9200', hash: 'plain', ciphertextHash: null });
+
+      expect(anchored).toBe(false);
+      expect(mockOutbox.enqueue).not.toHaveBeenCalled();
+    });
+  });
+});
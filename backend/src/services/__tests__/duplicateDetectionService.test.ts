@@ -0,0 +1,265 @@
+import { createHash } from 'crypto';
+import {
+  DuplicateDetectionService,
+  DuplicateMatchType,
+  DuplicateFlagStatus,
+  normalizeInvoiceNumber,
+  computeFingerprint
+} from '../duplicateDetectionService';
+import { outboxService, OutboxAction } from '../outboxService';
+import { ConflictError } from '../../middleware/errorHandler';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma: any = {
+    invoice: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn()
+    },
+    document: {
+      findFirst: jest.fn(),
+      findMany: jest.fn()
+    },
+    user: {
+      findUnique: jest.fn()
+    },
+    buyer: {
+      findUnique: jest.fn()
+    },
+    duplicateFlag: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn()
+    }
+  };
+  prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+jest.mock('../documentStoreService', () => ({
+  documentStoreService: {}
+}));
+
+jest.mock('../outboxService', () => ({
+  ...jest.requireActual('../outboxService'),
+  outboxService: {
+    enqueue: jest.fn(),
+    dispatchAggregate: jest.fn()
+  }
+}));
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+const mockOutbox = outboxService as jest.Mocked<typeof outboxService>;
+
+const DUE = new Date('2024-03-01T00:00:00Z');
+
+const candidate = (overrides: Record<string, any> = {}) => ({
+  invoiceNumber: 'INV-0042',
+  supplierId: 'supplier-1',
+  buyerId: 'buyer-1',
+  amount: 1000,
+  currency: 'HBAR',
+  dueDate: DUE,
+  ...overrides
+});
+
+// Invoices found by each of the lookups screening makes
+const stored = (found: { byFile?: any[]; byFingerprint?: any[]; bySupplier?: any[] }) => {
+  mockPrisma.invoice.findMany.mockImplementation(async ({ where }: any) => {
+    if (where.fileHash) return found.byFile ?? [];
+    if (where.fingerprint) return found.byFingerprint ?? [];
+    if (where.supplierId) return found.bySupplier ?? [];
+    return [];
+  });
+};
+
+describe('normalizeInvoiceNumber', () => {
+  it('should ignore case, separators and zero padding', () => {
+    expect(normalizeInvoiceNumber('inv-0042')).toBe('INV42');
+    expect(normalizeInvoiceNumber('INV 42')).toBe('INV42');
+    expect(normalizeInvoiceNumber('INV-1000')).toBe('INV1000');
+    expect(normalizeInvoiceNumber('INV-000')).toBe('INV0');
+  });
+});
+
+describe('computeFingerprint', () => {
+  it('should not depend on the invoice number, currency case or time of day', () => {
+    const parts = { supplier: '0.0.2002', buyer: '0.0.3003', amount: 1000, currency: 'hbar', dueDate: DUE };
+
+    expect(computeFingerprint(parts)).toBe(computeFingerprint({ ...parts, currency: 'HBAR', dueDate: new Date('2024-03-01T18:00:00Z') }));
+    expect(computeFingerprint(parts)).not.toBe(computeFingerprint({ ...parts, amount: 1000.01 }));
+  });
+});
+
+describe('DuplicateDetectionService', () => {
+  let service: DuplicateDetectionService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new DuplicateDetectionService({ registryTopicId: '0.0.9100', invoiceNumberDistance: 1 });
+
+    mockPrisma.user.findUnique.mockResolvedValue({ accountId: '0.0.2002' });
+    mockPrisma.buyer.findUnique.mockResolvedValue({ accountId: '0.0.3003' });
+    mockPrisma.document.findMany.mockResolvedValue([]);
+    mockPrisma.duplicateFlag.findUnique.mockResolvedValue(null);
+    mockPrisma.duplicateFlag.findFirst.mockResolvedValue(null);
+    stored({});
+  });
+
+  describe('screenNewInvoice', () => {
+    it('should fingerprint the receivable by the parties\' Hedera accounts', async () => {
+      const screening = await service.screenNewInvoice(candidate());
+
+      expect(screening.fingerprint).toBe(computeFingerprint({ supplier: '0.0.2002', buyer: '0.0.3003', amount: 1000, currency: 'HBAR', dueDate: DUE }));
+      expect(screening.matches).toEqual([]);
+    });
+
+    it('should refuse a document already submitted with another invoice', async () => {
+      const file = Buffer.from('%PDF-1.4 invoice');
+      stored({ byFile: [{ id: 'inv-0', invoiceNumber: 'INV-0041' }] });
+
+      await expect(service.screenNewInvoice(candidate({ file }))).rejects.toThrow(ConflictError);
+      expect(mockPrisma.invoice.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          fileHash: { in: [createHash('sha384').update(file).digest('hex'), createHash('sha256').update(file).digest('hex')] }
+        })
+      }));
+    });
+
+    it('should match the same receivable under another invoice number', async () => {
+      stored({ byFingerprint: [{ id: 'inv-0', invoiceNumber: 'ACME-7' }] });
+
+      const screening = await service.screenNewInvoice(candidate());
+
+      expect(screening.matches).toEqual([expect.objectContaining({ matchType: DuplicateMatchType.FINGERPRINT, invoiceId: 'inv-0' })]);
+    });
+
+    it('should match near-duplicate numbers only for the same amount', async () => {
+      stored({
+        bySupplier: [
+          { id: 'inv-a', invoiceNumber: 'inv 42', amount: 500 },
+          { id: 'inv-b', invoiceNumber: 'INV-0043', amount: 1000 },
+          { id: 'inv-c', invoiceNumber: 'INV-0044', amount: 750 }
+        ]
+      });
+
+      const screening = await service.screenNewInvoice(candidate());
+
+      expect(screening.matches.map(match => match.invoiceId)).toEqual(['inv-a', 'inv-b']);
+      expect(screening.matches.every(match => match.matchType === DuplicateMatchType.INVOICE_NUMBER)).toBe(true);
+    });
+  });
+
+  describe('recordScreening', () => {
+    it('should store the fingerprint, flag matches and queue the hashes for the registry', async () => {
+      stored({ byFingerprint: [{ id: 'inv-0', invoiceNumber: 'ACME-7' }] });
+      const screening = await service.screenNewInvoice(candidate());
+
+      await service.recordScreening('inv-1', screening, mockPrisma);
+
+      expect(mockPrisma.invoice.update).toHaveBeenCalledWith({ where: { id: 'inv-1' }, data: { fingerprint: screening.fingerprint } });
+      expect(mockPrisma.duplicateFlag.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({ invoiceId: 'inv-1', matchedInvoiceId: 'inv-0', matchType: DuplicateMatchType.FINGERPRINT })
+      }));
+      expect(mockOutbox.enqueue).toHaveBeenCalledWith(mockPrisma, expect.objectContaining({
+        action: OutboxAction.HCS_MESSAGE,
+        idempotencyKey: 'hcs:hash-registry:inv-1',
+        payload: expect.objectContaining({
+          topicId: '0.0.9100',
+          message: expect.objectContaining({ eventType: 'INVOICE_REGISTERED', fingerprint: screening.fingerprint })
+        })
+      }));
+    });
+  });
+
+  describe('assertFundable', () => {
+    beforeEach(() => {
+      mockPrisma.invoice.findUnique.mockResolvedValue({
+        id: 'inv-1',
+        ...candidate(),
+        fileHash: null,
+        fingerprint: null,
+        documents: [{ hash: 'doc-hash' }]
+      });
+    });
+
+    it('should pass invoices without open matches', async () => {
+      await expect(service.assertFundable('inv-1')).resolves.toBeUndefined();
+      expect(mockPrisma.invoice.update).toHaveBeenCalledWith({ where: { id: 'inv-1' }, data: { fingerprint: expect.any(String) } });
+    });
+
+    it('should flag documents attached since creation that match other invoices', async () => {
+      mockPrisma.document.findMany.mockResolvedValue([{ filename: 'scan.pdf', invoice: { id: 'inv-0', invoiceNumber: 'INV-0007' } }]);
+
+      await service.assertFundable('inv-1');
+
+      expect(mockPrisma.document.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ hash: { in: ['doc-hash'] } })
+      }));
+      expect(mockPrisma.duplicateFlag.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({ invoiceId: 'inv-1', matchedInvoiceId: 'inv-0', matchType: DuplicateMatchType.FILE_HASH })
+      }));
+    });
+
+    it('should not flag a match the other invoice was already flagged for', async () => {
+      stored({ byFingerprint: [{ id: 'inv-2', invoiceNumber: 'INV-0050' }] });
+      mockPrisma.duplicateFlag.findUnique.mockResolvedValue({ id: 'flag-1' });
+
+      await service.assertFundable('inv-1').catch(() => undefined);
+
+      expect(mockPrisma.duplicateFlag.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should refuse invoices awaiting review', async () => {
+      mockPrisma.duplicateFlag.findFirst.mockResolvedValue({
+        status: DuplicateFlagStatus.OPEN,
+        invoice: { invoiceNumber: 'INV-0042' },
+        matchedInvoice: { invoiceNumber: 'INV-0041' }
+      });
+
+      await expect(service.assertFundable('inv-1')).rejects.toThrow('awaiting agent review');
+    });
+
+    it('should refuse invoices confirmed as duplicates', async () => {
+      mockPrisma.duplicateFlag.findFirst.mockResolvedValue({
+        status: DuplicateFlagStatus.CONFIRMED,
+        invoice: { invoiceNumber: 'INV-0042' },
+        matchedInvoice: { invoiceNumber: 'INV-0041' }
+      });
+
+      await expect(service.assertFundable('inv-1')).rejects.toThrow('Invoice was confirmed as a duplicate of INV-0041');
+    });
+  });
+
+  describe('reviewFlag', () => {
+    it('should record the agent\'s decision', async () => {
+      mockPrisma.duplicateFlag.findUnique.mockResolvedValue({ id: 'flag-1', status: DuplicateFlagStatus.OPEN });
+      mockPrisma.duplicateFlag.update.mockImplementation(async ({ data }: any) => ({ id: 'flag-1', ...data }));
+
+      const flag = await service.reviewFlag('flag-1', '0.0.4004', DuplicateFlagStatus.DISMISSED, 'Separate deliveries');
+
+      expect(flag).toMatchObject({ status: DuplicateFlagStatus.DISMISSED, reviewedBy: '0.0.4004', reviewNote: 'Separate deliveries' });
+    });
+
+    it('should reject flags already reviewed', async () => {
+      mockPrisma.duplicateFlag.findUnique.mockResolvedValue({ id: 'flag-1', status: DuplicateFlagStatus.CONFIRMED });
+
+      await expect(service.reviewFlag('flag-1', '0.0.4004', DuplicateFlagStatus.DISMISSED)).rejects.toThrow('Duplicate flag was already confirmed');
+    });
+  });
+});
@@ -0,0 +1,304 @@
+import { ethers } from 'ethers';
+import { EscrowIndexerService, decodeEscrowLog } from '../escrowIndexerService';
+import { mirrorNodeService, ContractLog } from '../mirrorNodeService';
+import { websocketService } from '../websocketService';
+import { ledgerService } from '../ledgerService';
+
+// Mirror Node log pages recorded from an EscrowPool deployment
+const fixture = require('./fixtures/escrowPoolLogs.json');
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - events and the checkpoint live in memory so syncs can resume
+jest.mock('@prisma/client', () => {
+  const store: { events: any[]; checkpoint: any } = { events: [], checkpoint: null };
+  const prisma = {
+    store,
+    contractEvent: {
+      create: jest.fn(async ({ data }: any) => {
+        if (store.events.some(e => e.transactionHash === data.transactionHash && e.logIndex === data.logIndex)) {
+          throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+        }
+        const event = { id: `event-${store.events.length + 1}`, fundingId: null, ...data };
+        store.events.push(event);
+        return event;
+      }),
+      findUnique: jest.fn(async ({ where }: any) => store.events.find(e =>
+        e.transactionHash === where.transactionHash_logIndex.transactionHash && e.logIndex === where.transactionHash_logIndex.logIndex
+      ) || null),
+      findFirst: jest.fn(async () => [...store.events].sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex)[0] || null),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(store.events.find(e => e.id === where.id), data)),
+      deleteMany: jest.fn(async ({ where }: any) => {
+        const before = store.events.length;
+        store.events = store.events.filter(e => e.blockNumber < where.blockNumber.gte);
+        return { count: before - store.events.length };
+      }),
+      findMany: jest.fn(),
+      count: jest.fn()
+    },
+    indexerCheckpoint: {
+      findUnique: jest.fn(async () => store.checkpoint),
+      upsert: jest.fn(async ({ create, update }: any) => (store.checkpoint = store.checkpoint ? { ...store.checkpoint, ...update } : create)),
+      update: jest.fn(async ({ data }: any) => (store.checkpoint = { ...store.checkpoint, ...data })),
+      delete: jest.fn(async () => (store.checkpoint = null))
+    },
+    funding: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn()
+    }
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+jest.mock('../contract', () => ({
+  ESCROW_POOL_ABI: [
+    'event EscrowCreated(bytes32 indexed escrowId, string indexed invoiceId, address indexed investor, address supplier, uint256 amount)',
+    'event EscrowFunded(bytes32 indexed escrowId, string indexed invoiceId, uint256 amount)',
+    'event EscrowReleased(bytes32 indexed escrowId, string indexed invoiceId, address indexed supplier, uint256 amount, uint256 fee)',
+    'event EscrowRefunded(bytes32 indexed escrowId, string indexed invoiceId, address indexed investor, uint256 amount)',
+    'event FeeRateUpdated(uint256 oldRate, uint256 newRate)',
+    'event HolderUpdated(bytes32 indexed escrowId, string indexed invoiceId, address indexed previousHolder, address newHolder)'
+  ],
+  contractService: {
+    getAddress: jest.fn().mockReturnValue('0x00000000000000000000000000000000000f4240')
+  }
+}));
+
+jest.mock('../mirrorNodeService', () => ({
+  mirrorNodeService: {
+    getContractLogs: jest.fn(),
+    getBlock: jest.fn()
+  }
+}));
+
+jest.mock('../websocketService', () => ({
+  websocketService: {
+    broadcastMilestoneUpdate: jest.fn()
+  }
+}));
+
+jest.mock('../ledgerService', () => ({
+  ledgerService: {
+    recordEscrowLock: jest.fn(),
+    recordRelease: jest.fn(),
+    recordRefund: jest.fn()
+  }
+}));
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+const mockMirror = mirrorNodeService as jest.Mocked<typeof mirrorNodeService>;
+const mockWebsocket = websocketService as jest.Mocked<typeof websocketService>;
+const mockLedger = ledgerService as jest.Mocked<typeof ledgerService>;
+
+const ESCROW_1 = fixture.escrowIds['inv-1'];
+const ESCROW_2 = fixture.escrowIds['inv-2'];
+const allLogs: ContractLog[] = fixture.pages.flatMap((page: any) => page.logs);
+
+/** Serve the recorded pages, or every log from the timestamp filter on like the Mirror Node does */
+function serveFixture(pages: Array<{ logs: ContractLog[]; links: { next: string | null } }> = fixture.pages) {
+  mockMirror.getContractLogs.mockImplementation(async (_contractId, filters = {}) => {
+    if (filters.next) {
+      return pages[pages.findIndex(p => p.links.next === filters.next) + 1];
+    }
+    if (!filters.timestamp) {
+      return pages[0];
+    }
+    const from = parseFloat(filters.timestamp.replace('gte:', ''));
+    return { logs: pages.flatMap(p => p.logs).filter(log => parseFloat(log.timestamp) >= from), links: { next: null } };
+  });
+  mockMirror.getBlock.mockImplementation(async (n: number) => fixture.blocks[n] || null);
+}
+
+const fundingRow = (overrides: Record<string, any> = {}) => ({
+  id: 'fund-1',
+  invoiceId: 'inv-1',
+  investorId: 'investor-1',
+  amount: 100,
+  status: 'ACTIVE',
+  escrowId: ESCROW_1,
+  contractId: null,
+  fundedAt: null,
+  releaseTransactionHash: null,
+  releasedAt: null,
+  refundTransactionHash: null,
+  refundedAt: null,
+  ...overrides
+});
+
+describe('decodeEscrowLog', () => {
+  it('should decode the escrow ID, invoice hash and amounts of a recorded log', () => {
+    const decoded = decodeEscrowLog(allLogs[5]);
+
+    expect(decoded).toEqual(expect.objectContaining({
+      eventName: 'EscrowReleased',
+      escrowId: ESCROW_1,
+      invoiceIdHash: ethers.id('inv-1'),
+      blockNumber: 104,
+      logIndex: 0,
+      consensusTimestamp: '1700000006.000000001'
+    }));
+    expect(decoded!.args).toEqual({ supplier: '0x00000000000000000000000000000000000007D2', amount: '97.5', fee: '2.5' });
+  });
+
+  it('should decode fee changes without an escrow and keep rates in basis points', () => {
+    expect(decodeEscrowLog(allLogs[4])).toEqual(expect.objectContaining({
+      eventName: 'FeeRateUpdated',
+      escrowId: null,
+      invoiceIdHash: null,
+      args: { oldRate: '250', newRate: '300' }
+    }));
+  });
+
+  it('should ignore EscrowPool events it does not index', () => {
+    const pool = new ethers.Interface(['event HolderUpdated(bytes32 indexed escrowId, string indexed invoiceId, address indexed previousHolder, address newHolder)']);
+    const { topics, data } = pool.encodeEventLog('HolderUpdated', [ESCROW_1, 'inv-1', ethers.ZeroAddress, ethers.ZeroAddress]);
+
+    expect(decodeEscrowLog({ ...allLogs[5], topics, data })).toBeNull();
+  });
+});
+
+describe('EscrowIndexerService', () => {
+  let service: EscrowIndexerService;
+  let fundings: Record<string, any>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.store.events = [];
+    mockPrisma.store.checkpoint = null;
+    service = new EscrowIndexerService({ contractId: fixture.contractId, pageSize: 3, maxPages: 10, rewindBlocks: 2 });
+
+    fundings = {
+      'fund-1': fundingRow(),
+      // Recorded before the escrow ID was known
+      'fund-2': fundingRow({ id: 'fund-2', invoiceId: 'inv-2', amount: 50, escrowId: '0.0.5005@1699999999.000000000' })
+    };
+    mockPrisma.funding.findFirst.mockImplementation(async ({ where }: any) =>
+      Object.values(fundings).find(f => f.escrowId === where.OR[0].escrowId) || null
+    );
+    mockPrisma.funding.findMany.mockImplementation(async () => Object.values(fundings));
+    mockPrisma.funding.update.mockImplementation(async ({ where, data }: any) => Object.assign(fundings[where.id], data));
+    serveFixture();
+  });
+
+  it('should index every lifecycle and fee log across pages and reconcile escrow events into fundings', async () => {
+    const summary = await service.runOnce();
+
+    expect(summary).toEqual(expect.objectContaining({ fetched: 7, indexed: 7, reconciled: 6, skipped: 0, rewound: false }));
+    expect(summary.checkpoint).toEqual({ blockNumber: 105, consensusTimestamp: '1700000008.000000001' });
+    expect(mockPrisma.store.events.map((e: any) => e.eventName)).toEqual([
+      'EscrowCreated', 'EscrowFunded', 'EscrowCreated', 'EscrowFunded', 'FeeRateUpdated', 'EscrowReleased', 'EscrowRefunded'
+    ]);
+    // Kept for the platform fee indexer, not matched to a funding
+    expect(mockPrisma.store.events[4]).toEqual(expect.objectContaining({ escrowId: null, fundingId: null }));
+
+    expect(fundings['fund-1']).toEqual(expect.objectContaining({
+      status: 'RELEASED',
+      releaseTransactionHash: allLogs[5].transaction_hash,
+      releasedAt: new Date(1700000006000),
+      fundedAt: new Date(1700000000000)
+    }));
+    expect(fundings['fund-2']).toEqual(expect.objectContaining({
+      status: 'REFUNDED',
+      escrowId: ESCROW_2,
+      refundTransactionHash: allLogs[6].transaction_hash
+    }));
+  });
+
+  it('should post the escrow movements to the ledger and notify clients', async () => {
+    await service.runOnce();
+
+    expect(mockLedger.recordEscrowLock).toHaveBeenCalledTimes(2);
+    expect(mockLedger.recordRelease).toHaveBeenCalledWith(expect.objectContaining({ id: 'fund-1' }), allLogs[5].transaction_hash, new Date(1700000006000));
+    expect(mockLedger.recordRefund).toHaveBeenCalledWith(expect.objectContaining({ id: 'fund-2' }), allLogs[6].transaction_hash, new Date(1700000008000));
+    expect(mockWebsocket.broadcastMilestoneUpdate).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'escrow_updated',
+      invoiceId: 'inv-1',
+      data: expect.objectContaining({ fundingId: 'fund-1', eventName: 'EscrowReleased', status: 'RELEASED' })
+    }));
+  });
+
+  it('should still reconcile when the ledger posting fails', async () => {
+    mockLedger.recordRelease.mockRejectedValueOnce(new Error('ledger down'));
+
+    const summary = await service.runOnce();
+
+    expect(summary.reconciled).toBe(6);
+    expect(fundings['fund-1'].status).toBe('RELEASED');
+  });
+
+  it('should resume from the checkpoint without storing or reconciling anything twice', async () => {
+    serveFixture([{ logs: allLogs.slice(0, 4), links: { next: null } }]);
+    await service.runOnce();
+    expect(mockPrisma.store.checkpoint).toEqual(expect.objectContaining({ blockNumber: 102, consensusTimestamp: '1700000002.000000001' }));
+    expect(fundings['fund-1'].status).toBe('ACTIVE');
+
+    serveFixture();
+    const summary = await service.runOnce();
+
+    expect(mockMirror.getContractLogs).toHaveBeenLastCalledWith(fixture.contractId, { timestamp: 'gte:1700000002.000000001', limit: 3 });
+    // The two logs of the checkpoint transaction are read again and skipped
+    expect(summary).toEqual(expect.objectContaining({ fetched: 5, indexed: 3, skipped: 2 }));
+    expect(mockPrisma.store.events).toHaveLength(7);
+    expect(fundings['fund-1'].status).toBe('RELEASED');
+  });
+
+  it('should retry reconciling stored events that had no funding yet', async () => {
+    const pending = fundings['fund-2'];
+    delete fundings['fund-2'];
+    serveFixture([{ logs: allLogs.slice(0, 4), links: { next: null } }]);
+    await service.runOnce();
+    expect(mockPrisma.store.events.filter((e: any) => !e.fundingId)).toHaveLength(2);
+
+    fundings['fund-2'] = pending;
+    const summary = await service.runOnce();
+
+    expect(summary.reconciled).toBe(2);
+    expect(fundings['fund-2'].escrowId).toBe(ESCROW_2);
+  });
+
+  it('should rewind and re-index when the checkpoint block was reorganised', async () => {
+    await service.runOnce();
+    mockMirror.getBlock.mockImplementation(async (n: number) =>
+      n === 105 ? { ...fixture.blocks[105], hash: '0xreplaced' } : fixture.blocks[n]
+    );
+
+    const summary = await service.runOnce();
+
+    // Blocks 103-105 are dropped and the checkpoint moves back to block 102
+    expect(mockPrisma.contractEvent.deleteMany).toHaveBeenCalledWith({ where: { contractId: fixture.contractId, blockNumber: { gte: 103 } } });
+    expect(mockMirror.getContractLogs).toHaveBeenLastCalledWith(fixture.contractId, { timestamp: 'gte:1700000002.000000001', limit: 3 });
+    expect(summary).toEqual(expect.objectContaining({ rewound: true, indexed: 3 }));
+    expect(mockPrisma.store.events).toHaveLength(7);
+  });
+
+  it('should start over when a reorg drops every indexed event', async () => {
+    serveFixture([{ logs: allLogs.slice(0, 1), links: { next: null } }]);
+    await service.runOnce();
+    serveFixture([{ logs: [], links: { next: null } }]);
+    mockMirror.getBlock.mockResolvedValue(null);
+
+    const summary = await service.runOnce();
+
+    expect(summary.rewound).toBe(true);
+    expect(mockPrisma.store.checkpoint).toBeNull();
+    expect(mockMirror.getContractLogs).toHaveBeenLastCalledWith(fixture.contractId, { timestamp: undefined, limit: 3 });
+  });
+
+  it('should report a Mirror Node outage without moving the checkpoint', async () => {
+    mockMirror.getContractLogs.mockRejectedValue(new Error('mirror down'));
+
+    const summary = await service.runOnce();
+
+    expect(summary.fetched).toBe(0);
+    expect(mockPrisma.store.checkpoint).toBeNull();
+  });
+});
@@ -0,0 +1,189 @@
+import { FileRenewalService, DocumentStorageStatus } from '../fileRenewalService';
+import { hederaFileService } from '../hederaFileService';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma: any = {
+    document: {
+      updateMany: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn()
+    },
+    fileRenewal: {
+      aggregate: jest.fn(),
+      create: jest.fn()
+    }
+  };
+  prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+jest.mock('../hederaFileService', () => ({
+  hederaFileService: {
+    getFileInfo: jest.fn(),
+    extendExpiration: jest.fn()
+  }
+}));
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+const mockFiles = hederaFileService as jest.Mocked<typeof hederaFileService>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2024-06-01T00:00:00Z');
+const inDays = (days: number) => new Date(NOW.getTime() + days * DAY_MS);
+
+const document = (overrides: Record<string, any> = {}) => ({
+  id: 'doc-1',
+  fileId: '0.0.9001',
+  storageStatus: DocumentStorageStatus.ACTIVE,
+  expiresAt: inDays(5),
+  retainUntil: inDays(365),
+  lastRenewedAt: null,
+  createdAt: inDays(-85),
+  ...overrides
+});
+
+describe('FileRenewalService', () => {
+  let service: FileRenewalService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new FileRenewalService({
+      batchSize: 10,
+      renewalWindowDays: 14,
+      extensionDays: 90,
+      retentionDays: 365,
+      maxFeeHbar: 2,
+      dailyBudgetHbar: 5
+    }, { now: () => NOW });
+
+    mockPrisma.document.updateMany.mockResolvedValue({ count: 0 });
+    mockPrisma.fileRenewal.aggregate.mockResolvedValue({ _sum: { feeHbar: null } });
+    mockFiles.extendExpiration.mockImplementation(async (_fileId: string, expiresAt: Date) => (
+      { success: true, transactionId: 'tx-renew', expiresAt, feeHbar: 0.5 }
+    ));
+  });
+
+  describe('runOnce', () => {
+    it('should extend files expiring within the window and record the fee', async () => {
+      mockPrisma.document.findMany.mockResolvedValue([document()]);
+
+      const summary = await service.runOnce();
+
+      expect(summary).toEqual(expect.objectContaining({ renewed: 1, spentHbar: 0.5 }));
+      expect(mockFiles.extendExpiration).toHaveBeenCalledWith('0.0.9001', inDays(95), 2);
+      expect(mockPrisma.fileRenewal.create).toHaveBeenCalledWith({
+        data: {
+          documentId: 'doc-1',
+          fileId: '0.0.9001',
+          previousExpiresAt: inDays(5),
+          expiresAt: inDays(95),
+          feeHbar: 0.5,
+          transactionId: 'tx-renew',
+          createdAt: NOW
+        }
+      });
+      expect(mockPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: 'doc-1' },
+        data: { expiresAt: inDays(95), lastRenewedAt: NOW }
+      });
+    });
+
+    it('should not renew past the end of retention', async () => {
+      mockPrisma.document.findMany.mockResolvedValue([document({ retainUntil: inDays(30) })]);
+
+      await service.runOnce();
+
+      expect(mockFiles.extendExpiration).toHaveBeenCalledWith('0.0.9001', inDays(30), 2);
+    });
+
+    it('should defer renewals once the daily budget is spent', async () => {
+      mockPrisma.fileRenewal.aggregate.mockResolvedValue({ _sum: { feeHbar: 2.5 } });
+      mockPrisma.document.findMany.mockResolvedValue([
+        document({ id: 'doc-1', fileId: '0.0.9001' }),
+        document({ id: 'doc-2', fileId: '0.0.9002' }),
+        document({ id: 'doc-3', fileId: '0.0.9003' })
+      ]);
+
+      const summary = await service.runOnce();
+
+      // 2.5 + 0.5 spent, and another 2 HBAR renewal could pass the 5 HBAR budget
+      expect(summary).toEqual(expect.objectContaining({ renewed: 2, deferred: 1, spentHbar: 1 }));
+      expect(mockFiles.extendExpiration).not.toHaveBeenCalledWith('0.0.9003', expect.any(Date), 2);
+    });
+
+    it('should read the expiration of untracked files and set their retention', async () => {
+      const expirationTime = inDays(60);
+      mockFiles.getFileInfo.mockResolvedValue({ fileId: '0.0.9001', size: 10, expirationTime, keys: [], deleted: false });
+      mockPrisma.document.findMany.mockResolvedValue([document({ expiresAt: null, retainUntil: null })]);
+
+      const summary = await service.runOnce();
+
+      expect(summary).toEqual(expect.objectContaining({ synced: 1, renewed: 0 }));
+      expect(mockPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: 'doc-1' },
+        data: { expiresAt: expirationTime, retainUntil: inDays(280) }
+      });
+      expect(mockFiles.extendExpiration).not.toHaveBeenCalled();
+    });
+
+    it('should mark documents whose file is gone as expired', async () => {
+      mockFiles.getFileInfo.mockResolvedValue(null);
+      mockPrisma.document.findMany.mockResolvedValue([document({ expiresAt: inDays(-1) })]);
+
+      const summary = await service.runOnce();
+
+      expect(summary.expired).toBe(1);
+      expect(mockPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: 'doc-1' },
+        data: { storageStatus: DocumentStorageStatus.EXPIRED }
+      });
+      expect(mockFiles.extendExpiration).not.toHaveBeenCalled();
+    });
+
+    it('should retire documents past retention', async () => {
+      mockPrisma.document.updateMany.mockResolvedValue({ count: 3 });
+      mockPrisma.document.findMany.mockResolvedValue([]);
+
+      const summary = await service.runOnce();
+
+      expect(summary.retired).toBe(3);
+      expect(mockPrisma.document.updateMany).toHaveBeenCalledWith({
+        where: { storageStatus: DocumentStorageStatus.ACTIVE, retainUntil: { lte: NOW } },
+        data: { storageStatus: DocumentStorageStatus.RETIRED }
+      });
+    });
+
+    it('should count a failed renewal and go on with the next file', async () => {
+      mockFiles.extendExpiration.mockResolvedValueOnce({ success: false, error: 'INSUFFICIENT_TX_FEE' });
+      mockPrisma.document.findMany.mockResolvedValue([
+        document({ id: 'doc-1', fileId: '0.0.9001' }),
+        document({ id: 'doc-2', fileId: '0.0.9002' })
+      ]);
+
+      const summary = await service.runOnce();
+
+      expect(summary).toEqual(expect.objectContaining({ failed: 1, renewed: 1 }));
+    });
+  });
+
+  describe('storageOf', () => {
+    it('should report files expiring within the window as expiring soon', () => {
+      expect(service.storageOf(document({ expiresAt: inDays(30) })).status).toBe(DocumentStorageStatus.ACTIVE);
+      expect(service.storageOf(document({ expiresAt: inDays(10) })).status).toBe(DocumentStorageStatus.EXPIRING_SOON);
+      expect(service.storageOf(document({ expiresAt: inDays(-1) })).status).toBe(DocumentStorageStatus.EXPIRED);
+      expect(service.storageOf(document({ storageStatus: DocumentStorageStatus.RETIRED, expiresAt: inDays(10) })).status)
+        .toBe(DocumentStorageStatus.RETIRED);
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import { fundingService } from '../fundingService';
+import { contractService } from '../contract';
+import { invoiceService } from '../invoices';
+import { outboxService } from '../outboxService';
+import { HederaService } from '../hedera';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma: any = {
+    funding: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn()
+    },
+    marketplaceListing: {
+      findFirst: jest.fn()
+    }
+  };
+  prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+jest.mock('../hedera', () => ({
+  HederaService: jest.fn().mockImplementation(() => ({
+    submitSignedTransaction: jest.fn()
+  }))
+}));
+
+jest.mock('../contract', () => ({
+  contractService: {
+    getEscrowByInvoice: jest.fn(),
+    createEscrow: jest.fn(),
+    isOwnDeposit: jest.fn()
+  }
+}));
+
+jest.mock('../invoices', () => ({
+  ...jest.requireActual('../invoices'),
+  invoiceService: {
+    getInvoiceById: jest.fn(),
+    updateInvoiceStatus: jest.fn(),
+    addInvoiceEvent: jest.fn().mockResolvedValue({ id: 'event-1' })
+  }
+}));
+
+jest.mock('../outboxService', () => ({
+  OutboxAction: { HCS_MESSAGE: 'HCS_MESSAGE', ESCROW_DEPOSIT: 'ESCROW_DEPOSIT' },
+  OutboxStatus: { COMPLETED: 'COMPLETED' },
+  outboxService: {
+    registerHandler: jest.fn(),
+    enqueue: jest.fn(),
+    dispatchAggregate: jest.fn(),
+    recordProgress: jest.fn()
+  }
+}));
+
+jest.mock('../ledgerService', () => ({
+  ledgerService: {
+    recordFundingCommitment: jest.fn(),
+    recordEscrowLock: jest.fn()
+  }
+}));
+
+jest.mock('../documentEncryptionService', () => ({
+  DocumentKeyRole: { INVESTOR: 'INVESTOR' },
+  documentEncryptionService: {
+    grantInvoiceAccess: jest.fn()
+  }
+}));
+
+jest.mock('../fxService', () => ({
+  ...jest.requireActual('../fxService'),
+  fxService: {
+    convert: jest.fn(async (amount: number) => ({ from: 'HBAR', to: 'HBAR', amount, converted: amount, rate: 1 })),
+    recordSnapshot: jest.fn()
+  }
+}));
+
+jest.mock('../duplicateDetectionService', () => ({
+  duplicateDetectionService: {
+    assertFundable: jest.fn()
+  }
+}));
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+const mockContract = contractService as jest.Mocked<typeof contractService>;
+const mockInvoices = invoiceService as jest.Mocked<typeof invoiceService>;
+const mockOutbox = outboxService as jest.Mocked<typeof outboxService>;
+const mockHedera = (HederaService as unknown as jest.Mock).mock.results[0].value;
+
+const DUE = new Date(Date.now() + 60 * 24 * 60 * 60 * 1000);
+const invoice = { id: 'inv-1', amount: 1000, currency: 'HBAR', dueDate: DUE, topicId: null };
+const pending = (id: string, investorId: string, amount: number) => ({
+  id,
+  invoiceId: 'inv-1',
+  investorId,
+  amount,
+  currency: 'HBAR',
+  hbarAmount: amount,
+  interestRate: 0.05,
+  status: 'PENDING',
+  escrowId: null,
+  transactionHash: null,
+  invoice
+});
+const deposit = (fundingId: string, amount: number) => ({
+  fundingId,
+  supplierAddress: '0xsupplier',
+  amount: amount.toString(),
+  nftSerialNumber: 1
+});
+// The first investor's deposit, as EscrowPool reports it for the invoice
+const firstEscrow = { id: 7n, invoiceId: 'inv-1', investor: '0xplatform', supplier: '0xsupplier', amount: 400n * 10n ** 18n } as any;
+
+describe('FundingService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.funding.update.mockImplementation(async ({ where, data }: any) => ({ ...pending(where.id, 'investor', 0), ...data }));
+    mockPrisma.funding.findMany.mockResolvedValue([]);
+    mockPrisma.funding.findFirst.mockResolvedValue(null);
+    mockPrisma.marketplaceListing.findFirst.mockResolvedValue(null);
+  });
+
+  describe('createFunding', () => {
+    const request = (amount: number) => ({
+      invoiceId: 'inv-1',
+      investorId: 'investor-b',
+      amount,
+      supplierAccountId: '0xsupplier',
+      nftSerialNumber: 1
+    });
+
+    beforeEach(() => {
+      mockInvoices.getInvoiceById.mockResolvedValue({ ...invoice, status: 'ISSUED' } as any);
+    });
+
+    it('should not advance the full face value of the invoice', async () => {
+      // 60 days at 5% leaves at most 991.78 HBAR to advance against 1000
+      await expect(fundingService.createFunding(request(1000))).rejects.toThrow('Funding amount exceeds invoice amount');
+      expect(mockOutbox.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should count earlier fundings at the face value they bought', async () => {
+      mockPrisma.funding.findMany.mockResolvedValue([{ ...pending('fund-1', 'investor-a', 400), expectedReturn: 3.3 }]);
+
+      // 596.7 HBAR of face value is left, which discounts to about 591.8 HBAR
+      await expect(fundingService.createFunding(request(595))).rejects.toThrow('Funding amount exceeds invoice amount');
+      expect(mockOutbox.enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createFundingWithWallet', () => {
+    const request = {
+      invoiceId: 'inv-1',
+      investorId: 'investor-a',
+      amount: 400,
+      supplierAccountId: '0xsupplier',
+      nftSerialNumber: 1,
+      walletAccountId: '0.0.4001',
+      signedTransactionBytes: 'c2lnbmVk',
+      transactionId: '0.0.4001@1'
+    };
+
+    beforeEach(() => {
+      mockInvoices.getInvoiceById.mockResolvedValue({ ...invoice, status: 'ISSUED' } as any);
+      mockPrisma.funding.create.mockImplementation(async ({ data }: any) => ({ id: 'fund-1', ...data }));
+    });
+
+    it('should queue the signed deposit in the outbox instead of submitting it inline', async () => {
+      mockOutbox.dispatchAggregate.mockResolvedValue([{ action: 'ESCROW_DEPOSIT', status: 'FAILED', lastError: 'timeout' }] as any);
+      mockPrisma.funding.findUnique.mockResolvedValue(pending('fund-1', 'investor-a', 400));
+
+      const result = await fundingService.createFundingWithWallet(request);
+
+      expect(mockPrisma.funding.create).toHaveBeenCalledWith({ data: expect.objectContaining({ status: 'PENDING', amount: 400 }) });
+      expect(mockOutbox.enqueue).toHaveBeenCalledWith(mockPrisma, expect.objectContaining({
+        action: 'ESCROW_DEPOSIT',
+        aggregateId: 'fund-1',
+        idempotencyKey: 'escrow-deposit:fund-1',
+        payload: expect.objectContaining({ fundingId: 'fund-1', walletAccountId: '0.0.4001', signedTransactionBytes: 'c2lnbmVk', transactionId: '0.0.4001@1' })
+      }));
+      expect(mockHedera.submitSignedTransaction).not.toHaveBeenCalled();
+      expect(mockContract.createEscrow).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ escrowId: undefined, transactionHash: undefined });
+      expect(result.proofLinks).toBeUndefined();
+    });
+
+    it('should link the deposit once the outbox has made it', async () => {
+      mockOutbox.dispatchAggregate.mockResolvedValue([{ action: 'ESCROW_DEPOSIT', status: 'COMPLETED' }] as any);
+      mockPrisma.funding.findUnique.mockResolvedValue({ ...pending('fund-1', 'investor-a', 400), status: 'ACTIVE', escrowId: '0.0.4001@1', transactionHash: '0.0.4001@1' });
+
+      const result = await fundingService.createFundingWithWallet(request);
+
+      expect(result.transactionHash).toBe('0.0.4001@1');
+      expect(result.proofLinks?.transaction).toBe('https://hashscan.io/testnet/transaction/0.0.4001@1');
+    });
+  });
+
+  describe('executeEscrowDeposit', () => {
+    it('should submit a wallet-signed deposit as signed', async () => {
+      mockPrisma.funding.findUnique.mockResolvedValue(pending('fund-1', 'investor-a', 400));
+      mockContract.getEscrowByInvoice.mockResolvedValue(null);
+      mockHedera.submitSignedTransaction.mockResolvedValue({ transactionId: '0.0.4001@1' });
+
+      const result = await fundingService.executeEscrowDeposit(
+        { ...deposit('fund-1', 400), walletAccountId: '0.0.4001', signedTransactionBytes: 'c2lnbmVk', transactionId: '0.0.4001@1' },
+        { id: 'msg-1' }
+      );
+
+      expect(mockHedera.submitSignedTransaction).toHaveBeenCalledWith('c2lnbmVk', '0.0.4001@1');
+      expect(mockContract.createEscrow).not.toHaveBeenCalled();
+      expect(mockOutbox.recordProgress).toHaveBeenCalledWith('msg-1', { escrowId: '0.0.4001@1', transactionHash: '0.0.4001@1' });
+      expect(result).toEqual({ escrowId: '0.0.4001@1', transactionHash: '0.0.4001@1', adopted: false });
+    });
+
+    it('should deposit and record the escrow on the message before activating the funding', async () => {
+      mockPrisma.funding.findUnique.mockResolvedValue(pending('fund-1', 'investor-a', 400));
+      mockContract.getEscrowByInvoice.mockResolvedValue(null);
+      mockContract.createEscrow.mockResolvedValue({ escrowId: '7', transactionHash: '0xdeposit', status: 'confirmed' } as any);
+
+      const result = await fundingService.executeEscrowDeposit(deposit('fund-1', 400), { id: 'msg-1' });
+
+      expect(result).toEqual({ escrowId: '7', transactionHash: '0xdeposit', adopted: false });
+      expect(mockOutbox.recordProgress).toHaveBeenCalledWith('msg-1', { escrowId: '7', transactionHash: '0xdeposit' });
+      expect(mockPrisma.funding.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'fund-1' },
+        data: expect.objectContaining({ status: 'ACTIVE', escrowId: '7', transactionHash: '0xdeposit' })
+      }));
+    });
+
+    it('should not activate a second partial funding on the first investor\'s escrow', async () => {
+      mockPrisma.funding.findUnique.mockResolvedValue(pending('fund-2', 'investor-b', 400));
+      mockContract.getEscrowByInvoice.mockResolvedValue(firstEscrow);
+      mockContract.isOwnDeposit.mockReturnValue(true);
+      mockPrisma.funding.findFirst.mockResolvedValue({ id: 'fund-1' });
+
+      await expect(fundingService.executeEscrowDeposit(deposit('fund-2', 400), { id: 'msg-2' }))
+        .rejects.toMatchObject({ statusCode: 409 });
+
+      expect(mockPrisma.funding.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { escrowId: '7', id: { not: 'fund-2' } }
+      }));
+      expect(mockContract.createEscrow).not.toHaveBeenCalled();
+      expect(mockPrisma.funding.update).not.toHaveBeenCalled();
+      expect(mockInvoices.updateInvoiceStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not adopt an escrow deposited for a different amount', async () => {
+      mockPrisma.funding.findUnique.mockResolvedValue(pending('fund-2', 'investor-b', 600));
+      mockContract.getEscrowByInvoice.mockResolvedValue(firstEscrow);
+      mockContract.isOwnDeposit.mockReturnValue(false);
+
+      await expect(fundingService.executeEscrowDeposit(deposit('fund-2', 600), { id: 'msg-2' }))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(mockContract.isOwnDeposit).toHaveBeenCalledWith(firstEscrow, '600');
+      expect(mockPrisma.funding.update).not.toHaveBeenCalled();
+    });
+
+    it('should adopt the escrow its own earlier attempt deposited', async () => {
+      mockPrisma.funding.findUnique.mockResolvedValue(pending('fund-1', 'investor-a', 400));
+      mockContract.getEscrowByInvoice.mockResolvedValue(firstEscrow);
+
+      const result = await fundingService.executeEscrowDeposit(
+        deposit('fund-1', 400),
+        { id: 'msg-1', result: JSON.stringify({ escrowId: '7', transactionHash: '0xdeposit' }) }
+      );
+
+      expect(result).toEqual({ escrowId: '7', transactionHash: '0xdeposit', adopted: true });
+      expect(mockContract.createEscrow).not.toHaveBeenCalled();
+      expect(mockPrisma.funding.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'ACTIVE', escrowId: '7', transactionHash: '0xdeposit' })
+      }));
+    });
+  });
+});
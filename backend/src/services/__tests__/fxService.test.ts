@@ -0,0 +1,111 @@
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FxService, FxSnapshotPurpose, StaticFxRateProvider } from '../fxService';
+import { ValidationError } from '../../middleware/errorHandler';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma = {
+    fxSnapshot: {
+      upsert: jest.fn(async ({ create }: any) => create)
+    }
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+
+const TABLE = {
+  pivot: 'USD',
+  asOf: '2024-02-01T00:00:00.000Z',
+  rates: { USD: 1, EUR: 0.8, HBAR: 10 }
+};
+
+describe('StaticFxRateProvider', () => {
+  const provider = new StaticFxRateProvider(TABLE);
+
+  it('should cross rates through the pivot currency', async () => {
+    const rate = await provider.getRate('EUR', 'HBAR');
+
+    expect(rate).toEqual({ base: 'EUR', quote: 'HBAR', rate: 12.5, source: 'static', asOf: new Date(TABLE.asOf) });
+  });
+
+  it('should reject currencies missing from the table', async () => {
+    await expect(provider.getRate('GBP', 'HBAR')).rejects.toThrow('No exchange rate from GBP to HBAR');
+  });
+
+  it('should load a rate table from a file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'fx-'));
+    const file = join(dir, 'rates.json');
+    writeFileSync(file, JSON.stringify(TABLE));
+
+    try {
+      const fromFile = StaticFxRateProvider.fromFile(file);
+
+      expect(fromFile.supportedCurrencies()).toEqual(['USD', 'EUR', 'HBAR']);
+      expect((await fromFile.getRate('USD', 'EUR')).source).toBe(`file:${file}`);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('FxService', () => {
+  let service: FxService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new FxService(new StaticFxRateProvider(TABLE), { ratesFile: undefined, reportingCurrency: 'USD' });
+  });
+
+  it('should convert amounts and round to eight decimals', async () => {
+    const conversion = await service.convert(100.123456789, 'usd', 'HBAR');
+
+    expect(conversion).toEqual(expect.objectContaining({ from: 'USD', to: 'HBAR', rate: 10, converted: 1001.23456789 }));
+  });
+
+  it('should not look up a rate for the same currency', async () => {
+    const rate = await service.getRate('HBAR', 'hbar');
+
+    expect(rate).toEqual(expect.objectContaining({ rate: 1, source: 'identity' }));
+  });
+
+  it('should resolve the reporting currency', () => {
+    expect(service.resolveReportingCurrency()).toBe('USD');
+    expect(service.resolveReportingCurrency('eur')).toBe('EUR');
+    expect(() => service.resolveReportingCurrency('XYZ')).toThrow(ValidationError);
+  });
+
+  it('should keep the first snapshot recorded for a funding', async () => {
+    const conversion = await service.convert(1000, 'EUR', 'HBAR');
+
+    await service.recordSnapshot('fund-1', FxSnapshotPurpose.FUNDING, conversion);
+
+    expect(mockPrisma.fxSnapshot.upsert).toHaveBeenCalledWith({
+      where: { fundingId_purpose: { fundingId: 'fund-1', purpose: FxSnapshotPurpose.FUNDING } },
+      create: {
+        fundingId: 'fund-1',
+        purpose: FxSnapshotPurpose.FUNDING,
+        baseCurrency: 'EUR',
+        quoteCurrency: 'HBAR',
+        rate: 12.5,
+        source: 'static',
+        rateAsOf: new Date(TABLE.asOf),
+        baseAmount: 1000,
+        quoteAmount: 12500
+      },
+      update: {}
+    });
+  });
+});
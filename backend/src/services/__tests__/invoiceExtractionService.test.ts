@@ -0,0 +1,202 @@
+import { PDFDocument, PDFName, StandardFonts } from 'pdf-lib';
+import { InvoiceExtractionService, parseAmount, parseDate } from '../invoiceExtractionService';
+import { ValidationError } from '../../middleware/errorHandler';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - extraction never touches the database
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => ({}))
+}));
+
+// Duplicate detection queues through the outbox, which extraction never reaches
+jest.mock('../outboxService', () => ({
+  outboxService: {}
+}));
+
+const INVOICE_TEXT = [
+  'ACME Supplies Ltd',
+  'INVOICE',
+  'Invoice No: INV-0042',
+  'Invoice Date: 15/01/2024',
+  'Due Date: March 15, 2024',
+  'Bill To:',
+  'Globex Retail Inc',
+  '42 Market Street',
+  'Description Qty Unit Price Amount',
+  'Cotton bales 10 $100.00 $1,000.00',
+  'Freight 1 $234.50 $234.50',
+  'Subtotal $1,234.50',
+  'VAT 0% $0.00',
+  'Total Due: USD 1,234.50'
+].join('\n');
+
+// A PDF drawn the way most invoicing tools write one: a page of positioned text lines
+const drawInvoice = async (lines: string[]) => {
+  const document = await PDFDocument.create();
+  const page = document.addPage();
+  const font = await document.embedFont(StandardFonts.Helvetica);
+  lines.forEach((line, index) => page.drawText(line, { x: 50, y: 780 - index * 18, font, size: 11 }));
+  return Buffer.from(await document.save());
+};
+
+describe('parseAmount', () => {
+  it('should read either decimal convention', () => {
+    expect(parseAmount('1,234.56')).toBe(1234.56);
+    expect(parseAmount('1.234,56')).toBe(1234.56);
+    expect(parseAmount('1 234 567')).toBe(1234567);
+    expect(parseAmount('10,000')).toBe(10000);
+    expect(parseAmount('99,5')).toBe(99.5);
+  });
+});
+
+describe('parseDate', () => {
+  it('should read numeric and written dates', () => {
+    expect(parseDate('2024-03-01')).toMatchObject({ value: '2024-03-01', certainty: 1 });
+    expect(parseDate('Due 15/03/2024')).toMatchObject({ value: '2024-03-15', certainty: 1 });
+    expect(parseDate('1st Apr 2024')).toMatchObject({ value: '2024-04-01', certainty: 1 });
+    expect(parseDate('March 15, 2024')).toMatchObject({ value: '2024-03-15', certainty: 1 });
+  });
+
+  it('should be less certain when day and month could be swapped', () => {
+    expect(parseDate('03/04/2024')).toMatchObject({ value: '2024-04-03', certainty: 0.7 });
+  });
+
+  it('should ignore impossible dates', () => {
+    expect(parseDate('31/02/2024')).toBeNull();
+  });
+});
+
+describe('InvoiceExtractionService', () => {
+  let service: InvoiceExtractionService;
+
+  beforeEach(() => {
+    service = new InvoiceExtractionService({ minConfidence: 0.5, amountTolerance: 0.01 });
+  });
+
+  describe('extractFromText', () => {
+    it('should read the labelled fields with their confidence', () => {
+      const { fields } = service.extractFromText(INVOICE_TEXT);
+
+      expect(fields.invoiceNumber).toMatchObject({ value: 'INV-0042', confidence: 0.9 });
+      expect(fields.currency).toMatchObject({ value: 'USD', confidence: 0.9 });
+      expect(fields.issueDate).toMatchObject({ value: '2024-01-15', confidence: 0.85 });
+      expect(fields.dueDate).toMatchObject({ value: '2024-03-15', confidence: 0.9 });
+      expect(fields.buyerName).toMatchObject({ value: 'Globex Retail Inc', confidence: 0.65 });
+    });
+
+    it('should read line items and trust a total they add up to', () => {
+      const { fields, lineItems } = service.extractFromText(INVOICE_TEXT);
+
+      expect(lineItems).toEqual([
+        { description: 'Cotton bales', quantity: 10, unitPrice: 100, total: 1000, confidence: 0.9 },
+        { description: 'Freight', quantity: 1, unitPrice: 234.5, total: 234.5, confidence: 0.9 }
+      ]);
+      expect(fields.amount).toMatchObject({ value: 1234.5, confidence: 0.95, source: 'Total Due: USD 1,234.50' });
+    });
+
+    it('should work out the due date from payment terms', () => {
+      const { fields } = service.extractFromText('Invoice #A-17\nDate: 2024-01-31\nTerms: Net 30\nTotal €500,00');
+
+      expect(fields.dueDate).toMatchObject({ value: '2024-03-01', source: 'Terms: Net 30' });
+      expect(fields.dueDate!.confidence).toBeLessThan(fields.issueDate!.confidence);
+      expect(fields.amount).toMatchObject({ value: 500, confidence: 0.75 });
+      expect(fields.currency).toMatchObject({ value: 'EUR', confidence: 0.85 });
+    });
+
+    it('should fall back to the largest amount with low confidence', () => {
+      const { fields } = service.extractFromText('Order 7781\nWidgets $40.00\nShipping $9.99\n$49.99');
+
+      expect(fields.amount).toMatchObject({ value: 49.99, confidence: 0.4 });
+    });
+  });
+
+  describe('extract', () => {
+    it('should read fields from a text PDF', async () => {
+      const pdf = await drawInvoice(INVOICE_TEXT.split('\n'));
+
+      const extraction = await service.extract(pdf);
+
+      expect(extraction).toMatchObject({ pageCount: 1, hasText: true });
+      expect(extraction.fields.invoiceNumber!.value).toBe('INV-0042');
+      expect(extraction.fields.amount!.value).toBe(1234.5);
+      expect(extraction.lineItems).toHaveLength(2);
+    });
+
+    it('should follow TJ arrays, escapes and text positioning', async () => {
+      const document = await PDFDocument.create();
+      const page = document.addPage();
+      const content = document.context.stream([
+        'BT /F1 12 Tf 50 700 Td',
+        '[(Inv) 20 (oice) -300 (No:) -300 (INV\\0550007)] TJ',
+        '0 -14 Td <546F74616C3A> Tj 60 0 Td (\\(EUR\\) 90,00) Tj',
+        'T* (Due Date: 2024-06-30) Tj',
+        'ET'
+      ].join('\n'));
+      page.node.set(PDFName.of('Contents'), document.context.register(content));
+
+      const extraction = await service.extract(Buffer.from(await document.save()));
+
+      expect(extraction.fields.invoiceNumber!.value).toBe('INV-0007');
+      expect(extraction.fields.amount!.value).toBe(90);
+      expect(extraction.fields.dueDate!.value).toBe('2024-06-30');
+    });
+
+    it('should report PDFs without text', async () => {
+      const document = await PDFDocument.create();
+      document.addPage();
+
+      const extraction = await service.extract(Buffer.from(await document.save()));
+
+      expect(extraction).toMatchObject({ hasText: false, fields: {}, lineItems: [] });
+    });
+
+    it('should reject files that are not PDFs', async () => {
+      await expect(service.extract(Buffer.from('not a pdf'))).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('compareWithEntered', () => {
+    const { fields } = new InvoiceExtractionService().extractFromText(INVOICE_TEXT);
+
+    it('should accept values that match the document', () => {
+      const mismatches = service.compareWithEntered({ fields }, {
+        invoiceNumber: 'inv 42',
+        amount: 1234.5,
+        currency: 'usd',
+        dueDate: new Date('2024-03-15T00:00:00Z'),
+        buyerName: 'Globex Retail'
+      });
+
+      expect(mismatches).toEqual([]);
+    });
+
+    it('should flag entered values that disagree with the document', () => {
+      const mismatches = service.compareWithEntered({ fields }, {
+        invoiceNumber: 'INV-0043',
+        amount: 12345,
+        dueDate: '2024-04-15T00:00:00.000Z'
+      });
+
+      expect(mismatches).toEqual([
+        { field: 'invoiceNumber', entered: 'INV-0043', extracted: 'INV-0042', confidence: 0.9, severity: 'warning' },
+        { field: 'amount', entered: 12345, extracted: 1234.5, confidence: 0.95, severity: 'error' },
+        { field: 'dueDate', entered: '2024-04-15', extracted: '2024-03-15', confidence: 0.9, severity: 'warning' }
+      ]);
+    });
+
+    it('should not compare fields read with low confidence', () => {
+      const mismatches = service.compareWithEntered({ fields: { amount: { value: 50, confidence: 0.4, source: '$50.00' } } }, { amount: 75 });
+
+      expect(mismatches).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,277 @@
+import {
+  LedgerService,
+  LedgerAccount,
+  LedgerEntryType,
+  deriveBalances
+} from '../ledgerService';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// In-memory Prisma double: creates are applied atomically by $transaction,
+// and (journalId, account) is unique like the real table
+jest.mock('@prisma/client', () => {
+  const db: { entries: any[]; fundings: any[] } = { entries: [], fundings: [] };
+
+  const sumByAccount = (rows: any[]) => {
+    const totals: Record<string, number> = {};
+    rows.forEach(e => { totals[e.account] = (totals[e.account] || 0) + e.amount; });
+    return Object.entries(totals).map(([account, amount]) => ({ account, _sum: { amount } }));
+  };
+
+  const prisma = {
+    __db: db,
+    $transaction: jest.fn(async (ops: any[]) => {
+      const rows = ops.map(op => op.data);
+      if (rows.some(row => db.entries.some(e => e.journalId === row.journalId && e.account === row.account))) {
+        throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+      }
+      db.entries.push(...rows);
+      return rows;
+    }),
+    ledgerEntry: {
+      create: jest.fn(args => args),
+      findFirst: jest.fn(async ({ where }) => db.entries.find(e => e.journalId === where.journalId) || null),
+      groupBy: jest.fn(async ({ where }) => sumByAccount(db.entries.filter(e =>
+        Object.entries(where).every(([key, value]) => e[key] === value)
+      )))
+    },
+    funding: {
+      findMany: jest.fn(async ({ where }) => db.fundings.filter(f => f.investorId === where.investorId))
+    },
+    investor: {
+      updateMany: jest.fn()
+    }
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+const db = mockPrisma.__db;
+
+const FUNDED_AT = new Date('2024-01-01T10:00:00Z');
+
+const funding = (overrides: Record<string, any> = {}) => ({
+  id: 'fund-1',
+  investorId: 'investor-1',
+  invoiceId: 'inv-1',
+  amount: 1000,
+  currency: 'HBAR',
+  expectedReturn: 12.5,
+  status: 'ACTIVE',
+  transactionHash: '0xabc',
+  fundedAt: FUNDED_AT,
+  createdAt: FUNDED_AT,
+  updatedAt: FUNDED_AT,
+  releasedAt: null,
+  refundedAt: null,
+  settledAt: null,
+  fxSnapshots: [],
+  disputes: [],
+  ...overrides
+});
+
+const journalSums = () => {
+  const sums: Record<string, number> = {};
+  db.entries.forEach((e: any) => { sums[e.journalId] = (sums[e.journalId] || 0) + e.amount; });
+  return Object.values(sums).map(sum => Math.round(sum * 1e8) / 1e8);
+};
+
+describe('deriveBalances', () => {
+  it('should report credit-normal accounts as positive amounts', () => {
+    const balances = deriveBalances([
+      { account: LedgerAccount.AVAILABLE, amount: 1012.5 },
+      { account: LedgerAccount.EXTERNAL, amount: -1000 },
+      { account: LedgerAccount.INCOME, amount: -12.5 }
+    ]);
+
+    expect(balances).toEqual(expect.objectContaining({ deposited: 1000, available: 1012.5, income: 12.5, escrow: 0 }));
+  });
+});
+
+describe('LedgerService', () => {
+  let service: LedgerService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.entries.length = 0;
+    db.fundings.length = 0;
+    service = new LedgerService();
+  });
+
+  it('should reject unbalanced journals', async () => {
+    await expect(service.post({
+      journalId: 'bad',
+      investorId: 'investor-1',
+      entryType: LedgerEntryType.DEPOSIT,
+      postings: [
+        { account: LedgerAccount.AVAILABLE, amount: 100 },
+        { account: LedgerAccount.EXTERNAL, amount: -90 }
+      ]
+    })).rejects.toThrow('Journal bad is unbalanced by 10');
+    expect(db.entries).toHaveLength(0);
+  });
+
+  it('should ignore a deposit posted twice with the same reference', async () => {
+    await expect(service.recordDeposit('investor-1', 500, '0xdep')).resolves.toBe(true);
+    await expect(service.recordDeposit('investor-1', 500, '0xdep')).resolves.toBe(false);
+
+    const balances = await service.getBalances('investor-1');
+    expect(balances.available).toBe(500);
+    expect(balances.deposited).toBe(500);
+  });
+
+  it('should move a funding from available cash through escrow to an outstanding position', async () => {
+    await service.recordDeposit('investor-1', 1500, '0xdep');
+    await service.recordFundingCommitment(funding());
+
+    let balances = await service.getBalances('investor-1');
+    expect(balances).toEqual(expect.objectContaining({ available: 500, committed: 1000 }));
+
+    await service.recordEscrowLock(funding());
+    await service.recordRelease(funding());
+
+    balances = await service.getBalances('investor-1');
+    expect(balances).toEqual(expect.objectContaining({ available: 500, committed: 0, escrow: 0, invested: 1000 }));
+    expect(mockPrisma.investor.updateMany).toHaveBeenLastCalledWith({
+      where: { userId: 'investor-1' },
+      data: { availableBalance: 500, totalInvested: 1000 }
+    });
+    expect(journalSums().every(sum => sum === 0)).toBe(true);
+  });
+
+  it('should record a wallet deposit for the shortfall of a commitment', async () => {
+    await service.recordDeposit('investor-1', 200, '0xdep');
+    await service.recordFundingCommitment(funding());
+
+    const balances = await service.getBalances('investor-1');
+    expect(balances).toEqual(expect.objectContaining({ deposited: 1000, available: 0, committed: 1000 }));
+    expect(db.entries.some((e: any) => e.journalId === 'deposit:funding:fund-1' && e.amount === 800)).toBe(true);
+  });
+
+  it('should return escrowed funds to available cash on refund', async () => {
+    await service.recordFundingCommitment(funding());
+    await service.recordEscrowLock(funding());
+    await service.recordRefund(funding(), '0xrefund');
+
+    const balances = await service.getBalances('investor-1');
+    expect(balances).toEqual(expect.objectContaining({ available: 1000, escrow: 0, invested: 0 }));
+    await expect(service.recordRefund(funding())).resolves.toBe(false);
+  });
+
+  it('should book the supplier share of a split dispute as a loss, not an investment', async () => {
+    await service.recordFundingCommitment(funding());
+    await service.recordEscrowLock(funding());
+    await service.recordRefund(funding(), '0xresolve', undefined, 500);
+    await service.recordDisputeLoss(funding(), '0xresolve');
+
+    const balances = await service.getBalances('investor-1');
+    expect(balances).toEqual(expect.objectContaining({ available: 500, escrow: 0, invested: 0, income: -500 }));
+    expect(journalSums().every(sum => sum === 0)).toBe(true);
+
+    // The written-off position has nothing left to settle
+    await expect(service.recordSettlement(funding())).resolves.toBe(false);
+  });
+
+  it('should book principal and income on settlement, whether or not escrow was released', async () => {
+    await service.recordFundingCommitment(funding());
+    await service.recordEscrowLock(funding());
+    await service.recordSettlement(funding());
+
+    const balances = await service.getBalances('investor-1');
+    expect(balances).toEqual(expect.objectContaining({ available: 1012.5, escrow: 0, income: 12.5 }));
+
+    // A release arriving after settlement has nothing left to move
+    await expect(service.recordRelease(funding())).resolves.toBe(false);
+  });
+
+  it('should keep fiat fundings in HBAR and book the FX gain on settlement', async () => {
+    const usdFunding = funding({ currency: 'USD', hbarAmount: 10000 });
+    await service.recordFundingCommitment(usdFunding);
+    await service.recordEscrowLock(usdFunding);
+
+    expect(await service.getBalances('investor-1')).toEqual(expect.objectContaining({ deposited: 10000, escrow: 10000 }));
+
+    // HBAR weakened from 10 to 11 per USD between funding and settlement
+    await service.recordSettlement(usdFunding, undefined, undefined, 11);
+
+    expect(await service.getBalances('investor-1')).toEqual(expect.objectContaining({ available: 11137.5, escrow: 0, income: 1137.5 }));
+    expect(journalSums().every(sum => sum === 0)).toBe(true);
+  });
+
+  it('should move a sold position to the buyer and settle the face value with the buyer', async () => {
+    await service.recordFundingCommitment(funding());
+    await service.recordEscrowLock(funding());
+    await service.recordRelease(funding());
+
+    await expect(service.recordPositionTransfer(funding(), 'investor-1', 'investor-2', 1005, '1700000000.000000001')).resolves.toBe(true);
+    await expect(service.recordPositionTransfer(funding(), 'investor-1', 'investor-2', 1005, '1700000000.000000001')).resolves.toBe(false);
+
+    expect(await service.getBalances('investor-1')).toEqual(expect.objectContaining({ available: 1005, invested: 0, income: 5 }));
+    expect(await service.getBalances('investor-2')).toEqual(expect.objectContaining({ deposited: 1005, invested: 1005 }));
+
+    await service.recordSettlement(funding({ holderId: 'investor-2' }));
+
+    expect(await service.getBalances('investor-1')).toEqual(expect.objectContaining({ available: 1005, income: 5 }));
+    expect(await service.getBalances('investor-2')).toEqual(expect.objectContaining({ available: 1012.5, invested: 0, income: 7.5 }));
+    expect(journalSums().every(sum => sum === 0)).toBe(true);
+  });
+
+  it('should move a position given away at cost, keeping it in escrow until release', async () => {
+    await service.recordFundingCommitment(funding());
+    await service.recordEscrowLock(funding());
+
+    await service.recordPositionTransfer(funding(), 'investor-1', 'investor-2', null, 'gift');
+    await service.recordRelease(funding({ holderId: 'investor-2' }));
+
+    expect(await service.getBalances('investor-1')).toEqual(expect.objectContaining({ available: 1000, escrow: 0, income: 0 }));
+    expect(await service.getBalances('investor-2')).toEqual(expect.objectContaining({ escrow: 0, invested: 1000 }));
+  });
+
+  it('should charge fees against available cash', async () => {
+    await service.recordDeposit('investor-1', 100, '0xdep');
+    await service.recordFee('investor-1', 2.5, 'fee-1', { description: 'Servicing fee' });
+
+    const balances = await service.getBalances('investor-1');
+    expect(balances).toEqual(expect.objectContaining({ available: 97.5, fees: 2.5 }));
+  });
+
+  it('should rebuild the ledger from fundings and be idempotent', async () => {
+    db.fundings.push(
+      funding({ status: 'RELEASED', releasedAt: new Date('2024-01-05T00:00:00Z'), settledAt: new Date('2024-04-01T00:00:00Z') }),
+      funding({ id: 'fund-2', amount: 300, status: 'REFUNDED', refundedAt: new Date('2024-01-10T00:00:00Z') }),
+      funding({ id: 'fund-3', amount: 700, status: 'RELEASED', releasedAt: new Date('2024-01-06T00:00:00Z') }),
+      funding({
+        id: 'fund-4',
+        amount: 400,
+        status: 'RELEASED',
+        releasedAt: new Date('2024-01-08T00:00:00Z'),
+        disputes: [{ investorAmount: 200, resolveTransactionHash: '0xresolve', resolvedAt: new Date('2024-01-08T00:00:00Z') }]
+      })
+    );
+
+    const posted = await service.reconcileInvestor('investor-1');
+    const entries = db.entries.length;
+
+    expect(posted).toBeGreaterThan(0);
+    await expect(service.reconcileInvestor('investor-1')).resolves.toBe(0);
+    expect(db.entries).toHaveLength(entries);
+
+    const balances = await service.getBalances('investor-1');
+    expect(balances).toEqual(expect.objectContaining({
+      deposited: 1087.5,
+      available: 200,
+      invested: 700,
+      escrow: 0,
+      income: -187.5
+    }));
+    expect(journalSums().every(sum => sum === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,292 @@
+import { MarketplaceService, ListingStatus, BidStatus } from '../marketplaceService';
+import { fundingService } from '../fundingService';
+import { hcsTopicsService } from '../hcsTopics';
+import { invoiceService, InvoiceEventType } from '../invoices';
+import { outboxService, OutboxAction } from '../outboxService';
+import { AuthorizationError, ConflictError } from '../../middleware/errorHandler';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma: any = {
+    invoice: {
+      findUnique: jest.fn()
+    },
+    user: {
+      findUnique: jest.fn()
+    },
+    marketplaceListing: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn()
+    },
+    marketplaceBid: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn()
+    }
+  };
+  prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+jest.mock('../fundingService', () => ({
+  fundingService: {
+    prepareFundingTransaction: jest.fn()
+  }
+}));
+
+jest.mock('../hcsTopics', () => ({
+  hcsTopicsService: {
+    getOrCreateDealTopic: jest.fn()
+  }
+}));
+
+jest.mock('../invoices', () => ({
+  ...jest.requireActual('../invoices'),
+  invoiceService: {
+    addInvoiceEvent: jest.fn()
+  }
+}));
+
+jest.mock('../documentStoreService', () => ({
+  documentStoreService: {}
+}));
+
+jest.mock('../outboxService', () => ({
+  ...jest.requireActual('../outboxService'),
+  outboxService: {
+    enqueue: jest.fn(),
+    dispatchAggregate: jest.fn()
+  }
+}));
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+const mockFunding = fundingService as jest.Mocked<typeof fundingService>;
+const mockTopics = hcsTopicsService as jest.Mocked<typeof hcsTopicsService>;
+const mockInvoices = invoiceService as jest.Mocked<typeof invoiceService>;
+const mockOutbox = outboxService as jest.Mocked<typeof outboxService>;
+
+const NOW = new Date('2024-01-01T00:00:00Z');
+const EXPIRES = new Date('2024-01-08T00:00:00Z');
+
+const invoiceRow = (overrides: Record<string, any> = {}) => ({
+  id: 'inv-1',
+  invoiceNumber: 'INV-001',
+  supplierId: 'supplier-1',
+  amount: 1000,
+  currency: 'HBAR',
+  status: 'ISSUED',
+  dueDate: new Date('2024-03-01T00:00:00Z'),
+  nftTokenId: '0.0.7000',
+  nftSerialNumber: '3',
+  supplier: { id: 'supplier-1', accountId: '0.0.2002' },
+  syndicate: null,
+  ...overrides
+});
+
+const listingRow = (overrides: Record<string, any> = {}) => ({
+  id: 'listing-1',
+  invoiceId: 'inv-1',
+  supplierId: 'supplier-1',
+  askingDiscountRate: 0.06,
+  expiresAt: EXPIRES,
+  status: ListingStatus.OPEN,
+  topicId: '0.0.8000',
+  acceptedBidId: null,
+  invoice: invoiceRow(),
+  supplier: { id: 'supplier-1', accountId: '0.0.2002' },
+  ...overrides
+});
+
+const bidRow = (overrides: Record<string, any> = {}) => ({
+  id: 'bid-1',
+  listingId: 'listing-1',
+  investorId: 'investor-1',
+  amount: 950,
+  discountRate: 0.07,
+  status: BidStatus.PENDING,
+  investor: { id: 'investor-1', accountId: '0.0.1001' },
+  ...overrides
+});
+
+describe('MarketplaceService', () => {
+  let service: MarketplaceService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new MarketplaceService({ enabled: true });
+    mockTopics.getOrCreateDealTopic.mockResolvedValue('0.0.8000');
+    mockInvoices.addInvoiceEvent.mockResolvedValue({ id: 'event-1' } as any);
+    mockPrisma.marketplaceListing.findUnique.mockResolvedValue(listingRow());
+    mockPrisma.marketplaceListing.findUniqueOrThrow.mockImplementation(({ where }: any) => Promise.resolve({ id: where.id }));
+  });
+
+  describe('createListing', () => {
+    const input = { invoiceId: 'inv-1', supplierAccountId: '0.0.2002', askingDiscountRate: 0.06, expiresAt: EXPIRES };
+
+    beforeEach(() => {
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoiceRow());
+      mockPrisma.marketplaceListing.findFirst.mockResolvedValue(null);
+      mockPrisma.marketplaceListing.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'listing-1', ...data }));
+    });
+
+    it('should list the invoice and record it on the deal topic', async () => {
+      const listing = await service.createListing(input, NOW);
+
+      expect(mockTopics.getOrCreateDealTopic).toHaveBeenCalledWith('0.0.7000-3');
+      expect(listing).toEqual(expect.objectContaining({ id: 'listing-1', topicId: '0.0.8000', askingDiscountRate: 0.06 }));
+      expect(mockInvoices.addInvoiceEvent).toHaveBeenCalledWith(
+        'inv-1', InvoiceEventType.LISTED, expect.any(String), expect.objectContaining({ listingId: 'listing-1' }), undefined, NOW, undefined, mockPrisma
+      );
+      expect(mockOutbox.enqueue).toHaveBeenCalledWith(mockPrisma, expect.objectContaining({
+        action: OutboxAction.HCS_MESSAGE,
+        aggregateId: 'listing-1',
+        idempotencyKey: 'hcs:listing-created:listing-1',
+        payload: expect.objectContaining({
+          topicId: '0.0.8000',
+          invoiceEventId: 'event-1',
+          message: expect.objectContaining({ eventType: 'LISTING_CREATED', askingDiscountRate: 0.06 })
+        })
+      }));
+      expect(mockOutbox.dispatchAggregate).toHaveBeenCalledWith('listing-1');
+    });
+
+    it('should only let the invoice supplier list it', async () => {
+      await expect(service.createListing({ ...input, supplierAccountId: '0.0.9999' }, NOW)).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should reject invoices that are funded or already listed', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValueOnce(invoiceRow({ status: 'FUNDED' }));
+      await expect(service.createListing(input, NOW)).rejects.toThrow('Invoice must be in ISSUED status to be listed');
+
+      mockPrisma.marketplaceListing.findFirst.mockResolvedValueOnce(listingRow());
+      await expect(service.createListing(input, NOW)).rejects.toThrow('Invoice is already listed');
+      expect(mockPrisma.marketplaceListing.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('placeBid', () => {
+    beforeEach(() => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'investor-1', accountId: '0.0.1001' });
+    });
+
+    it('should replace the investor\'s pending bid instead of adding another', async () => {
+      mockPrisma.marketplaceBid.findFirst.mockResolvedValue(bidRow());
+      mockPrisma.marketplaceBid.update.mockImplementation(({ data }: any) => Promise.resolve({ ...bidRow(), ...data }));
+
+      const bid = await service.placeBid({ listingId: 'listing-1', investorAccountId: '0.0.1001', amount: 980, discountRate: 0.065 }, NOW);
+
+      expect(mockPrisma.marketplaceBid.create).not.toHaveBeenCalled();
+      expect(mockPrisma.marketplaceBid.update).toHaveBeenCalledWith({ where: { id: 'bid-1' }, data: { amount: 980, discountRate: 0.065 } });
+      expect(bid.expectedReturn).toBeGreaterThan(0);
+    });
+
+    it('should reject bids that would buy more than the invoice pays', async () => {
+      // 60 days at 6.5% discounts the 1000 HBAR invoice to 989.31506849
+      await expect(service.placeBid({ listingId: 'listing-1', investorAccountId: '0.0.1001', amount: 1000, discountRate: 0.065 }, NOW))
+        .rejects.toThrow('not exceed the discounted invoice value of 989.31506849');
+      expect(mockPrisma.marketplaceBid.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject bids on expired listings', async () => {
+      await expect(service.placeBid({ listingId: 'listing-1', investorAccountId: '0.0.1001', amount: 950, discountRate: 0.07 }, EXPIRES))
+        .rejects.toThrow('Listing has expired');
+    });
+  });
+
+  describe('acceptBid', () => {
+    beforeEach(() => {
+      mockPrisma.marketplaceBid.findUnique.mockResolvedValue(bidRow());
+      mockPrisma.marketplaceBid.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.marketplaceListing.updateMany.mockResolvedValue({ count: 1 });
+      mockFunding.prepareFundingTransaction.mockResolvedValue({ transactionBytes: 'bytes', transactionId: 'tx-1', description: 'Fund' });
+    });
+
+    it('should reject the other bids, record the acceptance and prepare the investor\'s funding', async () => {
+      const result = await service.acceptBid('listing-1', 'bid-1', '0.0.2002', NOW);
+
+      expect(mockPrisma.marketplaceListing.updateMany).toHaveBeenCalledWith({
+        where: { id: 'listing-1', status: ListingStatus.OPEN },
+        data: { status: ListingStatus.ACCEPTED, acceptedBidId: 'bid-1', acceptedAt: NOW }
+      });
+      expect(mockPrisma.marketplaceBid.updateMany).toHaveBeenCalledWith({
+        where: { listingId: 'listing-1', status: BidStatus.PENDING },
+        data: { status: BidStatus.REJECTED }
+      });
+      expect(mockOutbox.enqueue).toHaveBeenCalledWith(mockPrisma, expect.objectContaining({
+        idempotencyKey: 'hcs:bid-accepted:listing-1',
+        payload: expect.objectContaining({ message: expect.objectContaining({ eventType: 'BID_ACCEPTED', investorAccountId: '0.0.1001', discountRate: 0.07 }) })
+      }));
+      expect(mockFunding.prepareFundingTransaction).toHaveBeenCalledWith({
+        invoiceId: 'inv-1',
+        investorId: 'investor-1',
+        amount: 950,
+        supplierAccountId: '0.0.2002',
+        nftSerialNumber: 3,
+        walletAccountId: '0.0.1001'
+      });
+      expect(result.transaction.transactionId).toBe('tx-1');
+    });
+
+    it('should fail when another acceptance won the listing first', async () => {
+      mockPrisma.marketplaceListing.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.acceptBid('listing-1', 'bid-1', '0.0.2002', NOW)).rejects.toThrow(ConflictError);
+      expect(mockOutbox.enqueue).not.toHaveBeenCalled();
+      expect(mockFunding.prepareFundingTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should only let the listing supplier accept', async () => {
+      await expect(service.acceptBid('listing-1', 'bid-1', '0.0.1001', NOW)).rejects.toThrow(AuthorizationError);
+    });
+  });
+
+  describe('getListing', () => {
+    it('should show investors only their own bids', async () => {
+      mockPrisma.marketplaceListing.findUnique.mockResolvedValue(listingRow({
+        bids: [bidRow(), bidRow({ id: 'bid-2', investorId: 'investor-2', investor: { id: 'investor-2', accountId: '0.0.1002' } })]
+      }));
+
+      const asInvestor = await service.getListing('listing-1', { accountId: '0.0.1002', roles: ['INVESTOR'] });
+      const asSupplier = await service.getListing('listing-1', { accountId: '0.0.2002', roles: ['SUPPLIER'] });
+
+      expect(asInvestor.bids.map(bid => bid.id)).toEqual(['bid-2']);
+      expect(asSupplier.bids).toHaveLength(2);
+    });
+  });
+
+  describe('runOnce', () => {
+    it('should expire open listings past their expiry and reject their bids', async () => {
+      mockPrisma.marketplaceListing.findMany.mockResolvedValue([{ id: 'listing-1' }, { id: 'listing-2' }]);
+      mockPrisma.marketplaceListing.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 }); // accepted meanwhile
+      mockPrisma.marketplaceBid.updateMany.mockResolvedValue({ count: 2 });
+
+      const expired = await service.runOnce(EXPIRES);
+
+      expect(expired).toBe(1);
+      expect(mockPrisma.marketplaceListing.findMany).toHaveBeenCalledWith({
+        where: { status: ListingStatus.OPEN, expiresAt: { lte: EXPIRES } },
+        select: { id: true }
+      });
+      expect(mockPrisma.marketplaceBid.updateMany).toHaveBeenCalledTimes(1);
+    });
+  });
+});
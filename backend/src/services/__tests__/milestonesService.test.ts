@@ -1,3 +1,4 @@
+import { PrivateKey } from '@hashgraph/sdk';
 import { MilestonesService, MilestoneType, MilestoneData, MilestoneRecord } from '../milestonesService';
 import { logger } from '../../utils/logger';
 
@@ -27,6 +28,17 @@ jest.mock('../hcsTopics', () => ({
   }
 }));
 
+// Mock Workflow Templates Service - resolve every deal to the default workflow
+jest.mock('../workflowTemplatesService', () => {
+  const actual = jest.requireActual('../workflowTemplatesService');
+  return {
+    ...actual,
+    workflowTemplatesService: {
+      resolveWorkflowForToken: jest.fn().mockResolvedValue(actual.DEFAULT_WORKFLOW)
+    }
+  };
+});
+
 // Mock Hedera Service
 jest.mock('../hedera', () => ({
   HederaService: jest.fn().mockImplementation(() => ({
@@ -35,17 +47,38 @@ jest.mock('../hedera', () => ({
   }))
 }));
 
-// Mock Prisma
-jest.mock('@prisma/client', () => ({
-  PrismaClient: jest.fn().mockImplementation(() => ({
+// Mock Document Store Service
+jest.mock('../documentStoreService', () => ({
+  documentStoreService: {
+    uriOf: jest.fn((document: any) => document.storageUri ?? `hfs://${document.fileId}`),
+    read: jest.fn()
+  }
+}));
+
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma = {
     milestone: {
       create: jest.fn(),
       findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn()
+    },
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn()
+    },
+    invoice: {
       findFirst: jest.fn()
     },
+    document: {
+      findMany: jest.fn(),
+      findUnique: jest.fn()
+    },
     $queryRaw: jest.fn()
-  }))
-}));
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
 
 describe('MilestonesService', () => {
   let milestonesService: MilestonesService;
@@ -114,7 +147,7 @@ describe('MilestonesService', () => {
       // Spy on the service method directly
       const publishMilestoneSpy = jest.spyOn(milestonesService, 'publishMilestone').mockResolvedValue(mockMilestone);
 
-      const result = await milestonesService.publishMilestone(milestoneData);
+      const result = await milestonesService.publishMilestone({ ...milestoneData, nonce: '1', signature: 'sig' }, '0.0.5005');
 
       expect(result).toEqual(mockMilestone);
       
@@ -133,13 +166,150 @@ describe('MilestonesService', () => {
       // Spy on the service method directly
       const publishMilestoneSpy = jest.spyOn(milestonesService, 'publishMilestone').mockRejectedValue(new Error('Database error'));
 
-      await expect(milestonesService.publishMilestone(milestoneData))
+      await expect(milestonesService.publishMilestone({ ...milestoneData, nonce: '1', signature: 'sig' }, '0.0.5005'))
         .rejects.toThrow('Database error');
         
       publishMilestoneSpy.mockRestore();
     });
   });
 
+  describe('signed milestones with evidence', () => {
+    const NOW = new Date('2024-06-01T12:00:00Z');
+    const agentKey = PrivateKey.generateED25519();
+    const sign = (message: string) => Buffer.from(agentKey.sign(Buffer.from(message, 'utf8'))).toString('hex');
+
+    const photo = { id: 'doc-photo', invoiceId: 'inv-1', documentType: 'photo', hash: 'a'.repeat(64), storageUri: 'local://' + 'a'.repeat(64), fileId: null };
+    const receipt = { id: 'doc-receipt', invoiceId: 'inv-1', documentType: 'delivery_receipt', hash: 'b'.repeat(64), storageUri: null, fileId: '0.0.7001' };
+    const data = {
+      tokenId: '0.0.123',
+      serial: '1',
+      milestone: MilestoneType.CREATED_ISSUED,
+      location: 'Port of Mombasa',
+      evidenceDocumentIds: ['doc-receipt', 'doc-photo']
+    };
+    let prisma: any;
+
+    beforeEach(() => {
+      prisma = new (require('@prisma/client').PrismaClient)();
+      prisma.milestone.findFirst.mockResolvedValue(null);
+      prisma.user.findUnique.mockResolvedValue({ id: 'agent-1', accountId: '0.0.5005', publicKey: agentKey.publicKey.toStringDer() });
+      prisma.invoice.findFirst.mockResolvedValue({ id: 'inv-1', agentId: 'agent-1' });
+      prisma.document.findMany.mockResolvedValue([photo, receipt]);
+      prisma.milestone.create.mockImplementation(async ({ data: row }: any) => ({
+        ...row,
+        id: 'ms-1',
+        evidence: row.evidence.create,
+        createdAt: NOW
+      }));
+    });
+
+    it('should publish the agent signature and evidence hashes to HCS', async () => {
+      const prepared = await milestonesService.prepareMilestone(data, '0.0.5005', NOW);
+
+      expect(prepared.message).toContain(`Evidence: doc-photo ${photo.hash}`);
+      expect(prepared.message).toContain(`Evidence: doc-receipt ${receipt.hash}`);
+
+      const record = await milestonesService.publishMilestone(
+        { ...data, nonce: prepared.nonce, signature: sign(prepared.message) },
+        '0.0.5005',
+        NOW
+      );
+
+      const published = JSON.parse(mockHcsService.submitMessage.mock.calls[0][1]);
+      expect(published.payload.evidence).toEqual([
+        { documentId: 'doc-receipt', documentType: 'delivery_receipt', sha256: receipt.hash, storageUri: 'hfs://0.0.7001' },
+        { documentId: 'doc-photo', documentType: 'photo', sha256: photo.hash, storageUri: photo.storageUri }
+      ]);
+      expect(published.context.agentId).toBe('agent-1');
+      expect(published.attestation).toEqual(expect.objectContaining({
+        accountId: '0.0.5005',
+        publicKey: agentKey.publicKey.toStringDer(),
+        nonce: prepared.nonce
+      }));
+      expect(record.agentId).toBe('agent-1');
+      expect(record.evidence).toHaveLength(2);
+      expect(record.attestation?.messageHash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should refuse a signature from another key before publishing', async () => {
+      const prepared = await milestonesService.prepareMilestone(data, '0.0.5005', NOW);
+      const forged = Buffer.from(PrivateKey.generateED25519().sign(Buffer.from(prepared.message))).toString('hex');
+
+      await expect(milestonesService.publishMilestone({ ...data, nonce: prepared.nonce, signature: forged }, '0.0.5005', NOW))
+        .rejects.toMatchObject({ statusCode: 401, message: 'Signature verification failed' });
+      expect(mockHcsService.submitMessage).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a milestone whose file hash, notes, document URL or metadata changed after signing', async () => {
+      const signedData = {
+        ...data,
+        fileHash: 'd'.repeat(64),
+        notes: 'Container sealed',
+        documentUrl: 'https://example.com/bill-of-lading.pdf',
+        metadata: { container: 'MSCU1234567', seal: 'A-17' }
+      };
+      const prepared = await milestonesService.prepareMilestone(signedData, '0.0.5005', NOW);
+      const signature = sign(prepared.message);
+
+      for (const tampered of [
+        { fileHash: 'e'.repeat(64) },
+        { notes: 'Container sealed\nFile: none' },
+        { documentUrl: 'https://example.com/other.pdf' },
+        { metadata: { container: 'MSCU7654321', seal: 'A-17' } }
+      ]) {
+        await expect(milestonesService.publishMilestone({ ...signedData, ...tampered, nonce: prepared.nonce, signature }, '0.0.5005', NOW))
+          .rejects.toMatchObject({ statusCode: 401, message: 'Signature verification failed' });
+      }
+      expect(mockHcsService.submitMessage).not.toHaveBeenCalled();
+
+      // Metadata is signed in canonical form, so key order does not matter
+      await milestonesService.publishMilestone(
+        { ...signedData, metadata: { seal: 'A-17', container: 'MSCU1234567' }, nonce: prepared.nonce, signature },
+        '0.0.5005',
+        NOW
+      );
+      expect(mockHcsService.submitMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse evidence uploaded for another invoice', async () => {
+      prisma.document.findMany.mockResolvedValue([photo, { ...receipt, invoiceId: 'inv-2' }]);
+
+      await expect(milestonesService.prepareMilestone(data, '0.0.5005', NOW))
+        .rejects.toMatchObject({ code: 'INVALID_MILESTONE_EVIDENCE' });
+    });
+
+    it('should refuse agents not assigned to the deal', async () => {
+      prisma.invoice.findFirst.mockResolvedValue({ id: 'inv-1', agentId: 'agent-2' });
+
+      await expect(milestonesService.prepareMilestone(data, '0.0.5005', NOW))
+        .rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should verify the signature and flag evidence that no longer matches', async () => {
+      const prepared = await milestonesService.prepareMilestone(data, '0.0.5005', NOW);
+      const record = await milestonesService.publishMilestone(
+        { ...data, nonce: prepared.nonce, signature: sign(prepared.message) },
+        '0.0.5005',
+        NOW
+      );
+      const stored = prisma.milestone.create.mock.calls[0][0].data;
+      prisma.milestone.findUnique.mockResolvedValue({ ...stored, id: record.id, evidence: stored.evidence.create });
+      prisma.document.findUnique.mockImplementation(async ({ where }: any) =>
+        where.id === 'doc-photo' ? { ...photo, hash: 'c'.repeat(64) } : receipt
+      );
+
+      const verification = await milestonesService.verifyMilestone(record.id);
+
+      expect(verification.signed).toBe(true);
+      expect(verification.signatureValid).toBe(true);
+      expect(verification.evidence.map(item => [item.documentId, item.hashMatches, item.contentIntact])).toEqual([
+        ['doc-receipt', true, true],
+        ['doc-photo', false, true]
+      ]);
+      expect(verification.verified).toBe(false);
+    });
+  });
+
   describe('getMilestones', () => {
     it('should return milestones for a token', async () => {
       const tokenId = '0.0.123';
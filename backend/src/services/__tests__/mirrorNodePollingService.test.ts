@@ -1,19 +1,45 @@
-import { mirrorNodePollingService, MirrorNodePollingService } from '../mirrorNodePollingService';
+import { MirrorNodePollingService, MirrorCursorSource } from '../mirrorNodePollingService';
 import { mirrorNodeService } from '../mirrorNodeService';
 import { websocketService } from '../websocketService';
 import { logger } from '../../utils/logger';
+import { CacheService } from '../cacheService';
 
 // Mock dependencies
 jest.mock('../mirrorNodeService');
 jest.mock('../websocketService');
+jest.mock('../cacheService', () => ({
+  CacheService: { invalidateTags: jest.fn() },
+  CacheTags: {
+    topic: (topicId: string) => `topic:${topicId}`,
+    invoice: (tokenId: string, serialNumber: string) => `invoice:${tokenId}:${serialNumber}`
+  }
+}));
 jest.mock('../../utils/logger', () => ({
   logger: {
     info: jest.fn(),
     error: jest.fn(),
-    warn: jest.fn()
+    warn: jest.fn(),
+    debug: jest.fn()
   }
 }));
 
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma = {
+    dealTopic: {
+      findMany: jest.fn()
+    },
+    mirrorCursor: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      updateMany: jest.fn()
+    }
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+
 const mockMirrorNodeService = mirrorNodeService as jest.Mocked<typeof mirrorNodeService>;
 const mockWebsocketService = websocketService as jest.Mocked<typeof websocketService>;
 
@@ -22,6 +48,8 @@ describe('MirrorNodePollingService', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockPrisma.dealTopic.findMany.mockResolvedValue([]);
+    mockPrisma.mirrorCursor.findMany.mockResolvedValue([]);
     
     // Mock environment variables before creating service
     process.env.MIRROR_POLLING_ENABLED = 'true';
@@ -142,10 +170,11 @@ describe('MirrorNodePollingService', () => {
 
       expect(mockMirrorNodeService.getHCSMessages).toHaveBeenCalledWith(
         '0.0.123456',
-        expect.objectContaining({
+        {
           limit: 25,
-          order: 'desc'
-        })
+          order: 'asc',
+          sequencenumber: 'gt:0'
+        }
       );
 
       expect(mockWebsocketService.broadcastMilestoneUpdate).toHaveBeenCalledWith(
@@ -160,6 +189,21 @@ describe('MirrorNodePollingService', () => {
           invoiceId: '1'
         })
       );
+      expect(CacheService.invalidateTags).toHaveBeenCalledWith(['topic:0.0.123456', 'invoice:0.0.789012:1']);
+    });
+
+    it('should still advance the cursor when cache invalidation fails', async () => {
+      (CacheService.invalidateTags as jest.Mock).mockRejectedValueOnce(new Error('ECONNREFUSED'));
+      mockMirrorNodeService.getHCSMessages.mockResolvedValue([
+        { consensus_timestamp: '1', topic_id: '0.0.123456', message: '', running_hash: 'h', running_hash_version: 3, sequence_number: 1, payer_account_id: '0.0.123' }
+      ]);
+      mockMirrorNodeService.parseInvoiceMessages.mockReturnValue([]);
+
+      await pollingService.forcePoll();
+
+      expect(mockPrisma.mirrorCursor.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ update: expect.objectContaining({ lastSequenceNumber: 1 }) })
+      );
     });
 
     it('should handle empty HCS messages', async () => {
@@ -292,11 +336,15 @@ describe('MirrorNodePollingService', () => {
           topicIds: ['0.0.123456'],
           tokenIds: ['0.0.789012']
         }),
-        lastPolledState: {}
+        lastPolledState: {},
+        topics: []
       });
     });
 
     it('should track last polled state', async () => {
+      mockPrisma.mirrorCursor.findMany.mockResolvedValue([
+        { topicId: '0.0.123456', lastSequenceNumber: 4, lastTimestamp: '2024-01-01T11:00:00Z' }
+      ]);
       const mockMessages = [
         {
           consensus_timestamp: '2024-01-01T12:00:00Z',
@@ -336,4 +384,104 @@ describe('MirrorNodePollingService', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('cursors and topic subscriptions', () => {
+    const hcsMessage = (sequenceNumber: number, topicId: string = '0.0.123456') => ({
+      consensus_timestamp: `1704110400.00000000${sequenceNumber}`,
+      topic_id: topicId,
+      message: Buffer.from('{}').toString('base64'),
+      running_hash: `hash${sequenceNumber}`,
+      running_hash_version: 3,
+      sequence_number: sequenceNumber,
+      payer_account_id: '0.0.123'
+    });
+
+    beforeEach(() => {
+      mockMirrorNodeService.parseInvoiceMessages.mockReturnValue([]);
+      mockMirrorNodeService.getNFTsByToken.mockResolvedValue([]);
+    });
+
+    it('should resume from the persisted cursor and move it past new messages', async () => {
+      mockPrisma.mirrorCursor.findMany.mockResolvedValue([
+        { topicId: '0.0.123456', lastSequenceNumber: 7, lastTimestamp: '1704110300.000000000' }
+      ]);
+      mockMirrorNodeService.getHCSMessages.mockResolvedValueOnce([hcsMessage(8), hcsMessage(9)]);
+
+      await pollingService.forcePoll();
+
+      expect(mockMirrorNodeService.getHCSMessages).toHaveBeenCalledWith('0.0.123456', expect.objectContaining({ sequencenumber: 'gt:7' }));
+      expect(mockPrisma.mirrorCursor.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { topicId: '0.0.123456' },
+        update: { lastSequenceNumber: 9, lastTimestamp: '1704110400.000000009' }
+      }));
+      expect(pollingService.getStats().lastPolledState['0.0.123456'].lastSequenceNumber).toBe(9);
+    });
+
+    it('should poll every active deal topic and drop deactivated ones', async () => {
+      mockPrisma.dealTopic.findMany.mockResolvedValueOnce([{ topicId: '0.0.900001', invoiceKey: 'inv-1' }]);
+      mockMirrorNodeService.getHCSMessages.mockResolvedValue([]);
+
+      await pollingService.forcePoll();
+
+      expect(mockMirrorNodeService.getHCSMessages.mock.calls.map(call => call[0])).toEqual(['0.0.123456', '0.0.900001']);
+      expect(pollingService.getStats().topics).toContainEqual({
+        topicId: '0.0.900001',
+        source: MirrorCursorSource.DEAL_TOPIC,
+        invoiceKey: 'inv-1'
+      });
+
+      mockMirrorNodeService.getHCSMessages.mockClear();
+      await pollingService.forcePoll();
+
+      expect(mockMirrorNodeService.getHCSMessages.mock.calls.map(call => call[0])).toEqual(['0.0.123456']);
+    });
+
+    it('should persist subscriptions and unsubscriptions of deal topics', async () => {
+      await pollingService.subscribeTopic('0.0.900002', 'inv-2');
+      await pollingService.unsubscribeTopic('0.0.900002');
+
+      expect(mockPrisma.mirrorCursor.upsert).toHaveBeenCalledWith({
+        where: { topicId: '0.0.900002' },
+        create: { topicId: '0.0.900002', source: MirrorCursorSource.DEAL_TOPIC, invoiceKey: 'inv-2' },
+        update: { isActive: true }
+      });
+      expect(mockPrisma.mirrorCursor.updateMany).toHaveBeenCalledWith({
+        where: { topicId: '0.0.900002' },
+        data: { isActive: false }
+      });
+      expect(pollingService.getStats().topics).toEqual([]);
+    });
+
+    it('should backfill a sequence gap before broadcasting', async () => {
+      mockMirrorNodeService.getHCSMessages.mockResolvedValueOnce([hcsMessage(1), hcsMessage(4)]);
+      mockMirrorNodeService.getHCSMessage
+        .mockResolvedValueOnce(hcsMessage(2))
+        .mockResolvedValueOnce(hcsMessage(3));
+
+      await pollingService.forcePoll();
+
+      expect(mockMirrorNodeService.getHCSMessage.mock.calls).toEqual([['0.0.123456', 2], ['0.0.123456', 3]]);
+      const broadcast = mockMirrorNodeService.parseInvoiceMessages.mock.calls[0][0];
+      expect(broadcast.map(m => m.sequence_number)).toEqual([1, 2, 3, 4]);
+      expect(pollingService.getStats().lastPolledState['0.0.123456'].lastSequenceNumber).toBe(4);
+    });
+
+    it('should hold the cursor before an unfilled gap, then skip it after the retries run out', async () => {
+      pollingService.updateConfig({ maxGapRetries: 1 });
+      mockMirrorNodeService.getHCSMessages.mockResolvedValue([hcsMessage(1), hcsMessage(3)]);
+      mockMirrorNodeService.getHCSMessage.mockResolvedValue(null);
+
+      await pollingService.forcePoll();
+
+      expect(pollingService.getStats().lastPolledState['0.0.123456'].lastSequenceNumber).toBe(1);
+
+      mockMirrorNodeService.getHCSMessages.mockResolvedValue([hcsMessage(3)]);
+      await pollingService.forcePoll();
+
+      expect(pollingService.getStats().lastPolledState['0.0.123456'].lastSequenceNumber).toBe(3);
+      expect(mockPrisma.mirrorCursor.upsert).toHaveBeenLastCalledWith(expect.objectContaining({
+        update: expect.objectContaining({ lastSequenceNumber: 3, skippedMessages: { increment: 1 } })
+      }));
+    });
+  });
+});
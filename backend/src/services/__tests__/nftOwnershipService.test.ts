@@ -0,0 +1,327 @@
+import { NftOwnershipService, NftTransferType, toEvmAddress } from '../nftOwnershipService';
+import { mirrorNodeService } from '../mirrorNodeService';
+import { contractService } from '../contract';
+import { invoiceService, InvoiceEventType } from '../invoices';
+import { ledgerService } from '../ledgerService';
+import { AuthorizationError, NotFoundError } from '../../middleware/errorHandler';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma = {
+    invoice: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn()
+    },
+    nftTransfer: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn()
+    },
+    funding: {
+      findFirst: jest.fn(),
+      update: jest.fn()
+    },
+    user: {
+      findUnique: jest.fn()
+    }
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+jest.mock('../mirrorNodeService', () => ({
+  mirrorNodeService: {
+    getNFTTransactions: jest.fn(),
+    getTransaction: jest.fn()
+  }
+}));
+
+jest.mock('../contract', () => ({
+  contractService: {
+    getHolder: jest.fn(),
+    updateHolder: jest.fn(),
+    settle: jest.fn()
+  }
+}));
+
+jest.mock('../invoices', () => ({
+  ...jest.requireActual('../invoices'),
+  invoiceService: {
+    addInvoiceEvent: jest.fn()
+  }
+}));
+
+jest.mock('../ledgerService', () => ({
+  ledgerService: {
+    recordPositionTransfer: jest.fn()
+  }
+}));
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+const mockMirror = mirrorNodeService as jest.Mocked<typeof mirrorNodeService>;
+const mockContract = contractService as jest.Mocked<typeof contractService>;
+const mockInvoices = invoiceService as jest.Mocked<typeof invoiceService>;
+const mockLedger = ledgerService as jest.Mocked<typeof ledgerService>;
+
+const SUPPLIER = '0.0.2002';
+const INVESTOR = '0.0.1001';
+const BUYER = '0.0.3003';
+
+const invoiceRow = (overrides: Record<string, any> = {}) => ({
+  id: 'inv-1',
+  invoiceNumber: 'INV-001',
+  status: 'FUNDED',
+  currency: 'HBAR',
+  amount: 1000,
+  nftTokenId: '0.0.7000',
+  nftSerialNumber: '1',
+  nftHolderAccountId: null,
+  ...overrides
+});
+
+const fundingRow = (overrides: Record<string, any> = {}) => ({
+  id: 'fund-1',
+  invoiceId: 'inv-1',
+  investorId: 'investor-1',
+  holderId: null,
+  amount: 1000,
+  status: 'ACTIVE',
+  escrowId: '0xescrow',
+  investor: { id: 'investor-1', accountId: INVESTOR },
+  holder: null,
+  ...overrides
+});
+
+const nftTransaction = (consensusTimestamp: string, type: string, sender: string | null, receiver: string) => ({
+  consensus_timestamp: consensusTimestamp,
+  transaction_id: `${receiver}-${consensusTimestamp.replace('.', '-')}`,
+  type,
+  sender_account_id: sender,
+  receiver_account_id: receiver,
+  is_approval: false,
+  nonce: 0
+});
+
+describe('NftOwnershipService', () => {
+  let service: NftOwnershipService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new NftOwnershipService({ enabled: true, pageLimit: 100, settlementPayouts: true });
+    mockPrisma.invoice.findUnique.mockResolvedValue(invoiceRow());
+    mockPrisma.nftTransfer.findFirst.mockResolvedValue(null);
+    mockPrisma.funding.findFirst.mockResolvedValue(fundingRow());
+    mockPrisma.user.findUnique.mockResolvedValue({ id: 'buyer-1', accountId: BUYER, roles: '["INVESTOR"]' });
+    mockMirror.getTransaction.mockResolvedValue(null);
+    mockContract.getHolder.mockResolvedValue(toEvmAddress(INVESTOR));
+  });
+
+  describe('syncInvoice', () => {
+    it('should record the mint and funding handover without moving the position', async () => {
+      mockMirror.getNFTTransactions.mockResolvedValue({
+        transactions: [
+          nftTransaction('1700000000.000000001', 'TOKENMINT', null, SUPPLIER),
+          nftTransaction('1700000100.000000001', 'CRYPTOTRANSFER', SUPPLIER, INVESTOR)
+        ],
+        links: { next: null }
+      });
+
+      const result = await service.syncInvoice('inv-1');
+
+      expect(result).toEqual({ invoiceId: 'inv-1', holderAccountId: INVESTOR, recorded: 2, positionsMoved: 0 });
+      expect(mockPrisma.nftTransfer.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({ type: NftTransferType.MINT, fromAccountId: null, toAccountId: SUPPLIER })
+      }));
+      expect(mockPrisma.invoice.update).toHaveBeenCalledWith({ where: { id: 'inv-1' }, data: { nftHolderAccountId: INVESTOR } });
+      expect(mockPrisma.funding.update).not.toHaveBeenCalled();
+      expect(mockLedger.recordPositionTransfer).not.toHaveBeenCalled();
+    });
+
+    it('should move the position to the buyer at the price the seller received', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoiceRow({ nftHolderAccountId: INVESTOR }));
+      mockPrisma.nftTransfer.findFirst.mockResolvedValue({ consensusTimestamp: '1700000100.000000001' });
+      mockMirror.getNFTTransactions.mockResolvedValue({
+        transactions: [nftTransaction('1700000200.000000001', 'CRYPTOTRANSFER', INVESTOR, BUYER)],
+        links: { next: null }
+      });
+      mockMirror.getTransaction.mockResolvedValue({
+        transfers: [
+          { account: BUYER, amount: -105000000000, is_approval: false },
+          { account: INVESTOR, amount: 105000000000, is_approval: false }
+        ]
+      } as any);
+
+      const result = await service.syncInvoice('inv-1');
+
+      expect(mockMirror.getNFTTransactions).toHaveBeenCalledWith('0.0.7000', '1', expect.objectContaining({ timestamp: 'gt:1700000100.000000001' }));
+      expect(result).toEqual(expect.objectContaining({ holderAccountId: BUYER, positionsMoved: 1 }));
+      expect(mockPrisma.nftTransfer.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({ type: NftTransferType.TRANSFER, price: 1050 })
+      }));
+      expect(mockPrisma.funding.update).toHaveBeenCalledWith({ where: { id: 'fund-1' }, data: { holderId: 'buyer-1' } });
+      expect(mockLedger.recordPositionTransfer).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'fund-1' }), 'investor-1', 'buyer-1', 1050, '1700000200.000000001', expect.any(Date)
+      );
+      expect(mockContract.updateHolder).toHaveBeenCalledWith('inv-1', toEvmAddress(BUYER));
+      expect(mockInvoices.addInvoiceEvent).toHaveBeenCalledWith(
+        'inv-1', InvoiceEventType.NFT_TRANSFERRED, expect.stringContaining('for 1050 HBAR'), expect.anything(), undefined, expect.any(Date), expect.any(String)
+      );
+    });
+
+    it('should keep the position with its holder when the NFT goes to an unregistered account', async () => {
+      mockMirror.getNFTTransactions.mockResolvedValue({
+        transactions: [nftTransaction('1700000200.000000001', 'CRYPTOTRANSFER', INVESTOR, BUYER)],
+        links: { next: null }
+      });
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      const result = await service.syncInvoice('inv-1');
+
+      expect(result.positionsMoved).toBe(0);
+      expect(mockPrisma.funding.update).not.toHaveBeenCalled();
+      expect(mockContract.updateHolder).not.toHaveBeenCalled();
+    });
+
+    it('should still move the position when the escrow holder cannot be updated', async () => {
+      mockMirror.getNFTTransactions.mockResolvedValue({
+        transactions: [nftTransaction('1700000200.000000001', 'CRYPTOTRANSFER', INVESTOR, BUYER)],
+        links: { next: null }
+      });
+      mockContract.updateHolder.mockRejectedValue(new Error('Ownable: caller is not the owner'));
+
+      const result = await service.syncInvoice('inv-1');
+
+      expect(result.positionsMoved).toBe(1);
+      expect(mockPrisma.funding.update).toHaveBeenCalled();
+    });
+
+    it('should follow Mirror Node pagination', async () => {
+      mockMirror.getNFTTransactions
+        .mockResolvedValueOnce({
+          transactions: [nftTransaction('1700000000.000000001', 'TOKENMINT', null, SUPPLIER)],
+          links: { next: '/api/v1/tokens/0.0.7000/nfts/1/transactions?timestamp=gt:1700000000.000000001' }
+        })
+        .mockResolvedValueOnce({ transactions: [], links: { next: null } });
+
+      await service.syncInvoice('inv-1');
+
+      expect(mockMirror.getNFTTransactions).toHaveBeenCalledTimes(2);
+      expect(mockMirror.getNFTTransactions).toHaveBeenLastCalledWith('0.0.7000', '1', expect.objectContaining({
+        next: '/api/v1/tokens/0.0.7000/nfts/1/transactions?timestamp=gt:1700000000.000000001'
+      }));
+    });
+  });
+
+  describe('authorizeSale', () => {
+    it('should only let the current holder sell', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoiceRow({ nftHolderAccountId: INVESTOR }));
+      mockMirror.getNFTTransactions.mockResolvedValue({ transactions: [], links: { next: null } });
+
+      await expect(service.authorizeSale('inv-1', SUPPLIER, BUYER)).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should return the invoice and position for a valid sale', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoiceRow({ nftHolderAccountId: INVESTOR }));
+      mockPrisma.invoice.findUniqueOrThrow.mockResolvedValue({ ...invoiceRow({ nftHolderAccountId: INVESTOR }), syndicate: null });
+      mockMirror.getNFTTransactions.mockResolvedValue({ transactions: [], links: { next: null } });
+
+      const sale = await service.authorizeSale('inv-1', INVESTOR, BUYER);
+
+      expect(sale.funding.id).toBe('fund-1');
+      expect(sale.buyer.id).toBe('buyer-1');
+    });
+  });
+
+  describe('getOwnershipHistory', () => {
+    it('should throw for an unknown NFT', async () => {
+      mockPrisma.invoice.findFirst.mockResolvedValue(null);
+      mockPrisma.nftTransfer.findMany.mockResolvedValue([]);
+
+      await expect(service.getOwnershipHistory('0.0.9', '1')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('payoutSettlement', () => {
+    const releasedFunding = (overrides: Record<string, any> = {}) => fundingRow({ status: 'RELEASED', disputes: [], ...overrides });
+
+    it('should forward an HBAR settlement through the escrow', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue({ ...invoiceRow(), fundings: [releasedFunding()], events: [] });
+      mockContract.settle.mockResolvedValue({ transactionHash: '0xsettle', holder: toEvmAddress(BUYER), amount: '1000' } as any);
+
+      const result = await service.payoutSettlement('inv-1');
+
+      expect(mockContract.settle).toHaveBeenCalledWith('inv-1', '1000');
+      expect(result?.transactionHash).toBe('0xsettle');
+    });
+
+    it('should convert a fiat settlement to HBAR', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue({ ...invoiceRow({ currency: 'USD' }), fundings: [releasedFunding()], events: [] });
+      mockContract.settle.mockResolvedValue({ transactionHash: '0xsettle', holder: toEvmAddress(BUYER), amount: '12500' } as any);
+
+      await service.payoutSettlement('inv-1');
+
+      expect(mockContract.settle).toHaveBeenCalledWith('inv-1', '12500');
+    });
+
+    it('should pay the face value the funding bought rather than the invoice amount', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue({
+        ...invoiceRow(),
+        fundings: [releasedFunding({ amount: 580, expectedReturn: 20 })],
+        events: []
+      });
+      mockContract.settle.mockResolvedValue({ transactionHash: '0xsettle', holder: toEvmAddress(BUYER), amount: '600' } as any);
+
+      await service.payoutSettlement('inv-1');
+
+      expect(mockContract.settle).toHaveBeenCalledWith('inv-1', '600');
+    });
+
+    it('should not pay out an escrow split by a dispute', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue({
+        ...invoiceRow(),
+        fundings: [releasedFunding({ disputes: [{ id: 'dispute-1', status: 'RESOLVED', investorShareBps: 5000 }] })],
+        events: []
+      });
+
+      expect(await service.payoutSettlement('inv-1')).toBeNull();
+      expect(mockContract.settle).not.toHaveBeenCalled();
+    });
+
+    it('should not pay out an escrow that was never released', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue({ ...invoiceRow(), fundings: [fundingRow()], events: [] });
+
+      expect(await service.payoutSettlement('inv-1')).toBeNull();
+      expect(mockContract.settle).not.toHaveBeenCalled();
+    });
+
+    it('should not pay a settlement twice', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue({
+        ...invoiceRow(),
+        fundings: [releasedFunding()],
+        events: [{ id: 'event-1', eventType: 'SETTLEMENT_PAID' }]
+      });
+
+      expect(await service.payoutSettlement('inv-1')).toBeNull();
+      expect(mockContract.settle).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing when payouts are disabled', async () => {
+      const disabled = new NftOwnershipService({ settlementPayouts: false });
+
+      expect(await disabled.payoutSettlement('inv-1')).toBeNull();
+      expect(mockContract.settle).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,331 @@
+import { OutboxService, OutboxAction, OutboxStatus, computeBackoff } from '../outboxService';
+import { HederaService } from '../hedera';
+import { invoiceService, InvoiceEventType } from '../invoices';
+import { documentEncryptionService } from '../documentEncryptionService';
+import { documentStoreService } from '../documentStoreService';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma = {
+    outboxMessage: {
+      upsert: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+      groupBy: jest.fn()
+    },
+    invoiceEvent: {
+      update: jest.fn()
+    },
+    document: {
+      upsert: jest.fn()
+    },
+    $transaction: jest.fn((fn: any) => fn(prisma))
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+jest.mock('../hedera', () => ({
+  HederaService: jest.fn().mockImplementation(() => ({
+    uploadPdfToHfs: jest.fn().mockResolvedValue({ fileId: '0.0.7001', fileHashSha384: 'hash', transactionId: 'tx-hfs' }),
+    mintInvoiceNFT: jest.fn().mockResolvedValue({ serialNumber: '3', transactionId: 'tx-mint' }),
+    submitInvoiceStatusMessage: jest.fn().mockResolvedValue({ transactionId: 'tx-status', sequenceNumber: '4' }),
+    submitTopicMessage: jest.fn().mockResolvedValue({ transactionId: 'tx-hcs', sequenceNumber: '12' })
+  }))
+}));
+
+jest.mock('../documentEncryptionService', () => ({
+  ...jest.requireActual('../documentEncryptionService'),
+  documentEncryptionService: {
+    enabled: true,
+    encrypt: jest.fn(),
+    storeKeys: jest.fn()
+  }
+}));
+
+jest.mock('../documentStoreService', () => ({
+  documentStoreService: {
+    readStaged: jest.fn(),
+    unstage: jest.fn()
+  }
+}));
+
+jest.mock('../invoices', () => ({
+  ...jest.requireActual('../invoices'),
+  invoiceService: {
+    getInvoiceById: jest.fn(),
+    updateInvoice: jest.fn(),
+    addInvoiceEvent: jest.fn()
+  }
+}));
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+const mockHedera = (HederaService as unknown as jest.Mock).mock.results[0].value;
+const mockInvoices = invoiceService as jest.Mocked<typeof invoiceService>;
+const mockEncryption = documentEncryptionService as jest.Mocked<typeof documentEncryptionService>;
+const mockDocumentStore = documentStoreService as jest.Mocked<typeof documentStoreService>;
+
+const NOW = new Date('2024-05-01T12:00:00Z');
+const STAGED_PDF = { backend: 'LOCAL', uri: 'local://pdf-hash', sha256: 'pdf-hash' };
+
+const message = (overrides: Record<string, any> = {}) => ({
+  id: 'msg-1',
+  action: OutboxAction.HCS_MESSAGE,
+  aggregateId: 'fund-1',
+  idempotencyKey: 'hcs:funding-created:fund-1',
+  payload: JSON.stringify({ topicId: '0.0.5000', message: { eventType: 'FUNDING_CREATED' }, invoiceEventId: 'event-1' }),
+  status: OutboxStatus.PENDING,
+  attempts: 0,
+  maxAttempts: 3,
+  nextAttemptAt: NOW,
+  createdAt: NOW,
+  ...overrides
+});
+
+describe('computeBackoff', () => {
+  it('should double the delay on every attempt up to the cap', () => {
+    const config = { baseDelay: 1000, maxDelay: 5000 };
+
+    expect([1, 2, 3, 4].map(attempts => computeBackoff(attempts, config))).toEqual([1000, 2000, 4000, 5000]);
+  });
+});
+
+describe('OutboxService', () => {
+  let service: OutboxService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new OutboxService({ maxAttempts: 3, baseDelay: 1000, maxDelay: 60000, lockTimeout: 60000 }, { now: () => NOW });
+
+    mockPrisma.outboxMessage.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.outboxMessage.findFirst.mockResolvedValue(null);
+  });
+
+  describe('enqueue', () => {
+    it('should store the message in the caller transaction and keep an existing key as is', async () => {
+      const tx = { outboxMessage: { upsert: jest.fn() } };
+
+      await service.enqueue(tx as any, {
+        action: OutboxAction.NFT_MINT,
+        aggregateType: 'Invoice',
+        aggregateId: 'inv-1',
+        invoiceId: 'inv-1',
+        idempotencyKey: 'nft-mint:inv-1',
+        payload: { invoiceId: 'inv-1', tokenId: '0.0.6000' }
+      });
+
+      expect(tx.outboxMessage.upsert).toHaveBeenCalledWith({
+        where: { idempotencyKey: 'nft-mint:inv-1' },
+        create: expect.objectContaining({
+          action: OutboxAction.NFT_MINT,
+          aggregateId: 'inv-1',
+          payload: JSON.stringify({ invoiceId: 'inv-1', tokenId: '0.0.6000' }),
+          maxAttempts: 3,
+          nextAttemptAt: NOW
+        }),
+        update: {}
+      });
+      expect(mockPrisma.outboxMessage.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runOnce', () => {
+    it('should submit HCS messages with their idempotency key and link the invoice event', async () => {
+      mockPrisma.outboxMessage.findMany.mockResolvedValue([message()]);
+
+      const summary = await service.runOnce();
+
+      expect(summary).toEqual(expect.objectContaining({ processed: 1, completed: 1 }));
+      expect(mockHedera.submitTopicMessage).toHaveBeenCalledWith('0.0.5000', {
+        eventType: 'FUNDING_CREATED',
+        idempotencyKey: 'hcs:funding-created:fund-1'
+      });
+      expect(mockPrisma.invoiceEvent.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: expect.objectContaining({ hcsMessageId: '12' })
+      });
+      expect(mockPrisma.outboxMessage.update).toHaveBeenCalledWith({
+        where: { id: 'msg-1' },
+        data: expect.objectContaining({ status: OutboxStatus.COMPLETED, result: JSON.stringify({ transactionId: 'tx-hcs', sequenceNumber: '12' }) })
+      });
+    });
+
+    it('should schedule a failed message for a retry with backoff', async () => {
+      mockPrisma.outboxMessage.findMany.mockResolvedValue([message({ attempts: 1 })]);
+      mockHedera.submitTopicMessage.mockRejectedValueOnce(new Error('BUSY'));
+
+      const summary = await service.runOnce();
+
+      expect(summary.retried).toBe(1);
+      expect(mockPrisma.outboxMessage.update).toHaveBeenCalledWith({
+        where: { id: 'msg-1' },
+        data: { status: OutboxStatus.PENDING, lastError: 'BUSY', lockedAt: null, nextAttemptAt: new Date(NOW.getTime() + 2000) }
+      });
+    });
+
+    it('should dead-letter a message on its last attempt and run the dead-letter hook', async () => {
+      const onDeadLetter = jest.fn();
+      service.registerHandler(OutboxAction.ESCROW_DEPOSIT, { execute: jest.fn().mockRejectedValue(new Error('reverted')), onDeadLetter });
+      mockPrisma.outboxMessage.findMany.mockResolvedValue([
+        message({ action: OutboxAction.ESCROW_DEPOSIT, attempts: 2, payload: JSON.stringify({ fundingId: 'fund-1' }) })
+      ]);
+
+      const summary = await service.runOnce();
+
+      expect(summary.deadLettered).toBe(1);
+      expect(mockPrisma.outboxMessage.update).toHaveBeenCalledWith({
+        where: { id: 'msg-1' },
+        data: { status: OutboxStatus.DEAD_LETTERED, lastError: 'reverted', lockedAt: null }
+      });
+      expect(onDeadLetter).toHaveBeenCalledWith({ fundingId: 'fund-1' }, expect.objectContaining({ id: 'msg-1' }));
+    });
+
+    it('should hold later messages of an aggregate behind one that failed', async () => {
+      mockPrisma.outboxMessage.findMany.mockResolvedValue([
+        message({ id: 'msg-1', aggregateId: 'inv-1' }),
+        message({ id: 'msg-2', aggregateId: 'inv-1' }),
+        message({ id: 'msg-3', aggregateId: 'inv-2' })
+      ]);
+      mockHedera.submitTopicMessage.mockRejectedValueOnce(new Error('BUSY'));
+
+      const summary = await service.runOnce();
+
+      expect(summary).toEqual(expect.objectContaining({ processed: 2, retried: 1, completed: 1 }));
+      expect(mockPrisma.outboxMessage.updateMany).not.toHaveBeenCalledWith(expect.objectContaining({ where: expect.objectContaining({ id: 'msg-2' }) }));
+    });
+
+    it('should skip messages another worker claimed first', async () => {
+      mockPrisma.outboxMessage.findMany.mockResolvedValue([message()]);
+      mockPrisma.outboxMessage.updateMany
+        .mockResolvedValueOnce({ count: 0 }) // stale locks
+        .mockResolvedValueOnce({ count: 0 }); // claim
+
+      const summary = await service.runOnce();
+
+      expect(summary.processed).toBe(0);
+      expect(mockHedera.submitTopicMessage).not.toHaveBeenCalled();
+    });
+
+    it('should release messages left in PROCESSING past the lock timeout', async () => {
+      mockPrisma.outboxMessage.updateMany.mockResolvedValueOnce({ count: 2 });
+      mockPrisma.outboxMessage.findMany.mockResolvedValue([]);
+
+      const summary = await service.runOnce();
+
+      expect(summary.released).toBe(2);
+      expect(mockPrisma.outboxMessage.updateMany).toHaveBeenCalledWith({
+        where: { status: OutboxStatus.PROCESSING, lockedAt: { lt: new Date(NOW.getTime() - 60000) } },
+        data: { status: OutboxStatus.PENDING, lockedAt: null, nextAttemptAt: NOW }
+      });
+    });
+  });
+
+  describe('invoice handlers', () => {
+    it('should mint with the file uploaded by the earlier message', async () => {
+      mockInvoices.getInvoiceById.mockResolvedValue({ id: 'inv-1', fileId: '0.0.7001', fileHash: 'hash', nftSerialNumber: null } as any);
+      mockPrisma.outboxMessage.findMany.mockResolvedValue([
+        message({ action: OutboxAction.NFT_MINT, payload: JSON.stringify({ invoiceId: 'inv-1', tokenId: '0.0.6000', metadata: { invoiceNumber: 'INV-1' } }) })
+      ]);
+
+      await service.runOnce();
+
+      expect(mockHedera.mintInvoiceNFT).toHaveBeenCalledWith('0.0.6000', { invoiceNumber: 'INV-1', fileId: '0.0.7001', fileHash: 'hash' });
+      expect(mockInvoices.updateInvoice).toHaveBeenCalledWith('inv-1', { nftTokenId: '0.0.6000', nftSerialNumber: '3' });
+      expect(mockInvoices.addInvoiceEvent).toHaveBeenCalledWith(
+        'inv-1', InvoiceEventType.NFT_MINTED, expect.any(String), expect.any(Object), undefined, undefined, 'tx-mint'
+      );
+    });
+
+    it('should upload the PDF encrypted and store its wrapped keys with the file', async () => {
+      const dataKey = Buffer.alloc(32, 7);
+      mockInvoices.getInvoiceById.mockResolvedValue({ id: 'inv-1', supplierId: 'supplier-1', fileId: null } as any);
+      mockEncryption.encrypt.mockReturnValue({ ciphertext: Buffer.from('YHENC1sealed'), dataKey, ciphertextHash: 'sealed-hash' });
+      mockDocumentStore.readStaged.mockResolvedValue(Buffer.from('JVBERi0=', 'base64'));
+      mockHedera.uploadPdfToHfs.mockResolvedValueOnce({ fileId: '0.0.7002', fileHashSha384: 'hash', storedHashSha384: 'sealed-hash', transactionId: 'tx-hfs' });
+      mockPrisma.outboxMessage.findMany.mockResolvedValue([
+        message({ action: OutboxAction.HFS_UPLOAD, payload: JSON.stringify({ invoiceId: 'inv-1', staged: STAGED_PDF, mimeType: 'application/pdf', filename: 'a.pdf' }) })
+      ]);
+
+      await service.runOnce();
+
+      expect(mockDocumentStore.readStaged).toHaveBeenCalledWith(STAGED_PDF);
+      expect(mockHedera.uploadPdfToHfs).toHaveBeenCalledWith(Buffer.from('JVBERi0=', 'base64'), 'application/pdf', 'a.pdf', Buffer.from('YHENC1sealed'));
+      expect(mockInvoices.updateInvoice).toHaveBeenCalledWith('inv-1', { fileId: '0.0.7002', fileHash: 'hash', fileCiphertextHash: 'sealed-hash' }, mockPrisma);
+      expect(mockEncryption.storeKeys).toHaveBeenCalledWith('0.0.7002', 'inv-1', dataKey, mockPrisma);
+      expect(mockPrisma.document.upsert).toHaveBeenCalledWith({
+        where: { fileId: '0.0.7002' },
+        create: expect.objectContaining({ invoiceId: 'inv-1', supplierId: 'supplier-1', documentType: 'invoice', encrypted: true }),
+        update: {}
+      });
+      expect(mockDocumentStore.unstage).toHaveBeenCalledWith(STAGED_PDF);
+    });
+
+    it('should not upload a file again when the invoice already has one', async () => {
+      mockInvoices.getInvoiceById.mockResolvedValue({ id: 'inv-1', fileId: '0.0.7001', fileHash: 'hash' } as any);
+      mockPrisma.outboxMessage.findMany.mockResolvedValue([
+        message({ action: OutboxAction.HFS_UPLOAD, payload: JSON.stringify({ invoiceId: 'inv-1', staged: STAGED_PDF, mimeType: 'application/pdf', filename: 'a.pdf' }) })
+      ]);
+
+      const summary = await service.runOnce();
+
+      expect(summary.completed).toBe(1);
+      expect(mockHedera.uploadPdfToHfs).not.toHaveBeenCalled();
+      expect(mockDocumentStore.readStaged).not.toHaveBeenCalled();
+      expect(mockDocumentStore.unstage).toHaveBeenCalledWith(STAGED_PDF);
+    });
+  });
+
+  describe('dispatchAggregate', () => {
+    it('should stop at a message that is still backing off', async () => {
+      mockPrisma.outboxMessage.findMany
+        .mockResolvedValueOnce([
+          message({ id: 'msg-1', nextAttemptAt: new Date(NOW.getTime() + 1000) }),
+          message({ id: 'msg-2' })
+        ])
+        .mockResolvedValueOnce([]);
+
+      await service.dispatchAggregate('fund-1');
+
+      expect(mockPrisma.outboxMessage.updateMany).not.toHaveBeenCalled();
+      expect(mockHedera.submitTopicMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retry', () => {
+    it('should requeue a dead-lettered message with fresh attempts', async () => {
+      mockPrisma.outboxMessage.findUnique.mockResolvedValue(message({ status: OutboxStatus.DEAD_LETTERED, attempts: 3 }));
+
+      await service.retry('msg-1');
+
+      expect(mockPrisma.outboxMessage.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'msg-1' },
+        data: { status: OutboxStatus.PENDING, attempts: 0, nextAttemptAt: NOW, lastError: null }
+      }));
+    });
+
+    it('should refuse to retry messages that are not dead-lettered', async () => {
+      mockPrisma.outboxMessage.findUnique.mockResolvedValue(message({ status: OutboxStatus.COMPLETED }));
+
+      await expect(service.retry('msg-1')).rejects.toThrow('Only dead-lettered messages can be retried, message is COMPLETED');
+    });
+
+    it('should reject unknown messages', async () => {
+      mockPrisma.outboxMessage.findUnique.mockResolvedValue(null);
+
+      await expect(service.retry('missing')).rejects.toThrow('Outbox message not found');
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import {
+  OverdueSchedulerService,
+  OverdueSchedulerConfig,
+  OverdueStage,
+  getDaysOverdue,
+  getTargetStage,
+  computeLateFee
+} from '../overdueSchedulerService';
+import { invoiceService, InvoiceStatus, InvoiceEventType } from '../invoices';
+import { Clock } from '../../utils/clock';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// In-memory Prisma double so state survives between scheduler instances,
+// the same way the database does across restarts
+jest.mock('@prisma/client', () => {
+  const db: { invoices: any[]; cases: any[] } = { invoices: [], cases: [] };
+  let nextId = 1;
+
+  const prisma = {
+    __db: db,
+    invoice: {
+      findMany: jest.fn(async ({ where, take }) => db.invoices
+        .filter(inv => inv.dueDate < where.dueDate.lt && where.status.in.includes(inv.status))
+        .map(inv => ({ ...inv, overdueCase: db.cases.find(c => c.invoiceId === inv.id) || null }))
+        .filter(inv => !inv.overdueCase || (inv.overdueCase.stage !== 'DEFAULTED'
+          && (!inv.overdueCase.nextActionAt || inv.overdueCase.nextActionAt <= where.dueDate.lt)))
+        .slice(0, take)),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const matches = db.invoices.filter(inv => inv.id === where.id && where.status.in.includes(inv.status));
+        matches.forEach(inv => Object.assign(inv, data));
+        return { count: matches.length };
+      })
+    },
+    overdueCase: {
+      create: jest.fn(async ({ data }) => {
+        if (db.cases.some(c => c.invoiceId === data.invoiceId)) {
+          throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+        }
+        const row = { id: `case-${nextId++}`, lateFeeAccrued: 0, ...data };
+        db.cases.push(row);
+        return { ...row };
+      }),
+      findUniqueOrThrow: jest.fn(async ({ where }) => ({ ...db.cases.find(c => c.invoiceId === where.invoiceId) })),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const matches = db.cases.filter(c => c.id === where.id && c.stage === where.stage);
+        matches.forEach(c => Object.assign(c, data));
+        return { count: matches.length };
+      })
+    }
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+const mockSubmitStatus = jest.fn();
+jest.mock('../hedera', () => ({
+  HederaService: jest.fn().mockImplementation(() => ({
+    submitInvoiceStatusMessage: (...args: any[]) => mockSubmitStatus(...args)
+  }))
+}));
+
+jest.mock('../invoices', () => ({
+  ...jest.requireActual('../invoices'),
+  invoiceService: {
+    addInvoiceEvent: jest.fn()
+  }
+}));
+
+const db = new (require('@prisma/client').PrismaClient)().__db;
+const mockInvoices = invoiceService as jest.Mocked<typeof invoiceService>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DUE_DATE = new Date('2024-03-01T00:00:00Z');
+
+const config: Partial<OverdueSchedulerConfig> = {
+  reminderDays: 3,
+  lateFeeDays: 7,
+  lateFeeDailyRate: 0.001,
+  defaultDays: 30,
+  batchSize: 100
+};
+
+class FakeClock implements Clock {
+  constructor(private current: Date) {}
+  now(): Date {
+    return new Date(this.current);
+  }
+  advanceDays(days: number): void {
+    this.current = new Date(this.current.getTime() + days * DAY_MS);
+  }
+}
+
+const eventTypes = () => mockInvoices.addInvoiceEvent.mock.calls.map(call => call[1]);
+
+describe('overdue helpers', () => {
+  const fullConfig = config as OverdueSchedulerConfig;
+
+  it('should count whole days past the due date', () => {
+    expect(getDaysOverdue(DUE_DATE, new Date('2024-03-01T12:00:00Z'))).toBe(0);
+    expect(getDaysOverdue(DUE_DATE, new Date('2024-03-04T00:00:00Z'))).toBe(3);
+    expect(getDaysOverdue(DUE_DATE, new Date('2024-02-20T00:00:00Z'))).toBe(0);
+  });
+
+  it('should pick the escalation stage from the grace periods', () => {
+    expect(getTargetStage(0, fullConfig)).toBe(OverdueStage.OVERDUE);
+    expect(getTargetStage(3, fullConfig)).toBe(OverdueStage.REMINDED);
+    expect(getTargetStage(7, fullConfig)).toBe(OverdueStage.LATE_FEE);
+    expect(getTargetStage(45, fullConfig)).toBe(OverdueStage.DEFAULTED);
+  });
+
+  it('should accrue late fees daily between the late fee grace period and default', () => {
+    expect(computeLateFee(1000, 7, fullConfig)).toBe(0);
+    expect(computeLateFee(1000, 10, fullConfig)).toBe(3);
+    expect(computeLateFee(1000, 60, fullConfig)).toBe(23);
+  });
+
+  it('should reject grace periods that are out of order', () => {
+    expect(() => new OverdueSchedulerService({ ...config, reminderDays: 10 }))
+      .toThrow('reminderDays <= lateFeeDays <= defaultDays');
+  });
+});
+
+describe('OverdueSchedulerService', () => {
+  let clock: FakeClock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.invoices.length = 0;
+    db.cases.length = 0;
+    db.invoices.push({
+      id: 'inv-1',
+      amount: 1000,
+      currency: 'HBAR',
+      status: InvoiceStatus.FUNDED,
+      dueDate: DUE_DATE,
+      nftTokenId: '0.0.123',
+      nftSerialNumber: '1',
+      fileHash: 'abc',
+      topicId: '0.0.456'
+    });
+    mockSubmitStatus.mockResolvedValue({ transactionId: 'tx-1', sequenceNumber: '42' });
+    clock = new FakeClock(new Date('2024-02-29T00:00:00Z'));
+  });
+
+  it('should leave invoices alone before their due date', async () => {
+    const summary = await new OverdueSchedulerService(config, clock).runOnce();
+
+    expect(summary.scanned).toBe(0);
+    expect(db.invoices[0].status).toBe(InvoiceStatus.FUNDED);
+  });
+
+  it('should mark an invoice overdue, record the event and publish to HCS', async () => {
+    clock.advanceDays(2);
+
+    const summary = await new OverdueSchedulerService(config, clock).runOnce();
+
+    expect(summary.overdue).toBe(1);
+    expect(db.invoices[0].status).toBe(InvoiceStatus.OVERDUE);
+    expect(db.cases[0].stage).toBe(OverdueStage.OVERDUE);
+    expect(mockSubmitStatus).toHaveBeenCalledWith('0.0.456', expect.objectContaining({
+      tokenId: '0.0.123',
+      serialNumber: '1',
+      status: 'overdue'
+    }));
+    expect(mockInvoices.addInvoiceEvent).toHaveBeenCalledWith(
+      'inv-1',
+      InvoiceEventType.OVERDUE,
+      expect.any(String),
+      expect.objectContaining({ previousStatus: InvoiceStatus.FUNDED }),
+      '42',
+      clock.now()
+    );
+  });
+
+  it('should escalate through reminder, late fees and default as the clock advances', async () => {
+    const scheduler = new OverdueSchedulerService(config, clock);
+
+    clock.advanceDays(2);
+    await scheduler.runOnce();
+    clock.advanceDays(3);
+    await scheduler.runOnce();
+    expect(db.cases[0].stage).toBe(OverdueStage.REMINDED);
+
+    clock.advanceDays(5);
+    await scheduler.runOnce();
+    expect(db.cases[0].stage).toBe(OverdueStage.LATE_FEE);
+    expect(db.cases[0].lateFeeAccrued).toBe(2);
+
+    clock.advanceDays(2);
+    await scheduler.runOnce();
+    expect(db.cases[0].lateFeeAccrued).toBe(4);
+
+    clock.advanceDays(30);
+    await scheduler.runOnce();
+    expect(db.cases[0].stage).toBe(OverdueStage.DEFAULTED);
+    expect(db.cases[0].lateFeeAccrued).toBe(23);
+    expect(mockSubmitStatus).toHaveBeenLastCalledWith('0.0.456', expect.objectContaining({ status: 'defaulted' }));
+
+    expect(eventTypes()).toEqual([
+      InvoiceEventType.OVERDUE,
+      InvoiceEventType.OVERDUE_REMINDER,
+      InvoiceEventType.LATE_FEE_ACCRUED,
+      InvoiceEventType.DEFAULTED
+    ]);
+  });
+
+  it('should catch up on every missed step after a long outage', async () => {
+    clock.advanceDays(40);
+
+    const summary = await new OverdueSchedulerService(config, clock).runOnce();
+
+    expect(summary).toEqual(expect.objectContaining({ overdue: 1, reminded: 1, lateFees: 1, defaulted: 1 }));
+    expect(eventTypes()).toHaveLength(4);
+  });
+
+  it('should be idempotent across restarts', async () => {
+    clock.advanceDays(4);
+    await new OverdueSchedulerService(config, clock).runOnce();
+    expect(eventTypes()).toEqual([InvoiceEventType.OVERDUE, InvoiceEventType.OVERDUE_REMINDER]);
+
+    // A fresh instance sees the persisted state and has nothing left to do
+    const summary = await new OverdueSchedulerService(config, clock).runOnce();
+
+    expect(summary).toEqual(expect.objectContaining({ scanned: 0, overdue: 0, reminded: 0 }));
+    expect(eventTypes()).toHaveLength(2);
+    expect(mockSubmitStatus).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reach newly overdue invoices while more cases than a batch wait out their grace period', async () => {
+    db.invoices.push({ ...db.invoices[0], id: 'inv-2' });
+    db.invoices.push({ ...db.invoices[0], id: 'inv-3', dueDate: new Date(DUE_DATE.getTime() + 2 * DAY_MS) });
+    const scheduler = new OverdueSchedulerService({ ...config, batchSize: 2 }, clock);
+    clock.advanceDays(5);
+
+    await scheduler.runOnce();
+    expect(db.cases.map(c => [c.invoiceId, c.stage])).toEqual([
+      ['inv-1', OverdueStage.REMINDED],
+      ['inv-2', OverdueStage.REMINDED]
+    ]);
+    expect(db.cases[0].nextActionAt).toEqual(new Date(DUE_DATE.getTime() + 7 * DAY_MS));
+
+    const summary = await scheduler.runOnce();
+
+    expect(summary).toEqual(expect.objectContaining({ scanned: 1, overdue: 1 }));
+    expect(db.invoices[2].status).toBe(InvoiceStatus.OVERDUE);
+  });
+
+  it('should stop scanning defaulted and paid invoices', async () => {
+    clock.advanceDays(40);
+    const scheduler = new OverdueSchedulerService(config, clock);
+    await scheduler.runOnce();
+
+    db.invoices.push({ ...db.invoices[0], id: 'inv-2', status: InvoiceStatus.PAID });
+    const summary = await scheduler.runOnce();
+
+    expect(summary.scanned).toBe(0);
+  });
+
+  it('should still escalate when HCS publishing fails', async () => {
+    mockSubmitStatus.mockRejectedValue(new Error('Hedera unavailable'));
+    clock.advanceDays(2);
+
+    const summary = await new OverdueSchedulerService(config, clock).runOnce();
+
+    expect(summary.overdue).toBe(1);
+    expect(mockInvoices.addInvoiceEvent).toHaveBeenCalledWith(
+      'inv-1', InvoiceEventType.OVERDUE, expect.any(String), expect.any(Object), undefined, expect.any(Date)
+    );
+  });
+});
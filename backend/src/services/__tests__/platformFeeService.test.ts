@@ -0,0 +1,285 @@
+import {
+  PlatformFeeService,
+  PlatformFeeEventType,
+  INITIAL_FEE_RATE_BPS,
+  periodKey,
+  groupFeesByPeriod,
+  groupFeesBySupplier,
+  buildFeeEpochs,
+  toCsv
+} from '../platformFeeService';
+import { contractService } from '../contract';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma = {
+    contractEvent: {
+      findMany: jest.fn()
+    },
+    platformFee: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn()
+    },
+    funding: {
+      findFirst: jest.fn()
+    },
+    fundingSyndicate: {
+      findFirst: jest.fn()
+    },
+    user: {
+      findMany: jest.fn()
+    }
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+jest.mock('../contract', () => ({
+  contractService: {
+    getContractInfo: jest.fn()
+  }
+}));
+
+jest.mock('../escrowIndexerService', () => ({
+  FEE_EVENTS: ['EscrowReleased', 'SyndicateReleased', 'DisputeResolved', 'FeeRateUpdated', 'FeeRecipientUpdated']
+}));
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+const mockContract = contractService as jest.Mocked<typeof contractService>;
+
+const at = (iso: string) => new Date(iso);
+
+const charge = (blockNumber: number, fee: number, overrides: Record<string, any> = {}) => ({
+  eventType: PlatformFeeEventType.FEE_CHARGED,
+  supplierId: 'supplier-1',
+  supplierAddress: '0xsupplier1',
+  grossAmount: fee * 40,
+  fee,
+  blockNumber,
+  logIndex: 0,
+  occurredAt: at('2024-01-15T12:00:00Z'),
+  ...overrides
+});
+
+const rateChange = (blockNumber: number, previousFeeRateBps: number, feeRateBps: number) => ({
+  eventType: PlatformFeeEventType.FEE_RATE_UPDATED,
+  feeRateBps,
+  previousFeeRateBps,
+  blockNumber,
+  logIndex: 0,
+  occurredAt: at('2024-02-01T00:00:00Z')
+});
+
+let eventCount = 0;
+
+/** A fee event as the escrow indexer stores it, amounts in HBAR */
+const event = (eventName: string, args: Record<string, string>, overrides: Record<string, any> = {}) => ({
+  id: `event-${++eventCount}`,
+  contractId: '0xpool',
+  eventName,
+  escrowId: null,
+  invoiceIdHash: null,
+  fundingId: null,
+  args: JSON.stringify(args),
+  blockNumber: 100,
+  blockHash: '0xblock',
+  logIndex: 2,
+  transactionHash: '0xtx',
+  consensusTimestamp: '1705320000.000000001',
+  createdAt: at('2024-01-15T12:00:05Z'),
+  ...overrides
+});
+
+describe('fee report helpers', () => {
+  it('should bucket dates by UTC day, ISO week and month', () => {
+    const date = at('2024-03-07T23:30:00Z'); // a Thursday
+
+    expect(periodKey(date, 'day')).toBe('2024-03-07');
+    expect(periodKey(date, 'week')).toBe('2024-03-04');
+    expect(periodKey(at('2024-03-10T10:00:00Z'), 'week')).toBe('2024-03-04'); // Sunday
+    expect(periodKey(date, 'month')).toBe('2024-03');
+  });
+
+  it('should total fees per period, oldest first', () => {
+    const rows = groupFeesByPeriod([
+      charge(3, 5, { occurredAt: at('2024-02-03T00:00:00Z') }),
+      charge(1, 2.5),
+      charge(2, 1.25)
+    ], 'month');
+
+    expect(rows).toEqual([
+      { key: '2024-01', label: '2024-01', count: 2, grossAmount: 150, fees: 3.75 },
+      { key: '2024-02', label: '2024-02', count: 1, grossAmount: 200, fees: 5 }
+    ]);
+  });
+
+  it('should rank suppliers by fees and fall back to the on-chain address', () => {
+    const rows = groupFeesBySupplier([
+      charge(1, 2.5),
+      charge(2, 10, { supplierId: null, supplierAddress: '0xoffplatform' })
+    ], { 'supplier-1': 'Acme' });
+
+    expect(rows.map(r => [r.key, r.label, r.fees])).toEqual([
+      ['0xoffplatform', '0xoffplatform', 10],
+      ['supplier-1', 'Acme', 2.5]
+    ]);
+  });
+
+  it('should split charges into epochs at each fee change', () => {
+    const epochs = buildFeeEpochs(
+      [charge(5, 2.5), charge(20, 3), charge(20, 4, { logIndex: 3 })],
+      [rateChange(20, 250, 300)]
+    );
+
+    expect(epochs).toHaveLength(2);
+    expect(epochs[0]).toEqual(expect.objectContaining({ feeRateBps: 250, count: 1, fees: 2.5, startsAt: null }));
+    expect(epochs[0].endsAt).toEqual(at('2024-02-01T00:00:00Z'));
+    // The change sits at log 0 of block 20, so both charges in block 20 fall after it
+    expect(epochs[1]).toEqual(expect.objectContaining({ feeRateBps: 300, count: 2, fees: 7, endsAt: null }));
+  });
+
+  it('should use the initial rate and current recipient when the fees were never changed', () => {
+    const epochs = buildFeeEpochs([charge(5, 2.5)], [], '0xrecipient');
+
+    expect(epochs).toEqual([expect.objectContaining({ feeRateBps: INITIAL_FEE_RATE_BPS, feeRecipient: '0xrecipient', count: 1 })]);
+  });
+
+  it('should quote CSV fields that need it', () => {
+    const csv = toCsv([{ key: 'a,b', label: 'say "hi"', at: at('2024-01-01T00:00:00Z'), fees: null }], ['key', 'label', 'at', 'fees']);
+
+    expect(csv).toBe('key,label,at,fees\r\n"a,b","say ""hi""",2024-01-01T00:00:00.000Z,\r\n');
+  });
+});
+
+describe('PlatformFeeService', () => {
+  let service: PlatformFeeService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new PlatformFeeService({ batchSize: 2 });
+  });
+
+  describe('ingest', () => {
+    it('should store a release fee with the gross amount and the invoice it belongs to', async () => {
+      mockPrisma.funding.findFirst.mockResolvedValue({ invoice: { id: 'inv-1', supplierId: 'supplier-1' } });
+      const released = event('EscrowReleased', { supplier: '0xsupplier1', amount: '97.5', fee: '2.5' }, { escrowId: '0xescrow' });
+
+      const stored = await service.ingest(released);
+
+      expect(stored).toBe(true);
+      expect(mockPrisma.platformFee.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          contractEventId: released.id,
+          eventType: PlatformFeeEventType.FEE_CHARGED,
+          sourceEvent: 'EscrowReleased',
+          escrowId: '0xescrow',
+          invoiceId: 'inv-1',
+          supplierId: 'supplier-1',
+          grossAmount: 100,
+          fee: 2.5,
+          feeRateBps: 250,
+          transactionHash: '0xtx',
+          logIndex: 2,
+          occurredAt: at('2024-01-15T12:00:00Z')
+        })
+      });
+    });
+
+    it('should store fee rate changes', async () => {
+      await service.ingest(event('FeeRateUpdated', { oldRate: '250', newRate: '300' }));
+
+      expect(mockPrisma.platformFee.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ eventType: PlatformFeeEventType.FEE_RATE_UPDATED, feeRateBps: 300, previousFeeRateBps: 250 })
+      });
+    });
+
+    it('should skip dispute resolutions that charged no fee', async () => {
+      const stored = await service.ingest(event('DisputeResolved', {
+        resolver: '0xadmin',
+        investorAmount: '100.0',
+        supplierAmount: '0.0',
+        fee: '0.0'
+      }, { escrowId: '0xescrow' }));
+
+      expect(stored).toBe(false);
+      expect(mockPrisma.platformFee.create).not.toHaveBeenCalled();
+    });
+
+    it('should treat an already indexed event as skipped', async () => {
+      mockPrisma.platformFee.create.mockRejectedValueOnce(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+
+      await expect(service.ingest(event('FeeRecipientUpdated', { oldRecipient: '0xold', newRecipient: '0xnew' }))).resolves.toBe(false);
+    });
+  });
+
+  describe('runOnce', () => {
+    it('should read the fee events the escrow indexer stored that have no fee row yet', async () => {
+      mockPrisma.contractEvent.findMany.mockResolvedValueOnce([
+        event('FeeRateUpdated', { oldRate: '250', newRate: '300' })
+      ]);
+
+      const summary = await service.runOnce();
+
+      expect(summary).toEqual({ fetched: 1, indexed: 1, skipped: 0 });
+      expect(mockPrisma.contractEvent.findMany).toHaveBeenCalledWith({
+        where: {
+          eventName: { in: ['EscrowReleased', 'SyndicateReleased', 'DisputeResolved', 'FeeRateUpdated', 'FeeRecipientUpdated'] },
+          platformFee: { is: null },
+          id: { notIn: [] },
+          createdAt: undefined
+        },
+        orderBy: [{ createdAt: 'asc' }, { blockNumber: 'asc' }, { logIndex: 'asc' }],
+        take: 2
+      });
+    });
+
+    it('should page past events without a fee and continue from the last one read', async () => {
+      const noFee = event('DisputeResolved', { resolver: '0xadmin', investorAmount: '100.0', supplierAmount: '0.0', fee: '0.0' }, { escrowId: '0xescrow' });
+      const rateChange = event('FeeRateUpdated', { oldRate: '250', newRate: '300' }, { createdAt: at('2024-01-15T12:00:09Z') });
+      mockPrisma.contractEvent.findMany
+        .mockResolvedValueOnce([noFee, rateChange])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([]);
+
+      const summary = await service.runOnce();
+
+      expect(summary).toEqual({ fetched: 2, indexed: 1, skipped: 1 });
+      expect(mockPrisma.contractEvent.findMany.mock.calls[1][0].where).toEqual(expect.objectContaining({
+        id: { notIn: [noFee.id] },
+        createdAt: { gte: at('2024-01-15T12:00:09Z') }
+      }));
+
+      // The next sync starts where this one stopped
+      await service.runOnce();
+      expect(mockPrisma.contractEvent.findMany.mock.calls[2][0].where.createdAt).toEqual({ gte: at('2024-01-15T12:00:09Z') });
+    });
+  });
+
+  describe('getReport', () => {
+    it('should report by epoch with every fee change in history', async () => {
+      mockPrisma.platformFee.findMany
+        .mockResolvedValueOnce([charge(5, 2.5), charge(30, 3)])
+        .mockResolvedValueOnce([rateChange(20, 250, 300)]);
+
+      const report = await service.getReport({ groupBy: 'epoch', from: at('2024-01-01T00:00:00Z') });
+
+      expect(mockPrisma.platformFee.findMany).toHaveBeenLastCalledWith({
+        where: { eventType: { in: [PlatformFeeEventType.FEE_RATE_UPDATED, PlatformFeeEventType.FEE_RECIPIENT_UPDATED] } }
+      });
+      expect(mockContract.getContractInfo).not.toHaveBeenCalled();
+      expect(report.rows.map(r => [r.feeRateBps, r.fees])).toEqual([[250, 2.5], [300, 3]]);
+      expect(report.totals).toEqual({ count: 2, grossAmount: 220, fees: 5.5 });
+    });
+  });
+});
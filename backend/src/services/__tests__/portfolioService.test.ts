@@ -0,0 +1,212 @@
+import {
+  PortfolioService,
+  OpenPosition,
+  accruedReturn,
+  buildConcentration,
+  buildMaturityLadder
+} from '../portfolioService';
+import { ledgerService } from '../ledgerService';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma = {
+    user: {
+      findUnique: jest.fn()
+    },
+    funding: {
+      findMany: jest.fn()
+    }
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+jest.mock('../ledgerService', () => ({
+  ...jest.requireActual('../ledgerService'),
+  ledgerService: {
+    getBalances: jest.fn()
+  }
+}));
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+const mockLedger = ledgerService as jest.Mocked<typeof ledgerService>;
+
+const NOW = new Date('2024-03-01T00:00:00Z');
+const FUNDED_AT = new Date('2024-01-01T00:00:00Z');
+
+const position = (overrides: Partial<OpenPosition> = {}): OpenPosition => ({
+  fundingId: 'fund-1',
+  invoiceId: 'inv-1',
+  invoiceNumber: 'INV-001',
+  supplierId: 'supplier-1',
+  supplierName: 'Acme',
+  syndicateId: null,
+  ownershipShare: null,
+  status: 'ACTIVE',
+  currency: 'HBAR',
+  amount: 1000,
+  principal: 1000,
+  expectedReturn: 10,
+  accruedReturn: 5,
+  unrealizedPnl: 5,
+  fundedAt: FUNDED_AT,
+  maturityDate: NOW,
+  daysToMaturity: 10,
+  defaulted: false,
+  ...overrides
+});
+
+const fundingRow = (overrides: Record<string, any> = {}) => ({
+  id: 'fund-1',
+  invoiceId: 'inv-1',
+  investorId: 'investor-1',
+  amount: 1000,
+  currency: 'HBAR',
+  expectedReturn: 20,
+  status: 'ACTIVE',
+  syndicateId: null,
+  ownershipShare: null,
+  fundedAt: FUNDED_AT,
+  createdAt: FUNDED_AT,
+  invoice: {
+    invoiceNumber: 'INV-001',
+    supplierId: 'supplier-1',
+    supplier: { id: 'supplier-1', name: 'Acme' },
+    dueDate: new Date('2024-04-01T00:00:00Z'), // 91-day term
+    overdueCase: null
+  },
+  ...overrides
+});
+
+describe('portfolio helpers', () => {
+  it('should accrue the expected return straight-line and stop at maturity', () => {
+    const maturity = new Date('2024-01-11T00:00:00Z');
+
+    expect(accruedReturn(10, FUNDED_AT, maturity, new Date('2024-01-06T00:00:00Z'))).toBe(5);
+    expect(accruedReturn(10, FUNDED_AT, maturity, new Date('2024-02-01T00:00:00Z'))).toBe(10);
+    expect(accruedReturn(10, FUNDED_AT, maturity, new Date('2023-12-01T00:00:00Z'))).toBe(0);
+  });
+
+  it('should rank suppliers by exposure with their share of open principal', () => {
+    const concentration = buildConcentration([
+      position({ principal: 1000 }),
+      position({ fundingId: 'fund-2', supplierId: 'supplier-2', supplierName: 'Globex', principal: 3000 }),
+      position({ fundingId: 'fund-3', principal: 1000 })
+    ]);
+
+    expect(concentration).toEqual([
+      { supplierId: 'supplier-2', supplierName: 'Globex', positions: 1, principal: 3000, share: 0.6 },
+      { supplierId: 'supplier-1', supplierName: 'Acme', positions: 2, principal: 2000, share: 0.4 }
+    ]);
+  });
+
+  it('should bucket positions by days to maturity and keep empty rungs', () => {
+    const ladder = buildMaturityLadder([
+      position({ daysToMaturity: -3 }),
+      position({ daysToMaturity: 0 }),
+      position({ daysToMaturity: 30 }),
+      position({ daysToMaturity: 45, principal: 500 }),
+      position({ daysToMaturity: 400 })
+    ]);
+
+    expect(ladder.map(r => [r.bucket, r.positions])).toEqual([
+      ['OVERDUE', 1], ['0-30', 2], ['31-60', 1], ['61-90', 0], ['90+', 1]
+    ]);
+    expect(ladder[2].principal).toBe(500);
+  });
+});
+
+describe('PortfolioService', () => {
+  let service: PortfolioService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new PortfolioService();
+    mockLedger.getBalances.mockResolvedValue({
+      deposited: 5000, available: 2000, committed: 0, escrow: 1000, invested: 2000, fees: 1.5, income: 30
+    });
+  });
+
+  it('should resolve the investor from the wallet account', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({ id: 'investor-1' });
+
+    await expect(service.resolveInvestorId('0.0.1234')).resolves.toBe('investor-1');
+    expect(mockPrisma.user.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { accountId: '0.0.1234' } }));
+  });
+
+  it('should reject unknown wallet accounts', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue(null);
+
+    await expect(service.resolveInvestorId('0.0.999')).rejects.toThrow('User not found');
+  });
+
+  it('should value open positions and combine them with ledger P&L', async () => {
+    mockPrisma.funding.findMany.mockResolvedValue([
+      fundingRow(),
+      fundingRow({
+        id: 'fund-2',
+        invoiceId: 'inv-2',
+        amount: 2000,
+        expectedReturn: 40,
+        invoice: {
+          invoiceNumber: 'INV-002',
+          supplierId: 'supplier-2',
+          supplier: { id: 'supplier-2', name: 'Globex' },
+          dueDate: new Date('2024-02-01T00:00:00Z'),
+          overdueCase: { stage: 'DEFAULTED' }
+        }
+      })
+    ]);
+
+    const portfolio = await service.getPortfolio('investor-1', NOW);
+
+    expect(portfolio.openPrincipal).toBe(3000);
+    expect(portfolio.positions[0]).toEqual(expect.objectContaining({ daysToMaturity: 31, defaulted: false }));
+    // 60 of 91 days elapsed
+    expect(portfolio.positions[0].accruedReturn).toBeCloseTo(20 * 60 / 91, 6);
+    expect(portfolio.positions[1]).toEqual(expect.objectContaining({ defaulted: true, unrealizedPnl: -2000, daysToMaturity: -29 }));
+
+    expect(portfolio.pnl.realized).toBe(30);
+    expect(portfolio.pnl.fees).toBe(1.5);
+    expect(portfolio.pnl.unrealized).toBeCloseTo(20 * 60 / 91 - 2000, 6);
+    expect(portfolio.pnl.net).toBeCloseTo(30 + 20 * 60 / 91 - 2000 - 1.5, 6);
+
+    expect(portfolio.concentration[0].supplierId).toBe('supplier-2');
+    expect(portfolio.maturityLadder.find(r => r.bucket === 'OVERDUE')?.principal).toBe(2000);
+    expect(portfolio.maturityLadder.find(r => r.bucket === '31-60')?.principal).toBe(1000);
+  });
+
+  it('should report fiat positions and HBAR balances in the reporting currency', async () => {
+    mockPrisma.funding.findMany.mockResolvedValue([fundingRow({ currency: 'EUR', amount: 920, expectedReturn: 9.2 })]);
+
+    const portfolio = await service.getPortfolio('investor-1', NOW, 'USD');
+
+    expect(portfolio.reportingCurrency).toBe('USD');
+    expect(portfolio.positions[0]).toEqual(expect.objectContaining({ currency: 'EUR', amount: 920, principal: 1000, expectedReturn: 10 }));
+    // Ledger balances are HBAR at 12.5 per USD
+    expect(portfolio.balances.available).toBe(160);
+    expect(portfolio.pnl.realized).toBe(2.4);
+    expect(portfolio.openPrincipal).toBe(1000);
+  });
+
+  it('should only load unsettled fundings that are still exposed', async () => {
+    mockPrisma.funding.findMany.mockResolvedValue([]);
+
+    const portfolio = await service.getPortfolio('investor-1', NOW);
+
+    expect(mockPrisma.funding.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { investorId: 'investor-1', status: { in: ['ACTIVE', 'DISPUTED', 'RELEASED'] }, settledAt: null }
+    }));
+    expect(portfolio.positions).toEqual([]);
+    expect(portfolio.pnl.unrealized).toBe(0);
+  });
+});
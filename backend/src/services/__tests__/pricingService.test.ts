@@ -0,0 +1,416 @@
+import {
+  PricingService,
+  DayCountConvention,
+  actualDays,
+  yearFraction,
+  priceFunding,
+  maxPrincipal,
+  remainingFaceValue,
+  computeRealizedReturn
+} from '../pricingService';
+import { InvoiceStatus } from '../invoices';
+import { ledgerService } from '../ledgerService';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma = {
+    invoice: {
+      findUnique: jest.fn()
+    },
+    funding: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn()
+    },
+    investor: {
+      updateMany: jest.fn()
+    },
+    user: {
+      findUnique: jest.fn()
+    },
+    marketplaceListing: {
+      findFirst: jest.fn()
+    },
+    fxSnapshot: {
+      upsert: jest.fn(async ({ create }: any) => create)
+    }
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+jest.mock('../ledgerService', () => ({
+  ledgerService: {
+    recordSettlement: jest.fn()
+  }
+}));
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+const mockLedger = ledgerService as jest.Mocked<typeof ledgerService>;
+
+const FUNDED_AT = new Date('2024-01-01T10:00:00Z');
+const DUE_DATE = new Date('2024-04-01T00:00:00Z'); // 91 days later
+
+const fundingRow = (overrides: Record<string, any> = {}) => ({
+  id: 'fund-1',
+  invoiceId: 'inv-1',
+  investorId: 'investor-1',
+  amount: 1000,
+  currency: 'HBAR',
+  interestRate: 0.05,
+  status: 'RELEASED',
+  fundedAt: FUNDED_AT,
+  settledAt: null,
+  createdAt: FUNDED_AT,
+  updatedAt: FUNDED_AT,
+  invoice: { id: 'inv-1', dueDate: DUE_DATE },
+  fxSnapshots: [],
+  ...overrides
+});
+
+describe('day count conventions', () => {
+  it('should count calendar days regardless of time of day', () => {
+    expect(actualDays(FUNDED_AT, DUE_DATE)).toBe(91);
+    expect(actualDays(new Date('2024-01-01T23:59:00Z'), new Date('2024-01-02T00:01:00Z'))).toBe(1);
+  });
+
+  it('should divide by 360 or 365', () => {
+    expect(yearFraction(FUNDED_AT, DUE_DATE, DayCountConvention.ACT_360)).toBeCloseTo(91 / 360, 10);
+    expect(yearFraction(FUNDED_AT, DUE_DATE, DayCountConvention.ACT_365)).toBeCloseTo(91 / 365, 10);
+  });
+});
+
+describe('priceFunding', () => {
+  it('should price a discounted advance under ACT/360', () => {
+    const metrics = priceFunding({
+      principal: 1000,
+      discountRate: 0.05,
+      fundedAt: FUNDED_AT,
+      maturityDate: DUE_DATE,
+      dayCount: DayCountConvention.ACT_360
+    });
+
+    expect(metrics.termDays).toBe(91);
+    expect(metrics.faceValue).toBeCloseTo(1012.80067520, 6);
+    expect(metrics.expectedReturn).toBeCloseTo(12.80067520, 6);
+    expect(metrics.apr).toBeCloseTo(0.05064, 5);
+    expect(metrics.apy).toBeCloseTo(0.051606, 5);
+  });
+
+  it('should earn slightly less under ACT/365 for the same term', () => {
+    const act360 = priceFunding({ principal: 1000, discountRate: 0.05, fundedAt: FUNDED_AT, maturityDate: DUE_DATE, dayCount: DayCountConvention.ACT_360 });
+    const act365 = priceFunding({ principal: 1000, discountRate: 0.05, fundedAt: FUNDED_AT, maturityDate: DUE_DATE, dayCount: DayCountConvention.ACT_365 });
+
+    expect(act365.expectedReturn).toBeCloseTo(12.62311, 5);
+    expect(act365.expectedReturn).toBeLessThan(act360.expectedReturn);
+  });
+
+  it('should always yield APR above the discount rate and APY above APR', () => {
+    const metrics = priceFunding({ principal: 500, discountRate: 0.12, fundedAt: FUNDED_AT, maturityDate: DUE_DATE });
+
+    expect(metrics.apr).toBeGreaterThan(0.12);
+    expect(metrics.apy).toBeGreaterThan(metrics.apr);
+  });
+
+  it('should reject maturities on or before the funding date', () => {
+    expect(() => priceFunding({ principal: 1000, discountRate: 0.05, fundedAt: DUE_DATE, maturityDate: FUNDED_AT }))
+      .toThrow('Maturity date must be after the funding date');
+  });
+
+  it('should reject a discount that consumes the whole face value', () => {
+    expect(() => priceFunding({ principal: 1000, discountRate: 5, fundedAt: FUNDED_AT, maturityDate: DUE_DATE }))
+      .toThrow('Discount rate is too high for the funding term');
+  });
+});
+
+describe('maxPrincipal', () => {
+  it('should advance the principal that collects exactly the face value', () => {
+    const principal = maxPrincipal(1000, 0.05, FUNDED_AT, DUE_DATE, DayCountConvention.ACT_365);
+    const metrics = priceFunding({ principal, discountRate: 0.05, fundedAt: FUNDED_AT, maturityDate: DUE_DATE, dayCount: DayCountConvention.ACT_365 });
+
+    expect(principal).toBeCloseTo(1000 * (1 - 0.05 * 91 / 365), 8);
+    expect(metrics.faceValue).toBeCloseTo(1000, 7);
+  });
+
+  it('should never exceed the face value for a past-due maturity', () => {
+    expect(maxPrincipal(1000, 0.05, DUE_DATE, FUNDED_AT)).toBe(1000);
+  });
+});
+
+describe('remainingFaceValue', () => {
+  it('should count each funding at its principal plus expected return', () => {
+    expect(remainingFaceValue(1000, [{ amount: 400, expectedReturn: 5 }, { amount: 300, expectedReturn: null }])).toBe(295);
+  });
+
+  it('should treat a tinybar of rounding as fully funded', () => {
+    expect(remainingFaceValue(1000, [{ amount: 987.53424658, expectedReturn: 12.46575341 }])).toBe(0);
+  });
+});
+
+describe('computeRealizedReturn', () => {
+  const metrics = priceFunding({
+    principal: 1000,
+    discountRate: 0.05,
+    fundedAt: FUNDED_AT,
+    maturityDate: DUE_DATE,
+    dayCount: DayCountConvention.ACT_365
+  });
+
+  it('should lower the annualized yield when payment is late', () => {
+    const realized = computeRealizedReturn(metrics, FUNDED_AT, DUE_DATE, new Date('2024-05-01T00:00:00Z'));
+
+    expect(realized.holdingDays).toBe(121);
+    expect(realized.daysLate).toBe(30);
+    expect(realized.realizedReturn).toBe(metrics.expectedReturn);
+    expect(realized.realizedApr).toBeCloseTo(0.038078, 5);
+    expect(realized.realizedApy).toBeCloseTo(0.038565, 5);
+  });
+
+  it('should raise the annualized yield when payment is early', () => {
+    const realized = computeRealizedReturn(metrics, FUNDED_AT, DUE_DATE, new Date('2024-03-01T00:00:00Z'));
+
+    expect(realized.daysLate).toBe(-31);
+    expect(realized.realizedApr).toBeGreaterThan(metrics.apr);
+  });
+});
+
+describe('PricingService', () => {
+  let service: PricingService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new PricingService();
+    mockPrisma.funding.findMany.mockResolvedValue([]);
+    mockPrisma.user.findUnique.mockResolvedValue({ id: 'investor-1', accountId: '0.0.1001' });
+    mockPrisma.marketplaceListing.findFirst.mockResolvedValue(null);
+  });
+
+  describe('quote', () => {
+    it('should quote against the invoice due date', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue({
+        id: 'inv-1', amount: 5000, currency: 'HBAR', status: InvoiceStatus.ISSUED, dueDate: DUE_DATE
+      });
+
+      const quote = await service.quote(
+        { invoiceId: 'inv-1', investorAccountId: '0.0.1001', amount: 1000, dayCount: DayCountConvention.ACT_360 },
+        FUNDED_AT
+      );
+
+      expect(quote).toEqual(expect.objectContaining({
+        invoiceId: 'inv-1',
+        currency: 'HBAR',
+        termDays: 91,
+        dayCount: DayCountConvention.ACT_360
+      }));
+      expect(quote.expectedReturn).toBeCloseTo(12.8006752, 6);
+    });
+
+    it('should not quote invoices that are no longer open for funding', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue({
+        id: 'inv-1', amount: 5000, status: InvoiceStatus.FUNDED, dueDate: DUE_DATE
+      });
+
+      await expect(service.quote({ invoiceId: 'inv-1', investorAccountId: '0.0.1001', amount: 1000 }, FUNDED_AT))
+        .rejects.toThrow('Only invoices in ISSUED status can be quoted');
+    });
+
+    it('should cap the amount at the discounted invoice value', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue({
+        id: 'inv-1', amount: 500, currency: 'HBAR', status: InvoiceStatus.ISSUED, dueDate: DUE_DATE
+      });
+
+      // Advancing the full 500 would promise more than the invoice pays
+      await expect(service.quote({ invoiceId: 'inv-1', investorAccountId: '0.0.1001', amount: 500 }, FUNDED_AT))
+        .rejects.toThrow('Funding amount exceeds the discounted invoice value');
+
+      const quote = await service.quote({ invoiceId: 'inv-1', investorAccountId: '0.0.1001', amount: 490 }, FUNDED_AT);
+      expect(quote.faceValue).toBeLessThanOrEqual(500);
+      expect(quote.maxAmount).toBeCloseTo(500 * (1 - 0.05 * 91 / 365), 8);
+    });
+
+    it('should leave room only for the face value other fundings have not bought', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue({
+        id: 'inv-1', amount: 500, currency: 'HBAR', status: InvoiceStatus.ISSUED, dueDate: DUE_DATE
+      });
+      mockPrisma.funding.findMany.mockResolvedValue([{ amount: 300, expectedReturn: 4 }]);
+
+      const quote = await service.quote({ invoiceId: 'inv-1', investorAccountId: '0.0.1001', amount: 150 }, FUNDED_AT);
+
+      expect(quote.maxAmount).toBeCloseTo(196 * (1 - 0.05 * 91 / 365), 8);
+      await expect(service.quote({ invoiceId: 'inv-1', investorAccountId: '0.0.1001', amount: 196 }, FUNDED_AT))
+        .rejects.toThrow('Funding amount exceeds the discounted invoice value');
+    });
+
+    it('should quote a reserved investor at their accepted bid\'s rate', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue({
+        id: 'inv-1', amount: 5000, currency: 'HBAR', status: InvoiceStatus.ISSUED, dueDate: DUE_DATE
+      });
+      mockPrisma.marketplaceListing.findFirst.mockResolvedValue({
+        id: 'listing-1', acceptedBid: { investorId: 'investor-1', discountRate: 0.08 }
+      });
+
+      const quote = await service.quote({ invoiceId: 'inv-1', investorAccountId: '0.0.1001', amount: 1000 }, FUNDED_AT);
+
+      expect(quote.discountRate).toBe(0.08);
+      expect(quote.maxAmount).toBeCloseTo(5000 * (1 - 0.08 * 91 / 365), 8);
+    });
+
+    it('should not quote an invoice reserved for another investor', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue({
+        id: 'inv-1', amount: 5000, currency: 'HBAR', status: InvoiceStatus.ISSUED, dueDate: DUE_DATE
+      });
+      mockPrisma.marketplaceListing.findFirst.mockResolvedValue({
+        id: 'listing-1', acceptedBid: { investorId: 'investor-2', discountRate: 0.08 }
+      });
+
+      await expect(service.quote({ invoiceId: 'inv-1', investorAccountId: '0.0.1001', amount: 1000 }, FUNDED_AT))
+        .rejects.toThrow('Invoice is reserved for the investor whose marketplace bid was accepted');
+    });
+  });
+
+  describe('getFundingReturns', () => {
+    it('should report expected returns only while unsettled', async () => {
+      mockPrisma.funding.findUnique.mockResolvedValue(fundingRow());
+
+      const returns = await service.getFundingReturns('fund-1', DayCountConvention.ACT_365);
+
+      expect(returns.expectedReturn).toBeCloseTo(12.62311, 5);
+      expect(returns.realized).toBeNull();
+    });
+
+    it('should report the return booked with the funding rather than re-pricing from its deposit', async () => {
+      // Booked on 1 January, but the deposit only completed a month later
+      mockPrisma.funding.findUnique.mockResolvedValue(fundingRow({
+        expectedReturn: 12.62311,
+        fundedAt: new Date('2024-02-01T00:00:00Z')
+      }));
+
+      const returns = await service.getFundingReturns('fund-1', DayCountConvention.ACT_365);
+
+      expect(returns.expectedReturn).toBe(12.62311);
+      expect(returns.faceValue).toBe(1012.62311);
+      expect(returns.termDays).toBe(60);
+      expect(returns.apr).toBeCloseTo(0.01262311 / (60 / 365), 5);
+    });
+
+    it('should include realized returns once settled', async () => {
+      mockPrisma.funding.findUnique.mockResolvedValue(fundingRow({ settledAt: new Date('2024-05-01T00:00:00Z') }));
+
+      const returns = await service.getFundingReturns('fund-1', DayCountConvention.ACT_365);
+
+      expect(returns.realized?.daysLate).toBe(30);
+      expect(returns.realized?.realizedReturn).toBeCloseTo(12.62311, 5);
+    });
+
+    it('should report a zero-tenor return for a funding made on its due date', async () => {
+      mockPrisma.funding.findUnique.mockResolvedValue(fundingRow({ fundedAt: DUE_DATE, settledAt: new Date('2024-04-02T00:00:00Z') }));
+
+      const returns = await service.getFundingReturns('fund-1');
+
+      expect(returns).toEqual(expect.objectContaining({ termDays: 0, faceValue: 1000, expectedReturn: 0, apr: 0, apy: 0 }));
+      expect(returns.realized).toEqual(expect.objectContaining({ holdingDays: 1, realizedReturn: 0 }));
+    });
+
+    it('should report a zero realized return for refunded fundings', async () => {
+      mockPrisma.funding.findUnique.mockResolvedValue(fundingRow({ status: 'REFUNDED', refundedAt: new Date('2024-02-01T00:00:00Z') }));
+
+      const returns = await service.getFundingReturns('fund-1');
+
+      expect(returns.realized?.realizedReturn).toBe(0);
+    });
+
+    it('should fall back to the creation date when fundedAt is missing', async () => {
+      mockPrisma.funding.findUnique.mockResolvedValue(fundingRow({ fundedAt: null }));
+
+      const returns = await service.getFundingReturns('fund-1');
+
+      expect(returns.fundedAt).toEqual(FUNDED_AT);
+    });
+
+    it('should throw for unknown fundings', async () => {
+      mockPrisma.funding.findUnique.mockResolvedValue(null);
+
+      await expect(service.getFundingReturns('missing')).rejects.toThrow('Funding not found');
+    });
+  });
+
+  describe('recordSettlement', () => {
+    it('should settle open fundings and refresh investor totals', async () => {
+      const settledAt = new Date('2024-04-01T00:00:00Z');
+      mockPrisma.funding.findMany
+        .mockResolvedValueOnce([
+          { id: 'fund-1', investorId: 'investor-1', amount: 1000, currency: 'HBAR' },
+          { id: 'fund-2', investorId: 'investor-1', amount: 2000, currency: 'HBAR' }
+        ])
+        .mockResolvedValueOnce([
+          fundingRow({ settledAt }),
+          fundingRow({ id: 'fund-2', amount: 2000, settledAt })
+        ]);
+
+      const settled = await service.recordSettlement('inv-1', settledAt);
+
+      expect(settled).toBe(2);
+      expect(mockPrisma.funding.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['fund-1', 'fund-2'] } },
+        data: { settledAt }
+      });
+      const [{ data }] = mockPrisma.investor.updateMany.mock.calls[0];
+      expect(mockPrisma.investor.updateMany).toHaveBeenCalledTimes(1);
+      expect(data.totalReturns).toBeCloseTo(12.62311 * 3, 4);
+      expect(mockLedger.recordSettlement).toHaveBeenCalledTimes(2);
+      expect(mockLedger.recordSettlement).toHaveBeenCalledWith(
+        { id: 'fund-1', investorId: 'investor-1', amount: 1000, currency: 'HBAR' },
+        undefined,
+        settledAt,
+        undefined
+      );
+    });
+
+    it('should pay out fiat fundings in HBAR at the settlement rate', async () => {
+      const settledAt = new Date('2024-04-01T00:00:00Z');
+      const eurToHbar = 12.5 / 0.92;
+      mockPrisma.funding.findMany
+        .mockResolvedValueOnce([{ id: 'fund-1', investorId: 'investor-1', amount: 1000, currency: 'EUR', expectedReturn: 12.62311 }])
+        .mockResolvedValueOnce([
+          fundingRow({ currency: 'EUR', settledAt, fxSnapshots: [{ purpose: 'SETTLEMENT', rate: eurToHbar }] })
+        ]);
+
+      await service.recordSettlement('inv-1', settledAt);
+
+      expect(mockPrisma.fxSnapshot.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { fundingId_purpose: { fundingId: 'fund-1', purpose: 'SETTLEMENT' } },
+        create: expect.objectContaining({ baseCurrency: 'EUR', quoteCurrency: 'HBAR', baseAmount: 1012.62311 })
+      }));
+      const [, , , hbarRate] = mockLedger.recordSettlement.mock.calls[0];
+      expect(hbarRate).toBeCloseTo(eurToHbar, 8);
+      const [{ data }] = mockPrisma.investor.updateMany.mock.calls[0];
+      expect(data.totalReturns).toBeCloseTo(12.62311 * eurToHbar, 3);
+    });
+
+    it('should still settle when the ledger posting fails', async () => {
+      mockPrisma.funding.findMany
+        .mockResolvedValueOnce([{ id: 'fund-1', investorId: 'investor-1', amount: 1000, currency: 'HBAR' }])
+        .mockResolvedValueOnce([]);
+      mockLedger.recordSettlement.mockRejectedValueOnce(new Error('database locked'));
+
+      await expect(service.recordSettlement('inv-1')).resolves.toBe(1);
+      expect(mockPrisma.investor.updateMany).toHaveBeenCalled();
+    });
+
+    it('should do nothing when every funding is already settled', async () => {
+      mockPrisma.funding.findMany.mockResolvedValue([]);
+
+      await expect(service.recordSettlement('inv-1')).resolves.toBe(0);
+      expect(mockPrisma.investor.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
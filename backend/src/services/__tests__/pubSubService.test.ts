@@ -0,0 +1,230 @@
+import { InMemoryPubSub, RedisPubSub, RedisClientLike, createPubSub, PubSubDriver } from '../pubSubService';
+import { InMemoryLeaseStore, RedisLeaseStore, LeaderElector } from '../leaderElection';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+/**
+ * In-process stand-in for a Redis server, handing out clients that share
+ * its channels and keys
+ */
+class FakeRedisServer {
+  private subscribers: Map<string, Set<FakeRedisClient>> = new Map();
+  private keys: Map<string, { value: string; expiresAt: number }> = new Map();
+  now = 0;
+
+  client(): FakeRedisClient {
+    return new FakeRedisClient(this);
+  }
+
+  publish(channel: string, message: string): number {
+    const subscribers = [...(this.subscribers.get(channel) || [])];
+    subscribers.forEach(client => client.receive(channel, message));
+    return subscribers.length;
+  }
+
+  subscribe(client: FakeRedisClient, channel: string) {
+    if (!this.subscribers.has(channel)) this.subscribers.set(channel, new Set());
+    this.subscribers.get(channel)!.add(client);
+  }
+
+  unsubscribe(client: FakeRedisClient, channel: string) {
+    this.subscribers.get(channel)?.delete(client);
+  }
+
+  get(key: string): string | null {
+    const entry = this.keys.get(key);
+    return entry && entry.expiresAt > this.now ? entry.value : null;
+  }
+
+  set(key: string, value: string, ttl: number) {
+    this.keys.set(key, { value, expiresAt: this.now + ttl });
+  }
+
+  del(key: string) {
+    this.keys.delete(key);
+  }
+}
+
+class FakeRedisClient implements RedisClientLike {
+  private listeners: Array<(channel: string, message: string) => void> = [];
+  subscribe = jest.fn(async (channel: string) => this.server.subscribe(this, channel));
+  unsubscribe = jest.fn(async (channel: string) => this.server.unsubscribe(this, channel));
+  quit = jest.fn(async () => 'OK');
+
+  constructor(private server: FakeRedisServer) {}
+
+  async publish(channel: string, message: string) {
+    return this.server.publish(channel, message);
+  }
+
+  on(_event: 'message', listener: (channel: string, message: string) => void) {
+    this.listeners.push(listener);
+    return this;
+  }
+
+  receive(channel: string, message: string) {
+    this.listeners.forEach(listener => listener(channel, message));
+  }
+
+  async set(key: string, value: string, _mode: 'PX', ttl: number, _condition: 'NX') {
+    if (this.server.get(key) !== null) return null;
+    this.server.set(key, value, ttl);
+    return 'OK';
+  }
+
+  // Runs the lease scripts: compare the owner, then renew or delete
+  async eval(script: string, _numKeys: number, key: string | number, owner: string | number, ttl?: string | number) {
+    if (this.server.get(String(key)) !== String(owner)) return 0;
+    if (script.includes('pexpire')) {
+      this.server.set(String(key), String(owner), Number(ttl));
+    } else {
+      this.server.del(String(key));
+    }
+    return 1;
+  }
+}
+
+describe('InMemoryPubSub', () => {
+  it('should deliver JSON copies to subscribers until they unsubscribe', async () => {
+    const bus = new InMemoryPubSub();
+    const handler = jest.fn();
+    const unsubscribe = await bus.subscribe('ws:events', handler);
+
+    await bus.publish('ws:events', { type: 'hcs_message', at: new Date('2024-01-01T00:00:00Z') });
+    await unsubscribe();
+    await bus.publish('ws:events', { type: 'hcs_message' });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ type: 'hcs_message', at: '2024-01-01T00:00:00.000Z' });
+  });
+
+  it('should be the default driver', () => {
+    expect(createPubSub({ driver: PubSubDriver.MEMORY })).toBeInstanceOf(InMemoryPubSub);
+  });
+});
+
+describe('RedisPubSub', () => {
+  let server: FakeRedisServer;
+
+  beforeEach(() => {
+    server = new FakeRedisServer();
+  });
+
+  const replica = () => new RedisPubSub(server.client(), server.client());
+
+  it('should deliver a message published on one replica to every replica', async () => {
+    const first = replica();
+    const second = replica();
+    const onFirst = jest.fn();
+    const onSecond = jest.fn();
+    await first.subscribe('ws:events', onFirst);
+    await second.subscribe('ws:events', onSecond);
+
+    await second.publish('ws:events', { type: 'escrow_updated', invoiceId: 'inv-1' });
+
+    expect(onFirst).toHaveBeenCalledWith({ type: 'escrow_updated', invoiceId: 'inv-1' });
+    expect(onSecond).toHaveBeenCalledWith({ type: 'escrow_updated', invoiceId: 'inv-1' });
+  });
+
+  it('should share one Redis subscription per channel between handlers', async () => {
+    const subscriber = server.client();
+    const bus = new RedisPubSub(server.client(), subscriber);
+
+    const unsubscribeFirst = await bus.subscribe('ws:events', jest.fn());
+    const unsubscribeSecond = await bus.subscribe('ws:events', jest.fn());
+    await unsubscribeFirst();
+
+    expect(subscriber.subscribe).toHaveBeenCalledTimes(1);
+    expect(subscriber.unsubscribe).not.toHaveBeenCalled();
+
+    await unsubscribeSecond();
+    expect(subscriber.unsubscribe).toHaveBeenCalledWith('ws:events');
+  });
+
+  it('should keep delivering when one handler throws', async () => {
+    const bus = replica();
+    const handler = jest.fn();
+    await bus.subscribe('ws:events', () => { throw new Error('boom'); });
+    await bus.subscribe('ws:events', handler);
+
+    await bus.publish('ws:events', { type: 'hcs_message' });
+
+    expect(handler).toHaveBeenCalled();
+  });
+});
+
+describe('LeaderElector', () => {
+  const config = { ttl: 30000, renewInterval: 10000 };
+
+  const elector = (store: InMemoryLeaseStore | RedisLeaseStore) => {
+    const callbacks = { onElected: jest.fn(), onRevoked: jest.fn() };
+    return { callbacks, elector: new LeaderElector('mirror-node-poller', callbacks, store, config) };
+  };
+
+  it('should elect a single leader and fail over once its lease expires', async () => {
+    let now = 0;
+    const store = new InMemoryLeaseStore({ now: () => new Date(now) });
+    const a = elector(store);
+    const b = elector(store);
+
+    expect(await a.elector.runOnce()).toBe(true);
+    expect(await b.elector.runOnce()).toBe(false);
+    expect(a.callbacks.onElected).toHaveBeenCalledTimes(1);
+    expect(b.callbacks.onElected).not.toHaveBeenCalled();
+
+    // A stops renewing; B takes over after the TTL
+    now = 30001;
+    expect(await b.elector.runOnce()).toBe(true);
+    expect(await a.elector.runOnce()).toBe(false);
+    expect(a.callbacks.onRevoked).toHaveBeenCalledTimes(1);
+  });
+
+  it('should hand over immediately when the leader stops', async () => {
+    const store = new InMemoryLeaseStore();
+    const a = elector(store);
+    const b = elector(store);
+    await a.elector.runOnce();
+
+    await a.elector.stop();
+
+    expect(a.callbacks.onRevoked).toHaveBeenCalledTimes(1);
+    expect(await b.elector.runOnce()).toBe(true);
+  });
+
+  it('should step down when the lease store is unreachable', async () => {
+    const store = new InMemoryLeaseStore();
+    const a = elector(store);
+    await a.elector.runOnce();
+
+    jest.spyOn(store, 'tryAcquire').mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+    expect(await a.elector.runOnce()).toBe(false);
+    expect(a.callbacks.onRevoked).toHaveBeenCalledTimes(1);
+  });
+
+  it('should renew and release Redis leases only for their owner', async () => {
+    const server = new FakeRedisServer();
+    const a = elector(new RedisLeaseStore(server.client()));
+    const b = elector(new RedisLeaseStore(server.client()));
+
+    expect(await a.elector.runOnce()).toBe(true);
+    server.now = 20000;
+    expect(await a.elector.runOnce()).toBe(true); // renewed to 50000
+    server.now = 40000;
+    expect(await b.elector.runOnce()).toBe(false);
+
+    await b.elector.stop(); // not the leader, so it must not delete the lease
+    expect(server.get('leader:mirror-node-poller')).not.toBeNull();
+
+    await a.elector.stop();
+    expect(await b.elector.runOnce()).toBe(true);
+  });
+});
@@ -0,0 +1,238 @@
+import {
+  RiskScoringService,
+  RiskLevel,
+  CounterpartyHistory,
+  computeRiskScore,
+  getRiskModel,
+  gradeFor,
+  gradesForTolerance
+} from '../riskScoringService';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma = {
+    user: {
+      findUnique: jest.fn()
+    },
+    investor: {
+      findUnique: jest.fn()
+    },
+    invoice: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn()
+    },
+    escrowDispute: {
+      count: jest.fn()
+    }
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+
+const model = getRiskModel('v1');
+const now = new Date('2025-06-01T00:00:00Z');
+
+const history = (overrides: Partial<CounterpartyHistory> = {}): CounterpartyHistory => ({
+  invoices: 10,
+  settled: 10,
+  onTime: 10,
+  totalDaysLate: 0,
+  pastDue: 10,
+  overdue: 0,
+  defaulted: 0,
+  funded: 10,
+  disputes: 0,
+  concentration: 0.3,
+  ...overrides
+});
+
+const invoiceRow = (overrides: Record<string, any> = {}) => ({
+  id: 'inv-1',
+  amount: 1000,
+  dueDate: new Date('2025-03-01T00:00:00Z'),
+  status: 'PAID',
+  supplierId: 'supplier-1',
+  buyerId: 'buyer-1',
+  overdueCase: null,
+  events: [{ createdAt: new Date('2025-02-28T00:00:00Z') }],
+  _count: { fundings: 1 },
+  ...overrides
+});
+
+describe('computeRiskScore', () => {
+  it('should score a clean, full history at 100', () => {
+    const { score, factors } = computeRiskScore(history(), model);
+
+    expect(score).toBe(100);
+    expect(factors.every(factor => factor.impact === 0)).toBe(true);
+    expect(factors.find(factor => factor.key === 'limitedHistory')).toBeUndefined();
+  });
+
+  it('should explain the score with factors that add up from 100', () => {
+    const { score, factors } = computeRiskScore(history({
+      onTime: 6,
+      totalDaysLate: 60,
+      overdue: 2,
+      defaulted: 1,
+      disputes: 1,
+      concentration: 0.75
+    }), model);
+
+    expect(factors.find(factor => factor.key === 'latePayments')).toMatchObject({ value: 0.4, impact: -10 });
+    expect(factors.find(factor => factor.key === 'daysLate')).toMatchObject({ value: 15, impact: -7.5 });
+    expect(factors.find(factor => factor.key === 'overdueRate')).toMatchObject({ value: 0.2, impact: -4 });
+    expect(factors.find(factor => factor.key === 'defaultRate')).toMatchObject({ value: 0.1, impact: -2.5 });
+    expect(factors.find(factor => factor.key === 'disputes')).toMatchObject({ value: 0.1, impact: -1 });
+    expect(factors.find(factor => factor.key === 'concentration')).toMatchObject({ value: 0.75, impact: -2.5 });
+    expect(score).toBe(72.5);
+    expect(100 + factors.reduce((sum, factor) => sum + factor.impact, 0)).toBeCloseTo(score);
+  });
+
+  it('should pull a thin history toward the prior and say so', () => {
+    const { score, factors } = computeRiskScore(history({ invoices: 1, settled: 1, onTime: 1, pastDue: 1, funded: 1 }), model);
+
+    // One of five outcomes: 60 + (100 - 60) * 0.2
+    expect(score).toBe(68);
+    expect(factors.find(factor => factor.key === 'limitedHistory')).toMatchObject({ value: 1, impact: -32 });
+  });
+
+  it('should score a party without history at the prior', () => {
+    const { score } = computeRiskScore(history({
+      invoices: 0, settled: 0, onTime: 0, pastDue: 0, funded: 0, concentration: 0
+    }), model);
+
+    expect(score).toBe(model.prior);
+  });
+});
+
+describe('grades', () => {
+  it('should grade scores against the model thresholds', () => {
+    expect(gradeFor(75, model)).toBe(RiskLevel.LOW);
+    expect(gradeFor(74.9, model)).toBe(RiskLevel.MEDIUM);
+    expect(gradeFor(50, model)).toBe(RiskLevel.MEDIUM);
+    expect(gradeFor(49.9, model)).toBe(RiskLevel.HIGH);
+  });
+
+  it('should show investors every grade up to their tolerance', () => {
+    expect(gradesForTolerance(RiskLevel.LOW)).toEqual([RiskLevel.LOW]);
+    expect(gradesForTolerance(RiskLevel.MEDIUM)).toEqual([RiskLevel.LOW, RiskLevel.MEDIUM]);
+    expect(gradesForTolerance(RiskLevel.HIGH)).toEqual([RiskLevel.LOW, RiskLevel.MEDIUM, RiskLevel.HIGH]);
+  });
+
+  it('should reject unknown model versions', () => {
+    expect(() => getRiskModel('v0')).toThrow('Unknown risk model version v0');
+  });
+});
+
+describe('RiskScoringService', () => {
+  let service: RiskScoringService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new RiskScoringService({ enabled: false, modelVersion: 'v1', batchSize: 10 });
+
+    mockPrisma.escrowDispute.count.mockResolvedValue(0);
+    mockPrisma.invoice.update.mockImplementation(async ({ data }: any) => ({ id: 'inv-1', ...data }));
+  });
+
+  describe('scoreInvoice', () => {
+    it('should weight the buyer over the supplier and store the grade with its factors', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue({ id: 'inv-1', supplierId: 'supplier-1', buyerId: 'buyer-1' });
+      const paidOnTime = Array.from({ length: 5 }, (_, i) => invoiceRow({ id: `inv-${i}`, buyerId: `buyer-${i}` }));
+      const paidLate = Array.from({ length: 5 }, (_, i) => invoiceRow({
+        id: `late-${i}`,
+        supplierId: `supplier-${i}`,
+        events: [{ createdAt: new Date('2025-03-31T00:00:00Z') }]
+      }));
+      mockPrisma.invoice.findMany.mockImplementation(async ({ where }: any) => (where.supplierId ? paidOnTime : paidLate));
+
+      const risk = await service.scoreInvoice('inv-1', now);
+
+      expect(risk.supplier.score).toBe(100);
+      // Every buyer payment was 30 days late: 100 - 25 - 15
+      expect(risk.buyer!.score).toBe(60);
+      expect(risk.score).toBe(76);
+      expect(risk.grade).toBe(RiskLevel.LOW);
+      expect(mockPrisma.invoice.update).toHaveBeenCalledWith({
+        where: { id: 'inv-1' },
+        data: expect.objectContaining({
+          riskScore: 76,
+          riskGrade: RiskLevel.LOW,
+          riskModelVersion: 'v1',
+          riskScoredAt: now
+        })
+      });
+      const stored = JSON.parse(mockPrisma.invoice.update.mock.calls[0][0].data.riskFactors);
+      expect(stored.buyer.factors.find((factor: any) => factor.key === 'latePayments').impact).toBe(-25);
+    });
+
+    it('should count overdue, defaulted and disputed invoices against the supplier', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue({ id: 'inv-1', supplierId: 'supplier-1', buyerId: null });
+      mockPrisma.invoice.findMany.mockResolvedValue([
+        ...Array.from({ length: 3 }, (_, i) => invoiceRow({ id: `inv-${i}`, buyerId: `buyer-${i}` })),
+        invoiceRow({ id: 'inv-3', buyerId: 'buyer-3', status: 'OVERDUE', events: [], overdueCase: { stage: 'REMINDED' } }),
+        invoiceRow({ id: 'inv-4', buyerId: 'buyer-4', status: 'OVERDUE', events: [], overdueCase: { stage: 'DEFAULTED' } })
+      ]);
+      mockPrisma.escrowDispute.count.mockResolvedValue(1);
+
+      const risk = await service.scoreInvoice('inv-1', now);
+
+      expect(risk.buyer).toBeNull();
+      expect(risk.supplier.history).toMatchObject({ settled: 3, pastDue: 5, overdue: 2, defaulted: 1, disputes: 1, funded: 5 });
+      // 100 - 20 * 0.4 - 25 * 0.2 - 10 * 0.2
+      expect(risk.score).toBe(85);
+    });
+
+    it('should reject unknown invoices', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue(null);
+
+      await expect(service.scoreInvoice('missing', now)).rejects.toThrow('Invoice not found');
+      expect(mockPrisma.invoice.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('scoreBuyer', () => {
+    it('should reject buyers without invoices', async () => {
+      mockPrisma.invoice.count.mockResolvedValue(0);
+
+      await expect(service.scoreBuyer('nobody', now)).rejects.toThrow('Buyer not found');
+    });
+  });
+
+  describe('getInvestorTolerance', () => {
+    it('should use the investor profile and default to MEDIUM without one', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'user-1' });
+      mockPrisma.investor.findUnique.mockResolvedValueOnce({ riskTolerance: 'LOW' }).mockResolvedValueOnce(null);
+
+      await expect(service.getInvestorTolerance('0.0.1001')).resolves.toBe(RiskLevel.LOW);
+      await expect(service.getInvestorTolerance('0.0.1001')).resolves.toBe(RiskLevel.MEDIUM);
+    });
+  });
+
+  describe('runOnce', () => {
+    it('should keep rescoring when one invoice fails', async () => {
+      mockPrisma.invoice.findMany
+        .mockResolvedValueOnce([{ id: 'inv-1' }, { id: 'inv-2' }])
+        .mockResolvedValue([invoiceRow()]);
+      mockPrisma.invoice.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 'inv-2', supplierId: 'supplier-1', buyerId: null });
+
+      await expect(service.runOnce(now)).resolves.toBe(1);
+      expect(mockPrisma.invoice.update).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,463 @@
+import { SyndicationService, SyndicateStatus, allocateProRata } from '../syndicationService';
+import { contractService } from '../contract';
+import { invoiceService, InvoiceStatus, InvoiceEventType } from '../invoices';
+import { ledgerService } from '../ledgerService';
+import { duplicateDetectionService } from '../duplicateDetectionService';
+import { ConflictError } from '../../middleware/errorHandler';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma = {
+    invoice: {
+      findUnique: jest.fn()
+    },
+    user: {
+      findUnique: jest.fn()
+    },
+    funding: {
+      count: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn()
+    },
+    fundingSyndicate: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn()
+    },
+    marketplaceListing: {
+      findFirst: jest.fn()
+    }
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+jest.mock('../contract', () => ({
+  contractService: {
+    openSyndicate: jest.fn(),
+    commitTranche: jest.fn(),
+    releaseSyndicate: jest.fn(),
+    refundSyndicate: jest.fn()
+  }
+}));
+
+jest.mock('../hedera', () => ({
+  HederaService: jest.fn().mockImplementation(() => ({
+    submitTopicMessage: jest.fn().mockResolvedValue({ transactionId: 'tx-hcs', sequenceNumber: '7' })
+  }))
+}));
+
+jest.mock('../invoices', () => ({
+  ...jest.requireActual('../invoices'),
+  invoiceService: {
+    addInvoiceEvent: jest.fn(),
+    updateInvoiceStatus: jest.fn()
+  }
+}));
+
+jest.mock('../ledgerService', () => ({
+  ledgerService: {
+    recordFundingCommitment: jest.fn(),
+    recordEscrowLock: jest.fn(),
+    recordRelease: jest.fn(),
+    recordRefund: jest.fn()
+  }
+}));
+
+jest.mock('../duplicateDetectionService', () => ({
+  duplicateDetectionService: {
+    assertFundable: jest.fn()
+  }
+}));
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+const mockContract = contractService as jest.Mocked<typeof contractService>;
+const mockInvoices = invoiceService as jest.Mocked<typeof invoiceService>;
+const mockLedger = ledgerService as jest.Mocked<typeof ledgerService>;
+const mockDuplicates = duplicateDetectionService as jest.Mocked<typeof duplicateDetectionService>;
+
+const NOW = new Date('2024-03-01T00:00:00Z');
+
+const invoiceRow = (overrides: Record<string, any> = {}) => ({
+  id: 'inv-1',
+  amount: 1000,
+  currency: 'HBAR',
+  status: InvoiceStatus.ISSUED,
+  dueDate: new Date('2024-06-01T00:00:00Z'),
+  nftTokenId: '0.0.123',
+  fileHash: 'abc',
+  topicId: null,
+  supplier: { id: 'supplier-1', accountId: '0.0.5001' },
+  ...overrides
+});
+
+const syndicateRow = (overrides: Record<string, any> = {}) => ({
+  id: 'syn-1',
+  invoiceId: 'inv-1',
+  targetAmount: 1000,
+  committedAmount: 0,
+  minTrancheAmount: null,
+  fillDeadline: new Date('2024-03-15T00:00:00Z'),
+  status: SyndicateStatus.OPEN,
+  escrowId: '0xsyndicate',
+  invoice: invoiceRow(),
+  tranches: [],
+  ...overrides
+});
+
+const tranche = (id: string, investorId: string, amount: number) => ({
+  id, investorId, amount, status: 'ACTIVE'
+});
+
+describe('allocateProRata', () => {
+  it('should split in proportion to tranche size', () => {
+    expect(allocateProRata(100, [
+      { id: 'a', amount: 600 },
+      { id: 'b', amount: 400 }
+    ])).toEqual({ a: 60, b: 40 });
+  });
+
+  it('should hand leftover tinybars to the largest remainders', () => {
+    const allocations = allocateProRata(0.00000010, [
+      { id: 'a', amount: 1 },
+      { id: 'b', amount: 1 },
+      { id: 'c', amount: 1 }
+    ]);
+
+    expect(allocations).toEqual({ a: 0.00000004, b: 0.00000003, c: 0.00000003 });
+  });
+
+  it('should always add up to the total', () => {
+    const allocations = allocateProRata(25.5, [
+      { id: 'a', amount: 333.33 },
+      { id: 'b', amount: 333.33 },
+      { id: 'c', amount: 333.34 }
+    ]);
+    const sum = Object.values(allocations).reduce((total, v) => total + Math.round(v * 1e8), 0);
+
+    expect(sum).toBe(25.5 * 1e8);
+  });
+});
+
+describe('SyndicationService', () => {
+  let service: SyndicationService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new SyndicationService();
+    mockPrisma.user.findUnique.mockImplementation(({ where }) => Promise.resolve(
+      { id: `investor-${where.accountId.slice(-1)}`, accountId: where.accountId }
+    ));
+    mockPrisma.marketplaceListing.findFirst.mockResolvedValue(null);
+  });
+
+  describe('openSyndicate', () => {
+    const input = {
+      invoiceId: 'inv-1',
+      requester: { accountId: '0.0.5001', roles: ['SUPPLIER'] },
+      fillDeadline: new Date('2024-03-15T00:00:00Z')
+    };
+
+    it('should open a syndicate targeting the invoice\'s discounted value', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoiceRow());
+      mockPrisma.fundingSyndicate.findUnique.mockResolvedValue(null);
+      mockPrisma.funding.count.mockResolvedValue(0);
+      mockContract.openSyndicate.mockResolvedValue({ escrowId: '0xsyndicate', transactionHash: '0xopen', status: 'confirmed' });
+      mockPrisma.fundingSyndicate.create.mockImplementation(({ data }) => Promise.resolve({ id: 'syn-1', ...data }));
+
+      const syndicate = await service.openSyndicate(input, NOW);
+
+      expect(mockContract.openSyndicate).toHaveBeenCalledWith(expect.objectContaining({
+        invoiceId: 'inv-1',
+        supplierAddress: '0.0.5001',
+        targetAmount: '987.39726027', // 92 days at the default 5%
+        fillDeadline: input.fillDeadline
+      }));
+      expect(syndicate).toEqual(expect.objectContaining({ targetAmount: 987.39726027, status: SyndicateStatus.OPEN }));
+      expect(mockInvoices.addInvoiceEvent).toHaveBeenCalledWith(
+        'inv-1', InvoiceEventType.FUNDING_REQUESTED, expect.any(String), expect.any(Object),
+        undefined, expect.any(Date), '0xopen'
+      );
+    });
+
+    it('should reject a supplier syndicating another supplier\'s invoice', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoiceRow());
+
+      await expect(service.openSyndicate({ ...input, requester: { accountId: '0.0.6666', roles: ['SUPPLIER'] } }, NOW))
+        .rejects.toThrow('Only the supplier of this invoice can syndicate it');
+      expect(mockContract.openSyndicate).not.toHaveBeenCalled();
+    });
+
+    it('should let an admin open a syndicate paying out to the invoice supplier', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoiceRow());
+      mockPrisma.fundingSyndicate.findUnique.mockResolvedValue(null);
+      mockPrisma.funding.count.mockResolvedValue(0);
+      mockContract.openSyndicate.mockResolvedValue({ escrowId: '0xsyndicate', transactionHash: '0xopen', status: 'confirmed' });
+      mockPrisma.fundingSyndicate.create.mockImplementation(({ data }) => Promise.resolve({ id: 'syn-1', ...data }));
+
+      await service.openSyndicate({ ...input, requester: { accountId: '0.0.9999', roles: ['ADMIN'] } }, NOW);
+
+      expect(mockContract.openSyndicate).toHaveBeenCalledWith(expect.objectContaining({ supplierAddress: '0.0.5001' }));
+    });
+
+    it('should reject fiat invoices', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoiceRow({ currency: 'USD' }));
+
+      await expect(service.openSyndicate(input, NOW)).rejects.toThrow('Only HBAR invoices can be syndicated');
+      expect(mockContract.openSyndicate).not.toHaveBeenCalled();
+    });
+
+    it('should reject a fill deadline in the past', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoiceRow());
+
+      await expect(service.openSyndicate({ ...input, fillDeadline: new Date('2024-02-01T00:00:00Z') }, NOW))
+        .rejects.toThrow('Fill deadline must be in the future');
+    });
+
+    it('should refuse invoices held for duplicate review', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoiceRow());
+      mockDuplicates.assertFundable.mockRejectedValueOnce(new ConflictError('Invoice is awaiting agent review as a possible duplicate'));
+
+      await expect(service.openSyndicate(input, NOW)).rejects.toThrow('awaiting agent review');
+      expect(mockContract.openSyndicate).not.toHaveBeenCalled();
+    });
+
+    it('should reject invoices listed on the marketplace', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoiceRow());
+      mockPrisma.fundingSyndicate.findUnique.mockResolvedValue(null);
+      mockPrisma.funding.count.mockResolvedValue(0);
+      mockPrisma.marketplaceListing.findFirst.mockResolvedValue({ id: 'listing-1', status: 'ACCEPTED' });
+
+      await expect(service.openSyndicate(input, NOW)).rejects.toThrow('Invoice is listed on the marketplace and cannot be syndicated');
+      expect(mockPrisma.marketplaceListing.findFirst).toHaveBeenCalledWith({
+        where: { invoiceId: 'inv-1', status: { in: ['OPEN', 'ACCEPTED'] } }
+      });
+      expect(mockContract.openSyndicate).not.toHaveBeenCalled();
+    });
+
+    it('should reject invoices that already have direct funding', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue(invoiceRow());
+      mockPrisma.fundingSyndicate.findUnique.mockResolvedValue(null);
+      mockPrisma.funding.count.mockResolvedValue(1);
+
+      await expect(service.openSyndicate(input, NOW)).rejects.toThrow('Invoice already has direct funding');
+      expect(mockContract.openSyndicate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('commitTranche', () => {
+    it('should record a tranche with its ownership share', async () => {
+      mockPrisma.fundingSyndicate.findUnique
+        .mockResolvedValueOnce(syndicateRow())
+        .mockResolvedValueOnce(syndicateRow({ committedAmount: 250 }));
+      mockPrisma.fundingSyndicate.updateMany.mockResolvedValue({ count: 1 });
+      mockContract.commitTranche.mockResolvedValue({ escrowId: '0xsyndicate', transactionHash: '0xtranche', status: 'confirmed' });
+      mockPrisma.funding.create.mockImplementation(({ data }) => Promise.resolve({ id: 'fund-1', ...data }));
+
+      const { funding, syndicate } = await service.commitTranche({ syndicateId: 'syn-1', investorAccountId: '0.0.1001', amount: 250 }, NOW);
+
+      expect(mockPrisma.fundingSyndicate.updateMany).toHaveBeenCalledWith({
+        where: { id: 'syn-1', status: SyndicateStatus.OPEN, committedAmount: { lte: 750 } },
+        data: { committedAmount: { increment: 250 } }
+      });
+      expect(funding).toEqual(expect.objectContaining({ syndicateId: 'syn-1', ownershipShare: 0.25, amount: 250 }));
+      expect(syndicate?.status).toBe(SyndicateStatus.OPEN);
+      expect(mockInvoices.updateInvoiceStatus).not.toHaveBeenCalled();
+      expect(mockLedger.recordFundingCommitment).toHaveBeenCalledWith(expect.objectContaining({ id: 'fund-1', amount: 250 }), '0xtranche');
+      expect(mockLedger.recordEscrowLock).toHaveBeenCalledWith(expect.objectContaining({ id: 'fund-1' }), '0xtranche');
+    });
+
+    it('should mark the syndicate filled and the invoice funded on the last tranche', async () => {
+      mockPrisma.fundingSyndicate.findUnique
+        .mockResolvedValueOnce(syndicateRow({ committedAmount: 600 }))
+        .mockResolvedValueOnce(syndicateRow({ committedAmount: 1000 }));
+      mockPrisma.fundingSyndicate.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.fundingSyndicate.update.mockResolvedValue(syndicateRow({ committedAmount: 1000, status: SyndicateStatus.FILLED }));
+      mockContract.commitTranche.mockResolvedValue({ escrowId: '0xsyndicate', transactionHash: '0xtranche', status: 'confirmed' });
+      mockPrisma.funding.create.mockImplementation(({ data }) => Promise.resolve({ id: 'fund-2', ...data }));
+
+      const { syndicate } = await service.commitTranche({ syndicateId: 'syn-1', investorAccountId: '0.0.1002', amount: 400 }, NOW);
+
+      expect(syndicate?.status).toBe(SyndicateStatus.FILLED);
+      expect(mockInvoices.updateInvoiceStatus).toHaveBeenCalledWith(
+        'inv-1', InvoiceStatus.FUNDED, expect.any(String), undefined, '0xtranche'
+      );
+    });
+
+    it('should commit the tranche for the authenticated investor', async () => {
+      mockPrisma.fundingSyndicate.findUnique.mockResolvedValue(syndicateRow());
+      mockPrisma.fundingSyndicate.updateMany.mockResolvedValue({ count: 1 });
+      mockContract.commitTranche.mockResolvedValue({ escrowId: '0xsyndicate', transactionHash: '0xtranche', status: 'confirmed' });
+      mockPrisma.funding.create.mockImplementation(({ data }) => Promise.resolve({ id: 'fund-2', ...data }));
+
+      const { funding } = await service.commitTranche({ syndicateId: 'syn-1', investorAccountId: '0.0.1002', amount: 100 }, NOW);
+
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith({ where: { accountId: '0.0.1002' } });
+      expect(funding).toEqual(expect.objectContaining({ investorId: 'investor-2' }));
+    });
+
+    it('should reject a wallet with no investor account', async () => {
+      mockPrisma.fundingSyndicate.findUnique.mockResolvedValue(syndicateRow());
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.commitTranche({ syndicateId: 'syn-1', investorAccountId: '0.0.9999', amount: 100 }, NOW))
+        .rejects.toThrow('Investor not found');
+      expect(mockPrisma.fundingSyndicate.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject a tranche that over-subscribes the target', async () => {
+      mockPrisma.fundingSyndicate.findUnique.mockResolvedValue(syndicateRow({ committedAmount: 900 }));
+
+      await expect(service.commitTranche({ syndicateId: 'syn-1', investorAccountId: '0.0.1001', amount: 200 }, NOW))
+        .rejects.toThrow('Tranche of 200 HBAR exceeds remaining capacity of 100 HBAR');
+      expect(mockContract.commitTranche).not.toHaveBeenCalled();
+    });
+
+    it('should reject a tranche that loses the race for the remaining capacity', async () => {
+      mockPrisma.fundingSyndicate.findUnique.mockResolvedValue(syndicateRow({ committedAmount: 900 }));
+      mockPrisma.fundingSyndicate.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.commitTranche({ syndicateId: 'syn-1', investorAccountId: '0.0.1001', amount: 100 }, NOW))
+        .rejects.toThrow('over-subscribe');
+      expect(mockContract.commitTranche).not.toHaveBeenCalled();
+    });
+
+    it('should reject tranches after the fill deadline', async () => {
+      mockPrisma.fundingSyndicate.findUnique.mockResolvedValue(syndicateRow());
+
+      await expect(service.commitTranche(
+        { syndicateId: 'syn-1', investorAccountId: '0.0.1001', amount: 100 },
+        new Date('2024-03-16T00:00:00Z')
+      )).rejects.toThrow('Syndicate fill deadline has passed');
+    });
+
+    it('should enforce the minimum tranche except for the one that fills the target', async () => {
+      mockPrisma.fundingSyndicate.findUnique.mockResolvedValue(syndicateRow({ committedAmount: 950, minTrancheAmount: 100 }));
+
+      await expect(service.commitTranche({ syndicateId: 'syn-1', investorAccountId: '0.0.1001', amount: 10 }, NOW))
+        .rejects.toThrow('Tranche must be at least 100 HBAR');
+
+      mockPrisma.fundingSyndicate.updateMany.mockResolvedValue({ count: 0 });
+      await expect(service.commitTranche({ syndicateId: 'syn-1', investorAccountId: '0.0.1001', amount: 50 }, NOW))
+        .rejects.toThrow('over-subscribe');
+    });
+
+    it('should release the reserved capacity when the escrow call fails', async () => {
+      mockPrisma.fundingSyndicate.findUnique.mockResolvedValue(syndicateRow());
+      mockPrisma.fundingSyndicate.updateMany.mockResolvedValue({ count: 1 });
+      mockContract.commitTranche.mockRejectedValue(new Error('Transaction failed'));
+
+      await expect(service.commitTranche({ syndicateId: 'syn-1', investorAccountId: '0.0.1001', amount: 100 }, NOW))
+        .rejects.toThrow('Transaction failed');
+      expect(mockPrisma.fundingSyndicate.update).toHaveBeenCalledWith({
+        where: { id: 'syn-1' },
+        data: { committedAmount: { decrement: 100 } }
+      });
+      expect(mockPrisma.funding.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseSyndicate', () => {
+    it('should split the payout and fee pro-rata across tranches', async () => {
+      mockPrisma.fundingSyndicate.findUnique.mockResolvedValue(syndicateRow({
+        committedAmount: 1000,
+        status: SyndicateStatus.FILLED,
+        tranches: [tranche('fund-1', 'investor-1', 750), tranche('fund-2', 'investor-2', 250)]
+      }));
+      mockContract.releaseSyndicate.mockResolvedValue({
+        escrowId: '0xsyndicate', transactionHash: '0xrelease', status: 'confirmed', supplierAmount: '975.0', fee: '25.0'
+      });
+      mockPrisma.fundingSyndicate.update.mockResolvedValue(syndicateRow({ status: SyndicateStatus.RELEASED }));
+
+      const result = await service.releaseSyndicate('syn-1');
+
+      expect(result.allocations).toEqual([
+        { fundingId: 'fund-1', investorId: 'investor-1', amount: 731.25, fee: 18.75, share: 0.75 },
+        { fundingId: 'fund-2', investorId: 'investor-2', amount: 243.75, fee: 6.25, share: 0.25 }
+      ]);
+      expect(mockPrisma.funding.updateMany).toHaveBeenCalledWith({
+        where: { syndicateId: 'syn-1', status: 'ACTIVE' },
+        data: expect.objectContaining({ status: 'RELEASED', releaseTransactionHash: '0xrelease' })
+      });
+      expect(mockLedger.recordRelease).toHaveBeenCalledTimes(2);
+      expect(mockLedger.recordRelease).toHaveBeenCalledWith(expect.objectContaining({ id: 'fund-2' }), '0xrelease');
+    });
+
+    it('should not release an unfilled syndicate', async () => {
+      mockPrisma.fundingSyndicate.findUnique.mockResolvedValue(syndicateRow({ committedAmount: 500 }));
+
+      await expect(service.releaseSyndicate('syn-1')).rejects.toThrow('Only a filled syndicate can be released');
+      expect(mockContract.releaseSyndicate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refundExpiredSyndicates', () => {
+    it('should refund partial pools whose fill deadline has passed', async () => {
+      const now = new Date('2024-03-16T00:00:00Z');
+      mockPrisma.fundingSyndicate.findMany.mockResolvedValue([{ id: 'syn-1' }]);
+      mockPrisma.fundingSyndicate.findUnique.mockResolvedValue(syndicateRow({
+        committedAmount: 600,
+        tranches: [tranche('fund-1', 'investor-1', 400), tranche('fund-2', 'investor-2', 200)]
+      }));
+      mockContract.refundSyndicate.mockResolvedValue({ escrowId: '0xsyndicate', transactionHash: '0xrefund', status: 'confirmed' });
+      mockPrisma.fundingSyndicate.update.mockResolvedValue(syndicateRow({ status: SyndicateStatus.REFUNDED }));
+
+      const refunded = await service.refundExpiredSyndicates(now);
+
+      expect(refunded).toBe(1);
+      expect(mockPrisma.fundingSyndicate.findMany).toHaveBeenCalledWith({
+        where: { status: SyndicateStatus.OPEN, fillDeadline: { lt: now } },
+        select: { id: true }
+      });
+      expect(mockPrisma.funding.updateMany).toHaveBeenCalledWith({
+        where: { syndicateId: 'syn-1', status: 'ACTIVE' },
+        data: expect.objectContaining({ status: 'REFUNDED', refundTransactionHash: '0xrefund' })
+      });
+      expect(mockLedger.recordRefund).toHaveBeenCalledWith(expect.objectContaining({ id: 'fund-1' }), '0xrefund');
+      expect(mockInvoices.addInvoiceEvent).toHaveBeenCalledWith(
+        'inv-1',
+        InvoiceEventType.FUNDING_REFUNDED,
+        expect.stringContaining('Fill deadline passed'),
+        expect.objectContaining({
+          allocations: [
+            { fundingId: 'fund-1', investorId: 'investor-1', amount: 400, share: 0.4 },
+            { fundingId: 'fund-2', investorId: 'investor-2', amount: 200, share: 0.2 }
+          ]
+        }),
+        undefined,
+        expect.any(Date),
+        '0xrefund'
+      );
+      // The invoice stays bound to the refunded syndicate, so it is closed out
+      expect(mockInvoices.updateInvoiceStatus).toHaveBeenCalledWith(
+        'inv-1',
+        InvoiceStatus.CANCELLED,
+        expect.stringContaining('Syndication failed'),
+        undefined,
+        '0xrefund'
+      );
+    });
+
+    it('should keep sweeping when one refund fails', async () => {
+      mockPrisma.fundingSyndicate.findMany.mockResolvedValue([{ id: 'syn-1' }, { id: 'syn-2' }]);
+      mockPrisma.fundingSyndicate.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(syndicateRow({ id: 'syn-2' }));
+      mockContract.refundSyndicate.mockResolvedValue({ escrowId: '0xsyndicate', transactionHash: '0xrefund', status: 'confirmed' });
+      mockPrisma.fundingSyndicate.update.mockResolvedValue(syndicateRow({ id: 'syn-2', status: SyndicateStatus.REFUNDED }));
+
+      await expect(service.refundExpiredSyndicates(new Date('2024-03-16T00:00:00Z'))).resolves.toBe(1);
+    });
+  });
+});
@@ -0,0 +1,405 @@
+import { createHash } from 'crypto';
+import { UploadSessionService, UploadSessionStatus } from '../uploadSessionService';
+import { hederaFileService } from '../hederaFileService';
+import { documentEncryptionService } from '../documentEncryptionService';
+import { documentStoreService, DocumentStorageBackend, DocumentStore } from '../documentStoreService';
+import { outboxService } from '../outboxService';
+import { ValidationError, ConflictError, HederaError } from '../../middleware/errorHandler';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  },
+  auditLogger: {
+    logSecurity: jest.fn()
+  }
+}));
+
+// In-memory Prisma double for sessions and parts, so a completion can be
+// interrupted and resumed against the same stored state
+jest.mock('@prisma/client', () => {
+  const db: { sessions: any[]; parts: any[] } = { sessions: [], parts: [] };
+  let nextId = 1;
+  const session = (id: string) => db.sessions.find(s => s.id === id);
+  const unlocked = (row: any) => (c: any) => (c.lockedAt === null ? !row.lockedAt : !!row.lockedAt && row.lockedAt < c.lockedAt.lt);
+
+  const prisma: any = {
+    __db: db,
+    invoice: {
+      findUnique: jest.fn(async ({ where }) => (where.id === 'inv-1' ? { id: 'inv-1' } : null))
+    },
+    uploadSession: {
+      create: jest.fn(async ({ data }) => {
+        const row = { id: `upload-${nextId++}`, fileId: null, appendedBytes: 0, documentId: null, lastError: null, storedContent: null, wrappedDataKey: null, ...data };
+        db.sessions.push(row);
+        return { ...row };
+      }),
+      findUnique: jest.fn(async ({ where, include }) => {
+        const row = session(where.id);
+        if (!row) return null;
+        return include
+          ? { ...row, parts: db.parts.filter(p => p.sessionId === row.id).sort((a, b) => a.partNumber - b.partNumber) }
+          : { ...row };
+      }),
+      findUniqueOrThrow: jest.fn(async ({ where }) => ({ ...session(where.id) })),
+      findMany: jest.fn(async ({ where }) => db.sessions.filter(s => s.expiresAt < where.expiresAt.lt
+        && where.OR.some((c: any) => s.status === c.status && (!c.OR || c.OR.some(unlocked(s)))))),
+      update: jest.fn(async ({ where, data }) => Object.assign(session(where.id), data)),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const row = session(where.id);
+        if (!row || row.status !== where.status) return { count: 0 };
+        if (where.OR && !where.OR.some(unlocked(row))) return { count: 0 };
+        if (where.lockedAt && row.lockedAt?.getTime() !== where.lockedAt.getTime()) return { count: 0 };
+        Object.assign(row, data);
+        return { count: 1 };
+      })
+    },
+    uploadPart: {
+      upsert: jest.fn(async ({ where, create, update }) => {
+        const { sessionId, partNumber } = where.sessionId_partNumber;
+        const existing = db.parts.find(p => p.sessionId === sessionId && p.partNumber === partNumber);
+        if (existing) return Object.assign(existing, update);
+        db.parts.push({ ...create });
+        return create;
+      }),
+      findMany: jest.fn(async ({ where }) => db.parts
+        .filter(p => p.sessionId === where.sessionId)
+        .sort((a, b) => a.partNumber - b.partNumber)),
+      deleteMany: jest.fn(async ({ where }) => {
+        db.parts = db.parts.filter(p => p.sessionId !== where.sessionId);
+      })
+    },
+    document: {
+      create: jest.fn(async ({ data }) => data)
+    }
+  };
+  prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+jest.mock('../hederaFileService', () => ({
+  HFS_CHUNK_SIZE: 1024,
+  hederaFileService: {
+    createFile: jest.fn(),
+    appendToFile: jest.fn(),
+    getFileInfo: jest.fn(),
+    deleteFile: jest.fn()
+  }
+}));
+
+jest.mock('../outboxService', () => ({
+  OutboxAction: { HCS_MESSAGE: 'HCS_MESSAGE' },
+  outboxService: {
+    enqueue: jest.fn(),
+    dispatchAggregate: jest.fn()
+  }
+}));
+
+jest.mock('../documentEncryptionService', () => ({
+  ...jest.requireActual('../documentEncryptionService'),
+  documentEncryptionService: {
+    enabled: false,
+    encrypt: jest.fn(),
+    wrapKey: jest.fn(),
+    unwrapKey: jest.fn(),
+    storeKeys: jest.fn()
+  }
+}));
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+const mockFiles = hederaFileService as jest.Mocked<typeof hederaFileService>;
+const mockEncryption = documentEncryptionService as jest.Mocked<typeof documentEncryptionService> & { enabled: boolean };
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+// A 2.5 KiB PDF: three HFS chunks, sent in three 1000-byte parts
+const PDF = Buffer.concat([Buffer.from('%PDF-1.7\n'), Buffer.alloc(2551, 'x')]);
+const partOf = (partNumber: number) => PDF.subarray((partNumber - 1) * 1000, partNumber * 1000);
+
+const START = {
+  invoiceId: 'inv-1',
+  supplierId: 'supplier-1',
+  documentType: 'invoice' as const,
+  filename: 'invoice.pdf',
+  mimeType: 'application/pdf',
+  size: PDF.length,
+  sha256: createHash('sha256').update(PDF).digest('hex')
+};
+
+describe('UploadSessionService', () => {
+  let service: UploadSessionService;
+
+  const uploadAllParts = async (uploadId: string) => {
+    for (const partNumber of [1, 2, 3]) {
+      await service.uploadPart(uploadId, partNumber, partOf(partNumber));
+    }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+    mockPrisma.__db.sessions = [];
+    mockPrisma.__db.parts = [];
+    mockEncryption.enabled = false;
+    service = new UploadSessionService({ partSize: 1000, sessionTtl: 60 * 60 * 1000, lockTimeout: 5 * 60 * 1000 }, { now: () => NOW });
+
+    mockFiles.createFile.mockResolvedValue({ fileId: '0.0.8001', transactionId: 'tx-create', expiresAt: NOW });
+    mockFiles.appendToFile.mockResolvedValue({ transactionId: 'tx-append' });
+    mockFiles.deleteFile.mockResolvedValue({ success: true });
+  });
+
+  describe('start', () => {
+    it('should split the document into parts', async () => {
+      const upload = await service.start(START);
+
+      expect(upload).toEqual(expect.objectContaining({
+        status: UploadSessionStatus.OPEN,
+        totalParts: 3,
+        partSize: 1000,
+        missingParts: [1, 2, 3],
+        expiresAt: new Date(NOW.getTime() + 60 * 60 * 1000)
+      }));
+    });
+
+    it('should refuse unsupported and oversized files', async () => {
+      await expect(service.start({ ...START, filename: 'run.exe' })).rejects.toThrow(ValidationError);
+      await expect(service.start({ ...START, mimeType: 'application/zip' })).rejects.toThrow(ValidationError);
+      await expect(service.start({ ...START, size: 11 * 1024 * 1024 })).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('uploadPart', () => {
+    it('should track received parts and progress', async () => {
+      const { id } = await service.start(START);
+
+      await service.uploadPart(id, 3, partOf(3));
+      const upload = await service.uploadPart(id, 1, partOf(1));
+
+      expect(upload.receivedParts).toEqual([1, 3]);
+      expect(upload.missingParts).toEqual([2]);
+      expect(upload.progress).toEqual(expect.objectContaining({ receivedBytes: 1560, appendedBytes: 0 }));
+    });
+
+    it('should refuse parts of the wrong size', async () => {
+      const { id } = await service.start(START);
+
+      await expect(service.uploadPart(id, 1, partOf(3))).rejects.toThrow('Part 1 must be 1000 bytes, got 560');
+    });
+  });
+
+  describe('complete', () => {
+    it('should refuse to complete with parts missing', async () => {
+      const { id } = await service.start(START);
+      await service.uploadPart(id, 1, partOf(1));
+
+      await expect(service.complete(id)).rejects.toMatchObject({ details: { missingParts: [2, 3] } });
+    });
+
+    it('should write the document to HFS chunk by chunk and create it', async () => {
+      const { id } = await service.start(START);
+      await uploadAllParts(id);
+
+      const upload = await service.complete(id);
+
+      expect(upload).toEqual(expect.objectContaining({ status: UploadSessionStatus.COMPLETED, fileId: '0.0.8001' }));
+      expect(upload.progress.percent).toBe(100);
+      expect(mockFiles.createFile).toHaveBeenCalledWith(PDF.subarray(0, 1024), 'YieldHarvest invoice - Invoice: inv-1');
+      expect(mockFiles.appendToFile.mock.calls).toEqual([
+        ['0.0.8001', PDF.subarray(1024, 2048)],
+        ['0.0.8001', PDF.subarray(2048)]
+      ]);
+      expect(mockPrisma.document.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          invoiceId: 'inv-1',
+          storageBackend: DocumentStorageBackend.HFS,
+          storageUri: 'hfs://0.0.8001',
+          fileId: '0.0.8001',
+          hash: START.sha256,
+          size: PDF.length,
+          encrypted: false
+        })
+      });
+    });
+
+    it('should store large documents off-chain in one write and anchor them', async () => {
+      const offChain: jest.Mocked<DocumentStore> = {
+        backend: DocumentStorageBackend.S3,
+        put: jest.fn().mockResolvedValue({ backend: DocumentStorageBackend.S3, uri: 's3://yieldharvest/documents/abc', sha256: 'abc', fileId: null }),
+        get: jest.fn(),
+        remove: jest.fn()
+      };
+      jest.spyOn(documentStoreService, 'backendFor').mockReturnValue(DocumentStorageBackend.S3);
+      jest.spyOn(documentStoreService, 'storeFor').mockReturnValue(offChain);
+      const anchor = jest.spyOn(documentStoreService, 'anchor').mockResolvedValue(true);
+      const { id } = await service.start(START);
+      await uploadAllParts(id);
+
+      const upload = await service.complete(id);
+
+      expect(upload.status).toBe(UploadSessionStatus.COMPLETED);
+      expect(offChain.put).toHaveBeenCalledWith(PDF, expect.objectContaining({ filename: 'invoice.pdf' }));
+      expect(mockFiles.createFile).not.toHaveBeenCalled();
+      expect(mockPrisma.document.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ storageBackend: DocumentStorageBackend.S3, storageUri: 's3://yieldharvest/documents/abc', fileId: null })
+      });
+      expect(anchor).toHaveBeenCalledWith(expect.objectContaining({ storageUri: 's3://yieldharvest/documents/abc' }), mockPrisma);
+      expect(outboxService.dispatchAggregate).toHaveBeenCalled();
+    });
+
+    it('should resume from the size HFS reports after a failed append', async () => {
+      const { id } = await service.start(START);
+      await uploadAllParts(id);
+      mockFiles.appendToFile.mockRejectedValueOnce(new Error('BUSY'));
+
+      await expect(service.complete(id)).rejects.toThrow(HederaError);
+      expect(await service.getUpload(id)).toEqual(expect.objectContaining({
+        status: UploadSessionStatus.COMPLETING,
+        lastError: 'BUSY',
+        missingParts: []
+      }));
+
+      // The first append reached consensus before the client saw the error
+      mockFiles.getFileInfo.mockResolvedValue({ fileId: '0.0.8001', size: 2048, expirationTime: NOW, keys: [], deleted: false });
+      mockFiles.appendToFile.mockClear();
+
+      const upload = await service.complete(id);
+
+      expect(upload.status).toBe(UploadSessionStatus.COMPLETED);
+      expect(mockFiles.createFile).toHaveBeenCalledTimes(1);
+      expect(mockFiles.appendToFile.mock.calls).toEqual([['0.0.8001', PDF.subarray(2048)]]);
+    });
+
+    it('should turn away a completion while another is resuming the upload', async () => {
+      const { id } = await service.start(START);
+      await uploadAllParts(id);
+      mockFiles.appendToFile.mockRejectedValueOnce(new Error('BUSY'));
+      await expect(service.complete(id)).rejects.toThrow(HederaError);
+
+      // Another worker has picked up the resume
+      mockPrisma.__db.sessions[0].lockedAt = NOW;
+      mockFiles.appendToFile.mockClear();
+
+      await expect(service.complete(id)).rejects.toThrow(ConflictError);
+      expect(mockFiles.getFileInfo).not.toHaveBeenCalled();
+      expect(mockFiles.appendToFile).not.toHaveBeenCalled();
+    });
+
+    it('should take over a resume whose lock has gone stale', async () => {
+      const { id } = await service.start(START);
+      await uploadAllParts(id);
+      mockFiles.appendToFile.mockRejectedValueOnce(new Error('BUSY'));
+      await expect(service.complete(id)).rejects.toThrow(HederaError);
+
+      mockPrisma.__db.sessions[0].lockedAt = new Date(NOW.getTime() - 10 * 60 * 1000);
+      mockFiles.getFileInfo.mockResolvedValue({ fileId: '0.0.8001', size: 1024, expirationTime: NOW, keys: [], deleted: false });
+
+      const upload = await service.complete(id);
+
+      expect(upload.status).toBe(UploadSessionStatus.COMPLETED);
+      expect(mockPrisma.__db.sessions[0].lockedAt).toBeNull();
+    });
+
+    it('should renew the lock with each chunk appended', async () => {
+      let tick = 0;
+      const ticking = new UploadSessionService(
+        { partSize: 1000, sessionTtl: 60 * 60 * 1000, lockTimeout: 5 * 60 * 1000 },
+        { now: () => new Date(NOW.getTime() + (tick++) * 60 * 1000) }
+      );
+      const { id } = await ticking.start(START);
+      await uploadAllParts(id);
+      const lockTimes: Date[] = [];
+      mockFiles.appendToFile.mockImplementation(async () => {
+        lockTimes.push(mockPrisma.__db.sessions[0].lockedAt);
+        return { transactionId: 'tx-append' };
+      });
+
+      await ticking.complete(id);
+
+      expect(lockTimes).toHaveLength(2);
+      expect(lockTimes[1].getTime()).toBeGreaterThan(lockTimes[0].getTime());
+    });
+
+    it('should stop appending once another completion has taken over the lock', async () => {
+      const { id } = await service.start(START);
+      await uploadAllParts(id);
+      const takenAt = new Date(NOW.getTime() + 60 * 1000);
+      mockFiles.appendToFile.mockImplementationOnce(async () => {
+        mockPrisma.__db.sessions[0].lockedAt = takenAt;
+        return { transactionId: 'tx-append' };
+      });
+
+      await expect(service.complete(id)).rejects.toThrow(ConflictError);
+      expect(mockFiles.appendToFile).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.__db.sessions[0]).toEqual(expect.objectContaining({ lockedAt: takenAt, appendedBytes: 1024 }));
+    });
+
+    it('should keep the session open when the content does not match the declared hash', async () => {
+      const { id } = await service.start({ ...START, sha256: 'a'.repeat(64) });
+      await uploadAllParts(id);
+
+      await expect(service.complete(id)).rejects.toThrow('does not match the declared SHA-256');
+      expect((await service.getUpload(id)).status).toBe(UploadSessionStatus.OPEN);
+      expect(mockFiles.createFile).not.toHaveBeenCalled();
+    });
+
+    it('should upload the encrypted document and wrap its key for the invoice parties', async () => {
+      mockEncryption.enabled = true;
+      const ciphertext = Buffer.concat([Buffer.from('YHENC1'), Buffer.alloc(2600, 'c')]);
+      const dataKey = Buffer.alloc(32, 9);
+      mockEncryption.encrypt.mockReturnValue({ ciphertext, dataKey, ciphertextHash: 'sealed' });
+      mockEncryption.wrapKey.mockReturnValue('wrapped');
+      mockEncryption.unwrapKey.mockReturnValue(dataKey);
+      const { id } = await service.start(START);
+      await uploadAllParts(id);
+
+      await service.complete(id);
+
+      expect(mockFiles.createFile).toHaveBeenCalledWith(ciphertext.subarray(0, 1024), expect.any(String));
+      expect(mockEncryption.unwrapKey).toHaveBeenCalledWith('wrapped', `upload:${id}`, 'ADMIN');
+      expect(mockEncryption.storeKeys).toHaveBeenCalledWith('0.0.8001', 'inv-1', dataKey, mockPrisma);
+      expect(mockPrisma.document.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ encrypted: true, ciphertextHash: createHash('sha256').update(ciphertext).digest('hex') })
+      });
+    });
+  });
+
+  describe('abort', () => {
+    it('should delete the parts and any partial HFS file', async () => {
+      const { id } = await service.start(START);
+      await uploadAllParts(id);
+      mockFiles.appendToFile.mockRejectedValueOnce(new Error('BUSY'));
+      await expect(service.complete(id)).rejects.toThrow(HederaError);
+
+      const upload = await service.abort(id);
+
+      expect(upload.status).toBe(UploadSessionStatus.ABORTED);
+      expect(mockFiles.deleteFile).toHaveBeenCalledWith('0.0.8001');
+      await expect(service.uploadPart(id, 1, partOf(1))).rejects.toThrow(ConflictError);
+      await expect(service.complete(id)).rejects.toThrow(ConflictError);
+    });
+
+    it('should leave expired sessions that a completion is still writing', async () => {
+      const later = new UploadSessionService(
+        { partSize: 1000, sessionTtl: 60 * 60 * 1000, lockTimeout: 5 * 60 * 1000 },
+        { now: () => new Date(NOW.getTime() + 2 * 60 * 60 * 1000) }
+      );
+      const writing = await service.start(START);
+      const stalled = await service.start(START);
+      const open = await service.start(START);
+      const [writingRow, stalledRow] = mockPrisma.__db.sessions;
+      writingRow.status = UploadSessionStatus.COMPLETING;
+      writingRow.lockedAt = new Date(NOW.getTime() + 2 * 60 * 60 * 1000 - 60 * 1000);
+      stalledRow.status = UploadSessionStatus.COMPLETING;
+      stalledRow.lockedAt = NOW;
+
+      expect(await later.abortExpired()).toBe(2);
+      expect((await service.getUpload(writing.id)).status).toBe(UploadSessionStatus.COMPLETING);
+      expect((await service.getUpload(stalled.id)).status).toBe(UploadSessionStatus.ABORTED);
+      expect((await service.getUpload(open.id)).status).toBe(UploadSessionStatus.ABORTED);
+    });
+  });
+});
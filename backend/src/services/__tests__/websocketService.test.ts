@@ -1,5 +1,8 @@
 import { FastifyInstance } from 'fastify';
-import { websocketService, MilestoneUpdate } from '../websocketService';
+import { EventEmitter } from 'events';
+import { websocketService, WebSocketService, MilestoneUpdate } from '../websocketService';
+import { InMemoryPubSub } from '../pubSubService';
+import { generateAccessToken, UserRole } from '../../middleware/auth';
 import { logger } from '../../utils/logger';
 
 // Mock logger
@@ -11,6 +14,18 @@ jest.mock('../../utils/logger', () => ({
   }
 }));
 
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma = {
+    invoice: {
+      findUnique: jest.fn()
+    }
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+
 // Mock Fastify WebSocket plugin
 const mockRegister = jest.fn();
 const mockFastify: FastifyInstance = {
@@ -173,4 +188,166 @@ describe('WebSocketService', () => {
       }).not.toThrow();
     });
   });
-});
\ No newline at end of file
+
+  describe('authenticated channels', () => {
+    let service: WebSocketService;
+    let fastify: FastifyInstance;
+
+    const tokenFor = (role: UserRole, id: string = 'user-1') =>
+      generateAccessToken({ id, accountId: '0.0.1001', role, email: `${id}@example.com` });
+
+    // Open a socket through the /ws route handler and collect what it is sent
+    const connect = (query: Record<string, string> = {}) => {
+      const socket: any = new EventEmitter();
+      socket.readyState = 1;
+      socket.sent = [] as any[];
+      socket.send = jest.fn((data: string) => socket.sent.push(JSON.parse(data)));
+      socket.close = jest.fn();
+      socket.ping = jest.fn();
+
+      const handler = (fastify.get as jest.Mock).mock.calls[0][2];
+      handler(socket, { query, headers: {} });
+      return socket;
+    };
+
+    const send = async (socket: any, message: any) => {
+      socket.emit('message', Buffer.from(JSON.stringify(message)));
+      await new Promise(resolve => setImmediate(resolve));
+    };
+
+    const update = (invoiceId: string, dealId?: string): MilestoneUpdate => ({
+      type: 'hcs_message',
+      data: { invoiceId },
+      timestamp: '2024-01-01T00:00:00Z',
+      invoiceId,
+      dealId
+    });
+
+    beforeEach(async () => {
+      service = new WebSocketService({ bufferSize: 3, maxChannels: 10 });
+      fastify = { register: jest.fn().mockResolvedValue(undefined), get: jest.fn() } as any;
+      await service.initialize(fastify);
+    });
+
+    afterEach(() => {
+      service.shutdown();
+    });
+
+    it('should close connections without a valid token', () => {
+      const socket = connect({ token: 'not-a-jwt' });
+
+      expect(socket.close).toHaveBeenCalledWith(4401, 'Unauthorized');
+      expect(socket.sent[0]).toEqual(expect.objectContaining({ type: 'error', data: expect.objectContaining({ code: 'AUTH_INVALID' }) }));
+      expect(service.getStats().totalClients).toBe(0);
+    });
+
+    it('should only let suppliers subscribe to their own invoices', async () => {
+      mockPrisma.invoice.findUnique.mockImplementation(({ where }: any) =>
+        Promise.resolve({ supplierId: where.id === 'inv-own' ? 'supplier-1' : 'supplier-2' }));
+      const socket = connect({ token: tokenFor(UserRole.SUPPLIER, 'supplier-1') });
+
+      await send(socket, { type: 'subscribe', invoiceId: 'inv-own' });
+      await send(socket, { type: 'subscribe', invoiceId: 'inv-other' });
+      await send(socket, { type: 'subscribe', dealId: '0.0.6000' });
+
+      expect(socket.sent.slice(1).map((m: any) => [m.type, m.data.channel])).toEqual([
+        ['subscribed', 'invoice:inv-own'],
+        ['error', 'invoice:inv-other'],
+        ['error', 'deal:0.0.6000']
+      ]);
+
+      service.broadcastMilestoneUpdate(update('inv-other'));
+      service.broadcastMilestoneUpdate(update('inv-own'));
+
+      expect(socket.sent.slice(4).map((m: any) => m.invoiceId)).toEqual(['inv-own']);
+    });
+
+    it('should send everything to investors without subscriptions but nothing to suppliers', () => {
+      const investor = connect({ token: tokenFor(UserRole.INVESTOR, 'investor-1') });
+      const supplier = connect({ token: tokenFor(UserRole.SUPPLIER, 'supplier-1') });
+
+      service.broadcastMilestoneUpdate(update('inv-1', '0.0.6000'));
+
+      expect(investor.sent[1]).toEqual(expect.objectContaining({
+        invoiceId: 'inv-1',
+        eventIds: { all: 1, 'deal:0.0.6000': 1, 'invoice:inv-1': 1 }
+      }));
+      expect(supplier.sent).toHaveLength(1); // welcome only
+    });
+
+    it('should number events per channel', () => {
+      service.broadcastMilestoneUpdate(update('inv-1'));
+      service.broadcastMilestoneUpdate(update('inv-2'));
+      const investor = connect({ token: tokenFor(UserRole.INVESTOR) });
+      service.broadcastMilestoneUpdate(update('inv-1'));
+
+      expect(investor.sent[1].eventIds).toEqual({ all: 3, 'invoice:inv-1': 2 });
+    });
+
+    it('should replay missed events once, in broadcast order, on resume', async () => {
+      const first = connect({ token: tokenFor(UserRole.ADMIN) });
+      const serverId = first.sent[0].data.serverId;
+      service.broadcastMilestoneUpdate(update('inv-1', '0.0.6000'));
+      service.broadcastMilestoneUpdate(update('inv-2', '0.0.6000'));
+      service.broadcastMilestoneUpdate(update('inv-1'));
+
+      const socket = connect({ token: tokenFor(UserRole.ADMIN) });
+      await send(socket, { type: 'resume', serverId, cursors: { 'deal:0.0.6000': 1, 'invoice:inv-1': 1 } });
+
+      const replayed = socket.sent.filter((m: any) => m.replayed);
+      expect(replayed.map((m: any) => m.eventIds.all)).toEqual([2, 3]);
+      expect(socket.sent[socket.sent.length - 1]).toEqual(expect.objectContaining({
+        type: 'resumed',
+        data: { serverId, channels: { 'deal:0.0.6000': 2, 'invoice:inv-1': 2 }, gaps: [], replayed: 2 }
+      }));
+
+      // Resuming subscribes to the channels, so live events follow
+      service.broadcastMilestoneUpdate(update('inv-3'));
+      service.broadcastMilestoneUpdate(update('inv-1'));
+      expect(socket.sent[socket.sent.length - 1].eventIds['invoice:inv-1']).toBe(3);
+    });
+
+    it('should report a gap when missed events fell out of the buffer or the server restarted', async () => {
+      for (let i = 0; i < 5; i++) {
+        service.broadcastMilestoneUpdate(update('inv-1'));
+      }
+      const socket = connect({ token: tokenFor(UserRole.ADMIN) });
+      const serverId = socket.sent[0].data.serverId;
+
+      await send(socket, { type: 'resume', serverId, cursors: { 'invoice:inv-1': 1 } });
+      expect(socket.sent[socket.sent.length - 1].data).toEqual(expect.objectContaining({ gaps: ['invoice:inv-1'], replayed: 3 }));
+
+      await send(socket, { type: 'resume', serverId: 'previous-server', cursors: { 'invoice:inv-1': 5 } });
+      expect(socket.sent[socket.sent.length - 1].data).toEqual(expect.objectContaining({ gaps: ['invoice:inv-1'] }));
+    });
+
+    it('should deliver updates broadcast on another replica through the bus', async () => {
+      const bus = new InMemoryPubSub();
+      const producer = new WebSocketService({ bufferSize: 3, maxChannels: 10 }, bus);
+      const consumer = new WebSocketService({ bufferSize: 3, maxChannels: 10 }, bus);
+      await producer.initialize({ register: jest.fn(), get: jest.fn() } as any);
+      service.shutdown();
+      service = consumer;
+      fastify = { register: jest.fn(), get: jest.fn() } as any;
+      await consumer.initialize(fastify);
+      const socket = connect({ token: tokenFor(UserRole.INVESTOR) });
+
+      producer.broadcastMilestoneUpdate(update('inv-1'));
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(socket.sent[1]).toEqual(expect.objectContaining({ invoiceId: 'inv-1', eventIds: { all: 1, 'invoice:inv-1': 1 } }));
+      producer.shutdown();
+    });
+
+    it('should not replay channels the client may not follow', async () => {
+      mockPrisma.invoice.findUnique.mockResolvedValue({ supplierId: 'supplier-2' });
+      service.broadcastMilestoneUpdate(update('inv-1'));
+      const socket = connect({ token: tokenFor(UserRole.SUPPLIER, 'supplier-1') });
+
+      await send(socket, { type: 'resume', cursors: { 'invoice:inv-1': 0, all: 0 } });
+
+      expect(socket.sent.filter((m: any) => m.replayed)).toHaveLength(0);
+      expect(socket.sent.filter((m: any) => m.type === 'error').map((m: any) => m.data.channel)).toEqual(['invoice:inv-1', 'all']);
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import {
+  WorkflowTemplatesService,
+  DEFAULT_WORKFLOW,
+  MilestoneType,
+  getNextStates,
+  computeProgress,
+  getMissingEvidence,
+  validateWorkflowDefinition,
+  WorkflowDefinition
+} from '../workflowTemplatesService';
+
+// Mock logger
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Mock Prisma - every PrismaClient shares one set of model mocks
+jest.mock('@prisma/client', () => {
+  const prisma = {
+    workflowTemplate: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn()
+    },
+    workflowAssignment: {
+      findMany: jest.fn(),
+      upsert: jest.fn()
+    },
+    invoice: {
+      findFirst: jest.fn()
+    }
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => prisma) };
+});
+
+const mockPrisma = new (require('@prisma/client').PrismaClient)();
+
+// Domestic service invoices never ship or clear customs
+const domesticWorkflow: WorkflowDefinition = {
+  name: 'domestic-services',
+  version: 1,
+  initialState: 'CREATED/ISSUED',
+  states: ['CREATED/ISSUED', 'DELIVERED', 'FUNDED', 'PAID'],
+  transitions: {
+    'CREATED/ISSUED': ['DELIVERED', 'FUNDED'],
+    DELIVERED: ['FUNDED', 'PAID'],
+    FUNDED: ['PAID'],
+    PAID: []
+  },
+  requiredEvidence: {
+    DELIVERED: ['fileHash']
+  }
+};
+
+const templateRow = (overrides: Record<string, any> = {}) => ({
+  id: 'wf-1',
+  name: domesticWorkflow.name,
+  version: 1,
+  description: null,
+  initialState: domesticWorkflow.initialState,
+  states: JSON.stringify(domesticWorkflow.states),
+  transitions: JSON.stringify(domesticWorkflow.transitions),
+  requiredEvidence: JSON.stringify(domesticWorkflow.requiredEvidence),
+  isActive: true,
+  createdBy: null,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+  ...overrides
+});
+
+describe('workflow helpers', () => {
+  it('should return the initial state when no milestone is recorded', () => {
+    expect(getNextStates(DEFAULT_WORKFLOW)).toEqual([MilestoneType.CREATED_ISSUED]);
+  });
+
+  it('should keep the original default transitions', () => {
+    expect(getNextStates(DEFAULT_WORKFLOW, MilestoneType.CREATED_ISSUED))
+      .toEqual([MilestoneType.SHIPPED, MilestoneType.FUNDED]);
+    expect(getNextStates(DEFAULT_WORKFLOW, MilestoneType.PAID)).toEqual([]);
+  });
+
+  it('should follow custom transitions', () => {
+    expect(getNextStates(domesticWorkflow, 'CREATED/ISSUED')).toEqual(['DELIVERED', 'FUNDED']);
+    expect(getNextStates(domesticWorkflow, 'SHIPPED')).toEqual([]);
+  });
+
+  it('should compute progress against the workflow states', () => {
+    expect(computeProgress(domesticWorkflow, [])).toBe(0);
+    expect(computeProgress(domesticWorkflow, ['CREATED/ISSUED'])).toBe(25);
+    expect(computeProgress(DEFAULT_WORKFLOW, [MilestoneType.CREATED_ISSUED, MilestoneType.SHIPPED])).toBe(33);
+  });
+
+  it('should report 100% once a terminal state is reached', () => {
+    expect(computeProgress(domesticWorkflow, ['CREATED/ISSUED', 'DELIVERED', 'PAID'])).toBe(100);
+  });
+
+  it('should list missing evidence for a step', () => {
+    expect(getMissingEvidence(domesticWorkflow, 'DELIVERED', {})).toEqual(['fileHash']);
+    expect(getMissingEvidence(domesticWorkflow, 'DELIVERED', { fileHash: 'abc' })).toEqual([]);
+    expect(getMissingEvidence(domesticWorkflow, 'FUNDED', {})).toEqual([]);
+  });
+
+  describe('validateWorkflowDefinition', () => {
+    it('should accept a consistent definition', () => {
+      expect(() => validateWorkflowDefinition(domesticWorkflow)).not.toThrow();
+    });
+
+    it('should reject an initial state outside the workflow', () => {
+      expect(() => validateWorkflowDefinition({ ...domesticWorkflow, initialState: 'SHIPPED' }))
+        .toThrow('Initial state SHIPPED is not a workflow state');
+    });
+
+    it('should reject transitions to unknown states', () => {
+      expect(() => validateWorkflowDefinition({
+        ...domesticWorkflow,
+        transitions: { ...domesticWorkflow.transitions, FUNDED: ['INSPECTED'] }
+      })).toThrow('Transition targets from FUNDED are not workflow states: INSPECTED');
+    });
+
+    it('should reject evidence for unknown states', () => {
+      expect(() => validateWorkflowDefinition({
+        ...domesticWorkflow,
+        requiredEvidence: { INSPECTED: ['fileHash'] }
+      })).toThrow('Evidence requirement for INSPECTED does not match a workflow state');
+    });
+  });
+});
+
+describe('WorkflowTemplatesService', () => {
+  let service: WorkflowTemplatesService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new WorkflowTemplatesService();
+  });
+
+  describe('createTemplate', () => {
+    it('should create version 1 for a new template name', async () => {
+      mockPrisma.workflowTemplate.findFirst.mockResolvedValue(null);
+      mockPrisma.workflowTemplate.create.mockImplementation(({ data }) => Promise.resolve(templateRow(data)));
+
+      const result = await service.createTemplate(domesticWorkflow);
+
+      expect(mockPrisma.workflowTemplate.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ name: 'domestic-services', version: 1 })
+      });
+      expect(result.transitions).toEqual(domesticWorkflow.transitions);
+    });
+
+    it('should publish the next version when the name already exists', async () => {
+      mockPrisma.workflowTemplate.findFirst.mockResolvedValue(templateRow({ version: 2 }));
+      mockPrisma.workflowTemplate.create.mockImplementation(({ data }) => Promise.resolve(templateRow(data)));
+
+      const result = await service.createTemplate(domesticWorkflow);
+
+      expect(result.version).toBe(3);
+    });
+
+    it('should take the next version when a concurrent create published the same one', async () => {
+      const taken = Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+      mockPrisma.workflowTemplate.findFirst
+        .mockResolvedValueOnce(templateRow({ version: 2 }))
+        .mockResolvedValueOnce(templateRow({ version: 3 }));
+      mockPrisma.workflowTemplate.create
+        .mockRejectedValueOnce(taken)
+        .mockImplementationOnce(({ data }) => Promise.resolve(templateRow(data)));
+
+      const result = await service.createTemplate(domesticWorkflow);
+
+      expect(result.version).toBe(4);
+      expect(mockPrisma.workflowTemplate.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report a conflict when every attempt collides', async () => {
+      mockPrisma.workflowTemplate.findFirst.mockResolvedValue(templateRow({ version: 2 }));
+      mockPrisma.workflowTemplate.create.mockRejectedValue(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+
+      await expect(service.createTemplate(domesticWorkflow)).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockPrisma.workflowTemplate.create).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not store an invalid definition', async () => {
+      await expect(service.createTemplate({ ...domesticWorkflow, states: [] }))
+        .rejects.toThrow('Workflow must define at least one state');
+      expect(mockPrisma.workflowTemplate.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assignTemplate', () => {
+    it('should require exactly one target', async () => {
+      await expect(service.assignTemplate({ templateId: 'wf-1' }))
+        .rejects.toThrow('Provide exactly one of invoiceId or supplierId');
+      await expect(service.assignTemplate({ templateId: 'wf-1', invoiceId: 'inv-1', supplierId: 'sup-1' }))
+        .rejects.toThrow('Provide exactly one of invoiceId or supplierId');
+    });
+
+    it('should reject inactive templates', async () => {
+      mockPrisma.workflowTemplate.findUnique.mockResolvedValue(templateRow({ isActive: false }));
+
+      await expect(service.assignTemplate({ templateId: 'wf-1', supplierId: 'sup-1' }))
+        .rejects.toThrow('is inactive');
+    });
+
+    it('should upsert a supplier assignment', async () => {
+      mockPrisma.workflowTemplate.findUnique.mockResolvedValue(templateRow());
+      mockPrisma.workflowAssignment.upsert.mockResolvedValue({
+        id: 'as-1', templateId: 'wf-1', invoiceId: null, supplierId: 'sup-1'
+      });
+
+      const result = await service.assignTemplate({ templateId: 'wf-1', supplierId: 'sup-1' });
+
+      expect(mockPrisma.workflowAssignment.upsert).toHaveBeenCalledWith({
+        where: { supplierId: 'sup-1' },
+        create: { supplierId: 'sup-1', templateId: 'wf-1' },
+        update: { templateId: 'wf-1' }
+      });
+      expect(result).toEqual({ id: 'as-1', templateId: 'wf-1', invoiceId: undefined, supplierId: 'sup-1' });
+    });
+  });
+
+  describe('resolveWorkflowForToken', () => {
+    it('should fall back to the default workflow for unknown tokens', async () => {
+      mockPrisma.invoice.findFirst.mockResolvedValue(null);
+
+      await expect(service.resolveWorkflowForToken('0.0.123', '1')).resolves.toBe(DEFAULT_WORKFLOW);
+    });
+
+    it('should prefer the invoice assignment over the supplier assignment', async () => {
+      mockPrisma.invoice.findFirst.mockResolvedValue({ id: 'inv-1', supplierId: 'sup-1' });
+      mockPrisma.workflowAssignment.findMany.mockResolvedValue([
+        { supplierId: 'sup-1', invoiceId: null, template: templateRow({ id: 'wf-supplier', name: 'supplier-default' }) },
+        { supplierId: null, invoiceId: 'inv-1', template: templateRow({ id: 'wf-invoice', name: 'export-inspected' }) }
+      ]);
+
+      const workflow = await service.resolveWorkflowForToken('0.0.123', '1');
+
+      expect(workflow.name).toBe('export-inspected');
+    });
+
+    it('should use the supplier assignment when the invoice has none', async () => {
+      mockPrisma.invoice.findFirst.mockResolvedValue({ id: 'inv-1', supplierId: 'sup-1' });
+      mockPrisma.workflowAssignment.findMany.mockResolvedValue([
+        { supplierId: 'sup-1', invoiceId: null, template: templateRow() }
+      ]);
+
+      const workflow = await service.resolveWorkflowForToken('0.0.123', '1');
+
+      expect(workflow.name).toBe('domestic-services');
+      expect(workflow.states).toEqual(domesticWorkflow.states);
+    });
+  });
+});
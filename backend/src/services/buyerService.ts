@@ -0,0 +1,235 @@
+import { PrismaClient } from '@prisma/client';
+import { createHash } from 'crypto';
+import { invoiceService, InvoiceStatus, InvoiceEventType } from './invoices';
+import { outboxService, OutboxAction } from './outboxService';
+import { getAccountPublicKey, verifyPublicKeySignature, createAcknowledgementMessage } from '../utils/signatureVerification';
+import { logger } from '../utils/logger';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  AuthenticationError,
+  AuthorizationError
+} from '../middleware/errorHandler';
+
+const prisma = new PrismaClient();
+
+// Acknowledgement nonces are timestamps, accepted for as long as login nonces
+const ACKNOWLEDGEMENT_NONCE_TTL = 5 * 60 * 1000;
+
+export interface CreateBuyerInput {
+  name: string;
+  accountId: string;
+  email?: string;
+  registrationNumber?: string;
+}
+
+export interface AcknowledgeInvoiceInput {
+  invoiceId: string;
+  accountId: string;
+  signature: string;
+  nonce: string;
+}
+
+/**
+ * Buyers (debtors) of invoices. A buyer signs each of its invoices with the
+ * Hedera account it is registered with, confirming the invoice is genuine;
+ * the acknowledgement is recorded on HCS and shown to investors.
+ */
+export class BuyerService {
+  /**
+   * Register a buyer with the Hedera account it signs with
+   */
+  async createBuyer(input: CreateBuyerInput) {
+    if (!/^\d+\.\d+\.\d+$/.test(input.accountId)) {
+      throw new ValidationError('Buyer account must be a Hedera account ID');
+    }
+
+    const existing = await prisma.buyer.findUnique({ where: { accountId: input.accountId } });
+    if (existing) {
+      throw new ConflictError('A buyer is already registered with this account');
+    }
+
+    const buyer = await prisma.buyer.create({ data: input });
+
+    logger.info({ buyerId: buyer.id, accountId: buyer.accountId }, 'Buyer registered');
+
+    return buyer;
+  }
+
+  async getBuyer(buyerId: string) {
+    const buyer = await prisma.buyer.findUnique({
+      where: { id: buyerId },
+      include: { _count: { select: { invoices: true, acknowledgements: true } } }
+    });
+    if (!buyer) {
+      throw new NotFoundError('Buyer');
+    }
+    return buyer;
+  }
+
+  /**
+   * Invoices owed by the buyer behind a wallet, soonest due first
+   */
+  async getInvoicesForAccount(accountId: string) {
+    const buyer = await this.getBuyerByAccount(accountId);
+
+    const invoices = await prisma.invoice.findMany({
+      where: { buyerId: buyer.id, status: { not: InvoiceStatus.CANCELLED } },
+      include: {
+        supplier: { select: { id: true, name: true, accountId: true } },
+        acknowledgement: { select: { messageHash: true, topicId: true, acknowledgedAt: true } }
+      },
+      orderBy: { dueDate: 'asc' }
+    });
+
+    return { buyer, invoices };
+  }
+
+  /**
+   * The message the buyer's wallet signs to acknowledge an invoice
+   */
+  async prepareAcknowledgement(invoiceId: string, accountId: string, now: Date = new Date()) {
+    const { invoice } = await this.loadUnacknowledged(invoiceId, accountId);
+    const nonce = now.getTime().toString();
+
+    return {
+      invoiceId: invoice.id,
+      nonce,
+      message: createAcknowledgementMessage(nonce, accountId, invoice),
+    };
+  }
+
+  /**
+   * Verify the buyer's signature over the invoice terms, flag the invoice
+   * as acknowledged and record the acknowledgement on HCS
+   */
+  async acknowledgeInvoice(input: AcknowledgeInvoiceInput, now: Date = new Date()) {
+    const nonceTime = parseInt(input.nonce);
+    if (!Number.isFinite(nonceTime) || nonceTime > now.getTime() || now.getTime() - nonceTime > ACKNOWLEDGEMENT_NONCE_TTL) {
+      throw new ValidationError('Acknowledgement nonce has expired');
+    }
+
+    const { buyer, invoice } = await this.loadUnacknowledged(input.invoiceId, input.accountId);
+
+    const topicId = invoice.topicId || process.env['HEDERA_INVOICE_TOPIC_ID'];
+    if (!topicId) {
+      throw new ConflictError('Invoice has no HCS topic to record the acknowledgement on');
+    }
+
+    // The buyer has no session key; the signature must match the account's key on Hedera
+    const publicKey = await getAccountPublicKey(input.accountId);
+    if (!publicKey) {
+      throw new AuthenticationError('No public key found for buyer account');
+    }
+
+    const message = createAcknowledgementMessage(input.nonce, input.accountId, invoice);
+    if (!verifyPublicKeySignature(publicKey, message, input.signature)) {
+      throw new AuthenticationError('Signature verification failed');
+    }
+    const messageHash = createHash('sha256').update(message).digest('hex');
+
+    const acknowledgement = await prisma.$transaction(async (tx) => {
+      const acknowledgement = await tx.invoiceAcknowledgement.create({
+        data: {
+          invoiceId: invoice.id,
+          buyerId: buyer.id,
+          accountId: input.accountId,
+          message,
+          messageHash,
+          signature: input.signature,
+          topicId,
+          acknowledgedAt: now,
+        }
+      });
+
+      await tx.invoice.update({
+        where: { id: invoice.id },
+        data: { buyerAcknowledgedAt: now }
+      });
+
+      // The signature is published with the hash so anyone can check it against the buyer's key
+      const record = {
+        eventType: 'BUYER_ACKNOWLEDGED',
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        buyerId: buyer.id,
+        buyerAccountId: input.accountId,
+        buyerPublicKey: publicKey,
+        amount: invoice.amount,
+        currency: invoice.currency,
+        dueDate: invoice.dueDate.toISOString(),
+        fileHash: invoice.fileHash,
+        messageHash,
+        signature: input.signature,
+        timestamp: now.toISOString(),
+      };
+
+      const event = await invoiceService.addInvoiceEvent(
+        invoice.id,
+        InvoiceEventType.BUYER_ACKNOWLEDGED,
+        `Invoice acknowledged by buyer ${buyer.name}`,
+        record,
+        undefined,
+        now,
+        undefined,
+        tx
+      );
+
+      await outboxService.enqueue(tx, {
+        action: OutboxAction.HCS_MESSAGE,
+        aggregateType: 'Invoice',
+        aggregateId: invoice.id,
+        invoiceId: invoice.id,
+        idempotencyKey: `hcs:buyer-acknowledged:${invoice.id}`,
+        payload: {
+          topicId,
+          message: record,
+          invoiceEventId: event.id,
+        },
+      });
+
+      return acknowledgement;
+    });
+
+    await outboxService.dispatchAggregate(invoice.id);
+
+    logger.info({ invoiceId: invoice.id, buyerId: buyer.id, topicId }, 'Invoice acknowledged by buyer');
+
+    return acknowledgement;
+  }
+
+  private async getBuyerByAccount(accountId: string) {
+    const buyer = await prisma.buyer.findUnique({ where: { accountId } });
+    if (!buyer) {
+      throw new NotFoundError('Buyer');
+    }
+    return buyer;
+  }
+
+  private async loadUnacknowledged(invoiceId: string, accountId: string) {
+    const buyer = await this.getBuyerByAccount(accountId);
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      include: { acknowledgement: true }
+    });
+    if (!invoice) {
+      throw new NotFoundError('Invoice');
+    }
+    if (invoice.buyerId !== buyer.id) {
+      throw new AuthorizationError('Only the buyer of this invoice can acknowledge it');
+    }
+    if (invoice.status === InvoiceStatus.CANCELLED) {
+      throw new ConflictError('Cancelled invoices cannot be acknowledged');
+    }
+    if (invoice.acknowledgement) {
+      throw new ConflictError('Invoice is already acknowledged');
+    }
+
+    return { buyer, invoice };
+  }
+}
+
+// Export singleton instance
+export const buyerService = new BuyerService();
@@ -1,31 +1,288 @@
 import { logger } from '../utils/logger';
+import { createRedisClient } from './pubSubService';
 
 export interface CacheEntry<T> {
   data: T;
   timestamp: number;
   ttl: number; // Time to live in milliseconds
+  staleTtl: number; // Milliseconds past ttl the entry may still be served while it is refreshed
+  tags: string[];
 }
 
 export interface CacheConfig {
   defaultTtl?: number; // Default TTL in milliseconds
+  staleTtl?: number; // Default stale-while-revalidate window in milliseconds
   maxSize?: number; // Maximum number of entries
   cleanupInterval?: number; // Cleanup interval in milliseconds
 }
 
-export class InMemoryCache {
+export interface CacheSetOptions {
+  ttl?: number;
+  staleTtl?: number;
+  tags?: string[];
+}
+
+/**
+ * Storage behind a Cache. Stores keep entries until they are past their
+ * stale window; freshness is decided by the Cache.
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  /** Delete every entry set with the tag, returning how many were removed */
+  deleteByTag(tag: string): Promise<number>;
+  keys(): Promise<string[]>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+  destroy(): void;
+}
+
+export enum CacheDriver {
+  MEMORY = 'memory',
+  REDIS = 'redis'
+}
+
+const isExpired = (entry: CacheEntry<any>, now: number) => now - entry.timestamp > entry.ttl + entry.staleTtl;
+
+/**
+ * Process-local store evicting the least recently used entry when full
+ */
+export class LruCacheStore implements CacheStore {
   private cache = new Map<string, CacheEntry<any>>();
-  private defaultTtl: number;
-  private maxSize: number;
-  private cleanupInterval: number;
+  private tagIndex = new Map<string, Set<string>>();
   private cleanupTimer?: NodeJS.Timeout;
+  evictions = 0;
 
-  constructor(config: CacheConfig = {}) {
-    this.defaultTtl = config.defaultTtl || 5 * 60 * 1000; // 5 minutes default
-    this.maxSize = config.maxSize || 1000; // 1000 entries max
-    this.cleanupInterval = config.cleanupInterval || 60 * 1000; // 1 minute cleanup
-
+  constructor(readonly maxSize: number = 1000, cleanupInterval: number = 60 * 1000) {
     // Start cleanup timer
-    this.startCleanup();
+    this.cleanupTimer = setInterval(() => {
+      this.cleanup();
+    }, cleanupInterval);
+    this.cleanupTimer.unref();
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (isExpired(entry, Date.now())) {
+      this.remove(key);
+      return undefined;
+    }
+
+    // Re-insert so iteration order runs from least to most recently used
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.remove(key);
+
+    while (this.cache.size >= this.maxSize) {
+      const leastRecent = this.cache.keys().next().value as string;
+      this.remove(leastRecent);
+      this.evictions++;
+      logger.debug(`Cache EVICT: ${leastRecent}`);
+    }
+
+    this.cache.set(key, entry);
+    for (const tag of entry.tags) {
+      if (!this.tagIndex.has(tag)) {
+        this.tagIndex.set(tag, new Set());
+      }
+      this.tagIndex.get(tag)!.add(key);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.remove(key);
+  }
+
+  async deleteByTag(tag: string): Promise<number> {
+    const keys = [...(this.tagIndex.get(tag) || [])];
+    keys.forEach(key => this.remove(key));
+    this.tagIndex.delete(tag);
+    return keys.length;
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.cache.keys());
+  }
+
+  async clear(): Promise<void> {
+    this.cache.clear();
+    this.tagIndex.clear();
+  }
+
+  async size(): Promise<number> {
+    return this.cache.size;
+  }
+
+  destroy(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      delete this.cleanupTimer;
+    }
+    this.cache.clear();
+    this.tagIndex.clear();
+  }
+
+  private remove(key: string): boolean {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return false;
+    }
+
+    this.cache.delete(key);
+    for (const tag of entry.tags) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys && keys.size === 0) {
+        this.tagIndex.delete(tag);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Clean up entries past their stale window
+   */
+  private cleanup(): void {
+    const now = Date.now();
+    let removedCount = 0;
+
+    for (const [key, entry] of this.cache.entries()) {
+      if (isExpired(entry, now)) {
+        this.remove(key);
+        removedCount++;
+      }
+    }
+
+    if (removedCount > 0) {
+      logger.debug(`Cache CLEANUP: ${removedCount} expired entries removed`);
+    }
+  }
+}
+
+/**
+ * The subset of an ioredis client the Redis cache store uses
+ */
+export interface RedisCacheClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'PX', ttl: number): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+  sadd(key: string, ...members: string[]): Promise<number>;
+  smembers(key: string): Promise<string[]>;
+  pexpire(key: string, ttl: number): Promise<number>;
+  scan(cursor: string, match: 'MATCH', pattern: string, count: 'COUNT', size: number): Promise<[string, string[]]>;
+}
+
+/**
+ * Store shared by every replica. Entries expire in Redis at the end of
+ * their stale window; each tag is a set of the keys set with it.
+ */
+export class RedisCacheStore implements CacheStore {
+  constructor(private client: RedisCacheClient, private prefix: string) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const raw = await this.client.get(this.entryKey(key));
+    return raw ? JSON.parse(raw) as CacheEntry<T> : undefined;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const lifetime = entry.ttl + entry.staleTtl;
+    await this.client.set(this.entryKey(key), JSON.stringify(entry), 'PX', lifetime);
+
+    for (const tag of entry.tags) {
+      await this.client.sadd(this.tagKey(tag), key);
+      await this.client.pexpire(this.tagKey(tag), lifetime);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return (await this.client.del(this.entryKey(key))) > 0;
+  }
+
+  async deleteByTag(tag: string): Promise<number> {
+    const keys = await this.client.smembers(this.tagKey(tag));
+    await this.client.del(this.tagKey(tag), ...keys.map(key => this.entryKey(key)));
+    return keys.length;
+  }
+
+  async keys(): Promise<string[]> {
+    const entryPrefix = this.entryKey('');
+    return (await this.scan(`${entryPrefix}*`)).map(key => key.substring(entryPrefix.length));
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.scan(`${this.prefix}:*`);
+    if (keys.length > 0) {
+      await this.client.del(...keys);
+    }
+  }
+
+  async size(): Promise<number> {
+    return (await this.keys()).length;
+  }
+
+  destroy(): void {
+    // The connection is shared by every Redis-backed cache
+  }
+
+  private entryKey(key: string): string {
+    return `${this.prefix}:entry:${key}`;
+  }
+
+  private tagKey(tag: string): string {
+    return `${this.prefix}:tag:${tag}`;
+  }
+
+  private async scan(pattern: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', 500);
+      keys.push(...batch);
+      cursor = next;
+    } while (cursor !== '0');
+    return keys;
+  }
+}
+
+export interface CacheStats {
+  name: string;
+  size: number;
+  maxSize?: number;
+  defaultTtl: number;
+  staleTtl: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  coalesced: number; // Lookups that waited on a load already in flight
+  loads: number;
+  loadErrors: number;
+  evictions?: number;
+  hitRatio: number;
+}
+
+/**
+ * Cache over a CacheStore. Concurrent misses for a key share one load, and
+ * entries past their TTL but within their stale window are served while a
+ * single background load refreshes them.
+ */
+export class Cache {
+  private defaultTtl: number;
+  private staleTtl: number;
+  private inFlight = new Map<string, Promise<any>>();
+  private counters = { hits: 0, staleHits: 0, misses: 0, coalesced: 0, loads: 0, loadErrors: 0 };
+
+  constructor(readonly name: string, private store: CacheStore, config: CacheConfig = {}) {
+    this.defaultTtl = config.defaultTtl || 5 * 60 * 1000; // 5 minutes default
+    this.staleTtl = config.staleTtl || 0;
   }
 
   /**
@@ -33,46 +290,29 @@ export class InMemoryCache {
    * @param key - Cache key
    * @param value - Value to cache
    * @param ttl - Time to live in milliseconds (optional)
+   * @param tags - Tags to invalidate the entry by (optional)
    */
-  set<T>(key: string, value: T, ttl?: number): void {
-    const actualTtl = ttl || this.defaultTtl;
-    const entry: CacheEntry<T> = {
-      data: value,
-      timestamp: Date.now(),
-      ttl: actualTtl,
-    };
-
-    // Check if we need to evict entries
-    if (this.cache.size >= this.maxSize) {
-      this.evictOldest();
-    }
-
-    this.cache.set(key, entry);
-    logger.debug(`Cache SET: ${key} (TTL: ${actualTtl}ms)`);
+  async set<T>(key: string, value: T, ttl?: number, tags: string[] = []): Promise<void> {
+    await this.write(key, value, { ttl, tags });
   }
 
   /**
-   * Get a value from the cache
+   * Get a fresh value from the cache
    * @param key - Cache key
    * @returns The cached value or undefined if not found/expired
    */
-  get<T>(key: string): T | undefined {
-    const entry = this.cache.get(key);
-    
-    if (!entry) {
-      logger.debug(`Cache MISS: ${key}`);
-      return undefined;
-    }
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = await this.store.get<T>(key);
 
-    // Check if entry has expired
-    if (Date.now() - entry.timestamp > entry.ttl) {
-      this.cache.delete(key);
-      logger.debug(`Cache EXPIRED: ${key}`);
+    if (!entry || Date.now() - entry.timestamp > entry.ttl) {
+      this.counters.misses++;
+      logger.debug(`Cache MISS: ${key}`);
       return undefined;
     }
 
+    this.counters.hits++;
     logger.debug(`Cache HIT: ${key}`);
-    return entry.data as T;
+    return entry.data;
   }
 
   /**
@@ -80,55 +320,63 @@ export class InMemoryCache {
    * @param key - Cache key
    * @returns True if key exists and is valid
    */
-  has(key: string): boolean {
-    const entry = this.cache.get(key);
-    
-    if (!entry) {
-      return false;
-    }
-
-    // Check if entry has expired
-    if (Date.now() - entry.timestamp > entry.ttl) {
-      this.cache.delete(key);
-      return false;
-    }
-
-    return true;
+  async has(key: string): Promise<boolean> {
+    const entry = await this.store.get(key);
+    return !!entry && Date.now() - entry.timestamp <= entry.ttl;
   }
 
   /**
    * Delete a key from the cache
    * @param key - Cache key
    */
-  delete(key: string): boolean {
-    const result = this.cache.delete(key);
+  async delete(key: string): Promise<boolean> {
+    const result = await this.store.delete(key);
     if (result) {
       logger.debug(`Cache DELETE: ${key}`);
     }
     return result;
   }
 
+  /**
+   * Delete every entry set with a tag
+   * @param tag - Tag the entries were set with
+   * @returns Number of entries removed
+   */
+  async invalidateTag(tag: string): Promise<number> {
+    const removed = await this.store.deleteByTag(tag);
+    if (removed > 0) {
+      logger.debug(`Cache INVALIDATE: ${tag} (${removed} entries)`);
+    }
+    return removed;
+  }
+
+  async keys(): Promise<string[]> {
+    return this.store.keys();
+  }
+
   /**
    * Clear all entries from the cache
    */
-  clear(): void {
-    const size = this.cache.size;
-    this.cache.clear();
-    logger.debug(`Cache CLEAR: ${size} entries removed`);
+  async clear(): Promise<void> {
+    await this.store.clear();
+    logger.debug(`Cache CLEAR: ${this.name}`);
   }
 
   /**
    * Get cache statistics
    */
-  getStats(): {
-    size: number;
-    maxSize: number;
-    defaultTtl: number;
-  } {
+  async getStats(): Promise<CacheStats> {
+    const { hits, staleHits, misses } = this.counters;
+    const lookups = hits + staleHits + misses;
+
     return {
-      size: this.cache.size,
-      maxSize: this.maxSize,
+      name: this.name,
+      size: await this.store.size(),
+      ...(this.store instanceof LruCacheStore && { maxSize: this.store.maxSize, evictions: this.store.evictions }),
       defaultTtl: this.defaultTtl,
+      staleTtl: this.staleTtl,
+      ...this.counters,
+      hitRatio: lookups > 0 ? (hits + staleHits) / lookups : 0,
     };
   }
 
@@ -136,101 +384,136 @@ export class InMemoryCache {
    * Get or set a value using a factory function
    * @param key - Cache key
    * @param factory - Function to generate the value if not cached
-   * @param ttl - Time to live in milliseconds (optional)
+   * @param options - TTL in milliseconds, or TTL, stale window and tags (optional)
    * @returns The cached or newly generated value
    */
   async getOrSet<T>(
     key: string,
     factory: () => Promise<T>,
-    ttl?: number
+    options: number | CacheSetOptions = {}
   ): Promise<T> {
-    const cached = this.get<T>(key);
-    
-    if (cached !== undefined) {
-      return cached;
-    }
-
-    logger.debug(`Cache FACTORY: ${key}`);
-    const value = await factory();
-    this.set(key, value, ttl);
-    return value;
-  }
+    const setOptions = typeof options === 'number' ? { ttl: options } : options;
+    const entry = await this.store.get<T>(key);
+    const age = entry ? Date.now() - entry.timestamp : 0;
 
-  /**
-   * Evict the oldest entry from the cache
-   */
-  private evictOldest(): void {
-    let oldestKey: string | undefined;
-    let oldestTimestamp = Date.now();
-
-    for (const [key, entry] of this.cache.entries()) {
-      if (entry.timestamp < oldestTimestamp) {
-        oldestTimestamp = entry.timestamp;
-        oldestKey = key;
-      }
+    if (entry && age <= entry.ttl) {
+      this.counters.hits++;
+      return entry.data;
     }
 
-    if (oldestKey) {
-      this.cache.delete(oldestKey);
-      logger.debug(`Cache EVICT: ${oldestKey}`);
+    if (entry && age <= entry.ttl + entry.staleTtl) {
+      this.counters.staleHits++;
+      logger.debug(`Cache STALE: ${key}`);
+      this.load(key, factory, setOptions).catch(() => undefined);
+      return entry.data;
     }
+
+    this.counters.misses++;
+    return this.load(key, factory, setOptions);
   }
 
   /**
-   * Start the cleanup timer to remove expired entries
+   * Stop the store's timers and clear it
    */
-  private startCleanup(): void {
-    this.cleanupTimer = setInterval(() => {
-      this.cleanup();
-    }, this.cleanupInterval);
+  destroy(): void {
+    this.store.destroy();
+    this.inFlight.clear();
+    logger.debug('Cache destroyed');
   }
 
   /**
-   * Clean up expired entries
+   * Run the factory for a key, or join the run already in flight
    */
-  private cleanup(): void {
-    const now = Date.now();
-    let removedCount = 0;
+  private load<T>(key: string, factory: () => Promise<T>, options: CacheSetOptions): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.counters.coalesced++;
+      return pending;
+    }
 
-    for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > entry.ttl) {
-        this.cache.delete(key);
-        removedCount++;
+    logger.debug(`Cache FACTORY: ${key}`);
+    this.counters.loads++;
+    const promise = (async () => {
+      try {
+        const value = await factory();
+        await this.write(key, value, options);
+        return value;
+      } catch (error) {
+        this.counters.loadErrors++;
+        throw error;
+      } finally {
+        this.inFlight.delete(key);
       }
-    }
+    })();
 
-    if (removedCount > 0) {
-      logger.debug(`Cache CLEANUP: ${removedCount} expired entries removed`);
-    }
+    this.inFlight.set(key, promise);
+    return promise;
   }
 
-  /**
-   * Stop the cleanup timer and clear the cache
-   */
-  destroy(): void {
-    if (this.cleanupTimer) {
-      clearInterval(this.cleanupTimer);
-      delete this.cleanupTimer;
+  private async write<T>(key: string, value: T, options: CacheSetOptions): Promise<void> {
+    const actualTtl = options.ttl || this.defaultTtl;
+    await this.store.set(key, {
+      data: value,
+      timestamp: Date.now(),
+      ttl: actualTtl,
+      staleTtl: options.staleTtl ?? this.staleTtl,
+      tags: options.tags || [],
+    });
+    logger.debug(`Cache SET: ${key} (TTL: ${actualTtl}ms)`);
+  }
+}
+
+export interface CacheDriverConfig {
+  driver: CacheDriver;
+  redisUrl?: string;
+}
+
+export function loadCacheDriverConfig(): CacheDriverConfig {
+  return {
+    driver: process.env.CACHE_DRIVER === CacheDriver.REDIS ? CacheDriver.REDIS : CacheDriver.MEMORY,
+    redisUrl: process.env.REDIS_URL,
+  };
+}
+
+let redisCacheClient: RedisCacheClient | undefined;
+
+/**
+ * Store for a named cache. Redis-backed caches share one connection.
+ */
+export function createCacheStore(
+  name: string,
+  config: CacheConfig = {},
+  driverConfig: CacheDriverConfig = loadCacheDriverConfig()
+): CacheStore {
+  if (driverConfig.driver === CacheDriver.REDIS) {
+    if (!driverConfig.redisUrl) {
+      throw new Error('REDIS_URL must be set when CACHE_DRIVER is redis');
     }
-    this.clear();
-    logger.debug('Cache destroyed');
+    redisCacheClient = redisCacheClient || createRedisClient<RedisCacheClient>(driverConfig.redisUrl);
+    return new RedisCacheStore(redisCacheClient, `cache:${name}`);
   }
+
+  return new LruCacheStore(config.maxSize, config.cleanupInterval);
 }
 
+const createCache = (name: string, config: CacheConfig) => new Cache(name, createCacheStore(name, config), config);
+
 // Cache instances for different data types
-export const mirrorNodeCache = new InMemoryCache({
+export const mirrorNodeCache = createCache('mirrorNode', {
   defaultTtl: 2 * 60 * 1000, // 2 minutes for Mirror Node data
+  staleTtl: 60 * 1000,
   maxSize: 500,
   cleanupInterval: 30 * 1000, // 30 seconds cleanup
 });
 
-export const nftCache = new InMemoryCache({
+export const nftCache = createCache('nft', {
   defaultTtl: 5 * 60 * 1000, // 5 minutes for NFT data (less frequent changes)
+  staleTtl: 5 * 60 * 1000,
   maxSize: 1000,
   cleanupInterval: 60 * 1000, // 1 minute cleanup
 });
 
-export const hcsCache = new InMemoryCache({
+export const hcsCache = createCache('hcs', {
   defaultTtl: 1 * 60 * 1000, // 1 minute for HCS messages (more frequent updates)
   maxSize: 200,
   cleanupInterval: 30 * 1000, // 30 seconds cleanup
@@ -247,62 +530,81 @@ export const CacheKeys = {
   DASHBOARD_METRICS: 'dashboard_metrics',
 
   // Legacy cache keys for backward compatibility
-  nftsByToken: (tokenId: string, limit: number, order: string) => 
+  nftsByToken: (tokenId: string, limit: number, order: string) =>
     `nfts:${tokenId}:${limit}:${order}`,
 
-  nftBySerial: (tokenId: string, serialNumber: number) => 
+  nftBySerial: (tokenId: string, serialNumber: number) =>
     `nft:${tokenId}:${serialNumber}`,
 
-  hcsMessages: (topicId: string, limit: number, order: string) => 
+  hcsMessages: (topicId: string, limit: number, order: string) =>
     `hcs:${topicId}:${limit}:${order}`,
 
-  invoiceMessages: (topicId: string, tokenId?: string, limit?: number) => 
+  invoiceMessages: (topicId: string, tokenId?: string, limit?: number) =>
     `invoice_msgs:${topicId}:${tokenId || 'all'}:${limit || 100}`,
 
-  transaction: (transactionId: string) => 
+  transaction: (transactionId: string) =>
     `tx:${transactionId}`,
 
-  fileInfo: (fileId: string) => 
+  fileInfo: (fileId: string) =>
     `file:${fileId}`,
 };
 
+// Tags grouping entries that go stale together
+export const CacheTags = {
+  // Anything read from an HCS topic
+  topic: (topicId: string) => `topic:${topicId}`,
+
+  // Anything about one invoice, identified by its NFT
+  invoice: (tokenId: string, serialNumber: string | number) => `invoice:${tokenId}:${serialNumber}`,
+};
+
+const caches = [mirrorNodeCache, nftCache, hcsCache];
+
 // Cache management service
 export class CacheService {
-  static getCacheStats() {
-    return {
-      mirrorNode: mirrorNodeCache.getStats(),
-      nft: nftCache.getStats(),
-      hcs: hcsCache.getStats(),
-    };
+  static async getCacheStats() {
+    const [mirrorNode, nft, hcs] = await Promise.all(caches.map(cache => cache.getStats()));
+    return { mirrorNode, nft, hcs };
+  }
+
+  static async clearAllCaches(): Promise<void> {
+    await Promise.all(caches.map(cache => cache.clear()));
+    logger.info('All caches cleared');
   }
 
-  static clearAllCaches(): void {
-    mirrorNodeCache.destroy();
-    nftCache.destroy();
-    hcsCache.destroy();
-    logger.info('All caches cleared and destroyed');
+  static async invalidateTags(tags: string[]): Promise<number> {
+    let removed = 0;
+    for (const cache of caches) {
+      for (const tag of tags) {
+        removed += await cache.invalidateTag(tag);
+      }
+    }
+    return removed;
   }
 
-  static clearCacheByPattern(pattern: string): number {
+  static async clearCacheByPattern(pattern: string): Promise<number> {
     let deletedCount = 0;
-    const caches = [mirrorNodeCache, nftCache, hcsCache];
-    
+
     for (const cache of caches) {
-      const keys = Array.from((cache as any).cache.keys()) as string[];
+      const keys = await cache.keys();
       const matchingKeys = keys.filter((key: string) => key.includes(pattern));
-      
+
       for (const key of matchingKeys) {
-        cache.delete(key);
+        await cache.delete(key);
         deletedCount++;
       }
     }
-    
+
     logger.info(`Cleared ${deletedCount} cache entries matching pattern: ${pattern}`);
     return deletedCount;
   }
 
-  static logCacheStats(): void {
-    const stats = this.getCacheStats();
+  static async logCacheStats(): Promise<void> {
+    const stats = await this.getCacheStats();
     logger.info('Cache Statistics:', JSON.stringify(stats));
   }
-}
\ No newline at end of file
+
+  static destroyAll(): void {
+    caches.forEach(cache => cache.destroy());
+  }
+}
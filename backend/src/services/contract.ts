@@ -5,7 +5,7 @@ import fs from 'fs';
 import path from 'path';
 
 // EscrowPool contract ABI (based on actual deployed contract)
-const ESCROW_POOL_ABI = [
+export const ESCROW_POOL_ABI = [
   'function deposit(string memory invoiceId, address supplier, uint256 nftSerialNumber) external payable',
   'function release(string memory invoiceId) external',
   'function invoiceToEscrowId(string memory invoiceId) external view returns (uint256)',
@@ -15,9 +15,32 @@ const ESCROW_POOL_ABI = [
   'function platformFeeRate() external view returns (uint256)',
   'function feeRecipient() external view returns (address)',
   'function MAX_FEE_RATE() external view returns (uint256)',
-  'event EscrowCreated(uint256 indexed escrowId, string indexed invoiceId, address indexed investor, address supplier, uint256 amount, uint256 nftSerialNumber)',
-  'event EscrowFunded(uint256 indexed escrowId, string indexed invoiceId, address indexed investor, uint256 amount)',
-  'event EscrowReleased(uint256 indexed escrowId, string indexed invoiceId, address indexed supplier, uint256 amount, uint256 platformFee)',
+  'event EscrowCreated(bytes32 indexed escrowId, string indexed invoiceId, address indexed investor, address supplier, uint256 amount)',
+  'event EscrowFunded(bytes32 indexed escrowId, string indexed invoiceId, uint256 amount)',
+  'event EscrowReleased(bytes32 indexed escrowId, string indexed invoiceId, address indexed supplier, uint256 amount, uint256 fee)',
+  'event EscrowRefunded(bytes32 indexed escrowId, string indexed invoiceId, address indexed investor, uint256 amount)',
+  'event FeeRateUpdated(uint256 oldRate, uint256 newRate)',
+  'event FeeRecipientUpdated(address oldRecipient, address newRecipient)',
+  // Syndicated escrow (several investors fill one invoice with tranches)
+  'function openSyndicate(string memory invoiceId, string memory nftTokenId, uint256 nftSerialNumber, address supplier, uint256 targetAmount, uint256 fillDeadline, uint256 dueDate, string memory fileHash) external',
+  'function commitTranche(string memory invoiceId) external payable',
+  'function releaseSyndicate(string memory invoiceId) external',
+  'function refundSyndicate(string memory invoiceId) external',
+  'function invoiceToSyndicateId(string memory invoiceId) external view returns (bytes32)',
+  'event SyndicateOpened(bytes32 indexed syndicateId, string indexed invoiceId, address indexed supplier, uint256 targetAmount, uint256 fillDeadline)',
+  'event TrancheCommitted(bytes32 indexed syndicateId, string indexed invoiceId, address indexed investor, uint256 amount, uint256 raisedAmount)',
+  'event SyndicateReleased(bytes32 indexed syndicateId, string indexed invoiceId, address indexed supplier, uint256 amount, uint256 fee)',
+  // Escrow disputes (investor or supplier raises, arbiter or owner resolves with a split)
+  'function raiseDispute(string memory invoiceId, string memory reason) external',
+  'function resolveDispute(string memory invoiceId, uint256 investorShareBps) external',
+  'event DisputeRaised(bytes32 indexed escrowId, string indexed invoiceId, address indexed raisedBy, string reason)',
+  'event DisputeResolved(bytes32 indexed escrowId, string indexed invoiceId, address indexed resolver, uint256 investorAmount, uint256 supplierAmount, uint256 fee)',
+  // Secondary transfers (payouts follow the current holder of the invoice NFT)
+  'function updateHolder(string memory invoiceId, address newHolder) external',
+  'function settle(string memory invoiceId) external payable',
+  'function getHolder(string memory invoiceId) external view returns (address)',
+  'event HolderUpdated(bytes32 indexed escrowId, string indexed invoiceId, address indexed previousHolder, address newHolder)',
+  'event SettlementPaid(bytes32 indexed escrowId, string indexed invoiceId, address indexed holder, uint256 amount)',
 ];
 
 export interface EscrowData {
@@ -47,6 +70,33 @@ export interface EscrowTransaction {
   status: 'pending' | 'confirmed' | 'failed';
 }
 
+export interface OpenSyndicateParams {
+  invoiceId: string;
+  supplierAddress: string;
+  targetAmount: string; // in HBAR
+  fillDeadline: Date;
+  dueDate: Date;
+  nftTokenId?: string;
+  nftSerialNumber: number;
+  fileHash?: string;
+}
+
+export interface SyndicateReleaseTransaction extends EscrowTransaction {
+  supplierAmount: string; // in HBAR
+  fee: string; // in HBAR
+}
+
+export interface DisputeResolutionTransaction extends EscrowTransaction {
+  investorAmount: string; // in HBAR
+  supplierAmount: string; // in HBAR, after the platform fee
+  fee: string; // in HBAR
+}
+
+export interface SettlementTransaction extends EscrowTransaction {
+  holder: string; // EVM address paid
+  amount: string; // in HBAR
+}
+
 export interface PreparedTransaction {
   transactionBytes: string;
   transactionId: string;
@@ -254,6 +304,381 @@ export class ContractService {
     }
   }
 
+  /**
+   * Open a syndicated escrow for an invoice
+   */
+  async openSyndicate(params: OpenSyndicateParams): Promise<EscrowTransaction> {
+    try {
+      if (!this.signer) {
+        throw new Error('No signer available. Private key required for transactions.');
+      }
+
+      logger.info(params, 'Opening syndicated escrow');
+
+      const tx = await this.contract.openSyndicate(
+        params.invoiceId,
+        params.nftTokenId || '',
+        params.nftSerialNumber,
+        params.supplierAddress,
+        ethers.parseEther(params.targetAmount),
+        Math.floor(params.fillDeadline.getTime() / 1000),
+        Math.floor(params.dueDate.getTime() / 1000),
+        params.fileHash || '',
+        {
+          gasLimit: 500000,
+        }
+      );
+
+      const receipt = await tx.wait();
+
+      if (receipt.status === 0) {
+        throw new Error('Transaction failed');
+      }
+
+      const opened = this.findEvent(receipt, 'SyndicateOpened');
+      const escrowId = opened ? opened.args.syndicateId.toString() : '0';
+
+      logger.info({
+        escrowId,
+        transactionHash: tx.hash,
+        blockNumber: receipt.blockNumber,
+      }, 'Syndicated escrow opened');
+
+      return {
+        escrowId,
+        transactionHash: tx.hash,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed.toString(),
+        status: 'confirmed',
+      };
+    } catch (error) {
+      logger.error({
+        error: error instanceof Error ? error.message : String(error),
+        params,
+      }, 'Failed to open syndicated escrow');
+      throw error;
+    }
+  }
+
+  /**
+   * Commit a tranche to an open syndicated escrow
+   */
+  async commitTranche(invoiceId: string, amount: string): Promise<EscrowTransaction> {
+    try {
+      if (!this.signer) {
+        throw new Error('No signer available. Private key required for transactions.');
+      }
+
+      logger.info({ invoiceId, amount }, 'Committing syndicate tranche');
+
+      const tx = await this.contract.commitTranche(invoiceId, {
+        value: ethers.parseEther(amount),
+        gasLimit: 300000,
+      });
+
+      const receipt = await tx.wait();
+
+      if (receipt.status === 0) {
+        throw new Error('Transaction failed');
+      }
+
+      const committed = this.findEvent(receipt, 'TrancheCommitted');
+      const escrowId = committed ? committed.args.syndicateId.toString() : '0';
+
+      return {
+        escrowId,
+        transactionHash: tx.hash,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed.toString(),
+        status: 'confirmed',
+      };
+    } catch (error) {
+      logger.error({
+        error: error instanceof Error ? error.message : String(error),
+        invoiceId,
+        amount,
+      }, 'Failed to commit syndicate tranche');
+      throw error;
+    }
+  }
+
+  /**
+   * Release a filled syndicated escrow to the supplier
+   */
+  async releaseSyndicate(invoiceId: string): Promise<SyndicateReleaseTransaction> {
+    try {
+      if (!this.signer) {
+        throw new Error('No signer available. Private key required for transactions.');
+      }
+
+      logger.info({ invoiceId }, 'Releasing syndicated escrow');
+
+      const tx = await this.contract.releaseSyndicate(invoiceId, {
+        gasLimit: 300000,
+      });
+
+      const receipt = await tx.wait();
+
+      if (receipt.status === 0) {
+        throw new Error('Transaction failed');
+      }
+
+      const released = this.findEvent(receipt, 'SyndicateReleased');
+
+      return {
+        escrowId: released ? released.args.syndicateId.toString() : '0',
+        transactionHash: tx.hash,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed.toString(),
+        status: 'confirmed',
+        supplierAmount: released ? ethers.formatEther(released.args.amount) : '0',
+        fee: released ? ethers.formatEther(released.args.fee) : '0',
+      };
+    } catch (error) {
+      logger.error({
+        error: error instanceof Error ? error.message : String(error),
+        invoiceId,
+      }, 'Failed to release syndicated escrow');
+      throw error;
+    }
+  }
+
+  /**
+   * Refund every tranche of a syndicated escrow to its investor
+   */
+  async refundSyndicate(invoiceId: string): Promise<EscrowTransaction> {
+    try {
+      if (!this.signer) {
+        throw new Error('No signer available. Private key required for transactions.');
+      }
+
+      logger.info({ invoiceId }, 'Refunding syndicated escrow');
+
+      const syndicateId = await this.contract.invoiceToSyndicateId(invoiceId);
+
+      // Gas grows with the number of tranches being paid back
+      const tx = await this.contract.refundSyndicate(invoiceId, {
+        gasLimit: 1000000,
+      });
+
+      const receipt = await tx.wait();
+
+      if (receipt.status === 0) {
+        throw new Error('Transaction failed');
+      }
+
+      return {
+        escrowId: syndicateId.toString(),
+        transactionHash: tx.hash,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed.toString(),
+        status: 'confirmed',
+      };
+    } catch (error) {
+      logger.error({
+        error: error instanceof Error ? error.message : String(error),
+        invoiceId,
+      }, 'Failed to refund syndicated escrow');
+      throw error;
+    }
+  }
+
+  /**
+   * Freeze a funded escrow pending arbitration
+   */
+  async raiseDispute(invoiceId: string, reason: string): Promise<EscrowTransaction> {
+    try {
+      if (!this.signer) {
+        throw new Error('No signer available. Private key required for transactions.');
+      }
+
+      logger.info({ invoiceId }, 'Raising escrow dispute');
+
+      const tx = await this.contract.raiseDispute(invoiceId, reason, {
+        gasLimit: 300000,
+      });
+
+      const receipt = await tx.wait();
+
+      if (receipt.status === 0) {
+        throw new Error('Transaction failed');
+      }
+
+      const raised = this.findEvent(receipt, 'DisputeRaised');
+
+      return {
+        escrowId: raised ? raised.args.escrowId.toString() : '0',
+        transactionHash: tx.hash,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed.toString(),
+        status: 'confirmed',
+      };
+    } catch (error) {
+      logger.error({
+        error: error instanceof Error ? error.message : String(error),
+        invoiceId,
+      }, 'Failed to raise escrow dispute');
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a disputed escrow, splitting it between investor and supplier
+   * @param investorShareBps Investor's share in basis points (10000 = full refund)
+   */
+  async resolveDispute(invoiceId: string, investorShareBps: number): Promise<DisputeResolutionTransaction> {
+    try {
+      if (!this.signer) {
+        throw new Error('No signer available. Private key required for transactions.');
+      }
+
+      logger.info({ invoiceId, investorShareBps }, 'Resolving escrow dispute');
+
+      const tx = await this.contract.resolveDispute(invoiceId, investorShareBps, {
+        gasLimit: 400000,
+      });
+
+      const receipt = await tx.wait();
+
+      if (receipt.status === 0) {
+        throw new Error('Transaction failed');
+      }
+
+      const resolved = this.findEvent(receipt, 'DisputeResolved');
+
+      return {
+        escrowId: resolved ? resolved.args.escrowId.toString() : '0',
+        transactionHash: tx.hash,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed.toString(),
+        status: 'confirmed',
+        investorAmount: resolved ? ethers.formatEther(resolved.args.investorAmount) : '0',
+        supplierAmount: resolved ? ethers.formatEther(resolved.args.supplierAmount) : '0',
+        fee: resolved ? ethers.formatEther(resolved.args.fee) : '0',
+      };
+    } catch (error) {
+      logger.error({
+        error: error instanceof Error ? error.message : String(error),
+        invoiceId,
+        investorShareBps,
+      }, 'Failed to resolve escrow dispute');
+      throw error;
+    }
+  }
+
+  /**
+   * Point an escrow's payouts at the account now holding the invoice NFT
+   * @param holderAddress EVM address of the new holder
+   */
+  async updateHolder(invoiceId: string, holderAddress: string): Promise<EscrowTransaction> {
+    try {
+      if (!this.signer) {
+        throw new Error('No signer available. Private key required for transactions.');
+      }
+
+      logger.info({ invoiceId, holderAddress }, 'Updating escrow holder');
+
+      const tx = await this.contract.updateHolder(invoiceId, holderAddress, {
+        gasLimit: 150000,
+      });
+
+      const receipt = await tx.wait();
+
+      if (receipt.status === 0) {
+        throw new Error('Transaction failed');
+      }
+
+      const updated = this.findEvent(receipt, 'HolderUpdated');
+
+      return {
+        escrowId: updated ? updated.args.escrowId.toString() : '0',
+        transactionHash: tx.hash,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed.toString(),
+        status: 'confirmed',
+      };
+    } catch (error) {
+      logger.error({
+        error: error instanceof Error ? error.message : String(error),
+        invoiceId,
+        holderAddress,
+      }, 'Failed to update escrow holder');
+      throw error;
+    }
+  }
+
+  /**
+   * Pay an invoice's settlement through the escrow to its current holder
+   * @param amount Amount in HBAR
+   */
+  async settle(invoiceId: string, amount: string): Promise<SettlementTransaction> {
+    try {
+      if (!this.signer) {
+        throw new Error('No signer available. Private key required for transactions.');
+      }
+
+      logger.info({ invoiceId, amount }, 'Paying escrow settlement');
+
+      const tx = await this.contract.settle(invoiceId, {
+        value: ethers.parseEther(amount),
+        gasLimit: 200000,
+      });
+
+      const receipt = await tx.wait();
+
+      if (receipt.status === 0) {
+        throw new Error('Transaction failed');
+      }
+
+      const paid = this.findEvent(receipt, 'SettlementPaid');
+
+      return {
+        escrowId: paid ? paid.args.escrowId.toString() : '0',
+        transactionHash: tx.hash,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed.toString(),
+        status: 'confirmed',
+        holder: paid ? paid.args.holder : '',
+        amount: paid ? ethers.formatEther(paid.args.amount) : '0',
+      };
+    } catch (error) {
+      logger.error({
+        error: error instanceof Error ? error.message : String(error),
+        invoiceId,
+        amount,
+      }, 'Failed to pay escrow settlement');
+      throw error;
+    }
+  }
+
+  /**
+   * EVM address the escrow currently pays out to
+   */
+  async getHolder(invoiceId: string): Promise<string> {
+    return this.contract.getHolder(invoiceId);
+  }
+
+  private findEvent(receipt: any, eventName: string): any | null {
+    for (const log of receipt.logs) {
+      try {
+        const parsed = this.contract.interface.parseLog(log);
+        if (parsed?.name === eventName) {
+          return parsed;
+        }
+      } catch {
+        // Not an EscrowPool event
+      }
+    }
+    return null;
+  }
+
+  /**
+   * EscrowPool address the service talks to
+   */
+  getAddress(): string {
+    return this.contractAddress;
+  }
+
   /**
    * Get escrow details by ID
    */
@@ -302,6 +727,15 @@ export class ContractService {
 
 
 
+  /**
+   * Whether an escrow was deposited by the platform signer for exactly this amount (in HBAR)
+   */
+  isOwnDeposit(escrow: EscrowData, amount: string): boolean {
+    return !!this.signer
+      && escrow.investor.toLowerCase() === this.signer.address.toLowerCase()
+      && BigInt(escrow.amount) === ethers.parseEther(amount);
+  }
+
   /**
    * Get contract information
    */
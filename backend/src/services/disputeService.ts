@@ -0,0 +1,294 @@
+import { PrismaClient } from '@prisma/client';
+import { contractService } from './contract';
+import { HederaService } from './hedera';
+import { invoiceService, InvoiceEventType } from './invoices';
+import { ledgerService } from './ledgerService';
+import { logger } from '../utils/logger';
+import { ValidationError, NotFoundError, ConflictError, AuthorizationError } from '../middleware/errorHandler';
+
+// Create hedera service instance
+const hederaService = new HederaService({
+  operatorId: process.env['OPERATOR_ID']!,
+  operatorKey: process.env['OPERATOR_KEY']!,
+  network: process.env['HEDERA_NETWORK'] || 'testnet',
+  mirrorNodeUrl: process.env['MIRROR_NODE_URL'] || 'https://testnet.mirrornode.hedera.com',
+});
+
+const prisma = new PrismaClient();
+
+const FULL_SHARE_BPS = 10000;
+
+// Define enums locally since they're not exported from Prisma client
+export enum DisputeStatus {
+  OPEN = 'OPEN',
+  RESOLVED = 'RESOLVED'
+}
+
+export enum DisputeParty {
+  INVESTOR = 'INVESTOR',
+  SUPPLIER = 'SUPPLIER'
+}
+
+export interface RaiseDisputeInput {
+  escrowId: string;
+  accountId: string; // wallet of the party raising the dispute
+  reason: string;
+}
+
+export interface ResolveDisputeInput {
+  escrowId: string;
+  accountId: string; // wallet of the arbiter
+  investorShareBps: number;
+  resolution?: string;
+}
+
+/**
+ * Escrow disputes: the investor or supplier freezes a funded escrow and an
+ * arbiter settles it with a split. Each step is mirrored to the invoice
+ * topic and the audit topic on HCS.
+ */
+export class DisputeService {
+  /**
+   * Freeze a funded escrow pending arbitration
+   */
+  async raiseDispute(input: RaiseDisputeInput) {
+    const funding = await this.findFundingByEscrow(input.escrowId);
+
+    if (funding.status !== 'ACTIVE') {
+      throw new ConflictError(`Escrow cannot be disputed in status ${funding.status}`);
+    }
+
+    // A position sold on is disputed by whoever holds it now
+    const investor = funding.holder ?? funding.investor;
+    let party: DisputeParty;
+    if (investor.accountId === input.accountId) {
+      party = DisputeParty.INVESTOR;
+    } else if (funding.invoice.supplier.accountId === input.accountId) {
+      party = DisputeParty.SUPPLIER;
+    } else {
+      throw new AuthorizationError('Only the investor or supplier of this escrow can raise a dispute');
+    }
+
+    const open = await prisma.escrowDispute.findFirst({
+      where: { fundingId: funding.id, status: DisputeStatus.OPEN }
+    });
+    if (open) {
+      throw new ConflictError('Escrow already has an open dispute');
+    }
+
+    const result = await contractService.raiseDispute(funding.invoiceId, input.reason);
+
+    const dispute = await prisma.escrowDispute.create({
+      data: {
+        fundingId: funding.id,
+        invoiceId: funding.invoiceId,
+        escrowId: input.escrowId,
+        raisedBy: input.accountId,
+        raisedByRole: party,
+        reason: input.reason,
+        raiseTransactionHash: result.transactionHash,
+      }
+    });
+
+    await prisma.funding.update({
+      where: { id: funding.id },
+      data: { status: 'DISPUTED' }
+    });
+
+    const hcsMessageId = await this.publish(funding.invoice.topicId, {
+      eventType: InvoiceEventType.DISPUTE_RAISED,
+      action: 'Dispute Raised',
+      actor: input.accountId,
+      details: `${party === DisputeParty.INVESTOR ? 'Investor' : 'Supplier'} disputed escrow for invoice ${funding.invoice.invoiceNumber}: ${input.reason}`,
+      transactionId: result.transactionHash,
+      status: 'success',
+      invoiceId: funding.invoiceId,
+      fundingId: funding.id,
+      disputeId: dispute.id,
+      escrowId: input.escrowId,
+      raisedByRole: party,
+      reason: input.reason,
+      timestamp: new Date().toISOString(),
+    });
+
+    await invoiceService.addInvoiceEvent(
+      funding.invoiceId,
+      InvoiceEventType.DISPUTE_RAISED,
+      `Escrow disputed by ${party.toLowerCase()}: ${input.reason}`,
+      { disputeId: dispute.id, fundingId: funding.id, escrowId: input.escrowId, raisedBy: input.accountId },
+      hcsMessageId,
+      new Date(),
+      result.transactionHash
+    );
+
+    logger.info({ disputeId: dispute.id, escrowId: input.escrowId, party }, 'Escrow dispute raised');
+
+    if (!hcsMessageId) {
+      return dispute;
+    }
+
+    return prisma.escrowDispute.update({
+      where: { id: dispute.id },
+      data: { raiseHcsSequence: hcsMessageId }
+    });
+  }
+
+  /**
+   * Settle an open dispute. The investor's share is refunded; the rest is
+   * released to the supplier less the platform fee and booked as the
+   * investor's loss.
+   */
+  async resolveDispute(input: ResolveDisputeInput) {
+    if (!Number.isInteger(input.investorShareBps) || input.investorShareBps < 0 || input.investorShareBps > FULL_SHARE_BPS) {
+      throw new ValidationError('Investor share must be an integer between 0 and 10000 basis points');
+    }
+
+    const funding = await this.findFundingByEscrow(input.escrowId);
+
+    const dispute = await prisma.escrowDispute.findFirst({
+      where: { fundingId: funding.id, status: DisputeStatus.OPEN }
+    });
+    if (!dispute) {
+      throw new ConflictError('Escrow has no open dispute');
+    }
+
+    const result = await contractService.resolveDispute(funding.invoiceId, input.investorShareBps);
+    const investorAmount = parseFloat(result.investorAmount);
+    const supplierAmount = parseFloat(result.supplierAmount);
+    const fee = parseFloat(result.fee);
+    const resolvedAt = new Date();
+    const refunded = input.investorShareBps === FULL_SHARE_BPS;
+
+    const resolved = await prisma.escrowDispute.update({
+      where: { id: dispute.id },
+      data: {
+        status: DisputeStatus.RESOLVED,
+        resolvedBy: input.accountId,
+        resolution: input.resolution,
+        investorShareBps: input.investorShareBps,
+        investorAmount,
+        supplierAmount,
+        fee,
+        resolveTransactionHash: result.transactionHash,
+        resolvedAt,
+      }
+    });
+
+    await prisma.funding.update({
+      where: { id: funding.id },
+      data: refunded
+        ? { status: 'REFUNDED', refundTransactionHash: result.transactionHash, refundedAt: resolvedAt }
+        : { status: 'RELEASED', releaseTransactionHash: result.transactionHash, releasedAt: resolvedAt }
+    });
+
+    // The contract has already paid out, so ledger failures are left for reconciliation
+    try {
+      if (investorAmount > 0) {
+        await ledgerService.recordRefund(funding, result.transactionHash, resolvedAt, investorAmount);
+      }
+      if (!refunded) {
+        await ledgerService.recordDisputeLoss(funding, result.transactionHash, resolvedAt);
+      }
+    } catch (error) {
+      logger.error({ fundingId: funding.id, error: error instanceof Error ? error.message : String(error) }, 'Failed to post dispute resolution to ledger');
+    }
+
+    const hcsMessageId = await this.publish(funding.invoice.topicId, {
+      eventType: InvoiceEventType.DISPUTE_RESOLVED,
+      action: 'Dispute Resolved',
+      actor: input.accountId,
+      details: `Dispute on invoice ${funding.invoice.invoiceNumber} resolved: ${investorAmount} HBAR to investor, ${supplierAmount} HBAR to supplier, ${fee} HBAR fee`,
+      transactionId: result.transactionHash,
+      status: 'success',
+      invoiceId: funding.invoiceId,
+      fundingId: funding.id,
+      disputeId: dispute.id,
+      escrowId: input.escrowId,
+      investorShareBps: input.investorShareBps,
+      investorAmount,
+      supplierAmount,
+      fee,
+      resolution: input.resolution,
+      timestamp: resolvedAt.toISOString(),
+    });
+
+    await invoiceService.addInvoiceEvent(
+      funding.invoiceId,
+      InvoiceEventType.DISPUTE_RESOLVED,
+      `Escrow dispute resolved. Investor: ${investorAmount} HBAR, supplier: ${supplierAmount} HBAR, fee: ${fee} HBAR`,
+      { disputeId: dispute.id, fundingId: funding.id, escrowId: input.escrowId, investorShareBps: input.investorShareBps, resolution: input.resolution },
+      hcsMessageId,
+      resolvedAt,
+      result.transactionHash
+    );
+
+    logger.info({ disputeId: dispute.id, escrowId: input.escrowId, investorShareBps: input.investorShareBps }, 'Escrow dispute resolved');
+
+    if (!hcsMessageId) {
+      return resolved;
+    }
+
+    return prisma.escrowDispute.update({
+      where: { id: dispute.id },
+      data: { resolveHcsSequence: hcsMessageId }
+    });
+  }
+
+  /**
+   * Get the disputes of an escrow, newest first
+   */
+  async getDisputes(escrowId: string) {
+    const funding = await this.findFundingByEscrow(escrowId);
+
+    return prisma.escrowDispute.findMany({
+      where: { fundingId: funding.id },
+      orderBy: { raisedAt: 'desc' }
+    });
+  }
+
+  private async findFundingByEscrow(escrowId: string) {
+    const funding = await prisma.funding.findFirst({
+      where: { OR: [{ escrowId }, { contractId: escrowId }] },
+      include: {
+        invoice: { include: { supplier: true } },
+        investor: true,
+        holder: true
+      }
+    });
+
+    if (!funding) {
+      throw new NotFoundError('Escrow');
+    }
+
+    return funding;
+  }
+
+  /**
+   * Log a dispute step to the invoice topic and, when configured, the audit
+   * topic read by the settlement audit page
+   * @returns Sequence number on the invoice topic
+   */
+  private async publish(topicId: string | null, message: Record<string, any>): Promise<string | undefined> {
+    const auditTopicId = process.env['AUDIT_TOPIC_ID'];
+    let sequenceNumber: string | undefined;
+
+    for (const target of [topicId, auditTopicId]) {
+      if (!target) {
+        continue;
+      }
+
+      try {
+        const hcsResult = await hederaService.submitTopicMessage(target, message);
+        if (target === topicId) {
+          sequenceNumber = hcsResult.sequenceNumber;
+        }
+      } catch (error) {
+        logger.warn({ error: error instanceof Error ? error.message : String(error), topicId: target, eventType: message['eventType'] }, 'Failed to log dispute event to HCS');
+      }
+    }
+
+    return sequenceNumber;
+  }
+}
+
+export const disputeService = new DisputeService();
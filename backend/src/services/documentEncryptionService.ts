@@ -0,0 +1,281 @@
+import { createCipheriv, createDecipheriv, createHash, hkdfSync, randomBytes } from 'crypto';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { AuthenticationError, AuthorizationError, ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+// Define enums locally since they're not exported from Prisma client
+export enum DocumentKeyRole {
+  SUPPLIER = 'SUPPLIER',
+  INVESTOR = 'INVESTOR',
+  AGENT = 'AGENT',
+  ADMIN = 'ADMIN'
+}
+
+// Recipient of the one grant every administrator reads through
+export const ADMIN_RECIPIENT = 'ADMIN';
+
+// Fundings whose investor may read the invoice documents
+const READING_FUNDING_STATUSES = ['ACTIVE', 'DISPUTED', 'RELEASED'];
+
+// Encrypted files start with this marker, then the IV and GCM auth tag
+const ENVELOPE_MAGIC = Buffer.from('YHENC1');
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+export interface DocumentEncryptionConfig {
+  enabled: boolean;
+  masterKey: string | undefined; // 32 bytes as hex or base64; wraps every data key
+}
+
+export function loadDocumentEncryptionConfig(): DocumentEncryptionConfig {
+  return {
+    enabled: process.env['DOCUMENT_ENCRYPTION'] !== 'disabled',
+    masterKey: process.env['DOCUMENT_MASTER_KEY'] || undefined,
+  };
+}
+
+/**
+ * A document encrypted under a fresh data key
+ */
+export interface SealedDocument {
+  ciphertext: Buffer;
+  dataKey: Buffer;
+  ciphertextHash: string; // SHA-384 of the ciphertext, safe to anchor on chain
+}
+
+export interface DocumentRecipient {
+  recipientId: string;
+  role: DocumentKeyRole;
+}
+
+/**
+ * The caller asking to read a document
+ */
+export interface DocumentReader {
+  userId: string | null;
+  roles: string[];
+}
+
+function sealBytes(key: Buffer, plaintext: Buffer, aad?: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  if (aad) cipher.setAAD(aad);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function openBytes(key: Buffer, sealed: Buffer, aad?: Buffer): Buffer {
+  const decipher = createDecipheriv('aes-256-gcm', key, sealed.subarray(0, IV_LENGTH));
+  if (aad) decipher.setAAD(aad);
+  decipher.setAuthTag(sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+/**
+ * Envelope encryption for invoice documents stored on HFS, which anyone can
+ * read. Each file is encrypted under its own data key before upload; the data
+ * key is stored only wrapped, once per party allowed to read the file, under
+ * a key-encryption key derived from the master key for that party and file.
+ * Deleting a party's wrapped key revokes their access.
+ */
+export class DocumentEncryptionService {
+  private config: DocumentEncryptionConfig;
+  private masterKey: Buffer | null = null;
+
+  constructor(config: Partial<DocumentEncryptionConfig> = {}) {
+    this.config = { ...loadDocumentEncryptionConfig(), ...config };
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Whether stored content is an encrypted document
+   */
+  isEncrypted(content: Buffer): boolean {
+    return content.subarray(0, ENVELOPE_MAGIC.length).equals(ENVELOPE_MAGIC);
+  }
+
+  /**
+   * Encrypt a document under a new data key
+   */
+  encrypt(plaintext: Buffer): SealedDocument {
+    const dataKey = randomBytes(KEY_LENGTH);
+    const ciphertext = Buffer.concat([ENVELOPE_MAGIC, sealBytes(dataKey, plaintext, ENVELOPE_MAGIC)]);
+
+    return {
+      ciphertext,
+      dataKey,
+      ciphertextHash: createHash('sha384').update(ciphertext).digest('hex'),
+    };
+  }
+
+  /**
+   * Decrypt a document; fails if the ciphertext was altered
+   */
+  decrypt(ciphertext: Buffer, dataKey: Buffer): Buffer {
+    if (!this.isEncrypted(ciphertext)) {
+      throw new ValidationError('File is not an encrypted document');
+    }
+    try {
+      return openBytes(dataKey, ciphertext.subarray(ENVELOPE_MAGIC.length), ENVELOPE_MAGIC);
+    } catch {
+      throw new Error('Document failed decryption; the file or its key was altered');
+    }
+  }
+
+  /**
+   * Wrap a data key for one recipient of one file
+   * @returns Base64 IV, auth tag and wrapped key
+   */
+  wrapKey(dataKey: Buffer, fileId: string, recipientId: string): string {
+    return sealBytes(this.keyEncryptionKey(fileId, recipientId), dataKey, Buffer.from(`${fileId}:${recipientId}`)).toString('base64');
+  }
+
+  unwrapKey(wrappedKey: string, fileId: string, recipientId: string): Buffer {
+    return openBytes(this.keyEncryptionKey(fileId, recipientId), Buffer.from(wrappedKey, 'base64'), Buffer.from(`${fileId}:${recipientId}`));
+  }
+
+  /**
+   * Parties allowed to read an invoice's documents: its supplier and agent,
+   * investors funding or holding it, and administrators
+   */
+  async recipientsFor(invoiceId: string, db: Prisma.TransactionClient = prisma): Promise<DocumentRecipient[]> {
+    const invoice = await db.invoice.findUnique({
+      where: { id: invoiceId },
+      select: {
+        supplierId: true,
+        agentId: true,
+        fundings: {
+          where: { status: { in: READING_FUNDING_STATUSES } },
+          select: { investorId: true, holderId: true }
+        }
+      }
+    });
+    if (!invoice) {
+      return [];
+    }
+
+    const recipients = new Map<string, DocumentKeyRole>([[invoice.supplierId, DocumentKeyRole.SUPPLIER]]);
+    if (invoice.agentId && !recipients.has(invoice.agentId)) {
+      recipients.set(invoice.agentId, DocumentKeyRole.AGENT);
+    }
+    for (const funding of invoice.fundings) {
+      for (const investorId of [funding.investorId, funding.holderId]) {
+        if (investorId && !recipients.has(investorId)) {
+          recipients.set(investorId, DocumentKeyRole.INVESTOR);
+        }
+      }
+    }
+    recipients.set(ADMIN_RECIPIENT, DocumentKeyRole.ADMIN);
+
+    return [...recipients].map(([recipientId, role]) => ({ recipientId, role }));
+  }
+
+  /**
+   * Store an uploaded file's data key wrapped for every party allowed to read it
+   * @returns Number of wrapped keys stored
+   */
+  async storeKeys(fileId: string, invoiceId: string, dataKey: Buffer, db: Prisma.TransactionClient = prisma): Promise<number> {
+    const recipients = await this.recipientsFor(invoiceId, db);
+    for (const { recipientId, role } of recipients) {
+      await this.upsertKey(db, { fileId, invoiceId, recipientId, role, wrappedKey: this.wrapKey(dataKey, fileId, recipientId) });
+    }
+
+    logger.info({ fileId, invoiceId, recipients: recipients.length }, 'Document keys stored');
+    return recipients.length;
+  }
+
+  /**
+   * Let a party read every encrypted file of an invoice, such as an investor
+   * who just funded it. Data keys are recovered through the admin grant.
+   * @returns Number of files the party gained access to
+   */
+  async grantInvoiceAccess(invoiceId: string, recipientId: string, role: DocumentKeyRole): Promise<number> {
+    const adminKeys = await prisma.documentKey.findMany({
+      where: { invoiceId, recipientId: ADMIN_RECIPIENT }
+    });
+
+    for (const adminKey of adminKeys) {
+      const dataKey = this.unwrapKey(adminKey.wrappedKey, adminKey.fileId, ADMIN_RECIPIENT);
+      await this.upsertKey(prisma, {
+        fileId: adminKey.fileId,
+        invoiceId,
+        recipientId,
+        role,
+        wrappedKey: this.wrapKey(dataKey, adminKey.fileId, recipientId),
+      });
+    }
+
+    if (adminKeys.length > 0) {
+      logger.info({ invoiceId, recipientId, role, files: adminKeys.length }, 'Document access granted');
+    }
+    return adminKeys.length;
+  }
+
+  /**
+   * Decrypt a file for a reader holding a wrapped key for it
+   */
+  async openForReader(fileId: string, ciphertext: Buffer, reader: DocumentReader | null): Promise<Buffer> {
+    if (!reader) {
+      throw new AuthenticationError('Sign in to read encrypted documents');
+    }
+
+    const recipientIds = [
+      ...(reader.userId ? [reader.userId] : []),
+      ...(reader.roles.includes('ADMIN') ? [ADMIN_RECIPIENT] : []),
+    ];
+    const key = await prisma.documentKey.findFirst({
+      where: { fileId, recipientId: { in: recipientIds } }
+    });
+    if (!key) {
+      throw new AuthorizationError('Not authorized to read this document');
+    }
+
+    return this.decrypt(ciphertext, this.unwrapKey(key.wrappedKey, fileId, key.recipientId));
+  }
+
+  private async upsertKey(
+    db: Prisma.TransactionClient,
+    key: { fileId: string; invoiceId: string; recipientId: string; role: DocumentKeyRole; wrappedKey: string }
+  ) {
+    await db.documentKey.upsert({
+      where: { fileId_recipientId: { fileId: key.fileId, recipientId: key.recipientId } },
+      create: key,
+      update: {},
+    });
+  }
+
+  private keyEncryptionKey(fileId: string, recipientId: string): Buffer {
+    return Buffer.from(hkdfSync('sha256', this.getMasterKey(), fileId, `document-key:${recipientId}`, KEY_LENGTH));
+  }
+
+  private getMasterKey(): Buffer {
+    if (this.masterKey) {
+      return this.masterKey;
+    }
+
+    const configured = this.config.masterKey;
+    if (configured) {
+      const key = /^[0-9a-fA-F]{64}$/.test(configured) ? Buffer.from(configured, 'hex') : Buffer.from(configured, 'base64');
+      if (key.length !== KEY_LENGTH) {
+        throw new Error('DOCUMENT_MASTER_KEY must be 32 bytes, hex or base64 encoded');
+      }
+      this.masterKey = key;
+    } else if (process.env['NODE_ENV'] === 'production') {
+      throw new Error('DOCUMENT_MASTER_KEY must be set to encrypt documents');
+    } else {
+      logger.warn('DOCUMENT_MASTER_KEY not set; using a development key. This is insecure for production!');
+      this.masterKey = createHash('sha256').update('yieldharvest-development-document-key').digest();
+    }
+
+    return this.masterKey;
+  }
+}
+
+// Export singleton instance
+export const documentEncryptionService = new DocumentEncryptionService();
@@ -0,0 +1,465 @@
+import { createHash, createHmac, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { hederaFileService } from './hederaFileService';
+import { outboxService, OutboxAction } from './outboxService';
+import { AppError, HederaError, ExternalServiceError, ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { Clock, systemClock } from '../utils/clock';
+
+const prisma = new PrismaClient();
+
+// Define enums locally since they're not exported from Prisma client
+export enum DocumentStorageBackend {
+  HFS = 'HFS',
+  LOCAL = 'LOCAL',
+  S3 = 'S3'
+}
+
+export interface StoredDocument {
+  backend: DocumentStorageBackend;
+  uri: string;
+  sha256: string; // of the stored bytes
+  fileId: string | null; // HFS only
+  transactionId?: string;
+  hashScanUrl?: string;
+  mirrorNodeUrl?: string;
+  expiresAt?: Date;
+}
+
+export interface PutDocumentOptions {
+  filename: string;
+  memo: string;
+}
+
+/**
+ * Somewhere to keep document bytes. Off-chain stores are content-addressed:
+ * the URI is derived from the SHA-256 of the bytes, so storing the same bytes
+ * twice is harmless.
+ */
+export interface DocumentStore {
+  readonly backend: DocumentStorageBackend;
+  put(content: Buffer, options: PutDocumentOptions): Promise<StoredDocument>;
+  get(uri: string): Promise<Buffer>;
+  remove(uri: string): Promise<void>;
+}
+
+export interface S3StoreConfig {
+  endpoint: string; // e.g. https://s3.eu-west-1.amazonaws.com, or a MinIO URL
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix: string; // key prefix inside the bucket
+}
+
+export interface DocumentStoreConfig {
+  offChainBackend?: DocumentStorageBackend.LOCAL | DocumentStorageBackend.S3; // unset keeps every document on HFS
+  offChainThreshold: number; // documents larger than this many bytes go off-chain
+  anchorTopicId?: string; // HCS topic anchoring off-chain documents
+  localDir: string;
+  s3: S3StoreConfig;
+}
+
+// Content staged off-chain for a queued job to pick up
+export interface StagedContent {
+  backend: DocumentStorageBackend;
+  uri: string;
+  sha256: string;
+}
+
+// Documents the store service reads; older HFS rows have no storage URI
+export interface StoredDocumentRef {
+  id: string;
+  invoiceId: string;
+  storageBackend: string;
+  storageUri: string | null;
+  fileId: string | null;
+  hash: string;
+  ciphertextHash: string | null;
+}
+
+export function loadDocumentStoreConfig(): DocumentStoreConfig {
+  const offChainBackend = process.env['DOCUMENT_STORE_OFFCHAIN_BACKEND']?.toUpperCase();
+  return {
+    offChainBackend: offChainBackend === DocumentStorageBackend.LOCAL || offChainBackend === DocumentStorageBackend.S3
+      ? offChainBackend
+      : undefined,
+    offChainThreshold: parseInt(process.env['DOCUMENT_STORE_OFFCHAIN_THRESHOLD'] || '1048576'), // 1 MiB default
+    anchorTopicId: process.env['DOCUMENT_ANCHOR_TOPIC_ID'] || undefined,
+    localDir: process.env['DOCUMENT_STORE_LOCAL_DIR'] || path.resolve('storage/documents'),
+    s3: {
+      endpoint: process.env['DOCUMENT_STORE_S3_ENDPOINT'] || 'https://s3.amazonaws.com',
+      region: process.env['DOCUMENT_STORE_S3_REGION'] || 'us-east-1',
+      bucket: process.env['DOCUMENT_STORE_S3_BUCKET'] || '',
+      accessKeyId: process.env['DOCUMENT_STORE_S3_ACCESS_KEY_ID'] || '',
+      secretAccessKey: process.env['DOCUMENT_STORE_S3_SECRET_ACCESS_KEY'] || '',
+      prefix: process.env['DOCUMENT_STORE_S3_PREFIX'] || 'documents/',
+    },
+  };
+}
+
+const sha256Hex = (content: Buffer | string) => createHash('sha256').update(content).digest('hex');
+
+/**
+ * Split a storage URI into its scheme and location
+ */
+function parseUri(uri: string, scheme: string): string {
+  const expected = `${scheme}://`;
+  if (!uri.startsWith(expected)) {
+    throw new ValidationError(`Not a ${scheme} storage URI: ${uri}`);
+  }
+  return uri.slice(expected.length);
+}
+
+/**
+ * Hedera File Service. Files are public, so callers store encrypted content.
+ */
+export class HfsDocumentStore implements DocumentStore {
+  readonly backend = DocumentStorageBackend.HFS;
+
+  async put(content: Buffer, options: PutDocumentOptions): Promise<StoredDocument> {
+    const result = await hederaFileService.uploadFile(content, options.filename, options.memo);
+    if (!result.success) {
+      throw new HederaError(result.error || 'Failed to upload to HFS');
+    }
+
+    return {
+      backend: this.backend,
+      uri: `hfs://${result.fileId}`,
+      sha256: result.hash,
+      fileId: result.fileId,
+      transactionId: result.transactionId,
+      ...(result.hashScanUrl && { hashScanUrl: result.hashScanUrl }),
+      ...(result.mirrorNodeUrl && { mirrorNodeUrl: result.mirrorNodeUrl }),
+      ...(result.expiresAt && { expiresAt: result.expiresAt }),
+    };
+  }
+
+  async get(uri: string): Promise<Buffer> {
+    const result = await hederaFileService.downloadFile(parseUri(uri, 'hfs'));
+    if (!result.success) {
+      throw new HederaError(result.error || 'Failed to download from HFS');
+    }
+    return result.content;
+  }
+
+  async remove(uri: string): Promise<void> {
+    const result = await hederaFileService.deleteFile(parseUri(uri, 'hfs'));
+    if (!result.success) {
+      throw new HederaError(result.error || 'Failed to delete from HFS');
+    }
+  }
+}
+
+/**
+ * Local filesystem, for development and single-node deployments
+ */
+export class LocalDocumentStore implements DocumentStore {
+  readonly backend = DocumentStorageBackend.LOCAL;
+
+  constructor(private rootDir: string) {}
+
+  async put(content: Buffer): Promise<StoredDocument> {
+    const sha256 = sha256Hex(content);
+    const filePath = this.pathOf(sha256);
+
+    const exists = await fs.access(filePath).then(() => true, () => false);
+    if (!exists) {
+      // Written under a temporary name first so readers never see a partial file
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.${randomUUID()}.tmp`;
+      await fs.writeFile(tempPath, content);
+      await fs.rename(tempPath, filePath);
+    }
+
+    return { backend: this.backend, uri: `local://${sha256}`, sha256, fileId: null };
+  }
+
+  async get(uri: string): Promise<Buffer> {
+    return fs.readFile(this.pathOf(parseUri(uri, 'local')));
+  }
+
+  async remove(uri: string): Promise<void> {
+    await fs.rm(this.pathOf(parseUri(uri, 'local')), { force: true });
+  }
+
+  private pathOf(sha256: string): string {
+    if (!/^[0-9a-f]{64}$/.test(sha256)) {
+      throw new ValidationError(`Invalid document address: ${sha256}`);
+    }
+    return path.join(this.rootDir, sha256.slice(0, 2), sha256);
+  }
+}
+
+/**
+ * S3-compatible object storage (AWS S3, MinIO, ...), addressed path-style and
+ * signed with AWS Signature Version 4
+ */
+export class S3DocumentStore implements DocumentStore {
+  readonly backend = DocumentStorageBackend.S3;
+
+  constructor(private config: S3StoreConfig, private clock: Clock = systemClock) {}
+
+  async put(content: Buffer): Promise<StoredDocument> {
+    const sha256 = sha256Hex(content);
+    const key = `${this.config.prefix}${sha256}`;
+
+    const response = await this.send('PUT', key, content);
+    if (!response.ok) {
+      throw new ExternalServiceError('S3', `PUT ${key} failed with HTTP ${response.status}`);
+    }
+
+    return { backend: this.backend, uri: `s3://${this.config.bucket}/${key}`, sha256, fileId: null };
+  }
+
+  async get(uri: string): Promise<Buffer> {
+    const key = this.keyOf(uri);
+    const response = await this.send('GET', key);
+    if (!response.ok) {
+      throw new ExternalServiceError('S3', `GET ${key} failed with HTTP ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async remove(uri: string): Promise<void> {
+    const key = this.keyOf(uri);
+    const response = await this.send('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new ExternalServiceError('S3', `DELETE ${key} failed with HTTP ${response.status}`);
+    }
+  }
+
+  private keyOf(uri: string): string {
+    const location = parseUri(uri, 's3');
+    const bucketPrefix = `${this.config.bucket}/`;
+    if (!location.startsWith(bucketPrefix)) {
+      throw new ValidationError(`Document is not in bucket ${this.config.bucket}: ${uri}`);
+    }
+    return location.slice(bucketPrefix.length);
+  }
+
+  private async send(method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer): Promise<Response> {
+    const { endpoint, region, bucket, accessKeyId, secretAccessKey } = this.config;
+    const objectPath = [bucket, ...key.split('/')].map(segment => encodeURIComponent(segment)).join('/');
+    const url = new URL(`${endpoint.replace(/\/+$/, '')}/${objectPath}`);
+
+    const amzDate = this.clock.now().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? '');
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...signedHeaders.map(name => `${name}:${headers[name]}`),
+      '',
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n');
+    const scope = `${date}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    let signingKey: Buffer = Buffer.from(`AWS4${secretAccessKey}`);
+    for (const part of [date, region, 's3', 'aws4_request']) {
+      signingKey = createHmac('sha256', signingKey).update(part).digest();
+    }
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    // fetch sets Host from the URL itself
+    const { host: _host, ...requestHeaders } = headers;
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+      ...(body && { body: new Uint8Array(body) }),
+    });
+  }
+}
+
+/**
+ * Stores document bytes on HFS or, above a size threshold, off-chain in a
+ * local directory or S3-compatible bucket. Off-chain documents have their
+ * hash and URI anchored on HCS so their integrity can be checked against the
+ * ledger. Reads verify the bytes against the recorded hash whichever backend
+ * holds them.
+ */
+export class DocumentStoreService {
+  private config: DocumentStoreConfig;
+  private clock: Clock;
+  private stores = new Map<DocumentStorageBackend, DocumentStore>();
+
+  constructor(config: Partial<DocumentStoreConfig> = {}, clock: Clock = systemClock) {
+    this.config = { ...loadDocumentStoreConfig(), ...config };
+    this.clock = clock;
+  }
+
+  /**
+   * Backend a document of this many stored bytes goes to
+   */
+  backendFor(size: number): DocumentStorageBackend {
+    return this.config.offChainBackend && size > this.config.offChainThreshold
+      ? this.config.offChainBackend
+      : DocumentStorageBackend.HFS;
+  }
+
+  storeFor(backend: DocumentStorageBackend): DocumentStore {
+    let store = this.stores.get(backend);
+    if (!store) {
+      switch (backend) {
+        case DocumentStorageBackend.HFS:
+          store = new HfsDocumentStore();
+          break;
+        case DocumentStorageBackend.LOCAL:
+          store = new LocalDocumentStore(this.config.localDir);
+          break;
+        case DocumentStorageBackend.S3:
+          store = new S3DocumentStore(this.config.s3, this.clock);
+          break;
+        default:
+          throw new ValidationError(`Unknown document storage backend: ${backend}`);
+      }
+      this.stores.set(backend, store);
+    }
+    return store;
+  }
+
+  /**
+   * Store a document's bytes on the backend its size calls for
+   */
+  async put(content: Buffer, options: PutDocumentOptions): Promise<StoredDocument> {
+    const stored = await this.storeFor(this.backendFor(content.length)).put(content, options);
+    logger.info({ backend: stored.backend, uri: stored.uri, size: content.length }, 'Document stored');
+    return stored;
+  }
+
+  /**
+   * Read a document's stored bytes, checking them against its recorded hash
+   */
+  async read(document: StoredDocumentRef): Promise<Buffer> {
+    const uri = this.uriOf(document);
+    const content = await this.storeFor(document.storageBackend as DocumentStorageBackend).get(uri);
+
+    const expected = document.ciphertextHash || document.hash;
+    const actual = sha256Hex(content);
+    if (actual !== expected) {
+      logger.error({ documentId: document.id, uri, expected, actual }, 'Document integrity check failed');
+      throw new AppError('File integrity check failed', 500, 'INTEGRITY_CHECK_FAILED', true, { uri, expected, actual });
+    }
+    return content;
+  }
+
+  /**
+   * Delete a document's bytes, unless another document holds the same content
+   */
+  async remove(document: StoredDocumentRef): Promise<{ success: boolean; error?: string }> {
+    const uri = this.uriOf(document);
+    try {
+      if (document.storageBackend !== DocumentStorageBackend.HFS) {
+        const shared = await prisma.document.count({ where: { storageUri: uri, id: { not: document.id } } });
+        if (shared > 0) {
+          return { success: true };
+        }
+      }
+      await this.storeFor(document.storageBackend as DocumentStorageBackend).remove(uri);
+      return { success: true };
+    } catch (error) {
+      logger.error({ documentId: document.id, uri, error: error instanceof Error ? error.message : String(error) }, 'Failed to delete document content');
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Stage content a queued job will read later, so the job's payload carries
+   * a reference rather than the bytes. Staged content goes to the off-chain
+   * store, or to local disk when none is configured.
+   */
+  async stage(content: Buffer, options: PutDocumentOptions): Promise<StagedContent> {
+    const stored = await this.storeFor(this.config.offChainBackend ?? DocumentStorageBackend.LOCAL).put(content, options);
+    return { backend: stored.backend, uri: stored.uri, sha256: sha256Hex(content) };
+  }
+
+  /**
+   * Read staged content back, checking it against the hash it was staged with
+   */
+  async readStaged(staged: StagedContent): Promise<Buffer> {
+    const content = await this.storeFor(staged.backend).get(staged.uri);
+    const actual = sha256Hex(content);
+    if (actual !== staged.sha256) {
+      logger.error({ uri: staged.uri, expected: staged.sha256, actual }, 'Staged content integrity check failed');
+      throw new AppError('File integrity check failed', 500, 'INTEGRITY_CHECK_FAILED', true, { uri: staged.uri, expected: staged.sha256, actual });
+    }
+    return content;
+  }
+
+  /**
+   * Drop staged content once its job is done, unless a document holds the same bytes
+   */
+  async unstage(staged: StagedContent): Promise<void> {
+    try {
+      const shared = await prisma.document.count({ where: { storageUri: staged.uri } });
+      if (shared === 0) {
+        await this.storeFor(staged.backend).remove(staged.uri);
+      }
+    } catch (error) {
+      logger.warn({ uri: staged.uri, error: error instanceof Error ? error.message : String(error) }, 'Failed to remove staged content');
+    }
+  }
+
+  uriOf(document: Pick<StoredDocumentRef, 'storageUri' | 'fileId'>): string {
+    return document.storageUri ?? `hfs://${document.fileId}`;
+  }
+
+  /**
+   * Identifier document keys are wrapped under: the HFS file ID, or the
+   * storage URI of an off-chain document
+   */
+  keyIdOf(document: Pick<StoredDocumentRef, 'storageUri' | 'fileId'>): string {
+    return document.fileId ?? this.uriOf(document);
+  }
+
+  /**
+   * Queue the HCS message anchoring an off-chain document's hash and URI. HFS
+   * documents are on the ledger already and are not anchored.
+   * @returns Whether an anchor was queued
+   */
+  async anchor(document: StoredDocumentRef, db: Prisma.TransactionClient = prisma): Promise<boolean> {
+    if (document.storageBackend === DocumentStorageBackend.HFS || !this.config.anchorTopicId) {
+      return false;
+    }
+
+    await outboxService.enqueue(db, {
+      action: OutboxAction.HCS_MESSAGE,
+      aggregateType: 'Document',
+      aggregateId: document.id,
+      invoiceId: document.invoiceId,
+      idempotencyKey: `hcs:document-anchor:${document.id}`,
+      payload: {
+        topicId: this.config.anchorTopicId,
+        documentId: document.id,
+        message: {
+          eventType: 'DOCUMENT_ANCHORED',
+          documentId: document.id,
+          invoiceId: document.invoiceId,
+          sha256: document.ciphertextHash || document.hash,
+          storageUri: this.uriOf(document),
+          backend: document.storageBackend,
+          anchoredAt: this.clock.now().toISOString(),
+        },
+      },
+    });
+    return true;
+  }
+}
+
+// Export singleton instance
+export const documentStoreService = new DocumentStoreService();
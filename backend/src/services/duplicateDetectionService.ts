@@ -0,0 +1,443 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import { InvoiceStatus } from './invoices';
+import { outboxService, OutboxAction } from './outboxService';
+import { logger } from '../utils/logger';
+import { NotFoundError, ConflictError } from '../middleware/errorHandler';
+
+const prisma = new PrismaClient();
+
+// Define enums locally since they're not exported from Prisma client
+export enum DuplicateMatchType {
+  FILE_HASH = 'FILE_HASH',
+  FINGERPRINT = 'FINGERPRINT',
+  INVOICE_NUMBER = 'INVOICE_NUMBER'
+}
+
+export enum DuplicateFlagStatus {
+  OPEN = 'OPEN',
+  CONFIRMED = 'CONFIRMED',
+  DISMISSED = 'DISMISSED'
+}
+
+/**
+ * An invoice being created, or an existing one being screened again
+ */
+export interface DuplicateCandidate {
+  invoiceId?: string;
+  invoiceNumber: string;
+  supplierId: string;
+  buyerId?: string | null;
+  amount: number;
+  currency: string;
+  dueDate: Date;
+  fileHash?: string | null;
+  documentHashes?: string[]; // documents already attached to the invoice
+  file?: Buffer; // hashed the ways stored invoices and documents are
+}
+
+export interface DuplicateMatch {
+  matchType: DuplicateMatchType;
+  invoiceId: string;
+  invoiceNumber: string;
+  detail: string;
+}
+
+export interface DuplicateScreening {
+  fingerprint: string;
+  fileHashes: string[];
+  matches: DuplicateMatch[];
+}
+
+export interface DuplicateFlagFilter {
+  status?: DuplicateFlagStatus;
+  invoiceId?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface DuplicateDetectionConfig {
+  registryTopicId?: string; // HCS topic of the public hash registry
+  invoiceNumberDistance: number; // edits between invoice numbers still considered near-duplicates
+}
+
+// Matches that stop an invoice from being created at all
+const BLOCKING_MATCH_TYPES = [DuplicateMatchType.FILE_HASH];
+
+export function loadDuplicateDetectionConfig(): DuplicateDetectionConfig {
+  return {
+    registryTopicId: process.env['DUPLICATE_REGISTRY_TOPIC_ID'] || undefined,
+    invoiceNumberDistance: parseInt(process.env['DUPLICATE_INVOICE_NUMBER_DISTANCE'] || '1'),
+  };
+}
+
+/**
+ * Invoice number without separators, case or zero padding: "inv-0042" and "INV 42" are the same
+ */
+export function normalizeInvoiceNumber(invoiceNumber: string): string {
+  return invoiceNumber
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, '')
+    .replace(/(^|[A-Z])0+(?=\d)/g, '$1');
+}
+
+/**
+ * Fingerprint of a receivable independent of its invoice number. Parties are
+ * identified by Hedera account so other platforms can compute the same value.
+ */
+export function computeFingerprint(parts: { supplier: string; buyer: string; amount: number; currency: string; dueDate: Date }): string {
+  const normalized = [
+    parts.supplier,
+    parts.buyer,
+    parts.amount.toFixed(2),
+    parts.currency.toUpperCase(),
+    parts.dueDate.toISOString().slice(0, 10),
+  ].join('|');
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * Duplicate invoice and double-financing detection. Invoices are matched on
+ * their document hash, on a fingerprint of the receivable and on
+ * near-duplicate invoice numbers, at creation and again before funding.
+ * Reused documents are refused; other matches are flagged and block funding
+ * until an agent reviews them. Fingerprints and document hashes are published
+ * on a public HCS registry so other platforms can check them.
+ */
+export class DuplicateDetectionService {
+  private config: DuplicateDetectionConfig;
+
+  constructor(config: Partial<DuplicateDetectionConfig> = {}) {
+    this.config = { ...loadDuplicateDetectionConfig(), ...config };
+  }
+
+  /**
+   * Find invoices a candidate duplicates
+   */
+  async screen(candidate: DuplicateCandidate): Promise<DuplicateScreening> {
+    const fingerprint = await this.fingerprintOf(candidate);
+    const fileHashes = [
+      ...(candidate.fileHash ? [candidate.fileHash] : []),
+      ...(candidate.documentHashes ?? []),
+      ...(candidate.file
+        ? [createHash('sha384').update(candidate.file).digest('hex'), createHash('sha256').update(candidate.file).digest('hex')]
+        : []),
+    ];
+    const others: Prisma.InvoiceWhereInput = {
+      status: { not: InvoiceStatus.CANCELLED },
+      ...(candidate.invoiceId && { id: { not: candidate.invoiceId } }),
+    };
+
+    const matches: DuplicateMatch[] = [];
+    const seen = new Set<string>();
+    const add = (match: DuplicateMatch) => {
+      const key = `${match.matchType}:${match.invoiceId}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        matches.push(match);
+      }
+    };
+
+    if (fileHashes.length > 0) {
+      const [sameFile, sameDocument] = await Promise.all([
+        prisma.invoice.findMany({
+          where: { ...others, fileHash: { in: fileHashes } },
+          select: { id: true, invoiceNumber: true }
+        }),
+        prisma.document.findMany({
+          where: { hash: { in: fileHashes }, invoice: others },
+          select: { filename: true, invoice: { select: { id: true, invoiceNumber: true } } }
+        }),
+      ]);
+      for (const invoice of sameFile) {
+        add({ matchType: DuplicateMatchType.FILE_HASH, invoiceId: invoice.id, invoiceNumber: invoice.invoiceNumber, detail: `Same document as invoice ${invoice.invoiceNumber}` });
+      }
+      for (const document of sameDocument) {
+        add({
+          matchType: DuplicateMatchType.FILE_HASH,
+          invoiceId: document.invoice.id,
+          invoiceNumber: document.invoice.invoiceNumber,
+          detail: `Same document as ${document.filename} on invoice ${document.invoice.invoiceNumber}`,
+        });
+      }
+    }
+
+    const sameReceivable = await prisma.invoice.findMany({
+      where: { ...others, fingerprint },
+      select: { id: true, invoiceNumber: true }
+    });
+    for (const invoice of sameReceivable) {
+      add({
+        matchType: DuplicateMatchType.FINGERPRINT,
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        detail: `Same supplier, buyer, amount and due date as invoice ${invoice.invoiceNumber}`,
+      });
+    }
+
+    // Sequential numbers differ by one edit too, so a near miss only counts for the same amount
+    const number = normalizeInvoiceNumber(candidate.invoiceNumber);
+    const supplierInvoices = await prisma.invoice.findMany({
+      where: { ...others, supplierId: candidate.supplierId },
+      select: { id: true, invoiceNumber: true, amount: true }
+    });
+    for (const invoice of supplierInvoices) {
+      const distance = editDistance(number, normalizeInvoiceNumber(invoice.invoiceNumber));
+      if (distance === 0 || (distance <= this.config.invoiceNumberDistance && invoice.amount === candidate.amount)) {
+        add({
+          matchType: DuplicateMatchType.INVOICE_NUMBER,
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          detail: `Invoice number ${candidate.invoiceNumber} is ${distance === 0 ? 'the same as' : 'close to'} ${invoice.invoiceNumber}`,
+        });
+      }
+    }
+
+    return { fingerprint, fileHashes, matches };
+  }
+
+  /**
+   * Screen a new invoice, refusing it when its document was already submitted
+   */
+  async screenNewInvoice(candidate: DuplicateCandidate): Promise<DuplicateScreening> {
+    const screening = await this.screen(candidate);
+
+    const blocking = screening.matches.filter(match => BLOCKING_MATCH_TYPES.includes(match.matchType));
+    if (blocking.length > 0) {
+      logger.warn({ invoiceNumber: candidate.invoiceNumber, supplierId: candidate.supplierId, matches: blocking }, 'Duplicate invoice refused');
+      throw new ConflictError(`Invoice duplicates ${blocking.map(match => match.invoiceNumber).join(', ')}: ${blocking[0]!.detail}`);
+    }
+
+    return screening;
+  }
+
+  /**
+   * Store a new invoice's fingerprint, flag its matches for review and queue
+   * its hashes for the public registry
+   */
+  async recordScreening(invoiceId: string, screening: DuplicateScreening, db: Prisma.TransactionClient = prisma): Promise<void> {
+    await db.invoice.update({
+      where: { id: invoiceId },
+      data: { fingerprint: screening.fingerprint }
+    });
+
+    await this.flagMatches(invoiceId, screening.matches, db);
+
+    if (this.config.registryTopicId) {
+      await outboxService.enqueue(db, {
+        action: OutboxAction.HCS_MESSAGE,
+        aggregateType: 'Invoice',
+        aggregateId: invoiceId,
+        invoiceId,
+        idempotencyKey: `hcs:hash-registry:${invoiceId}`,
+        payload: {
+          topicId: this.config.registryTopicId,
+          message: {
+            eventType: 'INVOICE_REGISTERED',
+            fingerprint: screening.fingerprint,
+            fileHashes: screening.fileHashes,
+            registeredAt: new Date().toISOString(),
+          },
+        },
+      });
+    }
+  }
+
+  /**
+   * Record the screening of an invoice created outside a transaction and publish it
+   */
+  async registerInvoice(invoiceId: string, screening: DuplicateScreening): Promise<void> {
+    await prisma.$transaction(tx => this.recordScreening(invoiceId, screening, tx));
+    await outboxService.dispatchAggregate(invoiceId);
+  }
+
+  /**
+   * Screen an invoice again before it is funded and refuse while it has
+   * unreviewed matches or was confirmed as a duplicate. The earlier invoice
+   * of an open match is held too, so neither copy is financed before review.
+   */
+  async assertFundable(invoiceId: string): Promise<void> {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      select: {
+        id: true,
+        invoiceNumber: true,
+        supplierId: true,
+        buyerId: true,
+        amount: true,
+        currency: true,
+        dueDate: true,
+        fileHash: true,
+        fingerprint: true,
+        documents: { select: { hash: true } }
+      }
+    });
+    if (!invoice) {
+      throw new NotFoundError('Invoice');
+    }
+
+    // Documents attached since creation may match other invoices now
+    const { documents, fingerprint, ...candidate } = invoice;
+    const screening = await this.screen({
+      ...candidate,
+      invoiceId: invoice.id,
+      documentHashes: documents.map(document => document.hash),
+    });
+
+    await prisma.$transaction(async (tx) => {
+      if (fingerprint !== screening.fingerprint) {
+        await tx.invoice.update({ where: { id: invoice.id }, data: { fingerprint: screening.fingerprint } });
+      }
+      await this.flagMatches(invoice.id, screening.matches, tx, true);
+    });
+
+    const blocking = await prisma.duplicateFlag.findFirst({
+      where: {
+        OR: [
+          { invoiceId, status: { in: [DuplicateFlagStatus.OPEN, DuplicateFlagStatus.CONFIRMED] } },
+          { matchedInvoiceId: invoiceId, status: DuplicateFlagStatus.OPEN },
+        ]
+      },
+      include: {
+        invoice: { select: { invoiceNumber: true } },
+        matchedInvoice: { select: { invoiceNumber: true } }
+      }
+    });
+    if (blocking) {
+      throw new ConflictError(
+        blocking.status === DuplicateFlagStatus.CONFIRMED
+          ? `Invoice was confirmed as a duplicate of ${blocking.matchedInvoice.invoiceNumber}`
+          : `Invoice is awaiting agent review as a possible duplicate (${blocking.invoice.invoiceNumber} / ${blocking.matchedInvoice.invoiceNumber})`
+      );
+    }
+  }
+
+  /**
+   * Flags newest first, with both invoices
+   */
+  async getFlags(filter: DuplicateFlagFilter) {
+    const where: Prisma.DuplicateFlagWhereInput = {
+      ...(filter.status && { status: filter.status }),
+      ...(filter.invoiceId && { OR: [{ invoiceId: filter.invoiceId }, { matchedInvoiceId: filter.invoiceId }] }),
+    };
+    const invoiceSelect = { id: true, invoiceNumber: true, supplierId: true, buyerId: true, amount: true, currency: true, dueDate: true, status: true };
+
+    const [flags, total] = await Promise.all([
+      prisma.duplicateFlag.findMany({
+        where,
+        include: { invoice: { select: invoiceSelect }, matchedInvoice: { select: invoiceSelect } },
+        orderBy: { createdAt: 'desc' },
+        take: filter.limit,
+        skip: filter.offset,
+      }),
+      prisma.duplicateFlag.count({ where }),
+    ]);
+
+    return { flags, total };
+  }
+
+  /**
+   * An agent confirms a flag as a duplicate, which keeps the flagged invoice
+   * from being funded, or dismisses it, which releases both invoices
+   */
+  async reviewFlag(flagId: string, reviewerAccountId: string, decision: DuplicateFlagStatus.CONFIRMED | DuplicateFlagStatus.DISMISSED, note?: string) {
+    const flag = await prisma.duplicateFlag.findUnique({ where: { id: flagId } });
+    if (!flag) {
+      throw new NotFoundError('Duplicate flag');
+    }
+    if (flag.status !== DuplicateFlagStatus.OPEN) {
+      throw new ConflictError(`Duplicate flag was already ${flag.status.toLowerCase()}`);
+    }
+
+    const reviewed = await prisma.duplicateFlag.update({
+      where: { id: flagId },
+      data: { status: decision, reviewedBy: reviewerAccountId, reviewNote: note, reviewedAt: new Date() }
+    });
+
+    logger.info({ flagId, invoiceId: flag.invoiceId, matchedInvoiceId: flag.matchedInvoiceId, decision, reviewerAccountId }, 'Duplicate flag reviewed');
+
+    return reviewed;
+  }
+
+  /**
+   * Whether a document hash or fingerprint is registered, for other platforms
+   */
+  async lookupHash(hash: string) {
+    const [invoice, document] = await Promise.all([
+      prisma.invoice.findFirst({
+        where: { OR: [{ fileHash: hash }, { fingerprint: hash }], status: { not: InvoiceStatus.CANCELLED } },
+        select: { fileHash: true, createdAt: true },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.document.findFirst({
+        where: { hash },
+        select: { createdAt: true },
+        orderBy: { createdAt: 'asc' }
+      }),
+    ]);
+
+    const registeredAt = [invoice?.createdAt, document?.createdAt]
+      .filter((date): date is Date => !!date)
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+
+    return {
+      hash,
+      registered: !!registeredAt,
+      kind: invoice ? (invoice.fileHash === hash ? 'FILE' : 'FINGERPRINT') : document ? 'FILE' : null,
+      registeredAt: registeredAt ?? null,
+      registryTopicId: this.config.registryTopicId ?? null,
+    };
+  }
+
+  private async fingerprintOf(candidate: DuplicateCandidate): Promise<string> {
+    const [supplier, buyer] = await Promise.all([
+      prisma.user.findUnique({ where: { id: candidate.supplierId }, select: { accountId: true } }),
+      candidate.buyerId ? prisma.buyer.findUnique({ where: { id: candidate.buyerId }, select: { accountId: true } }) : null,
+    ]);
+
+    return computeFingerprint({
+      supplier: supplier?.accountId ?? candidate.supplierId,
+      buyer: buyer?.accountId ?? candidate.buyerId ?? '',
+      amount: candidate.amount,
+      currency: candidate.currency,
+      dueDate: candidate.dueDate,
+    });
+  }
+
+  private async flagMatches(invoiceId: string, matches: DuplicateMatch[], db: Prisma.TransactionClient, rescreen: boolean = false): Promise<void> {
+    for (const match of matches) {
+      // On a rescreen, a match already flagged from the other side is not flagged again
+      if (rescreen) {
+        const reverse = await db.duplicateFlag.findUnique({
+          where: { invoiceId_matchedInvoiceId_matchType: { invoiceId: match.invoiceId, matchedInvoiceId: invoiceId, matchType: match.matchType } }
+        });
+        if (reverse) continue;
+      }
+
+      await db.duplicateFlag.upsert({
+        where: { invoiceId_matchedInvoiceId_matchType: { invoiceId, matchedInvoiceId: match.invoiceId, matchType: match.matchType } },
+        create: { invoiceId, matchedInvoiceId: match.invoiceId, matchType: match.matchType, detail: match.detail },
+        update: {},
+      });
+    }
+
+    if (matches.length > 0) {
+      logger.warn({ invoiceId, matches: matches.map(match => ({ matchType: match.matchType, invoiceId: match.invoiceId })) }, 'Possible duplicate invoice flagged for review');
+    }
+  }
+}
+
+// Export singleton instance
+export const duplicateDetectionService = new DuplicateDetectionService();
@@ -0,0 +1,452 @@
+import { PrismaClient } from '@prisma/client';
+import { ethers } from 'ethers';
+import { ESCROW_POOL_ABI, contractService } from './contract';
+import { mirrorNodeService, ContractLog } from './mirrorNodeService';
+import { websocketService } from './websocketService';
+import { ledgerService } from './ledgerService';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+const CHECKPOINT_ID = 'escrow-pool';
+
+// Escrow lifecycle events reconciled into Funding
+const ESCROW_EVENTS = ['EscrowCreated', 'EscrowFunded', 'EscrowReleased', 'EscrowRefunded'];
+
+// Events that pay the fee recipient or change who is paid how much, read by the platform fee indexer
+export const FEE_EVENTS = ['EscrowReleased', 'SyndicateReleased', 'DisputeResolved', 'FeeRateUpdated', 'FeeRecipientUpdated'];
+
+const INDEXED_EVENTS = [...new Set([...ESCROW_EVENTS, ...FEE_EVENTS])];
+
+// Fee rates are basis points, not wei
+const UNSCALED_ARGS = ['oldRate', 'newRate'];
+
+const escrowPoolInterface = new ethers.Interface(ESCROW_POOL_ABI);
+
+export interface EscrowIndexerConfig {
+  interval: number; // milliseconds between syncs
+  enabled: boolean;
+  contractId?: string; // EscrowPool contract ID or EVM address; defaults to the configured contract
+  pageSize: number; // logs per Mirror Node request
+  maxPages: number; // pages read per sync
+  rewindBlocks: number; // blocks re-indexed when the checkpoint block is no longer canonical
+}
+
+export interface EscrowIndexSummary {
+  fetched: number;
+  indexed: number;
+  reconciled: number;
+  skipped: number;
+  rewound: boolean;
+  checkpoint: { blockNumber: number; consensusTimestamp: string } | null;
+}
+
+export interface DecodedEscrowLog {
+  eventName: string;
+  escrowId: string | null; // escrow or syndicate ID; null for contract-wide events
+  invoiceIdHash: string | null;
+  args: Record<string, string>;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  consensusTimestamp: string;
+}
+
+type EscrowLifecycleEvent = DecodedEscrowLog & { escrowId: string };
+
+type Checkpoint = { blockNumber: number; blockHash: string; consensusTimestamp: string };
+
+export function loadEscrowIndexerConfig(): EscrowIndexerConfig {
+  return {
+    interval: parseInt(process.env['ESCROW_INDEXER_INTERVAL'] || '15000'), // 15 seconds default
+    enabled: process.env['ESCROW_INDEXER_ENABLED'] === 'true',
+    contractId: process.env['ESCROW_INDEXER_CONTRACT_ID'] || undefined,
+    pageSize: parseInt(process.env['ESCROW_INDEXER_PAGE_SIZE'] || '100'),
+    maxPages: parseInt(process.env['ESCROW_INDEXER_MAX_PAGES'] || '20'),
+    rewindBlocks: parseInt(process.env['ESCROW_INDEXER_REWIND_BLOCKS'] || '10'),
+  };
+}
+
+/**
+ * Decode a Mirror Node log into an escrow lifecycle or fee event. Amounts
+ * are decoded to HBAR.
+ * @returns null for logs of other events or logs that do not match the ABI
+ */
+export function decodeEscrowLog(log: ContractLog): DecodedEscrowLog | null {
+  let parsed: ethers.LogDescription | null;
+  try {
+    parsed = escrowPoolInterface.parseLog({ topics: log.topics, data: log.data });
+  } catch {
+    return null;
+  }
+  if (!parsed || !INDEXED_EVENTS.includes(parsed.name)) {
+    return null;
+  }
+
+  let escrowId: string | null = null;
+  let invoiceIdHash: string | null = null;
+  const args: Record<string, string> = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    const value = parsed!.args[i];
+    if (input.name === 'escrowId' || input.name === 'syndicateId') {
+      escrowId = value;
+    } else if (input.name === 'invoiceId') {
+      // Indexed strings only carry their hash
+      invoiceIdHash = value instanceof ethers.Indexed ? value.hash! : ethers.id(value);
+    } else {
+      args[input.name] = input.type === 'uint256' && !UNSCALED_ARGS.includes(input.name) ? ethers.formatEther(value) : String(value);
+    }
+  });
+
+  return {
+    eventName: parsed.name,
+    escrowId,
+    invoiceIdHash,
+    args,
+    blockNumber: log.block_number,
+    blockHash: log.block_hash,
+    logIndex: log.index,
+    transactionHash: log.transaction_hash,
+    consensusTimestamp: log.timestamp,
+  };
+}
+
+/**
+ * Consensus timestamp (seconds.nanoseconds) as a Date
+ */
+const toDate = (consensusTimestamp: string) => new Date(Math.floor(parseFloat(consensusTimestamp) * 1000));
+
+/**
+ * Indexes EscrowPool lifecycle and fee logs from the Mirror Node and
+ * reconciles escrow events into Funding, replacing per-invoice getEscrow
+ * polling. It is the only reader of the contract's logs: the platform fee
+ * indexer builds its rows from the stored fee events. Progress is kept in an
+ * IndexerCheckpoint together with the block hash of the last log, so a
+ * reorganised block is detected and re-indexed on the next sync; fee rows of
+ * dropped events are deleted with them.
+ */
+export class EscrowIndexerService {
+  private syncInterval: NodeJS.Timeout | null = null;
+  private isSyncing: boolean = false;
+  private config: EscrowIndexerConfig;
+
+  constructor(config: Partial<EscrowIndexerConfig> = {}) {
+    this.config = { ...loadEscrowIndexerConfig(), ...config };
+  }
+
+  /**
+   * Start indexing escrow events
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      logger.info('Escrow event indexer is disabled');
+      return;
+    }
+
+    if (this.syncInterval) {
+      logger.warn('Escrow event indexer is already running');
+      return;
+    }
+
+    logger.info({ interval: this.config.interval }, 'Starting escrow event indexer');
+
+    this.syncInterval = setInterval(async () => {
+      if (!this.isSyncing) {
+        await this.runOnce();
+      }
+    }, this.config.interval);
+  }
+
+  /**
+   * Stop indexing escrow events
+   */
+  stop(): void {
+    if (this.syncInterval) {
+      clearInterval(this.syncInterval);
+      this.syncInterval = null;
+      logger.info('Escrow event indexer stopped');
+    }
+  }
+
+  /**
+   * Index logs after the checkpoint. Reading resumes at the checkpoint
+   * timestamp itself because a transaction emits several logs with the same
+   * timestamp; logs already stored are skipped.
+   */
+  async runOnce(): Promise<EscrowIndexSummary> {
+    this.isSyncing = true;
+    const summary: EscrowIndexSummary = { fetched: 0, indexed: 0, reconciled: 0, skipped: 0, rewound: false, checkpoint: null };
+
+    try {
+      const contractId = this.config.contractId || contractService.getAddress();
+      let checkpoint: Checkpoint | null = await prisma.indexerCheckpoint.findUnique({ where: { id: CHECKPOINT_ID } });
+
+      if (checkpoint && !(await this.isCanonical(checkpoint))) {
+        checkpoint = await this.rewind(contractId, checkpoint);
+        summary.rewound = true;
+      }
+
+      let next: string | undefined;
+      for (let page = 0; page < this.config.maxPages; page++) {
+        const response = await mirrorNodeService.getContractLogs(contractId, next ? { next } : {
+          timestamp: checkpoint ? `gte:${checkpoint.consensusTimestamp}` : undefined,
+          limit: this.config.pageSize,
+        });
+
+        for (const log of response.logs) {
+          summary.fetched++;
+          await this.ingest(contractId, log, summary);
+        }
+
+        const last = response.logs[response.logs.length - 1];
+        if (last) {
+          checkpoint = await this.saveCheckpoint(last);
+        }
+
+        next = response.links.next || undefined;
+        if (!next) {
+          break;
+        }
+      }
+
+      summary.checkpoint = checkpoint && { blockNumber: checkpoint.blockNumber, consensusTimestamp: checkpoint.consensusTimestamp };
+
+      if (summary.indexed > 0 || summary.rewound) {
+        logger.info(summary, 'Escrow event sync completed');
+      }
+    } catch (error) {
+      logger.error({ error: error instanceof Error ? error.message : String(error), ...summary }, 'Escrow event sync failed');
+    } finally {
+      this.isSyncing = false;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Checkpoint and indexed event counts
+   */
+  async getStatus() {
+    const [checkpoint, events, unreconciled] = await Promise.all([
+      prisma.indexerCheckpoint.findUnique({ where: { id: CHECKPOINT_ID } }),
+      prisma.contractEvent.count(),
+      prisma.contractEvent.count({ where: { fundingId: null } }),
+    ]);
+
+    return { enabled: this.config.enabled, checkpoint, events, unreconciled };
+  }
+
+  /**
+   * Indexed events of one escrow, oldest first
+   */
+  async getEscrowEvents(escrowId: string) {
+    const events = await prisma.contractEvent.findMany({
+      where: { escrowId },
+      orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }],
+    });
+
+    return events.map(event => ({ ...event, args: JSON.parse(event.args) }));
+  }
+
+  /**
+   * Store and reconcile one log. A stored escrow log that never matched a
+   * funding is reconciled again, since the funding may have been recorded since.
+   */
+  private async ingest(contractId: string, log: ContractLog, summary: EscrowIndexSummary): Promise<void> {
+    const decoded = decodeEscrowLog(log);
+    if (!decoded) {
+      summary.skipped++;
+      return;
+    }
+
+    let event: { id: string; fundingId: string | null };
+    try {
+      event = await prisma.contractEvent.create({
+        data: {
+          contractId,
+          eventName: decoded.eventName,
+          escrowId: decoded.escrowId,
+          invoiceIdHash: decoded.invoiceIdHash,
+          args: JSON.stringify(decoded.args),
+          blockNumber: decoded.blockNumber,
+          blockHash: decoded.blockHash,
+          logIndex: decoded.logIndex,
+          transactionHash: decoded.transactionHash,
+          consensusTimestamp: decoded.consensusTimestamp,
+        },
+      });
+      summary.indexed++;
+    } catch (error: any) {
+      // Unique constraint on (transactionHash, logIndex): already indexed
+      if (error?.code !== 'P2002') {
+        throw error;
+      }
+      const existing = await prisma.contractEvent.findUnique({
+        where: { transactionHash_logIndex: { transactionHash: decoded.transactionHash, logIndex: decoded.logIndex } },
+        select: { id: true, fundingId: true },
+      });
+      if (!existing || existing.fundingId || !ESCROW_EVENTS.includes(decoded.eventName)) {
+        summary.skipped++;
+        return;
+      }
+      event = existing;
+    }
+
+    // Fee changes and syndicate or dispute payouts belong to no single funding
+    if (!ESCROW_EVENTS.includes(decoded.eventName) || !decoded.escrowId) {
+      return;
+    }
+
+    const fundingId = await this.reconcile({ ...decoded, escrowId: decoded.escrowId });
+    if (fundingId) {
+      await prisma.contractEvent.update({ where: { id: event.id }, data: { fundingId } });
+      summary.reconciled++;
+    }
+  }
+
+  /**
+   * Apply an escrow event to its funding. Updates only move a funding
+   * forward, so replaying events after a rewind is harmless.
+   * @returns the funding ID, or null when no funding matches the escrow
+   */
+  private async reconcile(event: EscrowLifecycleEvent): Promise<string | null> {
+    const funding = await this.findFunding(event);
+    if (!funding) {
+      logger.debug({ escrowId: event.escrowId, eventName: event.eventName }, 'No funding for escrow event');
+      return null;
+    }
+
+    const occurredAt = toDate(event.consensusTimestamp);
+    const data: Record<string, any> = {};
+
+    if (funding.escrowId !== event.escrowId) {
+      data.escrowId = event.escrowId;
+    }
+
+    switch (event.eventName) {
+      case 'EscrowFunded':
+        if (!funding.fundedAt) {
+          data.fundedAt = occurredAt;
+        }
+        break;
+      case 'EscrowReleased':
+        if (funding.status !== 'RELEASED') {
+          data.status = 'RELEASED';
+        }
+        if (!funding.releaseTransactionHash) {
+          data.releaseTransactionHash = event.transactionHash;
+        }
+        if (!funding.releasedAt) {
+          data.releasedAt = occurredAt;
+        }
+        break;
+      case 'EscrowRefunded':
+        if (funding.status !== 'REFUNDED') {
+          data.status = 'REFUNDED';
+        }
+        if (!funding.refundTransactionHash) {
+          data.refundTransactionHash = event.transactionHash;
+        }
+        if (!funding.refundedAt) {
+          data.refundedAt = occurredAt;
+        }
+        break;
+    }
+
+    if (Object.keys(data).length === 0) {
+      return funding.id;
+    }
+
+    const updated = await prisma.funding.update({ where: { id: funding.id }, data });
+
+    // The chain already moved the funds; the ledger and clients catch up best-effort
+    try {
+      if (event.eventName === 'EscrowFunded') {
+        await ledgerService.recordEscrowLock(updated, event.transactionHash, occurredAt);
+      } else if (event.eventName === 'EscrowReleased') {
+        await ledgerService.recordRelease(updated, event.transactionHash, occurredAt);
+      } else if (event.eventName === 'EscrowRefunded') {
+        await ledgerService.recordRefund(updated, event.transactionHash, occurredAt);
+      }
+    } catch (error) {
+      logger.error({ fundingId: funding.id, error: error instanceof Error ? error.message : String(error) }, 'Failed to post escrow event to ledger');
+    }
+
+    websocketService.broadcastMilestoneUpdate({
+      type: 'escrow_updated',
+      data: {
+        fundingId: updated.id,
+        escrowId: event.escrowId,
+        eventName: event.eventName,
+        status: updated.status,
+        transactionHash: event.transactionHash,
+      },
+      timestamp: new Date().toISOString(),
+      invoiceId: updated.invoiceId,
+    });
+
+    return funding.id;
+  }
+
+  /**
+   * Funding of an escrow by its on-chain ID. Fundings recorded before the
+   * escrow ID was known are matched on the hash of their invoice ID.
+   */
+  private async findFunding(event: EscrowLifecycleEvent) {
+    const funding = await prisma.funding.findFirst({
+      where: { OR: [{ escrowId: event.escrowId }, { contractId: event.escrowId }] },
+    });
+    if (funding) {
+      return funding;
+    }
+
+    const candidates = await prisma.funding.findMany({
+      where: { syndicateId: null, status: { in: ['ACTIVE', 'DISPUTED'] } },
+    });
+    return candidates.find(c => ethers.id(c.invoiceId) === event.invoiceIdHash) || null;
+  }
+
+  private async isCanonical(checkpoint: Checkpoint): Promise<boolean> {
+    const block = await mirrorNodeService.getBlock(checkpoint.blockNumber);
+    return !!block && block.hash.toLowerCase() === checkpoint.blockHash.toLowerCase();
+  }
+
+  /**
+   * Drop events from the last few blocks and move the checkpoint back to the
+   * newest event that is kept, so the next sync indexes them again
+   */
+  private async rewind(contractId: string, checkpoint: Checkpoint): Promise<Checkpoint | null> {
+    const fromBlock = Math.max(checkpoint.blockNumber - this.config.rewindBlocks, 0);
+
+    const { count } = await prisma.contractEvent.deleteMany({ where: { contractId, blockNumber: { gte: fromBlock } } });
+    const kept = await prisma.contractEvent.findFirst({
+      where: { contractId },
+      orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }],
+    });
+
+    logger.warn({ blockNumber: checkpoint.blockNumber, fromBlock, dropped: count }, 'Escrow indexer checkpoint block is no longer canonical, rewinding');
+
+    if (!kept) {
+      await prisma.indexerCheckpoint.delete({ where: { id: CHECKPOINT_ID } });
+      return null;
+    }
+
+    return prisma.indexerCheckpoint.update({
+      where: { id: CHECKPOINT_ID },
+      data: { blockNumber: kept.blockNumber, blockHash: kept.blockHash, consensusTimestamp: kept.consensusTimestamp },
+    });
+  }
+
+  private async saveCheckpoint(log: ContractLog): Promise<Checkpoint> {
+    const checkpoint = { blockNumber: log.block_number, blockHash: log.block_hash, consensusTimestamp: log.timestamp };
+
+    return prisma.indexerCheckpoint.upsert({
+      where: { id: CHECKPOINT_ID },
+      create: { id: CHECKPOINT_ID, ...checkpoint },
+      update: checkpoint,
+    });
+  }
+}
+
+export const escrowIndexerService = new EscrowIndexerService();
@@ -10,6 +10,7 @@ import {
   ContractCallQuery,
   ContractExecuteTransaction,
   ContractId,
+  ContractFunctionParameters,
 } from '@hashgraph/sdk';
 import { HederaService, HederaConfig } from './hedera';
 import { logger } from '../utils/logger';
@@ -250,6 +251,90 @@ export class EscrowService {
     }
   }
 
+  /**
+   * Freeze a funded escrow pending arbitration (investor or supplier)
+   */
+  async raiseDispute(invoiceId: string, reason: string, raiserAccountId: string): Promise<{
+    transactionId: string;
+    proofLinks: {
+      hashscan: string;
+      mirrorNode: string;
+    };
+  }> {
+    try {
+      logger.info({ invoiceId, raiserAccountId }, 'Raising escrow dispute');
+
+      const contractTx = new ContractExecuteTransaction()
+        .setContractId(this.contractId)
+        .setGas(200000)
+        .setFunction('raiseDispute', this.encodeRaiseDisputeParameters(invoiceId, reason));
+
+      const response = await contractTx.execute(this.client);
+      await response.getReceipt(this.client);
+      const transactionId = response.transactionId.toString();
+
+      const proofLinks = {
+        hashscan: `https://hashscan.io/testnet/transaction/${transactionId}`,
+        mirrorNode: `https://testnet.mirrornode.hedera.com/api/v1/transactions/${transactionId}`,
+      };
+
+      logger.info({ invoiceId, transactionId }, 'Escrow dispute raised');
+
+      return { transactionId, proofLinks };
+    } catch (error) {
+      logger.error({ error: error instanceof Error ? error.message : String(error), invoiceId }, 'Failed to raise escrow dispute');
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a disputed escrow with a split (arbiter or contract owner)
+   * @param investorShareBps Investor's share in basis points (10000 = full refund)
+   */
+  async resolveDispute(invoiceId: string, investorShareBps: number, resolverAccountId: string): Promise<{
+    transactionId: string;
+    investorAmount: number; // in tinybars
+    supplierAmount: number; // in tinybars, after the platform fee
+    fee: number;
+    proofLinks: {
+      hashscan: string;
+      mirrorNode: string;
+    };
+  }> {
+    if (!Number.isInteger(investorShareBps) || investorShareBps < 0 || investorShareBps > 10000) {
+      throw new Error('Investor share must be between 0 and 10000 basis points');
+    }
+
+    try {
+      logger.info({ invoiceId, investorShareBps, resolverAccountId }, 'Resolving escrow dispute');
+
+      const escrow = await this.getEscrowDetails(invoiceId);
+
+      const contractTx = new ContractExecuteTransaction()
+        .setContractId(this.contractId)
+        .setGas(300000)
+        .setFunction('resolveDispute', this.encodeResolveDisputeParameters(invoiceId, investorShareBps));
+
+      const response = await contractTx.execute(this.client);
+      await response.getReceipt(this.client);
+      const transactionId = response.transactionId.toString();
+
+      const split = this.calculateDisputeSplit(escrow?.amount ?? 0, investorShareBps);
+
+      const proofLinks = {
+        hashscan: `https://hashscan.io/testnet/transaction/${transactionId}`,
+        mirrorNode: `https://testnet.mirrornode.hedera.com/api/v1/transactions/${transactionId}`,
+      };
+
+      logger.info({ invoiceId, transactionId, ...split }, 'Escrow dispute resolved');
+
+      return { transactionId, ...split, proofLinks };
+    } catch (error) {
+      logger.error({ error: error instanceof Error ? error.message : String(error), invoiceId }, 'Failed to resolve escrow dispute');
+      throw error;
+    }
+  }
+
   /**
    * Get escrow details from smart contract
    */
@@ -336,6 +421,14 @@ export class EscrowService {
     return { invoiceId };
   }
 
+  private encodeRaiseDisputeParameters(invoiceId: string, reason: string): ContractFunctionParameters {
+    return new ContractFunctionParameters().addString(invoiceId).addString(reason);
+  }
+
+  private encodeResolveDisputeParameters(invoiceId: string, investorShareBps: number): ContractFunctionParameters {
+    return new ContractFunctionParameters().addString(invoiceId).addUint256(investorShareBps);
+  }
+
   private encodeGetEscrowParameters(invoiceId: string): any {
     return { invoiceId };
   }
@@ -387,6 +480,24 @@ export class EscrowService {
     return Math.floor((amount * this.platformFeeRate) / 10000);
   }
 
+  /**
+   * Split a disputed escrow the way the contract does: the investor's share
+   * is returned in full and the platform fee comes out of the supplier's share
+   */
+  calculateDisputeSplit(amount: number, investorShareBps: number): {
+    investorAmount: number;
+    supplierAmount: number;
+    fee: number;
+  } {
+    const investorAmount = Math.floor((amount * investorShareBps) / 10000);
+    const fee = this.calculatePlatformFee(amount - investorAmount);
+    return {
+      investorAmount,
+      supplierAmount: amount - investorAmount - fee,
+      fee,
+    };
+  }
+
   /**
    * Get net amount after fees
    */
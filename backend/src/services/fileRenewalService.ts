@@ -0,0 +1,324 @@
+import { PrismaClient } from '@prisma/client';
+import { hederaFileService } from './hederaFileService';
+import { DocumentStorageBackend } from './documentStoreService';
+import { logger } from '../utils/logger';
+import { Clock, systemClock } from '../utils/clock';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Define enums locally since they're not exported from Prisma client
+export enum DocumentStorageStatus {
+  ACTIVE = 'ACTIVE',
+  EXPIRING_SOON = 'EXPIRING_SOON', // reported only; stored documents stay ACTIVE
+  EXPIRED = 'EXPIRED', // the file is gone from HFS
+  RETIRED = 'RETIRED' // the retention period ended, so the file is left to expire
+}
+
+export interface FileRenewalConfig {
+  interval: number; // milliseconds between scans
+  enabled: boolean;
+  batchSize: number;
+  renewalWindowDays: number; // renew, and report as expiring soon, this many days before expiry
+  extensionDays: number; // days added to the expiration by each renewal
+  retentionDays: number; // days a document is kept after upload
+  maxFeeHbar: number; // most one renewal may cost
+  dailyBudgetHbar: number; // most all renewals may cost over 24 hours
+}
+
+export interface FileRenewalSummary {
+  scanned: number;
+  synced: number;
+  renewed: number;
+  retired: number;
+  expired: number;
+  deferred: number; // left for a later scan by the budget
+  failed: number;
+  spentHbar: number;
+}
+
+export interface DocumentStorage {
+  status: DocumentStorageStatus;
+  expiresAt: Date | null;
+  retainUntil: Date | null;
+  lastRenewedAt: Date | null;
+}
+
+export function loadFileRenewalConfig(): FileRenewalConfig {
+  return {
+    interval: parseInt(process.env['FILE_RENEWAL_INTERVAL'] || '21600000'), // 6 hours default
+    enabled: process.env['FILE_RENEWAL_ENABLED'] === 'true',
+    batchSize: parseInt(process.env['FILE_RENEWAL_BATCH_SIZE'] || '50'),
+    renewalWindowDays: parseInt(process.env['FILE_RENEWAL_WINDOW_DAYS'] || '14'),
+    extensionDays: parseInt(process.env['FILE_RENEWAL_EXTENSION_DAYS'] || '90'),
+    retentionDays: parseInt(process.env['DOCUMENT_RETENTION_DAYS'] || '2555'), // 7 years
+    maxFeeHbar: parseFloat(process.env['FILE_RENEWAL_MAX_FEE_HBAR'] || '5'),
+    dailyBudgetHbar: parseFloat(process.env['FILE_RENEWAL_DAILY_BUDGET_HBAR'] || '100'),
+  };
+}
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+/**
+ * Keeps document files on HFS until their retention period ends. Files are
+ * renewed shortly before they expire, within an HBAR budget per day; once
+ * retention ends the document is retired and its file left to expire.
+ */
+export class FileRenewalService {
+  private scanInterval: NodeJS.Timeout | null = null;
+  private isScanning: boolean = false;
+  private config: FileRenewalConfig;
+  private clock: Clock;
+
+  constructor(config: Partial<FileRenewalConfig> = {}, clock: Clock = systemClock) {
+    this.config = { ...loadFileRenewalConfig(), ...config };
+    this.clock = clock;
+  }
+
+  /**
+   * Start renewing expiring files
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      logger.info('File renewal is disabled');
+      return;
+    }
+
+    if (this.scanInterval) {
+      logger.warn('File renewal is already running');
+      return;
+    }
+
+    logger.info({
+      interval: this.config.interval,
+      renewalWindowDays: this.config.renewalWindowDays,
+      dailyBudgetHbar: this.config.dailyBudgetHbar,
+    }, 'Starting file renewal');
+
+    this.scanInterval = setInterval(async () => {
+      if (!this.isScanning) {
+        await this.runOnce();
+      }
+    }, this.config.interval);
+  }
+
+  /**
+   * Stop renewing expiring files
+   */
+  stop(): void {
+    if (this.scanInterval) {
+      clearInterval(this.scanInterval);
+      this.scanInterval = null;
+      logger.info('File renewal stopped');
+    }
+  }
+
+  /**
+   * End of the retention period for a document uploaded at the given time
+   */
+  retentionEnd(uploadedAt: Date): Date {
+    return addDays(uploadedAt, this.config.retentionDays);
+  }
+
+  /**
+   * Storage state of a document as reported by the document APIs
+   */
+  storageOf(
+    document: { storageStatus: string; expiresAt: Date | null; retainUntil: Date | null; lastRenewedAt: Date | null },
+    now: Date = this.clock.now()
+  ): DocumentStorage {
+    let status = document.storageStatus as DocumentStorageStatus;
+    if (status === DocumentStorageStatus.ACTIVE && document.expiresAt) {
+      if (document.expiresAt <= now) {
+        status = DocumentStorageStatus.EXPIRED;
+      } else if (document.expiresAt <= addDays(now, this.config.renewalWindowDays)) {
+        status = DocumentStorageStatus.EXPIRING_SOON;
+      }
+    }
+
+    return {
+      status,
+      expiresAt: document.expiresAt,
+      retainUntil: document.retainUntil,
+      lastRenewedAt: document.lastRenewedAt,
+    };
+  }
+
+  /**
+   * Document filter matching a reported storage status
+   */
+  whereStorageStatus(status: DocumentStorageStatus, now: Date = this.clock.now()) {
+    const windowEnd = addDays(now, this.config.renewalWindowDays);
+    switch (status) {
+      case DocumentStorageStatus.ACTIVE:
+        return { storageStatus: status, OR: [{ expiresAt: null }, { expiresAt: { gt: windowEnd } }] };
+      case DocumentStorageStatus.EXPIRING_SOON:
+        return { storageStatus: DocumentStorageStatus.ACTIVE, expiresAt: { gt: now, lte: windowEnd } };
+      case DocumentStorageStatus.EXPIRED:
+        return { OR: [{ storageStatus: status }, { storageStatus: DocumentStorageStatus.ACTIVE, expiresAt: { lte: now } }] };
+      default:
+        return { storageStatus: status };
+    }
+  }
+
+  /**
+   * Retire documents past retention, then renew files expiring within the
+   * renewal window, oldest expiry first, until the daily budget runs out.
+   * @returns Counts of the documents handled in this scan
+   */
+  async runOnce(): Promise<FileRenewalSummary> {
+    this.isScanning = true;
+    const summary: FileRenewalSummary = { scanned: 0, synced: 0, renewed: 0, retired: 0, expired: 0, deferred: 0, failed: 0, spentHbar: 0 };
+
+    try {
+      const now = this.clock.now();
+
+      const retired = await prisma.document.updateMany({
+        where: { storageStatus: DocumentStorageStatus.ACTIVE, retainUntil: { lte: now } },
+        data: { storageStatus: DocumentStorageStatus.RETIRED },
+      });
+      summary.retired = retired.count;
+
+      // Off-chain backends keep documents without renewals
+      const documents = await prisma.document.findMany({
+        where: {
+          storageStatus: DocumentStorageStatus.ACTIVE,
+          storageBackend: DocumentStorageBackend.HFS,
+          OR: [
+            { expiresAt: null },
+            { retainUntil: null },
+            { expiresAt: { lte: addDays(now, this.config.renewalWindowDays) } },
+          ],
+        },
+        orderBy: { expiresAt: 'asc' },
+        take: this.config.batchSize,
+      });
+
+      const spent = await prisma.fileRenewal.aggregate({
+        where: { createdAt: { gt: new Date(now.getTime() - DAY_MS) } },
+        _sum: { feeHbar: true },
+      });
+      let spentToday = spent._sum.feeHbar ?? 0;
+
+      for (const document of documents) {
+        summary.scanned++;
+        try {
+          const tracked = await this.track(document, now, summary);
+          if (!tracked) {
+            continue;
+          }
+
+          if (spentToday + this.config.maxFeeHbar > this.config.dailyBudgetHbar) {
+            summary.deferred++;
+            continue;
+          }
+
+          const feeHbar = await this.renew(tracked, now, summary);
+          spentToday += feeHbar;
+          summary.spentHbar += feeHbar;
+        } catch (error) {
+          summary.failed++;
+          logger.error({ documentId: document.id, fileId: document.fileId, error: error instanceof Error ? error.message : String(error) }, 'Failed to renew document file');
+        }
+      }
+
+      if (summary.scanned > 0 || summary.retired > 0) {
+        logger.info(summary, 'File renewal scan completed');
+      }
+      if (summary.deferred > 0) {
+        logger.warn({ deferred: summary.deferred, spentToday, dailyBudgetHbar: this.config.dailyBudgetHbar }, 'File renewal budget exhausted; renewals deferred');
+      }
+    } catch (error) {
+      logger.error({ error: error instanceof Error ? error.message : String(error) }, 'File renewal scan failed');
+    } finally {
+      this.isScanning = false;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Fill in a document's expiration and retention, and mark it expired if its
+   * file is gone
+   * @returns The document if its file needs renewing now
+   */
+  private async track(document: any, now: Date, summary: FileRenewalSummary) {
+    let { expiresAt, retainUntil } = document;
+
+    if (!expiresAt || expiresAt <= now) {
+      const fileInfo = await hederaFileService.getFileInfo(document.fileId);
+      if (!fileInfo || fileInfo.deleted || fileInfo.expirationTime <= now) {
+        await prisma.document.update({
+          where: { id: document.id },
+          data: { storageStatus: DocumentStorageStatus.EXPIRED, ...(fileInfo && { expiresAt: fileInfo.expirationTime }) },
+        });
+        summary.expired++;
+        logger.warn({ documentId: document.id, fileId: document.fileId }, 'Document file expired on HFS');
+        return null;
+      }
+      expiresAt = fileInfo.expirationTime;
+    }
+
+    if (expiresAt !== document.expiresAt || !retainUntil) {
+      retainUntil = retainUntil ?? this.retentionEnd(document.createdAt);
+      await prisma.document.update({ where: { id: document.id }, data: { expiresAt, retainUntil } });
+      summary.synced++;
+    }
+
+    if (retainUntil <= now) {
+      await prisma.document.update({ where: { id: document.id }, data: { storageStatus: DocumentStorageStatus.RETIRED } });
+      summary.retired++;
+      return null;
+    }
+
+    // Nothing to renew until the window, or past the end of retention
+    const renewBy = addDays(now, this.config.renewalWindowDays);
+    if (expiresAt > renewBy || expiresAt >= retainUntil) {
+      return null;
+    }
+
+    return { ...document, expiresAt, retainUntil };
+  }
+
+  /**
+   * Extend a file's expiration, never past the end of its retention
+   * @returns HBAR charged
+   */
+  private async renew(document: any, now: Date, summary: FileRenewalSummary): Promise<number> {
+    const base = document.expiresAt > now ? document.expiresAt : now;
+    const extended = addDays(base, this.config.extensionDays);
+    const expiresAt = extended < document.retainUntil ? extended : document.retainUntil;
+
+    const result = await hederaFileService.extendExpiration(document.fileId, expiresAt, this.config.maxFeeHbar);
+    if (!result.success) {
+      throw new Error(result.error || 'File renewal failed');
+    }
+
+    // A fee missing from the record is charged at the most it could have been
+    const feeHbar = result.feeHbar ?? this.config.maxFeeHbar;
+    await prisma.$transaction(async (tx) => {
+      await tx.fileRenewal.create({
+        data: {
+          documentId: document.id,
+          fileId: document.fileId,
+          previousExpiresAt: document.expiresAt,
+          expiresAt,
+          feeHbar,
+          transactionId: result.transactionId!,
+          createdAt: now,
+        },
+      });
+      await tx.document.update({
+        where: { id: document.id },
+        data: { expiresAt, lastRenewedAt: now },
+      });
+    });
+
+    summary.renewed++;
+    logger.info({ documentId: document.id, fileId: document.fileId, expiresAt, feeHbar }, 'Document file renewed');
+    return feeHbar;
+  }
+}
+
+export const fileRenewalService = new FileRenewalService();
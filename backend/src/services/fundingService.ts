@@ -1,7 +1,15 @@
 import { PrismaClient } from '@prisma/client';
-import { contractService } from './contract';
+import { contractService, EscrowData } from './contract';
 import { HederaService } from './hedera';
 import { invoiceService, InvoiceStatus, InvoiceEventType } from './invoices';
+import { pricingService, maxPrincipal, remainingFaceValue, DEFAULT_DISCOUNT_RATE } from './pricingService';
+import { ledgerService, LedgerFunding } from './ledgerService';
+import { outboxService, OutboxAction, OutboxStatus } from './outboxService';
+import { duplicateDetectionService } from './duplicateDetectionService';
+import { fxService, FxSnapshotPurpose, SETTLEMENT_CURRENCY } from './fxService';
+import { documentEncryptionService, DocumentKeyRole } from './documentEncryptionService';
+import { ConflictError } from '../middleware/errorHandler';
+import { config } from '../config/index';
 import { logger } from '../utils/logger';
 import { z } from 'zod';
 
@@ -27,10 +35,11 @@ export type CreateFundingData = z.infer<typeof CreateFundingSchema>;
 
 export interface FundingResult {
   funding: any;
-  escrowId: string;
-  transactionHash: string;
+  escrowId: string | undefined; // undefined while the escrow deposit is queued
+  transactionHash: string | undefined;
   hcsMessageId?: string | undefined;
-  proofLinks: {
+  outbox?: any[];
+  proofLinks?: {
     transaction: string;
     contract: string;
     mirrorNode?: string;
@@ -45,6 +54,7 @@ export interface WalletFundingData {
   nftSerialNumber?: number;
   walletAccountId: string; // The connected wallet account
   signedTransactionBytes?: string; // For wallet-signed transactions
+  transactionId?: string; // ID of the prepared transaction the wallet signed
 }
 
 export const WalletFundingSchema = z.object({
@@ -55,155 +65,43 @@ export const WalletFundingSchema = z.object({
   nftSerialNumber: z.number().int().positive().optional().default(1),
   walletAccountId: z.string().min(1),
   signedTransactionBytes: z.string().optional(),
+  transactionId: z.string().optional(),
+}).refine(data => !data.signedTransactionBytes || data.transactionId, {
+  message: 'Transaction ID of the prepared transaction is required with signed transaction bytes',
+  path: ['transactionId'],
 });
 
 export type WalletFundingDataType = z.infer<typeof WalletFundingSchema>;
 
 export class FundingService {
   /**
-   * Create funding using smart contract escrow with wallet integration
+   * Create funding using smart contract escrow with wallet integration.
+   * Queued like createFunding; a wallet-signed deposit is submitted as the
+   * wallet signed it instead of being made from the platform account.
    */
   async createFundingWithWallet(data: WalletFundingDataType): Promise<FundingResult> {
     try {
-      logger.info('Creating funding with wallet integration', data);
+      logger.info({ invoiceId: data.invoiceId, investorId: data.investorId, walletAccountId: data.walletAccountId }, 'Creating funding with wallet integration');
       
-      // Get invoice details
-      const invoice = await invoiceService.getInvoiceById(data.invoiceId);
-      if (!invoice) {
-        throw new Error('Invoice not found');
-      }
-      
-      if (invoice.status !== InvoiceStatus.ISSUED) {
-        throw new Error('Invoice must be in ISSUED status to be funded');
-      }
-      
-      // Validate funding amount
-      if (data.amount <= 0 || data.amount > invoice.amount) {
-        throw new Error('Invalid funding amount');
-      }
-      
-      // Check if invoice is already fully funded
-      const existingFundings = await prisma.funding.findMany({
-        where: { invoiceId: data.invoiceId }
-      });
-      
-      const totalFunded = existingFundings.reduce((sum: number, f: any) => sum + f.amount, 0);
-      if (totalFunded + data.amount > invoice.amount) {
-        throw new Error('Funding amount exceeds invoice amount');
-      }
-      
-      let escrowResult;
-      
-      if (data.signedTransactionBytes) {
-        // Submit pre-signed transaction from wallet
-        escrowResult = await hederaService.submitSignedTransaction(data.signedTransactionBytes);
-      } else {
-        // Create escrow on smart contract (fallback to service account)
-        escrowResult = await contractService.createEscrow({
-          invoiceId: data.invoiceId,
-          supplierAddress: data.supplierAccountId,
-          amount: data.amount.toString(),
-          nftSerialNumber: data.nftSerialNumber || 1,
-        });
-      }
-      
-      // Create funding record in database
-      const funding = await prisma.funding.create({
-        data: {
-          invoiceId: data.invoiceId,
-          investorId: data.investorId,
-          amount: data.amount,
-          escrowId: escrowResult.escrowId || escrowResult.transactionId,
-          transactionHash: escrowResult.transactionHash || escrowResult.transactionId,
-          status: 'ACTIVE',
-          walletAccountId: data.walletAccountId,
-        },
-        include: {
-          invoice: true,
-          investor: {
-            select: { id: true, name: true, email: true, accountId: true }
-          }
-        }
+      const result = await this.queueFunding(data, {
+        walletAccountId: data.walletAccountId,
+        signedTransactionBytes: data.signedTransactionBytes,
+        transactionId: data.transactionId,
       });
-      
-      // Update invoice status if fully funded
-      const newTotalFunded = totalFunded + data.amount;
-      if (newTotalFunded >= invoice.amount) {
-        await invoiceService.updateInvoiceStatus(
-          data.invoiceId,
-          InvoiceStatus.FUNDED,
-          `Invoice fully funded via escrow. Escrow ID: ${escrowResult.escrowId || escrowResult.transactionId}`,
-          undefined,
-          escrowResult.transactionHash || escrowResult.transactionId
-        );
-      }
-      
-      // Log funding event to HCS if topic exists
-      let hcsMessageId: string | undefined;
-      if (invoice.topicId) {
-        try {
-          const hcsResult = await hederaService.submitTopicMessage(
-            invoice.topicId,
-            {
-              eventType: 'FUNDING_CREATED',
-              invoiceId: data.invoiceId,
-              escrowId: escrowResult.escrowId || escrowResult.transactionId,
-              amount: data.amount,
-              investorId: data.investorId,
-              walletAccountId: data.walletAccountId,
-              transactionHash: escrowResult.transactionHash || escrowResult.transactionId,
-              timestamp: new Date().toISOString(),
-            }
-          );
-          hcsMessageId = hcsResult.sequenceNumber;
-        } catch (error) {
-          logger.warn('Failed to log funding to HCS', { error: error instanceof Error ? error.message : String(error) });
-        }
-      }
-      
-      // Add invoice event
-      await invoiceService.addInvoiceEvent(
-        data.invoiceId,
-        InvoiceEventType.FUNDING_REQUESTED,
-        `Funding created via wallet. Amount: ${data.amount} HBAR, Escrow ID: ${escrowResult.escrowId || escrowResult.transactionId}`,
-        {
-          escrowId: escrowResult.escrowId || escrowResult.transactionId,
-          amount: data.amount,
-          investorId: data.investorId,
-          supplierAccountId: data.supplierAccountId,
-          nftSerialNumber: data.nftSerialNumber || 1,
-          walletAccountId: data.walletAccountId,
-        },
-        hcsMessageId,
-        new Date(),
-        escrowResult.transactionHash || escrowResult.transactionId
-      );
-      
-      const transactionHash = escrowResult.transactionHash || escrowResult.transactionId;
-      
-      logger.info('Funding created successfully with wallet', {
-        fundingId: funding.id,
-        escrowId: escrowResult.escrowId || escrowResult.transactionId,
-        transactionHash,
-      });
-      
-      return {
-        funding,
-        escrowId: escrowResult.escrowId || escrowResult.transactionId,
-        transactionHash,
-        hcsMessageId,
-        proofLinks: {
-          transaction: `https://hashscan.io/testnet/transaction/${transactionHash}`,
+      if (result.transactionHash) {
+        result.proofLinks = {
+          transaction: `https://hashscan.io/testnet/transaction/${result.transactionHash}`,
           contract: `https://hashscan.io/testnet/contract/${config.hedera.escrowContractAddress}`,
-          mirrorNode: `https://testnet.mirrornode.hedera.com/api/v1/transactions/${transactionHash}`,
-        },
-      };
+          mirrorNode: `https://testnet.mirrornode.hedera.com/api/v1/transactions/${result.transactionHash}`,
+        };
+      }
+      return result;
     } catch (error) {
-      logger.error('Failed to create funding with wallet', { error: error instanceof Error ? error.message : String(error), data });
+      logger.error({ invoiceId: data.invoiceId, walletAccountId: data.walletAccountId, error: error instanceof Error ? error.message : String(error) }, 'Failed to create funding with wallet');
       throw error;
     }
   }
-
+  
   /**
    * Prepare funding transaction for wallet signing
    */
@@ -221,11 +119,16 @@ export class FundingService {
         throw new Error('Invoice not found');
       }
       
+      // Refuse duplicates and invoices financed elsewhere on the platform
+      await duplicateDetectionService.assertFundable(data.invoiceId);
+      
+      const conversion = await fxService.convert(data.amount, invoice.currency, SETTLEMENT_CURRENCY);
+      
       // Prepare the escrow deposit transaction
       const preparedTx = await contractService.prepareEscrowTransaction({
         invoiceId: data.invoiceId,
         supplierAddress: data.supplierAccountId,
-        amount: data.amount.toString(),
+        amount: conversion.converted.toString(),
         nftSerialNumber: data.nftSerialNumber || 1,
         payerAccountId: data.walletAccountId,
       });
@@ -233,7 +136,9 @@ export class FundingService {
       return {
         transactionBytes: preparedTx.transactionBytes,
         transactionId: preparedTx.transactionId,
-        description: `Fund invoice ${invoice.invoiceNumber} with ${data.amount} HBAR`,
+        description: invoice.currency === SETTLEMENT_CURRENCY
+          ? `Fund invoice ${invoice.invoiceNumber} with ${data.amount} HBAR`
+          : `Fund invoice ${invoice.invoiceNumber} with ${conversion.converted} HBAR (${data.amount} ${invoice.currency})`,
       };
     } catch (error) {
       logger.error('Failed to prepare funding transaction', { error: error instanceof Error ? error.message : String(error), data });
@@ -242,130 +147,327 @@ export class FundingService {
   }
 
   /**
-   * Create funding using smart contract escrow
+   * Create funding using smart contract escrow.
+   * The funding is stored as PENDING together with an outbox message for the
+   * escrow deposit, which is executed right away. When the deposit fails the
+   * funding stays PENDING and the outbox worker retries it.
    */
   async createFunding(data: CreateFundingData): Promise<FundingResult> {
     try {
-      logger.info('Creating funding with escrow', data);
-      
-      // Get invoice details
-      const invoice = await invoiceService.getInvoiceById(data.invoiceId);
-      if (!invoice) {
-        throw new Error('Invoice not found');
-      }
-      
-      if (invoice.status !== InvoiceStatus.ISSUED) {
-        throw new Error('Invoice must be in ISSUED status to be funded');
-      }
-      
-      // Validate funding amount
-      if (data.amount <= 0 || data.amount > invoice.amount) {
-        throw new Error('Invalid funding amount');
-      }
+      logger.info({ invoiceId: data.invoiceId, investorId: data.investorId }, 'Creating funding with escrow');
       
-      // Check if invoice is already fully funded
-      const existingFundings = await prisma.funding.findMany({
-        where: { invoiceId: data.invoiceId }
+      return await this.queueFunding(data);
+    } catch (error) {
+      logger.error({ invoiceId: data.invoiceId, error: error instanceof Error ? error.message : String(error) }, 'Failed to create funding');
+      throw error;
+    }
+  }
+  
+  /**
+   * Store the funding as PENDING with its ESCROW_DEPOSIT message and dispatch
+   * it. Wallet fundings carry the connected wallet and, when the wallet
+   * signed the deposit itself, the signed transaction.
+   */
+  private async queueFunding(
+    data: CreateFundingData,
+    wallet?: { walletAccountId: string; signedTransactionBytes?: string | undefined; transactionId?: string | undefined }
+  ): Promise<FundingResult> {
+    // Get invoice details
+    const invoice = await invoiceService.getInvoiceById(data.invoiceId);
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+    
+    // Refuse duplicates and invoices financed elsewhere on the platform
+    await duplicateDetectionService.assertFundable(data.invoiceId);
+    
+    if (invoice.status !== InvoiceStatus.ISSUED) {
+      throw new Error('Invoice must be in ISSUED status to be funded');
+    }
+    
+    // Validate funding amount
+    if (data.amount <= 0 || data.amount > invoice.amount) {
+      throw new Error('Invalid funding amount');
+    }
+    
+    // Check if invoice is already fully funded, counting deposits still in flight
+    const existingFundings = await prisma.funding.findMany({
+      where: { invoiceId: data.invoiceId, status: { not: 'CANCELLED' } }
+    });
+    
+    const reservation = await pricingService.findMarketplaceReservation(data.invoiceId, data.investorId);
+    const discountRate = reservation?.discountRate ?? DEFAULT_DISCOUNT_RATE;
+    
+    // Fundings buy invoice face value at a discount; the principal is capped at what is left
+    const now = new Date();
+    const fundable = maxPrincipal(remainingFaceValue(invoice.amount, existingFundings), discountRate, now, invoice.dueDate);
+    if (data.amount > fundable) {
+      throw new Error('Funding amount exceeds invoice amount');
+    }
+    
+    const conversion = await fxService.convert(data.amount, invoice.currency, SETTLEMENT_CURRENCY);
+    
+    // Record the funding, the rate it was booked at and its escrow deposit atomically
+    const pending = await prisma.$transaction(async (tx) => {
+      const funding = await tx.funding.create({
+        data: {
+          invoiceId: data.invoiceId,
+          investorId: data.investorId,
+          amount: data.amount,
+          currency: invoice.currency,
+          hbarAmount: conversion.converted,
+          status: 'PENDING',
+          interestRate: discountRate,
+          // Fixes the face value this funding buys, however long the deposit takes
+          expectedReturn: pricingService.expectedReturnFor(data.amount, discountRate, now, invoice.dueDate),
+        }
       });
       
-      const totalFunded = existingFundings.reduce((sum: number, f: any) => sum + f.amount, 0);
-      if (totalFunded + data.amount > invoice.amount) {
-        throw new Error('Funding amount exceeds invoice amount');
+      await fxService.recordSnapshot(funding.id, FxSnapshotPurpose.FUNDING, conversion, tx);
+      
+      if (reservation) {
+        await tx.marketplaceListing.update({
+          where: { id: reservation.listingId },
+          data: { status: 'FUNDED', fundingId: funding.id, closedAt: new Date() }
+        });
       }
       
-      // Create escrow on smart contract
-      const escrowResult = await contractService.createEscrow({
+      await outboxService.enqueue(tx, {
+        action: OutboxAction.ESCROW_DEPOSIT,
+        aggregateType: 'Funding',
+        aggregateId: funding.id,
         invoiceId: data.invoiceId,
-        supplierAddress: data.supplierAccountId,
-        amount: data.amount.toString(),
-        nftSerialNumber: data.nftSerialNumber,
+        idempotencyKey: `escrow-deposit:${funding.id}`,
+        payload: {
+          fundingId: funding.id,
+          supplierAddress: data.supplierAccountId,
+          amount: conversion.converted.toString(),
+          nftSerialNumber: data.nftSerialNumber,
+          walletAccountId: wallet?.walletAccountId,
+          signedTransactionBytes: wallet?.signedTransactionBytes,
+          transactionId: wallet?.transactionId,
+        },
       });
       
-      // Create funding record in database
-      const funding = await prisma.funding.create({
+      return funding;
+    });
+    
+    const outbox = await outboxService.dispatchAggregate(pending.id);
+    const deposit = outbox.find(m => m.action === OutboxAction.ESCROW_DEPOSIT);
+    
+    const funding = await prisma.funding.findUnique({
+      where: { id: pending.id },
+      include: {
+        invoice: true,
+        investor: {
+          select: { id: true, name: true, email: true, accountId: true }
+        }
+      }
+    });
+    
+    if (deposit?.status !== OutboxStatus.COMPLETED) {
+      logger.warn({ fundingId: pending.id, error: deposit?.lastError }, 'Escrow deposit queued for retry');
+      return { funding, escrowId: undefined, transactionHash: undefined, outbox };
+    }
+    
+    const hcsMessage = outbox.find(m => m.action === OutboxAction.HCS_MESSAGE);
+    
+    logger.info({
+      fundingId: pending.id,
+      escrowId: funding?.escrowId,
+      transactionHash: funding?.transactionHash,
+    }, 'Funding created successfully');
+    
+    return {
+      funding,
+      escrowId: funding?.escrowId || undefined,
+      transactionHash: funding?.transactionHash || undefined,
+      hcsMessageId: hcsMessage?.status === OutboxStatus.COMPLETED ? hcsMessage.result.sequenceNumber : undefined,
+      outbox,
+    };
+  }
+  
+  /**
+   * Outbox handler for ESCROW_DEPOSIT: deposit the funding into EscrowPool and
+   * activate it. The deposit's escrow ID and hash are recorded on the message,
+   * so a retry after a failed database update adopts that escrow instead of
+   * depositing again. A wallet-signed deposit is submitted as signed.
+   */
+  async executeEscrowDeposit(
+    payload: {
+      fundingId: string;
+      supplierAddress: string;
+      amount: string;
+      nftSerialNumber: number;
+      walletAccountId?: string;
+      signedTransactionBytes?: string;
+      transactionId?: string;
+    },
+    message?: { id: string; result?: string | null }
+  ) {
+    const funding = await prisma.funding.findUnique({
+      where: { id: payload.fundingId },
+      include: { invoice: true }
+    });
+    
+    if (!funding) {
+      throw new Error(`Funding ${payload.fundingId} not found`);
+    }
+    
+    if (funding.status !== 'PENDING') {
+      return { escrowId: funding.escrowId, transactionHash: funding.transactionHash, alreadyApplied: true };
+    }
+    
+    const existing = await contractService.getEscrowByInvoice(funding.invoiceId);
+    let escrowResult: { escrowId: string; transactionHash: string | undefined };
+    if (existing) {
+      escrowResult = await this.adoptEscrow(funding, existing, payload.amount, message);
+    } else {
+      if (payload.signedTransactionBytes) {
+        if (!payload.transactionId) {
+          throw new Error(`Wallet-signed deposit for funding ${funding.id} has no prepared transaction ID`);
+        }
+        const submitted = await hederaService.submitSignedTransaction(payload.signedTransactionBytes, payload.transactionId);
+        escrowResult = { escrowId: submitted.transactionId, transactionHash: submitted.transactionId };
+      } else {
+        const deposit = await contractService.createEscrow({
+          invoiceId: funding.invoiceId,
+          supplierAddress: payload.supplierAddress,
+          amount: payload.amount,
+          nftSerialNumber: payload.nftSerialNumber,
+        });
+        escrowResult = { escrowId: deposit.escrowId, transactionHash: deposit.transactionHash };
+      }
+      if (message) {
+        await outboxService.recordProgress(message.id, escrowResult);
+      }
+    }
+    
+    const fundedAt = new Date();
+    const active = await prisma.$transaction(async (tx) => {
+      const active = await tx.funding.update({
+        where: { id: funding.id },
         data: {
-          invoiceId: data.invoiceId,
-          investorId: data.investorId,
-          amount: data.amount,
+          status: 'ACTIVE',
           escrowId: escrowResult.escrowId,
           transactionHash: escrowResult.transactionHash,
-          status: 'ACTIVE',
-        },
-        include: {
-          invoice: true,
-          investor: {
-            select: { id: true, name: true, email: true, accountId: true }
-          }
+          expectedReturn: funding.expectedReturn ?? pricingService.expectedReturnFor(funding.amount, funding.interestRate, fundedAt, funding.invoice.dueDate),
+          fundedAt,
         }
       });
       
       // Update invoice status if fully funded
-      const newTotalFunded = totalFunded + data.amount;
-      if (newTotalFunded >= invoice.amount) {
+      const deposited = await tx.funding.findMany({
+        where: { invoiceId: funding.invoiceId, status: { notIn: ['PENDING', 'CANCELLED'] } }
+      });
+      if (remainingFaceValue(funding.invoice.amount, deposited) === 0) {
         await invoiceService.updateInvoiceStatus(
-          data.invoiceId,
+          funding.invoiceId,
           InvoiceStatus.FUNDED,
           `Invoice fully funded via escrow. Escrow ID: ${escrowResult.escrowId}`,
           undefined,
-          escrowResult.transactionHash
+          escrowResult.transactionHash,
+          tx
         );
       }
       
-      // Log funding event to HCS if topic exists
-      let hcsMessageId: string | undefined;
-      if (invoice.topicId) {
-        try {
-          const hcsResult = await hederaService.submitTopicMessage(
-            invoice.topicId,
-            {
-              eventType: 'FUNDING_CREATED',
-              invoiceId: data.invoiceId,
-              escrowId: escrowResult.escrowId,
-              amount: data.amount,
-              investorId: data.investorId,
-              transactionHash: escrowResult.transactionHash,
-              timestamp: new Date().toISOString(),
-            }
-          );
-          hcsMessageId = hcsResult.sequenceNumber;
-        } catch (error) {
-          logger.warn('Failed to log funding to HCS', { error: error instanceof Error ? error.message : String(error) });
-        }
-      }
-      
       // Add invoice event
-      await invoiceService.addInvoiceEvent(
-        data.invoiceId,
+      const event = await invoiceService.addInvoiceEvent(
+        funding.invoiceId,
         InvoiceEventType.FUNDING_REQUESTED,
-        `Funding created via escrow. Amount: ${data.amount} HBAR, Escrow ID: ${escrowResult.escrowId}`,
+        `Funding created via escrow. Amount: ${funding.amount} ${funding.currency}, Escrow ID: ${escrowResult.escrowId}`,
         {
           escrowId: escrowResult.escrowId,
-          amount: data.amount,
-          investorId: data.investorId,
-          supplierAccountId: data.supplierAccountId,
-          nftSerialNumber: data.nftSerialNumber,
+          amount: funding.amount,
+          currency: funding.currency,
+          hbarAmount: funding.hbarAmount,
+          investorId: funding.investorId,
+          supplierAccountId: payload.supplierAddress,
+          nftSerialNumber: payload.nftSerialNumber,
+          walletAccountId: payload.walletAccountId,
         },
-        hcsMessageId,
+        undefined,
         new Date(),
-        escrowResult.transactionHash
+        escrowResult.transactionHash,
+        tx
       );
       
-      logger.info('Funding created successfully', {
-        fundingId: funding.id,
-        escrowId: escrowResult.escrowId,
-        transactionHash: escrowResult.transactionHash,
-      });
+      // Log funding event to HCS if topic exists
+      if (funding.invoice.topicId) {
+        await outboxService.enqueue(tx, {
+          action: OutboxAction.HCS_MESSAGE,
+          aggregateType: 'Funding',
+          aggregateId: funding.id,
+          invoiceId: funding.invoiceId,
+          idempotencyKey: `hcs:funding-created:${funding.id}`,
+          payload: {
+            topicId: funding.invoice.topicId,
+            message: {
+              eventType: 'FUNDING_CREATED',
+              invoiceId: funding.invoiceId,
+              escrowId: escrowResult.escrowId,
+              amount: funding.amount,
+              currency: funding.currency,
+              hbarAmount: funding.hbarAmount,
+              investorId: funding.investorId,
+              walletAccountId: payload.walletAccountId,
+              transactionHash: escrowResult.transactionHash,
+              timestamp: new Date().toISOString(),
+            },
+            invoiceEventId: event.id,
+          },
+        });
+      }
       
-      return {
-        funding,
-        escrowId: escrowResult.escrowId,
-        transactionHash: escrowResult.transactionHash,
-        hcsMessageId,
-      };
-    } catch (error) {
-      logger.error('Failed to create funding', { error: error instanceof Error ? error.message : String(error), data });
-      throw error;
+      return active;
+    });
+    
+    await this.postFundingToLedger(active, escrowResult.transactionHash);
+    await this.grantDocumentAccess(active);
+    
+    return { escrowId: escrowResult.escrowId, transactionHash: escrowResult.transactionHash, adopted: !!existing };
+  }
+  
+  /**
+   * The invoice's escrow counts as this funding's deposit only when this
+   * message recorded it, or when no other funding holds it and it was
+   * deposited by the platform for exactly this funding's amount. EscrowPool
+   * keeps one escrow per invoice, so any other escrow belongs to another
+   * partial funding and this deposit cannot be made.
+   */
+  private async adoptEscrow(
+    funding: { id: string; invoiceId: string },
+    escrow: EscrowData,
+    amount: string,
+    message?: { id: string; result?: string | null }
+  ): Promise<{ escrowId: string; transactionHash: string | undefined }> {
+    const escrowId = escrow.id.toString();
+    
+    const recorded = message?.result ? JSON.parse(message.result) : null;
+    if (recorded?.escrowId === escrowId) {
+      return { escrowId, transactionHash: recorded.transactionHash };
     }
+    
+    const holder = await prisma.funding.findFirst({
+      where: { escrowId, id: { not: funding.id } },
+      select: { id: true }
+    });
+    if (!holder && contractService.isOwnDeposit(escrow, amount)) {
+      return { escrowId, transactionHash: undefined };
+    }
+    
+    throw new ConflictError(`Invoice ${funding.invoiceId} already has an escrow for another funding`);
+  }
+  
+  /**
+   * A deposit that was given up releases the amount it reserved on the invoice
+   */
+  async cancelPendingFunding(payload: { fundingId: string }): Promise<void> {
+    await prisma.funding.updateMany({
+      where: { id: payload.fundingId, status: 'PENDING' },
+      data: { status: 'CANCELLED' }
+    });
+    logger.warn({ fundingId: payload.fundingId }, 'Pending funding cancelled after its escrow deposit was dead-lettered');
   }
   
   /**
@@ -389,48 +491,68 @@ export class FundingService {
       // Release escrow on smart contract
       const result = await contractService.releaseEscrow(funding.invoiceId);
       
-      // Update funding status
-      await prisma.funding.update({
-        where: { id: fundingId },
-        data: {
-          status: 'RELEASED',
-          releasedAt: new Date(),
-          releaseTransactionHash: result.transactionHash,
+      // Record the release and its HCS message atomically
+      const releasedAt = new Date();
+      await prisma.$transaction(async (tx) => {
+        await tx.funding.update({
+          where: { id: fundingId },
+          data: {
+            status: 'RELEASED',
+            releasedAt,
+            releaseTransactionHash: result.transactionHash,
+          }
+        });
+        
+        // Add invoice event
+        const event = await invoiceService.addInvoiceEvent(
+          funding.invoiceId,
+          InvoiceEventType.PAYMENT_RECEIVED,
+          `Escrow released. Amount: ${funding.amount} ${funding.currency}`,
+          {
+            escrowId: funding.escrowId,
+            amount: funding.amount,
+            currency: funding.currency,
+            hbarAmount: funding.hbarAmount,
+          },
+          undefined,
+          releasedAt,
+          result.transactionHash,
+          tx
+        );
+        
+        // Log to HCS if topic exists
+        if (funding.invoice.topicId) {
+          await outboxService.enqueue(tx, {
+            action: OutboxAction.HCS_MESSAGE,
+            aggregateType: 'Funding',
+            aggregateId: fundingId,
+            invoiceId: funding.invoiceId,
+            idempotencyKey: `hcs:escrow-released:${fundingId}`,
+            payload: {
+              topicId: funding.invoice.topicId,
+              message: {
+                eventType: 'ESCROW_RELEASED',
+                invoiceId: funding.invoiceId,
+                escrowId: funding.escrowId,
+                amount: funding.amount,
+                currency: funding.currency,
+                hbarAmount: funding.hbarAmount,
+                transactionHash: result.transactionHash,
+                timestamp: releasedAt.toISOString(),
+              },
+              invoiceEventId: event.id,
+            },
+          });
         }
       });
       
-      // Log to HCS if topic exists
-      if (funding.invoice.topicId) {
-        try {
-          await hederaService.submitTopicMessage(
-            funding.invoice.topicId,
-            {
-              eventType: 'ESCROW_RELEASED',
-              invoiceId: funding.invoiceId,
-              escrowId: funding.escrowId,
-              amount: funding.amount,
-              transactionHash: result.transactionHash,
-              timestamp: new Date().toISOString(),
-            }
-          );
-        } catch (error) {
-          logger.warn('Failed to log escrow release to HCS', { error: error instanceof Error ? error.message : String(error) });
-        }
+      try {
+        await ledgerService.recordRelease(funding, result.transactionHash);
+      } catch (error) {
+        logger.error({ fundingId, error: error instanceof Error ? error.message : String(error) }, 'Failed to post escrow release to ledger');
       }
       
-      // Add invoice event
-      await invoiceService.addInvoiceEvent(
-        funding.invoiceId,
-        InvoiceEventType.PAYMENT_RECEIVED,
-        `Escrow released. Amount: ${funding.amount} HBAR`,
-        {
-          escrowId: funding.escrowId,
-          amount: funding.amount,
-        },
-        undefined,
-        new Date(),
-        result.transactionHash
-      );
+      await outboxService.dispatchAggregate(fundingId);
       
       logger.info('Escrow released successfully', {
         fundingId,
@@ -445,6 +567,32 @@ export class FundingService {
     }
   }
   
+  /**
+   * Post a new funding's commitment and escrow lock to the investor ledger.
+   * The escrow already holds the funds, so a ledger failure is logged rather
+   * than failing the request; reconcileInvestor replays anything missed.
+   */
+  private async postFundingToLedger(funding: LedgerFunding, reference?: string): Promise<void> {
+    try {
+      await ledgerService.recordFundingCommitment(funding, reference);
+      await ledgerService.recordEscrowLock(funding, reference);
+    } catch (error) {
+      logger.error({ fundingId: funding.id, error: error instanceof Error ? error.message : String(error) }, 'Failed to post funding to ledger');
+    }
+  }
+  
+  /**
+   * Let the investor read the invoice's encrypted documents; a failure is
+   * logged and the grant can be repeated, so it never fails the funding
+   */
+  private async grantDocumentAccess(funding: { id: string; invoiceId: string; investorId: string }): Promise<void> {
+    try {
+      await documentEncryptionService.grantInvoiceAccess(funding.invoiceId, funding.investorId, DocumentKeyRole.INVESTOR);
+    } catch (error) {
+      logger.error({ fundingId: funding.id, error: error instanceof Error ? error.message : String(error) }, 'Failed to grant document access');
+    }
+  }
+  
   /**
    * Note: Refund functionality is not available in the current contract implementation.
    * The EscrowPool contract only supports deposit and release operations.
@@ -519,4 +667,9 @@ export class FundingService {
   }
 }
 
-export const fundingService = new FundingService();
\ No newline at end of file
+export const fundingService = new FundingService();
+
+outboxService.registerHandler(OutboxAction.ESCROW_DEPOSIT, {
+  execute: (payload, message) => fundingService.executeEscrowDeposit(payload, message),
+  onDeadLetter: payload => fundingService.cancelPendingFunding(payload),
+});
@@ -0,0 +1,243 @@
+import { readFileSync } from 'fs';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+// Define enums locally since they're not exported from Prisma client
+export enum FxSnapshotPurpose {
+  FUNDING = 'FUNDING', // invoice currency to the HBAR deposited into escrow
+  SETTLEMENT = 'SETTLEMENT' // invoice currency to the HBAR paid out on settlement
+}
+
+// Escrow, ledger and settlement payouts are all in HBAR
+export const SETTLEMENT_CURRENCY = 'HBAR';
+
+/**
+ * Rate quoted for one unit of the base currency
+ */
+export interface FxRate {
+  base: string;
+  quote: string;
+  rate: number;
+  source: string;
+  asOf: Date;
+}
+
+/**
+ * Source of exchange rates. Implementations may call a market data API;
+ * the static provider serves a fixed table for local runs and tests.
+ */
+export interface FxRateProvider {
+  readonly name: string;
+  supportedCurrencies(): string[];
+  getRate(base: string, quote: string, asOf: Date): Promise<FxRate>;
+}
+
+/**
+ * Units of each currency per one unit of the pivot currency
+ */
+export interface FxRateTable {
+  pivot: string;
+  asOf: string;
+  rates: Record<string, number>;
+}
+
+// Indicative rates used when no rates file is configured
+export const DEFAULT_FX_RATES: FxRateTable = {
+  pivot: 'USD',
+  asOf: '2024-01-01T00:00:00.000Z',
+  rates: {
+    USD: 1,
+    EUR: 0.92,
+    GBP: 0.79,
+    JPY: 148,
+    CAD: 1.35,
+    AUD: 1.52,
+    HBAR: 12.5,
+  },
+};
+
+/**
+ * Cross rates through the pivot currency of a fixed table; the rate is the
+ * same whatever date is asked for
+ */
+export class StaticFxRateProvider implements FxRateProvider {
+  readonly name: string;
+  private table: FxRateTable;
+
+  constructor(table: FxRateTable = DEFAULT_FX_RATES, name: string = 'static') {
+    if (!table.rates[table.pivot]) {
+      throw new Error(`FX rate table has no rate for its pivot currency ${table.pivot}`);
+    }
+    this.table = table;
+    this.name = name;
+  }
+
+  /**
+   * Load a rate table from a JSON file
+   * @param path File holding { pivot, asOf, rates }
+   */
+  static fromFile(path: string): StaticFxRateProvider {
+    const table = JSON.parse(readFileSync(path, 'utf8')) as FxRateTable;
+    return new StaticFxRateProvider(table, `file:${path}`);
+  }
+
+  supportedCurrencies(): string[] {
+    return Object.keys(this.table.rates);
+  }
+
+  async getRate(base: string, quote: string): Promise<FxRate> {
+    const baseRate = this.table.rates[base];
+    const quoteRate = this.table.rates[quote];
+    if (!baseRate || !quoteRate) {
+      throw new ValidationError(`No exchange rate from ${base} to ${quote}`);
+    }
+
+    return {
+      base,
+      quote,
+      rate: quoteRate / baseRate,
+      source: this.name,
+      asOf: new Date(this.table.asOf),
+    };
+  }
+}
+
+export interface FxConfig {
+  ratesFile: string | undefined;
+  reportingCurrency: string;
+}
+
+export function loadFxConfig(): FxConfig {
+  return {
+    ratesFile: process.env['FX_RATES_FILE'] || undefined,
+    reportingCurrency: (process.env['REPORTING_CURRENCY'] || SETTLEMENT_CURRENCY).toUpperCase(),
+  };
+}
+
+/**
+ * An amount converted at a quoted rate
+ */
+export interface FxConversion {
+  from: string;
+  to: string;
+  amount: number;
+  converted: number;
+  rate: number;
+  source: string;
+  asOf: Date;
+}
+
+const roundAmount = (value: number) => Math.round(value * 1e8) / 1e8;
+
+/**
+ * Converts invoice amounts between currencies and records the rates fundings
+ * and settlements were booked at
+ */
+export class FxService {
+  private provider: FxRateProvider;
+  private config: FxConfig;
+
+  constructor(provider?: FxRateProvider, config: Partial<FxConfig> = {}) {
+    this.config = { ...loadFxConfig(), ...config };
+    this.provider = provider
+      ?? (this.config.ratesFile ? StaticFxRateProvider.fromFile(this.config.ratesFile) : new StaticFxRateProvider());
+  }
+
+  get reportingCurrency(): string {
+    return this.config.reportingCurrency;
+  }
+
+  supportedCurrencies(): string[] {
+    return this.provider.supportedCurrencies();
+  }
+
+  isSupported(currency: string): boolean {
+    return this.supportedCurrencies().includes(currency.toUpperCase());
+  }
+
+  /**
+   * Validate a requested reporting currency, defaulting to the configured one
+   */
+  resolveReportingCurrency(currency?: string): string {
+    const resolved = (currency || this.config.reportingCurrency).toUpperCase();
+    if (!this.isSupported(resolved)) {
+      throw new ValidationError(`Unsupported reporting currency ${resolved}`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Rate for one unit of `from` in `to`
+   */
+  async getRate(from: string, to: string, asOf: Date = new Date()): Promise<FxRate> {
+    const base = from.toUpperCase();
+    const quote = to.toUpperCase();
+    if (base === quote) {
+      return { base, quote, rate: 1, source: 'identity', asOf };
+    }
+    return this.provider.getRate(base, quote, asOf);
+  }
+
+  /**
+   * Convert an amount at the rate quoted for a date
+   */
+  async convert(amount: number, from: string, to: string, asOf: Date = new Date()): Promise<FxConversion> {
+    const rate = await this.getRate(from, to, asOf);
+    return {
+      from: rate.base,
+      to: rate.quote,
+      amount,
+      converted: roundAmount(amount * rate.rate),
+      rate: rate.rate,
+      source: rate.source,
+      asOf: rate.asOf,
+    };
+  }
+
+  /**
+   * Rates into one currency for each of several, keyed by source currency
+   */
+  async getRates(currencies: string[], to: string, asOf: Date = new Date()): Promise<Map<string, number>> {
+    const rates = new Map<string, number>();
+    for (const currency of new Set(currencies.map(c => c.toUpperCase()))) {
+      rates.set(currency, (await this.getRate(currency, to, asOf)).rate);
+    }
+    return rates;
+  }
+
+  /**
+   * Store the conversion a funding or settlement was booked at. A snapshot is
+   * never replaced, so retries keep the rate first recorded.
+   */
+  async recordSnapshot(
+    fundingId: string,
+    purpose: FxSnapshotPurpose,
+    conversion: FxConversion,
+    db: Prisma.TransactionClient = prisma
+  ) {
+    const snapshot = await db.fxSnapshot.upsert({
+      where: { fundingId_purpose: { fundingId, purpose } },
+      create: {
+        fundingId,
+        purpose,
+        baseCurrency: conversion.from,
+        quoteCurrency: conversion.to,
+        rate: conversion.rate,
+        source: conversion.source,
+        rateAsOf: conversion.asOf,
+        baseAmount: conversion.amount,
+        quoteAmount: conversion.converted,
+      },
+      update: {},
+    });
+
+    logger.debug({ fundingId, purpose, rate: snapshot.rate }, 'FX snapshot recorded');
+    return snapshot;
+  }
+}
+
+// Export singleton instance
+export const fxService = new FxService();
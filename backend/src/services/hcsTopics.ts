@@ -1,6 +1,7 @@
 import { Client, TopicCreateTransaction, TopicId, PrivateKey, AccountId } from '@hashgraph/sdk';
 import { logger } from '../utils/logger';
 import { PrismaClient } from '@prisma/client';
+import { mirrorNodePollingService } from './mirrorNodePollingService';
 
 const prisma = new PrismaClient();
 
@@ -136,6 +137,8 @@ export class HcsTopicsService {
         transactionId: topicResult.transactionId
       });
 
+      await mirrorNodePollingService.subscribeTopic(dealTopic.topicId, invoiceKey);
+
       return topicResult.topicId;
     } catch (error) {
       logger.error('Failed to get or create deal topic', { error, invoiceKey });
@@ -177,11 +180,13 @@ export class HcsTopicsService {
    */
   async deactivateDealTopic(invoiceKey: string): Promise<void> {
     try {
-      await prisma.dealTopic.update({
+      const dealTopic = await prisma.dealTopic.update({
         where: { invoiceKey },
         data: { isActive: false }
       });
 
+      await mirrorNodePollingService.unsubscribeTopic(dealTopic.topicId);
+
       logger.info('Deal topic deactivated', { invoiceKey });
     } catch (error) {
       logger.error('Failed to deactivate deal topic', { error, invoiceKey });
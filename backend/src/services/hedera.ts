@@ -11,6 +11,7 @@ import {
   TopicCreateTransaction,
   TopicMessageSubmitTransaction,
   TransferTransaction,
+  TransactionId,
   Hbar,
   ScheduleCreateTransaction,
   // TransactionResponse,
@@ -49,12 +50,13 @@ export interface HFSUploadResult {
   fileId: string;
   transactionId: string;
   fileHashSha384: string;
+  storedHashSha384?: string; // hash of what HFS holds, when the PDF was stored encrypted
 }
 
 export interface HCSMessageData {
   tokenId: string;
   serialNumber: string;
-  status: 'issued' | 'funded' | 'paid' | 'defaulted';
+  status: 'issued' | 'funded' | 'paid' | 'overdue' | 'defaulted';
   timestamp: string;
   fileHash?: string;
   amount?: string;
@@ -192,8 +194,8 @@ export class HederaService {
       throw new Error('Amount is required');
     }
 
-    // Validate currency format (should be 3-letter currency code)
-    if (!metadata.currency || !metadata.currency.match(/^[A-Z]{3}$/)) {
+    // Validate currency format (should be 3-letter currency code or HBAR)
+    if (!metadata.currency || !metadata.currency.match(/^([A-Z]{3}|HBAR)$/)) {
       throw new Error('Invalid currency format');
     }
 
@@ -239,11 +241,13 @@ export class HederaService {
   /**
    * Upload PDF file to Hedera File Service with validation and SHA-384 hashing
    * Implements proper chunking for files >4KB as per H.MD requirements
+   * @param storedContent Bytes to write in place of the PDF, such as its ciphertext
    */
   async uploadPdfToHfs(
-    fileBuffer: Buffer,
+    pdfBuffer: Buffer,
     mimeType: string,
-    filename?: string
+    filename?: string,
+    storedContent?: Buffer
   ): Promise<HFSUploadResult> {
     // Validate file type
     if (mimeType !== 'application/pdf') {
@@ -252,24 +256,27 @@ export class HederaService {
 
     // Validate file size (max 10MB)
     const maxSize = 10 * 1024 * 1024; // 10MB
-    if (fileBuffer.length > maxSize) {
+    if (pdfBuffer.length > maxSize) {
       throw new Error(`File size exceeds maximum allowed size of ${maxSize} bytes`);
     }
 
     // Validate PDF header
-    if (!fileBuffer.subarray(0, 4).equals(Buffer.from('%PDF'))) {
+    if (!pdfBuffer.subarray(0, 4).equals(Buffer.from('%PDF'))) {
       throw new Error('Invalid PDF file format');
     }
 
     // Calculate SHA-384 hash as required by H.MD
-    const fileHashSha384 = crypto.createHash('sha384').update(fileBuffer).digest('hex');
+    const fileHashSha384 = crypto.createHash('sha384').update(pdfBuffer).digest('hex');
+    const fileBuffer = storedContent ?? pdfBuffer;
+    const storedHashSha384 = storedContent ? crypto.createHash('sha384').update(storedContent).digest('hex') : undefined;
 
     if (this.testMode) {
       // Return mock data in test mode
       return {
         fileId: '0.0.123456',
         transactionId: '0.0.123@1234567890.123456789',
-        fileHashSha384
+        fileHashSha384,
+        ...(storedHashSha384 && { storedHashSha384 })
       };
     }
 
@@ -339,6 +346,7 @@ export class HederaService {
         fileId,
         transactionId,
         fileHashSha384,
+        ...(storedHashSha384 && { storedHashSha384 }),
       };
     } catch (error) {
       throw new Error(`Failed to upload PDF to HFS: ${error}`);
@@ -482,7 +490,7 @@ export class HederaService {
   ): Promise<{ transactionId: string; sequenceNumber: string }> {
     try {
       // Validate status
-      const validStatuses = ['issued', 'funded', 'paid', 'defaulted'];
+      const validStatuses = ['issued', 'funded', 'paid', 'overdue', 'defaulted'];
       if (!validStatuses.includes(messageData.status)) {
         throw new Error(`Invalid status: ${messageData.status}. Must be one of: ${validStatuses.join(', ')}`);
       }
@@ -802,6 +810,53 @@ export class HederaService {
     }
   }
 
+  /**
+   * Prepare a secondary sale of an invoice NFT for wallet signing.
+   * The NFT and the price swap in one transaction paid for by the buyer,
+   * so it needs both the seller's and the buyer's signature.
+   */
+  async prepareNFTSaleTransaction(
+    tokenId: string,
+    serialNumber: string,
+    sellerAccountId: string,
+    buyerAccountId: string,
+    price: number
+  ): Promise<{
+    transactionBytes: string;
+    transactionId: string;
+  }> {
+    try {
+      if (!this.client) {
+        throw new Error('Hedera client not initialized');
+      }
+
+      if (this.testMode) {
+        // Return mock data in test mode
+        return {
+          transactionBytes: Buffer.from(`nft-sale:${tokenId}:${serialNumber}`).toString('base64'),
+          transactionId: `${buyerAccountId}@1234567890.987654321`,
+        };
+      }
+
+      const tinybars = Math.round(price * 100000000);
+      const saleTx = new TransferTransaction()
+        .addNftTransfer(tokenId, parseInt(serialNumber), AccountId.fromString(sellerAccountId), AccountId.fromString(buyerAccountId))
+        .addHbarTransfer(AccountId.fromString(buyerAccountId), Hbar.fromTinybars(-tinybars))
+        .addHbarTransfer(AccountId.fromString(sellerAccountId), Hbar.fromTinybars(tinybars))
+        .setTransactionMemo(`Sale of invoice NFT ${tokenId}/${serialNumber}`)
+        .setTransactionId(TransactionId.generate(AccountId.fromString(buyerAccountId)))
+        .freezeWith(this.client);
+
+      return {
+        transactionBytes: Buffer.from(saleTx.toBytes()).toString('base64'),
+        transactionId: saleTx.transactionId?.toString() || '',
+      };
+    } catch (error) {
+      console.error('Error preparing NFT sale transaction:', error);
+      throw error;
+    }
+  }
+
   /**
    * Submit signed fund transaction
    */
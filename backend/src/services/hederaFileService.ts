@@ -7,6 +7,7 @@ import {
   FileInfoQuery,
   FileContentsQuery,
   FileDeleteTransaction,
+  FileUpdateTransaction,
   FileId,
   Hbar,
   TransactionResponse,
@@ -24,6 +25,15 @@ export interface FileUploadResult {
   size: number;
   hashScanUrl: string;
   mirrorNodeUrl: string;
+  expiresAt?: Date;
+  error?: string;
+}
+
+export interface FileRenewalResult {
+  success: boolean;
+  transactionId?: string;
+  expiresAt?: Date;
+  feeHbar?: number; // fee actually charged for the renewal
   error?: string;
 }
 
@@ -35,6 +45,9 @@ export interface FileInfo {
   deleted: boolean;
 }
 
+// Bytes written per FileCreate/FileAppend transaction
+export const HFS_CHUNK_SIZE = 1024;
+
 export interface FileDownloadResult {
   success: boolean;
   content: Buffer;
@@ -92,61 +105,28 @@ export class HederaFileService {
       // Calculate file hash
       const hash = crypto.createHash('sha256').update(content).digest('hex');
 
-      // Create file transaction
-      const fileCreateTx = new FileCreateTransaction()
-        .setKeys([this.operatorPrivateKey.publicKey])
-        .setContents(content.slice(0, 1024)) // First chunk (max 1024 bytes)
-        .setMaxTransactionFee(new Hbar(2))
-        .freezeWith(this.client);
-
-      if (memo) {
-        fileCreateTx.setFileMemo(memo);
-      }
-
-      const fileCreateSign = await fileCreateTx.sign(this.operatorPrivateKey);
-      const fileCreateSubmit = await fileCreateSign.execute(this.client);
-      const fileCreateReceipt = await fileCreateSubmit.getReceipt(this.client);
+      // Create the file with the first chunk
+      const created = await this.createFile(content.subarray(0, HFS_CHUNK_SIZE), memo);
 
-      if (fileCreateReceipt.status !== Status.Success) {
-        throw new Error(`File creation failed: ${fileCreateReceipt.status.toString()}`);
-      }
-
-      const fileId = fileCreateReceipt.fileId!;
-      logger.info(`File created successfully: ${fileId.toString()}`);
-
-      // Append remaining content if file is larger than 1024 bytes
-      if (content.length > 1024) {
-        let offset = 1024;
+      // Append remaining content if file is larger than one chunk
+      if (content.length > HFS_CHUNK_SIZE) {
+        let offset = HFS_CHUNK_SIZE;
         while (offset < content.length) {
-          const chunk = content.slice(offset, offset + 1024);
-          
-          const fileAppendTx = new FileAppendTransaction()
-            .setFileId(fileId)
-            .setContents(chunk)
-            .setMaxTransactionFee(new Hbar(2))
-            .freezeWith(this.client);
-
-          const fileAppendSign = await fileAppendTx.sign(this.operatorPrivateKey);
-          const fileAppendSubmit = await fileAppendSign.execute(this.client);
-          const fileAppendReceipt = await fileAppendSubmit.getReceipt(this.client);
-
-          if (fileAppendReceipt.status !== Status.Success) {
-            throw new Error(`File append failed: ${fileAppendReceipt.status.toString()}`);
-          }
-
-          offset += 1024;
+          await this.appendToFile(created.fileId, content.subarray(offset, offset + HFS_CHUNK_SIZE));
+          offset += HFS_CHUNK_SIZE;
         }
-        logger.info(`File content appended successfully: ${fileId.toString()}`);
+        logger.info(`File content appended successfully: ${created.fileId}`);
       }
 
       const result: FileUploadResult = {
         success: true,
-        fileId: fileId.toString(),
-        transactionId: fileCreateSubmit.transactionId.toString(),
+        fileId: created.fileId,
+        transactionId: created.transactionId,
         hash,
         size: content.length,
-        hashScanUrl: this.getHashScanUrl('file', fileId.toString()),
-        mirrorNodeUrl: this.getMirrorNodeUrl('file', fileId.toString())
+        hashScanUrl: this.getHashScanUrl('file', created.fileId),
+        mirrorNodeUrl: this.getMirrorNodeUrl('file', created.fileId),
+        expiresAt: created.expiresAt
       };
 
       logger.info('File uploaded successfully to HFS', result);
@@ -167,6 +147,62 @@ export class HederaFileService {
     }
   }
 
+  /**
+   * Create a file holding its first chunk; throws if the network rejects it
+   */
+  async createFile(
+    firstChunk: Buffer,
+    memo?: string
+  ): Promise<{ fileId: string; transactionId: string; expiresAt: Date }> {
+    const fileCreateTx = new FileCreateTransaction()
+      .setKeys([this.operatorPrivateKey.publicKey])
+      .setContents(firstChunk)
+      .setMaxTransactionFee(new Hbar(2))
+      .freezeWith(this.client);
+
+    if (memo) {
+      fileCreateTx.setFileMemo(memo);
+    }
+
+    const fileCreateSign = await fileCreateTx.sign(this.operatorPrivateKey);
+    const fileCreateSubmit = await fileCreateSign.execute(this.client);
+    const fileCreateReceipt = await fileCreateSubmit.getReceipt(this.client);
+
+    if (fileCreateReceipt.status !== Status.Success) {
+      throw new Error(`File creation failed: ${fileCreateReceipt.status.toString()}`);
+    }
+
+    const fileId = fileCreateReceipt.fileId!.toString();
+    logger.info(`File created successfully: ${fileId}`);
+
+    return {
+      fileId,
+      transactionId: fileCreateSubmit.transactionId.toString(),
+      expiresAt: fileCreateTx.expirationTime.toDate()
+    };
+  }
+
+  /**
+   * Append one chunk to a file; throws if the network rejects it
+   */
+  async appendToFile(fileId: string, chunk: Buffer): Promise<{ transactionId: string }> {
+    const fileAppendTx = new FileAppendTransaction()
+      .setFileId(FileId.fromString(fileId))
+      .setContents(chunk)
+      .setMaxTransactionFee(new Hbar(2))
+      .freezeWith(this.client);
+
+    const fileAppendSign = await fileAppendTx.sign(this.operatorPrivateKey);
+    const fileAppendSubmit = await fileAppendSign.execute(this.client);
+    const fileAppendReceipt = await fileAppendSubmit.getReceipt(this.client);
+
+    if (fileAppendReceipt.status !== Status.Success) {
+      throw new Error(`File append failed: ${fileAppendReceipt.status.toString()}`);
+    }
+
+    return { transactionId: fileAppendSubmit.transactionId.toString() };
+  }
+
   /**
    * Download a file from Hedera File Service
    */
@@ -216,7 +252,7 @@ export class HederaFileService {
       const result: FileInfo = {
         fileId: fileInfo.fileId.toString(),
         size: fileInfo.size.toNumber(),
-        expirationTime: fileInfo.expirationTime,
+        expirationTime: fileInfo.expirationTime.toDate(),
         keys: fileInfo.keys.map((key: any) => key.toString()),
         deleted: fileInfo.isDeleted
       };
@@ -266,6 +302,47 @@ export class HederaFileService {
     }
   }
 
+  /**
+   * Extend a file's expiration time. Changing only the expiration needs no
+   * file key; the fee grows with the file size and the time added.
+   * @param maxFeeHbar Most the network may charge for the renewal
+   */
+  async extendExpiration(fileId: string, expiresAt: Date, maxFeeHbar: number): Promise<FileRenewalResult> {
+    try {
+      logger.info(`Extending HFS file expiration: ${fileId} to ${expiresAt.toISOString()}`);
+
+      const fileUpdateTx = new FileUpdateTransaction()
+        .setFileId(FileId.fromString(fileId))
+        .setExpirationTime(expiresAt)
+        .setMaxTransactionFee(new Hbar(maxFeeHbar))
+        .freezeWith(this.client);
+
+      const fileUpdateSign = await fileUpdateTx.sign(this.operatorPrivateKey);
+      const fileUpdateSubmit = await fileUpdateSign.execute(this.client);
+      const fileUpdateRecord = await fileUpdateSubmit.getRecord(this.client);
+
+      if (fileUpdateRecord.receipt.status !== Status.Success) {
+        throw new Error(`File renewal failed: ${fileUpdateRecord.receipt.status.toString()}`);
+      }
+
+      logger.info(`File expiration extended: ${fileId}, transactionId: ${fileUpdateSubmit.transactionId.toString()}`);
+
+      return {
+        success: true,
+        transactionId: fileUpdateSubmit.transactionId.toString(),
+        expiresAt,
+        feeHbar: fileUpdateRecord.transactionFee.toBigNumber().toNumber()
+      };
+
+    } catch (error) {
+      logger.error({ fileId, error }, `Failed to extend HFS file expiration: ${fileId}`);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   /**
    * Upload invoice PDF to HFS
    */
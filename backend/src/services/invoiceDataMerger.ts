@@ -1,7 +1,7 @@
 import { mirrorNodeService } from './mirrorNodeService';
 import { invoiceService } from './invoices';
 import { logger } from '../utils/logger';
-import { mirrorNodeCache, CacheKeys } from './cacheService';
+import { mirrorNodeCache, CacheKeys, CacheTags } from './cacheService';
 import { PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
@@ -273,7 +273,7 @@ export class InvoiceDataMerger {
           sequenceNumber: msg.sequenceNumber,
           transactionId: msg.transactionId,
         }));
-      }, 60000); // 1 minute cache
+      }, { ttl: 60000, tags: [CacheTags.topic(topicId)] }); // 1 minute cache
     } catch (error) {
       logger.warn({ topicId, error }, `Failed to get invoice timeline for topic ${topicId}`);
       return [];
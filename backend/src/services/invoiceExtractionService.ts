@@ -0,0 +1,460 @@
+import { extractPdfText } from '../utils/pdfText';
+import { normalizeInvoiceNumber } from './duplicateDetectionService';
+import { ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export interface InvoiceExtractionConfig {
+  minConfidence: number;
+  amountTolerance: number;
+}
+
+export function loadInvoiceExtractionConfig(): InvoiceExtractionConfig {
+  return {
+    minConfidence: parseFloat(process.env['EXTRACTION_MIN_CONFIDENCE'] || '0.5'),
+    amountTolerance: parseFloat(process.env['EXTRACTION_AMOUNT_TOLERANCE'] || '0.01')
+  };
+}
+
+/**
+ * A value read from the document with how sure the parser is of it (0-1)
+ * and the line it was read from
+ */
+export interface ExtractedField<T> {
+  value: T;
+  confidence: number;
+  source: string;
+}
+
+export interface ExtractedLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  confidence: number;
+}
+
+export interface InvoiceExtraction {
+  pageCount: number;
+  hasText: boolean;
+  fields: {
+    invoiceNumber?: ExtractedField<string>;
+    amount?: ExtractedField<number>;
+    currency?: ExtractedField<string>;
+    issueDate?: ExtractedField<string>;
+    dueDate?: ExtractedField<string>;
+    buyerName?: ExtractedField<string>;
+  };
+  lineItems: ExtractedLineItem[];
+}
+
+export type ExtractedFieldName = keyof InvoiceExtraction['fields'];
+
+/**
+ * Values the supplier entered in the CreateInvoice form
+ */
+export interface EnteredInvoiceValues {
+  invoiceNumber?: string;
+  amount?: number;
+  currency?: string;
+  issueDate?: string | Date;
+  dueDate?: string | Date;
+  buyerName?: string;
+}
+
+export interface FieldMismatch {
+  field: ExtractedFieldName;
+  entered: string | number;
+  extracted: string | number;
+  confidence: number;
+  severity: 'warning' | 'error';
+}
+
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'HBAR'];
+const CURRENCY_SYMBOLS: Record<string, { code: string; confidence: number }> = {
+  '€': { code: 'EUR', confidence: 0.85 },
+  '£': { code: 'GBP', confidence: 0.85 },
+  '¥': { code: 'JPY', confidence: 0.7 },
+  // Shared by USD, CAD and AUD
+  '$': { code: 'USD', confidence: 0.6 }
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Amounts such as 1,234.56, 1.234,56, 1 234.56 or 1234
+const AMOUNT = String.raw`\d{1,3}(?:[,. ]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?`;
+const MONEY = new RegExp(String.raw`(?:([A-Z]{3,4}|[$€£¥])\s?)?(?<![\d.,\-/])(${AMOUNT})(?:\s?([A-Z]{3,4}\b|[€£]))?`, 'g');
+
+const DATE_PATTERNS = [
+  /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/,
+  /\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})\b/,
+  /\b(\d{1,2})(?:st|nd|rd|th)?[\s-]+([A-Za-z]{3,9})\.?,?[\s-]+(\d{4})\b/,
+  /\b([A-Za-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/
+];
+
+const INVOICE_NUMBER_LABEL = /\binv(?:oice)?\.?\s*(?:no\.?|number|num\.?|#|id)?\s*[:#]?\s*(?:no\.?|number|#)?\s*[:#]?\s*([A-Z0-9][A-Z0-9\-/_.]*\d[A-Z0-9\-/_]*)/i;
+const TOTAL_LABELS: Array<{ pattern: RegExp; confidence: number }> = [
+  { pattern: /\b(?:total\s+(?:amount\s+)?due|amount\s+due|balance\s+due|grand\s+total|amount\s+payable|total\s+payable)\b/i, confidence: 0.9 },
+  { pattern: /\b(?:invoice\s+total|total\s+amount|amount)\b/i, confidence: 0.8 },
+  { pattern: /\btotal\b/i, confidence: 0.75 }
+];
+const DUE_DATE_LABEL = /\b(?:due\s+date|payment\s+due|due\s+by|due\s+on|pay\s+by|due)\b/i;
+const ISSUE_DATE_LABELS: Array<{ pattern: RegExp; confidence: number }> = [
+  { pattern: /\b(?:invoice\s+date|date\s+of\s+issue|issue\s+date|issued(?:\s+on)?|dated)\b/i, confidence: 0.85 },
+  { pattern: /\bdate\b/i, confidence: 0.6 }
+];
+const BUYER_LABEL = /\b(?:bill(?:ed)?\s+to|sold\s+to|invoice\s+to|customer|buyer|client)\b\s*:?\s*(.*)$/i;
+const PAYMENT_TERMS = /\bnet\s*(\d{1,3})\b/i;
+
+/**
+ * Parse an amount written with either decimal convention
+ */
+export function parseAmount(text: string): number | null {
+  let value = text.replace(/\s/g, '');
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    // Whichever separator comes last is the decimal point
+    value = lastComma > lastDot ? value.replace(/\./g, '').replace(',', '.') : value.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    value = /,\d{1,2}$/.test(value) && value.split(',').length === 2 ? value.replace(',', '.') : value.replace(/,/g, '');
+  } else if (lastDot >= 0 && value.split('.').length > 2) {
+    value = value.replace(/\./g, '');
+  }
+
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+const monthNumber = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+/**
+ * Find the first date on a line as YYYY-MM-DD, with how certain its
+ * day and month order is
+ */
+export function parseDate(text: string): { value: string; certainty: number; index: number } | null {
+  const found: Array<{ value: string; certainty: number; index: number }> = [];
+
+  const iso = text.match(DATE_PATTERNS[0]!);
+  if (iso) {
+    const value = toIsoDate(+iso[1]!, +iso[2]!, +iso[3]!);
+    if (value) found.push({ value, certainty: 1, index: iso.index! });
+  }
+
+  const numeric = text.match(DATE_PATTERNS[1]!);
+  if (numeric) {
+    const first = +numeric[1]!;
+    const second = +numeric[2]!;
+    const year = numeric[3]!.length === 2 ? 2000 + +numeric[3]! : +numeric[3]!;
+    // Day first unless that is impossible; 03/04 could be either
+    const dayFirst = first > 12 || second <= 12;
+    const value = dayFirst ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+    if (value) found.push({ value, certainty: first > 12 || second > 12 || first === second ? 1 : 0.7, index: numeric.index! });
+  }
+
+  const dayMonth = text.match(DATE_PATTERNS[2]!);
+  if (dayMonth && monthNumber(dayMonth[2]!) > 0) {
+    const value = toIsoDate(+dayMonth[3]!, monthNumber(dayMonth[2]!), +dayMonth[1]!);
+    if (value) found.push({ value, certainty: 1, index: dayMonth.index! });
+  }
+
+  const monthDay = text.match(DATE_PATTERNS[3]!);
+  if (monthDay && monthNumber(monthDay[1]!) > 0) {
+    const value = toIsoDate(+monthDay[3]!, monthNumber(monthDay[1]!), +monthDay[2]!);
+    if (value) found.push({ value, certainty: 1, index: monthDay.index! });
+  }
+
+  return found.sort((a, b) => a.index - b.index)[0] ?? null;
+}
+
+interface Money {
+  amount: number;
+  raw: string;
+  currency?: { code: string; confidence: number };
+}
+
+const readMoney = (text: string): Money[] => {
+  const amounts: Money[] = [];
+  for (const match of text.matchAll(MONEY)) {
+    // Tax rates and discounts are not amounts
+    if (text.slice(match.index! + match[0].length).trimStart().startsWith('%')) continue;
+    const amount = parseAmount(match[2]!);
+    if (amount === null) continue;
+    const marker = match[1] ?? match[3];
+    let currency: Money['currency'];
+    if (marker && CURRENCY_CODES.includes(marker)) currency = { code: marker, confidence: 0.9 };
+    else if (marker && CURRENCY_SYMBOLS[marker]) currency = CURRENCY_SYMBOLS[marker];
+    amounts.push({ amount, raw: match[2]!, ...(currency && { currency }) });
+  }
+  return amounts;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Reads the fields of the CreateInvoice form from text-based invoice PDFs
+ */
+export class InvoiceExtractionService {
+  private config: InvoiceExtractionConfig;
+
+  constructor(config: Partial<InvoiceExtractionConfig> = {}) {
+    this.config = { ...loadInvoiceExtractionConfig(), ...config };
+  }
+
+  /**
+   * Extract invoice fields from a PDF
+   */
+  async extract(pdf: Buffer): Promise<InvoiceExtraction> {
+    let pages: string[];
+    try {
+      ({ pages } = await extractPdfText(pdf));
+    } catch (error) {
+      logger.warn({ error: error instanceof Error ? error.message : error }, 'Could not read PDF for extraction');
+      throw new ValidationError('File is not a readable PDF');
+    }
+
+    const text = pages.join('\n');
+    return {
+      pageCount: pages.length,
+      hasText: text.trim().length > 0,
+      ...this.extractFromText(text)
+    };
+  }
+
+  /**
+   * Extract invoice fields from the text of an invoice, one line per row
+   */
+  extractFromText(text: string): Pick<InvoiceExtraction, 'fields' | 'lineItems'> {
+    const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+    const lineItems = this.findLineItems(lines);
+    const fields: InvoiceExtraction['fields'] = {};
+
+    const invoiceNumber = this.findInvoiceNumber(lines);
+    if (invoiceNumber) fields.invoiceNumber = invoiceNumber;
+
+    const total = this.findTotal(lines, lineItems);
+    if (total) {
+      fields.amount = { value: total.amount, confidence: total.confidence, source: total.source };
+    }
+
+    const currency = this.findCurrency(lines, total);
+    if (currency) fields.currency = currency;
+
+    const issueDate = this.findIssueDate(lines);
+    if (issueDate) fields.issueDate = issueDate;
+
+    const dueDate = this.findDueDate(lines, issueDate);
+    if (dueDate) fields.dueDate = dueDate;
+
+    const buyerName = this.findBuyerName(lines);
+    if (buyerName) fields.buyerName = buyerName;
+
+    return { fields, lineItems };
+  }
+
+  /**
+   * Compare the values entered for an invoice with those read from its PDF.
+   * Fields read with less than the configured confidence are not compared.
+   */
+  compareWithEntered(extraction: Pick<InvoiceExtraction, 'fields'>, entered: EnteredInvoiceValues): FieldMismatch[] {
+    const mismatches: FieldMismatch[] = [];
+    const { fields } = extraction;
+
+    const check = <T extends string | number>(
+      field: ExtractedFieldName,
+      extracted: ExtractedField<T> | undefined,
+      value: T | undefined,
+      same: (entered: T, extracted: T) => boolean
+    ) => {
+      if (value === undefined || value === '' || !extracted || extracted.confidence < this.config.minConfidence) return;
+      if (same(value, extracted.value)) return;
+      mismatches.push({
+        field,
+        entered: value,
+        extracted: extracted.value,
+        confidence: extracted.confidence,
+        // The amount is what investors fund, so a confident disagreement there is an error
+        severity: field === 'amount' && extracted.confidence >= 0.8 ? 'error' : 'warning'
+      });
+    };
+
+    const asDate = (value: string | Date | undefined) =>
+      value === undefined ? undefined : (value instanceof Date ? value.toISOString() : value).slice(0, 10);
+    const sameName = (a: string, b: string) => {
+      const simplify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+      return simplify(a).includes(simplify(b)) || simplify(b).includes(simplify(a));
+    };
+
+    check('invoiceNumber', fields.invoiceNumber, entered.invoiceNumber, (a, b) => normalizeInvoiceNumber(a) === normalizeInvoiceNumber(b));
+    check('amount', fields.amount, entered.amount, (a, b) => Math.abs(a - b) <= this.config.amountTolerance);
+    check('currency', fields.currency, entered.currency, (a, b) => a.toUpperCase() === b.toUpperCase());
+    check('issueDate', fields.issueDate, asDate(entered.issueDate), (a, b) => a === b);
+    check('dueDate', fields.dueDate, asDate(entered.dueDate), (a, b) => a === b);
+    check('buyerName', fields.buyerName, entered.buyerName, sameName);
+
+    return mismatches;
+  }
+
+  private findInvoiceNumber(lines: string[]): ExtractedField<string> | undefined {
+    for (const line of lines) {
+      const match = line.match(INVOICE_NUMBER_LABEL);
+      if (match) return { value: match[1]!.replace(/[.]$/, ''), confidence: 0.9, source: line };
+    }
+
+    // Unlabelled numbers shaped like INV-0042
+    for (const line of lines) {
+      const match = line.match(/\b([A-Z]{2,5}-\d{3,})\b/);
+      if (match) return { value: match[1]!, confidence: 0.5, source: line };
+    }
+
+    return undefined;
+  }
+
+  private findTotal(lines: string[], lineItems: ExtractedLineItem[]): (Money & { confidence: number; source: string }) | undefined {
+    const itemsTotal = round(lineItems.reduce((sum, item) => sum + item.total, 0));
+    let best: (Money & { confidence: number; source: string }) | undefined;
+
+    for (const { pattern, confidence } of TOTAL_LABELS) {
+      for (let i = lines.length - 1; i >= 0; i--) {
+        const line = lines[i]!;
+        const label = line.match(pattern);
+        if (!label || /\bsub[-\s]?total\b/i.test(line)) continue;
+
+        // The amount follows the label, on the same line or alone on the next
+        const after = line.slice(label.index! + label[0].length);
+        const money = /\d/.test(after) ? readMoney(after)[0] : readMoney(lines[i + 1] ?? '')[0];
+        if (!money || money.amount <= 0) continue;
+
+        best = { ...money, confidence, source: line };
+        break;
+      }
+      if (best) break;
+    }
+
+    if (!best) {
+      // Fall back to the largest amount written as money on a line without a date
+      const largest = lines
+        .filter(line => !parseDate(line))
+        .flatMap(line => readMoney(line).map(money => ({ ...money, source: line })))
+        .filter(money => money.amount > 0 && (money.currency || /[.,]\d{2}$/.test(money.raw)))
+        .sort((a, b) => b.amount - a.amount)[0];
+      if (largest) best = { ...largest, confidence: 0.4 };
+    }
+
+    // Line items adding up to the total confirm it
+    if (best && lineItems.length > 0 && Math.abs(itemsTotal - best.amount) <= this.config.amountTolerance) {
+      best.confidence = Math.max(best.confidence, 0.95);
+    }
+
+    return best;
+  }
+
+  private findCurrency(lines: string[], total?: Money & { source: string }): ExtractedField<string> | undefined {
+    if (total?.currency) {
+      return { value: total.currency.code, confidence: total.currency.confidence, source: total.source };
+    }
+
+    for (const line of lines) {
+      const code = line.match(new RegExp(`\\b(${CURRENCY_CODES.join('|')})\\b`));
+      if (code) return { value: code[1]!, confidence: 0.7, source: line };
+    }
+
+    for (const line of lines) {
+      const symbol = Object.keys(CURRENCY_SYMBOLS).find(symbol => line.includes(symbol));
+      if (symbol) {
+        const currency = CURRENCY_SYMBOLS[symbol]!;
+        return { value: currency.code, confidence: currency.confidence * 0.9, source: line };
+      }
+    }
+
+    return undefined;
+  }
+
+  private findLabelledDate(lines: string[], pattern: RegExp, confidence: number, exclude?: RegExp): ExtractedField<string> | undefined {
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]!;
+      const label = line.match(pattern);
+      if (!label || exclude?.test(line)) continue;
+
+      const after = line.slice(label.index! + label[0].length);
+      const sameLine = parseDate(after);
+      const date = sameLine ?? (/^[\s:]*$/.test(after) ? parseDate(lines[i + 1] ?? '') : null);
+      if (date) {
+        return { value: date.value, confidence: round(confidence * date.certainty * (sameLine ? 1 : 0.9)), source: line };
+      }
+    }
+    return undefined;
+  }
+
+  private findIssueDate(lines: string[]): ExtractedField<string> | undefined {
+    for (const { pattern, confidence } of ISSUE_DATE_LABELS) {
+      const date = this.findLabelledDate(lines, pattern, confidence, DUE_DATE_LABEL);
+      if (date) return date;
+    }
+    return undefined;
+  }
+
+  private findDueDate(lines: string[], issueDate?: ExtractedField<string>): ExtractedField<string> | undefined {
+    const labelled = this.findLabelledDate(lines, DUE_DATE_LABEL, 0.9);
+    if (labelled) return labelled;
+
+    // Payment terms such as "Net 30" count from the issue date
+    const terms = issueDate && lines.find(line => PAYMENT_TERMS.test(line));
+    if (terms) {
+      const days = parseInt(terms.match(PAYMENT_TERMS)![1]!, 10);
+      const due = new Date(`${issueDate.value}T00:00:00Z`);
+      due.setUTCDate(due.getUTCDate() + days);
+      return { value: due.toISOString().slice(0, 10), confidence: round(0.7 * issueDate.confidence), source: terms };
+    }
+
+    return undefined;
+  }
+
+  private findBuyerName(lines: string[]): ExtractedField<string> | undefined {
+    for (let i = 0; i < lines.length; i++) {
+      const match = lines[i]!.match(BUYER_LABEL);
+      if (!match) continue;
+
+      const sameLine = match[1]!.trim();
+      if (sameLine.length > 1) return { value: sameLine, confidence: 0.8, source: lines[i]! };
+
+      const next = lines[i + 1];
+      if (next && !parseDate(next) && readMoney(next).every(money => !money.currency)) {
+        return { value: next, confidence: 0.65, source: lines[i]! };
+      }
+    }
+    return undefined;
+  }
+
+  private findLineItems(lines: string[]): ExtractedLineItem[] {
+    const row = new RegExp(String.raw`^(.*[A-Za-z].*?)\s+(\d+(?:\.\d+)?)\s*(?:x\s*)?(?:[A-Z]{3}\s?|[$€£¥]\s?)?(${AMOUNT})\s+(?:[A-Z]{3}\s?|[$€£¥]\s?)?(${AMOUNT})(?:\s?[A-Z]{3})?$`);
+    const items: ExtractedLineItem[] = [];
+
+    for (const line of lines) {
+      if (/\b(?:total|subtotal|tax|vat|due|balance)\b/i.test(line)) continue;
+
+      const match = line.match(row);
+      if (!match) continue;
+
+      const quantity = parseFloat(match[2]!);
+      const unitPrice = parseAmount(match[3]!);
+      const total = parseAmount(match[4]!);
+      if (unitPrice === null || total === null || quantity <= 0) continue;
+
+      // Rows whose quantity times price gives the line total are almost certainly items
+      const consistent = Math.abs(round(quantity * unitPrice) - total) <= this.config.amountTolerance;
+      items.push({ description: match[1]!.trim(), quantity, unitPrice, total, confidence: consistent ? 0.9 : 0.5 });
+    }
+
+    return items;
+  }
+}
+
+// Export singleton instance
+export const invoiceExtractionService = new InvoiceExtractionService();
@@ -1,5 +1,9 @@
 import { HederaService, InvoiceNFTData, HFSUploadResult, HCSMessageData } from './hedera';
 import { InvoiceService, InvoiceEventType, InvoiceStatus, CreateInvoiceSchema } from './invoices';
+import { outboxService, OutboxAction, OutboxStatus } from './outboxService';
+import { documentStoreService } from './documentStoreService';
+import { duplicateDetectionService } from './duplicateDetectionService';
+import { invoiceExtractionService, FieldMismatch } from './invoiceExtractionService';
 import { PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger';
 
@@ -39,6 +43,8 @@ export interface InvoiceHederaResult {
     transactionId: string;
     sequenceNumber: string;
   };
+  outbox?: Array<{ action: string; status: string; lastError: string | null; result: any }>;
+  extractionMismatches?: FieldMismatch[];
 }
 
 export class InvoiceHederaService {
@@ -62,14 +68,16 @@ export class InvoiceHederaService {
   }
 
   /**
-   * Create invoice with automatic Hedera integration
+   * Create invoice with automatic Hedera integration.
+   * The invoice and its Hedera writes (HFS upload, NFT mint, HCS status) are
+   * stored in one transaction through the outbox and executed right after;
+   * a write that fails stays queued and is retried by the outbox worker.
    */
   async createInvoiceWithHedera(data: CreateInvoiceWithHederaData): Promise<InvoiceHederaResult> {
     const config = { ...this.defaultConfig, ...data.config };
     const result: InvoiceHederaResult = { invoice: null };
 
     try {
-      // Step 1: Create invoice in database first
       const invoiceData = CreateInvoiceSchema.parse({
         invoiceNumber: data.invoiceNumber,
         supplierId: data.supplierId,
@@ -80,50 +88,44 @@ export class InvoiceHederaService {
         dueDate: data.dueDate.toISOString(),
         description: data.description
       });
-      
-      const invoice = await this.invoiceService.createInvoice(invoiceData);
 
-      result.invoice = invoice;
-      logger.info(`Invoice created: ${invoice.id}`);
+      // Refuse reused documents before anything is written
+      const screening = await duplicateDetectionService.screenNewInvoice({ ...invoiceData, file: data.pdfBuffer });
 
-      // Step 2: Upload PDF to HFS if provided
-      if (data.pdfBuffer && config.autoUploadToHFS) {
-        try {
-          const fileResult = await this.hederaService.uploadPdfToHfs(
-            data.pdfBuffer,
-            'application/pdf',
-            data.pdfFilename || `invoice-${data.invoiceNumber}.pdf`
-          );
-
-          result.fileResult = fileResult;
-
-          // Update invoice with file info
-          await this.invoiceService.updateInvoice(invoice.id, {
-            fileId: fileResult.fileId,
-            fileHash: fileResult.fileHashSha384,
-          });
+      // Flag entered values the PDF disagrees with before the NFT is minted
+      if (data.pdfBuffer) {
+        result.extractionMismatches = await this.checkAgainstDocument(data.pdfBuffer, data);
+      }
 
-          // Add event
-          await this.invoiceService.addInvoiceEvent(
-            invoice.id,
-            InvoiceEventType.FILE_UPLOADED,
-            `PDF uploaded to HFS: ${fileResult.fileId}`,
-            { fileId: fileResult.fileId, fileHash: fileResult.fileHashSha384 },
-            undefined,
-            undefined,
-            fileResult.transactionId
-          );
-
-          logger.info(`PDF uploaded to HFS: ${fileResult.fileId}`);
-        } catch (error) {
-          logger.error('Failed to upload PDF to HFS:', error);
-          // Continue with NFT minting even if file upload fails
+      // The outbox row carries a reference to the PDF, not its bytes
+      const filename = data.pdfFilename || `invoice-${data.invoiceNumber}.pdf`;
+      const stagedPdf = data.pdfBuffer && config.autoUploadToHFS
+        ? await documentStoreService.stage(data.pdfBuffer, { filename, memo: `Invoice ${data.invoiceNumber}` })
+        : null;
+
+      // Step 1: Create the invoice and enqueue its Hedera writes atomically
+      const invoice = await prisma.$transaction(async (tx) => {
+        const invoice = await this.invoiceService.createInvoice(invoiceData, tx);
+        const aggregate = { aggregateType: 'Invoice' as const, aggregateId: invoice.id, invoiceId: invoice.id };
+        await duplicateDetectionService.recordScreening(invoice.id, screening, tx);
+
+        // Step 2: Upload PDF to HFS if provided
+        if (stagedPdf) {
+          await outboxService.enqueue(tx, {
+            ...aggregate,
+            action: OutboxAction.HFS_UPLOAD,
+            idempotencyKey: `hfs-upload:${invoice.id}`,
+            payload: {
+              invoiceId: invoice.id,
+              staged: stagedPdf,
+              mimeType: 'application/pdf',
+              filename,
+            },
+          });
         }
-      }
 
-      // Step 3: Mint NFT if token ID is provided
-      if (config.nftTokenId && config.autoMintNFT) {
-        try {
+        // Step 3: Mint NFT if token ID is provided
+        if (config.nftTokenId && config.autoMintNFT) {
           const nftMetadata: InvoiceNFTData = {
             invoiceId: invoice.id,
             invoiceNumber: data.invoiceNumber,
@@ -132,94 +134,63 @@ export class InvoiceHederaService {
             dueDate: data.dueDate.toISOString(),
             supplierId: data.supplierId,
             buyerId: data.buyerId || '',
-            fileId: result.fileResult?.fileId,
-            fileHash: result.fileResult?.fileHashSha384,
-          };
-
-          const nftResult = await this.hederaService.mintInvoiceNFT(
-            config.nftTokenId,
-            nftMetadata
-          );
-
-          result.nftResult = {
-            tokenId: config.nftTokenId,
-            serialNumber: nftResult.serialNumber,
-            transactionId: nftResult.transactionId,
           };
 
-          // Update invoice with NFT info
-          await this.invoiceService.updateInvoice(invoice.id, {
-            nftTokenId: config.nftTokenId,
-            nftSerialNumber: nftResult.serialNumber,
+          await outboxService.enqueue(tx, {
+            ...aggregate,
+            action: OutboxAction.NFT_MINT,
+            idempotencyKey: `nft-mint:${invoice.id}`,
+            payload: { invoiceId: invoice.id, tokenId: config.nftTokenId, metadata: nftMetadata },
           });
+        }
 
-          // Add event
-          await this.invoiceService.addInvoiceEvent(
-            invoice.id,
-            InvoiceEventType.NFT_MINTED,
-            `NFT minted: ${config.nftTokenId}/${nftResult.serialNumber}`,
-            { tokenId: config.nftTokenId, serialNumber: nftResult.serialNumber },
-            undefined,
-            undefined,
-            nftResult.transactionId
-          );
-
-          logger.info(`NFT minted: ${config.nftTokenId}/${nftResult.serialNumber}`);
-        } catch (error) {
-          logger.error('Failed to mint NFT:', error);
-          // Continue with HCS submission even if NFT minting fails
+        // Step 4: Submit to HCS if topic ID is provided
+        if (config.topicId && config.autoSubmitToHCS) {
+          await outboxService.enqueue(tx, {
+            ...aggregate,
+            action: OutboxAction.HCS_STATUS_MESSAGE,
+            idempotencyKey: `hcs-status:${invoice.id}:issued`,
+            payload: { invoiceId: invoice.id, topicId: config.topicId, status: 'issued' },
+          });
         }
-      }
 
-      // Step 4: Submit to HCS if topic ID is provided
-      if (config.topicId && config.autoSubmitToHCS) {
-        try {
-          const hcsMessage: HCSMessageData = {
-            tokenId: result.nftResult?.tokenId || '',
-            serialNumber: result.nftResult?.serialNumber || '',
-            status: 'issued',
-            timestamp: new Date().toISOString(),
-            fileHash: result.fileResult?.fileHashSha384,
-            amount: data.amount.toString(),
-            currency: data.currency,
-          };
+        // Step 5: Update invoice status to ISSUED
+        await this.invoiceService.updateInvoiceStatus(
+          invoice.id,
+          InvoiceStatus.ISSUED,
+          'Invoice issued with Hedera integration',
+          undefined,
+          undefined,
+          tx
+        );
 
-          const hcsResult = await this.hederaService.submitInvoiceStatusMessage(
-            config.topicId,
-            hcsMessage
-          );
+        return invoice;
+      });
 
-          result.hcsResult = hcsResult;
+      logger.info(`Invoice created: ${invoice.id}`);
 
-          // Update invoice with topic info
-          await this.invoiceService.updateInvoice(invoice.id, {
-            topicId: config.topicId,
-          });
+      // Run the queued writes now; failures are left to the outbox worker
+      const messages = await outboxService.dispatchAggregate(invoice.id);
+      result.outbox = messages;
 
-          // Add event
-          await this.invoiceService.addInvoiceEvent(
-            invoice.id,
-            InvoiceEventType.CREATED,
-            `Status submitted to HCS: ${config.topicId}`,
-            { topicId: config.topicId, sequenceNumber: hcsResult.sequenceNumber },
-            hcsResult.sequenceNumber,
-            new Date(),
-            hcsResult.transactionId
-          );
-
-          logger.info(`Status submitted to HCS: ${config.topicId}`);
-        } catch (error) {
-          logger.error('Failed to submit to HCS:', error);
+      for (const message of messages) {
+        if (message.status !== OutboxStatus.COMPLETED) {
+          logger.warn({ invoiceId: invoice.id, action: message.action, error: message.lastError }, 'Hedera write queued for retry');
+          continue;
+        }
+        if (message.action === OutboxAction.HFS_UPLOAD) {
+          result.fileResult = message.result;
+        } else if (message.action === OutboxAction.NFT_MINT) {
+          result.nftResult = {
+            tokenId: message.result.tokenId,
+            serialNumber: message.result.serialNumber,
+            transactionId: message.result.transactionId,
+          };
+        } else if (message.action === OutboxAction.HCS_STATUS_MESSAGE) {
+          result.hcsResult = message.result;
         }
       }
 
-      // Step 5: Update invoice status to ISSUED
-      await this.invoiceService.updateInvoiceStatus(
-        invoice.id,
-        InvoiceStatus.ISSUED,
-        'Invoice issued with Hedera integration'
-      );
-
       // Refresh invoice data
       result.invoice = await this.invoiceService.getInvoiceById(invoice.id);
 
@@ -230,6 +201,30 @@ export class InvoiceHederaService {
     }
   }
 
+  /**
+   * Compare the entered invoice values with those read from its PDF.
+   * Extraction is advisory, so unreadable documents are not an error.
+   */
+  private async checkAgainstDocument(pdfBuffer: Buffer, data: CreateInvoiceWithHederaData): Promise<FieldMismatch[]> {
+    try {
+      const extraction = await invoiceExtractionService.extract(pdfBuffer);
+      const mismatches = invoiceExtractionService.compareWithEntered(extraction, {
+        invoiceNumber: data.invoiceNumber,
+        amount: data.amount,
+        currency: data.currency,
+        dueDate: data.dueDate
+      });
+
+      if (mismatches.length > 0) {
+        logger.warn({ invoiceNumber: data.invoiceNumber, mismatches }, 'Entered invoice values differ from the PDF');
+      }
+      return mismatches;
+    } catch (error) {
+      logger.warn({ invoiceNumber: data.invoiceNumber, error: error instanceof Error ? error.message : error }, 'Could not check invoice values against the PDF');
+      return [];
+    }
+  }
+
   /**
    * Update invoice status with HCS submission
    */
@@ -246,29 +241,29 @@ export class InvoiceHederaService {
 
       // Submit status change to HCS if topic ID exists
       if (invoice.topicId && invoice.nftTokenId && invoice.nftSerialNumber) {
-        const hcsMessage: HCSMessageData = {
-          tokenId: invoice.nftTokenId,
-          serialNumber: invoice.nftSerialNumber,
-          status: status.toLowerCase() as any,
-          timestamp: new Date().toISOString(),
-          fileHash: invoice.fileHash || undefined,
-          amount: invoice.amount.toString(),
-          currency: invoice.currency,
-        };
-
-        const hcsResult = await this.hederaService.submitInvoiceStatusMessage(
-          invoice.topicId,
-          hcsMessage
-        );
+        const topicId = invoice.topicId;
 
-        // Update invoice status with HCS info
-        await this.invoiceService.updateInvoiceStatus(
-          invoiceId,
-          status,
-          description,
-          hcsResult.sequenceNumber,
-          hcsResult.transactionId
-        );
+        await prisma.$transaction(async (tx) => {
+          await this.invoiceService.updateInvoiceStatus(invoiceId, status, description, undefined, undefined, tx);
+
+          // The status event gets its sequence number once the message is on HCS
+          const statusEvent = await tx.invoiceEvent.findFirst({
+            where: { invoiceId },
+            orderBy: { createdAt: 'desc' },
+            select: { id: true },
+          });
+
+          await outboxService.enqueue(tx, {
+            action: OutboxAction.HCS_STATUS_MESSAGE,
+            aggregateType: 'Invoice',
+            aggregateId: invoiceId,
+            invoiceId,
+            idempotencyKey: `hcs-status:${invoiceId}:${statusEvent?.id}`,
+            payload: { invoiceId, topicId, status: status.toLowerCase(), invoiceEventId: statusEvent?.id },
+          });
+        });
+
+        await outboxService.dispatchAggregate(invoiceId);
 
         logger.info(`Invoice ${invoiceId} status updated to ${status} with HCS`);
       } else {
@@ -430,6 +425,8 @@ export class InvoiceHederaService {
     escrowAccountId: string;
   }> {
     try {
+      await duplicateDetectionService.assertFundable(data.invoiceId);
+
       // Prepare fund transaction
       const result = await this.hederaService.prepareFundTransaction(
         data.invoiceId,
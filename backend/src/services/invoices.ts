@@ -1,5 +1,6 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { z } from 'zod';
+import { fxService } from './fxService';
 
 const prisma = new PrismaClient();
 
@@ -18,8 +19,19 @@ export enum InvoiceEventType {
   FILE_UPLOADED = 'FILE_UPLOADED',
   FUNDING_REQUESTED = 'FUNDING_REQUESTED',
   FUNDED = 'FUNDED',
+  FUNDING_REFUNDED = 'FUNDING_REFUNDED',
   PAYMENT_RECEIVED = 'PAYMENT_RECEIVED',
+  SETTLEMENT_PAID = 'SETTLEMENT_PAID',
   OVERDUE = 'OVERDUE',
+  OVERDUE_REMINDER = 'OVERDUE_REMINDER',
+  LATE_FEE_ACCRUED = 'LATE_FEE_ACCRUED',
+  DEFAULTED = 'DEFAULTED',
+  DISPUTE_RAISED = 'DISPUTE_RAISED',
+  DISPUTE_RESOLVED = 'DISPUTE_RESOLVED',
+  NFT_TRANSFERRED = 'NFT_TRANSFERRED',
+  LISTED = 'LISTED',
+  BID_ACCEPTED = 'BID_ACCEPTED',
+  BUYER_ACKNOWLEDGED = 'BUYER_ACKNOWLEDGED',
   CANCELLED = 'CANCELLED'
 }
 
@@ -30,7 +42,9 @@ export const CreateInvoiceSchema = z.object({
   buyerId: z.string().optional(),
   agentId: z.string().optional(),
   amount: z.string().transform(val => parseFloat(val)),
-  currency: z.string().default('HBAR'),
+  currency: z.string().default('HBAR')
+    .transform(val => val.toUpperCase())
+    .refine(val => fxService.isSupported(val), { message: 'Currency has no exchange rate to HBAR' }),
   dueDate: z.string().transform(val => new Date(val)),
   description: z.string().optional(),
   // Hedera fields
@@ -48,6 +62,7 @@ export const UpdateInvoiceSchema = z.object({
   nftSerialNumber: z.string().optional(),
   fileId: z.string().optional(),
   fileHash: z.string().optional(),
+  fileCiphertextHash: z.string().optional(),
   topicId: z.string().optional(),
 });
 
@@ -57,18 +72,24 @@ export type UpdateInvoiceData = z.infer<typeof UpdateInvoiceSchema>;
 export class InvoiceService {
   /**
    * Get all invoices with pagination
+   * @param riskGrades Only invoices last scored with one of these risk grades
    */
-  async getAllInvoices(page = 1, limit = 10) {
+  async getAllInvoices(page = 1, limit = 10, riskGrades?: string[]) {
     const skip = (page - 1) * limit;
+    const where: Prisma.InvoiceWhereInput = riskGrades ? { riskGrade: { in: riskGrades } } : {};
     
     const [invoices, total] = await Promise.all([
       prisma.invoice.findMany({
+        where,
         skip,
         take: limit,
         include: {
           supplier: {
             select: { id: true, name: true, email: true }
           },
+          buyer: {
+            select: { id: true, name: true }
+          },
           agent: {
             select: { id: true, name: true, email: true }
           },
@@ -86,12 +107,13 @@ export class InvoiceService {
         },
         orderBy: { createdAt: 'desc' }
       }),
-      prisma.invoice.count()
+      prisma.invoice.count({ where })
     ]);
 
     // Add Hedera proof links to each invoice
     const invoicesWithProofLinks = invoices.map(invoice => ({
       ...invoice,
+      buyerVerified: invoice.buyerAcknowledgedAt !== null,
       proofLinks: this.generateProofLinks(invoice)
     }));
 
@@ -131,13 +153,13 @@ export class InvoiceService {
       });
     }
 
-    // HFS file proof link
+    // HFS file proof link; an encrypted file is verified by its ciphertext hash
     if (invoice.fileId) {
       proofLinks.push({
         type: 'hfs',
         label: `File ${invoice.fileId}`,
         url: `${baseHashScanUrl}/file/${invoice.fileId}`,
-        hash: invoice.fileHash || invoice.fileId,
+        hash: invoice.fileCiphertextHash || invoice.fileHash || invoice.fileId,
         timestamp: invoice.createdAt
       });
       
@@ -146,7 +168,7 @@ export class InvoiceService {
         type: 'mirror',
         label: 'Mirror Node File',
         url: `${baseMirrorUrl}/files/${invoice.fileId}`,
-        hash: invoice.fileHash || invoice.fileId,
+        hash: invoice.fileCiphertextHash || invoice.fileHash || invoice.fileId,
         timestamp: invoice.createdAt
       });
     }
@@ -199,9 +221,15 @@ export class InvoiceService {
         supplier: {
           select: { id: true, name: true, email: true, accountId: true }
         },
+        buyer: {
+          select: { id: true, name: true, accountId: true }
+        },
         agent: {
           select: { id: true, name: true, email: true, accountId: true }
         },
+        acknowledgement: {
+          select: { accountId: true, messageHash: true, signature: true, topicId: true, acknowledgedAt: true }
+        },
         events: {
           orderBy: { createdAt: 'desc' }
         },
@@ -222,6 +250,7 @@ export class InvoiceService {
     // Add Hedera proof links
     return {
       ...invoice,
+      buyerVerified: invoice.buyerAcknowledgedAt !== null,
       proofLinks: this.generateProofLinks(invoice)
     };
   }
@@ -229,8 +258,8 @@ export class InvoiceService {
   /**
    * Create new invoice
    */
-  async createInvoice(data: CreateInvoiceData) {
-    return prisma.invoice.create({
+  async createInvoice(data: CreateInvoiceData, db: Prisma.TransactionClient = prisma) {
+    return db.invoice.create({
       data: {
         invoiceNumber: data.invoiceNumber,
         supplierId: data.supplierId,
@@ -260,8 +289,8 @@ export class InvoiceService {
   /**
    * Update invoice
    */
-  async updateInvoice(id: string, data: UpdateInvoiceData) {
-    return prisma.invoice.update({
+  async updateInvoice(id: string, data: UpdateInvoiceData, db: Prisma.TransactionClient = prisma) {
+    return db.invoice.update({
       where: { id },
       data,
       include: {
@@ -298,9 +327,10 @@ export class InvoiceService {
     metadata?: any,
     hcsMessageId?: string,
     hcsTimestamp?: Date,
-    transactionId?: string
+    transactionId?: string,
+    db: Prisma.TransactionClient = prisma
   ) {
-    return prisma.invoiceEvent.create({
+    return db.invoiceEvent.create({
       data: {
         invoiceId,
         eventType,
@@ -392,10 +422,11 @@ export class InvoiceService {
     status: InvoiceStatus,
     description?: string,
     hcsMessageId?: string,
-    transactionId?: string
+    transactionId?: string,
+    db: Prisma.TransactionClient = prisma
   ) {
     const [updatedInvoice] = await Promise.all([
-      this.updateInvoice(id, { status }),
+      this.updateInvoice(id, { status }, db),
       this.addInvoiceEvent(
         id,
         this.getEventTypeFromStatus(status),
@@ -403,7 +434,8 @@ export class InvoiceService {
         { status, previousStatus: status },
         hcsMessageId,
         new Date(),
-        transactionId
+        transactionId,
+        db
       )
     ]);
 
@@ -0,0 +1,193 @@
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger';
+import { Clock, systemClock } from '../utils/clock';
+import { PubSubConfig, PubSubDriver, RedisClientLike, createRedisClient, loadPubSubConfig } from './pubSubService';
+
+/**
+ * Time-limited leases, one holder per name. Acquiring a lease already held
+ * by the same owner renews it.
+ */
+export interface LeaseStore {
+  tryAcquire(name: string, owner: string, ttlMs: number): Promise<boolean>;
+  release(name: string, owner: string): Promise<void>;
+}
+
+export interface LeaderElectionConfig {
+  ttl: number; // milliseconds a lease lasts without renewal
+  renewInterval: number; // milliseconds between acquire/renew attempts
+}
+
+export interface LeaderCallbacks {
+  onElected: () => void | Promise<void>;
+  onRevoked: () => void | Promise<void>;
+}
+
+export function loadLeaderElectionConfig(): LeaderElectionConfig {
+  return {
+    ttl: parseInt(process.env.LEADER_LEASE_TTL || '30000'),
+    renewInterval: parseInt(process.env.LEADER_RENEW_INTERVAL || '10000'),
+  };
+}
+
+const leaseKey = (name: string) => `leader:${name}`;
+
+/**
+ * Leases for a single process
+ */
+export class InMemoryLeaseStore implements LeaseStore {
+  private leases: Map<string, { owner: string; expiresAt: number }> = new Map();
+
+  constructor(private clock: Clock = systemClock) {}
+
+  async tryAcquire(name: string, owner: string, ttlMs: number): Promise<boolean> {
+    const now = this.clock.now().getTime();
+    const lease = this.leases.get(name);
+    if (lease && lease.owner !== owner && lease.expiresAt > now) {
+      return false;
+    }
+
+    this.leases.set(name, { owner, expiresAt: now + ttlMs });
+    return true;
+  }
+
+  async release(name: string, owner: string): Promise<void> {
+    if (this.leases.get(name)?.owner === owner) {
+      this.leases.delete(name);
+    }
+  }
+}
+
+// Extend the lease only if this owner still holds it
+const RENEW_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+// Delete the lease only if this owner still holds it
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+/**
+ * Leases shared by every replica, stored as Redis keys that expire
+ */
+export class RedisLeaseStore implements LeaseStore {
+  constructor(private client: RedisClientLike) {}
+
+  async tryAcquire(name: string, owner: string, ttlMs: number): Promise<boolean> {
+    const acquired = await this.client.set(leaseKey(name), owner, 'PX', ttlMs, 'NX');
+    if (acquired === 'OK') {
+      return true;
+    }
+
+    const renewed = await this.client.eval(RENEW_SCRIPT, 1, leaseKey(name), owner, ttlMs);
+    return Number(renewed) === 1;
+  }
+
+  async release(name: string, owner: string): Promise<void> {
+    await this.client.eval(RELEASE_SCRIPT, 1, leaseKey(name), owner);
+  }
+}
+
+export function createLeaseStore(config: PubSubConfig = loadPubSubConfig()): LeaseStore {
+  if (config.driver === PubSubDriver.REDIS) {
+    if (!config.redisUrl) {
+      throw new Error('REDIS_URL must be set when PUBSUB_DRIVER is redis');
+    }
+    return new RedisLeaseStore(createRedisClient(config.redisUrl));
+  }
+
+  return new InMemoryLeaseStore();
+}
+
+// Export singleton instance
+export const leaseStore = createLeaseStore();
+
+/**
+ * Runs a job on one replica at a time. Each replica keeps trying to take
+ * or renew the lease; the holder runs onElected, and stops the job through
+ * onRevoked as soon as a renewal fails, before the lease can pass on.
+ */
+export class LeaderElector {
+  private timer: NodeJS.Timeout | null = null;
+  private leader: boolean = false;
+  private checking: boolean = false;
+  private readonly owner: string = randomUUID();
+
+  constructor(
+    private name: string,
+    private callbacks: LeaderCallbacks,
+    private store: LeaseStore = leaseStore,
+    private config: LeaderElectionConfig = loadLeaderElectionConfig()
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      if (!this.checking) {
+        this.runOnce();
+      }
+    }, this.config.renewInterval);
+    this.runOnce();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.leader) {
+      await this.revoke();
+      try {
+        await this.store.release(this.name, this.owner);
+      } catch (error) {
+        logger.error({ name: this.name, error: error instanceof Error ? error.message : String(error) }, 'Failed to release leadership');
+      }
+    }
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Acquire or renew the lease once
+   */
+  async runOnce(): Promise<boolean> {
+    this.checking = true;
+    try {
+      let acquired = false;
+      try {
+        acquired = await this.store.tryAcquire(this.name, this.owner, this.config.ttl);
+      } catch (error) {
+        // Treat an unreachable store as a lost lease; another replica may take over
+        logger.error({ name: this.name, error: error instanceof Error ? error.message : String(error) }, 'Leader lease check failed');
+      }
+
+      if (acquired && !this.leader) {
+        this.leader = true;
+        logger.info({ name: this.name, owner: this.owner }, 'Elected leader');
+        await this.callbacks.onElected();
+      } else if (!acquired && this.leader) {
+        await this.revoke();
+      }
+
+      return this.leader;
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async revoke(): Promise<void> {
+    this.leader = false;
+    logger.info({ name: this.name, owner: this.owner }, 'Leadership revoked');
+    await this.callbacks.onRevoked();
+  }
+}
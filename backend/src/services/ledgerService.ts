@@ -0,0 +1,590 @@
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { ValidationError } from '../middleware/errorHandler';
+import { FxSnapshotPurpose, SETTLEMENT_CURRENCY } from './fxService';
+
+const prisma = new PrismaClient();
+
+// Define enums locally since they're not exported from Prisma client
+export enum LedgerAccount {
+  EXTERNAL = 'EXTERNAL', // the investor's wallet, outside the platform
+  AVAILABLE = 'AVAILABLE', // cash free to commit
+  COMMITTED = 'COMMITTED', // committed to a funding, not yet in escrow
+  ESCROW = 'ESCROW', // locked in the escrow contract
+  INVESTED = 'INVESTED', // released to the supplier, awaiting invoice payment
+  FEES = 'FEES', // fees charged to the investor
+  INCOME = 'INCOME' // returns earned on settled fundings
+}
+
+export enum LedgerEntryType {
+  DEPOSIT = 'DEPOSIT',
+  FUNDING_COMMITMENT = 'FUNDING_COMMITMENT',
+  ESCROW_LOCK = 'ESCROW_LOCK',
+  RELEASE = 'RELEASE',
+  REFUND = 'REFUND',
+  FEE = 'FEE',
+  SETTLEMENT = 'SETTLEMENT',
+  POSITION_SALE = 'POSITION_SALE',
+  POSITION_PURCHASE = 'POSITION_PURCHASE',
+  DISPUTE_LOSS = 'DISPUTE_LOSS'
+}
+
+// Accounts whose natural balance is a credit; reported with the sign flipped
+const CREDIT_ACCOUNTS = [LedgerAccount.EXTERNAL, LedgerAccount.INCOME];
+
+export interface LedgerPosting {
+  account: LedgerAccount;
+  amount: number; // debit positive, credit negative
+}
+
+export interface JournalInput {
+  journalId: string;
+  investorId: string;
+  entryType: LedgerEntryType;
+  postings: LedgerPosting[];
+  fundingId?: string;
+  invoiceId?: string;
+  reference?: string;
+  description?: string;
+  createdAt?: Date;
+}
+
+export interface InvestorBalances {
+  deposited: number; // net cash brought in from the wallet
+  available: number;
+  committed: number;
+  escrow: number;
+  invested: number;
+  fees: number;
+  income: number;
+}
+
+/** The funding fields the ledger needs to post its movements */
+export interface LedgerFunding {
+  id: string;
+  investorId: string;
+  invoiceId: string;
+  amount: number; // in the funding's currency
+  hbarAmount?: number | null; // HBAR deposited into escrow
+  expectedReturn?: number | null;
+  holderId?: string | null; // set once the position was sold on
+}
+
+const roundAmount = (value: number) => Math.round(value * 1e8) / 1e8;
+
+/** The investor whose ledger a funding's payouts post to */
+const holderOf = (funding: LedgerFunding) => funding.holderId || funding.investorId;
+
+/**
+ * Sum ledger rows into per-account balances
+ * @param rows Account totals or individual entries
+ */
+export function deriveBalances(rows: Array<{ account: string; amount: number }>): InvestorBalances {
+  const totals: Record<string, number> = {};
+  for (const row of rows) {
+    totals[row.account] = (totals[row.account] || 0) + row.amount;
+  }
+
+  const balance = (account: LedgerAccount) => {
+    const total = roundAmount(totals[account] || 0);
+    return CREDIT_ACCOUNTS.includes(account) ? -total || 0 : total;
+  };
+
+  return {
+    deposited: balance(LedgerAccount.EXTERNAL),
+    available: balance(LedgerAccount.AVAILABLE),
+    committed: balance(LedgerAccount.COMMITTED),
+    escrow: balance(LedgerAccount.ESCROW),
+    invested: balance(LedgerAccount.INVESTED),
+    fees: balance(LedgerAccount.FEES),
+    income: balance(LedgerAccount.INCOME),
+  };
+}
+
+export class LedgerService {
+  /**
+   * Post a balanced journal. Journal IDs are deterministic per movement, so
+   * posting the same movement twice leaves the ledger unchanged.
+   * @param journal Journal legs and metadata
+   * @returns false when the journal was already posted
+   */
+  async post(journal: JournalInput): Promise<boolean> {
+    const postings = journal.postings
+      .map(p => ({ account: p.account, amount: roundAmount(p.amount) }))
+      .filter(p => p.amount !== 0);
+
+    if (postings.length < 2) {
+      throw new ValidationError('A journal needs at least two non-zero postings');
+    }
+
+    const total = roundAmount(postings.reduce((sum, p) => sum + p.amount, 0));
+    if (total !== 0) {
+      throw new ValidationError(`Journal ${journal.journalId} is unbalanced by ${total}`);
+    }
+
+    try {
+      await prisma.$transaction(postings.map(p => prisma.ledgerEntry.create({
+        data: {
+          journalId: journal.journalId,
+          investorId: journal.investorId,
+          account: p.account,
+          entryType: journal.entryType,
+          amount: p.amount,
+          fundingId: journal.fundingId,
+          invoiceId: journal.invoiceId,
+          reference: journal.reference,
+          description: journal.description,
+          createdAt: journal.createdAt,
+        }
+      })));
+    } catch (error: any) {
+      // Unique constraint on (journalId, account): already posted
+      if (error?.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+
+    logger.debug({ journalId: journal.journalId, entryType: journal.entryType, investorId: journal.investorId }, 'Ledger journal posted');
+    return true;
+  }
+
+  /**
+   * Record cash brought onto the platform from the investor's wallet
+   * @param investorId User ID of the investor
+   * @param amount Amount deposited
+   * @param reference Transaction hash or other unique reference
+   */
+  async recordDeposit(investorId: string, amount: number, reference: string, description?: string, createdAt?: Date): Promise<boolean> {
+    if (amount <= 0) {
+      throw new ValidationError('Deposit amount must be greater than 0');
+    }
+
+    return this.postAndSync({
+      journalId: `deposit:${reference}`,
+      investorId,
+      entryType: LedgerEntryType.DEPOSIT,
+      postings: [
+        { account: LedgerAccount.AVAILABLE, amount },
+        { account: LedgerAccount.EXTERNAL, amount: -amount },
+      ],
+      reference,
+      description: description || 'Deposit',
+      createdAt,
+    });
+  }
+
+  /**
+   * Commit available cash to a funding. Fundings are paid straight from the
+   * investor's wallet, so any shortfall is first recorded as a deposit.
+   * The ledger is kept in HBAR, so fiat fundings commit the HBAR they deposited.
+   */
+  async recordFundingCommitment(funding: LedgerFunding, reference?: string, createdAt?: Date): Promise<boolean> {
+    const journalId = `commitment:${funding.id}`;
+    if (await prisma.ledgerEntry.findFirst({ where: { journalId } })) {
+      return false;
+    }
+
+    const amount = funding.hbarAmount ?? funding.amount;
+    const { available } = await this.getBalances(funding.investorId);
+    const shortfall = roundAmount(amount - Math.max(available, 0));
+    if (shortfall > 0) {
+      await this.recordDeposit(funding.investorId, shortfall, `funding:${funding.id}`, 'Wallet payment for funding', createdAt);
+    }
+
+    return this.postAndSync({
+      journalId,
+      investorId: funding.investorId,
+      entryType: LedgerEntryType.FUNDING_COMMITMENT,
+      postings: [
+        { account: LedgerAccount.COMMITTED, amount },
+        { account: LedgerAccount.AVAILABLE, amount: -amount },
+      ],
+      fundingId: funding.id,
+      invoiceId: funding.invoiceId,
+      reference,
+      description: 'Funding commitment',
+      createdAt,
+    });
+  }
+
+  /**
+   * Move a committed funding into escrow once the contract holds the funds
+   */
+  async recordEscrowLock(funding: LedgerFunding, reference?: string, createdAt?: Date): Promise<boolean> {
+    const position = await this.getFundingBalances(funding.id, funding.investorId);
+    if (position.committed <= 0) {
+      return false;
+    }
+
+    return this.postAndSync({
+      journalId: `escrow-lock:${funding.id}`,
+      investorId: funding.investorId,
+      entryType: LedgerEntryType.ESCROW_LOCK,
+      postings: [
+        { account: LedgerAccount.ESCROW, amount: position.committed },
+        { account: LedgerAccount.COMMITTED, amount: -position.committed },
+      ],
+      fundingId: funding.id,
+      invoiceId: funding.invoiceId,
+      reference,
+      description: 'Escrow lock',
+      createdAt,
+    });
+  }
+
+  /**
+   * Escrow released to the supplier; the funding becomes an outstanding position
+   */
+  async recordRelease(funding: LedgerFunding, reference?: string, createdAt?: Date): Promise<boolean> {
+    const investorId = holderOf(funding);
+    const position = await this.getFundingBalances(funding.id, investorId);
+    if (position.escrow <= 0) {
+      return false;
+    }
+
+    return this.postAndSync({
+      journalId: `release:${funding.id}`,
+      investorId,
+      entryType: LedgerEntryType.RELEASE,
+      postings: [
+        { account: LedgerAccount.INVESTED, amount: position.escrow },
+        { account: LedgerAccount.ESCROW, amount: -position.escrow },
+      ],
+      fundingId: funding.id,
+      invoiceId: funding.invoiceId,
+      reference,
+      description: 'Escrow released to supplier',
+      createdAt,
+    });
+  }
+
+  /**
+   * Write off the escrow an investor lost when a dispute awarded it to the
+   * supplier. The loss is charged against income rather than held as an
+   * investment, so the position never settles.
+   */
+  async recordDisputeLoss(funding: LedgerFunding, reference?: string, createdAt?: Date): Promise<boolean> {
+    const investorId = holderOf(funding);
+    const position = await this.getFundingBalances(funding.id, investorId);
+    if (position.escrow <= 0) {
+      return false;
+    }
+
+    return this.postAndSync({
+      journalId: `dispute-loss:${funding.id}`,
+      investorId,
+      entryType: LedgerEntryType.DISPUTE_LOSS,
+      postings: [
+        { account: LedgerAccount.INCOME, amount: position.escrow },
+        { account: LedgerAccount.ESCROW, amount: -position.escrow },
+      ],
+      fundingId: funding.id,
+      invoiceId: funding.invoiceId,
+      reference,
+      description: 'Escrow awarded to supplier in dispute',
+      createdAt,
+    });
+  }
+
+  /**
+   * Return what is still committed or in escrow for a funding, or only part
+   * of it when a dispute splits the escrow
+   * @param amount Amount refunded; defaults to everything still held
+   */
+  async recordRefund(funding: LedgerFunding, reference?: string, createdAt?: Date, amount?: number): Promise<boolean> {
+    const investorId = holderOf(funding);
+    const position = await this.getFundingBalances(funding.id, investorId);
+    const held = roundAmount(position.committed + position.escrow);
+    const refund = Math.min(amount ?? held, held);
+    if (refund <= 0) {
+      return false;
+    }
+
+    // Escrowed funds go back first, then anything not yet locked
+    const fromEscrow = Math.min(position.escrow, refund);
+    const fromCommitted = roundAmount(refund - fromEscrow);
+
+    return this.postAndSync({
+      journalId: `refund:${funding.id}`,
+      investorId,
+      entryType: LedgerEntryType.REFUND,
+      postings: [
+        { account: LedgerAccount.AVAILABLE, amount: refund },
+        { account: LedgerAccount.COMMITTED, amount: -fromCommitted },
+        { account: LedgerAccount.ESCROW, amount: -fromEscrow },
+      ],
+      fundingId: funding.id,
+      invoiceId: funding.invoiceId,
+      reference,
+      description: 'Funding refunded',
+      createdAt,
+    });
+  }
+
+  /**
+   * Charge a fee against the investor's available cash
+   * @param reference Unique reference for the charge
+   */
+  async recordFee(
+    investorId: string,
+    amount: number,
+    reference: string,
+    options: { fundingId?: string; invoiceId?: string; description?: string } = {}
+  ): Promise<boolean> {
+    if (amount <= 0) {
+      throw new ValidationError('Fee amount must be greater than 0');
+    }
+
+    return this.postAndSync({
+      journalId: `fee:${reference}`,
+      investorId,
+      entryType: LedgerEntryType.FEE,
+      postings: [
+        { account: LedgerAccount.FEES, amount },
+        { account: LedgerAccount.AVAILABLE, amount: -amount },
+      ],
+      fundingId: options.fundingId,
+      invoiceId: options.invoiceId,
+      reference,
+      description: options.description || 'Platform fee',
+    });
+  }
+
+  /**
+   * Invoice paid: principal plus the funding's return comes back as available
+   * cash to whoever holds the position. A bought position pays out the
+   * funding's face value, so its income is the discount it was bought at.
+   * @param hbarRate HBAR per unit of a fiat funding's currency at settlement;
+   * the face value is paid out at this rate, so income includes the FX gain or loss
+   */
+  async recordSettlement(funding: LedgerFunding, reference?: string, createdAt?: Date, hbarRate?: number): Promise<boolean> {
+    const investorId = holderOf(funding);
+    const position = await this.getFundingBalances(funding.id, investorId);
+    const principal = roundAmount(position.committed + position.escrow + position.invested);
+    if (principal <= 0) {
+      return false;
+    }
+
+    const payout = funding.holderId || hbarRate !== undefined
+      ? roundAmount((funding.amount + (funding.expectedReturn || 0)) * (hbarRate ?? 1))
+      : roundAmount(principal + (funding.expectedReturn || 0));
+    const income = roundAmount(payout - principal);
+
+    return this.postAndSync({
+      journalId: `settlement:${funding.id}`,
+      investorId,
+      entryType: LedgerEntryType.SETTLEMENT,
+      postings: [
+        { account: LedgerAccount.AVAILABLE, amount: payout },
+        { account: LedgerAccount.COMMITTED, amount: -position.committed },
+        { account: LedgerAccount.ESCROW, amount: -position.escrow },
+        { account: LedgerAccount.INVESTED, amount: -position.invested },
+        { account: LedgerAccount.INCOME, amount: -income },
+      ],
+      fundingId: funding.id,
+      invoiceId: funding.invoiceId,
+      reference,
+      description: 'Invoice settled',
+      createdAt,
+    });
+  }
+
+  /**
+   * Move a position to the investor who bought the invoice NFT. The seller
+   * books the proceeds against their cost, the gain or loss going to income;
+   * the buyer pays from their wallet and holds the position at that price.
+   * @param price Proceeds in the funding's currency; a transfer without
+   * consideration moves the position at cost
+   * @param reference Unique reference of the transfer, such as its consensus timestamp
+   * @returns false when the seller holds nothing or the transfer was already posted
+   */
+  async recordPositionTransfer(
+    funding: LedgerFunding,
+    sellerId: string,
+    buyerId: string,
+    price: number | null | undefined,
+    reference: string,
+    createdAt?: Date
+  ): Promise<boolean> {
+    const position = await this.getFundingBalances(funding.id, sellerId);
+    const cost = roundAmount(position.committed + position.escrow + position.invested);
+    if (cost <= 0) {
+      return false;
+    }
+
+    const proceeds = price ?? cost;
+    // The buyer's position stays wherever the seller's was: in escrow until release
+    const heldAccount = position.invested > 0 ? LedgerAccount.INVESTED : LedgerAccount.ESCROW;
+
+    const sold = await this.postAndSync({
+      journalId: `position-sale:${funding.id}:${reference}`,
+      investorId: sellerId,
+      entryType: LedgerEntryType.POSITION_SALE,
+      postings: [
+        { account: LedgerAccount.AVAILABLE, amount: proceeds },
+        { account: LedgerAccount.COMMITTED, amount: -position.committed },
+        { account: LedgerAccount.ESCROW, amount: -position.escrow },
+        { account: LedgerAccount.INVESTED, amount: -position.invested },
+        { account: LedgerAccount.INCOME, amount: -(proceeds - cost) },
+      ],
+      fundingId: funding.id,
+      invoiceId: funding.invoiceId,
+      reference,
+      description: 'Invoice position sold',
+      createdAt,
+    });
+
+    if (!sold) {
+      return false;
+    }
+
+    await this.postAndSync({
+      journalId: `position-purchase:${funding.id}:${reference}`,
+      investorId: buyerId,
+      entryType: LedgerEntryType.POSITION_PURCHASE,
+      postings: [
+        { account: heldAccount, amount: proceeds },
+        { account: LedgerAccount.EXTERNAL, amount: -proceeds },
+      ],
+      fundingId: funding.id,
+      invoiceId: funding.invoiceId,
+      reference,
+      description: 'Invoice position bought',
+      createdAt,
+    });
+
+    return true;
+  }
+
+  /**
+   * Current balances of an investor, derived from the ledger
+   * @param investorId User ID of the investor
+   */
+  async getBalances(investorId: string): Promise<InvestorBalances> {
+    const totals = await prisma.ledgerEntry.groupBy({
+      by: ['account'],
+      where: { investorId },
+      _sum: { amount: true },
+    });
+
+    return deriveBalances(totals.map(t => ({ account: t.account, amount: t._sum.amount || 0 })));
+  }
+
+  /**
+   * Ledger entries of an investor, newest first
+   */
+  async getEntries(investorId: string, options: { limit?: number; offset?: number } = {}) {
+    const [entries, total] = await Promise.all([
+      prisma.ledgerEntry.findMany({
+        where: { investorId },
+        orderBy: [{ createdAt: 'desc' }, { journalId: 'asc' }],
+        take: options.limit ?? 50,
+        skip: options.offset ?? 0,
+      }),
+      prisma.ledgerEntry.count({ where: { investorId } }),
+    ]);
+
+    return { entries, total };
+  }
+
+  /**
+   * Write the ledger-derived balances onto the Investor profile.
+   * totalReturns stays with pricingService, which prices realized returns.
+   * @param investorId User ID of the investor
+   */
+  async syncInvestorBalances(investorId: string): Promise<InvestorBalances> {
+    const balances = await this.getBalances(investorId);
+
+    await prisma.investor.updateMany({
+      where: { userId: investorId },
+      data: {
+        availableBalance: balances.available,
+        totalInvested: roundAmount(balances.committed + balances.escrow + balances.invested),
+      }
+    });
+
+    return balances;
+  }
+
+  /**
+   * Post any movements missing from the ledger by replaying the investor's
+   * fundings. Safe to run repeatedly.
+   * @param investorId User ID of the investor
+   * @returns Number of journals posted
+   */
+  async reconcileInvestor(investorId: string): Promise<number> {
+    const fundings = await prisma.funding.findMany({
+      where: { investorId },
+      include: {
+        fxSnapshots: { where: { purpose: FxSnapshotPurpose.SETTLEMENT } },
+        disputes: { where: { status: 'RESOLVED' } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    let posted = 0;
+    for (const funding of fundings) {
+      const fundedAt = funding.fundedAt || funding.createdAt;
+      const steps: Array<() => Promise<boolean>> = [
+        () => this.recordFundingCommitment(funding, funding.transactionHash || undefined, fundedAt),
+        () => this.recordEscrowLock(funding, funding.transactionHash || undefined, fundedAt),
+      ];
+
+      const dispute = funding.disputes[0];
+      if (dispute) {
+        const reference = dispute.resolveTransactionHash || undefined;
+        const resolvedAt = dispute.resolvedAt || funding.updatedAt;
+        if (dispute.investorAmount) {
+          steps.push(() => this.recordRefund(funding, reference, resolvedAt, dispute.investorAmount!));
+        }
+        if (funding.status !== 'REFUNDED') {
+          steps.push(() => this.recordDisputeLoss(funding, reference, resolvedAt));
+        }
+      } else if (funding.status === 'REFUNDED' || funding.status === 'CANCELLED') {
+        steps.push(() => this.recordRefund(funding, funding.refundTransactionHash || undefined, funding.refundedAt || funding.updatedAt));
+      } else {
+        if (funding.releasedAt) {
+          steps.push(() => this.recordRelease(funding, funding.releaseTransactionHash || undefined, funding.releasedAt!));
+        }
+        if (funding.settledAt) {
+          const hbarRate = funding.currency !== SETTLEMENT_CURRENCY ? funding.fxSnapshots[0]?.rate : undefined;
+          steps.push(() => this.recordSettlement(funding, undefined, funding.settledAt!, hbarRate));
+        }
+      }
+
+      for (const step of steps) {
+        if (await step()) {
+          posted++;
+        }
+      }
+    }
+
+    logger.info({ investorId, fundings: fundings.length, posted }, 'Investor ledger reconciled');
+    return posted;
+  }
+
+  private async postAndSync(journal: JournalInput): Promise<boolean> {
+    const posted = await this.post(journal);
+    if (posted) {
+      await this.syncInvestorBalances(journal.investorId);
+    }
+    return posted;
+  }
+
+  /**
+   * Balances of one funding, optionally for one investor once the position
+   * has changed hands
+   */
+  private async getFundingBalances(fundingId: string, investorId?: string): Promise<InvestorBalances> {
+    const totals = await prisma.ledgerEntry.groupBy({
+      by: ['account'],
+      where: { fundingId, ...(investorId && { investorId }) },
+      _sum: { amount: true },
+    });
+
+    return deriveBalances(totals.map(t => ({ account: t.account, amount: t._sum.amount || 0 })));
+  }
+}
+
+export const ledgerService = new LedgerService();
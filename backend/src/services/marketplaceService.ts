@@ -0,0 +1,581 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { fundingService } from './fundingService';
+import { hcsTopicsService } from './hcsTopics';
+import { invoiceService, InvoiceStatus, InvoiceEventType } from './invoices';
+import { outboxService, OutboxAction } from './outboxService';
+import { pricingService, maxPrincipal } from './pricingService';
+import { RiskLevel, gradesForTolerance } from './riskScoringService';
+import { logger } from '../utils/logger';
+import { ValidationError, NotFoundError, ConflictError, AuthorizationError } from '../middleware/errorHandler';
+
+const prisma = new PrismaClient();
+
+// Define enums locally since they're not exported from Prisma client
+export enum ListingStatus {
+  OPEN = 'OPEN',
+  ACCEPTED = 'ACCEPTED',
+  FUNDED = 'FUNDED',
+  CANCELLED = 'CANCELLED',
+  EXPIRED = 'EXPIRED'
+}
+
+export enum BidStatus {
+  PENDING = 'PENDING',
+  ACCEPTED = 'ACCEPTED',
+  REJECTED = 'REJECTED',
+  WITHDRAWN = 'WITHDRAWN'
+}
+
+// Listings in these states still hold the invoice
+const ACTIVE_LISTING_STATUSES = [ListingStatus.OPEN, ListingStatus.ACCEPTED];
+
+export interface CreateListingInput {
+  invoiceId: string;
+  supplierAccountId: string;
+  askingDiscountRate: number;
+  expiresAt: Date;
+}
+
+export interface PlaceBidInput {
+  listingId: string;
+  investorAccountId: string;
+  amount: number;
+  discountRate: number;
+}
+
+export interface ListingFilter {
+  status?: ListingStatus;
+  invoiceId?: string;
+  riskTolerance?: RiskLevel; // only invoices graded within this tolerance
+  limit: number;
+  offset: number;
+}
+
+export interface MarketplaceViewer {
+  accountId: string;
+  roles: string[];
+}
+
+export interface MarketplaceConfig {
+  interval: number; // milliseconds between expiry sweeps
+  enabled: boolean;
+}
+
+export function loadMarketplaceConfig(): MarketplaceConfig {
+  return {
+    interval: parseInt(process.env['MARKETPLACE_EXPIRY_INTERVAL'] || '60000'), // 1 minute default
+    enabled: process.env['MARKETPLACE_EXPIRY_ENABLED'] === 'true',
+  };
+}
+
+/**
+ * Invoice marketplace: suppliers list ISSUED invoices with an asking discount,
+ * investors bid, and the supplier accepts one bid. The accepted bid reserves
+ * the invoice for its investor, who funds it through the wallet funding flow
+ * at the rate they bid. Listings and acceptances are recorded on the deal topic.
+ */
+export class MarketplaceService {
+  private expiryInterval: NodeJS.Timeout | null = null;
+  private isSweeping: boolean = false;
+  private config: MarketplaceConfig;
+
+  constructor(config: Partial<MarketplaceConfig> = {}) {
+    this.config = { ...loadMarketplaceConfig(), ...config };
+  }
+
+  /**
+   * List an invoice for bids
+   */
+  async createListing(input: CreateListingInput, now: Date = new Date()) {
+    if (!(input.askingDiscountRate >= 0 && input.askingDiscountRate < 1)) {
+      throw new ValidationError('Asking discount rate must be between 0 and 1');
+    }
+    if (input.expiresAt <= now) {
+      throw new ValidationError('Listing expiry must be in the future');
+    }
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: input.invoiceId },
+      include: { supplier: true, syndicate: true }
+    });
+    if (!invoice) {
+      throw new NotFoundError('Invoice');
+    }
+    if (invoice.supplier.accountId !== input.supplierAccountId) {
+      throw new AuthorizationError('Only the supplier of this invoice can list it');
+    }
+    if (invoice.status !== InvoiceStatus.ISSUED) {
+      throw new ConflictError('Invoice must be in ISSUED status to be listed');
+    }
+    if (invoice.syndicate) {
+      throw new ConflictError('Syndicated invoices cannot be listed');
+    }
+    if (!invoice.nftTokenId || !invoice.nftSerialNumber) {
+      throw new ConflictError('Invoice NFT must be minted before listing');
+    }
+    if (input.expiresAt >= invoice.dueDate) {
+      throw new ValidationError('Listing must expire before the invoice is due');
+    }
+
+    const active = await prisma.marketplaceListing.findFirst({
+      where: { invoiceId: invoice.id, status: { in: ACTIVE_LISTING_STATUSES } }
+    });
+    if (active) {
+      throw new ConflictError('Invoice is already listed');
+    }
+
+    const topicId = await hcsTopicsService.getOrCreateDealTopic(`${invoice.nftTokenId}-${invoice.nftSerialNumber}`);
+
+    const listing = await prisma.$transaction(async (tx) => {
+      const listing = await tx.marketplaceListing.create({
+        data: {
+          invoiceId: invoice.id,
+          supplierId: invoice.supplierId,
+          askingDiscountRate: input.askingDiscountRate,
+          expiresAt: input.expiresAt,
+          topicId,
+        }
+      });
+
+      await this.recordOnTopic(tx, listing, `hcs:listing-created:${listing.id}`, {
+        eventType: InvoiceEventType.LISTED,
+        description: `Invoice listed at ${input.askingDiscountRate * 100}% until ${input.expiresAt.toISOString()}`,
+        message: {
+          eventType: 'LISTING_CREATED',
+          listingId: listing.id,
+          invoiceId: invoice.id,
+          tokenId: invoice.nftTokenId,
+          serialNumber: invoice.nftSerialNumber,
+          supplierAccountId: input.supplierAccountId,
+          amount: invoice.amount,
+          currency: invoice.currency,
+          askingDiscountRate: input.askingDiscountRate,
+          expiresAt: input.expiresAt.toISOString(),
+          timestamp: now.toISOString(),
+        },
+      }, now);
+
+      return listing;
+    });
+
+    await outboxService.dispatchAggregate(listing.id);
+
+    logger.info({ listingId: listing.id, invoiceId: invoice.id, askingDiscountRate: input.askingDiscountRate }, 'Invoice listed on marketplace');
+
+    return listing;
+  }
+
+  /**
+   * Listings newest first, with the invoice, bid count and best pending bid
+   */
+  async getListings(filter: ListingFilter) {
+    const where: Prisma.MarketplaceListingWhereInput = {
+      ...(filter.status && { status: filter.status }),
+      ...(filter.invoiceId && { invoiceId: filter.invoiceId }),
+      ...(filter.riskTolerance && { invoice: { riskGrade: { in: gradesForTolerance(filter.riskTolerance) } } }),
+    };
+
+    const [listings, total] = await Promise.all([
+      prisma.marketplaceListing.findMany({
+        where,
+        include: {
+          invoice: true,
+          bids: { where: { status: BidStatus.PENDING }, orderBy: [{ discountRate: 'asc' }, { createdAt: 'asc' }] }
+        },
+        orderBy: { createdAt: 'desc' },
+        take: filter.limit,
+        skip: filter.offset,
+      }),
+      prisma.marketplaceListing.count({ where }),
+    ]);
+
+    return {
+      listings: listings.map(({ bids, ...listing }) => ({
+        ...listing,
+        bidCount: bids.length,
+        bestBid: bids[0] ? { amount: bids[0].amount, discountRate: bids[0].discountRate } : null,
+      })),
+      total,
+    };
+  }
+
+  /**
+   * A listing with its bids. The supplier and admins see every bid;
+   * investors see only their own.
+   */
+  async getListing(listingId: string, viewer: MarketplaceViewer) {
+    const listing = await prisma.marketplaceListing.findUnique({
+      where: { id: listingId },
+      include: {
+        invoice: true,
+        supplier: { select: { id: true, accountId: true, name: true } },
+        bids: {
+          include: { investor: { select: { id: true, accountId: true, name: true } } },
+          orderBy: [{ discountRate: 'asc' }, { createdAt: 'asc' }]
+        }
+      }
+    });
+    if (!listing) {
+      throw new NotFoundError('Listing');
+    }
+
+    const seesAllBids = listing.supplier.accountId === viewer.accountId || viewer.roles.includes('ADMIN');
+
+    return {
+      ...listing,
+      bids: seesAllBids ? listing.bids : listing.bids.filter(bid => bid.investor.accountId === viewer.accountId),
+    };
+  }
+
+  /**
+   * Withdraw a listing. Pending bids are rejected; an accepted bid loses its reservation.
+   */
+  async cancelListing(listingId: string, supplierAccountId: string, now: Date = new Date()) {
+    const listing = await this.findListing(listingId);
+    if (listing.supplier.accountId !== supplierAccountId) {
+      throw new AuthorizationError('Only the supplier of this listing can cancel it');
+    }
+
+    const closed = await this.closeListing(listing.id, ACTIVE_LISTING_STATUSES, ListingStatus.CANCELLED, now);
+    if (!closed) {
+      throw new ConflictError(`Listing cannot be cancelled in status ${listing.status}`);
+    }
+
+    logger.info({ listingId, invoiceId: listing.invoiceId }, 'Marketplace listing cancelled');
+
+    return prisma.marketplaceListing.findUniqueOrThrow({ where: { id: listing.id } });
+  }
+
+  /**
+   * Bid on an open listing. An investor holds one pending bid per listing;
+   * bidding again replaces it.
+   */
+  async placeBid(input: PlaceBidInput, now: Date = new Date()) {
+    if (!(input.discountRate >= 0 && input.discountRate < 1)) {
+      throw new ValidationError('Discount rate must be between 0 and 1');
+    }
+
+    const listing = await this.findListing(input.listingId);
+    this.assertOpen(listing, now);
+
+    // A bid buys at most the invoice's face value at its own discount
+    const maxAmount = maxPrincipal(listing.invoice.amount, input.discountRate, now, listing.invoice.dueDate);
+    if (!(input.amount > 0 && input.amount <= maxAmount)) {
+      throw new ValidationError(`Bid amount must be greater than 0 and not exceed the discounted invoice value of ${maxAmount}`);
+    }
+
+    const investor = await prisma.user.findUnique({ where: { accountId: input.investorAccountId } });
+    if (!investor) {
+      throw new NotFoundError('Investor');
+    }
+    if (investor.id === listing.supplierId) {
+      throw new ValidationError('Suppliers cannot bid on their own listings');
+    }
+
+    const existing = await prisma.marketplaceBid.findFirst({
+      where: { listingId: listing.id, investorId: investor.id, status: BidStatus.PENDING }
+    });
+
+    const bid = existing
+      ? await prisma.marketplaceBid.update({
+          where: { id: existing.id },
+          data: { amount: input.amount, discountRate: input.discountRate }
+        })
+      : await prisma.marketplaceBid.create({
+          data: {
+            listingId: listing.id,
+            investorId: investor.id,
+            amount: input.amount,
+            discountRate: input.discountRate,
+          }
+        });
+
+    logger.info({ listingId: listing.id, bidId: bid.id, amount: input.amount, discountRate: input.discountRate }, existing ? 'Marketplace bid revised' : 'Marketplace bid placed');
+
+    return {
+      ...bid,
+      expectedReturn: pricingService.expectedReturnFor(input.amount, input.discountRate, now, listing.invoice.dueDate),
+    };
+  }
+
+  /**
+   * Withdraw a pending bid
+   */
+  async withdrawBid(bidId: string, investorAccountId: string) {
+    const bid = await prisma.marketplaceBid.findUnique({
+      where: { id: bidId },
+      include: { investor: true }
+    });
+    if (!bid) {
+      throw new NotFoundError('Bid');
+    }
+    if (bid.investor.accountId !== investorAccountId) {
+      throw new AuthorizationError('Only the investor who placed this bid can withdraw it');
+    }
+
+    const result = await prisma.marketplaceBid.updateMany({
+      where: { id: bid.id, status: BidStatus.PENDING },
+      data: { status: BidStatus.WITHDRAWN }
+    });
+    if (result.count === 0) {
+      throw new ConflictError(`Bid cannot be withdrawn in status ${bid.status}`);
+    }
+
+    return { ...bid, status: BidStatus.WITHDRAWN };
+  }
+
+  /**
+   * Accept a bid. The other pending bids are rejected, the acceptance is
+   * recorded on the deal topic and the winning investor's escrow deposit is
+   * prepared for wallet signing.
+   */
+  async acceptBid(listingId: string, bidId: string, supplierAccountId: string, now: Date = new Date()) {
+    const listing = await this.findListing(listingId);
+    if (listing.supplier.accountId !== supplierAccountId) {
+      throw new AuthorizationError('Only the supplier of this listing can accept bids');
+    }
+    this.assertOpen(listing, now);
+    if (listing.invoice.status !== InvoiceStatus.ISSUED) {
+      throw new ConflictError('Invoice must be in ISSUED status to accept a bid');
+    }
+
+    const bid = await prisma.marketplaceBid.findUnique({
+      where: { id: bidId },
+      include: { investor: true }
+    });
+    if (!bid || bid.listingId !== listing.id) {
+      throw new NotFoundError('Bid');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      // Conditional updates, so two acceptances racing on one listing cannot both win
+      const accepted = await tx.marketplaceBid.updateMany({
+        where: { id: bid.id, status: BidStatus.PENDING },
+        data: { status: BidStatus.ACCEPTED }
+      });
+      const claimed = await tx.marketplaceListing.updateMany({
+        where: { id: listing.id, status: ListingStatus.OPEN },
+        data: { status: ListingStatus.ACCEPTED, acceptedBidId: bid.id, acceptedAt: now }
+      });
+      if (accepted.count === 0 || claimed.count === 0) {
+        throw new ConflictError('Bid is no longer open for acceptance');
+      }
+
+      await tx.marketplaceBid.updateMany({
+        where: { listingId: listing.id, status: BidStatus.PENDING },
+        data: { status: BidStatus.REJECTED }
+      });
+
+      await this.recordOnTopic(tx, listing, `hcs:bid-accepted:${listing.id}`, {
+        eventType: InvoiceEventType.BID_ACCEPTED,
+        description: `Bid of ${bid.amount} HBAR at ${bid.discountRate * 100}% from ${bid.investor.accountId} accepted`,
+        message: {
+          eventType: 'BID_ACCEPTED',
+          listingId: listing.id,
+          bidId: bid.id,
+          invoiceId: listing.invoiceId,
+          tokenId: listing.invoice.nftTokenId,
+          serialNumber: listing.invoice.nftSerialNumber,
+          supplierAccountId,
+          investorAccountId: bid.investor.accountId,
+          amount: bid.amount,
+          discountRate: bid.discountRate,
+          timestamp: now.toISOString(),
+        },
+      }, now);
+    });
+
+    await outboxService.dispatchAggregate(listing.id);
+
+    logger.info({ listingId: listing.id, bidId: bid.id, investorId: bid.investorId }, 'Marketplace bid accepted');
+
+    return {
+      listing: await prisma.marketplaceListing.findUniqueOrThrow({ where: { id: listing.id } }),
+      bid: { ...bid, status: BidStatus.ACCEPTED },
+      transaction: await this.prepareAcceptedFunding(listing, bid),
+    };
+  }
+
+  /**
+   * Prepare the escrow deposit of an accepted bid again, e.g. after the
+   * previously prepared transaction expired unsigned
+   */
+  async prepareFunding(bidId: string, investorAccountId: string) {
+    const bid = await prisma.marketplaceBid.findUnique({
+      where: { id: bidId },
+      include: { investor: true }
+    });
+    if (!bid) {
+      throw new NotFoundError('Bid');
+    }
+    if (bid.investor.accountId !== investorAccountId) {
+      throw new AuthorizationError('Only the investor who placed this bid can fund it');
+    }
+
+    const listing = await this.findListing(bid.listingId);
+    if (listing.status !== ListingStatus.ACCEPTED || listing.acceptedBidId !== bid.id) {
+      throw new ConflictError('Only the accepted bid of a listing awaiting funding can be funded');
+    }
+
+    return this.prepareAcceptedFunding(listing, bid);
+  }
+
+  /**
+   * Start expiring listings past their expiry
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      logger.info('Marketplace listing expiry is disabled');
+      return;
+    }
+
+    if (this.expiryInterval) {
+      logger.warn('Marketplace listing expiry is already running');
+      return;
+    }
+
+    logger.info({ interval: this.config.interval }, 'Starting marketplace listing expiry');
+
+    this.expiryInterval = setInterval(async () => {
+      if (!this.isSweeping) {
+        await this.runOnce();
+      }
+    }, this.config.interval);
+  }
+
+  /**
+   * Stop expiring listings
+   */
+  stop(): void {
+    if (this.expiryInterval) {
+      clearInterval(this.expiryInterval);
+      this.expiryInterval = null;
+      logger.info('Marketplace listing expiry stopped');
+    }
+  }
+
+  /**
+   * Expire open listings past their expiry and reject their pending bids.
+   * Accepted listings stay reserved until funded or cancelled.
+   * @returns Number of listings expired
+   */
+  async runOnce(now: Date = new Date()): Promise<number> {
+    this.isSweeping = true;
+    let expired = 0;
+
+    try {
+      const listings = await prisma.marketplaceListing.findMany({
+        where: { status: ListingStatus.OPEN, expiresAt: { lte: now } },
+        select: { id: true }
+      });
+
+      for (const listing of listings) {
+        try {
+          if (await this.closeListing(listing.id, [ListingStatus.OPEN], ListingStatus.EXPIRED, now)) {
+            expired++;
+          }
+        } catch (error) {
+          logger.error({ listingId: listing.id, error: error instanceof Error ? error.message : String(error) }, 'Failed to expire marketplace listing');
+        }
+      }
+
+      if (expired > 0) {
+        logger.info({ expired }, 'Marketplace listings expired');
+      }
+    } catch (error) {
+      logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Marketplace listing expiry failed');
+    } finally {
+      this.isSweeping = false;
+    }
+
+    return expired;
+  }
+
+  private async findListing(listingId: string) {
+    const listing = await prisma.marketplaceListing.findUnique({
+      where: { id: listingId },
+      include: { invoice: true, supplier: true }
+    });
+    if (!listing) {
+      throw new NotFoundError('Listing');
+    }
+    return listing;
+  }
+
+  private assertOpen(listing: { status: string; expiresAt: Date }, now: Date): void {
+    if (listing.status !== ListingStatus.OPEN) {
+      throw new ConflictError(`Listing is ${listing.status.toLowerCase()}`);
+    }
+    if (listing.expiresAt <= now) {
+      throw new ConflictError('Listing has expired');
+    }
+  }
+
+  private async closeListing(listingId: string, from: ListingStatus[], to: ListingStatus, now: Date): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+      const result = await tx.marketplaceListing.updateMany({
+        where: { id: listingId, status: { in: from } },
+        data: { status: to, closedAt: now }
+      });
+      if (result.count === 0) {
+        return false;
+      }
+
+      await tx.marketplaceBid.updateMany({
+        where: { listingId, status: BidStatus.PENDING },
+        data: { status: BidStatus.REJECTED }
+      });
+      return true;
+    });
+  }
+
+  private async prepareAcceptedFunding(listing: any, bid: any) {
+    return fundingService.prepareFundingTransaction({
+      invoiceId: listing.invoiceId,
+      investorId: bid.investorId,
+      amount: bid.amount,
+      supplierAccountId: listing.supplier.accountId,
+      nftSerialNumber: parseInt(listing.invoice.nftSerialNumber) || 1,
+      walletAccountId: bid.investor.accountId,
+    });
+  }
+
+  /**
+   * Add the invoice event and queue its HCS message on the deal topic in the
+   * caller's transaction; the outbox links the sequence number to the event
+   */
+  private async recordOnTopic(
+    tx: Prisma.TransactionClient,
+    listing: { id: string; invoiceId: string; topicId: string },
+    idempotencyKey: string,
+    record: { eventType: InvoiceEventType; description: string; message: Record<string, any> },
+    now: Date
+  ): Promise<void> {
+    const event = await invoiceService.addInvoiceEvent(
+      listing.invoiceId,
+      record.eventType,
+      record.description,
+      { listingId: listing.id, ...record.message },
+      undefined,
+      now,
+      undefined,
+      tx
+    );
+
+    await outboxService.enqueue(tx, {
+      action: OutboxAction.HCS_MESSAGE,
+      aggregateType: 'MarketplaceListing',
+      aggregateId: listing.id,
+      invoiceId: listing.invoiceId,
+      idempotencyKey,
+      payload: {
+        topicId: listing.topicId,
+        message: record.message,
+        invoiceEventId: event.id,
+      },
+    });
+  }
+}
+
+// Export singleton instance
+export const marketplaceService = new MarketplaceService();
@@ -1,48 +1,82 @@
 import { logger } from '../utils/logger';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Milestone, MilestoneEvidence as MilestoneEvidenceRow } from '@prisma/client';
 import { hcsTopicsService } from './hcsTopics';
 import { HcsService, MessageSubmissionResult } from './hcs.service';
+import { documentStoreService } from './documentStoreService';
 import { createHash } from 'crypto';
+import { AuthenticationError, AuthorizationError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import {
+  createMilestoneMessage,
+  getAccountPublicKey,
+  verifyPublicKeySignature
+} from '../utils/signatureVerification';
+import {
+  workflowTemplatesService,
+  WorkflowDefinition,
+  MilestoneType,
+  getNextStates,
+  computeProgress,
+  getMissingEvidence
+} from './workflowTemplatesService';
 
 const prisma = new PrismaClient();
 
-// Milestone types in order
-export enum MilestoneType {
-  CREATED_ISSUED = 'CREATED/ISSUED',
-  SHIPPED = 'SHIPPED',
-  CUSTOMS_CLEARED = 'CUSTOMS_CLEARED',
-  DELIVERED = 'DELIVERED',
-  FUNDED = 'FUNDED',
-  PAID = 'PAID'
-}
+// Window in which an agent must sign the prepared milestone message
+const MILESTONE_NONCE_TTL = 5 * 60 * 1000;
 
-// Milestone state machine - defines valid transitions
-const MILESTONE_TRANSITIONS: Record<MilestoneType, MilestoneType[]> = {
-  [MilestoneType.CREATED_ISSUED]: [MilestoneType.SHIPPED, MilestoneType.FUNDED],
-  [MilestoneType.SHIPPED]: [MilestoneType.CUSTOMS_CLEARED],
-  [MilestoneType.CUSTOMS_CLEARED]: [MilestoneType.DELIVERED],
-  [MilestoneType.DELIVERED]: [MilestoneType.FUNDED, MilestoneType.PAID],
-  [MilestoneType.FUNDED]: [MilestoneType.PAID],
-  [MilestoneType.PAID]: [] // Terminal state
-};
+export { MilestoneType };
 
 export interface MilestoneData {
   tokenId: string;
   serial: string;
-  milestone: MilestoneType;
+  milestone: string; // MilestoneType or a state from the assigned workflow template
   fileHash?: string;
-  agentId?: string;
   location?: string;
   notes?: string;
   documentUrl?: string;
   metadata?: Record<string, any>;
+  evidenceDocumentIds?: string[]; // Documents uploaded through the document pipeline
+}
+
+export interface SignedMilestoneData extends MilestoneData {
+  nonce: string;
+  signature: string; // Agent's signature over the prepared milestone message
+}
+
+export interface MilestoneEvidence {
+  documentId: string;
+  documentType: string;
+  sha256: string;
+  storageUri: string;
+}
+
+export interface MilestoneAttestation {
+  accountId: string;
+  publicKey: string;
+  nonce: string;
+  messageHash: string;
+  signature: string;
+}
+
+export interface MilestoneEvidenceVerification extends MilestoneEvidence {
+  hashMatches: boolean; // The document still carries the hash the agent signed
+  contentIntact: boolean; // The stored bytes still match the document's recorded hash
+  error?: string;
+}
+
+export interface MilestoneVerification {
+  milestoneId: string;
+  signed: boolean;
+  signatureValid: boolean;
+  evidence: MilestoneEvidenceVerification[];
+  verified: boolean;
 }
 
 export interface MilestoneRecord {
   id: string;
   tokenId: string;
   serial: string;
-  milestone: MilestoneType;
+  milestone: string;
   topicId: string;
   sequenceNumber: string;
   transactionId: string;
@@ -53,14 +87,17 @@ export interface MilestoneRecord {
   notes?: string;
   documentUrl?: string;
   metadata?: Record<string, any>;
+  evidence?: MilestoneEvidence[];
+  attestation?: MilestoneAttestation;
   createdAt: Date;
 }
 
 export interface MilestoneValidationError {
   code: string;
   message: string;
-  currentMilestone?: MilestoneType;
-  attemptedMilestone: MilestoneType;
+  currentMilestone?: string;
+  attemptedMilestone: string;
+  missingEvidence?: string[];
 }
 
 /**
@@ -80,40 +117,82 @@ export class MilestonesService {
   }
 
   /**
-   * Publish a milestone event to HCS
+   * Validate a milestone and build the message the agent's wallet signs for it
    * @param data - Milestone data
+   * @param accountId - Hedera account ID of the authenticated agent
+   * @returns Promise with the nonce, the message to sign and the evidence it covers
+   */
+  async prepareMilestone(data: MilestoneData, accountId: string, now: Date = new Date()) {
+    const { evidence } = await this.loadMilestoneContext(data, accountId);
+    const nonce = now.getTime().toString();
+
+    return {
+      nonce,
+      message: createMilestoneMessage(nonce, accountId, this.signedContent(data, evidence)),
+      evidence
+    };
+  }
+
+  /**
+   * Verify the agent's signature over a milestone and publish it to HCS
+   * @param data - Milestone data with the nonce and signature from prepareMilestone
+   * @param accountId - Hedera account ID of the authenticated agent
    * @returns Promise<MilestoneRecord>
    */
-  async publishMilestone(data: MilestoneData): Promise<MilestoneRecord> {
+  async publishMilestone(data: SignedMilestoneData, accountId: string, now: Date = new Date()): Promise<MilestoneRecord> {
     try {
-      // Validate milestone transition
-      await this.validateMilestoneTransition(data.tokenId, data.serial, data.milestone);
+      const nonceTime = parseInt(data.nonce);
+      if (!Number.isFinite(nonceTime) || nonceTime > now.getTime() || now.getTime() - nonceTime > MILESTONE_NONCE_TTL) {
+        throw new ValidationError('Milestone nonce has expired');
+      }
+
+      const { workflow, agent, evidence } = await this.loadMilestoneContext(data, accountId);
+
+      // Check the signature against the agent's Hedera key before anything reaches HCS
+      const publicKey = await this.getAgentPublicKey(agent);
+      const signedContent = this.signedContent(data, evidence);
+      const message = createMilestoneMessage(data.nonce, accountId, signedContent);
+      if (!verifyPublicKeySignature(publicKey, message, data.signature)) {
+        throw new AuthenticationError('Signature verification failed');
+      }
+      const attestation: MilestoneAttestation = {
+        accountId,
+        publicKey,
+        nonce: data.nonce,
+        messageHash: createHash('sha256').update(message).digest('hex'),
+        signature: data.signature
+      };
 
       // Get or create topic for this deal
       const invoiceKey = `${data.tokenId}-${data.serial}`;
       const topicId = await hcsTopicsService.getOrCreateDealTopic(invoiceKey);
 
       // Prepare normalized milestone message payload as per H.MD requirements
+      const { fileHash } = signedContent;
       const normalizedPayload = {
         tokenId: data.tokenId,
         serial: data.serial,
         milestone: data.milestone,
-        ts: new Date().toISOString(),
-        fileHash: data.fileHash || null
+        ts: now.toISOString(),
+        fileHash: fileHash || null,
+        evidence,
+        workflow: `${workflow.name}@${workflow.version}`
       };
 
-      // Extended milestone message with additional context
+      // Extended milestone message with additional context; the attestation lets anyone
+      // rebuild the signed message from the payload and check it against the agent's key
       const milestoneMessage = {
         type: 'MILESTONE_EVENT',
-        version: '1.0',
+        version: '1.1',
         payload: normalizedPayload,
         context: {
-          agentId: data.agentId,
+          agentId: agent.id,
           location: data.location,
           notes: data.notes,
           documentUrl: data.documentUrl,
           metadata: data.metadata || {}
-        }
+        },
+        attestation
       };
 
       // Submit to HCS
@@ -131,42 +210,37 @@ export class MilestonesService {
           topicId,
           sequenceNumber: hcsResult.sequenceNumber,
           transactionId: hcsResult.transactionId,
-          consensusTimestamp: hcsResult.consensusTimestamp || new Date().toISOString(),
-          fileHash: data.fileHash,
-          agentId: data.agentId,
+          consensusTimestamp: hcsResult.consensusTimestamp || now.toISOString(),
+          fileHash,
+          agentId: agent.id,
           location: data.location,
           notes: data.notes,
           documentUrl: data.documentUrl,
-          metadata: data.metadata ? JSON.stringify(data.metadata) : null
-        }
+          metadata: data.metadata ? JSON.stringify(data.metadata) : null,
+          agentAccountId: attestation.accountId,
+          agentPublicKey: attestation.publicKey,
+          nonce: attestation.nonce,
+          messageHash: attestation.messageHash,
+          signature: attestation.signature,
+          evidence: {
+            create: evidence
+          }
+        },
+        include: { evidence: { orderBy: { documentId: 'asc' } } }
       });
 
       logger.info('Milestone published successfully', {
         tokenId: data.tokenId,
         serial: data.serial,
         milestone: data.milestone,
+        agentAccountId: accountId,
+        evidenceCount: evidence.length,
         topicId,
         sequenceNumber: hcsResult.sequenceNumber,
         transactionId: hcsResult.transactionId
       });
 
-      return {
-        id: milestoneRecord.id,
-        tokenId: milestoneRecord.tokenId,
-        serial: milestoneRecord.serial,
-        milestone: milestoneRecord.milestone as MilestoneType,
-        topicId: milestoneRecord.topicId,
-        sequenceNumber: milestoneRecord.sequenceNumber,
-        transactionId: milestoneRecord.transactionId,
-        consensusTimestamp: milestoneRecord.consensusTimestamp,
-        fileHash: milestoneRecord.fileHash || undefined,
-        agentId: milestoneRecord.agentId || undefined,
-        location: milestoneRecord.location || undefined,
-        notes: milestoneRecord.notes || undefined,
-        documentUrl: milestoneRecord.documentUrl || undefined,
-        metadata: milestoneRecord.metadata ? JSON.parse(milestoneRecord.metadata) : undefined,
-        createdAt: milestoneRecord.createdAt
-      };
+      return this.toMilestoneRecord(milestoneRecord);
     } catch (error) {
       logger.error('Failed to publish milestone', {
         error,
@@ -179,27 +253,201 @@ export class MilestonesService {
   }
 
   /**
-   * Validate milestone transition according to state machine
+   * Check a recorded milestone's agent signature and the integrity of its evidence
+   * @param milestoneId - Milestone ID
+   * @returns Promise<MilestoneVerification>
+   */
+  async verifyMilestone(milestoneId: string): Promise<MilestoneVerification> {
+    const milestone = await prisma.milestone.findUnique({
+      where: { id: milestoneId },
+      include: { evidence: { orderBy: { documentId: 'asc' } } }
+    });
+    if (!milestone) {
+      throw new NotFoundError('Milestone');
+    }
+
+    const signed = Boolean(milestone.signature && milestone.agentPublicKey && milestone.agentAccountId && milestone.nonce);
+    const signatureValid = signed && verifyPublicKeySignature(
+      milestone.agentPublicKey!,
+      createMilestoneMessage(milestone.nonce!, milestone.agentAccountId!, {
+        ...milestone,
+        metadata: milestone.metadata ? JSON.parse(milestone.metadata) : null
+      }),
+      milestone.signature!
+    );
+
+    const evidence = await Promise.all(milestone.evidence.map(async (item): Promise<MilestoneEvidenceVerification> => {
+      const result = {
+        documentId: item.documentId,
+        documentType: item.documentType,
+        sha256: item.sha256,
+        storageUri: item.storageUri
+      };
+
+      const document = await prisma.document.findUnique({ where: { id: item.documentId } });
+      if (!document) {
+        return { ...result, hashMatches: false, contentIntact: false, error: 'Document not found' };
+      }
+
+      const hashMatches = document.hash === item.sha256;
+      try {
+        await documentStoreService.read(document);
+        return { ...result, hashMatches, contentIntact: true };
+      } catch (error) {
+        return { ...result, hashMatches, contentIntact: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }));
+
+    return {
+      milestoneId: milestone.id,
+      signed,
+      signatureValid,
+      evidence,
+      verified: signatureValid && evidence.every(item => item.hashMatches && item.contentIntact)
+    };
+  }
+
+  /**
+   * Everything the agent's signature covers: the milestone, its published
+   * context and its evidence. Attached evidence stands in for a file hash.
+   * @private
+   */
+  private signedContent(data: MilestoneData, evidence: MilestoneEvidence[]) {
+    return { ...data, fileHash: data.fileHash || evidence[0]?.sha256, evidence };
+  }
+
+  /**
+   * Validate a milestone for the deal's workflow and resolve the agent and evidence behind it
+   * @private
+   */
+  private async loadMilestoneContext(data: MilestoneData, accountId: string) {
+    // Validate milestone transition against the deal's workflow
+    const workflow = await this.getWorkflow(data.tokenId, data.serial);
+    await this.validateMilestoneTransition(data.tokenId, data.serial, data.milestone, workflow);
+
+    const agent = await prisma.user.findUnique({ where: { accountId } });
+    if (!agent) {
+      throw new NotFoundError('Agent');
+    }
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { nftTokenId: data.tokenId, nftSerialNumber: data.serial },
+      select: { id: true, agentId: true }
+    });
+    if (invoice?.agentId && invoice.agentId !== agent.id) {
+      throw new AuthorizationError('Agent is not assigned to this deal');
+    }
+
+    const evidence = await this.resolveEvidence(data, invoice?.id);
+
+    // Attached evidence documents stand in for a file hash
+    const missingEvidence = getMissingEvidence(workflow, data.milestone, {
+      ...data,
+      fileHash: data.fileHash || evidence[0]?.sha256
+    });
+    if (missingEvidence.length > 0) {
+      throw {
+        code: 'MISSING_MILESTONE_EVIDENCE',
+        message: `Milestone ${data.milestone} requires evidence: ${missingEvidence.join(', ')}`,
+        attemptedMilestone: data.milestone,
+        missingEvidence
+      } as MilestoneValidationError;
+    }
+
+    return { workflow, agent, evidence };
+  }
+
+  /**
+   * Resolve evidence document IDs to the hashes and storage URIs the agent signs
+   * @private
+   */
+  private async resolveEvidence(data: MilestoneData, invoiceId?: string): Promise<MilestoneEvidence[]> {
+    const documentIds = [...new Set(data.evidenceDocumentIds || [])];
+    if (documentIds.length === 0) {
+      return [];
+    }
+
+    const documents = await prisma.document.findMany({ where: { id: { in: documentIds } } });
+    const byId = new Map(documents.map(document => [document.id, document]));
+
+    const invalid = documentIds.filter(id => !invoiceId || byId.get(id)?.invoiceId !== invoiceId);
+    if (invalid.length > 0) {
+      throw {
+        code: 'INVALID_MILESTONE_EVIDENCE',
+        message: `Evidence documents not found for ${data.tokenId}-${data.serial}: ${invalid.join(', ')}`,
+        attemptedMilestone: data.milestone
+      } as MilestoneValidationError;
+    }
+
+    return documentIds.map(id => {
+      const document = byId.get(id)!;
+      return {
+        documentId: document.id,
+        documentType: document.documentType,
+        sha256: document.hash,
+        storageUri: documentStoreService.uriOf(document)
+      };
+    });
+  }
+
+  /**
+   * The agent's public key, cached on the user after the first Mirror Node lookup
+   * @private
+   */
+  private async getAgentPublicKey(agent: { id: string; accountId: string; publicKey: string | null }): Promise<string> {
+    if (agent.publicKey) {
+      return agent.publicKey;
+    }
+
+    const publicKey = await getAccountPublicKey(agent.accountId);
+    if (!publicKey) {
+      throw new AuthenticationError('No public key found for agent account');
+    }
+
+    await prisma.user.update({
+      where: { id: agent.id },
+      data: { publicKey }
+    });
+
+    return publicKey;
+  }
+
+  /**
+   * Resolve the workflow template that governs a deal
+   * @param tokenId - Token ID
+   * @param serial - Serial number
+   * @returns Promise<WorkflowDefinition>
+   */
+  async getWorkflow(tokenId: string, serial: string): Promise<WorkflowDefinition> {
+    return workflowTemplatesService.resolveWorkflowForToken(tokenId, serial);
+  }
+
+  /**
+   * Validate milestone transition according to the deal's workflow
    * @param tokenId - Token ID
    * @param serial - Serial number
    * @param newMilestone - New milestone to validate
+   * @param workflow - Workflow to validate against (resolved for the deal if omitted)
    * @throws MilestoneValidationError if transition is invalid
    */
   async validateMilestoneTransition(
     tokenId: string,
     serial: string,
-    newMilestone: MilestoneType
+    newMilestone: string,
+    workflow?: WorkflowDefinition
   ): Promise<void> {
     try {
+      const activeWorkflow = workflow || await this.getWorkflow(tokenId, serial);
+
       // Get current milestone for this token
       const currentMilestone = await this.getCurrentMilestone(tokenId, serial);
 
-      // If no current milestone, only CREATED_ISSUED is allowed
+      // If no current milestone, only the workflow's initial state is allowed
       if (!currentMilestone) {
-        if (newMilestone !== MilestoneType.CREATED_ISSUED) {
+        if (newMilestone !== activeWorkflow.initialState) {
           throw {
             code: 'INVALID_INITIAL_MILESTONE',
-            message: `First milestone must be ${MilestoneType.CREATED_ISSUED}, got ${newMilestone}`,
+            message: `First milestone must be ${activeWorkflow.initialState}, got ${newMilestone}`,
             attemptedMilestone: newMilestone
           } as MilestoneValidationError;
         }
@@ -217,7 +465,7 @@ export class MilestonesService {
       }
 
       // Check if transition is valid
-      const validTransitions = MILESTONE_TRANSITIONS[currentMilestone.milestone];
+      const validTransitions = getNextStates(activeWorkflow, currentMilestone.milestone);
       if (!validTransitions.includes(newMilestone)) {
         throw {
           code: 'INVALID_MILESTONE_TRANSITION',
@@ -227,12 +475,13 @@ export class MilestonesService {
         } as MilestoneValidationError;
       }
 
-      logger.debug('Milestone transition validated', {
+      logger.debug({
         tokenId,
         serial,
+        workflow: `${activeWorkflow.name}@${activeWorkflow.version}`,
         from: currentMilestone.milestone,
         to: newMilestone
-      });
+      }, 'Milestone transition validated');
     } catch (error) {
       if (error && typeof error === 'object' && 'code' in error) {
         throw error; // Re-throw validation errors
@@ -257,30 +506,15 @@ export class MilestonesService {
         },
         orderBy: {
           createdAt: 'desc'
-        }
+        },
+        include: { evidence: { orderBy: { documentId: 'asc' } } }
       });
 
       if (!milestone) {
         return null;
       }
 
-      return {
-        id: milestone.id,
-        tokenId: milestone.tokenId,
-        serial: milestone.serial,
-        milestone: milestone.milestone as MilestoneType,
-        topicId: milestone.topicId,
-        sequenceNumber: milestone.sequenceNumber,
-        transactionId: milestone.transactionId,
-        consensusTimestamp: milestone.consensusTimestamp,
-        fileHash: milestone.fileHash || undefined,
-        agentId: milestone.agentId || undefined,
-        location: milestone.location || undefined,
-        notes: milestone.notes || undefined,
-        documentUrl: milestone.documentUrl || undefined,
-        metadata: milestone.metadata ? JSON.parse(milestone.metadata) : undefined,
-        createdAt: milestone.createdAt
-      };
+      return this.toMilestoneRecord(milestone);
     } catch (error) {
       logger.error('Failed to get current milestone', { error, tokenId, serial });
       throw error;
@@ -302,26 +536,11 @@ export class MilestonesService {
         },
         orderBy: {
           createdAt: 'asc'
-        }
+        },
+        include: { evidence: { orderBy: { documentId: 'asc' } } }
       });
 
-      return milestones.map(milestone => ({
-        id: milestone.id,
-        tokenId: milestone.tokenId,
-        serial: milestone.serial,
-        milestone: milestone.milestone as MilestoneType,
-        topicId: milestone.topicId,
-        sequenceNumber: milestone.sequenceNumber,
-        transactionId: milestone.transactionId,
-        consensusTimestamp: milestone.consensusTimestamp,
-        fileHash: milestone.fileHash || undefined,
-        agentId: milestone.agentId || undefined,
-        location: milestone.location || undefined,
-        notes: milestone.notes || undefined,
-        documentUrl: milestone.documentUrl || undefined,
-        metadata: milestone.metadata ? JSON.parse(milestone.metadata) : undefined,
-        createdAt: milestone.createdAt
-      }));
+      return milestones.map(milestone => this.toMilestoneRecord(milestone));
     } catch (error) {
       logger.error('Failed to get milestones', { error, tokenId, serial });
       throw error;
@@ -336,11 +555,10 @@ export class MilestonesService {
    */
   async getMilestoneProgress(tokenId: string, serial: string): Promise<number> {
     try {
+      const workflow = await this.getWorkflow(tokenId, serial);
       const milestones = await this.getMilestones(tokenId, serial);
-      const totalMilestones = Object.keys(MilestoneType).length;
-      const completedMilestones = milestones.length;
-      
-      return Math.round((completedMilestones / totalMilestones) * 100);
+
+      return computeProgress(workflow, milestones.map(m => m.milestone));
     } catch (error) {
       logger.error('Failed to get milestone progress', { error, tokenId, serial });
       return 0;
@@ -351,17 +569,14 @@ export class MilestonesService {
    * Get next valid milestones for a token
    * @param tokenId - Token ID
    * @param serial - Serial number
-   * @returns Promise<MilestoneType[]>
+   * @returns Promise<string[]>
    */
-  async getNextValidMilestones(tokenId: string, serial: string): Promise<MilestoneType[]> {
+  async getNextValidMilestones(tokenId: string, serial: string): Promise<string[]> {
     try {
+      const workflow = await this.getWorkflow(tokenId, serial);
       const currentMilestone = await this.getCurrentMilestone(tokenId, serial);
-      
-      if (!currentMilestone) {
-        return [MilestoneType.CREATED_ISSUED];
-      }
-      
-      return MILESTONE_TRANSITIONS[currentMilestone.milestone] || [];
+
+      return getNextStates(workflow, currentMilestone?.milestone);
     } catch (error) {
       logger.error('Failed to get next valid milestones', { error, tokenId, serial });
       return [];
@@ -377,6 +592,43 @@ export class MilestonesService {
     return createHash('sha256').update(fileBuffer).digest('hex');
   }
 
+  /**
+   * Map a stored milestone and its evidence to a MilestoneRecord
+   * @private
+   */
+  private toMilestoneRecord(milestone: Milestone & { evidence: MilestoneEvidenceRow[] }): MilestoneRecord {
+    return {
+      id: milestone.id,
+      tokenId: milestone.tokenId,
+      serial: milestone.serial,
+      milestone: milestone.milestone,
+      topicId: milestone.topicId,
+      sequenceNumber: milestone.sequenceNumber,
+      transactionId: milestone.transactionId,
+      consensusTimestamp: milestone.consensusTimestamp,
+      fileHash: milestone.fileHash || undefined,
+      agentId: milestone.agentId || undefined,
+      location: milestone.location || undefined,
+      notes: milestone.notes || undefined,
+      documentUrl: milestone.documentUrl || undefined,
+      metadata: milestone.metadata ? JSON.parse(milestone.metadata) : undefined,
+      evidence: milestone.evidence.map(item => ({
+        documentId: item.documentId,
+        documentType: item.documentType,
+        sha256: item.sha256,
+        storageUri: item.storageUri
+      })),
+      attestation: milestone.signature ? {
+        accountId: milestone.agentAccountId!,
+        publicKey: milestone.agentPublicKey!,
+        nonce: milestone.nonce!,
+        messageHash: milestone.messageHash!,
+        signature: milestone.signature
+      } : undefined,
+      createdAt: milestone.createdAt
+    };
+  }
+
   /**
    * Health check for milestones service
    * @returns Promise<boolean>
@@ -1,7 +1,9 @@
 import { logger } from '../utils/logger';
 import { mirrorNodeService } from './mirrorNodeService';
-import { MilestoneType, MilestoneRecord } from './milestonesService';
-import { hcsCache, CacheKeys } from './cacheService';
+import { MilestoneRecord, MilestoneEvidence, MilestoneAttestation } from './milestonesService';
+import { createMilestoneMessage, verifyPublicKeySignature } from '../utils/signatureVerification';
+import { workflowTemplatesService, getNextStates, computeProgress } from './workflowTemplatesService';
+import { hcsCache, CacheKeys, CacheTags } from './cacheService';
 
 export interface MirrorNodeMilestone {
   consensusTimestamp: string;
@@ -23,10 +25,13 @@ export interface MirrorNodeMilestone {
     payload?: {
       tokenId: string;
       serial: string;
-      milestone: MilestoneType;
+      milestone: string;
       ts: string;
       fileHash?: string | null;
+      evidence?: MilestoneEvidence[];
+      workflow?: string;
     };
+    attestation?: MilestoneAttestation;
     context?: {
       agentId?: string;
       location?: string;
@@ -39,7 +44,7 @@ export interface MirrorNodeMilestone {
     data?: {
       tokenId: string;
       serial: string;
-      milestone: MilestoneType;
+      milestone: string;
       fileHash?: string;
       agentId?: string;
       location?: string;
@@ -48,6 +53,12 @@ export interface MirrorNodeMilestone {
       metadata?: Record<string, any>;
     };
   };
+  // Agent signature checked against the published payload; evidence hashes are
+  // the ones in payload.evidence and can be checked via the verification endpoint
+  verification?: {
+    signed: boolean;
+    signatureValid: boolean;
+  };
 }
 
 export interface MilestoneTimeline {
@@ -62,7 +73,7 @@ export interface MilestoneTimeline {
 export interface MilestoneTimelineFilter {
   tokenId?: string;
   serial?: string;
-  milestone?: MilestoneType;
+  milestone?: string;
   agentId?: string;
   fromTimestamp?: string;
   toTimestamp?: string;
@@ -95,7 +106,7 @@ export class MirrorNodeMilestonesService {
     try {
       // Check cache first
       if (useCache) {
-        const cached = hcsCache.get<MilestoneTimeline>(cacheKey);
+        const cached = await hcsCache.get<MilestoneTimeline>(cacheKey);
         if (cached) {
           logger.debug('Returning cached milestone timeline', { tokenId, serial });
           return cached;
@@ -134,7 +145,10 @@ export class MirrorNodeMilestonesService {
 
       // Cache the result
       if (useCache) {
-        hcsCache.set(cacheKey, timeline, this.CACHE_TTL * 1000); // Convert to milliseconds
+        await hcsCache.set(cacheKey, timeline, this.CACHE_TTL * 1000, [
+          CacheTags.topic(topicId),
+          CacheTags.invoice(tokenId, serial),
+        ]); // Convert to milliseconds
       }
 
       logger.info('Milestone timeline retrieved', {
@@ -237,23 +251,28 @@ export class MirrorNodeMilestonesService {
     totalMilestones: number;
     completedMilestones: number;
     progressPercentage: number;
-    lastMilestone?: MilestoneType;
-    nextValidMilestones: MilestoneType[];
+    lastMilestone?: string;
+    nextValidMilestones: string[];
     estimatedCompletion?: string;
   }> {
     try {
       const timeline = await this.getMilestoneTimeline(tokenId, serial);
-      const totalPossibleMilestones = Object.keys(MilestoneType).length;
+      const workflow = await workflowTemplatesService.resolveWorkflowForToken(tokenId, serial);
+      const totalPossibleMilestones = workflow.states.length;
       const completedMilestones = timeline.milestones.length;
-      const progressPercentage = Math.round((completedMilestones / totalPossibleMilestones) * 100);
 
       // Get last milestone
       const lastMilestone = timeline.milestones.length > 0
         ? timeline.milestones[timeline.milestones.length - 1].parsedData?.data.milestone
         : undefined;
 
-      // Calculate next valid milestones (simplified logic)
-      const nextValidMilestones = this.getNextValidMilestones(lastMilestone);
+      const nextValidMilestones = getNextStates(workflow, lastMilestone);
+      const progressPercentage = computeProgress(
+        workflow,
+        timeline.milestones
+          .map(m => m.parsedData?.payload?.milestone || m.parsedData?.data?.milestone)
+          .filter((milestone): milestone is string => !!milestone)
+      );
 
       return {
         totalMilestones: totalPossibleMilestones,
@@ -334,7 +353,8 @@ export class MirrorNodeMilestonesService {
           payerAccountId: message.payer_account_id,
           validStartTimestamp: message.valid_start_timestamp,
           chunkInfo: message.chunk_info,
-          parsedData
+          parsedData,
+          verification: this.verifyAttestation(parsedData)
         };
       }
 
@@ -345,6 +365,34 @@ export class MirrorNodeMilestonesService {
     }
   }
 
+  /**
+   * Rebuild the message the agent signed from a published milestone and check the signature
+   * @private
+   */
+  private verifyAttestation(parsedData: NonNullable<MirrorNodeMilestone['parsedData']>): MirrorNodeMilestone['verification'] {
+    const { payload, context, attestation } = parsedData;
+    if (!payload || !attestation) {
+      return { signed: false, signatureValid: false };
+    }
+
+    const message = createMilestoneMessage(attestation.nonce, attestation.accountId, {
+      tokenId: payload.tokenId,
+      serial: payload.serial,
+      milestone: payload.milestone,
+      location: context?.location,
+      fileHash: payload.fileHash,
+      notes: context?.notes,
+      documentUrl: context?.documentUrl,
+      metadata: context?.metadata,
+      evidence: payload.evidence || []
+    });
+
+    return {
+      signed: true,
+      signatureValid: verifyPublicKeySignature(attestation.publicKey, message, attestation.signature)
+    };
+  }
+
   /**
    * Filter timeline based on criteria
    * @private
@@ -406,28 +454,6 @@ export class MirrorNodeMilestonesService {
     }
   }
 
-  /**
-   * Get next valid milestones (simplified logic)
-   * @private
-   */
-  private getNextValidMilestones(currentMilestone?: MilestoneType): MilestoneType[] {
-    if (!currentMilestone) {
-      return [MilestoneType.CREATED_ISSUED];
-    }
-
-    // Simplified state machine logic
-    const transitions: Record<MilestoneType, MilestoneType[]> = {
-      [MilestoneType.CREATED_ISSUED]: [MilestoneType.SHIPPED, MilestoneType.FUNDED],
-      [MilestoneType.SHIPPED]: [MilestoneType.CUSTOMS_CLEARED],
-      [MilestoneType.CUSTOMS_CLEARED]: [MilestoneType.DELIVERED],
-      [MilestoneType.DELIVERED]: [MilestoneType.FUNDED, MilestoneType.PAID],
-      [MilestoneType.FUNDED]: [MilestoneType.PAID],
-      [MilestoneType.PAID]: []
-    };
-
-    return transitions[currentMilestone] || [];
-  }
-
   /**
    * Clear milestone cache for a token
    * @param tokenId - Token ID
@@ -435,7 +461,7 @@ export class MirrorNodeMilestonesService {
    */
   async clearCache(tokenId: string, serial: string): Promise<void> {
     const cacheKey = `milestone_timeline:${tokenId}:${serial}`;
-    hcsCache.delete(cacheKey);
+    await hcsCache.delete(cacheKey);
     logger.debug('Milestone cache cleared', { tokenId, serial });
   }
 
@@ -1,14 +1,26 @@
+import { PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger';
 import { mirrorNodeService } from './mirrorNodeService';
 import { websocketService, MilestoneUpdate } from './websocketService';
-import { HCSMessage, ParsedInvoiceMessage } from './mirrorNodeService';
+import { HCSMessage } from './mirrorNodeService';
 import { parseMilestoneMessage, MirrorNodeMilestone } from './mirrorNodeMilestones';
+import { CacheService, CacheTags } from './cacheService';
+
+const prisma = new PrismaClient();
+
+export enum MirrorCursorSource {
+  CONFIG = 'CONFIG',
+  DEAL_TOPIC = 'DEAL_TOPIC'
+}
 
 interface PollingConfig {
   interval: number; // milliseconds
   enabled: boolean;
   topicIds: string[];
   tokenIds: string[];
+  pageSize: number;
+  maxPagesPerPoll: number;
+  maxGapRetries: number; // polls a sequence gap is retried before it is skipped
 }
 
 interface LastPolledState {
@@ -18,10 +30,18 @@ interface LastPolledState {
   };
 }
 
+interface TopicSubscription {
+  topicId: string;
+  source: MirrorCursorSource;
+  invoiceKey?: string;
+}
+
 class MirrorNodePollingService {
   private pollingInterval: NodeJS.Timeout | null = null;
   private config: PollingConfig;
   private lastPolledState: LastPolledState = {};
+  private subscriptions = new Map<string, TopicSubscription>();
+  private gapRetries: { [topicId: string]: number } = {};
   private isPolling: boolean = false;
 
   constructor() {
@@ -30,6 +50,9 @@ class MirrorNodePollingService {
       enabled: process.env.MIRROR_POLLING_ENABLED === 'true',
       topicIds: (process.env.HEDERA_INVOICE_TOPIC_ID || '0.0.4567890').split(','),
       tokenIds: (process.env.HEDERA_INVOICE_TOKEN_ID || '0.0.1234567').split(','),
+      pageSize: parseInt(process.env.MIRROR_POLLING_PAGE_SIZE || '25'),
+      maxPagesPerPoll: parseInt(process.env.MIRROR_POLLING_MAX_PAGES || '4'),
+      maxGapRetries: parseInt(process.env.MIRROR_GAP_MAX_RETRIES || '5'),
     };
   }
 
@@ -78,8 +101,10 @@ class MirrorNodePollingService {
     this.isPolling = true;
 
     try {
+      await this.refreshSubscriptions();
+
       // Poll HCS messages for each topic
-      for (const topicId of this.config.topicIds) {
+      for (const topicId of this.subscriptions.keys()) {
         await this.pollHCSMessages(topicId);
       }
 
@@ -95,91 +120,295 @@ class MirrorNodePollingService {
   }
 
   /**
-   * Poll HCS messages for a specific topic
+   * Subscribe to a topic (e.g. a newly created deal topic). The cursor is
+   * persisted so the topic keeps being polled after a restart.
    */
-  private async pollHCSMessages(topicId: string): Promise<void> {
+  async subscribeTopic(topicId: string, invoiceKey?: string): Promise<void> {
+    const source = invoiceKey ? MirrorCursorSource.DEAL_TOPIC : MirrorCursorSource.CONFIG;
+    this.subscriptions.set(topicId, { topicId, source, invoiceKey });
+
     try {
-      const lastState = this.lastPolledState[topicId];
-      const filters: any = {
-        limit: 25,
-        order: 'desc' as const,
-      };
+      await prisma.mirrorCursor.upsert({
+        where: { topicId },
+        create: { topicId, source, invoiceKey },
+        update: { isActive: true }
+      });
+      logger.info({ topicId, invoiceKey }, 'Subscribed to HCS topic');
+    } catch (error) {
+      // The next poll registers the topic from the deal topics table
+      logger.error({ error, topicId }, 'Failed to persist topic subscription');
+    }
+  }
 
-      // If we have a last sequence number, only get newer messages
-      if (lastState?.lastSequenceNumber) {
-        filters.sequencenumber = `gt:${lastState.lastSequenceNumber}`;
+  /**
+   * Stop polling a topic. Its cursor is kept so a resubscribe resumes from it.
+   */
+  async unsubscribeTopic(topicId: string): Promise<void> {
+    this.subscriptions.delete(topicId);
+    delete this.lastPolledState[topicId];
+    delete this.gapRetries[topicId];
+
+    try {
+      await prisma.mirrorCursor.updateMany({ where: { topicId }, data: { isActive: false } });
+      logger.info({ topicId }, 'Unsubscribed from HCS topic');
+    } catch (error) {
+      logger.error({ error, topicId }, 'Failed to persist topic unsubscription');
+    }
+  }
+
+  /**
+   * Sync the polled topics with the configured topics and every active deal
+   * topic, and load persisted cursors for topics seen for the first time.
+   */
+  private async refreshSubscriptions(): Promise<void> {
+    const topics = new Map<string, TopicSubscription>();
+    for (const topicId of this.config.topicIds) {
+      topics.set(topicId, { topicId, source: MirrorCursorSource.CONFIG });
+    }
+
+    const dealTopics = await prisma.dealTopic.findMany({ where: { isActive: true } });
+    for (const dealTopic of dealTopics) {
+      if (!topics.has(dealTopic.topicId)) {
+        topics.set(dealTopic.topicId, {
+          topicId: dealTopic.topicId,
+          source: MirrorCursorSource.DEAL_TOPIC,
+          invoiceKey: dealTopic.invoiceKey
+        });
       }
+    }
 
-      const messages = await mirrorNodeService.getHCSMessages(topicId, filters);
-      
-      if (messages.length === 0) {
-        return;
+    for (const topicId of Object.keys(this.lastPolledState)) {
+      if (!topics.has(topicId)) {
+        delete this.lastPolledState[topicId];
       }
+    }
+    this.subscriptions = topics;
 
-      // Parse both legacy invoice messages and new milestone messages
-      const parsedInvoiceMessages = mirrorNodeService.parseInvoiceMessages(messages);
-      const parsedMilestoneMessages: MirrorNodeMilestone[] = [];
+    const unloaded = [...topics.keys()].filter(topicId => !this.lastPolledState[topicId]);
+    if (unloaded.length === 0) {
+      return;
+    }
+
+    const cursors = await prisma.mirrorCursor.findMany({ where: { topicId: { in: unloaded } } });
+    for (const cursor of cursors) {
+      this.lastPolledState[cursor.topicId] = {
+        lastSequenceNumber: cursor.lastSequenceNumber,
+        lastTimestamp: cursor.lastTimestamp || '',
+      };
+    }
+  }
+
+  /**
+   * Poll HCS messages for a specific topic, oldest first from the cursor.
+   * Sequence numbers must be contiguous: a gap is backfilled message by
+   * message, and the cursor stays before an unfilled gap until it has been
+   * retried maxGapRetries times.
+   */
+  private async pollHCSMessages(topicId: string): Promise<void> {
+    try {
+      let lastSequenceNumber = this.lastPolledState[topicId]?.lastSequenceNumber || 0;
+
+      for (let page = 0; page < this.config.maxPagesPerPoll; page++) {
+        const messages = await mirrorNodeService.getHCSMessages(topicId, {
+          limit: this.config.pageSize,
+          order: 'asc',
+          sequencenumber: `gt:${lastSequenceNumber}`,
+        });
+
+        if (!messages || messages.length === 0) {
+          return;
+        }
 
-      // Parse milestone messages using the new normalized structure
-      for (const message of messages) {
-        try {
-          const milestoneMessage = parseMilestoneMessage(message);
-          if (milestoneMessage) {
-            parsedMilestoneMessages.push(milestoneMessage);
+        const batch: HCSMessage[] = [];
+        let skipped = 0;
+        let blocked = false;
+
+        for (const message of [...messages].sort((a, b) => a.sequence_number - b.sequence_number)) {
+          if (message.sequence_number <= lastSequenceNumber) {
+            continue;
+          }
+
+          if (message.sequence_number > lastSequenceNumber + 1) {
+            const missing = await this.backfillGap(topicId, lastSequenceNumber + 1, message.sequence_number - 1);
+            batch.push(...missing);
+            if (missing.length > 0) {
+              lastSequenceNumber = missing[missing.length - 1].sequence_number;
+            }
+
+            if (lastSequenceNumber + 1 < message.sequence_number) {
+              const retries = (this.gapRetries[topicId] || 0) + 1;
+              if (retries <= this.config.maxGapRetries) {
+                this.gapRetries[topicId] = retries;
+                logger.warn(
+                  { topicId, missingFrom: lastSequenceNumber + 1, missingTo: message.sequence_number - 1, retries },
+                  'Sequence gap on HCS topic, retrying next poll'
+                );
+                blocked = true;
+                break;
+              }
+
+              skipped += message.sequence_number - lastSequenceNumber - 1;
+              logger.error(
+                { topicId, missingFrom: lastSequenceNumber + 1, missingTo: message.sequence_number - 1 },
+                'Skipping sequence gap on HCS topic after backfill retries'
+              );
+            }
+            delete this.gapRetries[topicId];
           }
-        } catch (error) {
-          logger.debug(`Failed to parse message as milestone: ${message.sequence_number}`, error);
+
+          batch.push(message);
+          lastSequenceNumber = message.sequence_number;
+        }
+
+        await this.handleMessages(topicId, batch, skipped);
+
+        if (blocked || messages.length < this.config.pageSize) {
+          return;
         }
       }
-      
-      // Update last polled state
-      const latestMessage = messages[0]; // messages are ordered desc, so first is latest
-      this.lastPolledState[topicId] = {
+    } catch (error) {
+      logger.error(`Error polling HCS messages for topic ${topicId}:`, error);
+    }
+  }
+
+  /**
+   * Fetch the messages of a sequence gap one by one, stopping at the first
+   * one the Mirror Node does not have yet.
+   */
+  private async backfillGap(topicId: string, from: number, to: number): Promise<HCSMessage[]> {
+    const found: HCSMessage[] = [];
+    for (let sequenceNumber = from; sequenceNumber <= to; sequenceNumber++) {
+      const message = await mirrorNodeService.getHCSMessage(topicId, sequenceNumber);
+      if (!message) {
+        break;
+      }
+      found.push(message);
+    }
+
+    if (found.length > 0) {
+      logger.info(`Backfilled ${found.length} HCS messages on topic ${topicId} from sequence ${from}`);
+    }
+    return found;
+  }
+
+  /**
+   * Broadcast a contiguous batch of messages, then move the persisted cursor
+   * past it. A crash in between re-emits the batch rather than losing it.
+   */
+  private async handleMessages(topicId: string, messages: HCSMessage[], skipped: number = 0): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    const invoiceTags = this.broadcastMessages(topicId, messages);
+    await this.invalidateCaches([CacheTags.topic(topicId), ...invoiceTags]);
+
+    const latestMessage = messages[messages.length - 1];
+    this.lastPolledState[topicId] = {
+      lastSequenceNumber: latestMessage.sequence_number,
+      lastTimestamp: latestMessage.consensus_timestamp,
+    };
+
+    const subscription = this.subscriptions.get(topicId);
+    await prisma.mirrorCursor.upsert({
+      where: { topicId },
+      create: {
+        topicId,
+        source: subscription?.source || MirrorCursorSource.CONFIG,
+        invoiceKey: subscription?.invoiceKey,
         lastSequenceNumber: latestMessage.sequence_number,
         lastTimestamp: latestMessage.consensus_timestamp,
-      };
+        skippedMessages: skipped,
+      },
+      update: {
+        lastSequenceNumber: latestMessage.sequence_number,
+        lastTimestamp: latestMessage.consensus_timestamp,
+        ...(skipped > 0 && { skippedMessages: { increment: skipped } }),
+      }
+    });
+  }
 
-      // Broadcast legacy invoice messages via WebSocket
-      for (const parsedMessage of parsedInvoiceMessages) {
-        const milestoneUpdate: MilestoneUpdate = {
-          type: 'hcs_message',
-          data: {
-            ...parsedMessage,
-            topicId,
-            rawMessage: messages.find(m => m.sequence_number === parsedMessage.sequenceNumber),
-          },
-          timestamp: new Date().toISOString(),
-          dealId: parsedMessage.tokenId,
-          invoiceId: parsedMessage.serialNumber,
-        };
+  /**
+   * Drop cached reads the new messages make stale. A failure is logged
+   * rather than holding back the cursor; entries still expire by TTL.
+   */
+  private async invalidateCaches(tags: string[]): Promise<void> {
+    try {
+      await CacheService.invalidateTags(tags);
+    } catch (error) {
+      logger.error({ tags, error: error instanceof Error ? error.message : String(error) }, 'Failed to invalidate caches');
+    }
+  }
 
-        websocketService.broadcastMilestoneUpdate(milestoneUpdate);
+  /**
+   * Parse and broadcast HCS messages over WebSocket, returning the cache
+   * tags of the invoices they mention
+   */
+  private broadcastMessages(topicId: string, messages: HCSMessage[]): string[] {
+    const invoiceTags = new Set<string>();
+
+    // Parse both legacy invoice messages and new milestone messages
+    const parsedInvoiceMessages = mirrorNodeService.parseInvoiceMessages(messages);
+    const parsedMilestoneMessages: MirrorNodeMilestone[] = [];
+
+    // Parse milestone messages using the new normalized structure
+    for (const message of messages) {
+      try {
+        const milestoneMessage = parseMilestoneMessage(message);
+        if (milestoneMessage) {
+          parsedMilestoneMessages.push(milestoneMessage);
+        }
+      } catch (error) {
+        logger.debug(`Failed to parse message as milestone: ${message.sequence_number}`, error);
       }
+    }
 
-      // Broadcast new milestone messages via WebSocket
-      for (const milestoneMessage of parsedMilestoneMessages) {
-        const milestoneUpdate: MilestoneUpdate = {
-          type: 'milestone_updated',
-          data: {
-            ...milestoneMessage,
-            topicId,
-            rawMessage: messages.find(m => m.sequence_number === milestoneMessage.sequenceNumber),
-          },
-          timestamp: new Date().toISOString(),
-          dealId: milestoneMessage.parsedData.payload?.tokenId || milestoneMessage.parsedData.data?.tokenId,
-          invoiceId: milestoneMessage.parsedData.payload?.serial || milestoneMessage.parsedData.data?.serial,
-        };
+    // Broadcast legacy invoice messages via WebSocket
+    for (const parsedMessage of parsedInvoiceMessages) {
+      const milestoneUpdate: MilestoneUpdate = {
+        type: 'hcs_message',
+        data: {
+          ...parsedMessage,
+          topicId,
+          rawMessage: messages.find(m => m.sequence_number === parsedMessage.sequenceNumber),
+        },
+        timestamp: new Date().toISOString(),
+        dealId: parsedMessage.tokenId,
+        invoiceId: parsedMessage.serialNumber,
+      };
 
-        websocketService.broadcastMilestoneUpdate(milestoneUpdate);
+      websocketService.broadcastMilestoneUpdate(milestoneUpdate);
+      if (parsedMessage.tokenId && parsedMessage.serialNumber) {
+        invoiceTags.add(CacheTags.invoice(parsedMessage.tokenId, parsedMessage.serialNumber));
       }
+    }
+
+    // Broadcast new milestone messages via WebSocket
+    for (const milestoneMessage of parsedMilestoneMessages) {
+      const milestoneUpdate: MilestoneUpdate = {
+        type: 'milestone_updated',
+        data: {
+          ...milestoneMessage,
+          topicId,
+          rawMessage: messages.find(m => m.sequence_number === milestoneMessage.sequenceNumber),
+        },
+        timestamp: new Date().toISOString(),
+        dealId: milestoneMessage.parsedData.payload?.tokenId || milestoneMessage.parsedData.data?.tokenId,
+        invoiceId: milestoneMessage.parsedData.payload?.serial || milestoneMessage.parsedData.data?.serial,
+      };
 
-      const totalMessages = parsedInvoiceMessages.length + parsedMilestoneMessages.length;
-      if (totalMessages > 0) {
-        logger.info(`Polled ${messages.length} new HCS messages from topic ${topicId} (${parsedInvoiceMessages.length} legacy, ${parsedMilestoneMessages.length} milestone)`);
+      websocketService.broadcastMilestoneUpdate(milestoneUpdate);
+      if (milestoneUpdate.dealId && milestoneUpdate.invoiceId) {
+        invoiceTags.add(CacheTags.invoice(milestoneUpdate.dealId, milestoneUpdate.invoiceId));
       }
-    } catch (error) {
-      logger.error(`Error polling HCS messages for topic ${topicId}:`, error);
     }
+
+    const totalMessages = parsedInvoiceMessages.length + parsedMilestoneMessages.length;
+    if (totalMessages > 0) {
+      logger.info(`Polled ${messages.length} new HCS messages from topic ${topicId} (${parsedInvoiceMessages.length} legacy, ${parsedMilestoneMessages.length} milestone)`);
+    }
+
+    return [...invoiceTags];
   }
 
   /**
@@ -238,9 +467,19 @@ class MirrorNodePollingService {
       isPolling: this.isPolling,
       config: this.config,
       lastPolledState: this.lastPolledState,
+      topics: [...this.subscriptions.values()],
     };
   }
 
+  /**
+   * Persisted cursors, active topics first
+   */
+  async getCursors() {
+    return prisma.mirrorCursor.findMany({
+      orderBy: [{ isActive: 'desc' }, { updatedAt: 'desc' }],
+    });
+  }
+
   /**
    * Update polling configuration
    */
@@ -273,4 +512,4 @@ class MirrorNodePollingService {
 // Export singleton instance
 export const mirrorNodePollingService = new MirrorNodePollingService();
 export { MirrorNodePollingService };
-export type { PollingConfig, LastPolledState };
\ No newline at end of file
+export type { PollingConfig, LastPolledState, TopicSubscription };
\ No newline at end of file
@@ -1,6 +1,6 @@
 import axios, { AxiosInstance } from 'axios';
 import { logger } from '../utils/logger';
-import { nftCache, hcsCache, CacheKeys } from './cacheService';
+import { nftCache, hcsCache, CacheKeys, CacheTags } from './cacheService';
 
 export interface MirrorNodeConfig {
   baseUrl: string;
@@ -46,6 +46,52 @@ export interface HCSMessagesResponse {
   };
 }
 
+export interface ContractLog {
+  address: string;
+  contract_id: string;
+  data: string;
+  index: number;
+  topics: string[];
+  block_hash: string;
+  block_number: number;
+  timestamp: string;
+  transaction_hash: string;
+  transaction_index?: number;
+}
+
+export interface ContractLogsResponse {
+  logs: ContractLog[];
+  links: {
+    next?: string | null;
+  };
+}
+
+export interface NFTTransaction {
+  consensus_timestamp: string;
+  transaction_id: string;
+  type: string; // TOKENMINT, CRYPTOTRANSFER, TOKENBURN, ...
+  sender_account_id: string | null;
+  receiver_account_id: string | null;
+  is_approval: boolean;
+  nonce: number;
+}
+
+export interface NFTTransactionsResponse {
+  transactions: NFTTransaction[];
+  links: {
+    next?: string | null;
+  };
+}
+
+export interface BlockInfo {
+  hash: string;
+  number: number;
+  timestamp: {
+    from: string;
+    to: string;
+  };
+}
+
 export interface HCSMessageFilters {
   sequencenumber?: string;
   timestamp?: string;
@@ -56,7 +102,7 @@ export interface HCSMessageFilters {
 export interface ParsedInvoiceMessage {
   tokenId: string;
   serialNumber: string;
-  status: 'issued' | 'funded' | 'paid' | 'defaulted';
+  status: 'issued' | 'funded' | 'paid' | 'overdue' | 'defaulted';
   timestamp: string;
   transactionId?: string;
   amount?: string;
@@ -201,19 +247,11 @@ export class MirrorNodeService {
     const cacheKey = `${CacheKeys.NFT_INFO}:${tokenId}:${serialNumber}`;
     
     try {
-      // Check cache first
-      const cached = await nftCache.get(cacheKey);
-      if (cached) {
-        return cached as NFTInfo;
-      }
-
-      const response = await this.client.get(`/api/v1/tokens/${tokenId}/nfts/${serialNumber}`);
-      const nftInfo = response.data as NFTInfo;
-
-      // Cache for 5 minutes
-      await nftCache.set(cacheKey, nftInfo, 300);
-      
-      return nftInfo;
+      // Concurrent misses share one request; cached for the nftCache default of 5 minutes
+      return await nftCache.getOrSet(cacheKey, async () => {
+        const response = await this.client.get(`/api/v1/tokens/${tokenId}/nfts/${serialNumber}`);
+        return response.data as NFTInfo;
+      }, { tags: [CacheTags.invoice(tokenId, serialNumber)] });
     } catch (error) {
       logger.error(`Failed to get NFT info for ${tokenId}/${serialNumber}:`, error);
       return null;
@@ -241,13 +279,7 @@ export class MirrorNodeService {
   ): Promise<HCSMessage[]> {
     const cacheKey = `${CacheKeys.HCS_MESSAGES}:${topicId}:${JSON.stringify(filters)}`;
     
-    try {
-      // Check cache first
-      const cached = await hcsCache.get(cacheKey);
-      if (cached) {
-        return cached as HCSMessage[];
-      }
-
+    const fetchMessages = async () => {
       const params = {
         limit: filters.limit || 25,
         order: filters.order || 'desc',
@@ -258,19 +290,99 @@ export class MirrorNodeService {
       const response = await this.client.get(`/api/v1/topics/${topicId}/messages`, {
         params
       });
-      
-      const messages = (response.data.messages || []) as HCSMessage[];
-      
-      // Cache for 2 minutes
-      await hcsCache.set(cacheKey, messages, 120);
-      
-      return messages;
+
+      return (response.data.messages || []) as HCSMessage[];
+    };
+
+    try {
+      // Sequence-number queries page forward from a cursor and must see new
+      // messages at once, so only plain reads are cached (for 2 minutes)
+      if (filters.sequencenumber) {
+        return await fetchMessages();
+      }
+
+      return await hcsCache.getOrSet(cacheKey, fetchMessages, {
+        ttl: 2 * 60 * 1000,
+        tags: [CacheTags.topic(topicId)],
+      });
     } catch (error) {
       logger.error(`Failed to get HCS messages for topic ${topicId}:`, error);
       return [];
     }
   }
 
+  // Get a page of contract logs, oldest first. Errors propagate so callers
+  // never mistake an outage for an empty page.
+  async getContractLogs(
+    contractId: string,
+    filters: { timestamp?: string; limit?: number; next?: string } = {}
+  ): Promise<ContractLogsResponse> {
+    if (filters.next) {
+      const response = await this.client.get(filters.next);
+      return { logs: response.data.logs || [], links: response.data.links || {} };
+    }
+
+    const response = await this.client.get(`/api/v1/contracts/${contractId}/results/logs`, {
+      params: {
+        order: 'asc',
+        limit: filters.limit || 100,
+        ...(filters.timestamp && { timestamp: filters.timestamp }),
+      }
+    });
+
+    return { logs: response.data.logs || [], links: response.data.links || {} };
+  }
+
+  // Get a page of an NFT's transfer history, oldest first and uncached.
+  // Errors propagate so an outage is never read as "no transfers".
+  async getNFTTransactions(
+    tokenId: string,
+    serialNumber: string,
+    filters: { timestamp?: string; limit?: number; next?: string } = {}
+  ): Promise<NFTTransactionsResponse> {
+    if (filters.next) {
+      const response = await this.client.get(filters.next);
+      return { transactions: response.data.transactions || [], links: response.data.links || {} };
+    }
+
+    const response = await this.client.get(`/api/v1/tokens/${tokenId}/nfts/${serialNumber}/transactions`, {
+      params: {
+        order: 'asc',
+        limit: filters.limit || 100,
+        ...(filters.timestamp && { timestamp: filters.timestamp }),
+      }
+    });
+
+    return { transactions: response.data.transactions || [], links: response.data.links || {} };
+  }
+
+  // Get a single HCS message by sequence number, uncached. Used to backfill
+  // gaps, so a message the Mirror Node has not ingested yet returns null.
+  async getHCSMessage(topicId: string, sequenceNumber: number): Promise<HCSMessage | null> {
+    try {
+      const response = await this.client.get(`/api/v1/topics/${topicId}/messages/${sequenceNumber}`);
+      return response.data;
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Get a record block by number
+  async getBlock(blockNumber: number): Promise<BlockInfo | null> {
+    try {
+      const response = await this.client.get(`/api/v1/blocks/${blockNumber}`);
+      return response.data;
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   // Parse invoice-related HCS messages
   parseInvoiceMessages(messages: HCSMessage[]): ParsedInvoiceMessage[] {
     const parsedMessages: (ParsedInvoiceMessage | null)[] = messages
@@ -285,12 +397,12 @@ export class MirrorNodeService {
               data.tokenId && 
               data.serialNumber && 
               data.status &&
-              ['issued', 'funded', 'paid', 'defaulted'].includes(data.status)) {
+              ['issued', 'funded', 'paid', 'overdue', 'defaulted'].includes(data.status)) {
             
             const parsedMessage: ParsedInvoiceMessage = {
               tokenId: String(data.tokenId),
               serialNumber: String(data.serialNumber),
-              status: data.status as 'issued' | 'funded' | 'paid' | 'defaulted',
+              status: data.status as 'issued' | 'funded' | 'paid' | 'overdue' | 'defaulted',
               timestamp: message.consensus_timestamp,
               sequenceNumber: message.sequence_number,
             };
@@ -0,0 +1,469 @@
+import { PrismaClient } from '@prisma/client';
+import { AccountId } from '@hashgraph/sdk';
+import { mirrorNodeService, NFTTransaction } from './mirrorNodeService';
+import { contractService, SettlementTransaction } from './contract';
+import { invoiceService, InvoiceStatus, InvoiceEventType } from './invoices';
+import { ledgerService } from './ledgerService';
+import { fxService, SETTLEMENT_CURRENCY } from './fxService';
+import { faceValueOf } from './pricingService';
+import { documentEncryptionService, DocumentKeyRole } from './documentEncryptionService';
+import { logger } from '../utils/logger';
+import { ValidationError, NotFoundError, ConflictError, AuthorizationError } from '../middleware/errorHandler';
+
+const prisma = new PrismaClient();
+
+// Define enums locally since they're not exported from Prisma client
+export enum NftTransferType {
+  MINT = 'MINT',
+  TRANSFER = 'TRANSFER'
+}
+
+// Funding statuses in which the position follows the NFT to a new holder
+const TRANSFERABLE_FUNDING_STATUSES = ['ACTIVE', 'RELEASED'];
+
+// Invoices whose NFT no longer needs following
+const CLOSED_INVOICE_STATUSES = [InvoiceStatus.PAID, InvoiceStatus.CANCELLED];
+
+export interface NftOwnershipConfig {
+  interval: number; // milliseconds between sync runs
+  enabled: boolean;
+  batchSize: number; // invoices synced per run
+  pageLimit: number; // Mirror Node transactions fetched per request
+  settlementPayouts: boolean; // forward invoice payments to the holder through the escrow contract
+}
+
+export interface OwnershipSyncResult {
+  invoiceId: string;
+  holderAccountId: string | null;
+  recorded: number; // new transfers stored
+  positionsMoved: number; // fundings handed to a new holder
+}
+
+export function loadNftOwnershipConfig(): NftOwnershipConfig {
+  return {
+    interval: parseInt(process.env['NFT_OWNERSHIP_SYNC_INTERVAL'] || '60000'), // 1 minute default
+    enabled: process.env['NFT_OWNERSHIP_SYNC_ENABLED'] === 'true',
+    batchSize: parseInt(process.env['NFT_OWNERSHIP_SYNC_BATCH_SIZE'] || '50'),
+    pageLimit: parseInt(process.env['NFT_OWNERSHIP_PAGE_LIMIT'] || '100'),
+    settlementPayouts: process.env['SETTLEMENT_PAYOUTS_ENABLED'] === 'true',
+  };
+}
+
+/**
+ * EVM address the escrow contract knows a Hedera account by
+ */
+export function toEvmAddress(accountId: string): string {
+  return `0x${AccountId.fromString(accountId).toSolidityAddress()}`;
+}
+
+/**
+ * Tracks who holds each invoice NFT. Transfers are read from the Mirror Node
+ * and stored as an ownership history; when the NFT changes hands the funding
+ * position moves with it, so refunds and settlements pay the current holder.
+ */
+export class NftOwnershipService {
+  private syncInterval: NodeJS.Timeout | null = null;
+  private isSyncing: boolean = false;
+  private config: NftOwnershipConfig;
+
+  constructor(config: Partial<NftOwnershipConfig> = {}) {
+    this.config = { ...loadNftOwnershipConfig(), ...config };
+  }
+
+  /**
+   * Start following invoice NFT transfers
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      logger.info('NFT ownership sync is disabled');
+      return;
+    }
+
+    if (this.syncInterval) {
+      logger.warn('NFT ownership sync is already running');
+      return;
+    }
+
+    logger.info({ interval: this.config.interval }, 'Starting NFT ownership sync');
+
+    this.syncInterval = setInterval(async () => {
+      if (!this.isSyncing) {
+        await this.runOnce();
+      }
+    }, this.config.interval);
+  }
+
+  /**
+   * Stop following invoice NFT transfers
+   */
+  stop(): void {
+    if (this.syncInterval) {
+      clearInterval(this.syncInterval);
+      this.syncInterval = null;
+      logger.info('NFT ownership sync stopped');
+    }
+  }
+
+  /**
+   * Sync the holders of every open invoice NFT
+   * @returns Per-invoice results of this run
+   */
+  async runOnce(): Promise<OwnershipSyncResult[]> {
+    this.isSyncing = true;
+    const results: OwnershipSyncResult[] = [];
+
+    try {
+      const invoices = await prisma.invoice.findMany({
+        where: {
+          nftTokenId: { not: null },
+          nftSerialNumber: { not: null },
+          status: { notIn: CLOSED_INVOICE_STATUSES },
+        },
+        select: { id: true },
+        orderBy: { updatedAt: 'asc' },
+        take: this.config.batchSize,
+      });
+
+      for (const invoice of invoices) {
+        try {
+          results.push(await this.syncInvoice(invoice.id));
+        } catch (error) {
+          logger.error({ invoiceId: invoice.id, error: error instanceof Error ? error.message : String(error) }, 'Failed to sync invoice NFT ownership');
+        }
+      }
+
+      const moved = results.reduce((sum, result) => sum + result.positionsMoved, 0);
+      if (moved > 0) {
+        logger.info({ invoices: results.length, positionsMoved: moved }, 'NFT ownership sync completed');
+      }
+    } catch (error) {
+      logger.error({ error: error instanceof Error ? error.message : String(error) }, 'NFT ownership sync failed');
+    } finally {
+      this.isSyncing = false;
+    }
+
+    return results;
+  }
+
+  /**
+   * Record the NFT transfers of an invoice since the last sync and move its
+   * funding position to the new holder. Transfers are keyed by consensus
+   * timestamp, so re-reading a page never records one twice.
+   */
+  async syncInvoice(invoiceId: string): Promise<OwnershipSyncResult> {
+    const invoice = await prisma.invoice.findUnique({ where: { id: invoiceId } });
+    if (!invoice) {
+      throw new NotFoundError('Invoice');
+    }
+    if (!invoice.nftTokenId || !invoice.nftSerialNumber) {
+      throw new ValidationError('Invoice has no NFT');
+    }
+
+    const result: OwnershipSyncResult = {
+      invoiceId,
+      holderAccountId: invoice.nftHolderAccountId,
+      recorded: 0,
+      positionsMoved: 0,
+    };
+
+    const last = await prisma.nftTransfer.findFirst({
+      where: { nftTokenId: invoice.nftTokenId, nftSerialNumber: invoice.nftSerialNumber },
+      orderBy: { consensusTimestamp: 'desc' },
+    });
+
+    let next: string | undefined;
+    do {
+      const page = await mirrorNodeService.getNFTTransactions(invoice.nftTokenId, invoice.nftSerialNumber, {
+        timestamp: !next && last ? `gt:${last.consensusTimestamp}` : undefined,
+        limit: this.config.pageLimit,
+        next,
+      });
+
+      for (const transaction of page.transactions) {
+        // Burns and wipes have no receiver; the NFT then has no holder to pay
+        if (!transaction.receiver_account_id) {
+          continue;
+        }
+
+        const moved = await this.recordTransfer(invoice, transaction);
+        result.recorded++;
+        result.positionsMoved += moved;
+        result.holderAccountId = transaction.receiver_account_id;
+      }
+
+      next = page.links.next || undefined;
+    } while (next);
+
+    if (result.holderAccountId !== invoice.nftHolderAccountId) {
+      await prisma.invoice.update({
+        where: { id: invoiceId },
+        data: { nftHolderAccountId: result.holderAccountId },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Ownership history of an invoice NFT, oldest transfer first
+   */
+  async getOwnershipHistory(nftTokenId: string, nftSerialNumber: string) {
+    const [invoice, transfers] = await Promise.all([
+      prisma.invoice.findFirst({
+        where: { nftTokenId, nftSerialNumber },
+        select: { id: true, invoiceNumber: true, nftHolderAccountId: true },
+      }),
+      prisma.nftTransfer.findMany({
+        where: { nftTokenId, nftSerialNumber },
+        orderBy: { consensusTimestamp: 'asc' },
+      }),
+    ]);
+
+    if (!invoice && transfers.length === 0) {
+      throw new NotFoundError('NFT');
+    }
+
+    return {
+      nftTokenId,
+      nftSerialNumber,
+      invoiceId: invoice?.id ?? null,
+      invoiceNumber: invoice?.invoiceNumber ?? null,
+      currentHolderAccountId: invoice?.nftHolderAccountId ?? transfers[transfers.length - 1]?.toAccountId ?? null,
+      transfers,
+    };
+  }
+
+  /**
+   * Check that an invoice position can be sold from one investor to another.
+   * Only the current NFT holder can sell, and only to a registered investor.
+   */
+  async authorizeSale(invoiceId: string, sellerAccountId: string, buyerAccountId: string) {
+    if (sellerAccountId === buyerAccountId) {
+      throw new ValidationError('Buyer and seller must be different accounts');
+    }
+
+    const { holderAccountId } = await this.syncInvoice(invoiceId);
+    if (holderAccountId !== sellerAccountId) {
+      throw new AuthorizationError('Only the current holder of the invoice NFT can sell it');
+    }
+
+    const invoice = await prisma.invoice.findUniqueOrThrow({
+      where: { id: invoiceId },
+      include: { syndicate: true },
+    });
+    if (CLOSED_INVOICE_STATUSES.includes(invoice.status as InvoiceStatus)) {
+      throw new ConflictError(`Invoice cannot be sold in status ${invoice.status}`);
+    }
+    if (invoice.syndicate) {
+      throw new ConflictError('Syndicated invoices cannot be sold as a whole');
+    }
+
+    const funding = await prisma.funding.findFirst({
+      where: { invoiceId, status: { in: TRANSFERABLE_FUNDING_STATUSES }, settledAt: null },
+    });
+    if (!funding) {
+      throw new ConflictError('Invoice has no funded position to sell');
+    }
+
+    const buyer = await prisma.user.findUnique({ where: { accountId: buyerAccountId } });
+    if (!buyer || !JSON.parse(buyer.roles || '[]').includes('INVESTOR')) {
+      throw new ValidationError('Buyer must be a registered investor');
+    }
+
+    return { invoice, funding, buyer };
+  }
+
+  /**
+   * Forward an invoice payment to the current holder through the escrow
+   * contract. Off unless SETTLEMENT_PAYOUTS_ENABLED is set; failures are
+   * logged and left for an operator to retry.
+   */
+  async payoutSettlement(invoiceId: string): Promise<SettlementTransaction | null> {
+    if (!this.config.settlementPayouts) {
+      return null;
+    }
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      include: {
+        fundings: {
+          where: { escrowId: { not: null } },
+          include: { disputes: { where: { status: 'RESOLVED' } } },
+        },
+        events: { where: { eventType: InvoiceEventType.SETTLEMENT_PAID }, take: 1 },
+      },
+    });
+    if (!invoice || invoice.fundings.length === 0) {
+      return null;
+    }
+    // The escrow settles once; a repeated payment notice must not pay again
+    if (invoice.events.length > 0) {
+      logger.warn({ invoiceId }, 'Settlement already paid to NFT holder, skipping payout');
+      return null;
+    }
+
+    // A dispute split has already paid the investor their share out of the escrow
+    const funding = invoice.fundings.find(f => f.status === 'RELEASED' && f.disputes.length === 0);
+    if (!funding) {
+      logger.warn({ invoiceId }, 'No escrow released without a dispute, skipping settlement payout');
+      return null;
+    }
+
+    try {
+      // The holder collects the face value the funding bought, not the whole invoice;
+      // the escrow pays out in HBAR and fiat invoices settle at the day's rate
+      const payout = await fxService.convert(faceValueOf(funding), invoice.currency, SETTLEMENT_CURRENCY);
+      const result = await contractService.settle(invoiceId, payout.converted.toString());
+
+      await invoiceService.addInvoiceEvent(
+        invoiceId,
+        InvoiceEventType.SETTLEMENT_PAID,
+        `Settlement of ${result.amount} HBAR paid to holder ${result.holder}`,
+        { holder: result.holder, amount: result.amount },
+        undefined,
+        new Date(),
+        result.transactionHash
+      );
+
+      logger.info({ invoiceId, holder: result.holder, amount: result.amount }, 'Settlement paid to NFT holder');
+      return result;
+    } catch (error) {
+      logger.error({ invoiceId, error: error instanceof Error ? error.message : String(error) }, 'Failed to pay settlement to NFT holder');
+      return null;
+    }
+  }
+
+  private async recordTransfer(invoice: any, transaction: NFTTransaction): Promise<number> {
+    const type = transaction.type === 'TOKENMINT' ? NftTransferType.MINT : NftTransferType.TRANSFER;
+    const price = type === NftTransferType.TRANSFER ? await this.findSalePrice(transaction) : null;
+    const transferredAt = new Date(parseFloat(transaction.consensus_timestamp) * 1000);
+
+    await prisma.nftTransfer.upsert({
+      where: {
+        nftTokenId_nftSerialNumber_consensusTimestamp: {
+          nftTokenId: invoice.nftTokenId,
+          nftSerialNumber: invoice.nftSerialNumber,
+          consensusTimestamp: transaction.consensus_timestamp,
+        },
+      },
+      create: {
+        invoiceId: invoice.id,
+        nftTokenId: invoice.nftTokenId,
+        nftSerialNumber: invoice.nftSerialNumber,
+        type,
+        fromAccountId: transaction.sender_account_id,
+        toAccountId: transaction.receiver_account_id!,
+        price,
+        transactionId: transaction.transaction_id,
+        consensusTimestamp: transaction.consensus_timestamp,
+        createdAt: transferredAt,
+      },
+      update: {},
+    });
+
+    if (type !== NftTransferType.TRANSFER) {
+      return 0;
+    }
+
+    return this.movePosition(invoice, transaction, price, transferredAt);
+  }
+
+  /**
+   * Hand the invoice's funding position to the NFT's new owner. Transfers
+   * that do not come from the position holder, such as the supplier passing
+   * the NFT to the funding investor, leave the position where it is.
+   */
+  private async movePosition(invoice: any, transaction: NFTTransaction, price: number | null, transferredAt: Date): Promise<number> {
+    const funding = await prisma.funding.findFirst({
+      where: {
+        invoiceId: invoice.id,
+        syndicateId: null,
+        settledAt: null,
+        status: { in: TRANSFERABLE_FUNDING_STATUSES },
+      },
+      include: { investor: true, holder: true },
+    });
+    if (!funding) {
+      return 0;
+    }
+
+    const seller = funding.holder ?? funding.investor;
+    if (seller.accountId !== transaction.sender_account_id) {
+      return 0;
+    }
+
+    const buyer = await prisma.user.findUnique({ where: { accountId: transaction.receiver_account_id! } });
+    if (!buyer) {
+      logger.warn({ invoiceId: invoice.id, fundingId: funding.id, accountId: transaction.receiver_account_id }, 'Invoice NFT sold to an unregistered account; position not moved');
+      return 0;
+    }
+
+    const holderId = buyer.id === funding.investorId ? null : buyer.id;
+    await prisma.funding.update({ where: { id: funding.id }, data: { holderId } });
+
+    // The NFT has already changed hands, so ledger failures are left for reconciliation
+    try {
+      await ledgerService.recordPositionTransfer(funding, seller.id, buyer.id, price, transaction.consensus_timestamp, transferredAt);
+    } catch (error) {
+      logger.error({ fundingId: funding.id, error: error instanceof Error ? error.message : String(error) }, 'Failed to post position transfer to ledger');
+    }
+
+    // The new holder reads the invoice documents the seller could
+    try {
+      await documentEncryptionService.grantInvoiceAccess(invoice.id, buyer.id, DocumentKeyRole.INVESTOR);
+    } catch (error) {
+      logger.error({ fundingId: funding.id, error: error instanceof Error ? error.message : String(error) }, 'Failed to grant document access');
+    }
+
+    if (funding.escrowId) {
+      await this.syncEscrowHolder(invoice.id, buyer.accountId);
+    }
+
+    await invoiceService.addInvoiceEvent(
+      invoice.id,
+      InvoiceEventType.NFT_TRANSFERRED,
+      `Invoice NFT transferred from ${seller.accountId} to ${buyer.accountId}${price !== null ? ` for ${price} HBAR` : ''}`,
+      { fundingId: funding.id, from: seller.accountId, to: buyer.accountId, price, consensusTimestamp: transaction.consensus_timestamp },
+      undefined,
+      transferredAt,
+      transaction.transaction_id
+    );
+
+    logger.info({ invoiceId: invoice.id, fundingId: funding.id, from: seller.accountId, to: buyer.accountId, price }, 'Funding position moved to new NFT holder');
+
+    return 1;
+  }
+
+  /**
+   * Point the escrow's payouts at the new holder. The contract keeps the
+   * previous holder if this fails, so it is logged for an operator to retry.
+   */
+  private async syncEscrowHolder(invoiceId: string, accountId: string): Promise<void> {
+    try {
+      const holder = toEvmAddress(accountId);
+      const current = await contractService.getHolder(invoiceId);
+      if (current.toLowerCase() === holder.toLowerCase()) {
+        return;
+      }
+      await contractService.updateHolder(invoiceId, holder);
+    } catch (error) {
+      logger.error({ invoiceId, accountId, error: error instanceof Error ? error.message : String(error) }, 'Failed to update escrow holder');
+    }
+  }
+
+  /**
+   * HBAR the seller received in the transfer's transaction, or null for a
+   * gift or a sale settled off-ledger
+   */
+  private async findSalePrice(transaction: NFTTransaction): Promise<number | null> {
+    const details = await mirrorNodeService.getTransaction(transaction.transaction_id);
+    const received = (details?.transfers || [])
+      .filter(transfer => transfer.account === transaction.sender_account_id)
+      .reduce((sum, transfer) => sum + transfer.amount, 0);
+
+    return received > 0 ? received / 100000000 : null;
+  }
+}
+
+// Export singleton instance
+export const nftOwnershipService = new NftOwnershipService();
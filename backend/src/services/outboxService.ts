@@ -0,0 +1,629 @@
+import { createHash } from 'crypto';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { HederaService, HCSMessageData, InvoiceNFTData } from './hedera';
+import { invoiceService, InvoiceEventType } from './invoices';
+import { documentEncryptionService } from './documentEncryptionService';
+import { documentStoreService, StagedContent } from './documentStoreService';
+import { NotFoundError, ConflictError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { Clock, systemClock } from '../utils/clock';
+
+// Create hedera service instance
+const hederaService = new HederaService({
+  operatorId: process.env['OPERATOR_ID']!,
+  operatorKey: process.env['OPERATOR_KEY']!,
+  network: process.env['HEDERA_NETWORK'] || 'testnet',
+  mirrorNodeUrl: process.env['MIRROR_NODE_URL'] || 'https://testnet.mirrornode.hedera.com',
+});
+
+const prisma = new PrismaClient();
+
+// Define enums locally since they're not exported from Prisma client
+export enum OutboxAction {
+  HFS_UPLOAD = 'HFS_UPLOAD',
+  NFT_MINT = 'NFT_MINT',
+  HCS_STATUS_MESSAGE = 'HCS_STATUS_MESSAGE',
+  HCS_MESSAGE = 'HCS_MESSAGE',
+  ESCROW_DEPOSIT = 'ESCROW_DEPOSIT'
+}
+
+export enum OutboxStatus {
+  PENDING = 'PENDING',
+  PROCESSING = 'PROCESSING',
+  COMPLETED = 'COMPLETED',
+  DEAD_LETTERED = 'DEAD_LETTERED'
+}
+
+export interface OutboxConfig {
+  interval: number; // milliseconds between worker runs
+  enabled: boolean;
+  batchSize: number;
+  maxAttempts: number; // attempts before a message is dead-lettered
+  baseDelay: number; // milliseconds before the first retry, doubled on every later one
+  maxDelay: number;
+  lockTimeout: number; // milliseconds before a message stuck in PROCESSING is retried
+}
+
+export interface EnqueueOutboxMessage {
+  action: OutboxAction;
+  aggregateType: 'Invoice' | 'Funding' | 'MarketplaceListing' | 'Document';
+  aggregateId: string;
+  invoiceId?: string;
+  idempotencyKey: string;
+  payload: Record<string, any>;
+}
+
+export interface OutboxRunSummary {
+  processed: number;
+  completed: number;
+  retried: number;
+  deadLettered: number;
+  released: number; // stale PROCESSING locks released
+}
+
+export interface OutboxHandler {
+  /** Perform the Hedera write and apply its result; the return value is stored on the message */
+  execute(payload: any, message: OutboxMessageRow): Promise<any>;
+  /** Undo or flag the domain change once the write is given up */
+  onDeadLetter?(payload: any, message: OutboxMessageRow): Promise<void>;
+}
+
+type OutboxMessageRow = {
+  id: string;
+  action: string;
+  aggregateId: string;
+  idempotencyKey: string;
+  payload: string;
+  attempts: number;
+  maxAttempts: number;
+  result?: string | null; // progress a handler recorded on an earlier attempt
+  createdAt: Date;
+};
+
+// Everything but the payload, which can hold a whole PDF
+const SUMMARY_SELECT = {
+  id: true,
+  action: true,
+  aggregateType: true,
+  aggregateId: true,
+  invoiceId: true,
+  idempotencyKey: true,
+  status: true,
+  attempts: true,
+  maxAttempts: true,
+  nextAttemptAt: true,
+  lastError: true,
+  result: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+export function loadOutboxConfig(): OutboxConfig {
+  return {
+    interval: parseInt(process.env['OUTBOX_WORKER_INTERVAL'] || '5000'), // 5 seconds default
+    enabled: process.env['OUTBOX_WORKER_ENABLED'] === 'true',
+    batchSize: parseInt(process.env['OUTBOX_BATCH_SIZE'] || '20'),
+    maxAttempts: parseInt(process.env['OUTBOX_MAX_ATTEMPTS'] || '8'),
+    baseDelay: parseInt(process.env['OUTBOX_RETRY_BASE_DELAY'] || '5000'),
+    maxDelay: parseInt(process.env['OUTBOX_RETRY_MAX_DELAY'] || '3600000'), // 1 hour cap
+    lockTimeout: parseInt(process.env['OUTBOX_LOCK_TIMEOUT'] || '300000'),
+  };
+}
+
+/**
+ * Delay before the next attempt after the given number of failed attempts
+ */
+export function computeBackoff(attempts: number, config: Pick<OutboxConfig, 'baseDelay' | 'maxDelay'>): number {
+  return Math.min(config.baseDelay * 2 ** Math.max(attempts - 1, 0), config.maxDelay);
+}
+
+// Messages enqueued in one transaction can share a timestamp; cuids break the tie in creation order
+const QUEUE_ORDER = [{ createdAt: 'asc' as const }, { id: 'asc' as const }];
+
+const parseJson = (value: string | null) => (value ? JSON.parse(value) : null);
+
+/**
+ * Transactional outbox for Hedera writes. Callers enqueue a message in the
+ * same Prisma transaction as the domain change it belongs to; the message is
+ * then executed right away and, when that fails, by the worker with
+ * exponential backoff until it succeeds or is dead-lettered.
+ *
+ * Messages of one aggregate run in the order they were enqueued, so an NFT
+ * mint sees the file uploaded before it. Delivery is at-least-once: handlers
+ * check the domain state before writing, and HCS messages carry the
+ * idempotency key so consumers can drop duplicates.
+ */
+export class OutboxService {
+  private workerInterval: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+  private config: OutboxConfig;
+  private clock: Clock;
+  private handlers = new Map<string, OutboxHandler>();
+
+  constructor(config: Partial<OutboxConfig> = {}, clock: Clock = systemClock) {
+    this.config = { ...loadOutboxConfig(), ...config };
+    this.clock = clock;
+
+    this.registerHandler(OutboxAction.HFS_UPLOAD, { execute: payload => this.uploadInvoiceFile(payload) });
+    this.registerHandler(OutboxAction.NFT_MINT, { execute: payload => this.mintInvoiceNFT(payload) });
+    this.registerHandler(OutboxAction.HCS_STATUS_MESSAGE, { execute: payload => this.submitInvoiceStatus(payload) });
+    this.registerHandler(OutboxAction.HCS_MESSAGE, { execute: (payload, message) => this.submitTopicMessage(payload, message) });
+  }
+
+  /**
+   * Handle an action outside this module, e.g. escrow deposits in FundingService
+   */
+  registerHandler(action: OutboxAction, handler: OutboxHandler): void {
+    this.handlers.set(action, handler);
+  }
+
+  /**
+   * Start the outbox worker
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      logger.info('Outbox worker is disabled');
+      return;
+    }
+
+    if (this.workerInterval) {
+      logger.warn('Outbox worker is already running');
+      return;
+    }
+
+    logger.info({ interval: this.config.interval, maxAttempts: this.config.maxAttempts }, 'Starting outbox worker');
+
+    this.workerInterval = setInterval(async () => {
+      if (!this.isRunning) {
+        await this.runOnce();
+      }
+    }, this.config.interval);
+  }
+
+  /**
+   * Stop the outbox worker
+   */
+  stop(): void {
+    if (this.workerInterval) {
+      clearInterval(this.workerInterval);
+      this.workerInterval = null;
+      logger.info('Outbox worker stopped');
+    }
+  }
+
+  /**
+   * Enqueue a Hedera write inside the caller's transaction. Enqueueing the
+   * same idempotency key again returns the message already stored.
+   */
+  async enqueue(db: Prisma.TransactionClient, message: EnqueueOutboxMessage) {
+    return db.outboxMessage.upsert({
+      where: { idempotencyKey: message.idempotencyKey },
+      create: {
+        action: message.action,
+        aggregateType: message.aggregateType,
+        aggregateId: message.aggregateId,
+        invoiceId: message.invoiceId,
+        idempotencyKey: message.idempotencyKey,
+        payload: JSON.stringify(message.payload),
+        maxAttempts: this.config.maxAttempts,
+        nextAttemptAt: this.clock.now(),
+      },
+      update: {},
+    });
+  }
+
+  /**
+   * Record what a handler already wrote to Hedera, so a retry after a later
+   * failure can pick up from there instead of writing again
+   */
+  async recordProgress(messageId: string, progress: Record<string, any>): Promise<void> {
+    await prisma.outboxMessage.update({
+      where: { id: messageId },
+      data: { result: JSON.stringify(progress) },
+    });
+  }
+
+  /**
+   * Execute the due messages of one aggregate now, in order, stopping at the
+   * first that fails so later messages keep waiting for it
+   * @returns the messages of the aggregate after the attempt
+   */
+  async dispatchAggregate(aggregateId: string) {
+    const now = this.clock.now();
+    const queued = await prisma.outboxMessage.findMany({
+      where: { aggregateId, status: { in: [OutboxStatus.PENDING, OutboxStatus.PROCESSING] } },
+      orderBy: QUEUE_ORDER,
+    });
+
+    for (const message of queued) {
+      if (message.status !== OutboxStatus.PENDING || message.nextAttemptAt > now) {
+        break;
+      }
+      if (await this.process(message) !== OutboxStatus.COMPLETED) {
+        break;
+      }
+    }
+
+    return this.getAggregateMessages(aggregateId);
+  }
+
+  /**
+   * Execute due messages, oldest first. A message waits while an earlier
+   * message of its aggregate is still pending.
+   */
+  async runOnce(): Promise<OutboxRunSummary> {
+    this.isRunning = true;
+    const summary: OutboxRunSummary = { processed: 0, completed: 0, retried: 0, deadLettered: 0, released: 0 };
+
+    try {
+      const now = this.clock.now();
+
+      const stale = await prisma.outboxMessage.updateMany({
+        where: { status: OutboxStatus.PROCESSING, lockedAt: { lt: new Date(now.getTime() - this.config.lockTimeout) } },
+        data: { status: OutboxStatus.PENDING, lockedAt: null, nextAttemptAt: now },
+      });
+      summary.released = stale.count;
+
+      const due = await prisma.outboxMessage.findMany({
+        where: { status: OutboxStatus.PENDING, nextAttemptAt: { lte: now } },
+        orderBy: QUEUE_ORDER,
+        take: this.config.batchSize,
+      });
+
+      const blocked = new Set<string>();
+      for (const message of due) {
+        if (blocked.has(message.aggregateId) || await this.hasEarlierPending(message)) {
+          blocked.add(message.aggregateId);
+          continue;
+        }
+
+        const status = await this.process(message);
+        if (!status) {
+          continue;
+        }
+
+        summary.processed++;
+        if (status === OutboxStatus.COMPLETED) {
+          summary.completed++;
+        } else {
+          blocked.add(message.aggregateId);
+          if (status === OutboxStatus.DEAD_LETTERED) {
+            summary.deadLettered++;
+          } else {
+            summary.retried++;
+          }
+        }
+      }
+
+      if (summary.processed > 0 || summary.released > 0) {
+        logger.info(summary, 'Outbox run completed');
+      }
+    } catch (error) {
+      logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Outbox run failed');
+    } finally {
+      this.isRunning = false;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Messages without their payload, newest first, with counts per status
+   */
+  async getMessages(filter: { status?: OutboxStatus; action?: OutboxAction; invoiceId?: string; limit: number; offset: number }) {
+    const where = { status: filter.status, action: filter.action, invoiceId: filter.invoiceId };
+
+    const [messages, total, byStatus] = await Promise.all([
+      prisma.outboxMessage.findMany({
+        where,
+        select: SUMMARY_SELECT,
+        orderBy: { createdAt: 'desc' },
+        take: filter.limit,
+        skip: filter.offset,
+      }),
+      prisma.outboxMessage.count({ where }),
+      prisma.outboxMessage.groupBy({ by: ['status'], _count: { _all: true } }),
+    ]);
+
+    const counts = Object.fromEntries(Object.values(OutboxStatus).map(status => [status, 0])) as Record<OutboxStatus, number>;
+    for (const row of byStatus) {
+      counts[row.status as OutboxStatus] = row._count._all;
+    }
+
+    return { messages: messages.map(m => ({ ...m, result: parseJson(m.result) })), total, counts };
+  }
+
+  /**
+   * Outbox status of an invoice: its messages and whether Hedera has caught up
+   */
+  async getInvoiceStatus(invoiceId: string) {
+    const messages = await prisma.outboxMessage.findMany({
+      where: { invoiceId },
+      select: SUMMARY_SELECT,
+      orderBy: QUEUE_ORDER,
+    });
+
+    const count = (status: OutboxStatus) => messages.filter(m => m.status === status).length;
+    const pending = count(OutboxStatus.PENDING) + count(OutboxStatus.PROCESSING);
+    const deadLettered = count(OutboxStatus.DEAD_LETTERED);
+
+    return {
+      synced: pending === 0 && deadLettered === 0,
+      pending,
+      deadLettered,
+      messages: messages.map(m => ({ ...m, result: parseJson(m.result) })),
+    };
+  }
+
+  /**
+   * Put a dead-lettered message back in the queue with a fresh set of attempts
+   */
+  async retry(id: string) {
+    const message = await prisma.outboxMessage.findUnique({ where: { id } });
+    if (!message) {
+      throw new NotFoundError('Outbox message');
+    }
+    if (message.status !== OutboxStatus.DEAD_LETTERED) {
+      throw new ConflictError(`Only dead-lettered messages can be retried, message is ${message.status}`);
+    }
+
+    return prisma.outboxMessage.update({
+      where: { id },
+      data: { status: OutboxStatus.PENDING, attempts: 0, nextAttemptAt: this.clock.now(), lastError: null },
+      select: SUMMARY_SELECT,
+    });
+  }
+
+  /**
+   * Claim and execute one message
+   * @returns the status it ended in, or null when another worker claimed it first
+   */
+  private async process(message: OutboxMessageRow): Promise<OutboxStatus | null> {
+    const now = this.clock.now();
+    const claimed = await prisma.outboxMessage.updateMany({
+      where: { id: message.id, status: OutboxStatus.PENDING },
+      data: { status: OutboxStatus.PROCESSING, lockedAt: now, attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const attempts = message.attempts + 1;
+    const handler = this.handlers.get(message.action);
+    const payload = JSON.parse(message.payload);
+
+    try {
+      if (!handler) {
+        throw new Error(`No outbox handler for ${message.action}`);
+      }
+
+      const result = await handler.execute(payload, message);
+
+      await prisma.outboxMessage.update({
+        where: { id: message.id },
+        data: {
+          status: OutboxStatus.COMPLETED,
+          result: result === undefined ? null : JSON.stringify(result),
+          lastError: null,
+          lockedAt: null,
+          completedAt: this.clock.now(),
+        },
+      });
+      return OutboxStatus.COMPLETED;
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+
+      if (attempts >= message.maxAttempts) {
+        await prisma.outboxMessage.update({
+          where: { id: message.id },
+          data: { status: OutboxStatus.DEAD_LETTERED, lastError, lockedAt: null },
+        });
+        logger.error({ messageId: message.id, action: message.action, attempts, error: lastError }, 'Outbox message dead-lettered');
+
+        try {
+          await handler?.onDeadLetter?.(payload, message);
+        } catch (hookError) {
+          logger.error({ messageId: message.id, error: hookError instanceof Error ? hookError.message : String(hookError) }, 'Outbox dead-letter hook failed');
+        }
+        return OutboxStatus.DEAD_LETTERED;
+      }
+
+      const delay = computeBackoff(attempts, this.config);
+      await prisma.outboxMessage.update({
+        where: { id: message.id },
+        data: { status: OutboxStatus.PENDING, lastError, lockedAt: null, nextAttemptAt: new Date(now.getTime() + delay) },
+      });
+      logger.warn({ messageId: message.id, action: message.action, attempts, retryInMs: delay, error: lastError }, 'Outbox message failed, will retry');
+      return OutboxStatus.PENDING;
+    }
+  }
+
+  private async hasEarlierPending(message: OutboxMessageRow): Promise<boolean> {
+    const earlier = await prisma.outboxMessage.findFirst({
+      where: {
+        aggregateId: message.aggregateId,
+        status: { in: [OutboxStatus.PENDING, OutboxStatus.PROCESSING] },
+        OR: [
+          { createdAt: { lt: message.createdAt } },
+          { createdAt: message.createdAt, id: { lt: message.id } },
+        ],
+      },
+      select: { id: true },
+    });
+    return !!earlier;
+  }
+
+  private async getAggregateMessages(aggregateId: string) {
+    const messages = await prisma.outboxMessage.findMany({
+      where: { aggregateId },
+      select: SUMMARY_SELECT,
+      orderBy: QUEUE_ORDER,
+    });
+    return messages.map(m => ({ ...m, result: parseJson(m.result) }));
+  }
+
+  private async uploadInvoiceFile(payload: { invoiceId: string; staged: StagedContent; mimeType: string; filename: string }) {
+    const invoice = await invoiceService.getInvoiceById(payload.invoiceId);
+    if (!invoice) {
+      throw new Error(`Invoice ${payload.invoiceId} not found`);
+    }
+    if (invoice.fileId) {
+      await documentStoreService.unstage(payload.staged);
+      return { fileId: invoice.fileId, fileHashSha384: invoice.fileHash, alreadyApplied: true };
+    }
+
+    // HFS is public, so the PDF is stored encrypted and only its ciphertext hash goes on chain
+    const pdf = await documentStoreService.readStaged(payload.staged);
+    const sealed = documentEncryptionService.enabled ? documentEncryptionService.encrypt(pdf) : null;
+    const fileResult = await hederaService.uploadPdfToHfs(pdf, payload.mimeType, payload.filename, sealed?.ciphertext);
+
+    await prisma.$transaction(async (tx) => {
+      await invoiceService.updateInvoice(payload.invoiceId, {
+        fileId: fileResult.fileId,
+        fileHash: fileResult.fileHashSha384,
+        fileCiphertextHash: fileResult.storedHashSha384,
+      }, tx);
+      if (sealed) {
+        await documentEncryptionService.storeKeys(fileResult.fileId, payload.invoiceId, sealed.dataKey, tx);
+      }
+      // Listed with the invoice's other documents so the file is renewed on HFS until retention ends
+      await tx.document.upsert({
+        where: { fileId: fileResult.fileId },
+        create: {
+          invoiceId: payload.invoiceId,
+          supplierId: invoice.supplierId,
+          documentType: 'invoice',
+          filename: payload.filename,
+          storageUri: `hfs://${fileResult.fileId}`,
+          fileId: fileResult.fileId,
+          hash: createHash('sha256').update(pdf).digest('hex'),
+          size: pdf.length,
+          mimeType: payload.mimeType,
+          encrypted: !!sealed,
+          ciphertextHash: sealed ? createHash('sha256').update(sealed.ciphertext).digest('hex') : null,
+          transactionId: fileResult.transactionId,
+        },
+        update: {},
+      });
+    });
+    await invoiceService.addInvoiceEvent(
+      payload.invoiceId,
+      InvoiceEventType.FILE_UPLOADED,
+      `PDF uploaded to HFS${sealed ? ' encrypted' : ''}: ${fileResult.fileId}`,
+      { fileId: fileResult.fileId, fileHash: fileResult.storedHashSha384 ?? fileResult.fileHashSha384, encrypted: !!sealed },
+      undefined,
+      undefined,
+      fileResult.transactionId
+    );
+    await documentStoreService.unstage(payload.staged);
+
+    return fileResult;
+  }
+
+  private async mintInvoiceNFT(payload: { invoiceId: string; tokenId: string; metadata: InvoiceNFTData }) {
+    const invoice = await invoiceService.getInvoiceById(payload.invoiceId);
+    if (!invoice) {
+      throw new Error(`Invoice ${payload.invoiceId} not found`);
+    }
+    if (invoice.nftSerialNumber) {
+      return { tokenId: invoice.nftTokenId, serialNumber: invoice.nftSerialNumber, alreadyApplied: true };
+    }
+
+    // The file is read at execution time, after the upload enqueued before the mint
+    const nftResult = await hederaService.mintInvoiceNFT(payload.tokenId, {
+      ...payload.metadata,
+      fileId: invoice.fileId || undefined,
+      fileHash: invoice.fileCiphertextHash || invoice.fileHash || undefined,
+    });
+
+    await invoiceService.updateInvoice(payload.invoiceId, { nftTokenId: payload.tokenId, nftSerialNumber: nftResult.serialNumber });
+    await invoiceService.addInvoiceEvent(
+      payload.invoiceId,
+      InvoiceEventType.NFT_MINTED,
+      `NFT minted: ${payload.tokenId}/${nftResult.serialNumber}`,
+      { tokenId: payload.tokenId, serialNumber: nftResult.serialNumber },
+      undefined,
+      undefined,
+      nftResult.transactionId
+    );
+
+    return { tokenId: payload.tokenId, ...nftResult };
+  }
+
+  /**
+   * Submit an invoice status to its topic. The message is recorded on the
+   * status event it reports, or as a new event when there is none.
+   */
+  private async submitInvoiceStatus(payload: { invoiceId: string; topicId: string; status: HCSMessageData['status']; invoiceEventId?: string }) {
+    const invoice = await invoiceService.getInvoiceById(payload.invoiceId);
+    if (!invoice) {
+      throw new Error(`Invoice ${payload.invoiceId} not found`);
+    }
+
+    const hcsResult = await hederaService.submitInvoiceStatusMessage(payload.topicId, {
+      tokenId: invoice.nftTokenId || '',
+      serialNumber: invoice.nftSerialNumber || '',
+      status: payload.status,
+      timestamp: new Date().toISOString(),
+      fileHash: invoice.fileCiphertextHash || invoice.fileHash || undefined,
+      amount: invoice.amount.toString(),
+      currency: invoice.currency,
+    });
+
+    if (invoice.topicId !== payload.topicId) {
+      await invoiceService.updateInvoice(payload.invoiceId, { topicId: payload.topicId });
+    }
+
+    if (payload.invoiceEventId) {
+      await prisma.invoiceEvent.update({
+        where: { id: payload.invoiceEventId },
+        data: { hcsMessageId: hcsResult.sequenceNumber, hcsTimestamp: new Date(), transactionId: hcsResult.transactionId },
+      });
+      return hcsResult;
+    }
+
+    await invoiceService.addInvoiceEvent(
+      payload.invoiceId,
+      InvoiceEventType.CREATED,
+      `Status submitted to HCS: ${payload.topicId}`,
+      { topicId: payload.topicId, sequenceNumber: hcsResult.sequenceNumber },
+      hcsResult.sequenceNumber,
+      new Date(),
+      hcsResult.transactionId
+    );
+
+    return hcsResult;
+  }
+
+  /**
+   * Submit a message to a topic and link the invoice event it reports, or the
+   * document it anchors, if any, to its sequence number
+   */
+  private async submitTopicMessage(
+    payload: { topicId: string; message: Record<string, any>; invoiceEventId?: string; documentId?: string },
+    message: OutboxMessageRow
+  ) {
+    const hcsResult = await hederaService.submitTopicMessage(payload.topicId, {
+      ...payload.message,
+      idempotencyKey: message.idempotencyKey,
+    });
+
+    if (payload.invoiceEventId) {
+      await prisma.invoiceEvent.update({
+        where: { id: payload.invoiceEventId },
+        data: { hcsMessageId: hcsResult.sequenceNumber, hcsTimestamp: new Date() },
+      });
+    }
+    if (payload.documentId) {
+      await prisma.document.update({
+        where: { id: payload.documentId },
+        data: { anchorTopicId: payload.topicId, anchorSequenceNumber: hcsResult.sequenceNumber, anchoredAt: this.clock.now() },
+      });
+    }
+
+    return hcsResult;
+  }
+}
+
+export const outboxService = new OutboxService();
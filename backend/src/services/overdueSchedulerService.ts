@@ -0,0 +1,381 @@
+import { PrismaClient } from '@prisma/client';
+import { HederaService } from './hedera';
+import { invoiceService, InvoiceStatus, InvoiceEventType } from './invoices';
+import { logger } from '../utils/logger';
+import { Clock, systemClock } from '../utils/clock';
+
+// Create hedera service instance
+const hederaService = new HederaService({
+  operatorId: process.env['OPERATOR_ID']!,
+  operatorKey: process.env['OPERATOR_KEY']!,
+  network: process.env['HEDERA_NETWORK'] || 'testnet',
+  mirrorNodeUrl: process.env['MIRROR_NODE_URL'] || 'https://testnet.mirrornode.hedera.com',
+});
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Define enums locally since they're not exported from Prisma client
+export enum OverdueStage {
+  OVERDUE = 'OVERDUE',
+  REMINDED = 'REMINDED',
+  LATE_FEE = 'LATE_FEE',
+  DEFAULTED = 'DEFAULTED'
+}
+
+const STAGE_ORDER: OverdueStage[] = [
+  OverdueStage.OVERDUE,
+  OverdueStage.REMINDED,
+  OverdueStage.LATE_FEE,
+  OverdueStage.DEFAULTED,
+];
+
+// Invoices in these states still expect a payment and can become overdue
+const OVERDUE_ELIGIBLE_STATUSES = [InvoiceStatus.ISSUED, InvoiceStatus.FUNDED];
+
+export interface OverdueSchedulerConfig {
+  interval: number; // milliseconds between scans
+  enabled: boolean;
+  batchSize: number;
+  reminderDays: number; // days past due before the reminder
+  lateFeeDays: number; // days past due before late fees start accruing
+  lateFeeDailyRate: number; // fraction of the invoice amount per day (0.0005 = 0.05%)
+  defaultDays: number; // days past due before the invoice is declared in default
+}
+
+export interface OverdueScanSummary {
+  scanned: number;
+  overdue: number;
+  reminded: number;
+  lateFees: number;
+  defaulted: number;
+  failed: number;
+}
+
+export function loadOverdueConfig(): OverdueSchedulerConfig {
+  return {
+    interval: parseInt(process.env['OVERDUE_SCAN_INTERVAL'] || '3600000'), // 1 hour default
+    enabled: process.env['OVERDUE_SCHEDULER_ENABLED'] === 'true',
+    batchSize: parseInt(process.env['OVERDUE_SCAN_BATCH_SIZE'] || '100'),
+    reminderDays: parseInt(process.env['OVERDUE_REMINDER_DAYS'] || '3'),
+    lateFeeDays: parseInt(process.env['OVERDUE_LATE_FEE_DAYS'] || '7'),
+    lateFeeDailyRate: parseFloat(process.env['OVERDUE_LATE_FEE_DAILY_RATE'] || '0.0005'),
+    defaultDays: parseInt(process.env['OVERDUE_DEFAULT_DAYS'] || '30'),
+  };
+}
+
+/**
+ * Whole days elapsed since the due date (0 during the first day overdue)
+ */
+export function getDaysOverdue(dueDate: Date, now: Date): number {
+  return Math.max(0, Math.floor((now.getTime() - dueDate.getTime()) / DAY_MS));
+}
+
+/**
+ * Escalation stage an invoice should be in after the given number of days overdue
+ */
+export function getTargetStage(daysOverdue: number, config: OverdueSchedulerConfig): OverdueStage {
+  if (daysOverdue >= config.defaultDays) return OverdueStage.DEFAULTED;
+  if (daysOverdue >= config.lateFeeDays) return OverdueStage.LATE_FEE;
+  if (daysOverdue >= config.reminderDays) return OverdueStage.REMINDED;
+  return OverdueStage.OVERDUE;
+}
+
+/**
+ * When a case in the given stage next has something to do: its next
+ * escalation, or while late fees accrue, the next day's fee
+ * @returns null once the invoice is in default
+ */
+export function getNextActionAt(dueDate: Date, stage: OverdueStage, daysOverdue: number, config: OverdueSchedulerConfig): Date | null {
+  let days: number;
+  switch (stage) {
+    case OverdueStage.OVERDUE:
+      days = config.reminderDays;
+      break;
+    case OverdueStage.REMINDED:
+      days = config.lateFeeDays;
+      break;
+    case OverdueStage.LATE_FEE:
+      days = Math.min(daysOverdue + 1, config.defaultDays);
+      break;
+    default:
+      return null;
+  }
+  return new Date(dueDate.getTime() + days * DAY_MS);
+}
+
+/**
+ * Late fee accrued after the given number of days overdue.
+ * Fees accrue daily from the late fee grace period until default.
+ */
+export function computeLateFee(amount: number, daysOverdue: number, config: OverdueSchedulerConfig): number {
+  const accruingDays = Math.max(0, Math.min(daysOverdue, config.defaultDays) - config.lateFeeDays);
+  return Math.round(amount * config.lateFeeDailyRate * accruingDays * 100) / 100;
+}
+
+export class OverdueSchedulerService {
+  private scanInterval: NodeJS.Timeout | null = null;
+  private isScanning: boolean = false;
+  private config: OverdueSchedulerConfig;
+  private clock: Clock;
+
+  constructor(config: Partial<OverdueSchedulerConfig> = {}, clock: Clock = systemClock) {
+    this.config = { ...loadOverdueConfig(), ...config };
+    this.clock = clock;
+
+    if (!(this.config.reminderDays <= this.config.lateFeeDays && this.config.lateFeeDays <= this.config.defaultDays)) {
+      throw new Error('Overdue grace periods must satisfy reminderDays <= lateFeeDays <= defaultDays');
+    }
+  }
+
+  /**
+   * Start scanning for overdue invoices
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      logger.info('Overdue scheduler is disabled');
+      return;
+    }
+
+    if (this.scanInterval) {
+      logger.warn('Overdue scheduler is already running');
+      return;
+    }
+
+    logger.info({
+      interval: this.config.interval,
+      reminderDays: this.config.reminderDays,
+      lateFeeDays: this.config.lateFeeDays,
+      defaultDays: this.config.defaultDays,
+    }, 'Starting overdue scheduler');
+
+    this.scanInterval = setInterval(async () => {
+      if (!this.isScanning) {
+        await this.runOnce();
+      }
+    }, this.config.interval);
+  }
+
+  /**
+   * Stop scanning for overdue invoices
+   */
+  stop(): void {
+    if (this.scanInterval) {
+      clearInterval(this.scanInterval);
+      this.scanInterval = null;
+      logger.info('Overdue scheduler stopped');
+    }
+  }
+
+  /**
+   * Scan invoices past their due date and escalate them.
+   * Every transition is guarded by a conditional update on the stored state,
+   * so repeated or concurrent scans (e.g. after a restart) never apply a step twice.
+   * Open cases are skipped until their next action is due, so cases waiting
+   * out a grace period do not crowd newly overdue invoices out of the batch.
+   * @returns Counts of the transitions applied in this scan
+   */
+  async runOnce(): Promise<OverdueScanSummary> {
+    this.isScanning = true;
+    const summary: OverdueScanSummary = { scanned: 0, overdue: 0, reminded: 0, lateFees: 0, defaulted: 0, failed: 0 };
+
+    try {
+      const now = this.clock.now();
+      const invoices = await prisma.invoice.findMany({
+        where: {
+          dueDate: { lt: now },
+          status: { in: [...OVERDUE_ELIGIBLE_STATUSES, InvoiceStatus.OVERDUE] },
+          OR: [
+            { overdueCase: { is: null } },
+            {
+              overdueCase: {
+                is: {
+                  stage: { not: OverdueStage.DEFAULTED },
+                  OR: [{ nextActionAt: null }, { nextActionAt: { lte: now } }],
+                },
+              },
+            },
+          ],
+        },
+        include: { overdueCase: true },
+        orderBy: { dueDate: 'asc' },
+        take: this.config.batchSize,
+      });
+
+      for (const invoice of invoices) {
+        summary.scanned++;
+        try {
+          await this.processInvoice(invoice, now, summary);
+        } catch (error) {
+          summary.failed++;
+          logger.error({ invoiceId: invoice.id, error: error instanceof Error ? error.message : String(error) }, 'Failed to process overdue invoice');
+        }
+      }
+
+      if (summary.scanned > 0) {
+        logger.info(summary, 'Overdue scan completed');
+      }
+    } catch (error) {
+      logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Overdue scan failed');
+    } finally {
+      this.isScanning = false;
+    }
+
+    return summary;
+  }
+
+  private async processInvoice(invoice: any, now: Date, summary: OverdueScanSummary): Promise<void> {
+    const daysOverdue = getDaysOverdue(invoice.dueDate, now);
+    const targetStage = getTargetStage(daysOverdue, this.config);
+
+    let overdueCase = invoice.overdueCase ?? await this.openCase(invoice.id, now);
+
+    // Claim the status change; only the scan that flips the status announces it
+    const claimed = await prisma.invoice.updateMany({
+      where: { id: invoice.id, status: { in: OVERDUE_ELIGIBLE_STATUSES } },
+      data: { status: InvoiceStatus.OVERDUE },
+    });
+    if (claimed.count === 1) {
+      const hcsMessageId = await this.publishStatus(invoice, 'overdue');
+      await invoiceService.addInvoiceEvent(
+        invoice.id,
+        InvoiceEventType.OVERDUE,
+        `Invoice overdue since ${invoice.dueDate.toISOString()}`,
+        { status: InvoiceStatus.OVERDUE, previousStatus: invoice.status, dueDate: invoice.dueDate.toISOString(), daysOverdue },
+        hcsMessageId,
+        now
+      );
+      summary.overdue++;
+    }
+
+    while (STAGE_ORDER.indexOf(overdueCase.stage) < STAGE_ORDER.indexOf(targetStage)) {
+      const nextStage = STAGE_ORDER[STAGE_ORDER.indexOf(overdueCase.stage) + 1];
+      const advanced = await this.advanceStage(invoice, overdueCase, nextStage, now, daysOverdue);
+      if (!advanced) {
+        // Another scan moved this case on; it owns the remaining steps
+        return;
+      }
+      overdueCase = advanced;
+
+      if (nextStage === OverdueStage.REMINDED) summary.reminded++;
+      if (nextStage === OverdueStage.LATE_FEE) summary.lateFees++;
+      if (nextStage === OverdueStage.DEFAULTED) summary.defaulted++;
+    }
+
+    const data: Record<string, any> = {
+      nextActionAt: getNextActionAt(invoice.dueDate, overdueCase.stage, daysOverdue, this.config),
+    };
+    if (overdueCase.stage === OverdueStage.LATE_FEE) {
+      // Derived from the clock rather than incremented, so rescans cannot double-charge
+      const lateFeeAccrued = computeLateFee(invoice.amount, daysOverdue, this.config);
+      if (lateFeeAccrued > overdueCase.lateFeeAccrued) {
+        data['lateFeeAccrued'] = lateFeeAccrued;
+      }
+    }
+    await prisma.overdueCase.updateMany({
+      where: { id: overdueCase.id, stage: overdueCase.stage },
+      data,
+    });
+  }
+
+  private async openCase(invoiceId: string, now: Date) {
+    try {
+      return await prisma.overdueCase.create({
+        data: { invoiceId, stage: OverdueStage.OVERDUE, overdueAt: now },
+      });
+    } catch (error: any) {
+      // Unique constraint: a concurrent scan opened the case first
+      if (error?.code === 'P2002') {
+        return prisma.overdueCase.findUniqueOrThrow({ where: { invoiceId } });
+      }
+      throw error;
+    }
+  }
+
+  private async advanceStage(invoice: any, overdueCase: any, nextStage: OverdueStage, now: Date, daysOverdue: number) {
+    const data: Record<string, any> = { stage: nextStage };
+    if (nextStage === OverdueStage.REMINDED) {
+      data['remindedAt'] = now;
+    } else if (nextStage === OverdueStage.LATE_FEE) {
+      data['lateFeeStartedAt'] = now;
+      data['lateFeeAccrued'] = computeLateFee(invoice.amount, daysOverdue, this.config);
+    } else if (nextStage === OverdueStage.DEFAULTED) {
+      data['defaultedAt'] = now;
+      data['lateFeeAccrued'] = computeLateFee(invoice.amount, daysOverdue, this.config);
+    }
+
+    const result = await prisma.overdueCase.updateMany({
+      where: { id: overdueCase.id, stage: overdueCase.stage },
+      data,
+    });
+    if (result.count === 0) {
+      return null;
+    }
+
+    const advanced = { ...overdueCase, ...data };
+
+    switch (nextStage) {
+      case OverdueStage.REMINDED:
+        await invoiceService.addInvoiceEvent(
+          invoice.id,
+          InvoiceEventType.OVERDUE_REMINDER,
+          `Payment reminder: invoice is ${daysOverdue} days overdue`,
+          { daysOverdue, reminderDays: this.config.reminderDays },
+          undefined,
+          now
+        );
+        break;
+      case OverdueStage.LATE_FEE:
+        await invoiceService.addInvoiceEvent(
+          invoice.id,
+          InvoiceEventType.LATE_FEE_ACCRUED,
+          `Late fees accruing at ${this.config.lateFeeDailyRate * 100}% per day`,
+          { daysOverdue, lateFeeDailyRate: this.config.lateFeeDailyRate, lateFeeAccrued: advanced.lateFeeAccrued },
+          undefined,
+          now
+        );
+        break;
+      case OverdueStage.DEFAULTED: {
+        const hcsMessageId = await this.publishStatus(invoice, 'defaulted');
+        await invoiceService.addInvoiceEvent(
+          invoice.id,
+          InvoiceEventType.DEFAULTED,
+          `Invoice in default after ${daysOverdue} days overdue`,
+          { daysOverdue, lateFeeAccrued: advanced.lateFeeAccrued },
+          hcsMessageId,
+          now
+        );
+        break;
+      }
+    }
+
+    logger.info({ invoiceId: invoice.id, stage: nextStage, daysOverdue }, 'Overdue invoice escalated');
+
+    return advanced;
+  }
+
+  private async publishStatus(invoice: any, status: 'overdue' | 'defaulted'): Promise<string | undefined> {
+    if (!invoice.topicId || !invoice.nftTokenId || !invoice.nftSerialNumber) {
+      return undefined;
+    }
+
+    try {
+      const result = await hederaService.submitInvoiceStatusMessage(invoice.topicId, {
+        tokenId: invoice.nftTokenId,
+        serialNumber: invoice.nftSerialNumber,
+        status,
+        timestamp: this.clock.now().toISOString(),
+        fileHash: invoice.fileHash || undefined,
+        amount: invoice.amount.toString(),
+        currency: invoice.currency,
+      });
+      return result.sequenceNumber;
+    } catch (error) {
+      logger.warn({ invoiceId: invoice.id, status, error: error instanceof Error ? error.message : String(error) }, 'Failed to publish overdue status to HCS');
+      return undefined;
+    }
+  }
+}
+
+export const overdueSchedulerService = new OverdueSchedulerService();
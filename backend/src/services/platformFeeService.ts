@@ -0,0 +1,493 @@
+import { PrismaClient, ContractEvent } from '@prisma/client';
+import { contractService } from './contract';
+import { FEE_EVENTS } from './escrowIndexerService';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+// EscrowPool starts at 2.5%; every later change emits FeeRateUpdated
+export const INITIAL_FEE_RATE_BPS = 250;
+
+// Define enums locally since they're not exported from Prisma client
+export enum PlatformFeeEventType {
+  FEE_CHARGED = 'FEE_CHARGED',
+  FEE_RATE_UPDATED = 'FEE_RATE_UPDATED',
+  FEE_RECIPIENT_UPDATED = 'FEE_RECIPIENT_UPDATED'
+}
+
+export type FeeReportGrouping = 'period' | 'supplier' | 'epoch';
+export type FeePeriod = 'day' | 'week' | 'month';
+
+export interface PlatformFeeIndexerConfig {
+  interval: number; // milliseconds between syncs
+  enabled: boolean;
+  batchSize: number; // contract events read per query
+}
+
+export interface FeeSyncSummary {
+  fetched: number;
+  indexed: number;
+  skipped: number;
+}
+
+export interface FeeReportFilter {
+  groupBy: FeeReportGrouping;
+  period?: FeePeriod;
+  from?: Date;
+  to?: Date;
+}
+
+export interface FeeReportRow {
+  key: string;
+  label: string;
+  count: number;
+  grossAmount: number;
+  fees: number;
+  feeRateBps?: number;
+  feeRecipient?: string | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+}
+
+export interface FeeReport {
+  groupBy: FeeReportGrouping;
+  period?: FeePeriod;
+  from?: Date;
+  to?: Date;
+  rows: FeeReportRow[];
+  totals: { count: number; grossAmount: number; fees: number };
+}
+
+/** A fee charge or configuration change, ordered by its position on chain */
+type FeeRow = {
+  eventType: string;
+  supplierId?: string | null;
+  supplierAddress?: string | null;
+  grossAmount?: number | null;
+  fee?: number | null;
+  feeRateBps?: number | null;
+  previousFeeRateBps?: number | null;
+  feeRecipient?: string | null;
+  previousFeeRecipient?: string | null;
+  blockNumber: number;
+  logIndex: number;
+  occurredAt: Date;
+};
+
+export function loadPlatformFeeIndexerConfig(): PlatformFeeIndexerConfig {
+  return {
+    interval: parseInt(process.env['PLATFORM_FEE_INDEXER_INTERVAL'] || '300000'), // 5 minutes default
+    enabled: process.env['PLATFORM_FEE_INDEXER_ENABLED'] === 'true',
+    batchSize: parseInt(process.env['PLATFORM_FEE_INDEXER_BATCH_SIZE'] || '500'),
+  };
+}
+
+const roundHbar = (value: number) => Math.round(value * 1e8) / 1e8;
+
+/**
+ * Consensus timestamp (seconds.nanoseconds) as a Date
+ */
+const toDate = (consensusTimestamp: string) => new Date(Math.floor(parseFloat(consensusTimestamp) * 1000));
+
+const byPosition = (a: FeeRow, b: FeeRow) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+
+/**
+ * Period bucket of a date in UTC: YYYY-MM-DD for days, the Monday of the
+ * week for weeks, YYYY-MM for months
+ */
+export function periodKey(date: Date, period: FeePeriod): string {
+  if (period === 'month') {
+    return date.toISOString().slice(0, 7);
+  }
+  if (period === 'week') {
+    const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+    return monday.toISOString().slice(0, 10);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function addToRow(rows: Map<string, FeeReportRow>, key: string, label: string, fee: FeeRow): void {
+  const row = rows.get(key) ?? { key, label, count: 0, grossAmount: 0, fees: 0 };
+  row.count++;
+  row.grossAmount = roundHbar(row.grossAmount + (fee.grossAmount || 0));
+  row.fees = roundHbar(row.fees + (fee.fee || 0));
+  rows.set(key, row);
+}
+
+/**
+ * Total fee charges per period, oldest period first
+ */
+export function groupFeesByPeriod(fees: FeeRow[], period: FeePeriod): FeeReportRow[] {
+  const rows = new Map<string, FeeReportRow>();
+  for (const fee of fees) {
+    const key = periodKey(fee.occurredAt, period);
+    addToRow(rows, key, key, fee);
+  }
+  return [...rows.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Total fee charges per supplier, largest first. Charges whose supplier is
+ * not on the platform are grouped by their on-chain address.
+ */
+export function groupFeesBySupplier(fees: FeeRow[], supplierNames: Record<string, string> = {}): FeeReportRow[] {
+  const rows = new Map<string, FeeReportRow>();
+  for (const fee of fees) {
+    const key = fee.supplierId || fee.supplierAddress || 'unknown';
+    addToRow(rows, key, (fee.supplierId && supplierNames[fee.supplierId]) || key, fee);
+  }
+  return [...rows.values()].sort((a, b) => b.fees - a.fees);
+}
+
+/**
+ * Split fee charges into epochs of constant fee rate and fee recipient.
+ * The values in force before the first change are read off that change;
+ * without any change the contract's initial rate and the current recipient apply.
+ * @param fees Fee charges
+ * @param changes FEE_RATE_UPDATED and FEE_RECIPIENT_UPDATED rows
+ * @param currentRecipient Recipient configured on the contract now, if known
+ */
+export function buildFeeEpochs(fees: FeeRow[], changes: FeeRow[], currentRecipient: string | null = null): FeeReportRow[] {
+  const ordered = [...changes].sort(byPosition);
+  const firstRate = ordered.find(c => c.eventType === PlatformFeeEventType.FEE_RATE_UPDATED);
+  const firstRecipient = ordered.find(c => c.eventType === PlatformFeeEventType.FEE_RECIPIENT_UPDATED);
+
+  let feeRateBps = firstRate?.previousFeeRateBps ?? INITIAL_FEE_RATE_BPS;
+  let feeRecipient = firstRecipient ? firstRecipient.previousFeeRecipient ?? null : currentRecipient;
+
+  const epochs: Array<FeeReportRow & { startBlock?: FeeRow }> = [];
+  const openEpoch = (start: FeeRow | undefined) => {
+    epochs.push({
+      key: String(epochs.length),
+      label: `${feeRateBps} bps to ${feeRecipient ?? 'unknown'}`,
+      count: 0,
+      grossAmount: 0,
+      fees: 0,
+      feeRateBps,
+      feeRecipient,
+      startsAt: start?.occurredAt ?? null,
+      endsAt: null,
+      startBlock: start,
+    });
+  };
+
+  openEpoch(undefined);
+  for (const change of ordered) {
+    if (change.eventType === PlatformFeeEventType.FEE_RATE_UPDATED) {
+      feeRateBps = change.feeRateBps ?? feeRateBps;
+    } else {
+      feeRecipient = change.feeRecipient ?? feeRecipient;
+    }
+    epochs[epochs.length - 1].endsAt = change.occurredAt;
+    openEpoch(change);
+  }
+
+  // Assign each charge to the last epoch that starts before it
+  for (const fee of fees) {
+    let index = epochs.length - 1;
+    while (index > 0 && byPosition(epochs[index].startBlock!, fee) > 0) {
+      index--;
+    }
+    const epoch = epochs[index];
+    epoch.count++;
+    epoch.grossAmount = roundHbar(epoch.grossAmount + (fee.grossAmount || 0));
+    epoch.fees = roundHbar(epoch.fees + (fee.fee || 0));
+  }
+
+  return epochs.map(({ startBlock, ...epoch }) => epoch);
+}
+
+/**
+ * Render rows as RFC 4180 CSV
+ */
+export function toCsv(rows: Array<Record<string, any>>, columns: string[]): string {
+  const escape = (value: any) => {
+    if (value === null || value === undefined) return '';
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [columns.join(','), ...rows.map(row => columns.map(column => escape(row[column])).join(','))].join('\r\n') + '\r\n';
+}
+
+/**
+ * Builds PlatformFee rows from the fee events the escrow indexer stores, so
+ * the contract's logs are read once and reorg handling lives in one place.
+ * A fee row belongs to the contract event it was built from and is deleted
+ * with it when the escrow indexer rewinds; the event is read again once it
+ * is re-indexed. Needs the escrow indexer to be running.
+ */
+export class PlatformFeeService {
+  private syncInterval: NodeJS.Timeout | null = null;
+  private isSyncing: boolean = false;
+  private lastReadAt: Date | null = null;
+  private config: PlatformFeeIndexerConfig;
+
+  constructor(config: Partial<PlatformFeeIndexerConfig> = {}) {
+    this.config = { ...loadPlatformFeeIndexerConfig(), ...config };
+  }
+
+  /**
+   * Start indexing fee events
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      logger.info('Platform fee indexer is disabled');
+      return;
+    }
+
+    if (this.syncInterval) {
+      logger.warn('Platform fee indexer is already running');
+      return;
+    }
+
+    logger.info({ interval: this.config.interval }, 'Starting platform fee indexer');
+
+    this.syncInterval = setInterval(async () => {
+      if (!this.isSyncing) {
+        await this.runOnce();
+      }
+    }, this.config.interval);
+  }
+
+  /**
+   * Stop indexing fee events
+   */
+  stop(): void {
+    if (this.syncInterval) {
+      clearInterval(this.syncInterval);
+      this.syncInterval = null;
+      logger.info('Platform fee indexer stopped');
+    }
+  }
+
+  /**
+   * Build fee rows for the fee events indexed since the last sync. Events
+   * are read in the order they were stored, so events re-indexed after a
+   * rewind come after the point reached. After a restart every event without
+   * a fee row is read again; rows are unique per (transactionHash, logIndex)
+   * so nothing is stored twice.
+   */
+  async runOnce(): Promise<FeeSyncSummary> {
+    this.isSyncing = true;
+    const summary: FeeSyncSummary = { fetched: 0, indexed: 0, skipped: 0 };
+
+    try {
+      // Events that carry no fee never get a row, so they are excluded once read
+      const skippedIds: string[] = [];
+
+      for (;;) {
+        const events = await prisma.contractEvent.findMany({
+          where: {
+            eventName: { in: FEE_EVENTS },
+            platformFee: { is: null },
+            id: { notIn: skippedIds },
+            createdAt: this.lastReadAt ? { gte: this.lastReadAt } : undefined,
+          },
+          orderBy: [{ createdAt: 'asc' }, { blockNumber: 'asc' }, { logIndex: 'asc' }],
+          take: this.config.batchSize,
+        });
+
+        for (const event of events) {
+          summary.fetched++;
+          if (await this.ingest(event)) {
+            summary.indexed++;
+          } else {
+            summary.skipped++;
+            skippedIds.push(event.id);
+          }
+          this.lastReadAt = event.createdAt;
+        }
+
+        if (events.length < this.config.batchSize) {
+          break;
+        }
+      }
+
+      if (summary.indexed > 0) {
+        logger.info(summary, 'Platform fee sync completed');
+      }
+    } catch (error) {
+      logger.error({ error: error instanceof Error ? error.message : String(error), ...summary }, 'Platform fee sync failed');
+    } finally {
+      this.isSyncing = false;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Store the fee row of one indexed EscrowPool event
+   * @returns false when the event carries no fee or was already stored
+   */
+  async ingest(event: ContractEvent): Promise<boolean> {
+    const data = await this.toPlatformFee(event);
+    if (!data) {
+      return false;
+    }
+
+    try {
+      await prisma.platformFee.create({ data });
+      return true;
+    } catch (error: any) {
+      // Unique constraint on (transactionHash, logIndex): already indexed
+      if (error?.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fee report grouped by period, supplier or fee-rate epoch
+   */
+  async getReport(filter: FeeReportFilter): Promise<FeeReport> {
+    const fees = await prisma.platformFee.findMany({
+      where: {
+        eventType: PlatformFeeEventType.FEE_CHARGED,
+        occurredAt: { gte: filter.from, lte: filter.to },
+      },
+      orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }],
+    });
+
+    let rows: FeeReportRow[];
+    if (filter.groupBy === 'supplier') {
+      const supplierIds = [...new Set(fees.map(f => f.supplierId).filter((id): id is string => !!id))];
+      const suppliers = await prisma.user.findMany({ where: { id: { in: supplierIds } }, select: { id: true, name: true } });
+      rows = groupFeesBySupplier(fees, Object.fromEntries(suppliers.filter(s => s.name).map(s => [s.id, s.name!])));
+    } else if (filter.groupBy === 'epoch') {
+      // Epochs span the whole history, so changes are loaded without the date filter
+      const changes = await prisma.platformFee.findMany({
+        where: { eventType: { in: [PlatformFeeEventType.FEE_RATE_UPDATED, PlatformFeeEventType.FEE_RECIPIENT_UPDATED] } },
+      });
+      rows = buildFeeEpochs(fees, changes, await this.getCurrentRecipient(changes.length));
+    } else {
+      rows = groupFeesByPeriod(fees, filter.period || 'month');
+    }
+
+    return {
+      groupBy: filter.groupBy,
+      period: filter.groupBy === 'period' ? filter.period || 'month' : undefined,
+      from: filter.from,
+      to: filter.to,
+      rows,
+      totals: {
+        count: fees.length,
+        grossAmount: roundHbar(fees.reduce((sum, f) => sum + (f.grossAmount || 0), 0)),
+        fees: roundHbar(fees.reduce((sum, f) => sum + (f.fee || 0), 0)),
+      },
+    };
+  }
+
+  /**
+   * Indexed fee events, oldest first
+   */
+  async getEntries(filter: { from?: Date; to?: Date; limit: number; offset: number }) {
+    const where = { occurredAt: { gte: filter.from, lte: filter.to } };
+
+    const [entries, total] = await Promise.all([
+      prisma.platformFee.findMany({
+        where,
+        orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }],
+        take: filter.limit,
+        skip: filter.offset,
+      }),
+      prisma.platformFee.count({ where }),
+    ]);
+
+    return { entries, total };
+  }
+
+  /**
+   * The recipient in force before any indexed change is only needed when
+   * there is no change to read it from
+   */
+  private async getCurrentRecipient(changes: number): Promise<string | null> {
+    if (changes > 0) {
+      return null;
+    }
+
+    try {
+      const info = await contractService.getContractInfo();
+      return info.feeRecipient;
+    } catch (error) {
+      logger.warn({ error: error instanceof Error ? error.message : String(error) }, 'Failed to read fee recipient from contract');
+      return null;
+    }
+  }
+
+  private async toPlatformFee(event: ContractEvent) {
+    const args = JSON.parse(event.args);
+    const position = {
+      contractEventId: event.id,
+      sourceEvent: event.eventName,
+      blockNumber: event.blockNumber,
+      logIndex: event.logIndex,
+      transactionHash: event.transactionHash,
+      occurredAt: toDate(event.consensusTimestamp),
+    };
+
+    switch (event.eventName) {
+      case 'FeeRateUpdated':
+        return {
+          ...position,
+          eventType: PlatformFeeEventType.FEE_RATE_UPDATED,
+          feeRateBps: Number(args.newRate),
+          previousFeeRateBps: Number(args.oldRate),
+        };
+
+      case 'FeeRecipientUpdated':
+        return {
+          ...position,
+          eventType: PlatformFeeEventType.FEE_RECIPIENT_UPDATED,
+          feeRecipient: args.newRecipient,
+          previousFeeRecipient: args.oldRecipient,
+        };
+
+      case 'EscrowReleased':
+      case 'SyndicateReleased':
+      case 'DisputeResolved': {
+        // Amounts are stored in HBAR
+        const fee = parseFloat(args.fee);
+        if (!(fee > 0) || !event.escrowId) {
+          return null;
+        }
+
+        const net = parseFloat(event.eventName === 'DisputeResolved' ? args.supplierAmount : args.amount);
+        const grossAmount = roundHbar(net + fee);
+        const invoice = await this.findInvoice(event.eventName, event.escrowId);
+
+        return {
+          ...position,
+          eventType: PlatformFeeEventType.FEE_CHARGED,
+          escrowId: event.escrowId,
+          invoiceId: invoice?.id,
+          supplierId: invoice?.supplierId,
+          supplierAddress: event.eventName === 'DisputeResolved' ? undefined : args.supplier,
+          grossAmount,
+          fee,
+          feeRateBps: Math.round((fee * 10000) / grossAmount),
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Invoices are indexed on chain only by hash, so the escrow ID is matched
+   * against the fundings and syndicates the platform opened
+   */
+  private async findInvoice(eventName: string, escrowId: string): Promise<{ id: string; supplierId: string } | null> {
+    const select = { invoice: { select: { id: true, supplierId: true } } };
+    const owner = eventName === 'SyndicateReleased'
+      ? await prisma.fundingSyndicate.findFirst({ where: { escrowId }, select })
+      : await prisma.funding.findFirst({ where: { OR: [{ escrowId }, { contractId: escrowId }] }, select });
+
+    return owner?.invoice ?? null;
+  }
+}
+
+export const platformFeeService = new PlatformFeeService();
@@ -0,0 +1,232 @@
+import { PrismaClient } from '@prisma/client';
+import { ledgerService, InvestorBalances } from './ledgerService';
+import { actualDays } from './pricingService';
+import { fxService, SETTLEMENT_CURRENCY } from './fxService';
+import { NotFoundError } from '../middleware/errorHandler';
+
+const prisma = new PrismaClient();
+
+// Fundings still exposed to the invoice until it is paid
+const OPEN_STATUSES = ['ACTIVE', 'DISPUTED', 'RELEASED'];
+
+export const MATURITY_BUCKETS = [
+  { bucket: 'OVERDUE', maxDays: -1 },
+  { bucket: '0-30', maxDays: 30 },
+  { bucket: '31-60', maxDays: 60 },
+  { bucket: '61-90', maxDays: 90 },
+  { bucket: '90+', maxDays: Infinity },
+] as const;
+
+export interface OpenPosition {
+  fundingId: string;
+  invoiceId: string;
+  invoiceNumber: string;
+  supplierId: string;
+  supplierName: string | null;
+  syndicateId: string | null;
+  ownershipShare: number | null;
+  status: string;
+  currency: string; // currency the funding was made in
+  amount: number; // principal in that currency
+  principal: number; // amounts from here on are in the reporting currency
+  expectedReturn: number;
+  accruedReturn: number;
+  unrealizedPnl: number;
+  fundedAt: Date;
+  maturityDate: Date;
+  daysToMaturity: number; // negative once past due
+  defaulted: boolean;
+}
+
+export interface SupplierConcentration {
+  supplierId: string;
+  supplierName: string | null;
+  positions: number;
+  principal: number;
+  share: number; // fraction of open principal
+}
+
+export interface MaturityRung {
+  bucket: string;
+  positions: number;
+  principal: number;
+  expectedReturn: number;
+}
+
+export interface Portfolio {
+  investorId: string;
+  asOf: Date;
+  reportingCurrency: string; // currency every total below is reported in
+  balances: InvestorBalances;
+  openPrincipal: number;
+  positions: OpenPosition[];
+  pnl: {
+    realized: number;
+    unrealized: number;
+    fees: number;
+    net: number;
+  };
+  concentration: SupplierConcentration[];
+  maturityLadder: MaturityRung[];
+}
+
+const roundAmount = (value: number) => Math.round(value * 1e8) / 1e8;
+
+/**
+ * Straight-line share of the expected return earned so far, capped at maturity
+ */
+export function accruedReturn(expectedReturn: number, fundedAt: Date, maturityDate: Date, now: Date): number {
+  const termDays = actualDays(fundedAt, maturityDate);
+  if (termDays <= 0) {
+    return expectedReturn;
+  }
+  const elapsed = Math.min(Math.max(actualDays(fundedAt, now), 0), termDays);
+  return roundAmount(expectedReturn * elapsed / termDays);
+}
+
+/**
+ * Group open positions by supplier, largest exposure first
+ */
+export function buildConcentration(positions: OpenPosition[]): SupplierConcentration[] {
+  const total = positions.reduce((sum, p) => sum + p.principal, 0);
+  const bySupplier = new Map<string, SupplierConcentration>();
+
+  for (const position of positions) {
+    const entry = bySupplier.get(position.supplierId) || {
+      supplierId: position.supplierId,
+      supplierName: position.supplierName,
+      positions: 0,
+      principal: 0,
+      share: 0,
+    };
+    entry.positions++;
+    entry.principal = roundAmount(entry.principal + position.principal);
+    bySupplier.set(position.supplierId, entry);
+  }
+
+  return [...bySupplier.values()]
+    .map(entry => ({ ...entry, share: total > 0 ? Math.round(entry.principal / total * 1e6) / 1e6 : 0 }))
+    .sort((a, b) => b.principal - a.principal);
+}
+
+/**
+ * Bucket open positions by days to maturity. Every bucket is returned, empty or not.
+ */
+export function buildMaturityLadder(positions: OpenPosition[]): MaturityRung[] {
+  const ladder: MaturityRung[] = MATURITY_BUCKETS.map(({ bucket }) => ({ bucket, positions: 0, principal: 0, expectedReturn: 0 }));
+
+  for (const position of positions) {
+    const index = MATURITY_BUCKETS.findIndex(b => position.daysToMaturity <= b.maxDays);
+    const rung = ladder[index];
+    rung.positions++;
+    rung.principal = roundAmount(rung.principal + position.principal);
+    rung.expectedReturn = roundAmount(rung.expectedReturn + position.expectedReturn);
+  }
+
+  return ladder;
+}
+
+export class PortfolioService {
+  /**
+   * Map a wallet account to the User ID the ledger and fundings are keyed by
+   * @param accountId Hedera account ID of the authenticated wallet
+   */
+  async resolveInvestorId(accountId: string): Promise<string> {
+    const user = await prisma.user.findUnique({
+      where: { accountId },
+      select: { id: true }
+    });
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+    return user.id;
+  }
+
+  /**
+   * Open positions, P&L, supplier concentration and maturity ladder of an investor
+   * @param investorId User ID of the investor
+   * @param now Valuation date, also the date positions and balances are converted at
+   * @param reportingCurrency Currency to report in; defaults to REPORTING_CURRENCY
+   */
+  async getPortfolio(investorId: string, now: Date = new Date(), reportingCurrency: string = fxService.reportingCurrency): Promise<Portfolio> {
+    const [fundings, balances] = await Promise.all([
+      prisma.funding.findMany({
+        where: {
+          investorId,
+          status: { in: OPEN_STATUSES },
+          settledAt: null,
+        },
+        include: {
+          invoice: {
+            include: {
+              supplier: { select: { id: true, name: true } },
+              overdueCase: true,
+            }
+          }
+        },
+        orderBy: { createdAt: 'asc' }
+      }),
+      ledgerService.getBalances(investorId),
+    ]);
+
+    // The ledger is kept in HBAR; fundings are in their invoice's currency
+    const rates = await fxService.getRates([SETTLEMENT_CURRENCY, ...fundings.map(f => f.currency)], reportingCurrency, now);
+    const ledgerRate = rates.get(SETTLEMENT_CURRENCY)!;
+    const reportedBalances = Object.fromEntries(
+      Object.entries(balances).map(([account, amount]) => [account, roundAmount(amount * ledgerRate)])
+    ) as unknown as InvestorBalances;
+
+    const positions: OpenPosition[] = fundings.map(funding => {
+      const rate = rates.get(funding.currency.toUpperCase())!;
+      const fundedAt = funding.fundedAt || funding.createdAt;
+      const maturityDate = funding.invoice.dueDate;
+      const principal = roundAmount(funding.amount * rate);
+      const expectedReturn = roundAmount((funding.expectedReturn || 0) * rate);
+      const accrued = accruedReturn(expectedReturn, fundedAt, maturityDate, now);
+      // A defaulted invoice is marked down to nothing
+      const defaulted = funding.invoice.overdueCase?.stage === 'DEFAULTED';
+
+      return {
+        fundingId: funding.id,
+        invoiceId: funding.invoiceId,
+        invoiceNumber: funding.invoice.invoiceNumber,
+        supplierId: funding.invoice.supplierId,
+        supplierName: funding.invoice.supplier?.name ?? null,
+        syndicateId: funding.syndicateId,
+        ownershipShare: funding.ownershipShare,
+        status: funding.status,
+        currency: funding.currency,
+        amount: funding.amount,
+        principal,
+        expectedReturn,
+        accruedReturn: defaulted ? 0 : accrued,
+        unrealizedPnl: defaulted ? -principal : accrued,
+        fundedAt,
+        maturityDate,
+        daysToMaturity: actualDays(now, maturityDate),
+        defaulted,
+      };
+    });
+
+    const unrealized = roundAmount(positions.reduce((sum, p) => sum + p.unrealizedPnl, 0));
+
+    return {
+      investorId,
+      asOf: now,
+      reportingCurrency,
+      balances: reportedBalances,
+      openPrincipal: roundAmount(positions.reduce((sum, p) => sum + p.principal, 0)),
+      positions,
+      pnl: {
+        realized: reportedBalances.income,
+        unrealized,
+        fees: reportedBalances.fees,
+        net: roundAmount(reportedBalances.income + unrealized - reportedBalances.fees),
+      },
+      concentration: buildConcentration(positions),
+      maturityLadder: buildMaturityLadder(positions),
+    };
+  }
+}
+
+export const portfolioService = new PortfolioService();
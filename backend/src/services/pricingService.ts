@@ -0,0 +1,508 @@
+import { PrismaClient } from '@prisma/client';
+import { InvoiceStatus } from './invoices';
+import { ledgerService } from './ledgerService';
+import { fxService, FxSnapshotPurpose, SETTLEMENT_CURRENCY } from './fxService';
+import { logger } from '../utils/logger';
+import { ValidationError, NotFoundError, ConflictError } from '../middleware/errorHandler';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export enum DayCountConvention {
+  ACT_360 = 'ACT/360',
+  ACT_365 = 'ACT/365'
+}
+
+export const DAY_COUNT_CONVENTIONS = [DayCountConvention.ACT_360, DayCountConvention.ACT_365] as const;
+
+export const DEFAULT_DAY_COUNT = (process.env['RETURNS_DAY_COUNT'] as DayCountConvention) || DayCountConvention.ACT_365;
+export const DEFAULT_DISCOUNT_RATE = parseFloat(process.env['DEFAULT_DISCOUNT_RATE'] || '0.05');
+
+// Fundings in these states never pay out a return
+const NON_EARNING_STATUSES = ['REFUNDED', 'CANCELLED'];
+
+export interface PricingInput {
+  principal: number; // amount advanced by the investor
+  discountRate: number; // annual discount rate on face value (0.05 = 5%)
+  fundedAt: Date;
+  maturityDate: Date; // invoice due date
+  dayCount?: DayCountConvention;
+}
+
+export interface ReturnMetrics {
+  dayCount: DayCountConvention;
+  termDays: number;
+  yearFraction: number;
+  discountRate: number;
+  principal: number;
+  faceValue: number; // amount collected from the invoice for this principal
+  expectedReturn: number;
+  apr: number; // simple annualized return on principal
+  apy: number; // compounded annualized return on principal
+}
+
+export interface RealizedReturn {
+  settledAt: Date;
+  holdingDays: number;
+  daysLate: number; // negative when the invoice was paid early
+  realizedReturn: number;
+  realizedApr: number;
+  realizedApy: number;
+}
+
+export interface FundingReturns extends ReturnMetrics {
+  fundingId: string;
+  invoiceId: string;
+  status: string;
+  fundedAt: Date;
+  maturityDate: Date;
+  realized: RealizedReturn | null;
+}
+
+export interface FundingQuoteInput {
+  invoiceId: string;
+  investorAccountId: string; // the wallet asking, which may hold a marketplace reservation
+  amount: number;
+  dayCount?: DayCountConvention;
+}
+
+const roundAmount = (value: number) => Math.round(value * 1e8) / 1e8;
+const roundRate = (value: number) => Math.round(value * 1e6) / 1e6;
+
+// Face values are derived by division, so allow one tinybar of rounding
+const FACE_VALUE_TOLERANCE = 1e-8;
+
+/**
+ * Calendar days between two dates, counted on UTC date boundaries
+ */
+export function actualDays(start: Date, end: Date): number {
+  const startDay = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  const endDay = Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate());
+  return Math.round((endDay - startDay) / DAY_MS);
+}
+
+/**
+ * Fraction of a year between two dates under a day-count convention
+ */
+export function yearFraction(start: Date, end: Date, dayCount: DayCountConvention = DEFAULT_DAY_COUNT): number {
+  const basis = dayCount === DayCountConvention.ACT_360 ? 360 : 365;
+  return actualDays(start, end) / basis;
+}
+
+/**
+ * Annualize a holding-period return over a year fraction
+ * @returns Simple (APR) and compounded (APY) annual rates
+ */
+export function annualize(holdingReturn: number, years: number): { apr: number; apy: number } {
+  if (years <= 0) {
+    return { apr: 0, apy: 0 };
+  }
+  return {
+    apr: holdingReturn / years,
+    apy: Math.pow(1 + holdingReturn, 1 / years) - 1,
+  };
+}
+
+/**
+ * Price a funding as a discounted purchase of invoice face value.
+ * The investor advances `principal` = faceValue × (1 − discountRate × t)
+ * and collects faceValue at maturity.
+ * @param input Principal, discount rate and term
+ * @returns Face value, expected return and annualized yields
+ */
+export function priceFunding(input: PricingInput): ReturnMetrics {
+  const dayCount = input.dayCount || DEFAULT_DAY_COUNT;
+
+  if (input.principal <= 0) {
+    throw new ValidationError('Principal must be greater than 0');
+  }
+  if (input.discountRate < 0) {
+    throw new ValidationError('Discount rate cannot be negative');
+  }
+
+  const termDays = actualDays(input.fundedAt, input.maturityDate);
+  if (termDays <= 0) {
+    throw new ValidationError('Maturity date must be after the funding date');
+  }
+
+  const years = yearFraction(input.fundedAt, input.maturityDate, dayCount);
+  const discountFactor = 1 - input.discountRate * years;
+  if (discountFactor <= 0) {
+    throw new ValidationError('Discount rate is too high for the funding term');
+  }
+
+  const faceValue = input.principal / discountFactor;
+  const expectedReturn = faceValue - input.principal;
+  const { apr, apy } = annualize(expectedReturn / input.principal, years);
+
+  return {
+    dayCount,
+    termDays,
+    yearFraction: roundRate(years),
+    discountRate: input.discountRate,
+    principal: input.principal,
+    faceValue: roundAmount(faceValue),
+    expectedReturn: roundAmount(expectedReturn),
+    apr: roundRate(apr),
+    apy: roundRate(apy),
+  };
+}
+
+/**
+ * Metrics of a funding made on or after its maturity date, which has no
+ * term left to earn a discount over
+ */
+export function zeroTenorMetrics(
+  principal: number,
+  discountRate: number,
+  dayCount: DayCountConvention = DEFAULT_DAY_COUNT
+): ReturnMetrics {
+  return {
+    dayCount,
+    termDays: 0,
+    yearFraction: 0,
+    discountRate,
+    principal,
+    faceValue: principal,
+    expectedReturn: 0,
+    apr: 0,
+    apy: 0,
+  };
+}
+
+/**
+ * Metrics of a funding whose return was fixed when it was booked. The return
+ * is what the funding collects; the term from when it was funded only restates
+ * it as APR and APY.
+ */
+export function bookedMetrics(
+  principal: number,
+  expectedReturn: number,
+  discountRate: number,
+  fundedAt: Date,
+  maturityDate: Date,
+  dayCount: DayCountConvention = DEFAULT_DAY_COUNT
+): ReturnMetrics {
+  const termDays = Math.max(actualDays(fundedAt, maturityDate), 0);
+  const years = termDays > 0 ? yearFraction(fundedAt, maturityDate, dayCount) : 0;
+  const { apr, apy } = annualize(expectedReturn / principal, years);
+
+  return {
+    dayCount,
+    termDays,
+    yearFraction: roundRate(years),
+    discountRate,
+    principal,
+    faceValue: roundAmount(principal + expectedReturn),
+    expectedReturn,
+    apr: roundRate(apr),
+    apy: roundRate(apy),
+  };
+}
+
+/**
+ * Largest principal an investor can advance against a face value: the one
+ * whose discounted purchase collects exactly that face value at maturity
+ */
+export function maxPrincipal(
+  faceValue: number,
+  discountRate: number,
+  fundedAt: Date,
+  maturityDate: Date,
+  dayCount: DayCountConvention = DEFAULT_DAY_COUNT
+): number {
+  const discountFactor = 1 - discountRate * yearFraction(fundedAt, maturityDate, dayCount);
+  if (discountFactor <= 0) {
+    return 0;
+  }
+  return roundAmount(faceValue * Math.min(discountFactor, 1));
+}
+
+/**
+ * Invoice face value a funding collects: its principal plus expected return
+ */
+export function faceValueOf(funding: { amount: number; expectedReturn?: number | null }): number {
+  return roundAmount(funding.amount + (funding.expectedReturn || 0));
+}
+
+/**
+ * Invoice face value not yet bought by the given fundings
+ */
+export function remainingFaceValue(
+  invoiceAmount: number,
+  fundings: Array<{ amount: number; expectedReturn?: number | null }>
+): number {
+  const remaining = roundAmount(invoiceAmount - fundings.reduce((sum, f) => sum + faceValueOf(f), 0));
+  return remaining <= FACE_VALUE_TOLERANCE ? 0 : remaining;
+}
+
+/**
+ * Return actually earned once the invoice is paid.
+ * The face value is fixed, so paying late stretches the holding period and
+ * lowers the annualized yield, while paying early raises it.
+ */
+export function computeRealizedReturn(
+  metrics: ReturnMetrics,
+  fundedAt: Date,
+  maturityDate: Date,
+  settledAt: Date
+): RealizedReturn {
+  const holdingDays = actualDays(fundedAt, settledAt);
+  const realizedReturn = metrics.expectedReturn;
+  const { apr, apy } = annualize(realizedReturn / metrics.principal, yearFraction(fundedAt, settledAt, metrics.dayCount));
+
+  return {
+    settledAt,
+    holdingDays,
+    daysLate: actualDays(maturityDate, settledAt),
+    realizedReturn,
+    realizedApr: roundRate(apr),
+    realizedApy: roundRate(apy),
+  };
+}
+
+export class PricingService {
+  /**
+   * Quote the return on funding an invoice before committing, at the
+   * discount rate the funding is booked at
+   * @param input Invoice, investor, amount and optional day-count override
+   * @param now Funding date to price from
+   */
+  async quote(input: FundingQuoteInput, now: Date = new Date()) {
+    const invoice = await prisma.invoice.findUnique({ where: { id: input.invoiceId } });
+    if (!invoice) {
+      throw new NotFoundError('Invoice');
+    }
+
+    if (invoice.status !== InvoiceStatus.ISSUED) {
+      throw new ConflictError('Only invoices in ISSUED status can be quoted');
+    }
+
+    const investor = await prisma.user.findUnique({ where: { accountId: input.investorAccountId } });
+    if (!investor) {
+      throw new NotFoundError('Investor');
+    }
+    const reservation = await this.findMarketplaceReservation(invoice.id, investor.id);
+    const discountRate = reservation?.discountRate ?? DEFAULT_DISCOUNT_RATE;
+
+    // The investor buys at most the face value other fundings left, so the principal is capped at its discounted value
+    const fundings = await prisma.funding.findMany({
+      where: { invoiceId: invoice.id, status: { not: 'CANCELLED' } },
+      select: { amount: true, expectedReturn: true }
+    });
+    const maxAmount = maxPrincipal(remainingFaceValue(invoice.amount, fundings), discountRate, now, invoice.dueDate, input.dayCount);
+    if (input.amount > maxAmount) {
+      throw new ValidationError(`Funding amount exceeds the discounted invoice value of ${maxAmount} ${invoice.currency}`);
+    }
+
+    const metrics = priceFunding({
+      principal: input.amount,
+      discountRate,
+      fundedAt: now,
+      maturityDate: invoice.dueDate,
+      dayCount: input.dayCount,
+    });
+
+    return {
+      invoiceId: invoice.id,
+      currency: invoice.currency,
+      fundedAt: now,
+      maturityDate: invoice.dueDate,
+      maxAmount,
+      ...metrics,
+    };
+  }
+
+  /**
+   * A marketplace listing whose bid was accepted reserves the invoice for the
+   * winning investor, who funds it at the rate they bid
+   */
+  async findMarketplaceReservation(invoiceId: string, investorId: string) {
+    const listing = await prisma.marketplaceListing.findFirst({
+      where: { invoiceId, status: 'ACCEPTED' },
+      include: { acceptedBid: true }
+    });
+
+    if (!listing?.acceptedBid) {
+      return null;
+    }
+
+    if (listing.acceptedBid.investorId !== investorId) {
+      throw new ConflictError('Invoice is reserved for the investor whose marketplace bid was accepted');
+    }
+
+    return { listingId: listing.id, discountRate: listing.acceptedBid.discountRate };
+  }
+
+  /**
+   * Expected and (once settled) realized returns of a funding
+   * @param fundingId Funding ID
+   * @param dayCount Day-count convention override
+   */
+  async getFundingReturns(fundingId: string, dayCount?: DayCountConvention): Promise<FundingReturns> {
+    const funding = await prisma.funding.findUnique({
+      where: { id: fundingId },
+      include: { invoice: true }
+    });
+    if (!funding) {
+      throw new NotFoundError('Funding');
+    }
+
+    return this.computeFundingReturns(funding, dayCount);
+  }
+
+  /**
+   * Expected return to store on a new funding
+   */
+  expectedReturnFor(amount: number, discountRate: number, fundedAt: Date, maturityDate: Date): number | null {
+    try {
+      return priceFunding({ principal: amount, discountRate, fundedAt, maturityDate }).expectedReturn;
+    } catch (error) {
+      // Past-due or same-day maturities have no meaningful expected return
+      logger.warn({ error: error instanceof Error ? error.message : String(error) }, 'Could not price funding');
+      return null;
+    }
+  }
+
+  /**
+   * Mark an invoice's fundings settled and refresh their investors' returns.
+   * Each funding's payout is converted to HBAR at the settlement date's rate,
+   * which is kept as the funding's settlement FX snapshot.
+   * @param invoiceId Invoice that was paid
+   * @param settledAt Payment date
+   * @returns Number of fundings settled
+   */
+  async recordSettlement(invoiceId: string, settledAt: Date = new Date()): Promise<number> {
+    const fundings = await prisma.funding.findMany({
+      where: {
+        invoiceId,
+        settledAt: null,
+        status: { notIn: NON_EARNING_STATUSES },
+      },
+      select: { id: true, investorId: true, holderId: true, invoiceId: true, amount: true, currency: true, hbarAmount: true, expectedReturn: true }
+    });
+
+    if (fundings.length === 0) {
+      return 0;
+    }
+
+    await prisma.funding.updateMany({
+      where: { id: { in: fundings.map(f => f.id) } },
+      data: { settledAt }
+    });
+
+    for (const funding of fundings) {
+      try {
+        const conversion = await fxService.convert(
+          roundAmount(funding.amount + (funding.expectedReturn || 0)),
+          funding.currency,
+          SETTLEMENT_CURRENCY,
+          settledAt
+        );
+        await fxService.recordSnapshot(funding.id, FxSnapshotPurpose.SETTLEMENT, conversion);
+
+        const hbarRate = funding.currency !== SETTLEMENT_CURRENCY ? conversion.rate : undefined;
+        await ledgerService.recordSettlement(funding, undefined, settledAt, hbarRate);
+      } catch (error) {
+        logger.error({ fundingId: funding.id, error: error instanceof Error ? error.message : String(error) }, 'Failed to post settlement to ledger');
+      }
+    }
+
+    const investorIds = [...new Set(fundings.map(f => f.investorId))];
+    for (const investorId of investorIds) {
+      await this.refreshInvestorReturns(investorId);
+    }
+
+    logger.info({ invoiceId, fundings: fundings.length, settledAt }, 'Fundings settled');
+
+    return fundings.length;
+  }
+
+  /**
+   * Recompute Investor.totalReturns from the investor's settled fundings.
+   * Returns on fiat fundings are counted in HBAR at their settlement rate.
+   * @param investorId User ID of the investor
+   * @returns The new total
+   */
+  async refreshInvestorReturns(investorId: string): Promise<number> {
+    const settled = await prisma.funding.findMany({
+      where: {
+        investorId,
+        settledAt: { not: null },
+        status: { notIn: NON_EARNING_STATUSES },
+      },
+      include: { invoice: true, fxSnapshots: { where: { purpose: FxSnapshotPurpose.SETTLEMENT } } }
+    });
+
+    let totalReturns = 0;
+    for (const funding of settled) {
+      try {
+        const hbarRate = funding.currency === SETTLEMENT_CURRENCY ? 1 : funding.fxSnapshots[0]?.rate;
+        if (hbarRate === undefined) {
+          throw new Error(`No settlement rate recorded for ${funding.currency} funding`);
+        }
+        const returns = this.computeFundingReturns(funding);
+        totalReturns += (returns.realized?.realizedReturn ?? 0) * hbarRate;
+      } catch (error) {
+        logger.warn({ fundingId: funding.id, error: error instanceof Error ? error.message : String(error) }, 'Skipping unpriceable funding');
+      }
+    }
+    totalReturns = roundAmount(totalReturns);
+
+    await prisma.investor.updateMany({
+      where: { userId: investorId },
+      data: { totalReturns }
+    });
+
+    return totalReturns;
+  }
+
+  private computeFundingReturns(funding: any, dayCount?: DayCountConvention): FundingReturns {
+    const fundedAt: Date = funding.fundedAt || funding.createdAt;
+    const maturityDate: Date = funding.invoice.dueDate;
+
+    let metrics: ReturnMetrics;
+    if (funding.expectedReturn !== null && funding.expectedReturn !== undefined) {
+      // The return booked with the funding is what it collects, however long its deposit took
+      metrics = bookedMetrics(funding.amount, funding.expectedReturn, funding.interestRate, fundedAt, maturityDate, dayCount);
+    } else if (actualDays(fundedAt, maturityDate) > 0) {
+      metrics = priceFunding({
+        principal: funding.amount,
+        discountRate: funding.interestRate,
+        fundedAt,
+        maturityDate,
+        dayCount,
+      });
+    } else {
+      metrics = zeroTenorMetrics(funding.amount, funding.interestRate, dayCount);
+    }
+
+    let realized: RealizedReturn | null = null;
+    if (NON_EARNING_STATUSES.includes(funding.status)) {
+      const settledAt: Date = funding.refundedAt || funding.updatedAt;
+      realized = {
+        settledAt,
+        holdingDays: actualDays(fundedAt, settledAt),
+        daysLate: actualDays(maturityDate, settledAt),
+        realizedReturn: 0,
+        realizedApr: 0,
+        realizedApy: 0,
+      };
+    } else if (funding.settledAt) {
+      realized = computeRealizedReturn(metrics, fundedAt, maturityDate, funding.settledAt);
+    }
+
+    return {
+      fundingId: funding.id,
+      invoiceId: funding.invoiceId,
+      status: funding.status,
+      fundedAt,
+      maturityDate,
+      ...metrics,
+      realized,
+    };
+  }
+}
+
+export const pricingService = new PricingService();
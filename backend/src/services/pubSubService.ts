@@ -0,0 +1,157 @@
+import { EventEmitter } from 'events';
+import { logger } from '../utils/logger';
+
+export type PubSubHandler = (message: any) => void;
+
+/**
+ * Publish/subscribe bus between backend replicas. Messages are JSON, so
+ * subscribers see the same shape whichever adapter carries them.
+ */
+export interface PubSubBus {
+  publish(channel: string, message: unknown): Promise<void>;
+  /** Resolves with a function that removes the subscription */
+  subscribe(channel: string, handler: PubSubHandler): Promise<() => Promise<void>>;
+  close(): Promise<void>;
+}
+
+/**
+ * The subset of an ioredis client the Redis adapters use, so tests can pass
+ * a fake instead of a live connection
+ */
+export interface RedisClientLike {
+  publish(channel: string, message: string): Promise<number>;
+  subscribe(channel: string): Promise<unknown>;
+  unsubscribe(channel: string): Promise<unknown>;
+  on(event: 'message', listener: (channel: string, message: string) => void): unknown;
+  set(key: string, value: string, mode: 'PX', ttl: number, condition: 'NX'): Promise<string | null>;
+  eval(script: string, numKeys: number, ...args: Array<string | number>): Promise<unknown>;
+  quit(): Promise<unknown>;
+}
+
+export enum PubSubDriver {
+  MEMORY = 'memory',
+  REDIS = 'redis'
+}
+
+export interface PubSubConfig {
+  driver: PubSubDriver;
+  redisUrl?: string;
+}
+
+export function loadPubSubConfig(): PubSubConfig {
+  return {
+    driver: process.env.PUBSUB_DRIVER === PubSubDriver.REDIS ? PubSubDriver.REDIS : PubSubDriver.MEMORY,
+    redisUrl: process.env.REDIS_URL,
+  };
+}
+
+/**
+ * Open an ioredis connection. Loaded on demand so single-replica setups
+ * using the in-memory driver do not need Redis at all.
+ */
+export function createRedisClient<T = RedisClientLike>(url: string): T {
+  const Redis = require('ioredis');
+  const client = new Redis(url, { maxRetriesPerRequest: null });
+  client.on('error', (error: Error) => {
+    logger.error({ error: error.message }, 'Redis connection error');
+  });
+  return client;
+}
+
+/**
+ * Single-process bus. Delivery is synchronous and round-trips through JSON
+ * like the Redis adapter does.
+ */
+export class InMemoryPubSub implements PubSubBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    this.emitter.emit(channel, JSON.parse(JSON.stringify(message)));
+  }
+
+  async subscribe(channel: string, handler: PubSubHandler): Promise<() => Promise<void>> {
+    this.emitter.on(channel, handler);
+    return async () => {
+      this.emitter.off(channel, handler);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.emitter.removeAllListeners();
+  }
+}
+
+/**
+ * Redis bus. A connection in subscriber mode cannot publish, so the adapter
+ * takes one client for each.
+ */
+export class RedisPubSub implements PubSubBus {
+  private handlers: Map<string, Set<PubSubHandler>> = new Map();
+
+  constructor(private publisher: RedisClientLike, private subscriber: RedisClientLike) {
+    this.subscriber.on('message', (channel: string, raw: string) => {
+      const handlers = this.handlers.get(channel);
+      if (!handlers) return;
+
+      let message: unknown;
+      try {
+        message = JSON.parse(raw);
+      } catch (error) {
+        logger.error({ channel }, 'Dropped malformed pub/sub message');
+        return;
+      }
+
+      handlers.forEach(handler => {
+        try {
+          handler(message);
+        } catch (error) {
+          logger.error({ channel, error: error instanceof Error ? error.message : String(error) }, 'Pub/sub handler failed');
+        }
+      });
+    });
+  }
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    await this.publisher.publish(channel, JSON.stringify(message));
+  }
+
+  async subscribe(channel: string, handler: PubSubHandler): Promise<() => Promise<void>> {
+    let handlers = this.handlers.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(channel, handlers);
+      await this.subscriber.subscribe(channel);
+    }
+    handlers.add(handler);
+
+    return async () => {
+      const current = this.handlers.get(channel);
+      if (!current || !current.delete(handler) || current.size > 0) return;
+      this.handlers.delete(channel);
+      await this.subscriber.unsubscribe(channel);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+    await Promise.all([this.publisher.quit(), this.subscriber.quit()]);
+  }
+}
+
+export function createPubSub(config: PubSubConfig = loadPubSubConfig()): PubSubBus {
+  if (config.driver === PubSubDriver.REDIS) {
+    if (!config.redisUrl) {
+      throw new Error('REDIS_URL must be set when PUBSUB_DRIVER is redis');
+    }
+    return new RedisPubSub(createRedisClient(config.redisUrl), createRedisClient(config.redisUrl));
+  }
+
+  return new InMemoryPubSub();
+}
+
+// Export singleton instance
+export const pubSub = createPubSub();
@@ -0,0 +1,476 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { InvoiceStatus, InvoiceEventType } from './invoices';
+import { actualDays } from './pricingService';
+import { logger } from '../utils/logger';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+
+const prisma = new PrismaClient();
+
+// Define enums locally since they're not exported from Prisma client
+export enum RiskLevel {
+  LOW = 'LOW',
+  MEDIUM = 'MEDIUM',
+  HIGH = 'HIGH'
+}
+
+export type RiskSubject = 'SUPPLIER' | 'BUYER';
+
+/**
+ * Parameters of a scoring model. Models are never edited once released;
+ * a change in weights ships as a new version so stored grades stay explainable.
+ */
+export interface RiskModel {
+  version: string;
+  weights: {
+    lateShare: number; // share of settled invoices paid after the due date
+    daysLate: number; // average days late on late payments
+    overdueRate: number; // share of past-due invoices that went overdue
+    defaultRate: number; // share of past-due invoices declared in default
+    disputeRate: number; // escrow disputes per funded invoice
+    concentration: number; // volume share above the threshold held by one counterparty
+  };
+  maxDaysLate: number; // average days late at which the days-late penalty is full
+  concentrationThreshold: number; // largest counterparty share tolerated without penalty
+  minHistory: number; // invoices with an outcome before history counts in full
+  prior: number; // score assumed for a party without history
+  gradeThresholds: { low: number; medium: number }; // minimum score graded LOW and MEDIUM risk
+  buyerWeight: number; // share of the buyer's score in an invoice's score
+}
+
+export const RISK_MODELS: Record<string, RiskModel> = {
+  v1: {
+    version: 'v1',
+    weights: {
+      lateShare: 25,
+      daysLate: 15,
+      overdueRate: 20,
+      defaultRate: 25,
+      disputeRate: 10,
+      concentration: 5,
+    },
+    maxDaysLate: 30,
+    concentrationThreshold: 0.5,
+    minHistory: 5,
+    prior: 60,
+    gradeThresholds: { low: 75, medium: 50 },
+    buyerWeight: 0.6,
+  },
+};
+
+export const DEFAULT_RISK_MODEL_VERSION = 'v1';
+
+/**
+ * On-platform history of a supplier or buyer
+ */
+export interface CounterpartyHistory {
+  invoices: number; // invoices issued, excluding cancelled ones
+  settled: number; // paid invoices with a recorded payment date
+  onTime: number; // settled on or before the due date
+  totalDaysLate: number; // summed over late payments
+  pastDue: number; // invoices whose due date has passed
+  overdue: number; // invoices that went overdue
+  defaulted: number;
+  funded: number; // invoices with at least one funding
+  disputes: number;
+  concentration: number; // largest counterparty's share of invoiced volume (0-1)
+}
+
+export interface RiskFactor {
+  key: string;
+  value: number; // the measured input, e.g. a rate or a day count
+  impact: number; // score points added (negative) by this factor
+  detail: string;
+}
+
+export interface RiskScore {
+  subject: RiskSubject;
+  subjectId: string;
+  modelVersion: string;
+  score: number; // 0-100, higher is safer
+  grade: RiskLevel;
+  factors: RiskFactor[];
+  history: CounterpartyHistory;
+}
+
+export interface InvoiceRisk {
+  invoiceId: string;
+  modelVersion: string;
+  score: number;
+  grade: RiskLevel;
+  supplier: RiskScore;
+  buyer: RiskScore | null;
+  scoredAt: Date;
+}
+
+export interface RiskScoringConfig {
+  interval: number; // milliseconds between rescoring runs
+  enabled: boolean;
+  batchSize: number;
+  modelVersion: string;
+}
+
+// Invoices whose grade is still shown to investors
+const SCORED_INVOICE_STATUSES = [InvoiceStatus.ISSUED, InvoiceStatus.FUNDED, InvoiceStatus.OVERDUE];
+
+// Grades an investor of each risk tolerance is shown
+const GRADES_BY_TOLERANCE: Record<RiskLevel, RiskLevel[]> = {
+  [RiskLevel.LOW]: [RiskLevel.LOW],
+  [RiskLevel.MEDIUM]: [RiskLevel.LOW, RiskLevel.MEDIUM],
+  [RiskLevel.HIGH]: [RiskLevel.LOW, RiskLevel.MEDIUM, RiskLevel.HIGH],
+};
+
+export function loadRiskScoringConfig(): RiskScoringConfig {
+  return {
+    interval: parseInt(process.env['RISK_SCORING_INTERVAL'] || '3600000'), // 1 hour default
+    enabled: process.env['RISK_SCORING_ENABLED'] === 'true',
+    batchSize: parseInt(process.env['RISK_SCORING_BATCH_SIZE'] || '200'),
+    modelVersion: process.env['RISK_MODEL_VERSION'] || DEFAULT_RISK_MODEL_VERSION,
+  };
+}
+
+export function getRiskModel(version: string = DEFAULT_RISK_MODEL_VERSION): RiskModel {
+  const model = RISK_MODELS[version];
+  if (!model) {
+    throw new ValidationError(`Unknown risk model version ${version}`);
+  }
+  return model;
+}
+
+/**
+ * Risk grades within an investor's tolerance
+ */
+export function gradesForTolerance(tolerance: RiskLevel): RiskLevel[] {
+  return GRADES_BY_TOLERANCE[tolerance] ?? GRADES_BY_TOLERANCE[RiskLevel.MEDIUM];
+}
+
+export function gradeFor(score: number, model: RiskModel): RiskLevel {
+  if (score >= model.gradeThresholds.low) return RiskLevel.LOW;
+  if (score >= model.gradeThresholds.medium) return RiskLevel.MEDIUM;
+  return RiskLevel.HIGH;
+}
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+const ratio = (part: number, whole: number) => (whole > 0 ? Math.min(1, part / whole) : 0);
+
+/**
+ * Score a party's history. Every penalty is reported as a factor, and a thin
+ * history is pulled toward the model's prior, so the factors always add up
+ * from 100 to the score.
+ */
+export function computeRiskScore(history: CounterpartyHistory, model: RiskModel): { score: number; factors: RiskFactor[] } {
+  const late = history.settled - history.onTime;
+  const lateShare = ratio(late, history.settled);
+  const avgDaysLate = late > 0 ? history.totalDaysLate / late : 0;
+  const overdueRate = ratio(history.overdue, history.pastDue);
+  const defaultRate = ratio(history.defaulted, history.pastDue);
+  const disputeRate = ratio(history.disputes, history.funded);
+  const excessConcentration = Math.max(0, history.concentration - model.concentrationThreshold) / (1 - model.concentrationThreshold);
+
+  const factors: RiskFactor[] = [
+    {
+      key: 'latePayments',
+      value: round(lateShare, 4),
+      impact: -model.weights.lateShare * lateShare,
+      detail: `${late} of ${history.settled} settled invoices paid after the due date`,
+    },
+    {
+      key: 'daysLate',
+      value: round(avgDaysLate, 1),
+      impact: -model.weights.daysLate * Math.min(1, avgDaysLate / model.maxDaysLate),
+      detail: `Late payments arrived ${round(avgDaysLate, 1)} days after the due date on average`,
+    },
+    {
+      key: 'overdueRate',
+      value: round(overdueRate, 4),
+      impact: -model.weights.overdueRate * overdueRate,
+      detail: `${history.overdue} of ${history.pastDue} past-due invoices went overdue`,
+    },
+    {
+      key: 'defaultRate',
+      value: round(defaultRate, 4),
+      impact: -model.weights.defaultRate * defaultRate,
+      detail: `${history.defaulted} of ${history.pastDue} past-due invoices defaulted`,
+    },
+    {
+      key: 'disputes',
+      value: round(disputeRate, 4),
+      impact: -model.weights.disputeRate * disputeRate,
+      detail: `${history.disputes} escrow disputes across ${history.funded} funded invoices`,
+    },
+    {
+      key: 'concentration',
+      value: round(history.concentration, 4),
+      impact: -model.weights.concentration * excessConcentration,
+      detail: `${round(history.concentration * 100, 1)}% of invoiced volume is with a single counterparty`,
+    },
+  ];
+
+  const raw = 100 + factors.reduce((sum, factor) => sum + factor.impact, 0);
+  const outcomes = Math.max(history.settled, history.pastDue);
+  const confidence = Math.min(1, outcomes / model.minHistory);
+  const score = model.prior + (raw - model.prior) * confidence;
+
+  if (confidence < 1) {
+    factors.push({
+      key: 'limitedHistory',
+      value: outcomes,
+      impact: score - raw,
+      detail: `Only ${outcomes} of the ${model.minHistory} invoices with an outcome needed for a full history; score weighted toward ${model.prior}`,
+    });
+  }
+
+  return {
+    score: round(Math.max(0, Math.min(100, score)), 1),
+    factors: factors.map(factor => ({ ...factor, impact: round(factor.impact, 2) })),
+  };
+}
+
+/**
+ * Credit risk scores of suppliers, buyers and the invoices between them,
+ * from payment punctuality, overdue and default rates, disputes and
+ * counterparty concentration on the platform.
+ */
+export class RiskScoringService {
+  private scoringInterval: NodeJS.Timeout | null = null;
+  private isScoring: boolean = false;
+  private config: RiskScoringConfig;
+
+  constructor(config: Partial<RiskScoringConfig> = {}) {
+    this.config = { ...loadRiskScoringConfig(), ...config };
+  }
+
+  get model(): RiskModel {
+    return getRiskModel(this.config.modelVersion);
+  }
+
+  async scoreSupplier(supplierId: string, now: Date = new Date()): Promise<RiskScore> {
+    const supplier = await prisma.user.findUnique({ where: { id: supplierId }, select: { id: true } });
+    if (!supplier) {
+      throw new NotFoundError('Supplier');
+    }
+    return this.scoreSubject('SUPPLIER', supplierId, now);
+  }
+
+  async scoreBuyer(buyerId: string, now: Date = new Date()): Promise<RiskScore> {
+    const invoices = await prisma.invoice.count({ where: { buyerId } });
+    if (invoices === 0) {
+      throw new NotFoundError('Buyer');
+    }
+    return this.scoreSubject('BUYER', buyerId, now);
+  }
+
+  /**
+   * Score an invoice from its supplier and buyer and store the grade on it
+   */
+  async scoreInvoice(invoiceId: string, now: Date = new Date()): Promise<InvoiceRisk> {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      select: { id: true, supplierId: true, buyerId: true }
+    });
+    if (!invoice) {
+      throw new NotFoundError('Invoice');
+    }
+
+    const model = this.model;
+    const supplier = await this.scoreSubject('SUPPLIER', invoice.supplierId, now);
+    const buyer = invoice.buyerId ? await this.scoreSubject('BUYER', invoice.buyerId, now) : null;
+
+    // The buyer pays the invoice, so its record weighs more when known
+    const score = buyer
+      ? round(model.buyerWeight * buyer.score + (1 - model.buyerWeight) * supplier.score, 1)
+      : supplier.score;
+    const risk: InvoiceRisk = {
+      invoiceId: invoice.id,
+      modelVersion: model.version,
+      score,
+      grade: gradeFor(score, model),
+      supplier,
+      buyer,
+      scoredAt: now,
+    };
+
+    await prisma.invoice.update({
+      where: { id: invoice.id },
+      data: {
+        riskScore: risk.score,
+        riskGrade: risk.grade,
+        riskModelVersion: risk.modelVersion,
+        riskFactors: JSON.stringify({
+          supplier: { score: supplier.score, factors: supplier.factors },
+          buyer: buyer && { score: buyer.score, factors: buyer.factors },
+        }),
+        riskScoredAt: now,
+      }
+    });
+
+    return risk;
+  }
+
+  /**
+   * Risk tolerance of the investor behind a wallet, MEDIUM without a profile
+   */
+  async getInvestorTolerance(accountId: string): Promise<RiskLevel> {
+    const user = await prisma.user.findUnique({ where: { accountId }, select: { id: true } });
+    const investor = user && await prisma.investor.findUnique({ where: { userId: user.id }, select: { riskTolerance: true } });
+    return (investor?.riskTolerance as RiskLevel) || RiskLevel.MEDIUM;
+  }
+
+  /**
+   * Start rescoring open invoices
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      logger.info('Risk scoring is disabled');
+      return;
+    }
+
+    if (this.scoringInterval) {
+      logger.warn('Risk scoring is already running');
+      return;
+    }
+
+    logger.info({ interval: this.config.interval, modelVersion: this.config.modelVersion }, 'Starting risk scoring');
+
+    this.scoringInterval = setInterval(async () => {
+      if (!this.isScoring) {
+        await this.runOnce();
+      }
+    }, this.config.interval);
+  }
+
+  /**
+   * Stop rescoring open invoices
+   */
+  stop(): void {
+    if (this.scoringInterval) {
+      clearInterval(this.scoringInterval);
+      this.scoringInterval = null;
+      logger.info('Risk scoring stopped');
+    }
+  }
+
+  /**
+   * Rescore open invoices, least recently scored first
+   * @returns Number of invoices scored
+   */
+  async runOnce(now: Date = new Date()): Promise<number> {
+    this.isScoring = true;
+    let scored = 0;
+
+    try {
+      const invoices = await prisma.invoice.findMany({
+        where: { status: { in: SCORED_INVOICE_STATUSES } },
+        select: { id: true },
+        orderBy: [{ riskScoredAt: { sort: 'asc', nulls: 'first' } }],
+        take: this.config.batchSize,
+      });
+
+      for (const invoice of invoices) {
+        try {
+          await this.scoreInvoice(invoice.id, now);
+          scored++;
+        } catch (error) {
+          logger.error({ invoiceId: invoice.id, error: error instanceof Error ? error.message : String(error) }, 'Failed to score invoice risk');
+        }
+      }
+
+      if (scored > 0) {
+        logger.info({ scored, modelVersion: this.config.modelVersion }, 'Invoice risk scores refreshed');
+      }
+    } catch (error) {
+      logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Risk scoring run failed');
+    } finally {
+      this.isScoring = false;
+    }
+
+    return scored;
+  }
+
+  private async scoreSubject(subject: RiskSubject, subjectId: string, now: Date): Promise<RiskScore> {
+    const model = this.model;
+    const history = await this.loadHistory(subject, subjectId, now);
+    const { score, factors } = computeRiskScore(history, model);
+
+    return {
+      subject,
+      subjectId,
+      modelVersion: model.version,
+      score,
+      grade: gradeFor(score, model),
+      factors,
+      history,
+    };
+  }
+
+  private async loadHistory(subject: RiskSubject, subjectId: string, now: Date): Promise<CounterpartyHistory> {
+    const where: Prisma.InvoiceWhereInput = subject === 'SUPPLIER' ? { supplierId: subjectId } : { buyerId: subjectId };
+
+    const invoices = await prisma.invoice.findMany({
+      where: { ...where, status: { not: InvoiceStatus.CANCELLED } },
+      select: {
+        id: true,
+        amount: true,
+        dueDate: true,
+        status: true,
+        supplierId: true,
+        buyerId: true,
+        overdueCase: { select: { stage: true } },
+        events: {
+          where: { eventType: InvoiceEventType.PAYMENT_RECEIVED },
+          orderBy: { createdAt: 'asc' },
+          take: 1,
+          select: { createdAt: true }
+        },
+        _count: { select: { fundings: true } }
+      }
+    });
+
+    const disputes = invoices.length > 0
+      ? await prisma.escrowDispute.count({ where: { invoiceId: { in: invoices.map(invoice => invoice.id) } } })
+      : 0;
+
+    const history: CounterpartyHistory = {
+      invoices: invoices.length,
+      settled: 0,
+      onTime: 0,
+      totalDaysLate: 0,
+      pastDue: 0,
+      overdue: 0,
+      defaulted: 0,
+      funded: 0,
+      disputes,
+      concentration: 0,
+    };
+    const volumeByCounterparty: Record<string, number> = {};
+    let volume = 0;
+
+    for (const invoice of invoices) {
+      const paidAt = invoice.status === InvoiceStatus.PAID ? invoice.events[0]?.createdAt : undefined;
+      if (paidAt) {
+        const daysLate = actualDays(invoice.dueDate, paidAt);
+        history.settled++;
+        if (daysLate <= 0) {
+          history.onTime++;
+        } else {
+          history.totalDaysLate += daysLate;
+        }
+      }
+
+      if (invoice.dueDate < now) history.pastDue++;
+      if (invoice.overdueCase || invoice.status === InvoiceStatus.OVERDUE) history.overdue++;
+      if (invoice.overdueCase?.stage === 'DEFAULTED') history.defaulted++;
+      if (invoice._count.fundings > 0) history.funded++;
+
+      const counterparty = (subject === 'SUPPLIER' ? invoice.buyerId : invoice.supplierId) || 'unknown';
+      volumeByCounterparty[counterparty] = (volumeByCounterparty[counterparty] || 0) + invoice.amount;
+      volume += invoice.amount;
+    }
+
+    history.concentration = volume > 0 ? Math.max(...Object.values(volumeByCounterparty)) / volume : 0;
+
+    return history;
+  }
+}
+
+// Export singleton instance
+export const riskScoringService = new RiskScoringService();
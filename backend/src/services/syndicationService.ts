@@ -0,0 +1,699 @@
+import { PrismaClient, FundingSyndicate, Funding } from '@prisma/client';
+import { contractService } from './contract';
+import { HederaService } from './hedera';
+import { invoiceService, InvoiceStatus, InvoiceEventType } from './invoices';
+import { pricingService, maxPrincipal, DEFAULT_DISCOUNT_RATE } from './pricingService';
+import { ledgerService } from './ledgerService';
+import { duplicateDetectionService } from './duplicateDetectionService';
+import { SETTLEMENT_CURRENCY } from './fxService';
+import { documentEncryptionService, DocumentKeyRole } from './documentEncryptionService';
+import { logger } from '../utils/logger';
+import { ValidationError, NotFoundError, ConflictError, AuthorizationError } from '../middleware/errorHandler';
+
+// Create hedera service instance
+const hederaService = new HederaService({
+  operatorId: process.env['OPERATOR_ID']!,
+  operatorKey: process.env['OPERATOR_KEY']!,
+  network: process.env['HEDERA_NETWORK'] || 'testnet',
+  mirrorNodeUrl: process.env['MIRROR_NODE_URL'] || 'https://testnet.mirrornode.hedera.com',
+});
+
+const prisma = new PrismaClient();
+
+const TINYBARS_PER_HBAR = 100_000_000;
+
+// Marketplace listings still taking bids or reserved for the winning bidder's funding
+const ACTIVE_LISTING_STATUSES = ['OPEN', 'ACCEPTED'];
+
+// Define enums locally since they're not exported from Prisma client
+export enum SyndicateStatus {
+  OPEN = 'OPEN',
+  FILLED = 'FILLED',
+  RELEASED = 'RELEASED',
+  REFUNDED = 'REFUNDED'
+}
+
+export interface SyndicateRequester {
+  accountId: string;
+  roles: string[];
+}
+
+export interface OpenSyndicateInput {
+  invoiceId: string;
+  requester: SyndicateRequester; // the authenticated wallet opening the syndicate
+  fillDeadline: Date;
+  targetAmount?: number; // defaults to the invoice's discounted value
+  minTrancheAmount?: number;
+  nftSerialNumber?: number;
+}
+
+export interface CommitTrancheInput {
+  syndicateId: string;
+  investorAccountId: string; // the authenticated wallet committing the tranche
+  amount: number;
+}
+
+export interface TrancheAllocation {
+  fundingId: string;
+  investorId: string;
+  amount: number;
+  fee?: number;
+  share: number;
+}
+
+export interface SyndicateSettlement {
+  syndicate: FundingSyndicate;
+  transactionHash: string;
+  allocations: TrancheAllocation[];
+}
+
+/**
+ * Round an HBAR amount to tinybar precision
+ */
+export function roundHbar(amount: number): number {
+  return Math.round(amount * TINYBARS_PER_HBAR) / TINYBARS_PER_HBAR;
+}
+
+/**
+ * Split a total across tranches in proportion to their size.
+ * Works in tinybars and hands leftover tinybars to the largest remainders,
+ * so the allocations always add up to the total exactly.
+ * @param total Amount to split, in HBAR
+ * @param tranches Tranches keyed by id with their committed amount
+ * @returns Allocated HBAR amount per tranche id
+ */
+export function allocateProRata(
+  total: number,
+  tranches: Array<{ id: string; amount: number }>
+): Record<string, number> {
+  const totalTinybars = Math.round(total * TINYBARS_PER_HBAR);
+  const weights = tranches.map(t => Math.round(t.amount * TINYBARS_PER_HBAR));
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+
+  const allocations: Record<string, number> = {};
+  if (tranches.length === 0) {
+    return allocations;
+  }
+  if (weightSum === 0) {
+    throw new ValidationError('Cannot allocate across tranches with no committed amount');
+  }
+
+  const parts = tranches.map((t, index) => {
+    const exact = (totalTinybars * weights[index]) / weightSum;
+    return { id: t.id, index, floor: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let leftover = totalTinybars - parts.reduce((sum, p) => sum + p.floor, 0);
+  const byRemainder = [...parts].sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const part of byRemainder) {
+    if (leftover <= 0) break;
+    part.floor += 1;
+    leftover -= 1;
+  }
+
+  for (const part of parts) {
+    allocations[part.id] = part.floor / TINYBARS_PER_HBAR;
+  }
+  return allocations;
+}
+
+export class SyndicationService {
+  private expiryInterval: NodeJS.Timeout | null = null;
+  private isSweeping: boolean = false;
+  private config = {
+    interval: parseInt(process.env['SYNDICATE_EXPIRY_INTERVAL'] || '60000'), // 1 minute default
+    enabled: process.env['SYNDICATE_EXPIRY_ENABLED'] === 'true',
+  };
+
+  /**
+   * Open a syndicate so several investors can fund one invoice in tranches
+   * @param input Invoice, funding target and fill deadline
+   * @returns The created syndicate
+   */
+  async openSyndicate(input: OpenSyndicateInput, now: Date = new Date()) {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: input.invoiceId },
+      include: { supplier: true }
+    });
+    if (!invoice) {
+      throw new NotFoundError('Invoice');
+    }
+    if (invoice.supplier.accountId !== input.requester.accountId && !input.requester.roles.includes('ADMIN')) {
+      throw new AuthorizationError('Only the supplier of this invoice can syndicate it');
+    }
+
+    if (invoice.status !== InvoiceStatus.ISSUED) {
+      throw new ConflictError('Invoice must be in ISSUED status to be syndicated');
+    }
+    // Tranches and pro-rata payouts are counted in tinybars
+    if (invoice.currency !== SETTLEMENT_CURRENCY) {
+      throw new ValidationError('Only HBAR invoices can be syndicated');
+    }
+    await duplicateDetectionService.assertFundable(invoice.id);
+
+    // Tranches are priced at the default rate, so together they may buy at most the invoice's face value
+    const maxTarget = roundHbar(maxPrincipal(invoice.amount, DEFAULT_DISCOUNT_RATE, now, invoice.dueDate));
+    const targetAmount = roundHbar(input.targetAmount ?? maxTarget);
+    if (targetAmount <= 0 || targetAmount > maxTarget) {
+      throw new ValidationError(`Target amount must be greater than 0 and not exceed the discounted invoice value of ${maxTarget} HBAR`);
+    }
+
+    if (input.minTrancheAmount !== undefined && (input.minTrancheAmount <= 0 || input.minTrancheAmount > targetAmount)) {
+      throw new ValidationError('Minimum tranche must be greater than 0 and not exceed the target amount');
+    }
+
+    if (input.fillDeadline <= now) {
+      throw new ValidationError('Fill deadline must be in the future');
+    }
+    if (input.fillDeadline >= invoice.dueDate) {
+      throw new ValidationError('Fill deadline must be before the invoice due date');
+    }
+
+    const existing = await prisma.fundingSyndicate.findUnique({ where: { invoiceId: invoice.id } });
+    if (existing) {
+      throw new ConflictError('Invoice already has a funding syndicate');
+    }
+
+    const directFundings = await prisma.funding.count({ where: { invoiceId: invoice.id } });
+    if (directFundings > 0) {
+      throw new ConflictError('Invoice already has direct funding');
+    }
+
+    const listing = await prisma.marketplaceListing.findFirst({
+      where: { invoiceId: invoice.id, status: { in: ACTIVE_LISTING_STATUSES } }
+    });
+    if (listing) {
+      throw new ConflictError('Invoice is listed on the marketplace and cannot be syndicated');
+    }
+
+    const escrowResult = await contractService.openSyndicate({
+      invoiceId: invoice.id,
+      supplierAddress: invoice.supplier.accountId,
+      targetAmount: targetAmount.toString(),
+      fillDeadline: input.fillDeadline,
+      dueDate: invoice.dueDate,
+      nftTokenId: invoice.nftTokenId || undefined,
+      nftSerialNumber: input.nftSerialNumber || 1,
+      fileHash: invoice.fileHash || undefined,
+    });
+
+    const syndicate = await prisma.fundingSyndicate.create({
+      data: {
+        invoiceId: invoice.id,
+        targetAmount,
+        minTrancheAmount: input.minTrancheAmount,
+        fillDeadline: input.fillDeadline,
+        status: SyndicateStatus.OPEN,
+        escrowId: escrowResult.escrowId,
+        transactionHash: escrowResult.transactionHash,
+      }
+    });
+
+    const hcsMessageId = await this.logToHcs(invoice.topicId, {
+      eventType: 'SYNDICATE_OPENED',
+      invoiceId: invoice.id,
+      syndicateId: syndicate.id,
+      escrowId: escrowResult.escrowId,
+      targetAmount,
+      fillDeadline: input.fillDeadline.toISOString(),
+      transactionHash: escrowResult.transactionHash,
+      timestamp: new Date().toISOString(),
+    });
+
+    await invoiceService.addInvoiceEvent(
+      invoice.id,
+      InvoiceEventType.FUNDING_REQUESTED,
+      `Funding syndicate opened. Target: ${targetAmount} HBAR, fill deadline: ${input.fillDeadline.toISOString()}`,
+      {
+        syndicateId: syndicate.id,
+        escrowId: escrowResult.escrowId,
+        targetAmount,
+        minTrancheAmount: input.minTrancheAmount,
+        fillDeadline: input.fillDeadline.toISOString(),
+      },
+      hcsMessageId,
+      new Date(),
+      escrowResult.transactionHash
+    );
+
+    logger.info({ syndicateId: syndicate.id, invoiceId: invoice.id, targetAmount }, 'Funding syndicate opened');
+
+    return syndicate;
+  }
+
+  /**
+   * Commit an investor tranche to an open syndicate.
+   * Capacity is reserved with a conditional update before the escrow call, so
+   * concurrent commits can never push the syndicate past its target.
+   * @param input Syndicate, investor and tranche amount
+   * @returns The tranche funding record and the updated syndicate
+   */
+  async commitTranche(input: CommitTrancheInput, now: Date = new Date()) {
+    const syndicate = await prisma.fundingSyndicate.findUnique({
+      where: { id: input.syndicateId },
+      include: { invoice: true }
+    });
+    if (!syndicate) {
+      throw new NotFoundError('Syndicate');
+    }
+
+    if (syndicate.status !== SyndicateStatus.OPEN) {
+      throw new ConflictError(`Syndicate is ${syndicate.status} and no longer accepts tranches`);
+    }
+    if (now > syndicate.fillDeadline) {
+      throw new ConflictError('Syndicate fill deadline has passed');
+    }
+
+    const investor = await prisma.user.findUnique({ where: { accountId: input.investorAccountId } });
+    if (!investor) {
+      throw new NotFoundError('Investor');
+    }
+
+    const amount = roundHbar(input.amount);
+    if (amount <= 0) {
+      throw new ValidationError('Tranche amount must be greater than 0');
+    }
+
+    const remaining = roundHbar(syndicate.targetAmount - syndicate.committedAmount);
+    if (amount > remaining) {
+      throw new ConflictError(`Tranche of ${amount} HBAR exceeds remaining capacity of ${remaining} HBAR`);
+    }
+
+    // The tranche that exactly fills the syndicate may be below the minimum
+    if (syndicate.minTrancheAmount && amount < syndicate.minTrancheAmount && amount !== remaining) {
+      throw new ValidationError(`Tranche must be at least ${syndicate.minTrancheAmount} HBAR`);
+    }
+
+    const reserved = await prisma.fundingSyndicate.updateMany({
+      where: {
+        id: syndicate.id,
+        status: SyndicateStatus.OPEN,
+        committedAmount: { lte: roundHbar(syndicate.targetAmount - amount) }
+      },
+      data: { committedAmount: { increment: amount } }
+    });
+    if (reserved.count === 0) {
+      throw new ConflictError('Syndicate capacity changed, tranche would over-subscribe the target');
+    }
+
+    let escrowResult;
+    try {
+      escrowResult = await contractService.commitTranche(syndicate.invoiceId, amount.toString());
+    } catch (error) {
+      await prisma.fundingSyndicate.update({
+        where: { id: syndicate.id },
+        data: { committedAmount: { decrement: amount } }
+      });
+      throw error;
+    }
+
+    const fundedAt = new Date();
+    const funding = await prisma.funding.create({
+      data: {
+        invoiceId: syndicate.invoiceId,
+        investorId: investor.id,
+        amount,
+        syndicateId: syndicate.id,
+        ownershipShare: amount / syndicate.targetAmount,
+        escrowId: syndicate.escrowId || escrowResult.escrowId,
+        transactionHash: escrowResult.transactionHash,
+        status: 'ACTIVE',
+        interestRate: DEFAULT_DISCOUNT_RATE,
+        expectedReturn: pricingService.expectedReturnFor(amount, DEFAULT_DISCOUNT_RATE, fundedAt, syndicate.invoice.dueDate),
+        fundedAt,
+      },
+      include: {
+        investor: {
+          select: { id: true, name: true, email: true, accountId: true }
+        }
+      }
+    });
+
+    await this.postTranchesToLedger([funding], async tranche => {
+      await ledgerService.recordFundingCommitment(tranche, escrowResult.transactionHash);
+      await ledgerService.recordEscrowLock(tranche, escrowResult.transactionHash);
+    });
+
+    try {
+      await documentEncryptionService.grantInvoiceAccess(syndicate.invoiceId, investor.id, DocumentKeyRole.INVESTOR);
+    } catch (error) {
+      logger.error({ fundingId: funding.id, error: error instanceof Error ? error.message : String(error) }, 'Failed to grant document access');
+    }
+
+    let updated = await prisma.fundingSyndicate.findUnique({ where: { id: syndicate.id } });
+    const committedAmount = roundHbar(updated?.committedAmount ?? syndicate.committedAmount + amount);
+
+    if (committedAmount >= syndicate.targetAmount) {
+      updated = await prisma.fundingSyndicate.update({
+        where: { id: syndicate.id },
+        data: { status: SyndicateStatus.FILLED, filledAt: new Date() }
+      });
+
+      await invoiceService.updateInvoiceStatus(
+        syndicate.invoiceId,
+        InvoiceStatus.FUNDED,
+        `Invoice fully funded via syndicate. Escrow ID: ${syndicate.escrowId}`,
+        undefined,
+        escrowResult.transactionHash
+      );
+    }
+
+    const hcsMessageId = await this.logToHcs(syndicate.invoice.topicId, {
+      eventType: 'TRANCHE_COMMITTED',
+      invoiceId: syndicate.invoiceId,
+      syndicateId: syndicate.id,
+      escrowId: syndicate.escrowId,
+      investorId: investor.id,
+      walletAccountId: investor.accountId,
+      amount,
+      committedAmount,
+      targetAmount: syndicate.targetAmount,
+      transactionHash: escrowResult.transactionHash,
+      timestamp: new Date().toISOString(),
+    });
+
+    await invoiceService.addInvoiceEvent(
+      syndicate.invoiceId,
+      InvoiceEventType.FUNDING_REQUESTED,
+      `Syndicate tranche committed. Amount: ${amount} HBAR (${committedAmount}/${syndicate.targetAmount} HBAR)`,
+      {
+        syndicateId: syndicate.id,
+        fundingId: funding.id,
+        investorId: investor.id,
+        walletAccountId: investor.accountId,
+        amount,
+        committedAmount,
+      },
+      hcsMessageId,
+      new Date(),
+      escrowResult.transactionHash
+    );
+
+    logger.info({ syndicateId: syndicate.id, fundingId: funding.id, amount, committedAmount }, 'Syndicate tranche committed');
+
+    return { funding, syndicate: updated };
+  }
+
+  /**
+   * Release a filled syndicate to the supplier.
+   * The platform fee and supplier payout are attributed to tranches pro-rata.
+   * @param syndicateId Syndicate ID
+   * @returns Release transaction and per-tranche allocations of the payout
+   */
+  async releaseSyndicate(syndicateId: string): Promise<SyndicateSettlement> {
+    const syndicate = await this.getSyndicateWithTranches(syndicateId);
+
+    if (syndicate.status !== SyndicateStatus.FILLED) {
+      throw new ConflictError('Only a filled syndicate can be released');
+    }
+
+    const result = await contractService.releaseSyndicate(syndicate.invoiceId);
+    const releasedAt = new Date();
+
+    const activeTranches = syndicate.tranches.filter(t => t.status === 'ACTIVE');
+    const payout = allocateProRata(parseFloat(result.supplierAmount), activeTranches);
+    const fees = allocateProRata(parseFloat(result.fee), activeTranches);
+
+    await prisma.funding.updateMany({
+      where: { syndicateId: syndicate.id, status: 'ACTIVE' },
+      data: {
+        status: 'RELEASED',
+        releasedAt,
+        releaseTransactionHash: result.transactionHash,
+      }
+    });
+
+    await this.postTranchesToLedger(activeTranches, tranche => ledgerService.recordRelease(tranche, result.transactionHash));
+
+    const updated = await prisma.fundingSyndicate.update({
+      where: { id: syndicate.id },
+      data: {
+        status: SyndicateStatus.RELEASED,
+        releasedAt,
+        releaseTransactionHash: result.transactionHash,
+      }
+    });
+
+    const allocations: TrancheAllocation[] = activeTranches.map(t => ({
+      fundingId: t.id,
+      investorId: t.investorId,
+      amount: payout[t.id],
+      fee: fees[t.id],
+      share: t.amount / syndicate.targetAmount,
+    }));
+
+    const hcsMessageId = await this.logToHcs(syndicate.invoice.topicId, {
+      eventType: 'SYNDICATE_RELEASED',
+      invoiceId: syndicate.invoiceId,
+      syndicateId: syndicate.id,
+      escrowId: syndicate.escrowId,
+      supplierAmount: parseFloat(result.supplierAmount),
+      fee: parseFloat(result.fee),
+      allocations,
+      transactionHash: result.transactionHash,
+      timestamp: new Date().toISOString(),
+    });
+
+    await invoiceService.addInvoiceEvent(
+      syndicate.invoiceId,
+      InvoiceEventType.PAYMENT_RECEIVED,
+      `Syndicate escrow released. Amount: ${result.supplierAmount} HBAR across ${allocations.length} tranches`,
+      { syndicateId: syndicate.id, escrowId: syndicate.escrowId, fee: parseFloat(result.fee), allocations },
+      hcsMessageId,
+      new Date(),
+      result.transactionHash
+    );
+
+    logger.info({ syndicateId: syndicate.id, transactionHash: result.transactionHash }, 'Syndicate escrow released');
+
+    return { syndicate: updated, transactionHash: result.transactionHash, allocations };
+  }
+
+  /**
+   * Refund every tranche of a syndicate to its investor and cancel the invoice
+   * @param syndicateId Syndicate ID
+   * @param reason Why the syndicate is refunded
+   * @returns Refund transaction and the amount returned per tranche
+   */
+  async refundSyndicate(syndicateId: string, reason: string = 'Refunded by administrator'): Promise<SyndicateSettlement> {
+    const syndicate = await this.getSyndicateWithTranches(syndicateId);
+
+    if (syndicate.status !== SyndicateStatus.OPEN && syndicate.status !== SyndicateStatus.FILLED) {
+      throw new ConflictError(`Syndicate is already ${syndicate.status}`);
+    }
+
+    const result = await contractService.refundSyndicate(syndicate.invoiceId);
+    const refundedAt = new Date();
+
+    const activeTranches = syndicate.tranches.filter(t => t.status === 'ACTIVE');
+    const committedAmount = activeTranches.reduce((sum, t) => sum + t.amount, 0);
+    const refunds = allocateProRata(committedAmount, activeTranches);
+
+    await prisma.funding.updateMany({
+      where: { syndicateId: syndicate.id, status: 'ACTIVE' },
+      data: {
+        status: 'REFUNDED',
+        refundedAt,
+        refundTransactionHash: result.transactionHash,
+      }
+    });
+
+    await this.postTranchesToLedger(activeTranches, tranche => ledgerService.recordRefund(tranche, result.transactionHash));
+
+    const updated = await prisma.fundingSyndicate.update({
+      where: { id: syndicate.id },
+      data: {
+        status: SyndicateStatus.REFUNDED,
+        refundedAt,
+        refundTransactionHash: result.transactionHash,
+      }
+    });
+
+    // The escrow keeps the invoice bound to this syndicate and an invoice has
+    // only one, so it can never be funded again; close it out
+    await invoiceService.updateInvoiceStatus(
+      syndicate.invoiceId,
+      InvoiceStatus.CANCELLED,
+      `Syndication failed: ${reason}`,
+      undefined,
+      result.transactionHash
+    );
+
+    const allocations: TrancheAllocation[] = activeTranches.map(t => ({
+      fundingId: t.id,
+      investorId: t.investorId,
+      amount: refunds[t.id],
+      share: t.amount / syndicate.targetAmount,
+    }));
+
+    const hcsMessageId = await this.logToHcs(syndicate.invoice.topicId, {
+      eventType: 'SYNDICATE_REFUNDED',
+      invoiceId: syndicate.invoiceId,
+      syndicateId: syndicate.id,
+      escrowId: syndicate.escrowId,
+      reason,
+      allocations,
+      transactionHash: result.transactionHash,
+      timestamp: new Date().toISOString(),
+    });
+
+    await invoiceService.addInvoiceEvent(
+      syndicate.invoiceId,
+      InvoiceEventType.FUNDING_REFUNDED,
+      `Syndicate refunded: ${reason}. Amount: ${roundHbar(committedAmount)} HBAR across ${allocations.length} tranches`,
+      { syndicateId: syndicate.id, escrowId: syndicate.escrowId, reason, allocations },
+      hcsMessageId,
+      new Date(),
+      result.transactionHash
+    );
+
+    logger.info({ syndicateId: syndicate.id, reason, transactionHash: result.transactionHash }, 'Syndicate refunded');
+
+    return { syndicate: updated, transactionHash: result.transactionHash, allocations };
+  }
+
+  /**
+   * Refund every open syndicate whose fill deadline has passed
+   * @param now Reference time (defaults to the current time)
+   * @returns Number of syndicates refunded
+   */
+  async refundExpiredSyndicates(now: Date = new Date()): Promise<number> {
+    const expired = await prisma.fundingSyndicate.findMany({
+      where: {
+        status: SyndicateStatus.OPEN,
+        fillDeadline: { lt: now }
+      },
+      select: { id: true }
+    });
+
+    let refunded = 0;
+    for (const { id } of expired) {
+      try {
+        await this.refundSyndicate(id, 'Fill deadline passed before the target was reached');
+        refunded++;
+      } catch (error) {
+        logger.error({ syndicateId: id, error: error instanceof Error ? error.message : String(error) }, 'Failed to refund expired syndicate');
+      }
+    }
+
+    return refunded;
+  }
+
+  /**
+   * Get a syndicate with its tranches
+   * @param syndicateId Syndicate ID
+   */
+  async getSyndicate(syndicateId: string) {
+    return this.getSyndicateWithTranches(syndicateId);
+  }
+
+  /**
+   * Get the syndicate for an invoice, if any
+   * @param invoiceId Invoice ID
+   */
+  async getSyndicateByInvoice(invoiceId: string) {
+    const syndicate = await prisma.fundingSyndicate.findUnique({ where: { invoiceId } });
+    if (!syndicate) {
+      throw new NotFoundError('Syndicate');
+    }
+    return this.getSyndicateWithTranches(syndicate.id);
+  }
+
+  /**
+   * Start the periodic refund of expired syndicates
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      logger.info('Syndicate expiry sweep is disabled');
+      return;
+    }
+
+    if (this.expiryInterval) {
+      logger.warn('Syndicate expiry sweep is already running');
+      return;
+    }
+
+    logger.info({ interval: this.config.interval }, 'Starting syndicate expiry sweep');
+
+    this.expiryInterval = setInterval(async () => {
+      if (this.isSweeping) {
+        return;
+      }
+      this.isSweeping = true;
+      try {
+        await this.refundExpiredSyndicates();
+      } catch (error) {
+        logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Syndicate expiry sweep failed');
+      } finally {
+        this.isSweeping = false;
+      }
+    }, this.config.interval);
+  }
+
+  /**
+   * Stop the periodic refund of expired syndicates
+   */
+  stop(): void {
+    if (this.expiryInterval) {
+      clearInterval(this.expiryInterval);
+      this.expiryInterval = null;
+      logger.info('Syndicate expiry sweep stopped');
+    }
+  }
+
+  private async getSyndicateWithTranches(syndicateId: string) {
+    const syndicate = await prisma.fundingSyndicate.findUnique({
+      where: { id: syndicateId },
+      include: {
+        invoice: true,
+        tranches: {
+          include: {
+            investor: {
+              select: { id: true, name: true, email: true, accountId: true }
+            }
+          },
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
+
+    if (!syndicate) {
+      throw new NotFoundError('Syndicate');
+    }
+
+    return {
+      ...syndicate,
+      remainingAmount: roundHbar(syndicate.targetAmount - syndicate.committedAmount),
+    };
+  }
+
+  /**
+   * Apply a ledger movement to each tranche. The contract has already moved
+   * the funds, so failures are logged and left for ledger reconciliation.
+   */
+  private async postTranchesToLedger(tranches: Funding[], post: (tranche: Funding) => Promise<unknown>): Promise<void> {
+    for (const tranche of tranches) {
+      try {
+        await post(tranche);
+      } catch (error) {
+        logger.error({ fundingId: tranche.id, error: error instanceof Error ? error.message : String(error) }, 'Failed to post tranche to ledger');
+      }
+    }
+  }
+
+  private async logToHcs(topicId: string | null, message: Record<string, any>): Promise<string | undefined> {
+    if (!topicId) {
+      return undefined;
+    }
+
+    try {
+      const hcsResult = await hederaService.submitTopicMessage(topicId, message);
+      return hcsResult.sequenceNumber;
+    } catch (error) {
+      logger.warn({ error: error instanceof Error ? error.message : String(error), eventType: message['eventType'] }, 'Failed to log syndicate event to HCS');
+      return undefined;
+    }
+  }
+}
+
+export const syndicationService = new SyndicationService();
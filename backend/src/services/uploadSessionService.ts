@@ -0,0 +1,533 @@
+import { createHash, randomUUID } from 'crypto';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { hederaFileService, HFS_CHUNK_SIZE } from './hederaFileService';
+import { documentEncryptionService, ADMIN_RECIPIENT } from './documentEncryptionService';
+import { fileRenewalService } from './fileRenewalService';
+import { documentStoreService, DocumentStorageBackend, StoredDocument } from './documentStoreService';
+import { outboxService } from './outboxService';
+import {
+  ALLOWED_MIME_TYPES,
+  BLOCKED_EXTENSIONS,
+  getFileSizeLimit,
+  matchesFileSignature,
+  sanitizeFilename
+} from '../middleware/fileUpload';
+import { ValidationError, NotFoundError, ConflictError, HederaError, ExternalServiceError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { Clock, systemClock } from '../utils/clock';
+
+const prisma = new PrismaClient();
+
+// Define enums locally since they're not exported from Prisma client
+export enum UploadSessionStatus {
+  OPEN = 'OPEN', // accepting parts
+  COMPLETING = 'COMPLETING', // parts assembled, content being written to its backend
+  COMPLETED = 'COMPLETED',
+  ABORTED = 'ABORTED'
+}
+
+export interface UploadSessionConfig {
+  partSize: number; // bytes per part; the last part may be shorter
+  sessionTtl: number; // milliseconds an unfinished session is kept
+  lockTimeout: number; // milliseconds before a completion that stopped responding can be resumed by another
+}
+
+export function loadUploadSessionConfig(): UploadSessionConfig {
+  return {
+    partSize: parseInt(process.env['UPLOAD_PART_SIZE'] || '524288'), // 512 KiB default
+    sessionTtl: parseInt(process.env['UPLOAD_SESSION_TTL'] || '86400000'), // 24 hours default
+    lockTimeout: parseInt(process.env['UPLOAD_LOCK_TIMEOUT'] || '300000'), // 5 minutes default
+  };
+}
+
+export interface StartUploadInput {
+  invoiceId: string;
+  supplierId: string;
+  documentType: 'invoice' | 'contract' | 'receipt' | 'photo' | 'customs_form' | 'delivery_receipt';
+  filename: string;
+  mimeType: string;
+  size: number;
+  sha256?: string;
+}
+
+/**
+ * An upload session as reported to the client, with what is left to send
+ */
+export interface UploadSessionView {
+  id: string;
+  invoiceId: string;
+  filename: string;
+  mimeType: string;
+  status: UploadSessionStatus;
+  totalSize: number;
+  partSize: number;
+  totalParts: number;
+  receivedParts: number[];
+  missingParts: number[];
+  fileId: string | null;
+  documentId: string | null;
+  lastError: string | null;
+  expiresAt: Date;
+  progress: {
+    receivedBytes: number;
+    appendedBytes: number;
+    storedBytes: number; // size of what goes to HFS, known once the parts are assembled
+    percent: number; // parts received and appended to HFS, weighted equally
+  };
+}
+
+/**
+ * Resumable document uploads. The client sends a document in numbered parts
+ * that are kept until all have arrived; completing the session assembles
+ * them, encrypts the result and appends it to HFS one chunk at a time, or
+ * stores it off-chain when it is large. A completion cut short by a failed
+ * append resumes from the size HFS reports for the file, so no chunk is
+ * written twice. Only one completion writes at a time: a session is locked
+ * while its content is written and overlapping calls are turned away.
+ */
+export class UploadSessionService {
+  private config: UploadSessionConfig;
+  private clock: Clock;
+
+  constructor(config: Partial<UploadSessionConfig> = {}, clock: Clock = systemClock) {
+    this.config = { ...loadUploadSessionConfig(), ...config };
+    this.clock = clock;
+  }
+
+  /**
+   * Open a session for a document of known size and type
+   */
+  async start(input: StartUploadInput): Promise<UploadSessionView> {
+    const filename = sanitizeFilename(input.filename);
+    if (BLOCKED_EXTENSIONS.includes(path.extname(input.filename).toLowerCase() as any)) {
+      throw new ValidationError('File type not allowed');
+    }
+    if (!ALLOWED_MIME_TYPES.includes(input.mimeType as any)) {
+      throw new ValidationError('File type not supported', { provided: input.mimeType, allowed: ALLOWED_MIME_TYPES });
+    }
+    const sizeLimit = getFileSizeLimit(input.mimeType);
+    if (!Number.isInteger(input.size) || input.size <= 0 || input.size > sizeLimit) {
+      throw new ValidationError(`File size must be between 1 and ${sizeLimit} bytes`);
+    }
+
+    const invoice = await prisma.invoice.findUnique({ where: { id: input.invoiceId }, select: { id: true } });
+    if (!invoice) {
+      throw new NotFoundError('Invoice');
+    }
+
+    // Sessions left unfinished are cleaned up as new ones open
+    await this.abortExpired().catch(error => {
+      logger.warn({ error: error instanceof Error ? error.message : String(error) }, 'Failed to abort expired upload sessions');
+    });
+
+    const now = this.clock.now();
+    const session = await prisma.uploadSession.create({
+      data: {
+        invoiceId: input.invoiceId,
+        supplierId: input.supplierId,
+        documentType: input.documentType,
+        filename,
+        mimeType: input.mimeType,
+        totalSize: input.size,
+        partSize: this.config.partSize,
+        totalParts: Math.ceil(input.size / this.config.partSize),
+        sha256: input.sha256?.toLowerCase(),
+        status: UploadSessionStatus.OPEN,
+        expiresAt: new Date(now.getTime() + this.config.sessionTtl),
+      }
+    });
+
+    logger.info({ uploadId: session.id, invoiceId: input.invoiceId, size: input.size, parts: session.totalParts }, 'Upload session started');
+    return this.toView(session, []);
+  }
+
+  /**
+   * Store one part; sending a part again replaces it
+   * @param partNumber 1-based position of the part in the document
+   */
+  async uploadPart(uploadId: string, partNumber: number, content: Buffer): Promise<UploadSessionView> {
+    const session = await this.getOpenSession(uploadId);
+
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > session.totalParts) {
+      throw new ValidationError(`Part number must be between 1 and ${session.totalParts}`);
+    }
+    const expectedSize = partNumber < session.totalParts
+      ? session.partSize
+      : session.totalSize - session.partSize * (session.totalParts - 1);
+    if (content.length !== expectedSize) {
+      throw new ValidationError(`Part ${partNumber} must be ${expectedSize} bytes, got ${content.length}`);
+    }
+
+    const sha256 = createHash('sha256').update(content).digest('hex');
+    await prisma.uploadPart.upsert({
+      where: { sessionId_partNumber: { sessionId: uploadId, partNumber } },
+      create: { sessionId: uploadId, partNumber, size: content.length, sha256, content },
+      update: { size: content.length, sha256, content },
+    });
+
+    return this.getUpload(uploadId);
+  }
+
+  /**
+   * Current state of a session, to resume sending parts or completing it
+   */
+  async getUpload(uploadId: string): Promise<UploadSessionView> {
+    const session = await prisma.uploadSession.findUnique({
+      where: { id: uploadId },
+      include: { parts: { select: { partNumber: true, size: true }, orderBy: { partNumber: 'asc' } } }
+    });
+    if (!session) {
+      throw new NotFoundError('Upload session');
+    }
+
+    return this.toView(session, session.parts);
+  }
+
+  /**
+   * Assemble the parts and write the document to its backend. Calling this
+   * again after a failure resumes an HFS upload where it stopped.
+   */
+  async complete(uploadId: string): Promise<UploadSessionView> {
+    const session = await prisma.uploadSession.findUnique({ where: { id: uploadId } });
+    if (!session) {
+      throw new NotFoundError('Upload session');
+    }
+    if (session.status === UploadSessionStatus.COMPLETED) {
+      return this.getUpload(uploadId);
+    }
+    if (session.status === UploadSessionStatus.ABORTED) {
+      throw new ConflictError('Upload session was aborted');
+    }
+    const assembled = session.status === UploadSessionStatus.OPEN ? await this.assemble(session) : await this.claimResume(session);
+    const storedContent = Buffer.from(assembled.storedContent!);
+    const backend = documentStoreService.backendFor(storedContent.length);
+
+    let uploaded;
+    let stored: StoredDocument | null = null;
+    try {
+      if (backend === DocumentStorageBackend.HFS) {
+        uploaded = await this.appendToHfs(assembled);
+      } else {
+        // Off-chain stores are content-addressed, so a retry writes the same object again
+        uploaded = assembled;
+        stored = await documentStoreService.storeFor(backend).put(storedContent, {
+          filename: assembled.filename,
+          memo: `YieldHarvest ${assembled.documentType} - Invoice: ${assembled.invoiceId}`
+        });
+      }
+    } catch (error) {
+      // Another completion resumed the upload and now holds the lock
+      if (error instanceof ConflictError) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      await prisma.uploadSession.update({ where: { id: uploadId }, data: { lastError: message, lockedAt: null } });
+      logger.error({ uploadId, backend, fileId: assembled.fileId, error: message }, 'Document upload interrupted');
+      const retry = `complete the upload again to resume: ${message}`;
+      throw backend === DocumentStorageBackend.HFS
+        ? new HederaError(`HFS upload interrupted; ${retry}`)
+        : new ExternalServiceError(backend, `upload interrupted; ${retry}`);
+    }
+
+    await this.createDocument(uploaded, stored);
+    return this.getUpload(uploadId);
+  }
+
+  /**
+   * Give up on a session, deleting its parts and any partial HFS file
+   */
+  async abort(uploadId: string): Promise<UploadSessionView> {
+    const session = await prisma.uploadSession.findUnique({ where: { id: uploadId } });
+    if (!session) {
+      throw new NotFoundError('Upload session');
+    }
+    if (session.status === UploadSessionStatus.COMPLETED) {
+      throw new ConflictError('Upload session is already complete');
+    }
+
+    if (session.status !== UploadSessionStatus.ABORTED) {
+      await this.discard(session);
+    }
+    return this.getUpload(uploadId);
+  }
+
+  /**
+   * Abort sessions left unfinished past their expiry
+   * @returns Number of sessions aborted
+   */
+  async abortExpired(): Promise<number> {
+    const now = this.clock.now();
+    const expired = await prisma.uploadSession.findMany({
+      where: {
+        expiresAt: { lt: now },
+        // A completion still writing keeps its session until its lock goes stale
+        OR: [
+          { status: UploadSessionStatus.OPEN },
+          { status: UploadSessionStatus.COMPLETING, ...this.unlocked(now) }
+        ]
+      }
+    });
+    for (const session of expired) {
+      await this.discard(session);
+    }
+
+    if (expired.length > 0) {
+      logger.info({ aborted: expired.length }, 'Expired upload sessions aborted');
+    }
+    return expired.length;
+  }
+
+  private async getOpenSession(uploadId: string) {
+    const session = await prisma.uploadSession.findUnique({ where: { id: uploadId } });
+    if (!session) {
+      throw new NotFoundError('Upload session');
+    }
+    if (session.status !== UploadSessionStatus.OPEN) {
+      throw new ConflictError(`Upload session is ${session.status.toLowerCase()} and takes no more parts`);
+    }
+    if (session.expiresAt <= this.clock.now()) {
+      throw new ConflictError('Upload session has expired');
+    }
+    return session;
+  }
+
+  /**
+   * Join the parts, check them against the declared document and seal the
+   * result, which is kept so a resumed upload appends the same bytes
+   */
+  private async assemble(session: any) {
+    const parts = await prisma.uploadPart.findMany({
+      where: { sessionId: session.id },
+      orderBy: { partNumber: 'asc' }
+    });
+    const received = new Set(parts.map(part => part.partNumber));
+    const missing = this.partNumbers(session).filter(partNumber => !received.has(partNumber));
+    if (missing.length > 0) {
+      throw new ValidationError('Upload is missing parts', { missingParts: missing });
+    }
+
+    const content = Buffer.concat(parts.map(part => Buffer.from(part.content)));
+    const sha256 = createHash('sha256').update(content).digest('hex');
+    if (session.sha256 && sha256 !== session.sha256) {
+      throw new ValidationError('Uploaded content does not match the declared SHA-256', { expected: session.sha256, actual: sha256 });
+    }
+    if (!matchesFileSignature(content, session.mimeType)) {
+      throw new ValidationError('File content does not match declared type');
+    }
+
+    const sealed = documentEncryptionService.enabled ? documentEncryptionService.encrypt(content) : null;
+
+    const claimed = await prisma.uploadSession.updateMany({
+      where: { id: session.id, status: UploadSessionStatus.OPEN },
+      data: {
+        status: UploadSessionStatus.COMPLETING,
+        lockedAt: this.clock.now(),
+        sha256,
+        storedContent: sealed?.ciphertext ?? content,
+        wrappedDataKey: sealed ? documentEncryptionService.wrapKey(sealed.dataKey, `upload:${session.id}`, ADMIN_RECIPIENT) : null,
+      }
+    });
+    if (claimed.count === 0) {
+      throw new ConflictError('Upload session is already being completed');
+    }
+    await prisma.uploadPart.deleteMany({ where: { sessionId: session.id } });
+
+    return prisma.uploadSession.findUniqueOrThrow({ where: { id: session.id } });
+  }
+
+  /**
+   * Lock a session left COMPLETING by an interrupted completion, so only one
+   * call resumes writing its content
+   */
+  private async claimResume(session: any) {
+    const now = this.clock.now();
+    const claimed = await prisma.uploadSession.updateMany({
+      where: { id: session.id, status: UploadSessionStatus.COMPLETING, ...this.unlocked(now) },
+      data: { lockedAt: now }
+    });
+    if (claimed.count === 0) {
+      throw new ConflictError('Upload session is already being completed');
+    }
+
+    return prisma.uploadSession.findUniqueOrThrow({ where: { id: session.id } });
+  }
+
+  /**
+   * Match sessions no completion is writing: never locked, or locked by one
+   * that stopped responding
+   */
+  private unlocked(now: Date) {
+    return {
+      OR: [{ lockedAt: null }, { lockedAt: { lt: new Date(now.getTime() - this.config.lockTimeout) } }]
+    };
+  }
+
+  /**
+   * Record append progress and renew the lock in one conditional write, so a
+   * long upload keeps its lock and stops if another completion has taken it
+   * @returns The renewed lock time
+   */
+  private async recordProgress(session: any, lockedAt: Date, data: { fileId?: string; appendedBytes: number }): Promise<Date> {
+    const renewedAt = this.clock.now();
+    const updated = await prisma.uploadSession.updateMany({
+      where: { id: session.id, status: UploadSessionStatus.COMPLETING, lockedAt },
+      data: { ...data, lockedAt: renewedAt }
+    });
+    if (updated.count === 0) {
+      throw new ConflictError('Upload session was resumed by another completion');
+    }
+    return renewedAt;
+  }
+
+  /**
+   * Create the HFS file if needed and append what it does not hold yet
+   */
+  private async appendToHfs(session: any) {
+    const stored = Buffer.from(session.storedContent);
+    let { fileId, appendedBytes, lockedAt } = session;
+
+    if (!fileId) {
+      const firstChunk = stored.subarray(0, HFS_CHUNK_SIZE);
+      const created = await hederaFileService.createFile(firstChunk, `YieldHarvest ${session.documentType} - Invoice: ${session.invoiceId}`);
+      fileId = created.fileId;
+      appendedBytes = firstChunk.length;
+      lockedAt = await this.recordProgress(session, lockedAt, { fileId, appendedBytes });
+    } else {
+      // The network, not our bookkeeping, says how much was appended before the failure
+      const fileInfo = await hederaFileService.getFileInfo(fileId);
+      if (!fileInfo || fileInfo.deleted) {
+        throw new Error(`HFS file ${fileId} is not available to resume`);
+      }
+      if (fileInfo.size > stored.length) {
+        throw new Error(`HFS file ${fileId} holds more bytes than the upload`);
+      }
+      appendedBytes = fileInfo.size;
+    }
+
+    while (appendedBytes < stored.length) {
+      const chunk = stored.subarray(appendedBytes, appendedBytes + HFS_CHUNK_SIZE);
+      await hederaFileService.appendToFile(fileId, chunk);
+      appendedBytes += chunk.length;
+      lockedAt = await this.recordProgress(session, lockedAt, { appendedBytes });
+    }
+
+    return { ...session, fileId, appendedBytes, lockedAt };
+  }
+
+  /**
+   * Record the document written to HFS, or to the off-chain store, with its
+   * keys and any HCS anchor
+   */
+  private async createDocument(session: any, offChain: StoredDocument | null) {
+    const stored = Buffer.from(session.storedContent);
+    const encrypted = !!session.wrappedDataKey;
+    const now = this.clock.now();
+
+    const document = await prisma.$transaction(async (tx) => {
+      const document = await tx.document.create({
+        data: {
+          id: randomUUID(),
+          invoiceId: session.invoiceId,
+          supplierId: session.supplierId,
+          documentType: session.documentType,
+          filename: session.filename,
+          storageBackend: offChain?.backend ?? DocumentStorageBackend.HFS,
+          storageUri: offChain?.uri ?? `hfs://${session.fileId}`,
+          fileId: offChain ? null : session.fileId,
+          hash: session.sha256,
+          size: session.totalSize,
+          mimeType: session.mimeType,
+          encrypted,
+          ciphertextHash: encrypted ? createHash('sha256').update(stored).digest('hex') : null,
+          retainUntil: fileRenewalService.retentionEnd(now),
+          createdAt: now,
+          updatedAt: now
+        }
+      });
+
+      if (encrypted) {
+        const dataKey = documentEncryptionService.unwrapKey(session.wrappedDataKey, `upload:${session.id}`, ADMIN_RECIPIENT);
+        await documentEncryptionService.storeKeys(documentStoreService.keyIdOf(document), session.invoiceId, dataKey, tx);
+      }
+      await documentStoreService.anchor(document, tx);
+
+      await tx.uploadSession.update({
+        where: { id: session.id },
+        data: {
+          status: UploadSessionStatus.COMPLETED,
+          documentId: document.id,
+          storedContent: null,
+          wrappedDataKey: null,
+          lastError: null,
+          lockedAt: null
+        }
+      });
+      return document;
+    });
+    await outboxService.dispatchAggregate(document.id);
+
+    logger.info({ uploadId: session.id, uri: document.storageUri, size: session.totalSize }, 'Resumable upload completed');
+  }
+
+  private async discard(session: any) {
+    await prisma.$transaction(async (tx) => {
+      await tx.uploadPart.deleteMany({ where: { sessionId: session.id } });
+      await tx.uploadSession.update({
+        where: { id: session.id },
+        data: { status: UploadSessionStatus.ABORTED, storedContent: null, wrappedDataKey: null }
+      });
+    });
+
+    if (session.fileId) {
+      const deleted = await hederaFileService.deleteFile(session.fileId);
+      if (!deleted.success) {
+        logger.warn({ uploadId: session.id, fileId: session.fileId, error: deleted.error }, 'Failed to delete partial HFS file');
+      }
+    }
+    logger.info({ uploadId: session.id }, 'Upload session aborted');
+  }
+
+  private partNumbers(session: { totalParts: number }): number[] {
+    return Array.from({ length: session.totalParts }, (_, index) => index + 1);
+  }
+
+  private toView(session: any, parts: { partNumber: number; size: number }[]): UploadSessionView {
+    const completing = session.status !== UploadSessionStatus.OPEN;
+    const receivedParts = completing && session.status !== UploadSessionStatus.ABORTED
+      ? this.partNumbers(session)
+      : parts.map(part => part.partNumber);
+    const received = new Set(receivedParts);
+    const receivedBytes = completing && session.status !== UploadSessionStatus.ABORTED
+      ? session.totalSize
+      : parts.reduce((sum, part) => sum + part.size, 0);
+    const storedBytes = session.storedContent ? session.storedContent.length : session.totalSize;
+    const appendedBytes = session.status === UploadSessionStatus.COMPLETED ? storedBytes : session.appendedBytes;
+
+    return {
+      id: session.id,
+      invoiceId: session.invoiceId,
+      filename: session.filename,
+      mimeType: session.mimeType,
+      status: session.status,
+      totalSize: session.totalSize,
+      partSize: session.partSize,
+      totalParts: session.totalParts,
+      receivedParts,
+      missingParts: this.partNumbers(session).filter(partNumber => !received.has(partNumber)),
+      fileId: session.fileId ?? null,
+      documentId: session.documentId ?? null,
+      lastError: session.lastError ?? null,
+      expiresAt: session.expiresAt,
+      progress: {
+        receivedBytes,
+        appendedBytes,
+        storedBytes,
+        percent: Math.floor(50 * receivedBytes / session.totalSize + 50 * appendedBytes / storedBytes),
+      },
+    };
+  }
+}
+
+// Export singleton instance
+export const uploadSessionService = new UploadSessionService();
@@ -1,30 +1,73 @@
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import websocket from '@fastify/websocket';
 import { WebSocket } from 'ws';
+import { randomUUID } from 'crypto';
+import { PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger';
+import { AuthUser, verifyAccessToken, getUserPermissions, hasPermission } from '../middleware/auth';
+import { PubSubBus, pubSub } from './pubSubService';
+
+const prisma = new PrismaClient();
+
+// Channel every update is recorded on; only roles that can read all invoices may follow it
+const ALL_CHANNEL = 'all';
+
+// Close code sent when the handshake token is missing or invalid
+const WS_UNAUTHORIZED = 4401;
+
+// Bus channel every replica receives broadcasts on
+export const WS_EVENTS_CHANNEL = 'ws:events';
 
 interface WebSocketClient {
   id: string;
   ws: WebSocket;
+  user: AuthUser;
   subscriptions: Set<string>;
   lastPing: number;
 }
 
+interface ReplayConfig {
+  bufferSize: number; // events kept per channel
+  maxChannels: number; // channels kept, least recently updated dropped first
+}
+
+interface ChannelEvent {
+  seq: number; // order across channels, so a replay of several channels keeps broadcast order
+  message: MilestoneUpdate & { eventIds: Record<string, number> };
+}
+
 interface MilestoneUpdate {
-  type: 'milestone_created' | 'milestone_updated' | 'deal_progress' | 'hcs_message';
+  type: 'milestone_created' | 'milestone_updated' | 'deal_progress' | 'hcs_message' | 'escrow_updated';
   data: any;
   timestamp: string;
   dealId?: string;
   invoiceId?: string;
 }
 
+export function loadReplayConfig(): ReplayConfig {
+  return {
+    bufferSize: parseInt(process.env.WS_REPLAY_BUFFER_SIZE || '200'),
+    maxChannels: parseInt(process.env.WS_REPLAY_MAX_CHANNELS || '1000'),
+  };
+}
+
 class WebSocketService {
   private clients: Map<string, WebSocketClient> = new Map();
   private pingInterval: NodeJS.Timeout | null = null;
   private cleanupInterval: NodeJS.Timeout | null = null;
   private initialized: boolean = false;
-
-  constructor() {
+  // Event ids restart with the process, so clients resuming against another
+  // server id are told their cursors are stale
+  private readonly serverId: string = randomUUID();
+  private readonly replayConfig: ReplayConfig;
+  private channelEventIds: Map<string, number> = new Map();
+  private replayBuffers: Map<string, ChannelEvent[]> = new Map();
+  private eventSeq: number = 0;
+  private unsubscribeBus: (() => Promise<void>) | null = null;
+
+  constructor(replayConfig: ReplayConfig = loadReplayConfig(), private bus: PubSubBus = pubSub) {
     // Don't start intervals in constructor to avoid issues in tests
+    this.replayConfig = replayConfig;
   }
 
   /**
@@ -32,23 +75,37 @@ class WebSocketService {
    */
   async initialize(fastify: FastifyInstance) {
     try {
-      await fastify.register(require('@fastify/websocket'));
+      await fastify.register(websocket);
       
       // Start intervals only when actually initializing
       if (!this.initialized) {
         this.startPingInterval();
         this.startCleanupInterval();
+        // Updates published on any replica are delivered to this replica's clients
+        this.unsubscribeBus = await this.bus.subscribe(WS_EVENTS_CHANNEL, update => this.deliver(update));
         this.initialized = true;
       }
       
       const self = this;
       
       // WebSocket route for real-time updates
-      fastify.get('/ws', { websocket: true }, (connection, req) => {
+      fastify.get('/ws', { websocket: true }, (socket: WebSocket, req: FastifyRequest) => {
+        const user = self.authenticate(self.getHandshakeToken(req));
+        if (!user) {
+          socket.send(JSON.stringify({
+            type: 'error',
+            data: { code: 'AUTH_INVALID', message: 'The provided token is invalid or expired' },
+            timestamp: new Date().toISOString()
+          }));
+          socket.close(WS_UNAUTHORIZED, 'Unauthorized');
+          return;
+        }
+
         const clientId = self.generateClientId();
         const client: WebSocketClient = {
           id: clientId,
-          ws: connection.socket as unknown as WebSocket,
+          ws: socket,
+          user,
           subscriptions: new Set(),
           lastPing: Date.now()
         };
@@ -59,15 +116,15 @@ class WebSocketService {
         // Send welcome message
         self.sendToClient(clientId, {
           type: 'connection',
-          data: { clientId, status: 'connected' },
+          data: { clientId, serverId: self.serverId, status: 'connected' },
           timestamp: new Date().toISOString()
         });
 
         // Handle incoming messages
-        connection.socket.on('message', (message: any) => {
+        socket.on('message', async (message: any) => {
           try {
             const data = JSON.parse(message.toString());
-            self.handleClientMessage(clientId, data);
+            await self.handleClientMessage(clientId, data);
           } catch (error) {
             logger.error({
               msg: 'Invalid WebSocket message',
@@ -77,13 +134,13 @@ class WebSocketService {
         });
 
         // Handle client disconnect
-        connection.socket.on('close', () => {
+        socket.on('close', () => {
           self.clients.delete(clientId);
           logger.info(`WebSocket client disconnected: ${clientId}`);
         });
 
         // Handle errors
-        connection.socket.on('error', (error: any) => {
+        socket.on('error', (error: any) => {
           logger.error(`WebSocket error for client ${clientId}:`, error);
           self.clients.delete(clientId);
         });
@@ -99,34 +156,97 @@ class WebSocketService {
     }
   }
 
+  /**
+   * Read the access token from the `token` query parameter, which browsers
+   * can set on a WebSocket URL, or from a Bearer authorization header
+   */
+  private getHandshakeToken(req: FastifyRequest): string | undefined {
+    const query = req.query as { token?: string } | undefined;
+    if (query?.token) {
+      return query.token;
+    }
+
+    const authHeader = req.headers.authorization;
+    return authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : undefined;
+  }
+
+  /**
+   * Verify a handshake token the same way as the `authenticate` middleware
+   */
+  authenticate(token?: string): AuthUser | null {
+    if (!token) {
+      return null;
+    }
+
+    try {
+      const payload = verifyAccessToken(token);
+      return {
+        id: payload.userId,
+        accountId: payload.accountId,
+        role: payload.role,
+        email: payload.email,
+        permissions: getUserPermissions(payload.role),
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Whether a user may follow a channel. Deal channels and the `all` channel
+   * span invoices of many suppliers, so they need read access to every
+   * invoice; an invoice channel is also open to the invoice's supplier.
+   */
+  async canSubscribe(user: AuthUser, channel: string): Promise<boolean> {
+    if (hasPermission(user.permissions, 'invoice:read:all')) {
+      return true;
+    }
+
+    if (!channel.startsWith('invoice:')) {
+      return false;
+    }
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: channel.substring('invoice:'.length) },
+      select: { supplierId: true }
+    });
+    return invoice?.supplierId === user.id;
+  }
+
   /**
    * Handle incoming client messages
    */
-  private handleClientMessage(clientId: string, message: any) {
+  private async handleClientMessage(clientId: string, message: any) {
     const client = this.clients.get(clientId);
     if (!client) return;
 
     switch (message.type) {
       case 'subscribe':
-        if (message.dealId) {
-          client.subscriptions.add(`deal:${message.dealId}`);
-          logger.info(`Client ${clientId} subscribed to deal:${message.dealId}`);
-        }
-        if (message.invoiceId) {
-          client.subscriptions.add(`invoice:${message.invoiceId}`);
-          logger.info(`Client ${clientId} subscribed to invoice:${message.invoiceId}`);
+        for (const channel of this.getMessageChannels(message)) {
+          if (await this.canSubscribe(client.user, channel)) {
+            client.subscriptions.add(channel);
+            logger.info(`Client ${clientId} subscribed to ${channel}`);
+            this.sendToClient(clientId, {
+              type: 'subscribed',
+              data: { channel, lastEventId: this.channelEventIds.get(channel) || 0 },
+              timestamp: new Date().toISOString()
+            });
+          } else {
+            this.sendForbidden(clientId, channel);
+          }
         }
         break;
 
       case 'unsubscribe':
-        if (message.dealId) {
-          client.subscriptions.delete(`deal:${message.dealId}`);
-        }
-        if (message.invoiceId) {
-          client.subscriptions.delete(`invoice:${message.invoiceId}`);
+        for (const channel of this.getMessageChannels(message)) {
+          client.subscriptions.delete(channel);
         }
         break;
 
+      case 'resume':
+        await this.resume(client, message.serverId, message.cursors || {});
+        break;
+
       case 'ping':
         client.lastPing = Date.now();
         this.sendToClient(clientId, {
@@ -142,13 +262,111 @@ class WebSocketService {
   }
 
   /**
-   * Broadcast milestone update to subscribed clients
+   * Channels named by a subscribe/unsubscribe message
+   */
+  private getMessageChannels(message: any): string[] {
+    const channels: string[] = [];
+    if (message.dealId) {
+      channels.push(`deal:${message.dealId}`);
+    }
+    if (message.invoiceId) {
+      channels.push(`invoice:${message.invoiceId}`);
+    }
+    if (message.channel === ALL_CHANNEL) {
+      channels.push(ALL_CHANNEL);
+    }
+    return channels;
+  }
+
+  /**
+   * Subscribe a reconnecting client to the channels of its cursors and
+   * replay the buffered events it missed, oldest first. A channel whose
+   * missed events are no longer all buffered, or whose cursor belongs to
+   * another server id, is reported as a gap so the client reloads it.
+   */
+  private async resume(client: WebSocketClient, serverId: string | undefined, cursors: Record<string, number>) {
+    const sameServer = !serverId || serverId === this.serverId;
+    const allowed: Array<[string, number]> = [];
+
+    for (const [channel, cursor] of Object.entries(cursors)) {
+      if (await this.canSubscribe(client.user, channel)) {
+        allowed.push([channel, sameServer ? Number(cursor) || 0 : 0]);
+      } else {
+        this.sendForbidden(client.id, channel);
+      }
+    }
+
+    // Nothing is awaited from here on, so no live broadcast can slip in
+    // between the replay and the subscriptions it hands over to
+    const replay = new Map<number, ChannelEvent>();
+    const channels: Record<string, number> = {};
+    const gaps: string[] = [];
+
+    for (const [channel, cursor] of allowed) {
+      const lastEventId = this.channelEventIds.get(channel) || 0;
+      const buffer = this.replayBuffers.get(channel) || [];
+      const oldestBuffered = buffer.length > 0 ? buffer[0].message.eventIds[channel] : lastEventId + 1;
+
+      if (!sameServer || cursor > lastEventId || oldestBuffered > cursor + 1) {
+        gaps.push(channel);
+      }
+      for (const event of buffer) {
+        if (event.message.eventIds[channel] > cursor) {
+          replay.set(event.seq, event);
+        }
+      }
+
+      channels[channel] = lastEventId;
+      client.subscriptions.add(channel);
+    }
+
+    const events = [...replay.values()].sort((a, b) => a.seq - b.seq);
+    for (const event of events) {
+      this.sendToClient(client.id, { ...event.message, replayed: true });
+    }
+
+    this.sendToClient(client.id, {
+      type: 'resumed',
+      data: { serverId: this.serverId, channels, gaps, replayed: events.length },
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Tell a client it may not follow a channel
+   */
+  private sendForbidden(clientId: string, channel: string) {
+    logger.warn(`Client ${clientId} is not allowed to subscribe to ${channel}`);
+    this.sendToClient(clientId, {
+      type: 'error',
+      data: { code: 'FORBIDDEN', channel, message: 'Not allowed to subscribe to this channel' },
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Broadcast milestone update to subscribed clients on every replica
    */
   broadcastMilestoneUpdate(update: MilestoneUpdate) {
-    const relevantClients = this.getRelevantClients(update);
+    this.bus.publish(WS_EVENTS_CHANNEL, update).catch(error => {
+      logger.error({
+        msg: `Failed to publish ${update.type}`,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+  }
+
+  /**
+   * Number an update received from the bus and send it to this replica's
+   * subscribed clients. Replicas number the bus stream independently, so
+   * resuming on another replica reports a gap.
+   */
+  private deliver(update: MilestoneUpdate) {
+    const event = this.recordEvent(update);
+    const relevantClients = this.getRelevantClients(event);
     
     relevantClients.forEach(client => {
-      this.sendToClient(client.id, update);
+      this.sendToClient(client.id, event.message);
     });
 
     logger.info(`Broadcasted ${update.type} to ${relevantClients.length} clients`);
@@ -177,19 +395,57 @@ class WebSocketService {
   }
 
   /**
-   * Get clients relevant to an update
+   * Give an update the next event id of each of its channels and keep it in
+   * their replay buffers
    */
-  private getRelevantClients(update: MilestoneUpdate): WebSocketClient[] {
+  private recordEvent(update: MilestoneUpdate): ChannelEvent {
+    const channels = [ALL_CHANNEL];
+    if (update.dealId) {
+      channels.push(`deal:${update.dealId}`);
+    }
+    if (update.invoiceId) {
+      channels.push(`invoice:${update.invoiceId}`);
+    }
+
+    const eventIds: Record<string, number> = {};
+    for (const channel of channels) {
+      eventIds[channel] = (this.channelEventIds.get(channel) || 0) + 1;
+      this.channelEventIds.set(channel, eventIds[channel]);
+    }
+
+    const event: ChannelEvent = { seq: ++this.eventSeq, message: { ...update, eventIds } };
+
+    for (const channel of channels) {
+      const buffer = this.replayBuffers.get(channel) || [];
+      buffer.push(event);
+      if (buffer.length > this.replayConfig.bufferSize) {
+        buffer.shift();
+      }
+      // Re-insert so the map stays ordered by last update
+      this.replayBuffers.delete(channel);
+      this.replayBuffers.set(channel, buffer);
+    }
+
+    while (this.replayBuffers.size > this.replayConfig.maxChannels) {
+      const stalest = this.replayBuffers.keys().next().value as string;
+      this.replayBuffers.delete(stalest);
+    }
+
+    return event;
+  }
+
+  /**
+   * Get clients relevant to an update: subscribers of any of its channels,
+   * plus clients with no subscriptions that may read every invoice
+   */
+  private getRelevantClients(event: ChannelEvent): WebSocketClient[] {
     const relevantClients: WebSocketClient[] = [];
+    const channels = Object.keys(event.message.eventIds);
 
     this.clients.forEach(client => {
-      // Check if client is subscribed to this update
-      if (update.dealId && client.subscriptions.has(`deal:${update.dealId}`)) {
+      if (channels.some(channel => client.subscriptions.has(channel))) {
         relevantClients.push(client);
-      } else if (update.invoiceId && client.subscriptions.has(`invoice:${update.invoiceId}`)) {
-        relevantClients.push(client);
-      } else if (client.subscriptions.size === 0) {
-        // Send to clients with no specific subscriptions (global updates)
+      } else if (client.subscriptions.size === 0 && hasPermission(client.user.permissions, 'invoice:read:all')) {
         relevantClients.push(client);
       }
     });
@@ -286,6 +542,11 @@ class WebSocketService {
       }
     });
     this.clients.clear();
+
+    if (this.unsubscribeBus) {
+      this.unsubscribeBus().catch(() => undefined);
+      this.unsubscribeBus = null;
+    }
     
     this.initialized = false;
 
@@ -0,0 +1,363 @@
+import { PrismaClient, WorkflowTemplate } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { ValidationError, NotFoundError, ConflictError } from '../middleware/errorHandler';
+
+const prisma = new PrismaClient();
+
+// Built-in milestone types used by the default workflow
+export enum MilestoneType {
+  CREATED_ISSUED = 'CREATED/ISSUED',
+  SHIPPED = 'SHIPPED',
+  CUSTOMS_CLEARED = 'CUSTOMS_CLEARED',
+  DELIVERED = 'DELIVERED',
+  FUNDED = 'FUNDED',
+  PAID = 'PAID'
+}
+
+// Milestone fields that a workflow step can require as evidence
+export const EVIDENCE_FIELDS = ['fileHash', 'documentUrl', 'location', 'notes'] as const;
+export type EvidenceField = typeof EVIDENCE_FIELDS[number];
+
+// Attempts at picking the next version number when concurrent creates collide
+const MAX_CREATE_ATTEMPTS = 3;
+
+export interface WorkflowDefinition {
+  id?: string;
+  name: string;
+  version: number;
+  initialState: string;
+  states: string[];
+  transitions: Record<string, string[]>;
+  requiredEvidence: Record<string, EvidenceField[]>;
+}
+
+export interface WorkflowTemplateRecord extends WorkflowDefinition {
+  id: string;
+  description?: string;
+  isActive: boolean;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+export interface CreateWorkflowTemplateInput {
+  name: string;
+  description?: string;
+  initialState: string;
+  states: string[];
+  transitions: Record<string, string[]>;
+  requiredEvidence?: Record<string, EvidenceField[]>;
+  createdBy?: string;
+}
+
+export interface AssignWorkflowInput {
+  templateId: string;
+  invoiceId?: string;
+  supplierId?: string;
+}
+
+/**
+ * Default workflow - the original export flow
+ * (CREATED/ISSUED → SHIPPED → CUSTOMS_CLEARED → DELIVERED → FUNDED → PAID)
+ * Used whenever no template is assigned to the invoice or its supplier
+ */
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  name: 'default',
+  version: 1,
+  initialState: MilestoneType.CREATED_ISSUED,
+  states: Object.values(MilestoneType),
+  transitions: {
+    [MilestoneType.CREATED_ISSUED]: [MilestoneType.SHIPPED, MilestoneType.FUNDED],
+    [MilestoneType.SHIPPED]: [MilestoneType.CUSTOMS_CLEARED],
+    [MilestoneType.CUSTOMS_CLEARED]: [MilestoneType.DELIVERED],
+    [MilestoneType.DELIVERED]: [MilestoneType.FUNDED, MilestoneType.PAID],
+    [MilestoneType.FUNDED]: [MilestoneType.PAID],
+    [MilestoneType.PAID]: [] // Terminal state
+  },
+  requiredEvidence: {}
+};
+
+/**
+ * Get the milestones allowed after the current one
+ * @param workflow - Workflow definition
+ * @param currentState - Current milestone, or undefined if none recorded yet
+ * @returns string[]
+ */
+export function getNextStates(workflow: WorkflowDefinition, currentState?: string): string[] {
+  if (!currentState) {
+    return [workflow.initialState];
+  }
+  return workflow.transitions[currentState] || [];
+}
+
+/**
+ * Compute progress percentage for the recorded milestones
+ * A deal that reached a terminal state is complete even if optional steps were skipped
+ * @param workflow - Workflow definition
+ * @param completedStates - Milestones recorded so far, in order
+ * @returns number - Progress percentage (0-100)
+ */
+export function computeProgress(workflow: WorkflowDefinition, completedStates: string[]): number {
+  if (completedStates.length === 0 || workflow.states.length === 0) {
+    return 0;
+  }
+
+  const lastState = completedStates[completedStates.length - 1];
+  if (getNextStates(workflow, lastState).length === 0) {
+    return 100;
+  }
+
+  const completed = new Set(completedStates.filter(state => workflow.states.includes(state))).size;
+  return Math.min(100, Math.round((completed / workflow.states.length) * 100));
+}
+
+/**
+ * List the evidence fields required by a step that are missing from the milestone data
+ * @param workflow - Workflow definition
+ * @param state - Milestone being recorded
+ * @param data - Milestone evidence fields
+ * @returns EvidenceField[]
+ */
+export function getMissingEvidence(
+  workflow: WorkflowDefinition,
+  state: string,
+  data: Partial<Record<EvidenceField, string | undefined>>
+): EvidenceField[] {
+  const required = workflow.requiredEvidence[state] || [];
+  return required.filter(field => !data[field]);
+}
+
+/**
+ * Validate the shape of a workflow definition
+ * @throws ValidationError if states, transitions or evidence are inconsistent
+ */
+export function validateWorkflowDefinition(input: CreateWorkflowTemplateInput): void {
+  const states = new Set(input.states);
+
+  if (states.size === 0) {
+    throw new ValidationError('Workflow must define at least one state');
+  }
+  if (states.size !== input.states.length) {
+    throw new ValidationError('Workflow states must be unique');
+  }
+  if (!states.has(input.initialState)) {
+    throw new ValidationError(`Initial state ${input.initialState} is not a workflow state`);
+  }
+
+  for (const [from, targets] of Object.entries(input.transitions)) {
+    if (!states.has(from)) {
+      throw new ValidationError(`Transition source ${from} is not a workflow state`);
+    }
+    const unknown = targets.filter(target => !states.has(target));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Transition targets from ${from} are not workflow states: ${unknown.join(', ')}`);
+    }
+    if (targets.includes(from)) {
+      throw new ValidationError(`State ${from} cannot transition to itself`);
+    }
+  }
+
+  for (const [state, fields] of Object.entries(input.requiredEvidence || {})) {
+    if (!states.has(state)) {
+      throw new ValidationError(`Evidence requirement for ${state} does not match a workflow state`);
+    }
+    const unknown = fields.filter(field => !EVIDENCE_FIELDS.includes(field));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown evidence fields for ${state}: ${unknown.join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Workflow Templates Service
+ * Stores versioned milestone workflows and resolves which one applies to a deal
+ */
+export class WorkflowTemplatesService {
+  /**
+   * Create a workflow template. Creating a template with an existing name
+   * publishes it as the next version; earlier versions stay assigned where used.
+   * A version taken by a concurrent create is retried with the next number.
+   * @param input - Template definition
+   * @returns Promise<WorkflowTemplateRecord>
+   */
+  async createTemplate(input: CreateWorkflowTemplateInput): Promise<WorkflowTemplateRecord> {
+    validateWorkflowDefinition(input);
+
+    let template: WorkflowTemplate | undefined;
+    for (let attempt = 1; !template; attempt++) {
+      const latest = await prisma.workflowTemplate.findFirst({
+        where: { name: input.name },
+        orderBy: { version: 'desc' }
+      });
+
+      try {
+        template = await prisma.workflowTemplate.create({
+          data: {
+            name: input.name,
+            version: latest ? latest.version + 1 : 1,
+            description: input.description,
+            initialState: input.initialState,
+            states: JSON.stringify(input.states),
+            transitions: JSON.stringify(input.transitions),
+            requiredEvidence: JSON.stringify(input.requiredEvidence || {}),
+            createdBy: input.createdBy
+          }
+        });
+      } catch (error: any) {
+        // Unique constraint on (name, version): another create published this version first
+        if (error?.code !== 'P2002') {
+          throw error;
+        }
+        if (attempt >= MAX_CREATE_ATTEMPTS) {
+          throw new ConflictError(`Workflow template ${input.name} is being published concurrently, try again`);
+        }
+      }
+    }
+
+    logger.info({ templateId: template.id, name: template.name, version: template.version }, 'Workflow template created');
+
+    return this.toRecord(template);
+  }
+
+  /**
+   * List workflow templates
+   * @param options - Filter by name and/or include deactivated versions
+   * @returns Promise<WorkflowTemplateRecord[]>
+   */
+  async listTemplates(options: { name?: string; includeInactive?: boolean } = {}): Promise<WorkflowTemplateRecord[]> {
+    const templates = await prisma.workflowTemplate.findMany({
+      where: {
+        ...(options.name ? { name: options.name } : {}),
+        ...(options.includeInactive ? {} : { isActive: true })
+      },
+      orderBy: [{ name: 'asc' }, { version: 'desc' }]
+    });
+
+    return templates.map(template => this.toRecord(template));
+  }
+
+  /**
+   * Get a workflow template by ID
+   * @param id - Template ID
+   * @returns Promise<WorkflowTemplateRecord>
+   */
+  async getTemplate(id: string): Promise<WorkflowTemplateRecord> {
+    const template = await prisma.workflowTemplate.findUnique({ where: { id } });
+    if (!template) {
+      throw new NotFoundError('Workflow template');
+    }
+    return this.toRecord(template);
+  }
+
+  /**
+   * Deactivate a template version so it can no longer be assigned.
+   * Existing assignments keep using it until reassigned.
+   * @param id - Template ID
+   * @returns Promise<WorkflowTemplateRecord>
+   */
+  async deactivateTemplate(id: string): Promise<WorkflowTemplateRecord> {
+    await this.getTemplate(id);
+    const template = await prisma.workflowTemplate.update({
+      where: { id },
+      data: { isActive: false }
+    });
+
+    logger.info({ templateId: id }, 'Workflow template deactivated');
+    return this.toRecord(template);
+  }
+
+  /**
+   * Assign a template version to an invoice or to a supplier
+   * @param input - Template and exactly one of invoiceId / supplierId
+   */
+  async assignTemplate(input: AssignWorkflowInput): Promise<{ id: string; templateId: string; invoiceId?: string; supplierId?: string }> {
+    if (!!input.invoiceId === !!input.supplierId) {
+      throw new ValidationError('Provide exactly one of invoiceId or supplierId');
+    }
+
+    const template = await this.getTemplate(input.templateId);
+    if (!template.isActive) {
+      throw new ValidationError(`Workflow template ${template.name} v${template.version} is inactive`);
+    }
+
+    const where = input.invoiceId ? { invoiceId: input.invoiceId } : { supplierId: input.supplierId! };
+    const assignment = await prisma.workflowAssignment.upsert({
+      where,
+      create: { ...where, templateId: input.templateId },
+      update: { templateId: input.templateId }
+    });
+
+    logger.info({ templateId: input.templateId, ...where }, 'Workflow template assigned');
+
+    return {
+      id: assignment.id,
+      templateId: assignment.templateId,
+      invoiceId: assignment.invoiceId || undefined,
+      supplierId: assignment.supplierId || undefined
+    };
+  }
+
+  /**
+   * Resolve the workflow for an invoice: invoice assignment, then supplier
+   * assignment, then the default workflow
+   * @param invoiceId - Invoice ID
+   * @param supplierId - Supplier user ID
+   * @returns Promise<WorkflowDefinition>
+   */
+  async resolveWorkflow(invoiceId?: string, supplierId?: string): Promise<WorkflowDefinition> {
+    const conditions = [
+      ...(invoiceId ? [{ invoiceId }] : []),
+      ...(supplierId ? [{ supplierId }] : [])
+    ];
+    if (conditions.length === 0) {
+      return DEFAULT_WORKFLOW;
+    }
+
+    const assignments = await prisma.workflowAssignment.findMany({
+      where: { OR: conditions },
+      include: { template: true }
+    });
+
+    const assignment = assignments.find(a => invoiceId && a.invoiceId === invoiceId)
+      || assignments.find(a => supplierId && a.supplierId === supplierId);
+
+    return assignment ? this.toRecord(assignment.template) : DEFAULT_WORKFLOW;
+  }
+
+  /**
+   * Resolve the workflow for an invoice NFT
+   * @param tokenId - Token ID
+   * @param serial - Serial number
+   * @returns Promise<WorkflowDefinition>
+   */
+  async resolveWorkflowForToken(tokenId: string, serial: string): Promise<WorkflowDefinition> {
+    const invoice = await prisma.invoice.findFirst({
+      where: { nftTokenId: tokenId, nftSerialNumber: serial },
+      select: { id: true, supplierId: true }
+    });
+
+    if (!invoice) {
+      return DEFAULT_WORKFLOW;
+    }
+
+    return this.resolveWorkflow(invoice.id, invoice.supplierId);
+  }
+
+  private toRecord(template: WorkflowTemplate): WorkflowTemplateRecord {
+    return {
+      id: template.id,
+      name: template.name,
+      version: template.version,
+      description: template.description || undefined,
+      initialState: template.initialState,
+      states: JSON.parse(template.states),
+      transitions: JSON.parse(template.transitions),
+      requiredEvidence: template.requiredEvidence ? JSON.parse(template.requiredEvidence) : {},
+      isActive: template.isActive,
+      createdBy: template.createdBy || undefined,
+      createdAt: template.createdAt
+    };
+  }
+}
+
+// Export singleton instance
+export const workflowTemplatesService = new WorkflowTemplatesService();
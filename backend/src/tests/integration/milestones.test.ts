@@ -257,7 +257,7 @@ describe('Milestones API Integration Tests', () => {
       expect(body).toHaveProperty('error');
     });
 
-    it('should create milestone with valid data', async () => {
+    it('should require an authenticated agent', async () => {
       const response = await app.inject({
         method: 'POST',
         url: '/api/milestones',
@@ -265,17 +265,17 @@ describe('Milestones API Integration Tests', () => {
           tokenId: '0.0.123456',
           serial: '1',
           milestone: 'CREATED/ISSUED',
-          agentId: 'agent-123',
           location: 'Test Location',
-          notes: 'Test milestone creation'
+          notes: 'Test milestone creation',
+          nonce: Date.now().toString(),
+          signature: 'deadbeef'
         }
       });
 
-      // Note: This might fail in test environment due to Hedera connectivity
-      // but we're testing the API structure
-      expect([200, 201, 400, 500]).toContain(response.statusCode);
-      const body = JSON.parse(response.body);
-      expect(body).toHaveProperty('data');
+      // The agent comes from the wallet JWT, so an unauthenticated request never reaches the service
+      expect(response.statusCode).toBe(401);
+      const { milestonesService } = require('../../services/milestonesService');
+      expect(milestonesService.publishMilestone).not.toHaveBeenCalled();
     });
   });
 
@@ -19,6 +19,9 @@ jest.mock('../services/cacheService', () => ({
   CacheKeys: {
     invoiceMessages: jest.fn(),
   },
+  CacheTags: {
+    topic: jest.fn(),
+  },
 }));
 
 jest.mock('../utils/logger', () => ({
@@ -122,8 +122,19 @@ describe('InvoiceService', () => {
         'FILE_UPLOADED',
         'FUNDING_REQUESTED',
         'FUNDED',
+        'FUNDING_REFUNDED',
         'PAYMENT_RECEIVED',
+        'SETTLEMENT_PAID',
         'OVERDUE',
+        'OVERDUE_REMINDER',
+        'LATE_FEE_ACCRUED',
+        'DEFAULTED',
+        'DISPUTE_RAISED',
+        'DISPUTE_RESOLVED',
+        'NFT_TRANSFERRED',
+        'LISTED',
+        'BID_ACCEPTED',
+        'BUYER_ACKNOWLEDGED',
         'CANCELLED'
       ]);
     });
@@ -27,13 +27,13 @@ jest.mock('../services/cacheService', () => ({
     get: jest.fn(),
     set: jest.fn(),
     del: jest.fn(),
-    getOrSet: jest.fn(),
+    getOrSet: jest.fn((_key: string, factory: () => Promise<unknown>) => factory()),
   },
   hcsCache: {
     get: jest.fn(),
     set: jest.fn(),
     del: jest.fn(),
-    getOrSet: jest.fn(),
+    getOrSet: jest.fn((_key: string, factory: () => Promise<unknown>) => factory()),
   },
   CacheKeys: {
     nftsByToken: jest.fn((tokenId, limit, order) => `nfts:${tokenId}:${limit}:${order}`),
@@ -43,6 +43,10 @@ jest.mock('../services/cacheService', () => ({
     transaction: jest.fn((transactionId) => `tx:${transactionId}`),
     fileInfo: jest.fn((fileId) => `file:${fileId}`),
   },
+  CacheTags: {
+    topic: jest.fn((topicId) => `topic:${topicId}`),
+    invoice: jest.fn((tokenId, serialNumber) => `invoice:${tokenId}:${serialNumber}`),
+  },
 }));
 
 jest.mock('../utils/logger', () => ({
@@ -0,0 +1,10 @@
+/**
+ * Source of the current time for schedulers, so tests can drive them with a fake clock
+ */
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
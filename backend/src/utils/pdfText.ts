@@ -0,0 +1,345 @@
+import {
+  PDFDocument,
+  PDFPage,
+  PDFName,
+  PDFDict,
+  PDFArray,
+  PDFStream,
+  PDFRawStream,
+  PDFContentStream,
+  decodePDFRawStream
+} from 'pdf-lib';
+
+/**
+ * Text of a PDF, one string per page with lines separated by newlines
+ */
+export interface PdfText {
+  pages: string[];
+  text: string;
+}
+
+interface FontDecoder {
+  codeBytes: 1 | 2;
+  toUnicode?: Map<number, string>;
+}
+
+type Token =
+  | { kind: 'string'; bytes: number[] }
+  | { kind: 'number'; value: number }
+  | { kind: 'operator'; value: string }
+  | { kind: 'name'; value: string }
+  | { kind: 'array'; items: Token[] };
+
+// Horizontal kerning (thousandths of an em) wide enough to read as a word break in TJ arrays
+const WORD_GAP = 200;
+
+const isWhitespace = (byte: number) => byte === 0x20 || byte === 0x0a || byte === 0x0d || byte === 0x09 || byte === 0x0c || byte === 0x00;
+const isDelimiter = (byte: number) => '()<>[]{}/%'.includes(String.fromCharCode(byte));
+
+/**
+ * Extract the text of a text-based PDF without native dependencies.
+ * Reads each page's content streams and follows the text operators; scanned PDFs yield no text.
+ */
+export async function extractPdfText(buffer: Buffer | Uint8Array): Promise<PdfText> {
+  const document = await PDFDocument.load(buffer, { ignoreEncryption: true, updateMetadata: false, throwOnInvalidObject: false });
+
+  const pages = document.getPages().map(page => {
+    const fonts = readFonts(page);
+    const content = readContent(page);
+    return content.length > 0 ? interpret(tokenize(content), fonts) : '';
+  });
+
+  return { pages, text: pages.join('\n\n') };
+}
+
+function decodeStream(stream: PDFStream): Uint8Array {
+  if (stream instanceof PDFRawStream) return decodePDFRawStream(stream).decode();
+  if (stream instanceof PDFContentStream) return stream.getUnencodedContents();
+  return stream.getContents();
+}
+
+function readContent(page: PDFPage): Uint8Array {
+  const contents = page.node.Contents();
+  if (!contents) return new Uint8Array();
+
+  const streams: PDFStream[] = [];
+  if (contents instanceof PDFArray) {
+    for (let i = 0; i < contents.size(); i++) {
+      const stream = contents.lookup(i);
+      if (stream instanceof PDFStream) streams.push(stream);
+    }
+  } else {
+    streams.push(contents);
+  }
+
+  // Content may be split across streams at any token, so join them with a separator
+  const parts = streams.map(decodeStream);
+  const joined = new Uint8Array(parts.reduce((length, part) => length + part.length + 1, 0));
+  let offset = 0;
+  for (const part of parts) {
+    joined.set(part, offset);
+    joined[offset + part.length] = 0x0a;
+    offset += part.length + 1;
+  }
+  return joined;
+}
+
+function readFonts(page: PDFPage): Map<string, FontDecoder> {
+  const fonts = new Map<string, FontDecoder>();
+  const fontDict = page.node.Resources()?.lookupMaybe(PDFName.of('Font'), PDFDict);
+  if (!fontDict) return fonts;
+
+  for (const [name, ref] of fontDict.entries()) {
+    const font = fontDict.context.lookup(ref);
+    if (!(font instanceof PDFDict)) continue;
+
+    // Composite fonts use two-byte codes with the usual Identity-H encoding
+    const subtype = font.lookupMaybe(PDFName.of('Subtype'), PDFName);
+    const decoder: FontDecoder = { codeBytes: subtype?.asString() === '/Type0' ? 2 : 1 };
+
+    const toUnicode = font.lookupMaybe(PDFName.of('ToUnicode'), PDFStream);
+    if (toUnicode) {
+      try {
+        decoder.toUnicode = parseToUnicode(Buffer.from(decodeStream(toUnicode)).toString('latin1'));
+      } catch {
+        // Fall back to Latin-1 for fonts with unreadable maps
+      }
+    }
+
+    fonts.set(name.asString(), decoder);
+  }
+
+  return fonts;
+}
+
+const hexToString = (hex: string) => {
+  let text = '';
+  for (let i = 0; i + 4 <= hex.length; i += 4) text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  if (hex.length % 4 !== 0 && hex.length <= 2) text += String.fromCharCode(parseInt(hex, 16));
+  return text;
+};
+
+/**
+ * Read the bfchar and bfrange mappings of a ToUnicode CMap
+ */
+function parseToUnicode(cmap: string): Map<number, string> {
+  const map = new Map<number, string>();
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, code, unicode] of block[1]!.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(parseInt(code!, 16), hexToString(unicode!));
+    }
+  }
+
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, start, end, target] of block[1]!.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]+>|\[[^\]]*\])/g)) {
+      const first = parseInt(start!, 16);
+      const last = parseInt(end!, 16);
+      if (target!.startsWith('[')) {
+        const targets = [...target!.matchAll(/<([0-9a-fA-F]+)>/g)].map(match => hexToString(match[1]!));
+        targets.forEach((unicode, index) => map.set(first + index, unicode));
+      } else {
+        const base = parseInt(target!.slice(1, -1), 16);
+        for (let code = first; code <= last && code - first < 0x10000; code++) {
+          map.set(code, String.fromCodePoint(base + code - first));
+        }
+      }
+    }
+  }
+
+  return map;
+}
+
+function tokenize(content: Uint8Array): Token[] {
+  const tokens: Token[] = [];
+  const arrays: Token[][] = [];
+  const push = (token: Token) => (arrays.length > 0 ? arrays[arrays.length - 1]! : tokens).push(token);
+  let i = 0;
+
+  while (i < content.length) {
+    const byte = content[i]!;
+
+    if (isWhitespace(byte)) {
+      i++;
+    } else if (byte === 0x25) {
+      // Comment
+      while (i < content.length && content[i] !== 0x0a && content[i] !== 0x0d) i++;
+    } else if (byte === 0x28) {
+      const bytes: number[] = [];
+      let depth = 1;
+      i++;
+      while (i < content.length && depth > 0) {
+        const next = content[i]!;
+        if (next === 0x5c) {
+          const escaped = content[++i]!;
+          const simple: Record<number, number> = { 0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c };
+          if (escaped >= 0x30 && escaped <= 0x37) {
+            let octal = '';
+            while (octal.length < 3 && content[i]! >= 0x30 && content[i]! <= 0x37) octal += String.fromCharCode(content[i++]!);
+            bytes.push(parseInt(octal, 8) & 0xff);
+            continue;
+          }
+          if (escaped === 0x0d || escaped === 0x0a) {
+            // Line continuation
+            if (escaped === 0x0d && content[i + 1] === 0x0a) i++;
+          } else {
+            bytes.push(simple[escaped] ?? escaped);
+          }
+          i++;
+          continue;
+        }
+        if (next === 0x28) depth++;
+        if (next === 0x29) depth--;
+        if (depth > 0) bytes.push(next);
+        i++;
+      }
+      push({ kind: 'string', bytes });
+    } else if (byte === 0x3c && content[i + 1] === 0x3c) {
+      // Dictionaries only carry marked-content properties, which hold no page text
+      let depth = 0;
+      while (i < content.length) {
+        if (content[i] === 0x3c && content[i + 1] === 0x3c) { depth++; i += 2; continue; }
+        if (content[i] === 0x3e && content[i + 1] === 0x3e) { depth--; i += 2; if (depth === 0) break; continue; }
+        i++;
+      }
+    } else if (byte === 0x3c) {
+      let hex = '';
+      i++;
+      while (i < content.length && content[i] !== 0x3e) {
+        if (!isWhitespace(content[i]!)) hex += String.fromCharCode(content[i]!);
+        i++;
+      }
+      i++;
+      if (hex.length % 2 === 1) hex += '0';
+      const bytes: number[] = [];
+      for (let h = 0; h < hex.length; h += 2) bytes.push(parseInt(hex.slice(h, h + 2), 16));
+      push({ kind: 'string', bytes });
+    } else if (byte === 0x5b) {
+      arrays.push([]);
+      i++;
+    } else if (byte === 0x5d) {
+      const items = arrays.pop();
+      if (items) push({ kind: 'array', items });
+      i++;
+    } else if (byte === 0x2f) {
+      let name = '/';
+      i++;
+      while (i < content.length && !isWhitespace(content[i]!) && !isDelimiter(content[i]!)) name += String.fromCharCode(content[i++]!);
+      push({ kind: 'name', value: name });
+    } else {
+      let word = '';
+      while (i < content.length && !isWhitespace(content[i]!) && !isDelimiter(content[i]!)) word += String.fromCharCode(content[i++]!);
+      if (word.length === 0) {
+        i++;
+        continue;
+      }
+
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+        push({ kind: 'number', value: parseFloat(word) });
+      } else if (word === 'ID') {
+        // Skip inline image data up to its EI operator
+        i++;
+        while (i < content.length && !(content[i] === 0x45 && content[i + 1] === 0x49 && isWhitespace(content[i - 1]!) && (i + 2 >= content.length || isWhitespace(content[i + 2]!)))) i++;
+        i += 2;
+      } else {
+        push({ kind: 'operator', value: word });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function interpret(tokens: Token[], fonts: Map<string, FontDecoder>): string {
+  const lines: string[] = [];
+  let line = '';
+  let font: FontDecoder = { codeBytes: 1 };
+  let lineY: number | null = null;
+  let operands: Token[] = [];
+
+  const breakLine = () => {
+    if (line.trim().length > 0) lines.push(line.replace(/\s+/g, ' ').trim());
+    line = '';
+  };
+
+  const show = (bytes: number[]) => {
+    for (let i = 0; i < bytes.length; i += font.codeBytes) {
+      const code = font.codeBytes === 2 ? (bytes[i]! << 8) | (bytes[i + 1] ?? 0) : bytes[i]!;
+      line += font.toUnicode?.get(code) ?? (font.codeBytes === 1 ? String.fromCharCode(code) : '');
+    }
+  };
+
+  const moveTo = (y: number) => {
+    if (lineY !== null && Math.abs(y - lineY) > 0.5) breakLine();
+    else if (line.length > 0 && !line.endsWith(' ')) line += ' ';
+    lineY = y;
+  };
+
+  const number = (index: number) => {
+    const operand = operands[operands.length + index];
+    return operand?.kind === 'number' ? operand.value : 0;
+  };
+
+  for (const token of tokens) {
+    if (token.kind !== 'operator') {
+      operands.push(token);
+      continue;
+    }
+
+    switch (token.value) {
+      case 'BT':
+        lineY = null;
+        break;
+      case 'ET':
+        break;
+      case 'Tf': {
+        const name = operands[operands.length - 2];
+        font = (name?.kind === 'name' && fonts.get(name.value)) || { codeBytes: 1 };
+        break;
+      }
+      case 'Td':
+      case 'TD':
+        // Relative moves down start a new line; moves along the line separate words
+        if (number(-1) !== 0) {
+          breakLine();
+          lineY = (lineY ?? 0) + number(-1);
+        } else if (line.length > 0 && !line.endsWith(' ')) {
+          line += ' ';
+        }
+        break;
+      case 'Tm':
+        moveTo(number(-1));
+        break;
+      case 'T*':
+        breakLine();
+        break;
+      case 'Tj': {
+        const text = operands[operands.length - 1];
+        if (text?.kind === 'string') show(text.bytes);
+        break;
+      }
+      case "'":
+      case '"': {
+        breakLine();
+        const text = operands[operands.length - 1];
+        if (text?.kind === 'string') show(text.bytes);
+        break;
+      }
+      case 'TJ': {
+        const array = operands[operands.length - 1];
+        if (array?.kind === 'array') {
+          for (const item of array.items) {
+            if (item.kind === 'string') show(item.bytes);
+            else if (item.kind === 'number' && item.value < -WORD_GAP && !line.endsWith(' ')) line += ' ';
+          }
+        }
+        break;
+      }
+    }
+
+    operands = [];
+  }
+
+  breakLine();
+  return lines.join('\n');
+}
@@ -79,19 +79,37 @@ function isValidBase64(str: string): boolean {
 }
 
 /**
- * Get public key for a Hedera account (placeholder implementation)
+ * Get the public key of a Hedera account from the Mirror Node
  * @param accountId - Hedera account ID
- * @returns Promise<string | null> - Public key or null if not found
+ * @returns Promise<string | null> - DER-encoded public key, or null if the account
+ * is unknown or is controlled by a key list / threshold key rather than a single key
  */
 export async function getAccountPublicKey(accountId: string): Promise<string | null> {
   try {
-    // TODO: Implement actual public key retrieval from Hedera network
-    // This would use Hedera SDK to query account info
-    
-    console.log(`Getting public key for account ${accountId}`);
-    
-    // Placeholder - in production, query Hedera network
-    return null;
+    if (!isValidHederaAccountId(accountId)) {
+      return null;
+    }
+
+    const mirrorNodeUrl = process.env.HEDERA_MIRROR_NODE_URL || 'https://testnet.mirrornode.hedera.com';
+    const response = await fetch(`${mirrorNodeUrl}/api/v1/accounts/${accountId}`);
+    if (!response.ok) {
+      return null;
+    }
+
+    const account = await response.json() as { key?: { _type?: string; key?: string } | null };
+    const key = account.key;
+    if (!key?.key) {
+      return null;
+    }
+
+    switch (key._type) {
+      case 'ED25519':
+        return PublicKey.fromStringED25519(key.key).toStringDer();
+      case 'ECDSA_SECP256K1':
+        return PublicKey.fromStringECDSA(key.key).toStringDer();
+      default:
+        return null;
+    }
     
   } catch (error) {
     console.error('Error getting account public key:', error);
@@ -99,6 +117,35 @@ export async function getAccountPublicKey(accountId: string): Promise<string | n
   }
 }
 
+/**
+ * Verify a signature against a known public key
+ * @param publicKey - DER-encoded (or raw ED25519) public key
+ * @param message - Original message that was signed
+ * @param signature - Hex or base64 encoded signature
+ * @returns boolean - True if the signature was made by the key over the message
+ */
+export function verifyPublicKeySignature(
+  publicKey: string,
+  message: string,
+  signature: string
+): boolean {
+  try {
+    if (!publicKey || !message || !signature) {
+      return false;
+    }
+
+    const signatureBytes = /^([0-9a-fA-F]{2})+$/.test(signature)
+      ? Buffer.from(signature, 'hex')
+      : Buffer.from(signature, 'base64');
+
+    return PublicKey.fromString(publicKey).verify(Buffer.from(message, 'utf8'), signatureBytes);
+    
+  } catch (error) {
+    console.error('Signature verification error:', error);
+    return false;
+  }
+}
+
 /**
  * Create a message for wallet signing
  * @param nonce - Timestamp nonce
@@ -109,6 +156,92 @@ export function createSignMessage(nonce: string, accountId: string): string {
   return `YieldHarvest Login\nNonce: ${nonce}\nAccount: ${accountId}`;
 }
 
+/**
+ * Create the message a buyer signs to acknowledge an invoice
+ * @param nonce - Timestamp nonce
+ * @param accountId - Hedera account ID of the buyer
+ * @param invoice - Terms of the invoice being acknowledged
+ * @returns string - Message to be signed
+ */
+export function createAcknowledgementMessage(
+  nonce: string,
+  accountId: string,
+  invoice: { invoiceNumber: string; amount: number; currency: string; dueDate: Date; fileHash: string | null }
+): string {
+  return [
+    'YieldHarvest Invoice Acknowledgement',
+    `Invoice: ${invoice.invoiceNumber}`,
+    `Amount: ${invoice.amount} ${invoice.currency}`,
+    `Due: ${invoice.dueDate.toISOString()}`,
+    `Document: ${invoice.fileHash ?? 'none'}`,
+    `Nonce: ${nonce}`,
+    `Account: ${accountId}`,
+  ].join('\n');
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted, so the same metadata
+ * always signs to the same bytes
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Create the message an agent signs to attest a milestone and its evidence
+ * @param nonce - Timestamp nonce
+ * @param accountId - Hedera account ID of the agent
+ * @param milestone - Deal, milestone, the published context and the hashes of the attached evidence
+ * @returns string - Message to be signed
+ */
+export function createMilestoneMessage(
+  nonce: string,
+  accountId: string,
+  milestone: {
+    tokenId: string;
+    serial: string;
+    milestone: string;
+    location?: string | null;
+    fileHash?: string | null;
+    notes?: string | null;
+    documentUrl?: string | null;
+    metadata?: Record<string, any> | null;
+    evidence: { documentId: string; sha256: string }[];
+  }
+): string {
+  // Evidence is listed in document ID order so the message does not depend on how it was attached
+  const evidence = milestone.evidence.length > 0
+    ? [...milestone.evidence]
+        .sort((a, b) => (a.documentId < b.documentId ? -1 : a.documentId > b.documentId ? 1 : 0))
+        .map(item => `Evidence: ${item.documentId} ${item.sha256}`)
+    : ['Evidence: none'];
+
+  return [
+    'YieldHarvest Milestone Attestation',
+    `Deal: ${milestone.tokenId}/${milestone.serial}`,
+    `Milestone: ${milestone.milestone}`,
+    `Location: ${milestone.location || 'none'}`,
+    `File: ${milestone.fileHash || 'none'}`,
+    // Free text is JSON-encoded so it cannot add lines of its own to the message
+    `Notes: ${milestone.notes ? JSON.stringify(milestone.notes) : 'none'}`,
+    `Document URL: ${milestone.documentUrl || 'none'}`,
+    `Metadata: ${milestone.metadata && Object.keys(milestone.metadata).length > 0 ? canonicalJson(milestone.metadata) : 'none'}`,
+    ...evidence,
+    `Nonce: ${nonce}`,
+    `Account: ${accountId}`,
+  ].join('\n');
+}
+
 /**
  * Generate a nonce for signature verification
  * @returns string - Timestamp-based nonce
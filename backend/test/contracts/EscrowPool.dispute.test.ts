@@ -0,0 +1,156 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+
+describe('EscrowPool disputes', () => {
+  const INVOICE_ID = 'INV-001';
+  const AMOUNT = ethers.parseEther('10');
+  const RELEASED = 2;
+  const REFUNDED = 3;
+  const DISPUTED = 4;
+
+  async function deployFunded() {
+    const [owner, investor, supplier, feeRecipient, arbiter, outsider] = await ethers.getSigners();
+
+    const EscrowPool = await ethers.getContractFactory('EscrowPool');
+    const pool = await EscrowPool.deploy(feeRecipient.address, owner.address);
+    await pool.waitForDeployment();
+
+    const dueDate = (await time.latest()) + 30 * 24 * 60 * 60;
+    await pool.connect(investor).deposit(INVOICE_ID, '0.0.1001', 1, supplier.address, dueDate, 'file-hash', { value: AMOUNT });
+
+    return { pool, owner, investor, supplier, feeRecipient, arbiter, outsider };
+  }
+
+  describe('raiseDispute', () => {
+    it('should let the supplier dispute a funded escrow', async () => {
+      const { pool, supplier } = await deployFunded();
+      const escrowId = await pool.getEscrowId(INVOICE_ID);
+
+      await expect(pool.connect(supplier).raiseDispute(INVOICE_ID, 'Goods not delivered'))
+        .to.emit(pool, 'DisputeRaised')
+        .withArgs(escrowId, INVOICE_ID, supplier.address, 'Goods not delivered');
+
+      expect((await pool.getEscrow(INVOICE_ID)).status).to.equal(DISPUTED);
+      const dispute = await pool.getDispute(INVOICE_ID);
+      expect(dispute.raisedBy).to.equal(supplier.address);
+      expect(dispute.reason).to.equal('Goods not delivered');
+    });
+
+    it('should let the investor dispute a funded escrow', async () => {
+      const { pool, investor } = await deployFunded();
+
+      await pool.connect(investor).raiseDispute(INVOICE_ID, 'Invoice amount is wrong');
+
+      expect((await pool.getEscrow(INVOICE_ID)).status).to.equal(DISPUTED);
+    });
+
+    it('should reject disputes from anyone else', async () => {
+      const { pool, outsider } = await deployFunded();
+
+      await expect(pool.connect(outsider).raiseDispute(INVOICE_ID, 'Nope'))
+        .to.be.revertedWith('Only investor or supplier can raise a dispute');
+    });
+
+    it('should require a reason', async () => {
+      const { pool, investor } = await deployFunded();
+
+      await expect(pool.connect(investor).raiseDispute(INVOICE_ID, ''))
+        .to.be.revertedWith('Reason cannot be empty');
+    });
+
+    it('should block release and refund while disputed', async () => {
+      const { pool, investor } = await deployFunded();
+      await pool.connect(investor).raiseDispute(INVOICE_ID, 'Invoice amount is wrong');
+
+      await expect(pool.connect(investor).release(INVOICE_ID)).to.be.revertedWith('Escrow not in funded status');
+      await expect(pool.connect(investor).refund(INVOICE_ID)).to.be.revertedWith('Escrow not in funded status');
+      await expect(pool.connect(investor).raiseDispute(INVOICE_ID, 'Again')).to.be.revertedWith('Escrow not in funded status');
+    });
+  });
+
+  describe('resolveDispute', () => {
+    it('should split the escrow and charge the fee on the supplier share only', async () => {
+      const { pool, owner, investor, supplier, feeRecipient, arbiter } = await deployFunded();
+      await pool.connect(owner).updateArbiter(arbiter.address);
+      await pool.connect(supplier).raiseDispute(INVOICE_ID, 'Partial delivery');
+
+      const investorAmount = ethers.parseEther('6');
+      const fee = (ethers.parseEther('4') * 250n) / 10000n;
+      const supplierAmount = ethers.parseEther('4') - fee;
+      const escrowId = await pool.getEscrowId(INVOICE_ID);
+
+      const tx = pool.connect(arbiter).resolveDispute(INVOICE_ID, 6000);
+
+      await expect(tx)
+        .to.emit(pool, 'DisputeResolved')
+        .withArgs(escrowId, INVOICE_ID, arbiter.address, investorAmount, supplierAmount, fee);
+      await expect(tx).to.changeEtherBalances(
+        [investor, supplier, feeRecipient, pool],
+        [investorAmount, supplierAmount, fee, -AMOUNT]
+      );
+
+      expect((await pool.getEscrow(INVOICE_ID)).status).to.equal(RELEASED);
+      const dispute = await pool.getDispute(INVOICE_ID);
+      expect(dispute.investorAmount).to.equal(investorAmount);
+      expect(dispute.supplierAmount).to.equal(supplierAmount);
+      expect(dispute.resolvedAt).to.be.greaterThan(0n);
+    });
+
+    it('should not settle an escrow released by a dispute split', async () => {
+      const { pool, owner, supplier, outsider } = await deployFunded();
+      await pool.connect(supplier).raiseDispute(INVOICE_ID, 'Partial delivery');
+      await pool.connect(owner).resolveDispute(INVOICE_ID, 5000);
+
+      await expect(pool.connect(outsider).settle(INVOICE_ID, { value: AMOUNT }))
+        .to.be.revertedWith('Escrow resolved through dispute');
+    });
+
+    it('should mark a full investor share as refunded without a fee', async () => {
+      const { pool, owner, investor, feeRecipient } = await deployFunded();
+      await pool.connect(investor).raiseDispute(INVOICE_ID, 'Invoice was cancelled');
+
+      await expect(pool.connect(owner).resolveDispute(INVOICE_ID, 10000))
+        .to.changeEtherBalances([investor, feeRecipient], [AMOUNT, 0]);
+
+      expect((await pool.getEscrow(INVOICE_ID)).status).to.equal(REFUNDED);
+    });
+
+    it('should only let the arbiter or owner resolve', async () => {
+      const { pool, investor, supplier } = await deployFunded();
+      await pool.connect(supplier).raiseDispute(INVOICE_ID, 'Partial delivery');
+
+      await expect(pool.connect(investor).resolveDispute(INVOICE_ID, 5000))
+        .to.be.revertedWith('Only arbiter or owner can resolve');
+    });
+
+    it('should reject shares above 100%', async () => {
+      const { pool, owner, supplier } = await deployFunded();
+      await pool.connect(supplier).raiseDispute(INVOICE_ID, 'Partial delivery');
+
+      await expect(pool.connect(owner).resolveDispute(INVOICE_ID, 10001))
+        .to.be.revertedWith('Investor share exceeds 100%');
+    });
+
+    it('should reject escrows that are not disputed', async () => {
+      const { pool, owner } = await deployFunded();
+
+      await expect(pool.connect(owner).resolveDispute(INVOICE_ID, 5000))
+        .to.be.revertedWith('Escrow not disputed');
+    });
+  });
+
+  describe('updateArbiter', () => {
+    it('should let only the owner change the arbiter', async () => {
+      const { pool, owner, arbiter, outsider } = await deployFunded();
+
+      await expect(pool.connect(owner).updateArbiter(arbiter.address))
+        .to.emit(pool, 'ArbiterUpdated')
+        .withArgs(ethers.ZeroAddress, arbiter.address);
+      expect(await pool.arbiter()).to.equal(arbiter.address);
+
+      await expect(pool.connect(outsider).updateArbiter(outsider.address))
+        .to.be.revertedWithCustomError(pool, 'OwnableUnauthorizedAccount');
+    });
+  });
+});
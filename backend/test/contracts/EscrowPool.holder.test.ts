@@ -0,0 +1,106 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+
+describe('EscrowPool holders', () => {
+  const INVOICE_ID = 'INV-001';
+  const AMOUNT = ethers.parseEther('10');
+
+  async function deployFunded() {
+    const [owner, investor, buyer, supplier, feeRecipient, debtor] = await ethers.getSigners();
+
+    const EscrowPool = await ethers.getContractFactory('EscrowPool');
+    const pool = await EscrowPool.deploy(feeRecipient.address, owner.address);
+    await pool.waitForDeployment();
+
+    const dueDate = (await time.latest()) + 30 * 24 * 60 * 60;
+    await pool.connect(investor).deposit(INVOICE_ID, '0.0.1001', 1, supplier.address, dueDate, 'file-hash', { value: AMOUNT });
+
+    return { pool, owner, investor, buyer, supplier, feeRecipient, debtor };
+  }
+
+  describe('updateHolder', () => {
+    it('should start with the depositing investor and let the owner move it', async () => {
+      const { pool, owner, investor, buyer } = await deployFunded();
+      const escrowId = await pool.getEscrowId(INVOICE_ID);
+      expect(await pool.getHolder(INVOICE_ID)).to.equal(investor.address);
+
+      await expect(pool.connect(owner).updateHolder(INVOICE_ID, buyer.address))
+        .to.emit(pool, 'HolderUpdated')
+        .withArgs(escrowId, INVOICE_ID, investor.address, buyer.address);
+
+      expect(await pool.getHolder(INVOICE_ID)).to.equal(buyer.address);
+      expect((await pool.getEscrow(INVOICE_ID)).investor).to.equal(investor.address);
+    });
+
+    it('should only let the owner move it', async () => {
+      const { pool, investor, buyer } = await deployFunded();
+
+      await expect(pool.connect(investor).updateHolder(INVOICE_ID, buyer.address))
+        .to.be.revertedWithCustomError(pool, 'OwnableUnauthorizedAccount');
+    });
+
+    it('should reject the zero address and refunded escrows', async () => {
+      const { pool, owner, investor, buyer } = await deployFunded();
+
+      await expect(pool.connect(owner).updateHolder(INVOICE_ID, ethers.ZeroAddress))
+        .to.be.revertedWith('Invalid holder address');
+
+      await pool.connect(investor).refund(INVOICE_ID);
+      await expect(pool.connect(owner).updateHolder(INVOICE_ID, buyer.address))
+        .to.be.revertedWith('Escrow already refunded');
+    });
+  });
+
+  describe('payouts', () => {
+    it('should refund the current holder, not the original investor', async () => {
+      const { pool, owner, investor, buyer } = await deployFunded();
+      await pool.connect(owner).updateHolder(INVOICE_ID, buyer.address);
+
+      await expect(pool.connect(investor).refund(INVOICE_ID))
+        .to.be.revertedWith('Not authorized to refund or too early');
+      await expect(pool.connect(buyer).refund(INVOICE_ID))
+        .to.changeEtherBalances([buyer, investor], [AMOUNT, 0]);
+    });
+
+    it('should pay the holder share of a dispute to the current holder', async () => {
+      const { pool, owner, investor, buyer, supplier } = await deployFunded();
+      await pool.connect(owner).updateHolder(INVOICE_ID, buyer.address);
+      await pool.connect(buyer).raiseDispute(INVOICE_ID, 'Invoice amount is wrong');
+
+      await expect(pool.connect(owner).resolveDispute(INVOICE_ID, 10000))
+        .to.changeEtherBalances([buyer, investor, supplier], [AMOUNT, 0, 0]);
+    });
+
+    it('should pass a settlement through to the current holder once released', async () => {
+      const { pool, owner, investor, buyer, debtor } = await deployFunded();
+      const escrowId = await pool.getEscrowId(INVOICE_ID);
+      const settlement = ethers.parseEther('10.5');
+
+      await expect(pool.connect(debtor).settle(INVOICE_ID, { value: settlement }))
+        .to.be.revertedWith('Escrow not released');
+
+      await pool.connect(investor).release(INVOICE_ID);
+      await pool.connect(owner).updateHolder(INVOICE_ID, buyer.address);
+
+      const tx = pool.connect(debtor).settle(INVOICE_ID, { value: settlement });
+      await expect(tx)
+        .to.emit(pool, 'SettlementPaid')
+        .withArgs(escrowId, INVOICE_ID, buyer.address, settlement);
+      await expect(tx).to.changeEtherBalances([buyer, investor, pool], [settlement, 0, 0]);
+    });
+
+    it('should not settle the same escrow twice', async () => {
+      const { pool, investor, debtor } = await deployFunded();
+      const escrowId = await pool.getEscrowId(INVOICE_ID);
+      const settlement = ethers.parseEther('10.5');
+
+      await pool.connect(investor).release(INVOICE_ID);
+      await pool.connect(debtor).settle(INVOICE_ID, { value: settlement });
+
+      expect(await pool.settled(escrowId)).to.equal(true);
+      await expect(pool.connect(debtor).settle(INVOICE_ID, { value: settlement }))
+        .to.be.revertedWith('Escrow already settled');
+    });
+  });
+});
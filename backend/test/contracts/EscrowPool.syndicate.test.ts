@@ -0,0 +1,187 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+
+describe('EscrowPool syndicates', () => {
+  const INVOICE_ID = 'INV-001';
+  const TARGET = ethers.parseEther('10');
+  const OPEN = 0;
+  const FILLED = 1;
+  const RELEASED = 2;
+  const REFUNDED = 3;
+
+  async function deployOpen() {
+    const [owner, investorA, investorB, supplier, feeRecipient, outsider] = await ethers.getSigners();
+
+    const EscrowPool = await ethers.getContractFactory('EscrowPool');
+    const pool = await EscrowPool.deploy(feeRecipient.address, owner.address);
+    await pool.waitForDeployment();
+
+    const fillDeadline = (await time.latest()) + 7 * 24 * 60 * 60;
+    const dueDate = fillDeadline + 30 * 24 * 60 * 60;
+    await pool.connect(owner).openSyndicate(INVOICE_ID, '0.0.1001', 1, supplier.address, TARGET, fillDeadline, dueDate, 'file-hash');
+
+    return { pool, owner, investorA, investorB, supplier, feeRecipient, outsider, fillDeadline, dueDate };
+  }
+
+  async function deployFilled() {
+    const fixture = await deployOpen();
+    const { pool, investorA, investorB } = fixture;
+    await pool.connect(investorA).commitTranche(INVOICE_ID, { value: ethers.parseEther('6') });
+    await pool.connect(investorB).commitTranche(INVOICE_ID, { value: ethers.parseEther('4') });
+    return fixture;
+  }
+
+  describe('openSyndicate', () => {
+    it('should open a syndicate for the target amount', async () => {
+      const { pool, supplier } = await deployOpen();
+      const syndicateId = await pool.invoiceToSyndicateId(INVOICE_ID);
+
+      const syndicate = await pool.getSyndicate(INVOICE_ID);
+      expect(syndicateId).to.not.equal(ethers.ZeroHash);
+      expect(syndicate.supplier).to.equal(supplier.address);
+      expect(syndicate.targetAmount).to.equal(TARGET);
+      expect(syndicate.raisedAmount).to.equal(0);
+      expect(syndicate.status).to.equal(OPEN);
+    });
+
+    it('should only let the owner open a syndicate', async () => {
+      const { pool, supplier, outsider, fillDeadline, dueDate } = await deployOpen();
+
+      await expect(pool.connect(outsider).openSyndicate('INV-002', '0.0.1001', 1, supplier.address, TARGET, fillDeadline, dueDate, 'file-hash'))
+        .to.be.revertedWithCustomError(pool, 'OwnableUnauthorizedAccount');
+    });
+
+    it('should reject a second syndicate or a direct deposit for the invoice', async () => {
+      const { pool, owner, investorA, supplier, fillDeadline, dueDate } = await deployOpen();
+
+      await expect(pool.connect(owner).openSyndicate(INVOICE_ID, '0.0.1001', 1, supplier.address, TARGET, fillDeadline, dueDate, 'file-hash'))
+        .to.be.revertedWith('Invoice already has syndicate');
+      await expect(pool.connect(investorA).deposit(INVOICE_ID, '0.0.1001', 1, supplier.address, dueDate, 'file-hash', { value: TARGET }))
+        .to.be.revertedWith('Invoice is syndicated');
+    });
+
+    it('should reject a fill deadline after the due date', async () => {
+      const { pool, owner, supplier, fillDeadline } = await deployOpen();
+
+      await expect(pool.connect(owner).openSyndicate('INV-002', '0.0.1001', 1, supplier.address, TARGET, fillDeadline, fillDeadline, 'file-hash'))
+        .to.be.revertedWith('Due date must be after fill deadline');
+    });
+  });
+
+  describe('commitTranche', () => {
+    it('should record tranches and mark the syndicate filled on the last one', async () => {
+      const { pool, investorA, investorB } = await deployOpen();
+      const syndicateId = await pool.invoiceToSyndicateId(INVOICE_ID);
+
+      await expect(pool.connect(investorA).commitTranche(INVOICE_ID, { value: ethers.parseEther('6') }))
+        .to.emit(pool, 'TrancheCommitted')
+        .withArgs(syndicateId, INVOICE_ID, investorA.address, ethers.parseEther('6'), ethers.parseEther('6'));
+      expect((await pool.getSyndicate(INVOICE_ID)).status).to.equal(OPEN);
+
+      await expect(pool.connect(investorB).commitTranche(INVOICE_ID, { value: ethers.parseEther('4') }))
+        .to.emit(pool, 'SyndicateFilled')
+        .withArgs(syndicateId, INVOICE_ID, TARGET);
+
+      expect((await pool.getSyndicate(INVOICE_ID)).status).to.equal(FILLED);
+      expect(await pool.tranches(syndicateId, investorA.address)).to.equal(ethers.parseEther('6'));
+      expect(await pool.getSyndicateInvestors(INVOICE_ID)).to.deep.equal([investorA.address, investorB.address]);
+    });
+
+    it('should reject a tranche that over-subscribes the target', async () => {
+      const { pool, investorA, investorB } = await deployOpen();
+      await pool.connect(investorA).commitTranche(INVOICE_ID, { value: ethers.parseEther('6') });
+
+      await expect(pool.connect(investorB).commitTranche(INVOICE_ID, { value: ethers.parseEther('5') }))
+        .to.be.revertedWith('Tranche exceeds remaining capacity');
+    });
+
+    it('should reject tranches once filled', async () => {
+      const { pool, outsider } = await deployFilled();
+
+      await expect(pool.connect(outsider).commitTranche(INVOICE_ID, { value: 1n }))
+        .to.be.revertedWith('Syndicate not open');
+    });
+
+    it('should reject tranches after the fill deadline', async () => {
+      const { pool, investorA, fillDeadline } = await deployOpen();
+      await time.increaseTo(fillDeadline + 1);
+
+      await expect(pool.connect(investorA).commitTranche(INVOICE_ID, { value: 1n }))
+        .to.be.revertedWith('Fill deadline has passed');
+    });
+  });
+
+  describe('releaseSyndicate', () => {
+    it('should pay the supplier and the platform fee once filled', async () => {
+      const { pool, owner, supplier, feeRecipient } = await deployFilled();
+      const syndicateId = await pool.invoiceToSyndicateId(INVOICE_ID);
+      const fee = (TARGET * 250n) / 10000n;
+
+      const tx = pool.connect(owner).releaseSyndicate(INVOICE_ID);
+      await expect(tx)
+        .to.emit(pool, 'SyndicateReleased')
+        .withArgs(syndicateId, INVOICE_ID, supplier.address, TARGET - fee, fee);
+      await expect(tx).to.changeEtherBalances([supplier, feeRecipient, pool], [TARGET - fee, fee, -TARGET]);
+
+      expect((await pool.getSyndicate(INVOICE_ID)).status).to.equal(RELEASED);
+    });
+
+    it('should not release an unfilled syndicate', async () => {
+      const { pool, owner, investorA } = await deployOpen();
+      await pool.connect(investorA).commitTranche(INVOICE_ID, { value: ethers.parseEther('6') });
+
+      await expect(pool.connect(owner).releaseSyndicate(INVOICE_ID))
+        .to.be.revertedWith('Syndicate not filled');
+    });
+
+    it('should only let the owner release', async () => {
+      const { pool, outsider } = await deployFilled();
+
+      await expect(pool.connect(outsider).releaseSyndicate(INVOICE_ID))
+        .to.be.revertedWithCustomError(pool, 'OwnableUnauthorizedAccount');
+    });
+  });
+
+  describe('refundSyndicate', () => {
+    it('should return every tranche to its investor', async () => {
+      const { pool, owner, investorA, investorB } = await deployFilled();
+      const syndicateId = await pool.invoiceToSyndicateId(INVOICE_ID);
+
+      const tx = pool.connect(owner).refundSyndicate(INVOICE_ID);
+      await expect(tx)
+        .to.emit(pool, 'TrancheRefunded')
+        .withArgs(syndicateId, INVOICE_ID, investorA.address, ethers.parseEther('6'));
+      await expect(tx)
+        .to.emit(pool, 'SyndicateRefunded')
+        .withArgs(syndicateId, INVOICE_ID, TARGET);
+      await expect(tx).to.changeEtherBalances(
+        [investorA, investorB, pool],
+        [ethers.parseEther('6'), ethers.parseEther('4'), -TARGET]
+      );
+
+      expect((await pool.getSyndicate(INVOICE_ID)).status).to.equal(REFUNDED);
+      expect(await pool.tranches(syndicateId, investorA.address)).to.equal(0);
+    });
+
+    it('should let anyone refund an open syndicate once the fill deadline has passed', async () => {
+      const { pool, investorA, outsider, fillDeadline } = await deployOpen();
+      await pool.connect(investorA).commitTranche(INVOICE_ID, { value: ethers.parseEther('6') });
+
+      await expect(pool.connect(outsider).refundSyndicate(INVOICE_ID))
+        .to.be.revertedWith('Not authorized to refund or too early');
+
+      await time.increaseTo(fillDeadline + 1);
+      await expect(pool.connect(outsider).refundSyndicate(INVOICE_ID))
+        .to.changeEtherBalances([investorA], [ethers.parseEther('6')]);
+    });
+
+    it('should not refund a released syndicate', async () => {
+      const { pool, owner } = await deployFilled();
+      await pool.connect(owner).releaseSyndicate(INVOICE_ID);
+
+      await expect(pool.connect(owner).refundSyndicate(INVOICE_ID))
+        .to.be.revertedWith('Syndicate already settled');
+    });
+  });
+});
@@ -123,6 +123,7 @@ const WalletFundingModal: React.FC<WalletFundingModalProps> = ({
       const submitData = {
         ...prepareData,
         signedTransactionBytes: signedTxBytes,
+        transactionId: preparedTx.data.transactionId,
       };
 
       await submitTransactionMutation.mutateAsync(submitData);
@@ -63,6 +63,14 @@ export function useCreateInvoice() {
   });
 }
 
+// Read invoice fields from a PDF, comparing any entered values with it
+export function useExtractInvoiceData() {
+  return useMutation({
+    mutationFn: ({ file, entered }: { file: File; entered?: Partial<CreateInvoiceRequest> }) =>
+      invoiceApi.extract(file, entered),
+  });
+}
+
 // Update invoice mutation
 export function useUpdateInvoice() {
   const queryClient = useQueryClient();
@@ -1,4 +1,5 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
+import { useAppStore } from '@/store';
 
 const WS_URL = import.meta.env.PROD 
   ? 'wss://api.yieldharvest.com/ws'
@@ -7,24 +8,37 @@ const WS_URL = import.meta.env.PROD
 const RECONNECT_INTERVAL = 3000;
 const MAX_RECONNECT_ATTEMPTS = 5;
 const PING_INTERVAL = 30000;
+// Close code the server uses for a missing or invalid token; retrying will not help
+const WS_UNAUTHORIZED = 4401;
 
 interface WebSocketOptions {
   onMessage?: (message: any) => void;
   onConnect?: () => void;
   onDisconnect?: (event?: CloseEvent) => void;
   onError?: (error: any) => void;
+  // Channels whose missed events could not all be replayed; reload their state
+  onResumeGap?: (channels: string[]) => void;
   autoReconnect?: boolean;
   subscriptions?: any[];
+  token?: string | null;
 }
 
+// Server channels a { dealId, invoiceId } subscription covers
+const subscriptionChannels = (subscription: { dealId?: string; invoiceId?: string }): string[] => [
+  ...(subscription.dealId ? [`deal:${subscription.dealId}`] : []),
+  ...(subscription.invoiceId ? [`invoice:${subscription.invoiceId}`] : []),
+];
+
 export const useWebSocket = (options: WebSocketOptions = {}) => {
   const {
     onMessage,
     onConnect,
     onDisconnect,
     onError,
+    onResumeGap,
     autoReconnect = true,
-    subscriptions = []
+    subscriptions = [],
+    token
   } = options;
 
   const [isConnected, setIsConnected] = useState(false);
@@ -37,6 +51,36 @@ export const useWebSocket = (options: WebSocketOptions = {}) => {
   const pingIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const reconnectAttemptsRef = useRef(0);
   const subscriptionsRef = useRef(new Set());
+  // Last event id seen per channel, and the server that numbered them
+  const cursorsRef = useRef<Record<string, number>>({});
+  const serverIdRef = useRef<string | null>(null);
+
+  // Channels this hook follows: its subscriptions, or every event when it has none
+  const activeChannels = useCallback((): string[] => {
+    const channels = new Set<string>();
+    subscriptionsRef.current.forEach(subscriptionStr => {
+      try {
+        subscriptionChannels(JSON.parse(subscriptionStr as string)).forEach(channel => channels.add(channel));
+      } catch (err) {
+        console.error('Failed to parse subscription:', err);
+      }
+    });
+    return channels.size > 0 ? [...channels] : ['all'];
+  }, []);
+
+  // Record event ids and tell whether the event was already delivered
+  const trackEvent = useCallback((eventIds: Record<string, number>): boolean => {
+    const channels = activeChannels();
+    let isNew = false;
+    for (const [channel, eventId] of Object.entries(eventIds)) {
+      if (!channels.includes(channel)) continue;
+      if (eventId > (cursorsRef.current[channel] || 0)) {
+        cursorsRef.current[channel] = eventId;
+        isNew = true;
+      }
+    }
+    return isNew;
+  }, [activeChannels]);
 
   // Send message to WebSocket
   const sendMessage = useCallback((message: any) => {
@@ -110,7 +154,9 @@ export const useWebSocket = (options: WebSocketOptions = {}) => {
       setConnectionStatus('connecting');
       setError(null);
       
-      wsRef.current = new WebSocket(WS_URL);
+      // Browsers cannot set headers on a WebSocket, so the token goes in the URL
+      const authToken = token ?? useAppStore.getState().session.token;
+      wsRef.current = new WebSocket(authToken ? `${WS_URL}?token=${encodeURIComponent(authToken)}` : WS_URL);
 
       wsRef.current.onopen = () => {
         console.log('WebSocket connected');
@@ -121,14 +167,27 @@ export const useWebSocket = (options: WebSocketOptions = {}) => {
         // Start ping interval
         startPingInterval();
         
-        // Re-subscribe to existing subscriptions
+        // Resume channels seen before the disconnect so missed events are
+        // replayed; resuming subscribes to them. Subscribe to the rest.
+        const cursors: Record<string, number> = {};
+        activeChannels().forEach(channel => {
+          if (cursorsRef.current[channel] !== undefined) {
+            cursors[channel] = cursorsRef.current[channel];
+          }
+        });
+        if (Object.keys(cursors).length > 0) {
+          sendMessage({ type: 'resume', serverId: serverIdRef.current, cursors });
+        }
+
         subscriptionsRef.current.forEach(subscriptionStr => {
           try {
             const subscription = JSON.parse(subscriptionStr as string);
-            sendMessage({
-              type: 'subscribe',
-              ...subscription
-            });
+            if (subscriptionChannels(subscription).some(channel => cursors[channel] === undefined)) {
+              sendMessage({
+                type: 'subscribe',
+                ...subscription
+              });
+            }
           } catch (err) {
             console.error('Failed to parse subscription:', err);
           }
@@ -146,6 +205,20 @@ export const useWebSocket = (options: WebSocketOptions = {}) => {
           if (message.type === 'pong') {
             return;
           }
+
+          if (message.type === 'connection') {
+            serverIdRef.current = message.data?.serverId ?? null;
+          } else if (message.type === 'resumed') {
+            const gaps: string[] = message.data?.gaps || [];
+            gaps.forEach(channel => {
+              cursorsRef.current[channel] = message.data.channels[channel];
+            });
+            if (gaps.length > 0) {
+              onResumeGap?.(gaps);
+            }
+          } else if (message.eventIds && !trackEvent(message.eventIds)) {
+            return; // Already delivered before a replay
+          }
           
           onMessage?.(message);
         } catch (err) {
@@ -162,8 +235,8 @@ export const useWebSocket = (options: WebSocketOptions = {}) => {
         
         onDisconnect?.(event);
         
-        // Auto-reconnect if enabled and not a manual close
-        if (autoReconnect && event.code !== 1000 && reconnectAttemptsRef.current < MAX_RECONNECT_ATTEMPTS) {
+        // Auto-reconnect if enabled and not a manual close or a rejected token
+        if (autoReconnect && event.code !== 1000 && event.code !== WS_UNAUTHORIZED && reconnectAttemptsRef.current < MAX_RECONNECT_ATTEMPTS) {
           reconnectAttemptsRef.current += 1;
           setConnectionStatus('reconnecting');
           
@@ -185,7 +258,7 @@ export const useWebSocket = (options: WebSocketOptions = {}) => {
       setError(err);
       setConnectionStatus('error');
     }
-  }, [autoReconnect, onConnect, onDisconnect, onError, onMessage, sendMessage, startPingInterval, stopPingInterval]);
+  }, [autoReconnect, token, onConnect, onDisconnect, onError, onMessage, onResumeGap, sendMessage, startPingInterval, stopPingInterval, activeChannels, trackEvent]);
 
   // Disconnect from WebSocket
   const disconnect = useCallback((reason?: string) => {
@@ -3,15 +3,45 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { ArrowLeft, Upload, FileText, DollarSign, Calendar, Building, CheckCircle, Eye, Wallet, ExternalLink } from 'lucide-react'
 import { Link, useNavigate } from 'react-router-dom'
-import { useCreateInvoice } from '@/hooks/useInvoices'
+import { useCreateInvoice, useExtractInvoiceData } from '@/hooks/useInvoices'
 import { ProofPill } from '@/components/ProofPill'
-import { CreateInvoiceRequest, CreateInvoiceResponse } from '@/types/api'
+import { CreateInvoiceRequest, CreateInvoiceResponse, ExtractedField, FieldMismatch, InvoiceExtraction } from '@/types/api'
 import { useWallet } from '@/contexts/WalletContext'
 import transactionService from '@/services/transactionService'
 
+// Values read from the PDF with less confidence than this are not filled in
+const PREFILL_CONFIDENCE = 0.5
+const CURRENCIES = ['USD', 'EUR', 'HBAR']
+
+const FIELD_LABELS: Record<FieldMismatch['field'], string> = {
+  invoiceNumber: 'Invoice number',
+  amount: 'Amount',
+  currency: 'Currency',
+  issueDate: 'Issue date',
+  dueDate: 'Due date',
+  buyerName: 'Buyer'
+}
+
+// Fill the fields the supplier has not entered yet from the invoice PDF
+const prefillFromExtraction = (form: CreateInvoiceRequest, extraction: InvoiceExtraction): CreateInvoiceRequest => {
+  const usable = <T,>(field?: ExtractedField<T>) => (field && field.confidence >= PREFILL_CONFIDENCE ? field.value : undefined)
+  const { fields, lineItems } = extraction
+  const currency = usable(fields.currency)
+
+  return {
+    ...form,
+    invoiceNumber: form.invoiceNumber || usable(fields.invoiceNumber) || '',
+    amount: form.amount || (usable(fields.amount)?.toString() ?? ''),
+    currency: currency && CURRENCIES.includes(currency) ? currency : form.currency,
+    dueDate: form.dueDate || usable(fields.dueDate) || '',
+    description: form.description || lineItems.map(item => item.description).join(', ')
+  }
+}
+
 const CreateInvoice: React.FC = () => {
   const navigate = useNavigate()
   const createInvoiceMutation = useCreateInvoice()
+  const extractInvoiceMutation = useExtractInvoiceData()
   const { isConnected, accountId, connect } = useWallet()
   
   const [formData, setFormData] = useState<CreateInvoiceRequest>({
@@ -27,6 +57,8 @@ const CreateInvoice: React.FC = () => {
 
   const [createdInvoice, setCreatedInvoice] = useState<CreateInvoiceResponse | null>(null)
   const [transactionResult, setTransactionResult] = useState<{ transactionId: string; hashScanUrl: string } | null>(null)
+  const [extraction, setExtraction] = useState<InvoiceExtraction | null>(null)
+  const [mismatches, setMismatches] = useState<FieldMismatch[]>([])
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target
@@ -36,12 +68,24 @@ const CreateInvoice: React.FC = () => {
     }))
   }
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     setFormData(prev => ({
       ...prev,
       file
     }))
+    setExtraction(null)
+    setMismatches([])
+
+    if (!file) return
+
+    try {
+      const result = await extractInvoiceMutation.mutateAsync({ file })
+      setExtraction(result.extraction)
+      setFormData(prev => prefillFromExtraction(prev, result.extraction))
+    } catch (error) {
+      console.error('Failed to read invoice PDF:', error)
+    }
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -51,6 +95,21 @@ const CreateInvoice: React.FC = () => {
       alert('Please connect your wallet first')
       return
     }
+
+    // Check the entered values against the document before minting
+    if (formData.file) {
+      try {
+        const result = await extractInvoiceMutation.mutateAsync({ file: formData.file, entered: formData })
+        setMismatches(result.mismatches)
+
+        if (result.mismatches.length > 0) {
+          const fields = result.mismatches.map(mismatch => FIELD_LABELS[mismatch.field]).join(', ')
+          if (!window.confirm(`${fields} entered differ from the invoice document. Mint anyway?`)) return
+        }
+      } catch (error) {
+        console.error('Failed to check invoice against PDF:', error)
+      }
+    }
     
     try {
       // Use transactionService for wallet-signed transactions
@@ -88,6 +147,8 @@ const CreateInvoice: React.FC = () => {
 
   const handleCreateAnother = () => {
     setCreatedInvoice(null)
+    setExtraction(null)
+    setMismatches([])
     setFormData({
       invoiceNumber: '',
       supplierId: 'supplier-1',
@@ -229,6 +290,11 @@ const CreateInvoice: React.FC = () => {
                         className="w-full pl-10 pr-4 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring"
                       />
                     </div>
+                    {extraction?.fields.buyerName && (
+                      <p className="text-xs text-muted-foreground">
+                        Buyer on document: {extraction.fields.buyerName.value}
+                      </p>
+                    )}
                   </div>
 
                 <div className="space-y-2">
@@ -315,10 +381,33 @@ const CreateInvoice: React.FC = () => {
                           Selected: {formData.file.name}
                         </p>
                       )}
+                      {extractInvoiceMutation.isPending && (
+                        <p className="text-xs text-muted-foreground mt-2">
+                          Reading invoice details...
+                        </p>
+                      )}
+                      {extraction && !extraction.hasText && (
+                        <p className="text-xs text-muted-foreground mt-2">
+                          No text found in this PDF, please enter the details manually
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
 
+                {mismatches.length > 0 && (
+                  <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-1" data-testid="extraction-mismatches">
+                    <p className="text-sm font-medium text-amber-900">
+                      Entered values differ from the invoice document
+                    </p>
+                    {mismatches.map(mismatch => (
+                      <p key={mismatch.field} className={`text-xs ${mismatch.severity === 'error' ? 'text-red-700' : 'text-amber-800'}`}>
+                        {FIELD_LABELS[mismatch.field]}: entered {String(mismatch.entered)}, document shows {String(mismatch.extracted)} ({Math.round(mismatch.confidence * 100)}% confidence)
+                      </p>
+                    ))}
+                  </div>
+                )}
+
                 <div className="flex gap-4">
                   {!createdInvoice ? (
                   <>
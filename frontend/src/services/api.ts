@@ -4,6 +4,10 @@ import {
   Invoice,
   CreateInvoiceRequest,
   CreateInvoiceResponse,
+  InvoiceExtractionResponse,
+  StartDocumentUploadRequest,
+  DocumentUpload,
+  DocumentUploadResponse,
   UpdateInvoiceRequest,
   PaginatedResponse,
   InvoiceFilters,
@@ -200,6 +204,87 @@ class ApiClient {
     });
   }
 
+  async extractInvoiceData(file: File, entered: Partial<CreateInvoiceRequest> = {}): Promise<InvoiceExtractionResponse> {
+    const formData = new FormData();
+
+    // Entered values are compared with the document
+    Object.entries(entered).forEach(([key, value]) => {
+      if (key !== 'file' && value !== undefined && value !== '') {
+        formData.append(key, String(value));
+      }
+    });
+    formData.append('file', file);
+
+    return this.request<InvoiceExtractionResponse>('/api/documents/extract', {
+      method: 'POST',
+      headers: {}, // Let browser set Content-Type for FormData
+      body: formData,
+    });
+  }
+
+  // Resumable document upload endpoints
+  async startDocumentUpload(data: StartDocumentUploadRequest): Promise<DocumentUploadResponse> {
+    return this.request<DocumentUploadResponse>('/api/documents/uploads', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getDocumentUpload(uploadId: string): Promise<DocumentUploadResponse> {
+    return this.request<DocumentUploadResponse>(`/api/documents/uploads/${uploadId}`);
+  }
+
+  async uploadDocumentPart(uploadId: string, partNumber: number, part: Blob): Promise<DocumentUploadResponse> {
+    return this.request<DocumentUploadResponse>(`/api/documents/uploads/${uploadId}/parts/${partNumber}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: part,
+    });
+  }
+
+  async completeDocumentUpload(uploadId: string): Promise<DocumentUploadResponse> {
+    return this.request<DocumentUploadResponse>(`/api/documents/uploads/${uploadId}/complete`, {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
+  }
+
+  async abortDocumentUpload(uploadId: string): Promise<DocumentUploadResponse> {
+    return this.request<DocumentUploadResponse>(`/api/documents/uploads/${uploadId}`, {
+      method: 'DELETE',
+      body: JSON.stringify({}),
+    });
+  }
+
+  /**
+   * Upload a document in parts, reporting progress as each part is stored.
+   * Pass the id of an earlier upload to resume it: only the parts the server
+   * is missing are sent, and completing again picks up an interrupted HFS write.
+   */
+  async uploadDocumentResumable(
+    file: File,
+    data: Omit<StartDocumentUploadRequest, 'filename' | 'mimeType' | 'size'>,
+    onProgress?: (upload: DocumentUpload) => void,
+    uploadId?: string
+  ): Promise<DocumentUpload> {
+    let { upload } = uploadId
+      ? await this.getDocumentUpload(uploadId)
+      : await this.startDocumentUpload({ ...data, filename: file.name, mimeType: file.type, size: file.size });
+    onProgress?.(upload);
+
+    for (const partNumber of upload.missingParts) {
+      const start = (partNumber - 1) * upload.partSize;
+      ({ upload } = await this.uploadDocumentPart(upload.id, partNumber, file.slice(start, start + upload.partSize)));
+      onProgress?.(upload);
+    }
+
+    if (upload.status !== 'COMPLETED') {
+      ({ upload } = await this.completeDocumentUpload(upload.id));
+      onProgress?.(upload);
+    }
+    return upload;
+  }
+
   // Wallet signing endpoints for invoices
   async prepareMintTransaction(data: {
     invoiceNumber: string;
@@ -289,6 +374,16 @@ class ApiClient {
     });
   }
 
+  // Investor portfolio and ledger
+  async getPortfolio(currency?: string): Promise<any> {
+    const query = currency ? `?currency=${encodeURIComponent(currency)}` : '';
+    return this.request(`/api/investors/me/portfolio${query}`);
+  }
+
+  async getLedger(limit = 50, offset = 0): Promise<any> {
+    return this.request(`/api/investors/me/ledger?limit=${limit}&offset=${offset}`);
+  }
+
   // Mirror Node endpoints
   async getNFTInfo(tokenId: string, serialNumber: string): Promise<any> {
     return this.request<any>(`/api/hedera/mirror/tokens/${tokenId}/nfts/${serialNumber}`);
@@ -374,10 +469,22 @@ export const invoiceApi = {
   update: (id: string, data: UpdateInvoiceRequest) => apiClient.updateInvoice(id, data),
   delete: (id: string) => apiClient.deleteInvoice(id),
   fund: (invoiceId: string, amount: string) => apiClient.fundInvoice(invoiceId, amount),
+  extract: (file: File, entered?: Partial<CreateInvoiceRequest>) => apiClient.extractInvoiceData(file, entered),
   prepareMint: (data: any) => apiClient.prepareMintTransaction(data),
   submitMint: (data: any) => apiClient.submitMintTransaction(data),
 };
 
+export const documentApi = {
+  upload: (
+    file: File,
+    data: Omit<StartDocumentUploadRequest, 'filename' | 'mimeType' | 'size'>,
+    onProgress?: (upload: DocumentUpload) => void,
+    uploadId?: string
+  ) => apiClient.uploadDocumentResumable(file, data, onProgress, uploadId),
+  getUpload: (uploadId: string) => apiClient.getDocumentUpload(uploadId),
+  abortUpload: (uploadId: string) => apiClient.abortDocumentUpload(uploadId),
+};
+
 export const fundingApi = {
   create: (invoiceId: string, amount: string) => apiClient.fundInvoice(invoiceId, amount),
   getById: (fundingId: string) => apiClient.getFunding(fundingId),
@@ -386,6 +493,11 @@ export const fundingApi = {
   refund: (fundingId: string) => apiClient.refundFunding(fundingId),
 };
 
+export const investorApi = {
+  getPortfolio: (currency?: string) => apiClient.getPortfolio(currency),
+  getLedger: (limit?: number, offset?: number) => apiClient.getLedger(limit, offset),
+};
+
 export const mirrorNodeApi = {
   getNFTInfo: (tokenId: string, serialNumber: string) => apiClient.getNFTInfo(tokenId, serialNumber),
   getNFTsByToken: (tokenId: string, limit?: number) => apiClient.getNFTsByToken(tokenId, limit),
@@ -407,7 +519,9 @@ export const api = {
   auth: authApi,
   user: userApi,
   invoice: invoiceApi,
+  document: documentApi,
   funding: fundingApi,
+  investor: investorApi,
   mirror: mirrorNodeApi,
   client: apiClient,
 };
@@ -5,12 +5,29 @@ import { apiClient } from './api';
  */
 export class MilestonesApi {
   /**
-   * Create a new milestone
+   * Prepare a milestone for the agent's wallet to sign
    * @param {Object} milestoneData - Milestone data
    * @param {string} milestoneData.tokenId - NFT token ID
    * @param {number} milestoneData.serial - NFT serial number
    * @param {string} milestoneData.milestone - Milestone type
-   * @param {Object} milestoneData.metadata - Additional metadata
+   * @param {string[]} [milestoneData.evidenceDocumentIds] - Uploaded evidence documents (photos, customs forms, delivery receipts)
+   * @returns {Promise<Object>} Nonce, message to sign and the evidence it covers
+   */
+  static async prepareMilestone(milestoneData) {
+    try {
+      const response = await apiClient.post('/api/milestones/prepare', milestoneData);
+      return response.data;
+    } catch (error) {
+      console.error('Error preparing milestone:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a new milestone signed by the authenticated agent
+   * @param {Object} milestoneData - Milestone data, as passed to prepareMilestone
+   * @param {string} milestoneData.nonce - Nonce returned by prepareMilestone
+   * @param {string} milestoneData.signature - Agent signature over the prepared message
    * @returns {Promise<Object>} Created milestone
    */
   static async createMilestone(milestoneData) {
@@ -23,6 +40,21 @@ export class MilestonesApi {
     }
   }
 
+  /**
+   * Check a milestone's agent signature and evidence hashes
+   * @param {string} milestoneId - Milestone ID
+   * @returns {Promise<Object>} Signature and per-document evidence verification
+   */
+  static async verifyMilestone(milestoneId) {
+    try {
+      const response = await apiClient.get(`/api/milestones/${milestoneId}/verification`);
+      return response.data;
+    } catch (error) {
+      console.error('Error verifying milestone:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get milestone timeline for a specific NFT
    * @param {string} tokenId - NFT token ID
@@ -144,6 +144,88 @@ export interface CreateInvoiceResponse {
   };
 }
 
+// Invoice fields read from an uploaded PDF, each with a 0-1 confidence
+export interface ExtractedField<T> {
+  value: T;
+  confidence: number;
+  source: string;
+}
+
+export interface ExtractedLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  confidence: number;
+}
+
+export interface InvoiceExtraction {
+  pageCount: number;
+  hasText: boolean;
+  fields: {
+    invoiceNumber?: ExtractedField<string>;
+    amount?: ExtractedField<number>;
+    currency?: ExtractedField<string>;
+    issueDate?: ExtractedField<string>;
+    dueDate?: ExtractedField<string>;
+    buyerName?: ExtractedField<string>;
+  };
+  lineItems: ExtractedLineItem[];
+}
+
+export interface FieldMismatch {
+  field: keyof InvoiceExtraction['fields'];
+  entered: string | number;
+  extracted: string | number;
+  confidence: number;
+  severity: 'warning' | 'error';
+}
+
+export interface InvoiceExtractionResponse {
+  success: boolean;
+  extraction: InvoiceExtraction;
+  mismatches: FieldMismatch[];
+}
+
+// Resumable document uploads
+export interface StartDocumentUploadRequest {
+  invoiceId: string;
+  supplierId: string;
+  documentType: 'invoice' | 'contract' | 'receipt' | 'photo' | 'customs_form' | 'delivery_receipt';
+  filename: string;
+  mimeType: string;
+  size: number;
+  sha256?: string;
+}
+
+export interface DocumentUpload {
+  id: string;
+  invoiceId: string;
+  filename: string;
+  mimeType: string;
+  status: 'OPEN' | 'COMPLETING' | 'COMPLETED' | 'ABORTED';
+  totalSize: number;
+  partSize: number;
+  totalParts: number;
+  receivedParts: number[];
+  missingParts: number[];
+  fileId: string | null;
+  documentId: string | null;
+  lastError: string | null;
+  expiresAt: string;
+  progress: {
+    receivedBytes: number;
+    appendedBytes: number;
+    storedBytes: number;
+    percent: number;
+  };
+}
+
+export interface DocumentUploadResponse {
+  success: boolean;
+  upload: DocumentUpload;
+}
+
 export interface UpdateInvoiceRequest {
   status?: Invoice['status'];
   agentId?: string;